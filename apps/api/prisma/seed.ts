@@ -1,5 +1,6 @@
 import { PrismaClient } from '@prisma/client';
 import * as argon2 from 'argon2';
+import { defaultCategoryRows } from '../src/modules/categories/category.util';
 
 const prisma = new PrismaClient();
 
@@ -23,6 +24,7 @@ async function main() {
       email: 'test@example.com',
       name: 'Test User',
       password: testPassword,
+      categories: { create: defaultCategoryRows() },
     },
   });
 
@@ -31,6 +33,7 @@ async function main() {
       email: 'demo@example.com',
       name: 'Demo User',
       password: testPassword,
+      categories: { create: defaultCategoryRows() },
     },
   });
 
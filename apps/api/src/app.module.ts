@@ -2,9 +2,21 @@ import { Module } from '@nestjs/common';
 import { ConfigModule, ConfigService } from '@nestjs/config';
 import { APP_GUARD } from '@nestjs/core';
 import { ThrottlerModule, ThrottlerGuard } from '@nestjs/throttler';
+import { ScheduleModule } from '@nestjs/schedule';
 import { PrismaModule } from '@common/prisma/prisma.module';
 import { SessionsModule } from './modules/sessions/sessions.module';
 import { TemplatesModule } from './modules/templates/templates.module';
+import { ProgressModule } from './modules/progress/progress.module';
+import { SessionTasksModule } from './modules/session-tasks/session-tasks.module';
+import { CalendarModule } from './modules/calendar/calendar.module';
+import { TimerModule } from './modules/timer/timer.module';
+import { SettingsModule } from './modules/settings/settings.module';
+import { UserDataModule } from './modules/user-data/user-data.module';
+import { CategoriesModule } from './modules/categories/categories.module';
+import { TagsModule } from './modules/tags/tags.module';
+import { GoalsModule } from './modules/goals/goals.module';
+import { AvailabilityModule } from './modules/availability/availability.module';
+import { PlannerModule } from './modules/planner/planner.module';
 import { AuthModule } from './modules/auth/auth.module';
 import { JwtAuthGuard } from './modules/auth/guards/jwt-auth.guard';
 import { AppController } from './app.controller';
@@ -29,10 +41,22 @@ import { AppService } from './app.service';
         ],
       }),
     }),
+    ScheduleModule.forRoot(),
     PrismaModule,
     AuthModule,
     SessionsModule,
     TemplatesModule,
+    ProgressModule,
+    SessionTasksModule,
+    CalendarModule,
+    TimerModule,
+    SettingsModule,
+    UserDataModule,
+    CategoriesModule,
+    TagsModule,
+    GoalsModule,
+    AvailabilityModule,
+    PlannerModule,
   ],
   controllers: [AppController],
   providers: [
@@ -0,0 +1,13 @@
+import { Logger } from '@nestjs/common';
+import { MailTransport, type MailMessage } from './mail-transport';
+
+/**
+ * Logs every message instead of sending it
+ */
+export class ConsoleTransport extends MailTransport {
+  private readonly logger = new Logger(ConsoleTransport.name);
+
+  async send(message: MailMessage): Promise<void> {
+    this.logger.log(`Mail to ${message.to}: ${message.subject}\n${message.text}`);
+  }
+}
@@ -0,0 +1,34 @@
+import { Logger } from '@nestjs/common';
+import { mkdir, writeFile } from 'fs/promises';
+import { join, resolve } from 'path';
+import { MailTransport, type MailMessage } from './mail-transport';
+
+/**
+ * Writes every message as an .eml file that mail clients can open
+ */
+export class FileTransport extends MailTransport {
+  private readonly logger = new Logger(FileTransport.name);
+  private readonly directory: string;
+
+  constructor(directory: string) {
+    super();
+    this.directory = resolve(directory);
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+    const recipient = message.to.replace(/[^a-z0-9@._-]/gi, '_');
+    const file = join(this.directory, `${Date.now()}-${recipient}.eml`);
+
+    const headers = [
+      `From: ${message.from}`,
+      `To: ${message.to}`,
+      `Subject: ${message.subject}`,
+      `Date: ${new Date().toUTCString()}`,
+      'MIME-Version: 1.0',
+      'Content-Type: text/plain; charset=utf-8',
+    ];
+    await writeFile(file, `${headers.join('\r\n')}\r\n\r\n${message.text}\r\n`, 'utf8');
+    this.logger.log(`Mail to ${message.to} written to ${file}`);
+  }
+}
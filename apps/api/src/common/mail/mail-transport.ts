@@ -0,0 +1,19 @@
+/**
+ * Outgoing email, plain text with an optional HTML alternative
+ */
+export interface MailMessage {
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/**
+ * How mail leaves the API. Picked by MAIL_TRANSPORT: `smtp` for real
+ * delivery, `file` to write .eml files and `console` to log them, so the
+ * flows can be tried without a mail server.
+ */
+export abstract class MailTransport {
+  abstract send(message: MailMessage): Promise<void>;
+}
@@ -0,0 +1,41 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { MailTransport } from './mail-transport';
+import { SmtpTransport } from './smtp.transport';
+import { FileTransport } from './file.transport';
+import { ConsoleTransport } from './console.transport';
+import { MailService } from './mail.service';
+
+function createMailTransport(configService: ConfigService): MailTransport {
+  const kind = configService.get<string>('MAIL_TRANSPORT', 'console');
+  switch (kind) {
+    case 'smtp':
+      return new SmtpTransport({
+        host: configService.get<string>('SMTP_HOST', 'localhost'),
+        port: Number(configService.get<string>('SMTP_PORT', '587')),
+        secure: configService.get<string>('SMTP_SECURE') === 'true',
+        user: configService.get<string>('SMTP_USER'),
+        pass: configService.get<string>('SMTP_PASS'),
+      });
+    case 'file':
+      return new FileTransport(configService.get<string>('MAIL_OUTBOX_DIR', 'outbox'));
+    case 'console':
+      return new ConsoleTransport();
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT "${kind}" (expected smtp, file or console)`);
+  }
+}
+
+@Module({
+  imports: [ConfigModule],
+  providers: [
+    {
+      provide: MailTransport,
+      inject: [ConfigService],
+      useFactory: createMailTransport,
+    },
+    MailService,
+  ],
+  exports: [MailService],
+})
+export class MailModule {}
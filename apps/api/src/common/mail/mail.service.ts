@@ -0,0 +1,101 @@
+import { Injectable, Logger, ServiceUnavailableException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MailTransport } from './mail-transport';
+
+@Injectable()
+export class MailService {
+  private readonly logger = new Logger(MailService.name);
+
+  constructor(
+    private readonly transport: MailTransport,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Absolute link into the web app. APP_URL wins; otherwise the first
+   * allowed CORS origin, which is where the app is served from.
+   */
+  appUrl(path: string): string {
+    const base =
+      this.configService.get<string>('APP_URL') ??
+      this.configService.get<string>('CORS_ORIGIN')?.split(',')[0].trim() ??
+      'http://localhost:3000';
+    return new URL(path, base).toString();
+  }
+
+  async send(to: string, subject: string, text: string): Promise<void> {
+    const from = this.configService.get<string>('MAIL_FROM', 'Learn Session Planner <no-reply@localhost>');
+    try {
+      await this.transport.send({ from, to, subject, text });
+    } catch (error) {
+      this.logger.error(`Failed to send "${subject}" to ${to}`, error instanceof Error ? error.stack : error);
+      throw new ServiceUnavailableException('The email could not be sent, please try again later');
+    }
+  }
+
+  async sendPasswordReset(to: string, name: string | null, token: string, validMinutes: number) {
+    const link = this.appUrl(`/reset-password?token=${encodeURIComponent(token)}`);
+    await this.send(
+      to,
+      'Reset your password',
+      [
+        `Hi ${name || 'there'},`,
+        '',
+        'Someone asked to reset the password of your Learn Session Planner account.',
+        `Choose a new password within ${validMinutes} minutes:`,
+        '',
+        link,
+        '',
+        'If that was not you, ignore this email; your password stays unchanged.',
+      ].join('\n'),
+    );
+  }
+
+  async sendEmailVerification(to: string, name: string | null, token: string, validHours: number) {
+    const link = this.appUrl(`/verify-email?token=${encodeURIComponent(token)}`);
+    await this.send(
+      to,
+      'Confirm your email address',
+      [
+        `Hi ${name || 'there'},`,
+        '',
+        `Confirm that ${to} belongs to you by opening this link within ${validHours} hours:`,
+        '',
+        link,
+        '',
+        'If you did not sign up for Learn Session Planner, ignore this email.',
+      ].join('\n'),
+    );
+  }
+
+  async sendEmailChange(to: string, name: string | null, token: string, validHours: number) {
+    const link = this.appUrl(`/verify-email?token=${encodeURIComponent(token)}`);
+    await this.send(
+      to,
+      'Confirm your new email address',
+      [
+        `Hi ${name || 'there'},`,
+        '',
+        `To sign in to Learn Session Planner with ${to} from now on, open this link within ${validHours} hours:`,
+        '',
+        link,
+        '',
+        'If you did not ask for this change, ignore this email; the account keeps its current address.',
+      ].join('\n'),
+    );
+  }
+
+  async sendEmailChangedNotice(to: string, name: string | null, newEmail: string) {
+    await this.send(
+      to,
+      'Your email address was changed',
+      [
+        `Hi ${name || 'there'},`,
+        '',
+        `Your Learn Session Planner account now signs in with ${newEmail} instead of this address.`,
+        '',
+        `If you did not make this change, reset your password at ${this.appUrl('/forgot-password')} right away.`,
+      ].join('\n'),
+    );
+  }
+}
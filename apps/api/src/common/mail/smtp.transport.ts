@@ -0,0 +1,29 @@
+import { createTransport, type Transporter } from 'nodemailer';
+import { MailTransport, type MailMessage } from './mail-transport';
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  /** TLS from the start (usually port 465); otherwise STARTTLS when offered */
+  secure: boolean;
+  user?: string;
+  pass?: string;
+}
+
+export class SmtpTransport extends MailTransport {
+  private readonly transporter: Transporter;
+
+  constructor(options: SmtpOptions) {
+    super();
+    this.transporter = createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.secure,
+      ...(options.user && { auth: { user: options.user, pass: options.pass } }),
+    });
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail(message);
+  }
+}
@@ -0,0 +1,139 @@
+/**
+ * Time zone helpers built on Intl (IANA zone names)
+ */
+
+/**
+ * Wall-clock fields of an instant in some time zone (month is 1-based)
+ */
+export interface ZonedDateParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  /** 0 = Sunday */
+  weekday: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Formatters are costly to build, so keep one per time zone */
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const WEEKDAY_INDEX: Record<string, number> = {
+  Sun: 0,
+  Mon: 1,
+  Tue: 2,
+  Wed: 3,
+  Thu: 4,
+  Fri: 5,
+  Sat: 6,
+};
+
+/**
+ * Check whether a time zone name is known to the runtime
+ */
+export function isKnownTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Wall-clock fields of an instant in the given time zone
+ */
+export function getZonedParts(date: Date, timeZone: string): ZonedDateParts {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      weekday: 'short',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  const parts: Record<string, string> = {};
+  for (const part of formatter.formatToParts(date)) {
+    parts[part.type] = part.value;
+  }
+
+  return {
+    year: parseInt(parts.year),
+    month: parseInt(parts.month),
+    day: parseInt(parts.day),
+    hour: parseInt(parts.hour),
+    minute: parseInt(parts.minute),
+    second: parseInt(parts.second),
+    weekday: WEEKDAY_INDEX[parts.weekday],
+  };
+}
+
+/**
+ * Offset of a time zone from UTC in milliseconds at the given instant
+ */
+export function timeZoneOffset(timestamp: number, timeZone: string): number {
+  const parts = getZonedParts(new Date(timestamp), timeZone);
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return asUtc - Math.floor(timestamp / 1000) * 1000;
+}
+
+/**
+ * Instant at which the given wall-clock time occurs in a time zone.
+ * Out-of-range fields roll over like Date.UTC (e.g. day 32 is the next month).
+ */
+export function zonedTimeToUtc(
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  minute: number,
+  second: number,
+  timeZone: string,
+): Date {
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute, second);
+  const offset = timeZoneOffset(wallClock, timeZone);
+  const adjusted = timeZoneOffset(wallClock - offset, timeZone);
+  return new Date(wallClock - adjusted);
+}
+
+/**
+ * Calendar day (YYYY-MM-DD) an instant falls on in a time zone
+ */
+export function formatDateKey(date: Date, timeZone: string): string {
+  const { year, month, day } = getZonedParts(date, timeZone);
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * Sequential number of the calendar day an instant falls on in a time zone;
+ * consecutive local days differ by exactly one
+ */
+export function zonedDayNumber(date: Date, timeZone: string): number {
+  const { year, month, day } = getZonedParts(date, timeZone);
+  return Math.round(Date.UTC(year, month - 1, day) / DAY_MS);
+}
+
+/**
+ * Calendar day key (YYYY-MM-DD) of a day number from zonedDayNumber
+ */
+export function dayNumberToKey(dayNumber: number): string {
+  return new Date(dayNumber * DAY_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * Local midnight that starts a day number from zonedDayNumber
+ */
+export function startOfZonedDay(dayNumber: number, timeZone: string): Date {
+  const [year, month, day] = dayNumberToKey(dayNumber).split('-').map(Number);
+  return zonedTimeToUtc(year, month, day, 0, 0, 0, timeZone);
+}
@@ -6,22 +6,44 @@ import {
   Req,
   UseGuards,
   Get,
+  Delete,
+  Patch,
+  Param,
+  ParseUUIDPipe,
+  Query,
   HttpCode,
   HttpStatus,
 } from '@nestjs/common';
 import type { Response, Request } from 'express';
 import { Throttle } from '@nestjs/throttler';
+import type { LoginEventsQuery } from '@repo/shared-types';
 import { AuthService } from './auth.service';
+import { TwoFactorService } from './two-factor.service';
+import { LoginAuditService } from './login-audit.service';
 import { Public } from './decorators/public.decorator';
 import { RefreshTokenGuard } from './guards/refresh-token.guard';
 import { CurrentUser } from './decorators/current-user.decorator';
-import type { JwtPayload, RefreshTokenPayload } from './interfaces/jwt-payload.interface';
+import type { RefreshTokenPayload } from './interfaces/jwt-payload.interface';
 import { RegisterDto } from './dtos/register.dto';
 import { LoginDto } from './dtos/login.dto';
+import { ForgotPasswordDto } from './dtos/forgot-password.dto';
+import { ResetPasswordDto } from './dtos/reset-password.dto';
+import { VerifyEmailDto } from './dtos/verify-email.dto';
+import { LoginTwoFactorDto } from './dtos/login-two-factor.dto';
+import { TwoFactorCodeDto } from './dtos/two-factor-code.dto';
+import { DisableTwoFactorDto } from './dtos/disable-two-factor.dto';
+import { UpdateProfileDto } from './dtos/update-profile.dto';
+import { ChangePasswordDto } from './dtos/change-password.dto';
+import { ChangeEmailDto } from './dtos/change-email.dto';
+import { DeleteAccountDto } from './dtos/delete-account.dto';
 
 @Controller('auth')
 export class AuthController {
-  constructor(private authService: AuthService) {}
+  constructor(
+    private authService: AuthService,
+    private twoFactorService: TwoFactorService,
+    private loginAudit: LoginAuditService,
+  ) {}
 
   @Public()
   @Post('register')
@@ -75,6 +97,52 @@ export class AuthController {
 
     const result = await this.authService.login(loginDto.email, loginDto.password, userAgent, ipAddress);
 
+    // Two-factor accounts get a challenge instead of tokens
+    if ('challengeToken' in result) {
+      return {
+        success: true,
+        message: 'Enter the code from your authenticator app',
+        data: result,
+      };
+    }
+
+    // Set refresh token as HttpOnly cookie
+    response.cookie('refreshToken', result.refreshToken, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'strict',
+      maxAge: 7 * 24 * 60 * 60 * 1000, // 7 days
+    });
+
+    return {
+      success: true,
+      message: 'Logged in successfully',
+      data: {
+        user: result.user,
+        accessToken: result.accessToken,
+      },
+    };
+  }
+
+  @Public()
+  @Post('login/2fa')
+  @Throttle({ default: { ttl: 60, limit: 5 } }) // 5 requests per 60 seconds
+  @HttpCode(HttpStatus.OK)
+  async loginTwoFactor(
+    @Body() loginTwoFactorDto: LoginTwoFactorDto,
+    @Req() request: Request,
+    @Res({ passthrough: true }) response: Response,
+  ) {
+    const userAgent = request.headers['user-agent'];
+    const ipAddress = request.ip || request.socket.remoteAddress;
+
+    const result = await this.authService.completeTwoFactorLogin(
+      loginTwoFactorDto.challengeToken,
+      loginTwoFactorDto.code,
+      userAgent,
+      ipAddress,
+    );
+
     // Set refresh token as HttpOnly cookie
     response.cookie('refreshToken', result.refreshToken, {
       httpOnly: true,
@@ -171,14 +239,277 @@ export class AuthController {
     };
   }
 
+  @Get('sessions')
+  async listSessions(@CurrentUser('sub') userId: string, @Req() request: Request) {
+    const sessions = await this.authService.listSessions(userId, request.cookies?.['refreshToken']);
+
+    return {
+      success: true,
+      data: sessions,
+    };
+  }
+
+  @Delete('sessions/:familyId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async revokeSession(
+    @CurrentUser('sub') userId: string,
+    @Param('familyId', ParseUUIDPipe) familyId: string,
+    @Req() request: Request,
+    @Res({ passthrough: true }) response: Response,
+  ): Promise<void> {
+    await this.authService.revokeSession(userId, familyId);
+
+    // Signing out this very device
+    if ((await this.authService.getFamilyId(request.cookies?.['refreshToken'])) === familyId) {
+      response.clearCookie('refreshToken');
+    }
+  }
+
+  @Get('login-events')
+  async listLoginEvents(
+    @CurrentUser('sub') userId: string,
+    @Query() query: LoginEventsQuery,
+  ) {
+    const events = await this.loginAudit.listEvents(userId, query);
+
+    return {
+      success: true,
+      data: events,
+    };
+  }
+
+  @Post('login-events/:id/report')
+  @HttpCode(HttpStatus.OK)
+  async reportLoginEvent(
+    @CurrentUser('sub') userId: string,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Res({ passthrough: true }) response: Response,
+  ) {
+    const event = await this.authService.reportSuspiciousLogin(userId, id);
+
+    // Every device was signed out, this one included
+    response.clearCookie('refreshToken');
+
+    return {
+      success: true,
+      message: 'Reported; every device was signed out',
+      data: event,
+    };
+  }
+
+  @Public()
+  @Post('forgot-password')
+  @Throttle({ default: { ttl: 60, limit: 3 } }) // 3 requests per 60 seconds
+  @HttpCode(HttpStatus.OK)
+  async forgotPassword(@Body() forgotPasswordDto: ForgotPasswordDto) {
+    await this.authService.requestPasswordReset(forgotPasswordDto.email);
+
+    // Same answer whether or not the account exists
+    return {
+      success: true,
+      message: 'If an account exists for this email, a reset link is on its way',
+    };
+  }
+
+  @Public()
+  @Post('reset-password')
+  @Throttle({ default: { ttl: 60, limit: 5 } }) // 5 requests per 60 seconds
+  @HttpCode(HttpStatus.OK)
+  async resetPassword(
+    @Body() resetPasswordDto: ResetPasswordDto,
+    @Res({ passthrough: true }) response: Response,
+  ) {
+    await this.authService.resetPassword(resetPasswordDto.token, resetPasswordDto.password);
+
+    // Every session was signed out, this one included
+    response.clearCookie('refreshToken');
+
+    return {
+      success: true,
+      message: 'Password reset successfully, please sign in',
+    };
+  }
+
+  @Public()
+  @Post('verify-email')
+  @Throttle({ default: { ttl: 60, limit: 10 } }) // 10 requests per 60 seconds
+  @HttpCode(HttpStatus.OK)
+  async verifyEmail(@Body() verifyEmailDto: VerifyEmailDto) {
+    const user = await this.authService.verifyEmail(verifyEmailDto.token);
+
+    return {
+      success: true,
+      message: 'Email address verified',
+      data: { user },
+    };
+  }
+
+  @Post('resend-verification')
+  @Throttle({ default: { ttl: 60, limit: 3 } }) // 3 requests per 60 seconds
+  @HttpCode(HttpStatus.OK)
+  async resendVerification(@CurrentUser('sub') userId: string) {
+    await this.authService.resendVerification(userId);
+
+    return {
+      success: true,
+      message: 'Verification email sent',
+    };
+  }
+
+  @Get('2fa')
+  async getTwoFactorStatus(@CurrentUser('sub') userId: string) {
+    const status = await this.twoFactorService.getStatus(userId);
+
+    return {
+      success: true,
+      data: status,
+    };
+  }
+
+  @Post('2fa/setup')
+  @HttpCode(HttpStatus.OK)
+  async setupTwoFactor(@CurrentUser('sub') userId: string) {
+    const setup = await this.twoFactorService.setup(userId);
+
+    return {
+      success: true,
+      message: 'Scan the code with your authenticator app',
+      data: setup,
+    };
+  }
+
+  @Post('2fa/enable')
+  @Throttle({ default: { ttl: 60, limit: 5 } }) // 5 requests per 60 seconds
+  @HttpCode(HttpStatus.OK)
+  async enableTwoFactor(
+    @CurrentUser('sub') userId: string,
+    @Body() twoFactorCodeDto: TwoFactorCodeDto,
+  ) {
+    const recoveryCodes = await this.twoFactorService.enable(userId, twoFactorCodeDto.code);
+
+    return {
+      success: true,
+      message: 'Two-factor authentication enabled',
+      data: recoveryCodes,
+    };
+  }
+
+  @Post('2fa/disable')
+  @Throttle({ default: { ttl: 60, limit: 5 } }) // 5 requests per 60 seconds
+  @HttpCode(HttpStatus.OK)
+  async disableTwoFactor(
+    @CurrentUser('sub') userId: string,
+    @Body() disableTwoFactorDto: DisableTwoFactorDto,
+  ) {
+    await this.twoFactorService.disable(userId, disableTwoFactorDto.password, disableTwoFactorDto.code);
+
+    return {
+      success: true,
+      message: 'Two-factor authentication disabled',
+    };
+  }
+
+  @Post('2fa/recovery-codes')
+  @Throttle({ default: { ttl: 60, limit: 5 } }) // 5 requests per 60 seconds
+  @HttpCode(HttpStatus.OK)
+  async regenerateRecoveryCodes(
+    @CurrentUser('sub') userId: string,
+    @Body() twoFactorCodeDto: TwoFactorCodeDto,
+  ) {
+    const recoveryCodes = await this.twoFactorService.regenerateRecoveryCodes(userId, twoFactorCodeDto.code);
+
+    return {
+      success: true,
+      message: 'New recovery codes generated',
+      data: recoveryCodes,
+    };
+  }
+
   @Get('me')
-  async getProfile(@CurrentUser() user: JwtPayload) {
+  async getProfile(@CurrentUser('sub') userId: string) {
+    const user = await this.authService.getProfile(userId);
+
+    return {
+      success: true,
+      data: { user },
+    };
+  }
+
+  @Patch('me')
+  async updateProfile(
+    @CurrentUser('sub') userId: string,
+    @Body() updateProfileDto: UpdateProfileDto,
+  ) {
+    const user = await this.authService.updateProfile(userId, updateProfileDto.name);
+
+    return {
+      success: true,
+      message: 'Profile updated',
+      data: { user },
+    };
+  }
+
+  @Post('change-password')
+  @Throttle({ default: { ttl: 60, limit: 5 } }) // 5 requests per 60 seconds
+  @HttpCode(HttpStatus.OK)
+  async changePassword(
+    @CurrentUser('sub') userId: string,
+    @Body() changePasswordDto: ChangePasswordDto,
+    @Req() request: Request,
+  ) {
+    await this.authService.changePassword(
+      userId,
+      changePasswordDto.currentPassword,
+      changePasswordDto.newPassword,
+      request.cookies?.['refreshToken'],
+    );
+
+    return {
+      success: true,
+      message: 'Password changed; your other devices were signed out',
+    };
+  }
+
+  @Post('change-email')
+  @Throttle({ default: { ttl: 60, limit: 3 } }) // 3 requests per 60 seconds
+  @HttpCode(HttpStatus.OK)
+  async changeEmail(
+    @CurrentUser('sub') userId: string,
+    @Body() changeEmailDto: ChangeEmailDto,
+  ) {
+    const user = await this.authService.requestEmailChange(userId, changeEmailDto.email, changeEmailDto.password);
+
     return {
       success: true,
+      message: `We sent a confirmation link to ${changeEmailDto.email}`,
       data: { user },
     };
   }
 
+  @Post('delete-account')
+  @Throttle({ default: { ttl: 60, limit: 3 } }) // 3 requests per 60 seconds
+  @HttpCode(HttpStatus.OK)
+  async deleteAccount(
+    @CurrentUser('sub') userId: string,
+    @Body() deleteAccountDto: DeleteAccountDto,
+    @Res({ passthrough: true }) response: Response,
+  ) {
+    await this.authService.deleteAccount(
+      userId,
+      deleteAccountDto.password,
+      deleteAccountDto.confirmEmail,
+      deleteAccountDto.code,
+    );
+
+    // Clear refresh token cookie
+    response.clearCookie('refreshToken');
+
+    return {
+      success: true,
+      message: 'Account deleted',
+    };
+  }
+
   @Public()
   @Get('csrf-token')
   async getCsrfToken(@Req() request: Request) {
@@ -1,5 +1,6 @@
 import {
   Injectable,
+  NotFoundException,
   UnauthorizedException,
   ConflictException,
   BadRequestException,
@@ -7,9 +8,27 @@ import {
 import { ConfigService } from '@nestjs/config';
 import { JwtService } from '@nestjs/jwt';
 import { PrismaService } from '@common/prisma/prisma.service';
+import { MailService } from '@common/mail/mail.service';
 import * as argon2 from 'argon2';
-import { randomUUID } from 'crypto';
-import type { JwtPayload, RefreshTokenPayload } from './interfaces/jwt-payload.interface';
+import { createHash, randomBytes, randomUUID } from 'crypto';
+import type { AuthTokenPurpose, User } from '@prisma/client';
+import type { AuthSessionDto, AuthUserDto, LoginEventDto, TwoFactorChallengeDto } from '@repo/shared-types';
+import type {
+  JwtPayload,
+  RefreshTokenPayload,
+  TwoFactorChallengePayload,
+} from './interfaces/jwt-payload.interface';
+import { TwoFactorService } from './two-factor.service';
+import { LoginAuditService } from './login-audit.service';
+import { describeDevice, parseUserAgent } from './user-agent.util';
+import { defaultCategoryRows } from '../categories/category.util';
+
+/** How long the links in password reset and verification emails stay valid */
+const PASSWORD_RESET_TTL_MINUTES = 60;
+const EMAIL_VERIFICATION_TTL_HOURS = 24;
+
+/** Time to enter the second factor after the password was accepted */
+const TWO_FACTOR_CHALLENGE_TTL_MINUTES = 5;
 
 @Injectable()
 export class AuthService {
@@ -17,6 +36,9 @@ export class AuthService {
     private prisma: PrismaService,
     private jwtService: JwtService,
     private configService: ConfigService,
+    private mailService: MailService,
+    private twoFactorService: TwoFactorService,
+    private loginAudit: LoginAuditService,
   ) {}
 
   async register(
@@ -35,66 +57,267 @@ export class AuthService {
       throw new ConflictException('User with this email already exists');
     }
 
-    // Hash password with Argon2id
-    const hashedPassword = await argon2.hash(password, {
-      type: argon2.argon2id,
-      memoryCost: 65536, // 64 MB
-      timeCost: 3,
-      parallelism: 4,
-    });
+    const hashedPassword = await this.hashPassword(password);
 
-    // Create user
+    // Create user with the default categories
     const user = await this.prisma.user.create({
       data: {
         email,
         password: hashedPassword,
         name,
+        categories: { create: defaultCategoryRows() },
       },
     });
 
+    // A mail failure must not undo the sign-up; a new link can be requested later
+    await this.sendVerificationEmail(user).catch(() => undefined);
+
     // Generate tokens
     const tokens = await this.generateTokens(user.id, user.email, undefined, userAgent, ipAddress);
 
     return {
-      user: {
-        id: user.id,
-        email: user.email,
-        name: user.name,
-      },
+      user: this.toAuthUser(user),
       ...tokens,
     };
   }
 
   async login(email: string, password: string, userAgent?: string, ipAddress?: string) {
+    const context = { userAgent, ipAddress };
+
     // Find user
     const user = await this.prisma.user.findUnique({
       where: { email },
     });
 
     if (!user) {
+      await this.loginAudit.recordFailure(email, null, 'UNKNOWN_EMAIL', context);
       throw new UnauthorizedException('Invalid credentials');
     }
 
+    // A locked account is refused before the password is even checked
+    await this.loginAudit.assertNotLocked(user, context);
+
     // Verify password with Argon2
     const isPasswordValid = await argon2.verify(user.password, password);
 
     if (!isPasswordValid) {
+      await this.loginAudit.recordFailure(email, user, 'INVALID_PASSWORD', context);
       throw new UnauthorizedException('Invalid credentials');
     }
 
+    // The password alone is not enough; the client continues with completeTwoFactorLogin
+    if (user.twoFactorEnabledAt) {
+      return this.issueTwoFactorChallenge(user);
+    }
+
     // Generate tokens
     const tokens = await this.generateTokens(user.id, user.email, undefined, userAgent, ipAddress);
+    await this.loginAudit.recordSuccess(user, context);
 
     return {
-      user: {
-        id: user.id,
-        email: user.email,
-        name: user.name,
-      },
+      user: this.toAuthUser(user),
       ...tokens,
     };
   }
 
+  /**
+   * Second login step: trade the challenge token and an authenticator or
+   * recovery code for the usual tokens
+   */
+  async completeTwoFactorLogin(challengeToken: string, code: string, userAgent?: string, ipAddress?: string) {
+    let payload: TwoFactorChallengePayload;
+    try {
+      payload = await this.jwtService.verifyAsync<TwoFactorChallengePayload>(challengeToken, {
+        secret: this.twoFactorChallengeSecret(),
+      });
+    } catch {
+      throw new UnauthorizedException('This sign-in has expired, please start again');
+    }
+
+    const user = await this.prisma.user.findUnique({ where: { id: payload.sub } });
+    if (!user || payload.purpose !== 'two-factor') {
+      throw new UnauthorizedException('This sign-in has expired, please start again');
+    }
+
+    const context = { userAgent, ipAddress };
+    await this.loginAudit.assertNotLocked(user, context);
+
+    if (!(await this.twoFactorService.verifyCode(user, code))) {
+      await this.loginAudit.recordFailure(user.email, user, 'INVALID_TWO_FACTOR_CODE', context);
+      throw new UnauthorizedException('Invalid authentication code');
+    }
+
+    const tokens = await this.generateTokens(user.id, user.email, undefined, userAgent, ipAddress);
+    await this.loginAudit.recordSuccess(user, context);
+
+    return {
+      user: this.toAuthUser(user),
+      ...tokens,
+    };
+  }
+
+  async getProfile(userId: string): Promise<AuthUserDto> {
+    return this.toAuthUser(await this.findUser(userId));
+  }
+
+  /**
+   * Email a password reset link. Unknown addresses are silently ignored so
+   * the response does not reveal which emails have an account.
+   */
+  async requestPasswordReset(email: string): Promise<void> {
+    const user = await this.prisma.user.findUnique({ where: { email } });
+    if (!user) return;
+
+    const token = await this.issueAuthToken(user.id, 'PASSWORD_RESET', PASSWORD_RESET_TTL_MINUTES * 60 * 1000);
+    // Failures are logged by the mail service; reporting them would reveal the account
+    await this.mailService
+      .sendPasswordReset(user.email, user.name, token, PASSWORD_RESET_TTL_MINUTES)
+      .catch(() => undefined);
+  }
+
+  /**
+   * Set a new password from a reset link and sign out every device
+   */
+  async resetPassword(token: string, password: string): Promise<void> {
+    const record = await this.consumeAuthToken(token, 'PASSWORD_RESET');
+    const hashedPassword = await this.hashPassword(password);
+
+    await this.prisma.$transaction([
+      this.prisma.user.update({
+        where: { id: record.userId },
+        // Following the emailed link proves the address as well, and lifts any lockout
+        data: {
+          password: hashedPassword,
+          emailVerifiedAt: record.user.emailVerifiedAt ?? new Date(),
+          failedLoginAttempts: 0,
+          lockedUntil: null,
+        },
+      }),
+      this.prisma.refreshToken.updateMany({
+        where: { userId: record.userId },
+        data: { isRevoked: true },
+      }),
+    ]);
+  }
+
+  /**
+   * Follow a link from a verification or email change message
+   */
+  async verifyEmail(token: string): Promise<AuthUserDto> {
+    const record = await this.consumeAuthToken(token, 'EMAIL_VERIFICATION', 'EMAIL_CHANGE');
+    if (record.purpose === 'EMAIL_CHANGE') {
+      return this.applyEmailChange(record.user);
+    }
+
+    const user = await this.prisma.user.update({
+      where: { id: record.userId },
+      data: { emailVerifiedAt: record.user.emailVerifiedAt ?? new Date() },
+    });
+    return this.toAuthUser(user);
+  }
+
+  async resendVerification(userId: string): Promise<void> {
+    const user = await this.findUser(userId);
+    if (user.emailVerifiedAt) {
+      throw new BadRequestException('Your email address is already verified');
+    }
+    await this.sendVerificationEmail(user);
+  }
+
+  async updateProfile(userId: string, name: string | null | undefined): Promise<AuthUserDto> {
+    if (name === undefined) {
+      return this.getProfile(userId);
+    }
+    const user = await this.prisma.user.update({
+      where: { id: userId },
+      data: { name: name?.trim() || null },
+    });
+    return this.toAuthUser(user);
+  }
+
+  /**
+   * Change the password after checking the current one. Every other device
+   * is signed out; the one holding `currentRefreshToken` stays signed in.
+   */
+  async changePassword(
+    userId: string,
+    currentPassword: string,
+    newPassword: string,
+    currentRefreshToken?: string,
+  ): Promise<void> {
+    const user = await this.findUser(userId);
+    if (!(await argon2.verify(user.password, currentPassword))) {
+      throw new BadRequestException('Current password is incorrect');
+    }
+    if (currentPassword === newPassword) {
+      throw new BadRequestException('Choose a password different from the current one');
+    }
+
+    const currentFamilyId = await this.getFamilyId(currentRefreshToken);
+    const hashedPassword = await this.hashPassword(newPassword);
+
+    await this.prisma.$transaction([
+      this.prisma.user.update({
+        where: { id: userId },
+        data: { password: hashedPassword },
+      }),
+      this.prisma.refreshToken.updateMany({
+        where: { userId, isRevoked: false, ...(currentFamilyId && { familyId: { not: currentFamilyId } }) },
+        data: { isRevoked: true },
+      }),
+      // Reset links asked for with the old password are no longer wanted
+      this.prisma.authToken.deleteMany({
+        where: { userId, purpose: 'PASSWORD_RESET', usedAt: null },
+      }),
+    ]);
+  }
+
+  /**
+   * Send a confirmation link to a new address. The account keeps its
+   * current email until the link is followed.
+   */
+  async requestEmailChange(userId: string, email: string, password: string): Promise<AuthUserDto> {
+    const user = await this.findUser(userId);
+    if (!(await argon2.verify(user.password, password))) {
+      throw new BadRequestException('Password is incorrect');
+    }
+    if (email === user.email) {
+      throw new BadRequestException('That is already your email address');
+    }
+    if (await this.prisma.user.findUnique({ where: { email } })) {
+      throw new ConflictException('User with this email already exists');
+    }
+
+    const updated = await this.prisma.user.update({
+      where: { id: userId },
+      data: { pendingEmail: email },
+    });
+    const token = await this.issueAuthToken(userId, 'EMAIL_CHANGE', EMAIL_VERIFICATION_TTL_HOURS * 60 * 60 * 1000);
+    await this.mailService.sendEmailChange(email, user.name, token, EMAIL_VERIFICATION_TTL_HOURS);
+
+    return this.toAuthUser(updated);
+  }
+
+  /**
+   * Delete the account and, through the cascades, everything it owns.
+   * Needs the password, the email typed again and, with two-factor
+   * authentication on, a code.
+   */
+  async deleteAccount(userId: string, password: string, confirmEmail: string, code?: string): Promise<void> {
+    const user = await this.findUser(userId);
+    if (!(await argon2.verify(user.password, password))) {
+      throw new BadRequestException('Password is incorrect');
+    }
+    if (confirmEmail.trim().toLowerCase() !== user.email.toLowerCase()) {
+      throw new BadRequestException('The email address does not match your account');
+    }
+    if (user.twoFactorEnabledAt && !(code && (await this.twoFactorService.verifyCode(user, code)))) {
+      throw new BadRequestException('Enter a valid authentication or recovery code');
+    }
+
+    await this.prisma.user.delete({ where: { id: userId } });
+  }
+
   async refreshTokens(oldRefreshToken: string, payload: RefreshTokenPayload, userAgent?: string, ipAddress?: string) {
     // Verify refresh token exists in database
     const storedToken = await this.prisma.refreshToken.findUnique({
@@ -133,10 +356,13 @@ export class AuthService {
       data: { isRevoked: true },
     });
 
+    // The email in the old token is stale after an email change
+    const user = await this.findUser(payload.sub);
+
     // Generate new tokens with same familyId
     const tokens = await this.generateTokens(
       payload.sub,
-      payload.email,
+      user.email,
       payload.familyId,
       userAgent,
       ipAddress,
@@ -161,6 +387,223 @@ export class AuthService {
     });
   }
 
+  /**
+   * Flag a sign-in as not the user's own and sign out every device, this one included
+   */
+  async reportSuspiciousLogin(userId: string, eventId: string): Promise<LoginEventDto> {
+    const event = await this.loginAudit.markReported(userId, eventId);
+    await this.logoutAll(userId);
+    return event;
+  }
+
+  /**
+   * Devices with a live refresh token, most recently used first. The
+   * caller's own device is marked when its refresh cookie is passed.
+   */
+  async listSessions(userId: string, currentRefreshToken?: string): Promise<AuthSessionDto[]> {
+    const currentFamilyId = await this.getFamilyId(currentRefreshToken);
+
+    // Rotation revokes the previous token, so each live family has one active token
+    const activeTokens = await this.prisma.refreshToken.findMany({
+      where: { userId, isRevoked: false, expiresAt: { gt: new Date() } },
+      orderBy: { createdAt: 'desc' },
+    });
+    const latestByFamily = new Map<string, (typeof activeTokens)[number]>();
+    for (const token of activeTokens) {
+      if (!latestByFamily.has(token.familyId)) latestByFamily.set(token.familyId, token);
+    }
+
+    const firstTokens = await this.prisma.refreshToken.groupBy({
+      by: ['familyId'],
+      where: { userId, familyId: { in: [...latestByFamily.keys()] } },
+      _min: { createdAt: true },
+    });
+    const signedInAt = new Map(firstTokens.map((group) => [group.familyId, group._min.createdAt]));
+
+    return [...latestByFamily.values()].map((token) => {
+      const parsed = parseUserAgent(token.userAgent);
+      return {
+        familyId: token.familyId,
+        device: describeDevice(parsed),
+        ...parsed,
+        ipAddress: token.ipAddress,
+        signedInAt: (signedInAt.get(token.familyId) ?? token.createdAt).toISOString(),
+        lastUsedAt: token.createdAt.toISOString(),
+        expiresAt: token.expiresAt.toISOString(),
+        current: token.familyId === currentFamilyId,
+      };
+    });
+  }
+
+  /**
+   * Sign one device out. Its access token stays valid until it expires.
+   */
+  async revokeSession(userId: string, familyId: string): Promise<void> {
+    const { count } = await this.prisma.refreshToken.updateMany({
+      where: { userId, familyId, isRevoked: false },
+      data: { isRevoked: true },
+    });
+    if (count === 0) {
+      throw new NotFoundException('Session not found');
+    }
+  }
+
+  /**
+   * Token family of a refresh token, or null when it is missing or invalid
+   */
+  async getFamilyId(refreshToken?: string): Promise<string | null> {
+    if (!refreshToken) return null;
+    try {
+      const payload = await this.jwtService.verifyAsync<RefreshTokenPayload>(refreshToken, {
+        secret: this.configService.get<string>('JWT_REFRESH_SECRET'),
+      });
+      return payload.familyId;
+    } catch {
+      return null;
+    }
+  }
+
+  private async findUser(userId: string): Promise<User> {
+    const user = await this.prisma.user.findUnique({ where: { id: userId } });
+    if (!user) {
+      throw new UnauthorizedException('User no longer exists');
+    }
+    return user;
+  }
+
+  private toAuthUser(user: User): AuthUserDto {
+    return {
+      id: user.id,
+      email: user.email,
+      name: user.name,
+      emailVerified: user.emailVerifiedAt !== null,
+      pendingEmail: user.pendingEmail,
+    };
+  }
+
+  /**
+   * Switch to the pending address once its confirmation link is followed,
+   * and tell the old address about it
+   */
+  private async applyEmailChange(user: User): Promise<AuthUserDto> {
+    if (!user.pendingEmail) {
+      throw new BadRequestException('This link is invalid or has expired');
+    }
+    // The address may have been registered since the change was asked for
+    if (await this.prisma.user.findUnique({ where: { email: user.pendingEmail } })) {
+      throw new ConflictException('User with this email already exists');
+    }
+
+    const updated = await this.prisma.user.update({
+      where: { id: user.id },
+      data: { email: user.pendingEmail, pendingEmail: null, emailVerifiedAt: new Date() },
+    });
+    await this.mailService.sendEmailChangedNotice(user.email, user.name, updated.email).catch(() => undefined);
+
+    return this.toAuthUser(updated);
+  }
+
+  private async hashPassword(password: string): Promise<string> {
+    // Hash password with Argon2id
+    return argon2.hash(password, {
+      type: argon2.argon2id,
+      memoryCost: 65536, // 64 MB
+      timeCost: 3,
+      parallelism: 4,
+    });
+  }
+
+  private async issueTwoFactorChallenge(user: User): Promise<TwoFactorChallengeDto> {
+    const payload: TwoFactorChallengePayload = {
+      sub: user.id,
+      email: user.email,
+      purpose: 'two-factor',
+    };
+    const challengeToken = await this.jwtService.signAsync(payload, {
+      secret: this.twoFactorChallengeSecret(),
+      expiresIn: `${TWO_FACTOR_CHALLENGE_TTL_MINUTES}m`,
+    });
+
+    return {
+      twoFactorRequired: true,
+      challengeToken,
+      expiresAt: new Date(Date.now() + TWO_FACTOR_CHALLENGE_TTL_MINUTES * 60 * 1000).toISOString(),
+    };
+  }
+
+  /**
+   * Challenge tokens get their own secret so they can never pass as access tokens
+   */
+  private twoFactorChallengeSecret(): string {
+    return createHash('sha256')
+      .update(`two-factor-challenge:${this.configService.get<string>('JWT_SECRET')}`)
+      .digest('hex');
+  }
+
+  private async sendVerificationEmail(user: User): Promise<void> {
+    const token = await this.issueAuthToken(
+      user.id,
+      'EMAIL_VERIFICATION',
+      EMAIL_VERIFICATION_TTL_HOURS * 60 * 60 * 1000,
+    );
+    await this.mailService.sendEmailVerification(user.email, user.name, token, EMAIL_VERIFICATION_TTL_HOURS);
+  }
+
+  /**
+   * Emailed tokens are stored as SHA-256 hashes; the plain token only lives in the link
+   */
+  private hashAuthToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+
+  /**
+   * New single-use token; earlier unused ones for the same purpose stop working
+   */
+  private async issueAuthToken(userId: string, purpose: AuthTokenPurpose, ttlMs: number): Promise<string> {
+    const token = randomBytes(32).toString('base64url');
+
+    await this.prisma.$transaction([
+      this.prisma.authToken.deleteMany({
+        where: { userId, purpose, usedAt: null },
+      }),
+      this.prisma.authToken.create({
+        data: {
+          userId,
+          purpose,
+          tokenHash: this.hashAuthToken(token),
+          expiresAt: new Date(Date.now() + ttlMs),
+        },
+      }),
+    ]);
+
+    return token;
+  }
+
+  /**
+   * Mark a token used, rejecting unknown, expired and already used ones
+   */
+  private async consumeAuthToken(token: string, ...purposes: AuthTokenPurpose[]) {
+    const record = await this.prisma.authToken.findUnique({
+      where: { tokenHash: this.hashAuthToken(token) },
+      include: { user: true },
+    });
+
+    if (!record || !purposes.includes(record.purpose) || record.usedAt || record.expiresAt < new Date()) {
+      throw new BadRequestException('This link is invalid or has expired');
+    }
+
+    // Conditional update so two simultaneous requests cannot both use it
+    const { count } = await this.prisma.authToken.updateMany({
+      where: { id: record.id, usedAt: null },
+      data: { usedAt: new Date() },
+    });
+    if (count === 0) {
+      throw new BadRequestException('This link is invalid or has expired');
+    }
+
+    return record;
+  }
+
   private async generateTokens(
     userId: string,
     email: string,
@@ -238,6 +681,12 @@ export class AuthService {
         expiresAt: { lt: thirtyDaysAgo },
       },
     });
+    await this.prisma.authToken.deleteMany({
+      where: {
+        expiresAt: { lt: thirtyDaysAgo },
+      },
+    });
+    await this.loginAudit.deleteOldEvents();
   }
 
   private parseExpiration(expiration: string): number {
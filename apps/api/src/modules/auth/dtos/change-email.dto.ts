@@ -0,0 +1,11 @@
+import { IsEmail, IsString, IsNotEmpty } from 'class-validator';
+
+export class ChangeEmailDto {
+  @IsNotEmpty({ message: 'Email is required' })
+  @IsEmail({}, { message: 'Please provide a valid email address' })
+  email!: string;
+
+  @IsNotEmpty({ message: 'Password is required' })
+  @IsString({ message: 'Password must be a string' })
+  password!: string;
+}
@@ -0,0 +1,14 @@
+import { IsString, MinLength, Matches, IsNotEmpty } from 'class-validator';
+import { PASSWORD_PATTERN, PASSWORD_PATTERN_MESSAGE } from './register.dto';
+
+export class ChangePasswordDto {
+  @IsNotEmpty({ message: 'Current password is required' })
+  @IsString({ message: 'Current password must be a string' })
+  currentPassword!: string;
+
+  @IsNotEmpty({ message: 'New password is required' })
+  @IsString({ message: 'New password must be a string' })
+  @MinLength(8, { message: 'Password must be at least 8 characters long' })
+  @Matches(PASSWORD_PATTERN, { message: PASSWORD_PATTERN_MESSAGE })
+  newPassword!: string;
+}
@@ -0,0 +1,16 @@
+import { IsEmail, IsString, IsOptional, IsNotEmpty, MaxLength } from 'class-validator';
+
+export class DeleteAccountDto {
+  @IsNotEmpty({ message: 'Password is required' })
+  @IsString({ message: 'Password must be a string' })
+  password!: string;
+
+  @IsNotEmpty({ message: 'Type your email address to confirm' })
+  @IsEmail({}, { message: 'Type your email address to confirm' })
+  confirmEmail!: string;
+
+  @IsOptional()
+  @IsString({ message: 'Code must be a string' })
+  @MaxLength(32, { message: 'Code is too long' })
+  code?: string;
+}
@@ -0,0 +1,12 @@
+import { IsString, IsNotEmpty, MaxLength } from 'class-validator';
+
+export class DisableTwoFactorDto {
+  @IsNotEmpty({ message: 'Password is required' })
+  @IsString({ message: 'Password must be a string' })
+  password!: string;
+
+  @IsNotEmpty({ message: 'Code is required' })
+  @IsString({ message: 'Code must be a string' })
+  @MaxLength(32, { message: 'Code is too long' })
+  code!: string;
+}
@@ -0,0 +1,12 @@
+import { IsString, IsNotEmpty, MaxLength } from 'class-validator';
+
+export class LoginTwoFactorDto {
+  @IsNotEmpty({ message: 'Challenge token is required' })
+  @IsString({ message: 'Challenge token must be a string' })
+  challengeToken!: string;
+
+  @IsNotEmpty({ message: 'Code is required' })
+  @IsString({ message: 'Code must be a string' })
+  @MaxLength(32, { message: 'Code is too long' })
+  code!: string;
+}
@@ -1,5 +1,10 @@
 import { IsEmail, IsString, IsOptional, MinLength, Matches, IsNotEmpty } from 'class-validator';
 
+/** Password strength rules, shared by every DTO that sets a password */
+export const PASSWORD_PATTERN = /^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[@$!%*?&])[A-Za-z\d@$!%*?&]/;
+export const PASSWORD_PATTERN_MESSAGE =
+  'Password must contain at least one uppercase letter, one lowercase letter, one number, and one special character (@$!%*?&)';
+
 export class RegisterDto {
   @IsNotEmpty({ message: 'Email is required' })
   @IsEmail({}, { message: 'Please provide a valid email address' })
@@ -8,13 +13,7 @@ export class RegisterDto {
   @IsNotEmpty({ message: 'Password is required' })
   @IsString({ message: 'Password must be a string' })
   @MinLength(8, { message: 'Password must be at least 8 characters long' })
-  @Matches(
-    /^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[@$!%*?&])[A-Za-z\d@$!%*?&]/,
-    {
-      message:
-        'Password must contain at least one uppercase letter, one lowercase letter, one number, and one special character (@$!%*?&)',
-    },
-  )
+  @Matches(PASSWORD_PATTERN, { message: PASSWORD_PATTERN_MESSAGE })
   password!: string;
 
   @IsOptional()
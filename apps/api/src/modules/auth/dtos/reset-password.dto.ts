@@ -0,0 +1,14 @@
+import { IsString, MinLength, Matches, IsNotEmpty } from 'class-validator';
+import { PASSWORD_PATTERN, PASSWORD_PATTERN_MESSAGE } from './register.dto';
+
+export class ResetPasswordDto {
+  @IsNotEmpty({ message: 'Token is required' })
+  @IsString({ message: 'Token must be a string' })
+  token!: string;
+
+  @IsNotEmpty({ message: 'Password is required' })
+  @IsString({ message: 'Password must be a string' })
+  @MinLength(8, { message: 'Password must be at least 8 characters long' })
+  @Matches(PASSWORD_PATTERN, { message: PASSWORD_PATTERN_MESSAGE })
+  password!: string;
+}
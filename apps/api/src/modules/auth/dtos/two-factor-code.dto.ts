@@ -0,0 +1,8 @@
+import { IsString, IsNotEmpty, MaxLength } from 'class-validator';
+
+export class TwoFactorCodeDto {
+  @IsNotEmpty({ message: 'Code is required' })
+  @IsString({ message: 'Code must be a string' })
+  @MaxLength(32, { message: 'Code is too long' })
+  code!: string;
+}
@@ -0,0 +1,8 @@
+import { IsString, IsOptional, MaxLength } from 'class-validator';
+
+export class UpdateProfileDto {
+  @IsOptional()
+  @IsString({ message: 'Name must be a string' })
+  @MaxLength(100, { message: 'Name must be at most 100 characters long' })
+  name?: string | null;
+}
@@ -0,0 +1,7 @@
+import { IsString, IsNotEmpty } from 'class-validator';
+
+export class VerifyEmailDto {
+  @IsNotEmpty({ message: 'Token is required' })
+  @IsString({ message: 'Token must be a string' })
+  token!: string;
+}
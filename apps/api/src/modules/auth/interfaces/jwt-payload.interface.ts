@@ -9,3 +9,7 @@ export interface RefreshTokenPayload extends JwtPayload {
   jti: string; // JWT ID for refresh token tracking
   familyId: string; // Token family for rotation tracking
 }
+
+export interface TwoFactorChallengePayload extends JwtPayload {
+  purpose: 'two-factor'; // Only accepted by the second login step
+}
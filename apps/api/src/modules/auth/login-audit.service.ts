@@ -0,0 +1,178 @@
+import {
+  Injectable,
+  BadRequestException,
+  HttpException,
+  HttpStatus,
+  NotFoundException,
+} from '@nestjs/common';
+import { PrismaService } from '@common/prisma/prisma.service';
+import type { LoginEvent, LoginFailureReason, User } from '@prisma/client';
+import type { LoginEventDto, LoginEventsQuery, LoginFailureReason as LoginFailureReasonDto } from '@repo/shared-types';
+import { describeDevice, parseUserAgent } from './user-agent.util';
+
+/** Failed attempts in a row before the account locks */
+const LOCKOUT_THRESHOLD = 5;
+
+/** First lockout; every further failure doubles it, up to the maximum */
+const LOCKOUT_BASE_MINUTES = 1;
+const LOCKOUT_MAX_MINUTES = 60;
+
+/** Default and largest page of the activity list */
+const DEFAULT_EVENTS_LIMIT = 20;
+const MAX_EVENTS_LIMIT = 100;
+
+/** How long sign-in attempts are kept */
+const LOGIN_EVENT_RETENTION_DAYS = 90;
+
+/**
+ * Where a sign-in attempt came from
+ */
+export interface LoginContext {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+@Injectable()
+export class LoginAuditService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Refuse sign-ins while the account is locked. The attempt is logged but
+   * does not extend the lock, so a locked-out user is not kept out forever.
+   */
+  async assertNotLocked(user: User, context: LoginContext): Promise<void> {
+    if (!user.lockedUntil || user.lockedUntil <= new Date()) return;
+
+    await this.record(user.email, user.id, false, 'ACCOUNT_LOCKED', context);
+    const minutes = Math.ceil((user.lockedUntil.getTime() - Date.now()) / 60000);
+    throw new HttpException(
+      `Too many failed sign-in attempts. Try again in ${minutes} minute${minutes !== 1 ? 's' : ''}.`,
+      HttpStatus.TOO_MANY_REQUESTS,
+    );
+  }
+
+  /**
+   * Log a failed attempt; for known accounts, count it towards the lockout
+   */
+  async recordFailure(
+    email: string,
+    user: User | null,
+    reason: LoginFailureReason,
+    context: LoginContext,
+  ): Promise<void> {
+    await this.record(email, user?.id ?? null, false, reason, context);
+    if (!user) return;
+
+    const { failedLoginAttempts } = await this.prisma.user.update({
+      where: { id: user.id },
+      data: { failedLoginAttempts: { increment: 1 } },
+      select: { failedLoginAttempts: true },
+    });
+    if (failedLoginAttempts >= LOCKOUT_THRESHOLD) {
+      const minutes = Math.min(
+        LOCKOUT_MAX_MINUTES,
+        LOCKOUT_BASE_MINUTES * 2 ** (failedLoginAttempts - LOCKOUT_THRESHOLD),
+      );
+      await this.prisma.user.update({
+        where: { id: user.id },
+        data: { lockedUntil: new Date(Date.now() + minutes * 60 * 1000) },
+      });
+    }
+  }
+
+  /**
+   * Log a completed sign-in and clear the failure count
+   */
+  async recordSuccess(user: User, context: LoginContext): Promise<void> {
+    await this.prisma.$transaction([
+      this.prisma.loginEvent.create({
+        data: {
+          userId: user.id,
+          email: user.email,
+          success: true,
+          ipAddress: context.ipAddress,
+          userAgent: context.userAgent,
+        },
+      }),
+      this.prisma.user.update({
+        where: { id: user.id },
+        data: { failedLoginAttempts: 0, lockedUntil: null },
+      }),
+    ]);
+  }
+
+  /**
+   * The user's most recent sign-in attempts, newest first
+   */
+  async listEvents(userId: string, query: LoginEventsQuery = {}): Promise<LoginEventDto[]> {
+    const limit = query.limit !== undefined ? Number(query.limit) : DEFAULT_EVENTS_LIMIT;
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_EVENTS_LIMIT) {
+      throw new BadRequestException(`limit must be a whole number between 1 and ${MAX_EVENTS_LIMIT}`);
+    }
+
+    const events = await this.prisma.loginEvent.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    });
+    return events.map((event) => this.toDto(event));
+  }
+
+  /**
+   * Flag an attempt as not made by the user
+   */
+  async markReported(userId: string, eventId: string): Promise<LoginEventDto> {
+    const event = await this.prisma.loginEvent.findFirst({ where: { id: eventId, userId } });
+    if (!event) {
+      throw new NotFoundException('Login event not found');
+    }
+
+    const updated = await this.prisma.loginEvent.update({
+      where: { id: eventId },
+      data: { reportedAt: event.reportedAt ?? new Date() },
+    });
+    return this.toDto(updated);
+  }
+
+  /**
+   * Drop attempts older than the retention period
+   */
+  async deleteOldEvents(): Promise<void> {
+    await this.prisma.loginEvent.deleteMany({
+      where: { createdAt: { lt: new Date(Date.now() - LOGIN_EVENT_RETENTION_DAYS * 24 * 60 * 60 * 1000) } },
+    });
+  }
+
+  private async record(
+    email: string,
+    userId: string | null,
+    success: boolean,
+    reason: LoginFailureReason | null,
+    context: LoginContext,
+  ): Promise<void> {
+    await this.prisma.loginEvent.create({
+      data: {
+        userId,
+        email,
+        success,
+        reason,
+        ipAddress: context.ipAddress,
+        userAgent: context.userAgent,
+      },
+    });
+  }
+
+  private toDto(event: LoginEvent): LoginEventDto {
+    const parsed = parseUserAgent(event.userAgent);
+    return {
+      id: event.id,
+      success: event.success,
+      reason: event.reason ? (event.reason.toLowerCase() as LoginFailureReasonDto) : null,
+      ipAddress: event.ipAddress,
+      device: describeDevice(parsed),
+      deviceType: parsed.deviceType,
+      createdAt: event.createdAt.toISOString(),
+      reportedAt: event.reportedAt?.toISOString() ?? null,
+    };
+  }
+}
@@ -0,0 +1,243 @@
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PrismaService } from '@common/prisma/prisma.service';
+import * as argon2 from 'argon2';
+import * as QRCode from 'qrcode';
+import { createHash } from 'crypto';
+import type { User } from '@prisma/client';
+import type { RecoveryCodesDto, TwoFactorSetupDto, TwoFactorStatusDto } from '@repo/shared-types';
+import {
+  buildOtpauthUri,
+  decryptSecret,
+  encryptSecret,
+  generateRecoveryCode,
+  generateTotpSecret,
+  normalizeRecoveryCode,
+  verifyTotp,
+} from './two-factor.util';
+
+/** Name authenticator apps list the account under */
+const TOTP_ISSUER = 'Learn Session Planner';
+
+/** Recovery codes handed out at a time */
+const RECOVERY_CODE_COUNT = 10;
+
+const INVALID_CODE_MESSAGE = 'That code is not valid';
+
+@Injectable()
+export class TwoFactorService {
+  private readonly logger = new Logger(TwoFactorService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  async getStatus(userId: string): Promise<TwoFactorStatusDto> {
+    const user = await this.findUser(userId);
+    const recoveryCodesRemaining = user.twoFactorEnabledAt
+      ? await this.prisma.recoveryCode.count({ where: { userId, usedAt: null } })
+      : 0;
+
+    return {
+      enabled: user.twoFactorEnabledAt !== null,
+      enabledAt: user.twoFactorEnabledAt?.toISOString() ?? null,
+      recoveryCodesRemaining,
+    };
+  }
+
+  /**
+   * Store a new secret for enrollment. It has no effect until `enable`
+   * confirms a code from it; starting again replaces it.
+   */
+  async setup(userId: string): Promise<TwoFactorSetupDto> {
+    const user = await this.findUser(userId);
+    if (user.twoFactorEnabledAt) {
+      throw new BadRequestException('Two-factor authentication is already on');
+    }
+
+    const secret = generateTotpSecret();
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: { twoFactorSecret: encryptSecret(secret, this.encryptionKey()), twoFactorLastStep: null },
+    });
+
+    const otpauthUri = buildOtpauthUri(TOTP_ISSUER, user.email, secret);
+    return {
+      secret,
+      otpauthUri,
+      qrCodeDataUrl: await QRCode.toDataURL(otpauthUri, { margin: 1, width: 240 }),
+    };
+  }
+
+  /**
+   * Turn two-factor authentication on with a code from the pending secret
+   */
+  async enable(userId: string, code: string): Promise<RecoveryCodesDto> {
+    const user = await this.findUser(userId);
+    if (user.twoFactorEnabledAt) {
+      throw new BadRequestException('Two-factor authentication is already on');
+    }
+    if (!user.twoFactorSecret) {
+      throw new BadRequestException('Start the setup before confirming a code');
+    }
+
+    const step = this.matchTotp(user, code);
+    if (step === null) {
+      throw new BadRequestException(`${INVALID_CODE_MESSAGE}, check the time on your device`);
+    }
+
+    const codes = this.generateRecoveryCodes();
+    await this.prisma.$transaction([
+      this.prisma.user.update({
+        where: { id: userId },
+        data: { twoFactorEnabledAt: new Date(), twoFactorLastStep: step },
+      }),
+      ...this.replaceRecoveryCodes(userId, codes),
+    ]);
+
+    return { codes };
+  }
+
+  /**
+   * Turn two-factor authentication off; needs the password and a current code
+   */
+  async disable(userId: string, password: string, code: string): Promise<void> {
+    const user = await this.findUser(userId);
+    if (!user.twoFactorEnabledAt) {
+      throw new BadRequestException('Two-factor authentication is not on');
+    }
+    if (!(await argon2.verify(user.password, password))) {
+      throw new BadRequestException('Password is incorrect');
+    }
+    if (!(await this.consumeCode(user, code))) {
+      throw new BadRequestException(INVALID_CODE_MESSAGE);
+    }
+
+    await this.prisma.$transaction([
+      this.prisma.user.update({
+        where: { id: userId },
+        data: { twoFactorSecret: null, twoFactorEnabledAt: null, twoFactorLastStep: null },
+      }),
+      this.prisma.recoveryCode.deleteMany({ where: { userId } }),
+    ]);
+  }
+
+  /**
+   * Replace every recovery code; needs an authenticator code
+   */
+  async regenerateRecoveryCodes(userId: string, code: string): Promise<RecoveryCodesDto> {
+    const user = await this.findUser(userId);
+    if (!user.twoFactorEnabledAt) {
+      throw new BadRequestException('Two-factor authentication is not on');
+    }
+    if (!(await this.consumeTotp(user, code))) {
+      throw new BadRequestException(INVALID_CODE_MESSAGE);
+    }
+
+    const codes = this.generateRecoveryCodes();
+    await this.prisma.$transaction(this.replaceRecoveryCodes(userId, codes));
+    return { codes };
+  }
+
+  /**
+   * Second factor for signing in and for account changes: an authenticator
+   * code or an unused recovery code. Either one is used up by a successful check.
+   */
+  async verifyCode(user: User, code: string): Promise<boolean> {
+    if (!user.twoFactorEnabledAt) return false;
+    return this.consumeCode(user, code);
+  }
+
+  private async findUser(userId: string): Promise<User> {
+    const user = await this.prisma.user.findUnique({ where: { id: userId } });
+    if (!user) {
+      throw new UnauthorizedException('User no longer exists');
+    }
+    return user;
+  }
+
+  /**
+   * AES key for secrets at rest, derived from the configured key
+   */
+  private encryptionKey(): Buffer {
+    const key =
+      this.configService.get<string>('TWO_FACTOR_ENCRYPTION_KEY') ||
+      this.configService.get<string>('JWT_SECRET', '');
+    return createHash('sha256').update(key).digest();
+  }
+
+  /**
+   * Time step of a valid, not yet used authenticator code, or null
+   */
+  private matchTotp(user: User, code: string): number | null {
+    if (!user.twoFactorSecret) return null;
+
+    let secret: string;
+    try {
+      secret = decryptSecret(user.twoFactorSecret, this.encryptionKey());
+    } catch {
+      this.logger.error(`Cannot decrypt the two-factor secret of user ${user.id}; was the key changed?`);
+      return null;
+    }
+    return verifyTotp(secret, code, user.twoFactorLastStep);
+  }
+
+  private async consumeCode(user: User, code: string): Promise<boolean> {
+    return (await this.consumeTotp(user, code)) || this.consumeRecoveryCode(user.id, code);
+  }
+
+  private async consumeTotp(user: User, code: string): Promise<boolean> {
+    const step = this.matchTotp(user, code);
+    if (step === null) return false;
+
+    // Conditional update so the same code cannot pass two simultaneous requests
+    const { count } = await this.prisma.user.updateMany({
+      where: {
+        id: user.id,
+        OR: [{ twoFactorLastStep: null }, { twoFactorLastStep: { lt: step } }],
+      },
+      data: { twoFactorLastStep: step },
+    });
+    return count > 0;
+  }
+
+  private async consumeRecoveryCode(userId: string, code: string): Promise<boolean> {
+    const normalized = normalizeRecoveryCode(code);
+    if (!normalized) return false;
+
+    const { count } = await this.prisma.recoveryCode.updateMany({
+      where: { userId, codeHash: this.hashRecoveryCode(normalized), usedAt: null },
+      data: { usedAt: new Date() },
+    });
+    return count > 0;
+  }
+
+  private generateRecoveryCodes(): string[] {
+    return Array.from({ length: RECOVERY_CODE_COUNT }, generateRecoveryCode);
+  }
+
+  private replaceRecoveryCodes(userId: string, codes: string[]) {
+    return [
+      this.prisma.recoveryCode.deleteMany({ where: { userId } }),
+      this.prisma.recoveryCode.createMany({
+        data: codes.map((code) => ({
+          userId,
+          codeHash: this.hashRecoveryCode(normalizeRecoveryCode(code)),
+        })),
+      }),
+    ];
+  }
+
+  /**
+   * Recovery codes are stored as SHA-256 hashes of their normalized form
+   */
+  private hashRecoveryCode(normalized: string): string {
+    return createHash('sha256').update(normalized).digest('hex');
+  }
+}
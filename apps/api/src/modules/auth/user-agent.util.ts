@@ -0,0 +1,65 @@
+import type { DeviceType } from '@repo/shared-types';
+
+export interface ParsedUserAgent {
+  browser: string | null;
+  os: string | null;
+  deviceType: DeviceType;
+}
+
+/**
+ * Checked in order: Edge, Opera and Samsung Internet also claim to be
+ * Chrome, and Chrome claims to be Safari
+ */
+const BROWSERS: [RegExp, string][] = [
+  [/Edg(e|A|iOS)?\//, 'Edge'],
+  [/OPR\/|Opera/, 'Opera'],
+  [/SamsungBrowser\//, 'Samsung Internet'],
+  [/Firefox\/|FxiOS\//, 'Firefox'],
+  [/Chrome\/|CriOS\//, 'Chrome'],
+  [/Safari\//, 'Safari'],
+];
+
+/** iOS and Android before Linux and macOS, which their user agents also mention */
+const SYSTEMS: [RegExp, string][] = [
+  [/iPhone|iPad|iPod/, 'iOS'],
+  [/Android/, 'Android'],
+  [/Windows/, 'Windows'],
+  [/CrOS/, 'ChromeOS'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/Linux/, 'Linux'],
+];
+
+function firstMatch(userAgent: string, patterns: [RegExp, string][]): string | null {
+  return patterns.find(([pattern]) => pattern.test(userAgent))?.[1] ?? null;
+}
+
+/**
+ * Rough browser, system and form factor from a User-Agent header; enough
+ * to tell a user's devices apart, not for feature detection
+ */
+export function parseUserAgent(userAgent: string | null | undefined): ParsedUserAgent {
+  if (!userAgent) {
+    return { browser: null, os: null, deviceType: 'unknown' };
+  }
+
+  let deviceType: DeviceType = 'desktop';
+  if (/iPad|Tablet/.test(userAgent) || (/Android/.test(userAgent) && !/Mobile/.test(userAgent))) {
+    deviceType = 'tablet';
+  } else if (/Mobi|iPhone|iPod/.test(userAgent)) {
+    deviceType = 'mobile';
+  }
+
+  return {
+    browser: firstMatch(userAgent, BROWSERS),
+    os: firstMatch(userAgent, SYSTEMS),
+    deviceType,
+  };
+}
+
+/**
+ * Label like "Firefox on Linux"
+ */
+export function describeDevice({ browser, os }: ParsedUserAgent): string {
+  if (browser && os) return `${browser} on ${os}`;
+  return browser ?? os ?? 'Unknown device';
+}
@@ -0,0 +1,78 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  HttpCode,
+  HttpStatus,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import { AvailabilityService } from './availability.service';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import type {
+  ApiResponse,
+  AvailabilityDto,
+  AvailabilityWindowDto,
+  AvailabilityBlackoutDto,
+  ReplaceAvailabilityWindowsDto,
+  CreateAvailabilityBlackoutDto,
+} from '@repo/shared-types';
+
+@Controller('availability')
+export class AvailabilityController {
+  constructor(private readonly availabilityService: AvailabilityService) {}
+
+  @Get()
+  async get(
+    @CurrentUser('sub') userId: string,
+  ): Promise<ApiResponse<AvailabilityDto>> {
+    const availability = await this.availabilityService.get(userId);
+
+    return {
+      success: true,
+      message: 'Availability retrieved successfully',
+      data: availability,
+    };
+  }
+
+  @Put('windows')
+  async replaceWindows(
+    @CurrentUser('sub') userId: string,
+    @Body() dto: ReplaceAvailabilityWindowsDto,
+  ): Promise<ApiResponse<AvailabilityWindowDto[]>> {
+    const windows = await this.availabilityService.replaceWindows(userId, dto?.windows);
+
+    return {
+      success: true,
+      message: 'Availability windows saved successfully',
+      data: windows,
+    };
+  }
+
+  @Post('blackouts')
+  @HttpCode(HttpStatus.CREATED)
+  async createBlackout(
+    @CurrentUser('sub') userId: string,
+    @Body() dto: CreateAvailabilityBlackoutDto,
+  ): Promise<ApiResponse<AvailabilityBlackoutDto>> {
+    const blackout = await this.availabilityService.createBlackout(userId, dto);
+
+    return {
+      success: true,
+      message: 'Blackout created successfully',
+      data: blackout,
+    };
+  }
+
+  @Delete('blackouts/:id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async deleteBlackout(
+    @CurrentUser('sub') userId: string,
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<void> {
+    await this.availabilityService.deleteBlackout(id, userId);
+  }
+}
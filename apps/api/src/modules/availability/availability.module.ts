@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { AvailabilityController } from './availability.controller';
+import { AvailabilityService } from './availability.service';
+import { PrismaModule } from '@common/prisma/prisma.module';
+import { SettingsModule } from '../settings/settings.module';
+
+@Module({
+  imports: [PrismaModule, SettingsModule],
+  controllers: [AvailabilityController],
+  providers: [AvailabilityService],
+  exports: [AvailabilityService],
+})
+export class AvailabilityModule {}
@@ -0,0 +1,273 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+} from '@nestjs/common';
+import { PrismaService } from '@common/prisma/prisma.service';
+import { zonedDayNumber, dayNumberToKey } from '@common/utils/timezone.util';
+import type {
+  AvailabilityDto,
+  AvailabilityWindowDto,
+  AvailabilityWindowInput,
+  AvailabilityBlackoutDto,
+  CreateAvailabilityBlackoutDto,
+} from '@repo/shared-types';
+import { AvailabilityBlackout, AvailabilityWindow } from '@prisma/client';
+import { SettingsService } from '../settings/settings.service';
+import {
+  OpenInterval,
+  TimeInterval,
+  WeeklyWindow,
+  buildOpenIntervals,
+  formatTimeOfDay,
+  parseTimeOfDay,
+} from './availability.util';
+
+/** Used while a user has not defined any windows: 08:00-22:00 every day */
+const DEFAULT_WINDOWS: WeeklyWindow[] = Array.from({ length: 7 }, (_, weekday) => ({
+  weekday,
+  startMinute: 8 * 60,
+  endMinute: 22 * 60,
+}));
+
+/** Upper bound on weekly windows per user */
+const MAX_WINDOWS = 50;
+
+/** Upper bound on blackouts per user */
+const MAX_BLACKOUTS = 100;
+
+/** Longest blackout in days */
+const MAX_BLACKOUT_DAYS = 366;
+
+const MAX_REASON_LENGTH = 100;
+
+const MINUTES_PER_DAY = 24 * 60;
+
+const MINUTE_MS = 60 * 1000;
+
+const DATE_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+@Injectable()
+export class AvailabilityService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly settingsService: SettingsService,
+  ) {}
+
+  /**
+   * Transform Prisma window (minutes) to API response (HH:mm)
+   */
+  private transformWindow(window: AvailabilityWindow): AvailabilityWindowDto {
+    return {
+      id: window.id,
+      weekday: window.weekday,
+      start: formatTimeOfDay(window.startMinute),
+      end: formatTimeOfDay(window.endMinute),
+    };
+  }
+
+  private transformBlackout(blackout: AvailabilityBlackout): AvailabilityBlackoutDto {
+    return {
+      id: blackout.id,
+      startDate: blackout.startDate,
+      endDate: blackout.endDate,
+      reason: blackout.reason,
+    };
+  }
+
+  private parseWindows(windows: unknown): WeeklyWindow[] {
+    if (!Array.isArray(windows)) {
+      throw new BadRequestException('windows must be an array');
+    }
+    if (windows.length > MAX_WINDOWS) {
+      throw new BadRequestException(`You can have at most ${MAX_WINDOWS} availability windows`);
+    }
+
+    const parsed = windows.map((window: AvailabilityWindowInput) => {
+      const weekday = window?.weekday;
+      if (!Number.isInteger(weekday) || weekday < 0 || weekday > 6) {
+        throw new BadRequestException('weekday must be between 0 (Sunday) and 6 (Saturday)');
+      }
+      const startMinute = parseTimeOfDay(window.start);
+      const endMinute = parseTimeOfDay(window.end);
+      if (startMinute === null || endMinute === null) {
+        throw new BadRequestException('start and end must be times in HH:mm format');
+      }
+      if (startMinute >= endMinute || startMinute >= MINUTES_PER_DAY) {
+        throw new BadRequestException('A window must end after it starts');
+      }
+      return { weekday, startMinute, endMinute };
+    });
+
+    const sorted = [...parsed].sort(
+      (a, b) => a.weekday - b.weekday || a.startMinute - b.startMinute,
+    );
+    for (let i = 1; i < sorted.length; i++) {
+      if (sorted[i].weekday === sorted[i - 1].weekday && sorted[i].startMinute < sorted[i - 1].endMinute) {
+        throw new BadRequestException('Windows on the same day must not overlap');
+      }
+    }
+
+    return sorted;
+  }
+
+  private parseDateKey(value: unknown, field: string): string {
+    const date = typeof value === 'string' && DATE_KEY_PATTERN.test(value) ? new Date(`${value}T00:00:00Z`) : null;
+    if (!date || Number.isNaN(date.getTime()) || date.toISOString().slice(0, 10) !== value) {
+      throw new BadRequestException(`${field} must be a date in YYYY-MM-DD format`);
+    }
+    return value as string;
+  }
+
+  async get(userId: string): Promise<AvailabilityDto> {
+    const { timezone } = await this.settingsService.get(userId);
+    const today = dayNumberToKey(zonedDayNumber(new Date(), timezone));
+
+    const [windows, blackouts] = await Promise.all([
+      this.prisma.availabilityWindow.findMany({
+        where: { userId },
+        orderBy: [{ weekday: 'asc' }, { startMinute: 'asc' }],
+      }),
+      this.prisma.availabilityBlackout.findMany({
+        where: { userId, endDate: { gte: today } },
+        orderBy: { startDate: 'asc' },
+      }),
+    ]);
+
+    return {
+      windows: windows.map((w) => this.transformWindow(w)),
+      blackouts: blackouts.map((b) => this.transformBlackout(b)),
+    };
+  }
+
+  /**
+   * Replace the whole weekly availability; an empty list restores the default
+   */
+  async replaceWindows(
+    userId: string,
+    windows: AvailabilityWindowInput[],
+  ): Promise<AvailabilityWindowDto[]> {
+    const parsed = this.parseWindows(windows);
+
+    const created = await this.prisma.$transaction(async (tx) => {
+      await tx.availabilityWindow.deleteMany({ where: { userId } });
+      await tx.availabilityWindow.createMany({
+        data: parsed.map((window) => ({ ...window, userId })),
+      });
+      return tx.availabilityWindow.findMany({
+        where: { userId },
+        orderBy: [{ weekday: 'asc' }, { startMinute: 'asc' }],
+      });
+    });
+
+    return created.map((w) => this.transformWindow(w));
+  }
+
+  async createBlackout(
+    userId: string,
+    dto: CreateAvailabilityBlackoutDto,
+  ): Promise<AvailabilityBlackoutDto> {
+    const startDate = this.parseDateKey(dto?.startDate, 'startDate');
+    const endDate = dto.endDate ? this.parseDateKey(dto.endDate, 'endDate') : startDate;
+    if (endDate < startDate) {
+      throw new BadRequestException('endDate must not be before startDate');
+    }
+    const days = (Date.parse(endDate) - Date.parse(startDate)) / (MINUTES_PER_DAY * MINUTE_MS) + 1;
+    if (days > MAX_BLACKOUT_DAYS) {
+      throw new BadRequestException(`A blackout can cover at most ${MAX_BLACKOUT_DAYS} days`);
+    }
+
+    const reason = typeof dto.reason === 'string' ? dto.reason.trim() : '';
+    if (reason.length > MAX_REASON_LENGTH) {
+      throw new BadRequestException(`reason must be at most ${MAX_REASON_LENGTH} characters`);
+    }
+
+    const count = await this.prisma.availabilityBlackout.count({ where: { userId } });
+    if (count >= MAX_BLACKOUTS) {
+      throw new BadRequestException(`You can have at most ${MAX_BLACKOUTS} blackouts`);
+    }
+
+    const blackout = await this.prisma.availabilityBlackout.create({
+      data: { userId, startDate, endDate, reason: reason || null },
+    });
+
+    return this.transformBlackout(blackout);
+  }
+
+  async deleteBlackout(id: string, userId: string): Promise<void> {
+    const blackout = await this.prisma.availabilityBlackout.findFirst({
+      where: { id, userId },
+    });
+
+    if (!blackout) {
+      throw new NotFoundException(`Blackout with ID ${id} not found`);
+    }
+
+    await this.prisma.availabilityBlackout.delete({
+      where: { id },
+    });
+  }
+
+  /**
+   * Free time on the local days [firstDay, firstDay + days) according to the
+   * user's windows (or the default) minus blackouts, in chronological order
+   */
+  async getOpenIntervals(
+    userId: string,
+    firstDay: number,
+    days: number,
+    timeZone: string,
+  ): Promise<OpenInterval[]> {
+    const [windows, blackouts] = await Promise.all([
+      this.prisma.availabilityWindow.findMany({
+        where: { userId },
+        select: { weekday: true, startMinute: true, endMinute: true },
+      }),
+      this.prisma.availabilityBlackout.findMany({
+        where: {
+          userId,
+          endDate: { gte: dayNumberToKey(firstDay) },
+          startDate: { lte: dayNumberToKey(firstDay + days - 1) },
+        },
+        select: { startDate: true, endDate: true },
+      }),
+    ]);
+
+    return buildOpenIntervals(
+      windows.length > 0 ? windows : DEFAULT_WINDOWS,
+      blackouts,
+      firstDay,
+      days,
+      timeZone,
+    );
+  }
+
+  /**
+   * Time already taken by planned or running sessions overlapping [from, to)
+   */
+  async findBusyIntervals(
+    userId: string,
+    from: Date,
+    to: Date,
+  ): Promise<TimeInterval[]> {
+    const sessions = await this.prisma.session.findMany({
+      where: {
+        userId,
+        status: { in: ['PLANNED', 'IN_PROGRESS'] },
+        scheduledFor: {
+          // Include sessions that started earlier and may still be running
+          gte: new Date(from.getTime() - MINUTES_PER_DAY * MINUTE_MS),
+          lt: to,
+        },
+      },
+      select: { scheduledFor: true, duration: true },
+    });
+
+    return sessions
+      .map((s) => ({
+        start: s.scheduledFor!.getTime(),
+        end: s.scheduledFor!.getTime() + s.duration * MINUTE_MS,
+      }))
+      .filter((interval) => interval.end > from.getTime());
+  }
+}
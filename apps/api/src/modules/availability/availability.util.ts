@@ -0,0 +1,135 @@
+import {
+  dayNumberToKey,
+  zonedTimeToUtc,
+} from '@common/utils/timezone.util';
+
+const MINUTE_MS = 60 * 1000;
+
+/** Weekday of day number 0 (1970-01-01, a Thursday) */
+const EPOCH_WEEKDAY = 4;
+
+/**
+ * Time range in epoch milliseconds; the end is exclusive
+ */
+export interface TimeInterval {
+  start: number;
+  end: number;
+}
+
+/**
+ * Free range on one local day, from zonedDayNumber
+ */
+export interface OpenInterval extends TimeInterval {
+  day: number;
+}
+
+/**
+ * Weekly window as stored: minutes after local midnight
+ */
+export interface WeeklyWindow {
+  weekday: number;
+  startMinute: number;
+  endMinute: number;
+}
+
+/**
+ * Blackout as stored: inclusive local day keys
+ */
+export interface BlackoutRange {
+  startDate: string;
+  endDate: string;
+}
+
+/**
+ * Weekday (0 = Sunday) of a day number from zonedDayNumber
+ */
+export function weekdayOfDayNumber(dayNumber: number): number {
+  return (((dayNumber + EPOCH_WEEKDAY) % 7) + 7) % 7;
+}
+
+/**
+ * Parse HH:mm into minutes after midnight; 24:00 is allowed as an end
+ */
+export function parseTimeOfDay(value: unknown): number | null {
+  const match = typeof value === 'string' ? /^(\d{2}):(\d{2})$/.exec(value) : null;
+  if (!match) return null;
+  const hours = parseInt(match[1], 10);
+  const minutes = parseInt(match[2], 10);
+  if (minutes > 59 || hours > 24 || (hours === 24 && minutes > 0)) return null;
+  return hours * 60 + minutes;
+}
+
+/**
+ * Minutes after midnight as HH:mm
+ */
+export function formatTimeOfDay(minutes: number): string {
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Instants covered by the weekly windows on each local day in
+ * [firstDay, firstDay + days), skipping blacked-out days
+ */
+export function buildOpenIntervals(
+  windows: WeeklyWindow[],
+  blackouts: BlackoutRange[],
+  firstDay: number,
+  days: number,
+  timeZone: string,
+): OpenInterval[] {
+  const open: OpenInterval[] = [];
+
+  for (let day = firstDay; day < firstDay + days; day++) {
+    const key = dayNumberToKey(day);
+    if (blackouts.some((b) => b.startDate <= key && key <= b.endDate)) continue;
+
+    const weekday = weekdayOfDayNumber(day);
+    const [year, month, date] = key.split('-').map(Number);
+    const dayWindows = windows
+      .filter((w) => w.weekday === weekday)
+      .sort((a, b) => a.startMinute - b.startMinute);
+
+    for (const window of dayWindows) {
+      // Minutes past 59 roll over, so 1440 lands on the next midnight
+      open.push({
+        day,
+        start: zonedTimeToUtc(year, month, date, 0, window.startMinute, 0, timeZone).getTime(),
+        end: zonedTimeToUtc(year, month, date, 0, window.endMinute, 0, timeZone).getTime(),
+      });
+    }
+  }
+
+  return open;
+}
+
+/**
+ * Earliest start on the step grid inside one of the open intervals where
+ * the duration fits between notBefore and notAfter without touching a busy
+ * interval; null when there is none
+ */
+export function findSlot(
+  open: TimeInterval[],
+  busy: TimeInterval[],
+  durationMinutes: number,
+  stepMinutes: number,
+  notBefore: number,
+  notAfter: number | null = null,
+): number | null {
+  const step = stepMinutes * MINUTE_MS;
+  const duration = durationMinutes * MINUTE_MS;
+
+  for (const interval of open) {
+    const end = notAfter !== null ? Math.min(interval.end, notAfter) : interval.end;
+    let candidate = Math.ceil(Math.max(interval.start, notBefore) / step) * step;
+
+    while (candidate + duration <= end) {
+      const clash = busy.find((b) => b.start < candidate + duration && b.end > candidate);
+      if (!clash) {
+        return candidate;
+      }
+      candidate = Math.ceil(clash.end / step) * step;
+    }
+  }
+
+  return null;
+}
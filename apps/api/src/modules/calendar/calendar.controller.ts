@@ -0,0 +1,74 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Param,
+  HttpCode,
+  HttpStatus,
+  Res,
+} from '@nestjs/common';
+import { Response } from 'express';
+import { CalendarService } from './calendar.service';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { Public } from '../auth/decorators/public.decorator';
+import type {
+  ApiResponse,
+  CalendarFeedStatusDto,
+  CalendarFeedTokenDto,
+} from '@repo/shared-types';
+
+@Controller('calendar')
+export class CalendarController {
+  constructor(private readonly calendarService: CalendarService) {}
+
+  @Get('feed')
+  async getFeedStatus(
+    @CurrentUser('sub') userId: string,
+  ): Promise<ApiResponse<CalendarFeedStatusDto>> {
+    const status = await this.calendarService.getFeedStatus(userId);
+
+    return {
+      success: true,
+      message: 'Calendar feed status retrieved successfully',
+      data: status,
+    };
+  }
+
+  @Post('feed/rotate')
+  @HttpCode(HttpStatus.CREATED)
+  async rotateFeedToken(
+    @CurrentUser('sub') userId: string,
+  ): Promise<ApiResponse<CalendarFeedTokenDto>> {
+    const feed = await this.calendarService.rotateFeedToken(userId);
+
+    return {
+      success: true,
+      message: 'Calendar feed token issued; previous feed URLs no longer work',
+      data: feed,
+    };
+  }
+
+  @Delete('feed')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async revokeFeed(@CurrentUser('sub') userId: string): Promise<void> {
+    await this.calendarService.revokeFeed(userId);
+  }
+
+  /**
+   * Read-only subscription feed; the token in the URL is the only credential
+   */
+  @Public()
+  @Get(':token.ics')
+  async getFeed(
+    @Param('token') token: string,
+    @Res() res: Response,
+  ): Promise<void> {
+    const content = await this.calendarService.renderFeed(token);
+
+    res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+    res.setHeader('Content-Disposition', 'inline; filename="sessions.ics"');
+    res.setHeader('Cache-Control', 'private, max-age=300');
+    res.send(content);
+  }
+}
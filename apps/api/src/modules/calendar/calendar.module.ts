@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { CalendarController } from './calendar.controller';
+import { CalendarService } from './calendar.service';
+import { PrismaModule } from '@common/prisma/prisma.module';
+import { SessionsModule } from '../sessions/sessions.module';
+
+@Module({
+  imports: [PrismaModule, SessionsModule],
+  controllers: [CalendarController],
+  providers: [CalendarService],
+  exports: [CalendarService],
+})
+export class CalendarModule {}
@@ -0,0 +1,102 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { createHash, randomBytes } from 'crypto';
+import { PrismaService } from '@common/prisma/prisma.service';
+import { SeriesService } from '../sessions/series.service';
+import { buildCalendar } from './ics.util';
+import { CATEGORY_INCLUDE } from '../categories/category.util';
+import type {
+  CalendarFeedStatusDto,
+  CalendarFeedTokenDto,
+} from '@repo/shared-types';
+
+/** How far back the feed includes past sessions */
+const FEED_PAST_DAYS = 30;
+
+@Injectable()
+export class CalendarService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly seriesService: SeriesService,
+  ) {}
+
+  /**
+   * Feed tokens are stored as SHA-256 hashes; the plain token only lives in the URL
+   */
+  private hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+
+  async getFeedStatus(userId: string): Promise<CalendarFeedStatusDto> {
+    const feed = await this.prisma.calendarFeed.findUnique({
+      where: { userId },
+    });
+
+    return {
+      active: !!feed,
+      createdAt: feed ? feed.updatedAt.toISOString() : null,
+      lastAccessedAt: feed?.lastAccessedAt ? feed.lastAccessedAt.toISOString() : null,
+    };
+  }
+
+  /**
+   * Issue a new feed token, invalidating any previous one
+   */
+  async rotateFeedToken(userId: string): Promise<CalendarFeedTokenDto> {
+    const token = randomBytes(32).toString('base64url');
+    const tokenHash = this.hashToken(token);
+
+    const feed = await this.prisma.calendarFeed.upsert({
+      where: { userId },
+      create: { userId, tokenHash },
+      update: { tokenHash, lastAccessedAt: null },
+    });
+
+    return {
+      token,
+      path: `/calendar/${token}.ics`,
+      createdAt: feed.updatedAt.toISOString(),
+    };
+  }
+
+  async revokeFeed(userId: string) {
+    await this.prisma.calendarFeed.deleteMany({
+      where: { userId },
+    });
+  }
+
+  /**
+   * Render the feed for a token; unknown or revoked tokens are a 404
+   */
+  async renderFeed(token: string): Promise<string> {
+    const feed = await this.prisma.calendarFeed.findUnique({
+      where: { tokenHash: this.hashToken(token) },
+      include: { user: { select: { name: true, email: true } } },
+    });
+
+    if (!feed) {
+      throw new NotFoundException('Calendar feed not found');
+    }
+
+    await this.seriesService.extendAll(feed.userId);
+
+    const from = new Date();
+    from.setDate(from.getDate() - FEED_PAST_DAYS);
+
+    const [sessions] = await Promise.all([
+      this.prisma.session.findMany({
+        where: { userId: feed.userId, scheduledFor: { gte: from } },
+        orderBy: { scheduledFor: 'asc' },
+        include: CATEGORY_INCLUDE,
+      }),
+      this.prisma.calendarFeed.update({
+        where: { id: feed.id },
+        data: { lastAccessedAt: new Date() },
+      }),
+    ]);
+
+    return buildCalendar(sessions, {
+      name: `Learn Sessions (${feed.user.name || feed.user.email})`,
+      refreshInterval: 'PT1H',
+    });
+  }
+}
@@ -0,0 +1,334 @@
+/**
+ * Minimal iCalendar (RFC 5545) helpers for session exports, feeds and imports
+ */
+
+import { isKnownTimeZone, zonedTimeToUtc } from '@common/utils/timezone.util';
+
+const PRODUCT_ID = '-//Learn Session Planner//Sessions//EN';
+const UID_DOMAIN = 'learn-session-planner';
+
+/** RFC 5545 PRIORITY values (1 = highest, 9 = lowest) */
+const PRIORITY_MAP: Record<string, number> = {
+  URGENT: 1,
+  HIGH: 3,
+  MEDIUM: 5,
+  LOW: 9,
+};
+
+/** Session statuses mapped onto the VEVENT STATUS property */
+const STATUS_MAP: Record<string, string> = {
+  PLANNED: 'TENTATIVE',
+  IN_PROGRESS: 'CONFIRMED',
+  COMPLETED: 'CONFIRMED',
+  MISSED: 'CONFIRMED',
+  CANCELLED: 'CANCELLED',
+};
+
+/**
+ * Session fields needed to build a VEVENT (Prisma shape, UPPERCASE enums)
+ */
+export interface IcsSession {
+  id: string;
+  title: string;
+  description: string | null;
+  category: { name: string } | null;
+  status: string;
+  priority: string;
+  duration: number;
+  actualDuration: number | null;
+  tags: string[];
+  notes: string | null;
+  scheduledFor: Date | null;
+  updatedAt: Date;
+}
+
+/**
+ * Escape a TEXT value (backslash, semicolon, comma and newlines)
+ */
+export function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Undo escapeText
+ */
+export function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) =>
+    char === 'n' || char === 'N' ? '\n' : char,
+  );
+}
+
+/**
+ * Format a date as a UTC DATE-TIME (e.g. 20261019T083000Z)
+ */
+export function formatDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * Fold a content line to at most 75 octets, continuation lines start with a space
+ */
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+
+  for (const char of line) {
+    const bytes = Buffer.byteLength(char);
+    const limit = parts.length === 0 ? 75 : 74;
+    if (currentBytes + bytes > limit) {
+      parts.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += bytes;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+}
+
+/**
+ * Build a VEVENT for a scheduled session
+ */
+function buildEvent(session: IcsSession, stamp: Date): string[] {
+  const description = [session.description, session.notes]
+    .filter((part): part is string => !!part && part.trim().length > 0)
+    .join('\n\n');
+  const categoryName = session.category?.name;
+  const categories = [...(categoryName ? [categoryName] : []), ...session.tags]
+    .map(escapeText)
+    .join(',');
+
+  return [
+    'BEGIN:VEVENT',
+    `UID:${session.id}@${UID_DOMAIN}`,
+    `DTSTAMP:${formatDateTime(stamp)}`,
+    `DTSTART:${formatDateTime(session.scheduledFor!)}`,
+    `DURATION:PT${session.duration}M`,
+    `SUMMARY:${escapeText(session.title)}`,
+    ...(description ? [`DESCRIPTION:${escapeText(description)}`] : []),
+    ...(categories ? [`CATEGORIES:${categories}`] : []),
+    `STATUS:${STATUS_MAP[session.status] || 'CONFIRMED'}`,
+    `PRIORITY:${PRIORITY_MAP[session.priority] || 5}`,
+    `X-LSP-STATUS:${session.status.toLowerCase()}`,
+    ...(session.actualDuration ? [`X-LSP-ACTUAL-DURATION:${session.actualDuration}`] : []),
+    // Tells our importer which CATEGORIES value is the category; empty when uncategorized
+    `X-LSP-CATEGORY:${escapeText(categoryName || '')}`,
+    `LAST-MODIFIED:${formatDateTime(session.updatedAt)}`,
+    'END:VEVENT',
+  ];
+}
+
+/**
+ * Serialize scheduled sessions into a VCALENDAR document.
+ * Sessions without scheduledFor are skipped.
+ */
+export function buildCalendar(
+  sessions: IcsSession[],
+  options: { name: string; refreshInterval?: string },
+): string {
+  const stamp = new Date();
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(options.name)}`,
+    ...(options.refreshInterval
+      ? [
+          `REFRESH-INTERVAL;VALUE=DURATION:${options.refreshInterval}`,
+          `X-PUBLISHED-TTL:${options.refreshInterval}`,
+        ]
+      : []),
+  ];
+
+  for (const session of sessions) {
+    if (!session.scheduledFor) continue;
+    lines.push(...buildEvent(session, stamp));
+  }
+
+  lines.push('END:VCALENDAR');
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * A parsed content line, e.g. `DTSTART;TZID=Europe/Zurich:20261019T083000`
+ */
+export interface IcsProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+/**
+ * Properties of a VEVENT grouped by upper-cased name
+ */
+export type IcsEvent = Map<string, IcsProperty[]>;
+
+/**
+ * A DATE or DATE-TIME value as written in the file (wall-clock fields)
+ */
+export interface IcsDateValue {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  dateOnly: boolean;
+  utc: boolean;
+  tzid?: string;
+}
+
+/**
+ * Split content into logical lines, undoing line folding
+ */
+export function unfoldLines(content: string): string[] {
+  return content
+    .replace(/\r\n/g, '\n')
+    .replace(/\r/g, '\n')
+    .replace(/\n[ \t]/g, '')
+    .split('\n')
+    .filter((line) => line.trim().length > 0);
+}
+
+/**
+ * Split a content line into name, parameters and value (quoted parameter values may contain ':' and ';')
+ */
+export function parseContentLine(line: string): IcsProperty | null {
+  let inQuotes = false;
+  let valueStart = -1;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') inQuotes = !inQuotes;
+    if (char === ':' && !inQuotes) {
+      valueStart = i;
+      break;
+    }
+  }
+  if (valueStart === -1) return null;
+
+  const [name, ...rawParams] = line.slice(0, valueStart).split(/;(?=(?:[^"]*"[^"]*")*[^"]*$)/);
+  const params: Record<string, string> = {};
+  for (const param of rawParams) {
+    const separator = param.indexOf('=');
+    if (separator === -1) continue;
+    params[param.slice(0, separator).toUpperCase()] = param.slice(separator + 1).replace(/^"|"$/g, '');
+  }
+
+  return { name: name.toUpperCase(), params, value: line.slice(valueStart + 1) };
+}
+
+/**
+ * Collect the top-level VEVENT components of a calendar, nested components (VALARM) are skipped
+ */
+export function readEvents(content: string): IcsEvent[] {
+  const events: IcsEvent[] = [];
+  let current: IcsEvent | null = null;
+  let nested = 0;
+
+  for (const line of unfoldLines(content)) {
+    const property = parseContentLine(line);
+    if (!property) continue;
+    const value = property.value.trim().toUpperCase();
+
+    if (property.name === 'BEGIN') {
+      if (value === 'VEVENT' && !current) {
+        current = new Map();
+      } else if (current) {
+        nested++;
+      }
+      continue;
+    }
+    if (property.name === 'END') {
+      if (current && nested > 0) {
+        nested--;
+      } else if (current && value === 'VEVENT') {
+        events.push(current);
+        current = null;
+      }
+      continue;
+    }
+    if (!current || nested > 0) continue;
+
+    const list = current.get(property.name) || [];
+    list.push(property);
+    current.set(property.name, list);
+  }
+
+  return events;
+}
+
+/**
+ * Split a multi-valued TEXT property (CATEGORIES) on unescaped commas
+ */
+export function splitTextList(value: string): string[] {
+  return value
+    .split(/(?<!\\),/)
+    .map((part) => unescapeText(part).trim())
+    .filter((part) => part.length > 0);
+}
+
+/**
+ * Parse a DATE (20261019) or DATE-TIME (20261019T083000[Z]) value
+ */
+export function parseDateValue(value: string, params: Record<string, string> = {}): IcsDateValue | null {
+  const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/i);
+  if (!match) return null;
+
+  const [, year, month, day, hour, minute, second, utc] = match;
+  return {
+    year: parseInt(year),
+    month: parseInt(month),
+    day: parseInt(day),
+    hour: hour ? parseInt(hour) : 0,
+    minute: minute ? parseInt(minute) : 0,
+    second: second ? parseInt(second) : 0,
+    dateOnly: !hour,
+    utc: !!utc,
+    tzid: !utc && params.TZID ? params.TZID : undefined,
+  };
+}
+
+/**
+ * Resolve a date value to an instant. UTC values are exact, TZID values are
+ * converted from the zone's wall-clock time, floating values use server time.
+ */
+export function toInstant(value: IcsDateValue): Date {
+  const { year, month, day, hour, minute, second } = value;
+
+  if (value.utc) {
+    return new Date(Date.UTC(year, month - 1, day, hour, minute, second));
+  }
+
+  if (value.tzid && isKnownTimeZone(value.tzid)) {
+    return zonedTimeToUtc(year, month, day, hour, minute, second, value.tzid);
+  }
+
+  return new Date(year, month - 1, day, hour, minute, second);
+}
+
+/**
+ * Parse a DURATION value (e.g. PT1H30M, P1D, P2W) into minutes
+ */
+export function parseDurationMinutes(value: string): number | null {
+  const match = value.trim().match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/i);
+  if (!match || value.trim().toUpperCase().endsWith('T')) return null;
+
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const total =
+    (parseInt(weeks || '0') * 7 + parseInt(days || '0')) * 24 * 60 +
+    parseInt(hours || '0') * 60 +
+    parseInt(minutes || '0') +
+    Math.round(parseInt(seconds || '0') / 60);
+
+  return sign === '-' ? -total : total;
+}
@@ -0,0 +1,108 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  HttpCode,
+  HttpStatus,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import { CategoriesService } from './categories.service';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import type {
+  ApiResponse,
+  CategoryResponse,
+  CreateCategoryDto,
+  UpdateCategoryDto,
+  DeleteCategoryQuery,
+} from '@repo/shared-types';
+
+@Controller('categories')
+export class CategoriesController {
+  constructor(private readonly categoriesService: CategoriesService) {}
+
+  @Get()
+  async findAll(
+    @CurrentUser('sub') userId: string,
+  ): Promise<ApiResponse<CategoryResponse[]>> {
+    const categories = await this.categoriesService.findAll(userId);
+
+    return {
+      success: true,
+      message: 'Categories retrieved successfully',
+      data: categories,
+    };
+  }
+
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  async create(
+    @CurrentUser('sub') userId: string,
+    @Body() dto: CreateCategoryDto,
+  ): Promise<ApiResponse<CategoryResponse>> {
+    const category = await this.categoriesService.create(userId, dto);
+
+    return {
+      success: true,
+      message: 'Category created successfully',
+      data: category,
+    };
+  }
+
+  @Post('defaults')
+  @HttpCode(HttpStatus.OK)
+  async restoreDefaults(
+    @CurrentUser('sub') userId: string,
+  ): Promise<ApiResponse<CategoryResponse[]>> {
+    const categories = await this.categoriesService.restoreDefaults(userId);
+
+    return {
+      success: true,
+      message: 'Default categories restored successfully',
+      data: categories,
+    };
+  }
+
+  @Get(':id')
+  async findOne(
+    @CurrentUser('sub') userId: string,
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<ApiResponse<CategoryResponse>> {
+    const category = await this.categoriesService.findOne(id, userId);
+
+    return {
+      success: true,
+      message: 'Category retrieved successfully',
+      data: category,
+    };
+  }
+
+  @Patch(':id')
+  async update(
+    @CurrentUser('sub') userId: string,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: UpdateCategoryDto,
+  ): Promise<ApiResponse<CategoryResponse>> {
+    const category = await this.categoriesService.update(id, userId, dto);
+
+    return {
+      success: true,
+      message: 'Category updated successfully',
+      data: category,
+    };
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async delete(
+    @CurrentUser('sub') userId: string,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query() query: DeleteCategoryQuery,
+  ): Promise<void> {
+    await this.categoriesService.remove(id, userId, query.reassignTo || undefined);
+  }
+}
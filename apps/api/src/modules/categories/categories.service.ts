@@ -0,0 +1,407 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+  OnApplicationBootstrap,
+} from '@nestjs/common';
+import { PrismaService } from '@common/prisma/prisma.service';
+import type {
+  CategoryResponse,
+  CreateCategoryDto,
+  UpdateCategoryDto,
+} from '@repo/shared-types';
+import { CATEGORY_COLORS, CATEGORY_ICONS } from '@repo/shared-types';
+import { SessionCategory } from '@prisma/client';
+import { defaultCategoryRows } from './category.util';
+
+/** Longest allowed category name */
+const MAX_NAME_LENGTH = 50;
+
+/** Upper bound on categories per user */
+const MAX_CATEGORIES = 200;
+
+/** How deep subcategories may be nested (1 = top level only) */
+const MAX_DEPTH = 5;
+
+@Injectable()
+export class CategoriesService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(CategoriesService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Transform Prisma category (with session count) to API response
+   */
+  private transformCategory(category: any): CategoryResponse {
+    return {
+      id: category.id,
+      name: category.name,
+      color: category.color,
+      icon: category.icon,
+      parentId: category.parentId,
+      sessionCount: category._count?.sessions ?? 0,
+      createdAt: category.createdAt.toISOString(),
+      updatedAt: category.updatedAt.toISOString(),
+    };
+  }
+
+  /**
+   * Map sessions, series and templates that still carry a fixed category
+   * onto the owner's seeded categories
+   */
+  async onApplicationBootstrap() {
+    try {
+      await this.migrateLegacyCategories();
+    } catch (error) {
+      this.logger.error(
+        'Mapping legacy categories failed',
+        error instanceof Error ? error.stack : String(error),
+      );
+    }
+  }
+
+  async findAll(userId: string): Promise<CategoryResponse[]> {
+    const categories = await this.prisma.category.findMany({
+      where: { userId },
+      orderBy: { name: 'asc' },
+      include: { _count: { select: { sessions: true } } },
+    });
+
+    return categories.map((category) => this.transformCategory(category));
+  }
+
+  async findOne(id: string, userId: string): Promise<CategoryResponse> {
+    const category = await this.prisma.category.findFirst({
+      where: { id, userId },
+      include: { _count: { select: { sessions: true } } },
+    });
+
+    if (!category) {
+      throw new NotFoundException(`Category with ID ${id} not found`);
+    }
+
+    return this.transformCategory(category);
+  }
+
+  async create(userId: string, dto: CreateCategoryDto): Promise<CategoryResponse> {
+    const name = this.validateName(dto?.name);
+    this.validateAppearance(dto);
+
+    const count = await this.prisma.category.count({ where: { userId } });
+    if (count >= MAX_CATEGORIES) {
+      throw new BadRequestException(`Cannot have more than ${MAX_CATEGORIES} categories`);
+    }
+
+    const parentId = dto.parentId ? await this.validateParent(userId, null, dto.parentId) : null;
+
+    try {
+      const category = await this.prisma.category.create({
+        data: {
+          name,
+          ...(dto.color && { color: dto.color }),
+          ...(dto.icon && { icon: dto.icon }),
+          parentId,
+          userId,
+        },
+        include: { _count: { select: { sessions: true } } },
+      });
+
+      return this.transformCategory(category);
+    } catch (error: any) {
+      if (error?.code === 'P2002') {
+        throw new ConflictException(`Category "${name}" already exists`);
+      }
+      throw error;
+    }
+  }
+
+  async update(
+    id: string,
+    userId: string,
+    dto: UpdateCategoryDto,
+  ): Promise<CategoryResponse> {
+    await this.findOne(id, userId);
+
+    const name = dto.name !== undefined ? this.validateName(dto.name) : undefined;
+    this.validateAppearance(dto);
+
+    let parentId: string | null | undefined;
+    if (dto.parentId !== undefined) {
+      parentId = dto.parentId ? await this.validateParent(userId, id, dto.parentId) : null;
+    }
+
+    try {
+      const category = await this.prisma.category.update({
+        where: { id },
+        data: {
+          ...(name !== undefined && { name }),
+          ...(dto.color && { color: dto.color }),
+          ...(dto.icon && { icon: dto.icon }),
+          ...(parentId !== undefined && { parentId }),
+        },
+        include: { _count: { select: { sessions: true } } },
+      });
+
+      return this.transformCategory(category);
+    } catch (error: any) {
+      if (error?.code === 'P2002') {
+        throw new ConflictException(`Category "${name}" already exists`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a category. Its sessions, series and templates move to reassignTo
+   * (or become uncategorized) and its subcategories move up to its parent.
+   */
+  async remove(id: string, userId: string, reassignTo?: string): Promise<void> {
+    const category = await this.prisma.category.findFirst({ where: { id, userId } });
+    if (!category) {
+      throw new NotFoundException(`Category with ID ${id} not found`);
+    }
+
+    if (reassignTo) {
+      if (reassignTo === id) {
+        throw new BadRequestException('Cannot reassign sessions to the deleted category');
+      }
+      await this.resolveOwnedId(userId, reassignTo);
+    }
+
+    await this.prisma.$transaction(async (tx) => {
+      if (reassignTo) {
+        const data = { categoryId: reassignTo };
+        await tx.session.updateMany({ where: { categoryId: id, userId }, data });
+        await tx.sessionSeries.updateMany({ where: { categoryId: id, userId }, data });
+        await tx.sessionTemplate.updateMany({ where: { categoryId: id, userId }, data });
+      }
+
+      await tx.category.updateMany({
+        where: { parentId: id, userId },
+        data: { parentId: category.parentId },
+      });
+      await tx.category.delete({ where: { id } });
+    });
+  }
+
+  /**
+   * Create the default categories the user does not have yet
+   */
+  async restoreDefaults(userId: string): Promise<CategoryResponse[]> {
+    await this.prisma.category.createMany({
+      data: defaultCategoryRows().map((row) => ({ ...row, userId })),
+      skipDuplicates: true,
+    });
+
+    return this.findAll(userId);
+  }
+
+  /**
+   * Check that a category given on a session, series or template belongs to
+   * the user. Passes null (uncategorized) and undefined (unchanged) through.
+   */
+  async resolveOwnedId<T extends string | null | undefined>(
+    userId: string,
+    categoryId: T,
+  ): Promise<T> {
+    if (!categoryId) return categoryId;
+
+    const category = await this.prisma.category.findFirst({
+      where: { id: categoryId, userId },
+      select: { id: true },
+    });
+    if (!category) {
+      throw new BadRequestException(`Category with ID ${categoryId} not found`);
+    }
+
+    return categoryId;
+  }
+
+  /**
+   * The given categories plus all of their subcategories
+   */
+  async withDescendants(userId: string, categoryIds: string[]): Promise<string[]> {
+    if (categoryIds.length === 0) return [];
+
+    const categories = await this.prisma.category.findMany({
+      where: { userId },
+      select: { id: true, parentId: true },
+    });
+
+    const childrenOf = new Map<string, string[]>();
+    for (const { id, parentId } of categories) {
+      if (!parentId) continue;
+      childrenOf.set(parentId, [...(childrenOf.get(parentId) || []), id]);
+    }
+
+    const result = new Set<string>();
+    const queue = [...categoryIds];
+    while (queue.length > 0) {
+      const id = queue.shift()!;
+      if (result.has(id)) continue;
+      result.add(id);
+      queue.push(...(childrenOf.get(id) || []));
+    }
+
+    return [...result];
+  }
+
+  /**
+   * Category IDs for names (case-insensitive), creating categories that do not exist yet.
+   * Keys of the returned map are lowercased names.
+   */
+  async findOrCreateByNames(userId: string, names: string[]): Promise<Map<string, string>> {
+    const wanted = new Map<string, string>();
+    for (const name of names) {
+      const trimmed = name.trim().slice(0, MAX_NAME_LENGTH);
+      if (trimmed) wanted.set(trimmed.toLowerCase(), trimmed);
+    }
+    if (wanted.size === 0) return new Map();
+
+    const existing = await this.prisma.category.findMany({
+      where: { userId },
+      select: { id: true, name: true },
+    });
+    const result = new Map(existing.map((c) => [c.name.toLowerCase(), c.id]));
+
+    for (const [key, name] of wanted) {
+      if (result.has(key)) continue;
+      try {
+        const created = await this.prisma.category.create({
+          data: { name, userId },
+          select: { id: true },
+        });
+        result.set(key, created.id);
+      } catch (error: any) {
+        // Created concurrently under the same name
+        if (error?.code !== 'P2002') throw error;
+        const found = await this.prisma.category.findFirst({
+          where: { userId, name: { equals: name, mode: 'insensitive' } },
+          select: { id: true },
+        });
+        if (found) result.set(key, found.id);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Map rows still holding a fixed (pre-category) value onto the owner's seeded
+   * categories, seeding them first. Cheap once everything has been mapped.
+   */
+  async migrateLegacyCategories(): Promise<void> {
+    const where = { legacyCategory: { not: null } };
+    const [sessions, series, templates] = await Promise.all([
+      this.prisma.session.findMany({ where, select: { userId: true }, distinct: ['userId'] }),
+      this.prisma.sessionSeries.findMany({ where, select: { userId: true }, distinct: ['userId'] }),
+      this.prisma.sessionTemplate.findMany({ where, select: { userId: true }, distinct: ['userId'] }),
+    ]);
+    const userIds = new Set([...sessions, ...series, ...templates].map((row) => row.userId));
+    if (userIds.size === 0) return;
+
+    for (const userId of userIds) {
+      await this.prisma.category.createMany({
+        data: defaultCategoryRows().map((row) => ({ ...row, userId })),
+        skipDuplicates: true,
+      });
+
+      const seeded = await this.prisma.category.findMany({
+        where: { userId, legacyKey: { not: null } },
+        select: { id: true, legacyKey: true },
+      });
+      const byKey = new Map(seeded.map((c) => [c.legacyKey as SessionCategory, c.id]));
+
+      // A default whose name was already taken is matched by name instead
+      for (const row of defaultCategoryRows()) {
+        if (byKey.has(row.legacyKey)) continue;
+        const sameName = await this.prisma.category.findFirst({
+          where: { userId, name: { equals: row.name, mode: 'insensitive' } },
+          select: { id: true },
+        });
+        if (sameName) byKey.set(row.legacyKey, sameName.id);
+      }
+
+      for (const [legacyCategory, categoryId] of byKey) {
+        const match = { userId, legacyCategory };
+        const data = { categoryId, legacyCategory: null };
+        await this.prisma.$transaction([
+          this.prisma.session.updateMany({ where: match, data }),
+          this.prisma.sessionSeries.updateMany({ where: match, data }),
+          this.prisma.sessionTemplate.updateMany({ where: match, data }),
+        ]);
+      }
+    }
+
+    this.logger.log(`Mapped legacy categories for ${userIds.size} user(s)`);
+  }
+
+  private validateName(name: unknown): string {
+    const trimmed = typeof name === 'string' ? name.trim() : '';
+    if (!trimmed) {
+      throw new BadRequestException('Category name is required');
+    }
+    if (trimmed.length > MAX_NAME_LENGTH) {
+      throw new BadRequestException(`Category name must be at most ${MAX_NAME_LENGTH} characters`);
+    }
+    return trimmed;
+  }
+
+  private validateAppearance(dto: { color?: string; icon?: string }) {
+    if (dto.color !== undefined && !(CATEGORY_COLORS as readonly string[]).includes(dto.color)) {
+      throw new BadRequestException(`Color must be one of: ${CATEGORY_COLORS.join(', ')}`);
+    }
+    if (dto.icon !== undefined && !(CATEGORY_ICONS as readonly string[]).includes(dto.icon)) {
+      throw new BadRequestException(`Icon must be one of: ${CATEGORY_ICONS.join(', ')}`);
+    }
+  }
+
+  /**
+   * Check a new parent: owned by the user, not the category itself or one of
+   * its subcategories, and within the nesting limit
+   */
+  private async validateParent(
+    userId: string,
+    categoryId: string | null,
+    parentId: string,
+  ): Promise<string> {
+    const categories = await this.prisma.category.findMany({
+      where: { userId },
+      select: { id: true, parentId: true },
+    });
+    const parentOf = new Map(categories.map((c) => [c.id, c.parentId]));
+
+    if (!parentOf.has(parentId)) {
+      throw new BadRequestException(`Parent category with ID ${parentId} not found`);
+    }
+
+    // Depth of the new parent, walking up to the root
+    let depth = 1;
+    for (let current: string | null = parentId; current; current = parentOf.get(current) ?? null) {
+      if (current === categoryId) {
+        throw new BadRequestException('A category cannot be nested inside itself');
+      }
+      depth++;
+    }
+
+    // Height of the moved subtree below the category
+    let height = 0;
+    if (categoryId) {
+      const childrenOf = new Map<string, string[]>();
+      for (const { id, parentId: parent } of categories) {
+        if (parent) childrenOf.set(parent, [...(childrenOf.get(parent) || []), id]);
+      }
+      const measure = (id: string): number =>
+        Math.max(0, ...(childrenOf.get(id) || []).map((child) => measure(child) + 1));
+      height = measure(categoryId);
+    }
+
+    if (depth + height > MAX_DEPTH) {
+      throw new BadRequestException(`Categories can be nested at most ${MAX_DEPTH} levels deep`);
+    }
+
+    return parentId;
+  }
+}
@@ -0,0 +1,56 @@
+import { Prisma, SessionCategory } from '@prisma/client';
+import type {
+  CategoryColor,
+  CategoryIcon,
+  CategorySummaryDto,
+} from '@repo/shared-types';
+import { DEFAULT_CATEGORIES } from '@repo/shared-types';
+
+/**
+ * Prisma include that embeds the category summary of a session, series or template
+ */
+export const CATEGORY_INCLUDE = {
+  category: {
+    select: { id: true, name: true, color: true, icon: true, parentId: true },
+  },
+} as const;
+
+/**
+ * Category row as selected by CATEGORY_INCLUDE
+ */
+export type CategorySummaryRecord = Prisma.CategoryGetPayload<{
+  select: (typeof CATEGORY_INCLUDE)['category']['select'];
+}>;
+
+/**
+ * Transform a Prisma category into the summary embedded in responses
+ */
+export function toCategorySummary(
+  category: CategorySummaryRecord | null | undefined,
+): CategorySummaryDto | null {
+  if (!category) return null;
+  return {
+    id: category.id,
+    name: category.name,
+    color: category.color as CategoryColor,
+    icon: category.icon as CategoryIcon,
+    parentId: category.parentId,
+  };
+}
+
+/**
+ * Rows for the default categories of a user, tagged with the fixed category they replace
+ */
+export function defaultCategoryRows(): Array<{
+  name: string;
+  color: string;
+  icon: string;
+  legacyKey: SessionCategory;
+}> {
+  return DEFAULT_CATEGORIES.map((category) => ({
+    name: category.name,
+    color: category.color,
+    icon: category.icon,
+    legacyKey: category.key.toUpperCase() as SessionCategory,
+  }));
+}
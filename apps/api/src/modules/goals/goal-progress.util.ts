@@ -0,0 +1,195 @@
+import type {
+  GoalBurnupPoint,
+  GoalCadence,
+  GoalProgressDto,
+} from '@repo/shared-types';
+import {
+  dayNumberToKey,
+  getZonedParts,
+  startOfZonedDay,
+  zonedDayNumber,
+  zonedTimeToUtc,
+} from '@common/utils/timezone.util';
+
+/** Most days a burn-up chart covers; longer periods show their last days */
+export const MAX_BURNUP_DAYS = 366;
+
+/**
+ * Time span a goal's progress is measured over; end is exclusive and
+ * missing for a 'once' goal without deadline
+ */
+export interface GoalPeriod {
+  start: Date;
+  end: Date | null;
+}
+
+/**
+ * Completed session or checklist item counted towards a goal
+ */
+export interface GoalEvent {
+  at: Date;
+  amount: number;
+}
+
+interface GoalSchedule {
+  cadence: string;
+  startDate: Date;
+  deadline: Date | null;
+}
+
+/**
+ * Amounts are hours or counts; two decimals are plenty for either
+ */
+export function roundAmount(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Period a goal is currently measured over. Recurring goals use the week or
+ * month containing now, clamped to the goal's start date and deadline; once
+ * the deadline has passed they stay on their last period.
+ */
+export function getGoalPeriod(
+  goal: GoalSchedule,
+  now: Date,
+  timeZone: string,
+  weekStartDay: number,
+): GoalPeriod {
+  const cadence = goal.cadence as GoalCadence;
+  if (cadence === 'once') {
+    return { start: goal.startDate, end: goal.deadline };
+  }
+
+  let reference = now < goal.startDate ? goal.startDate : now;
+  if (goal.deadline && reference >= goal.deadline) {
+    reference = new Date(goal.deadline.getTime() - 1);
+  }
+
+  let start: Date;
+  let end: Date;
+  if (cadence === 'weekly') {
+    const { weekday } = getZonedParts(reference, timeZone);
+    const firstDay = zonedDayNumber(reference, timeZone) - ((weekday - weekStartDay + 7) % 7);
+    start = startOfZonedDay(firstDay, timeZone);
+    end = startOfZonedDay(firstDay + 7, timeZone);
+  } else {
+    const { year, month } = getZonedParts(reference, timeZone);
+    start = zonedTimeToUtc(year, month, 1, 0, 0, 0, timeZone);
+    end = zonedTimeToUtc(year, month + 1, 1, 0, 0, 0, timeZone);
+  }
+
+  return {
+    start: goal.startDate > start ? goal.startDate : start,
+    end: goal.deadline && goal.deadline < end ? goal.deadline : end,
+  };
+}
+
+/**
+ * Compare progress with an even pace over the period
+ */
+export function summarizeProgress(
+  target: number,
+  current: number,
+  period: GoalPeriod,
+  now: Date,
+  timeZone: string,
+): GoalProgressDto {
+  const remaining = Math.max(0, target - current);
+  const base = {
+    periodStart: period.start.toISOString(),
+    periodEnd: period.end ? period.end.toISOString() : null,
+    current: roundAmount(current),
+    target,
+    percentage: target > 0 ? Math.min(100, Math.round((current / target) * 100)) : 100,
+    remaining: roundAmount(remaining),
+  };
+
+  if (!period.end) {
+    return {
+      ...base,
+      expected: null,
+      requiredPerDay: null,
+      daysLeft: null,
+      status: remaining === 0 ? 'completed' : 'open',
+    };
+  }
+
+  const total = period.end.getTime() - period.start.getTime();
+  const elapsed = Math.min(Math.max(now.getTime() - period.start.getTime(), 0), total);
+  const expected = total > 0 ? (target * elapsed) / total : target;
+
+  const isOver = now >= period.end;
+  const daysLeft = isOver
+    ? 0
+    : zonedDayNumber(new Date(period.end.getTime() - 1), timeZone) -
+      zonedDayNumber(now < period.start ? period.start : now, timeZone) +
+      1;
+
+  let status: GoalProgressDto['status'];
+  if (remaining === 0) {
+    status = 'completed';
+  } else if (isOver) {
+    status = 'missed';
+  } else {
+    status = current >= expected ? 'on_track' : 'behind';
+  }
+
+  return {
+    ...base,
+    expected: roundAmount(expected),
+    requiredPerDay: daysLeft > 0 ? roundAmount(remaining / daysLeft) : null,
+    daysLeft,
+    status,
+  };
+}
+
+/**
+ * Cumulative progress per local day next to the even pace. Days after today
+ * only carry the ideal line; without a period end the chart stops today.
+ */
+export function buildBurnup(
+  events: GoalEvent[],
+  target: number,
+  period: GoalPeriod,
+  now: Date,
+  timeZone: string,
+): GoalBurnupPoint[] {
+  const today = zonedDayNumber(now, timeZone);
+  const firstDay = zonedDayNumber(period.start, timeZone);
+  const lastDay = period.end
+    ? zonedDayNumber(new Date(period.end.getTime() - 1), timeZone)
+    : Math.max(today, firstDay);
+  const shownFrom = Math.max(firstDay, lastDay - MAX_BURNUP_DAYS + 1);
+
+  let cumulative = 0;
+  const perDay = new Map<number, number>();
+  for (const event of events) {
+    const day = zonedDayNumber(event.at, timeZone);
+    if (day < shownFrom) {
+      cumulative += event.amount;
+    } else {
+      perDay.set(day, (perDay.get(day) ?? 0) + event.amount);
+    }
+  }
+
+  const total = period.end ? period.end.getTime() - period.start.getTime() : 0;
+  const points: GoalBurnupPoint[] = [];
+  for (let day = shownFrom; day <= lastDay; day++) {
+    cumulative += perDay.get(day) ?? 0;
+
+    let ideal: number | null = null;
+    if (period.end) {
+      const dayEnd = Math.min(startOfZonedDay(day + 1, timeZone).getTime(), period.end.getTime());
+      const fraction = total > 0 ? (dayEnd - period.start.getTime()) / total : 1;
+      ideal = roundAmount(target * Math.min(Math.max(fraction, 0), 1));
+    }
+
+    points.push({
+      date: dayNumberToKey(day),
+      actual: day <= today ? roundAmount(cumulative) : null,
+      ideal,
+    });
+  }
+
+  return points;
+}
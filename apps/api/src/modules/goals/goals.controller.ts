@@ -0,0 +1,106 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  HttpCode,
+  HttpStatus,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import { GoalsService } from './goals.service';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import type {
+  ApiResponse,
+  CreateGoalDto,
+  UpdateGoalDto,
+  GoalResponse,
+  GoalBurnupDto,
+} from '@repo/shared-types';
+
+@Controller('goals')
+export class GoalsController {
+  constructor(private readonly goalsService: GoalsService) {}
+
+  @Get()
+  async findAll(
+    @CurrentUser('sub') userId: string,
+  ): Promise<ApiResponse<GoalResponse[]>> {
+    const goals = await this.goalsService.findAll(userId);
+
+    return {
+      success: true,
+      message: 'Goals retrieved successfully',
+      data: goals,
+    };
+  }
+
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  async create(
+    @CurrentUser('sub') userId: string,
+    @Body() dto: CreateGoalDto,
+  ): Promise<ApiResponse<GoalResponse>> {
+    const goal = await this.goalsService.create(userId, dto);
+
+    return {
+      success: true,
+      message: 'Goal created successfully',
+      data: goal,
+    };
+  }
+
+  @Get(':id')
+  async findOne(
+    @CurrentUser('sub') userId: string,
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<ApiResponse<GoalResponse>> {
+    const goal = await this.goalsService.findOne(id, userId);
+
+    return {
+      success: true,
+      message: 'Goal retrieved successfully',
+      data: goal,
+    };
+  }
+
+  @Get(':id/burnup')
+  async getBurnup(
+    @CurrentUser('sub') userId: string,
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<ApiResponse<GoalBurnupDto>> {
+    const burnup = await this.goalsService.getBurnup(id, userId);
+
+    return {
+      success: true,
+      message: 'Goal burn-up retrieved successfully',
+      data: burnup,
+    };
+  }
+
+  @Patch(':id')
+  async update(
+    @CurrentUser('sub') userId: string,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: UpdateGoalDto,
+  ): Promise<ApiResponse<GoalResponse>> {
+    const goal = await this.goalsService.update(id, userId, dto);
+
+    return {
+      success: true,
+      message: 'Goal updated successfully',
+      data: goal,
+    };
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async delete(
+    @CurrentUser('sub') userId: string,
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<void> {
+    await this.goalsService.delete(id, userId);
+  }
+}
@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { GoalsController } from './goals.controller';
+import { GoalsService } from './goals.service';
+import { PrismaModule } from '@common/prisma/prisma.module';
+import { SettingsModule } from '../settings/settings.module';
+import { CategoriesModule } from '../categories/categories.module';
+
+@Module({
+  imports: [PrismaModule, SettingsModule, CategoriesModule],
+  controllers: [GoalsController],
+  providers: [GoalsService],
+  exports: [GoalsService],
+})
+export class GoalsModule {}
@@ -0,0 +1,367 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '@common/prisma/prisma.service';
+import type {
+  CreateGoalDto,
+  UpdateGoalDto,
+  GoalResponse,
+  GoalBurnupDto,
+  GoalMetric,
+  GoalCadence,
+} from '@repo/shared-types';
+import { GOAL_CADENCES, GOAL_METRICS } from '@repo/shared-types';
+import { SettingsService } from '../settings/settings.service';
+import { CategoriesService } from '../categories/categories.service';
+import { CATEGORY_INCLUDE, toCategorySummary } from '../categories/category.util';
+import {
+  GoalEvent,
+  GoalPeriod,
+  buildBurnup,
+  getGoalPeriod,
+  summarizeProgress,
+} from './goal-progress.util';
+
+/** Longest allowed goal title */
+const MAX_TITLE_LENGTH = 100;
+
+/** Upper bound on goals per user */
+const MAX_GOALS = 50;
+
+/** Most tags a goal can be scoped to */
+const MAX_SCOPE_TAGS = 10;
+
+/** Largest target; generous for hours, sessions and checklist items alike */
+const MAX_TARGET = 100000;
+
+type GoalRecord = Prisma.GoalGetPayload<{ include: typeof CATEGORY_INCLUDE }>;
+
+/**
+ * A goal with what its current period still needs once the sessions
+ * already planned in scope are counted, in the goal's metric
+ */
+export interface GoalPlanningNeed {
+  goal: GoalResponse;
+  unplanned: number;
+}
+
+@Injectable()
+export class GoalsService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly settingsService: SettingsService,
+    private readonly categoriesService: CategoriesService,
+  ) {}
+
+  /**
+   * Transform Prisma goal plus its computed progress to API response
+   */
+  private transformGoal(
+    goal: GoalRecord,
+    progress: GoalResponse['progress'],
+  ): GoalResponse {
+    return {
+      id: goal.id,
+      title: goal.title,
+      metric: goal.metric as GoalMetric,
+      target: goal.target,
+      cadence: goal.cadence as GoalCadence,
+      categoryId: goal.categoryId,
+      category: toCategorySummary(goal.category),
+      tags: goal.tags,
+      startDate: goal.startDate.toISOString(),
+      deadline: goal.deadline ? goal.deadline.toISOString() : null,
+      progress,
+      createdAt: goal.createdAt.toISOString(),
+      updatedAt: goal.updatedAt.toISOString(),
+    };
+  }
+
+  private async findOwned(id: string, userId: string): Promise<GoalRecord> {
+    const goal = await this.prisma.goal.findFirst({
+      where: { id, userId },
+      include: CATEGORY_INCLUDE,
+    });
+
+    if (!goal) {
+      throw new NotFoundException(`Goal with ID ${id} not found`);
+    }
+
+    return goal;
+  }
+
+  private parseTitle(title: unknown): string {
+    const trimmed = typeof title === 'string' ? title.trim() : '';
+    if (!trimmed) {
+      throw new BadRequestException('Goal title is required');
+    }
+    if (trimmed.length > MAX_TITLE_LENGTH) {
+      throw new BadRequestException(`Goal title must be at most ${MAX_TITLE_LENGTH} characters`);
+    }
+    return trimmed;
+  }
+
+  private parseMetric(metric: unknown): GoalMetric {
+    if (!GOAL_METRICS.includes(metric as GoalMetric)) {
+      throw new BadRequestException(`metric must be one of: ${GOAL_METRICS.join(', ')}`);
+    }
+    return metric as GoalMetric;
+  }
+
+  private parseCadence(cadence: unknown): GoalCadence {
+    if (!GOAL_CADENCES.includes(cadence as GoalCadence)) {
+      throw new BadRequestException(`cadence must be one of: ${GOAL_CADENCES.join(', ')}`);
+    }
+    return cadence as GoalCadence;
+  }
+
+  private parseTarget(target: unknown, metric: GoalMetric): number {
+    if (typeof target !== 'number' || !Number.isFinite(target) || target <= 0 || target > MAX_TARGET) {
+      throw new BadRequestException(`target must be a number between 0 and ${MAX_TARGET}`);
+    }
+    if (metric !== 'hours' && !Number.isInteger(target)) {
+      throw new BadRequestException(`target must be a whole number of ${metric}`);
+    }
+    return target;
+  }
+
+  private parseTags(tags: unknown): string[] {
+    if (!Array.isArray(tags) || tags.some((tag) => typeof tag !== 'string')) {
+      throw new BadRequestException('tags must be an array of strings');
+    }
+    const unique = [...new Set(tags.map((tag: string) => tag.trim()).filter(Boolean))];
+    if (unique.length > MAX_SCOPE_TAGS) {
+      throw new BadRequestException(`A goal can be scoped to at most ${MAX_SCOPE_TAGS} tags`);
+    }
+    return unique;
+  }
+
+  private parseDate(value: unknown, field: string): Date {
+    const date = typeof value === 'string' ? new Date(value) : null;
+    if (!date || Number.isNaN(date.getTime())) {
+      throw new BadRequestException(`${field} must be an ISO date`);
+    }
+    return date;
+  }
+
+  /**
+   * Where clause for the sessions in a goal's scope: its category
+   * (subcategories included) and at least one of its tags
+   */
+  private async buildScope(goal: GoalRecord): Promise<Prisma.SessionWhereInput> {
+    const where: Prisma.SessionWhereInput = { userId: goal.userId };
+
+    if (goal.categoryId) {
+      const categoryIds = await this.categoriesService.withDescendants(goal.userId, [goal.categoryId]);
+      where.categoryId = { in: categoryIds };
+    }
+    if (goal.tags.length > 0) {
+      where.tags = { hasSome: goal.tags };
+    }
+
+    return where;
+  }
+
+  /**
+   * Completions in scope during the period, in the goal's metric. Checklist
+   * items count whatever the state of their session; sessions completed
+   * before completedAt was recorded fall back to their scheduled time.
+   */
+  private async collectEvents(goal: GoalRecord, period: GoalPeriod): Promise<GoalEvent[]> {
+    const scope = await this.buildScope(goal);
+    const range = { gte: period.start, ...(period.end && { lt: period.end }) };
+
+    if (goal.metric === 'tasks') {
+      const tasks = await this.prisma.sessionTask.findMany({
+        where: {
+          done: true,
+          completedAt: range,
+          session: scope,
+        },
+        select: { completedAt: true },
+      });
+      return tasks.map((task) => ({ at: task.completedAt as Date, amount: 1 }));
+    }
+
+    const sessions = await this.prisma.session.findMany({
+      where: {
+        ...scope,
+        status: 'COMPLETED',
+        OR: [{ completedAt: range }, { completedAt: null, scheduledFor: range }],
+      },
+      select: { completedAt: true, scheduledFor: true, duration: true, actualDuration: true },
+    });
+
+    return sessions.map((session) => ({
+      at: (session.completedAt ?? session.scheduledFor) as Date,
+      amount:
+        goal.metric === 'hours' ? (session.actualDuration ?? session.duration) / 60 : 1,
+    }));
+  }
+
+  private async withProgress(goal: GoalRecord, now: Date): Promise<GoalResponse> {
+    const { timezone, weekStartDay } = await this.settingsService.get(goal.userId);
+    const period = getGoalPeriod(goal, now, timezone, weekStartDay);
+    const events = await this.collectEvents(goal, period);
+    const current = events.reduce((sum, event) => sum + event.amount, 0);
+
+    return this.transformGoal(goal, summarizeProgress(goal.target, current, period, now, timezone));
+  }
+
+  async findAll(userId: string): Promise<GoalResponse[]> {
+    const goals = await this.prisma.goal.findMany({
+      where: { userId },
+      include: CATEGORY_INCLUDE,
+      orderBy: [{ deadline: { sort: 'asc', nulls: 'last' } }, { createdAt: 'asc' }],
+    });
+
+    const now = new Date();
+    return Promise.all(goals.map((goal) => this.withProgress(goal, now)));
+  }
+
+  async findOne(id: string, userId: string): Promise<GoalResponse> {
+    const goal = await this.findOwned(id, userId);
+    return this.withProgress(goal, new Date());
+  }
+
+  async create(userId: string, dto: CreateGoalDto): Promise<GoalResponse> {
+    const count = await this.prisma.goal.count({ where: { userId } });
+    if (count >= MAX_GOALS) {
+      throw new BadRequestException(`You can have at most ${MAX_GOALS} goals`);
+    }
+
+    const title = this.parseTitle(dto?.title);
+    const metric = this.parseMetric(dto.metric);
+    const target = this.parseTarget(dto.target, metric);
+    const cadence = dto.cadence !== undefined ? this.parseCadence(dto.cadence) : 'once';
+    const tags = dto.tags !== undefined ? this.parseTags(dto.tags) : [];
+    const startDate = dto.startDate ? this.parseDate(dto.startDate, 'startDate') : new Date();
+    const deadline = dto.deadline ? this.parseDate(dto.deadline, 'deadline') : null;
+    this.validateSchedule(startDate, deadline);
+    const categoryId = await this.categoriesService.resolveOwnedId(userId, dto.categoryId ?? null);
+
+    const goal = await this.prisma.goal.create({
+      data: { title, metric, target, cadence, categoryId, tags, startDate, deadline, userId },
+      include: CATEGORY_INCLUDE,
+    });
+
+    return this.withProgress(goal, new Date());
+  }
+
+  async update(id: string, userId: string, dto: UpdateGoalDto): Promise<GoalResponse> {
+    const existing = await this.findOwned(id, userId);
+
+    const metric = dto.metric !== undefined ? this.parseMetric(dto.metric) : (existing.metric as GoalMetric);
+    const target =
+      dto.target !== undefined || dto.metric !== undefined
+        ? this.parseTarget(dto.target ?? existing.target, metric)
+        : undefined;
+    const startDate =
+      dto.startDate !== undefined ? this.parseDate(dto.startDate, 'startDate') : existing.startDate;
+    let deadline = existing.deadline;
+    if (dto.deadline !== undefined) {
+      deadline = dto.deadline ? this.parseDate(dto.deadline, 'deadline') : null;
+    }
+    this.validateSchedule(startDate, deadline);
+
+    let categoryId: string | null | undefined;
+    if (dto.categoryId !== undefined) {
+      categoryId = await this.categoriesService.resolveOwnedId(userId, dto.categoryId);
+    }
+
+    const goal = await this.prisma.goal.update({
+      where: { id },
+      data: {
+        ...(dto.title !== undefined && { title: this.parseTitle(dto.title) }),
+        ...(dto.metric !== undefined && { metric }),
+        ...(target !== undefined && { target }),
+        ...(dto.cadence !== undefined && { cadence: this.parseCadence(dto.cadence) }),
+        ...(categoryId !== undefined && { categoryId }),
+        ...(dto.tags !== undefined && { tags: this.parseTags(dto.tags) }),
+        startDate,
+        deadline,
+      },
+      include: CATEGORY_INCLUDE,
+    });
+
+    return this.withProgress(goal, new Date());
+  }
+
+  async delete(id: string, userId: string): Promise<void> {
+    await this.findOwned(id, userId);
+
+    await this.prisma.goal.delete({
+      where: { id },
+    });
+  }
+
+  /**
+   * Day-by-day progress of the goal's current period next to the even pace
+   */
+  async getBurnup(id: string, userId: string): Promise<GoalBurnupDto> {
+    const goal = await this.findOwned(id, userId);
+    const { timezone, weekStartDay } = await this.settingsService.get(userId);
+    const now = new Date();
+    const period = getGoalPeriod(goal, now, timezone, weekStartDay);
+    const events = await this.collectEvents(goal, period);
+
+    return {
+      goalId: goal.id,
+      metric: goal.metric as GoalMetric,
+      target: goal.target,
+      points: buildBurnup(events, goal.target, period, now, timezone),
+    };
+  }
+
+  /**
+   * What the given goals still need for the planner. Planned and running
+   * sessions in scope during the period count as if they were done;
+   * checklist goals cannot be planned and report nothing unplanned.
+   */
+  async getPlanningNeeds(userId: string, ids: string[]): Promise<GoalPlanningNeed[]> {
+    const goals = await this.prisma.goal.findMany({
+      where: { userId, id: { in: ids } },
+      include: CATEGORY_INCLUDE,
+    });
+    if (goals.length !== new Set(ids).size) {
+      throw new NotFoundException('One or more goals were not found');
+    }
+
+    const { timezone, weekStartDay } = await this.settingsService.get(userId);
+    const now = new Date();
+
+    return Promise.all(
+      goals.map(async (goal) => {
+        const response = await this.withProgress(goal, now);
+        if (goal.metric === 'tasks') {
+          return { goal: response, unplanned: 0 };
+        }
+
+        const period = getGoalPeriod(goal, now, timezone, weekStartDay);
+        const planned = await this.prisma.session.findMany({
+          where: {
+            ...(await this.buildScope(goal)),
+            status: { in: ['PLANNED', 'IN_PROGRESS'] },
+            scheduledFor: { gte: period.start, ...(period.end && { lt: period.end }) },
+          },
+          select: { duration: true },
+        });
+        const scheduled = planned.reduce(
+          (sum, session) => sum + (goal.metric === 'hours' ? session.duration / 60 : 1),
+          0,
+        );
+
+        return { goal: response, unplanned: Math.max(0, response.progress.remaining - scheduled) };
+      }),
+    );
+  }
+
+  private validateSchedule(startDate: Date, deadline: Date | null) {
+    if (deadline && deadline <= startDate) {
+      throw new BadRequestException('deadline must be after startDate');
+    }
+  }
+}
@@ -0,0 +1,97 @@
+import {
+  OpenInterval,
+  TimeInterval,
+  findSlot,
+} from '../availability/availability.util';
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Something to place: an unscheduled session or one block towards a goal
+ */
+export interface PlanItem {
+  key: string;
+  duration: number;
+  /** Higher is placed first */
+  priorityRank: number;
+  /** Category id, or '' when uncategorized */
+  categoryKey: string;
+  /** At most one item of a group is placed per day, e.g. blocks of one goal */
+  group: string | null;
+  /** Earliest start in epoch milliseconds */
+  notBefore: number;
+  /** Latest end in epoch milliseconds */
+  notAfter: number | null;
+}
+
+export interface PlanOptions {
+  dailyCapMinutes: number;
+  stepMinutes: number;
+  /** Minutes already planned per local day; they count towards the cap */
+  bookedMinutes: Map<number, number>;
+}
+
+/**
+ * Fill the open intervals day by day. Each day takes the most important
+ * item that still fits, breaking ties in favour of the category with the
+ * fewest minutes that day and then overall, so one subject does not crowd
+ * out the others. Busy is extended with every placed item.
+ *
+ * Returns the chosen start per item key; missing keys did not fit.
+ */
+export function placeItems(
+  items: PlanItem[],
+  open: OpenInterval[],
+  busy: TimeInterval[],
+  options: PlanOptions,
+): Map<string, number> {
+  const placed = new Map<string, number>();
+  const categoryTotals = new Map<string, number>();
+  const days = [...new Set(open.map((interval) => interval.day))].sort((a, b) => a - b);
+
+  for (const day of days) {
+    const dayOpen = open.filter((interval) => interval.day === day);
+    const dayCategories = new Map<string, number>();
+    const dayGroups = new Set<string>();
+    let used = options.bookedMinutes.get(day) ?? 0;
+
+    for (;;) {
+      const candidates = items
+        .map((item, index) => ({ item, index }))
+        .filter(
+          ({ item }) =>
+            !placed.has(item.key) &&
+            !(item.group && dayGroups.has(item.group)) &&
+            used + item.duration <= options.dailyCapMinutes,
+        )
+        .sort(
+          (a, b) =>
+            b.item.priorityRank - a.item.priorityRank ||
+            (dayCategories.get(a.item.categoryKey) ?? 0) - (dayCategories.get(b.item.categoryKey) ?? 0) ||
+            (categoryTotals.get(a.item.categoryKey) ?? 0) - (categoryTotals.get(b.item.categoryKey) ?? 0) ||
+            (a.item.notAfter ?? Infinity) - (b.item.notAfter ?? Infinity) ||
+            a.index - b.index,
+        );
+
+      let next: { item: PlanItem; start: number } | null = null;
+      for (const { item } of candidates) {
+        const start = findSlot(dayOpen, busy, item.duration, options.stepMinutes, item.notBefore, item.notAfter);
+        if (start !== null) {
+          next = { item, start };
+          break;
+        }
+      }
+      if (!next) break;
+
+      const { item, start } = next;
+      placed.set(item.key, start);
+      busy.push({ start, end: start + item.duration * MINUTE_MS });
+      used += item.duration;
+      dayCategories.set(item.categoryKey, (dayCategories.get(item.categoryKey) ?? 0) + item.duration);
+      categoryTotals.set(item.categoryKey, (categoryTotals.get(item.categoryKey) ?? 0) + item.duration);
+      if (item.group) dayGroups.add(item.group);
+    }
+  }
+
+  return placed;
+}
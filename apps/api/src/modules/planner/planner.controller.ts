@@ -0,0 +1,51 @@
+import {
+  Controller,
+  Post,
+  Body,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { PlannerService } from './planner.service';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import type {
+  ApiResponse,
+  ApplyPlanDto,
+  ApplyPlanResultDto,
+  PlanPreviewDto,
+  PlanRequestDto,
+} from '@repo/shared-types';
+
+@Controller('planner')
+export class PlannerController {
+  constructor(private readonly plannerService: PlannerService) {}
+
+  @Post('preview')
+  @HttpCode(HttpStatus.OK)
+  async preview(
+    @CurrentUser('sub') userId: string,
+    @Body() dto: PlanRequestDto,
+  ): Promise<ApiResponse<PlanPreviewDto>> {
+    const plan = await this.plannerService.preview(userId, dto || {});
+
+    return {
+      success: true,
+      message: 'Plan proposed successfully',
+      data: plan,
+    };
+  }
+
+  @Post('apply')
+  @HttpCode(HttpStatus.OK)
+  async apply(
+    @CurrentUser('sub') userId: string,
+    @Body() dto: ApplyPlanDto,
+  ): Promise<ApiResponse<ApplyPlanResultDto>> {
+    const result = await this.plannerService.apply(userId, dto);
+
+    return {
+      success: true,
+      message: 'Plan applied successfully',
+      data: result,
+    };
+  }
+}
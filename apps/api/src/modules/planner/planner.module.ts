@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { PlannerController } from './planner.controller';
+import { PlannerService } from './planner.service';
+import { PrismaModule } from '@common/prisma/prisma.module';
+import { SettingsModule } from '../settings/settings.module';
+import { AvailabilityModule } from '../availability/availability.module';
+import { GoalsModule } from '../goals/goals.module';
+import { SessionsModule } from '../sessions/sessions.module';
+
+@Module({
+  imports: [PrismaModule, SettingsModule, AvailabilityModule, GoalsModule, SessionsModule],
+  controllers: [PlannerController],
+  providers: [PlannerService],
+})
+export class PlannerModule {}
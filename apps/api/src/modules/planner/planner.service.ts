@@ -0,0 +1,393 @@
+import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
+import { PrismaService } from '@common/prisma/prisma.service';
+import { startOfZonedDay, zonedDayNumber } from '@common/utils/timezone.util';
+import type {
+  ApplyPlanDto,
+  ApplyPlanResultDto,
+  PlanPreviewDto,
+  PlanProposalDto,
+  PlanRequestDto,
+  PlanUnplacedDto,
+  SessionResponse,
+} from '@repo/shared-types';
+import { SESSION_PRIORITIES, SessionPriority } from '@repo/shared-types';
+import { SettingsService } from '../settings/settings.service';
+import { AvailabilityService } from '../availability/availability.service';
+import { TimeInterval } from '../availability/availability.util';
+import { GoalsService } from '../goals/goals.service';
+import { SessionsService } from '../sessions/sessions.service';
+import { CATEGORY_INCLUDE, toCategorySummary } from '../categories/category.util';
+import { PlanItem, placeItems } from './plan.util';
+
+const DEFAULT_PLAN_DAYS = 7;
+const MAX_PLAN_DAYS = 28;
+
+const DEFAULT_DAILY_CAP_MINUTES = 240;
+
+const DEFAULT_GOAL_BLOCK_MINUTES = 60;
+const MAX_GOAL_BLOCK_MINUTES = 240;
+
+/** Planned sessions start on this minute grid */
+const SLOT_STEP_MINUTES = 15;
+
+/** Upper bound on sessions, goals or proposals in one request */
+const MAX_PLAN_ITEMS = 200;
+
+const MINUTE_MS = 60 * 1000;
+
+/** Placement order; urgent sessions get the earliest slots */
+const PRIORITY_RANK: Record<SessionPriority, number> = {
+  [SessionPriority.LOW]: 0,
+  [SessionPriority.MEDIUM]: 1,
+  [SessionPriority.HIGH]: 2,
+  [SessionPriority.URGENT]: 3,
+};
+
+@Injectable()
+export class PlannerService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly settingsService: SettingsService,
+    private readonly availabilityService: AvailabilityService,
+    private readonly goalsService: GoalsService,
+    private readonly sessionsService: SessionsService,
+  ) {}
+
+  private parseIds(ids: unknown, field: string): string[] {
+    if (!Array.isArray(ids) || ids.some((id) => typeof id !== 'string')) {
+      throw new BadRequestException(`${field} must be an array of ids`);
+    }
+    if (ids.length > MAX_PLAN_ITEMS) {
+      throw new BadRequestException(`${field} can hold at most ${MAX_PLAN_ITEMS} ids`);
+    }
+    return [...new Set(ids as string[])];
+  }
+
+  private parseMinutes(value: unknown, field: string, min: number, max: number): number {
+    if (!Number.isInteger(value) || (value as number) < min || (value as number) > max) {
+      throw new BadRequestException(`${field} must be a whole number between ${min} and ${max}`);
+    }
+    return value as number;
+  }
+
+  /**
+   * Propose a conflict-free schedule for unscheduled sessions and goal
+   * blocks within the user's availability. Nothing is saved.
+   */
+  async preview(userId: string, dto: PlanRequestDto = {}): Promise<PlanPreviewDto> {
+    const days = dto.days !== undefined ? this.parseMinutes(dto.days, 'days', 1, MAX_PLAN_DAYS) : DEFAULT_PLAN_DAYS;
+    const dailyCapMinutes =
+      dto.dailyCapMinutes !== undefined
+        ? this.parseMinutes(dto.dailyCapMinutes, 'dailyCapMinutes', SLOT_STEP_MINUTES, 24 * 60)
+        : DEFAULT_DAILY_CAP_MINUTES;
+    const goalBlockMinutes =
+      dto.goalBlockMinutes !== undefined
+        ? this.parseMinutes(dto.goalBlockMinutes, 'goalBlockMinutes', SLOT_STEP_MINUTES, MAX_GOAL_BLOCK_MINUTES)
+        : DEFAULT_GOAL_BLOCK_MINUTES;
+    const sessionIds = dto.sessionIds !== undefined ? this.parseIds(dto.sessionIds, 'sessionIds') : null;
+    const goalIds = dto.goalIds !== undefined ? this.parseIds(dto.goalIds, 'goalIds') : [];
+
+    const { timezone } = await this.settingsService.get(userId);
+    const now = new Date();
+    const firstDay = zonedDayNumber(now, timezone);
+    const to = startOfZonedDay(firstDay + days, timezone);
+
+    const items: PlanItem[] = [];
+    const proposalsByKey = new Map<string, Omit<PlanProposalDto, 'scheduledFor'>>();
+    const unplaced: PlanUnplacedDto[] = [];
+    const goalBlocks: { goalId: string; title: string; deadline: string | null; keys: string[] }[] = [];
+
+    // Sessions: the listed ones, or every unscheduled planned session
+    const planAllSessions = sessionIds === null;
+    if (planAllSessions || sessionIds.length > 0) {
+      const sessions = await this.prisma.session.findMany({
+        where: planAllSessions
+          ? { userId, status: 'PLANNED', scheduledFor: null }
+          : { userId, id: { in: sessionIds! } },
+        include: CATEGORY_INCLUDE,
+        orderBy: { createdAt: 'asc' },
+        take: MAX_PLAN_ITEMS,
+      });
+      if (!planAllSessions && sessions.length !== sessionIds!.length) {
+        throw new NotFoundException('One or more sessions were not found');
+      }
+
+      for (const session of sessions) {
+        if (session.status !== 'PLANNED' || session.scheduledFor) {
+          unplaced.push({
+            sessionId: session.id,
+            goalId: null,
+            title: session.title,
+            reason: 'Only unscheduled planned sessions can be planned',
+          });
+          continue;
+        }
+
+        const priority = session.priority.toLowerCase() as SessionPriority;
+        const key = `session:${session.id}`;
+        items.push({
+          key,
+          duration: session.duration,
+          priorityRank: PRIORITY_RANK[priority],
+          categoryKey: session.categoryId ?? '',
+          group: null,
+          notBefore: now.getTime(),
+          notAfter: null,
+        });
+        proposalsByKey.set(key, {
+          key,
+          sessionId: session.id,
+          goalId: null,
+          title: session.title,
+          duration: session.duration,
+          priority,
+          categoryId: session.categoryId,
+          category: toCategorySummary(session.category),
+          tags: session.tags,
+        });
+      }
+    }
+
+    // Goals: blocks for whatever is not yet done or planned, one per goal and day
+    const needs = goalIds.length > 0 ? await this.goalsService.getPlanningNeeds(userId, goalIds) : [];
+    for (const { goal, unplanned } of needs) {
+      const skip = (reason: string) => unplaced.push({ sessionId: null, goalId: goal.id, title: goal.title, reason });
+
+      if (goal.metric === 'tasks') {
+        skip('Checklist goals cannot be planned');
+        continue;
+      }
+      if (unplanned <= 0) {
+        skip('Nothing left to plan for the current period');
+        continue;
+      }
+      if (goal.progress.periodEnd && new Date(goal.progress.periodEnd) <= now) {
+        skip('The goal period is over');
+        continue;
+      }
+
+      const durations: number[] = [];
+      if (goal.metric === 'hours') {
+        let minutes = Math.ceil((unplanned * 60) / SLOT_STEP_MINUTES) * SLOT_STEP_MINUTES;
+        while (minutes > 0) {
+          durations.push(Math.min(goalBlockMinutes, minutes));
+          minutes -= goalBlockMinutes;
+        }
+      } else {
+        durations.push(...Array.from({ length: Math.ceil(unplanned) }, () => goalBlockMinutes));
+      }
+
+      // Goals that are behind their pace go ahead of regular sessions
+      const priority = goal.progress.status === 'behind' ? SessionPriority.HIGH : SessionPriority.MEDIUM;
+      const notBefore = Math.max(now.getTime(), new Date(goal.progress.periodStart).getTime());
+      const notAfter = goal.progress.periodEnd ? new Date(goal.progress.periodEnd).getTime() : null;
+      const keys: string[] = [];
+
+      durations.forEach((duration, index) => {
+        const key = `goal:${goal.id}:${index}`;
+        keys.push(key);
+        items.push({
+          key,
+          duration,
+          priorityRank: PRIORITY_RANK[priority],
+          categoryKey: goal.categoryId ?? '',
+          group: goal.id,
+          notBefore,
+          notAfter,
+        });
+        proposalsByKey.set(key, {
+          key,
+          sessionId: null,
+          goalId: goal.id,
+          title: goal.title,
+          duration,
+          priority,
+          categoryId: goal.categoryId,
+          category: goal.category,
+          tags: goal.tags,
+        });
+      });
+      goalBlocks.push({ goalId: goal.id, title: goal.title, deadline: goal.progress.periodEnd, keys });
+    }
+
+    const open = await this.availabilityService.getOpenIntervals(userId, firstDay, days, timezone);
+    const busy = await this.availabilityService.findBusyIntervals(userId, now, to);
+    const bookedMinutes = new Map<number, number>();
+    for (const interval of busy) {
+      const day = zonedDayNumber(new Date(interval.start), timezone);
+      bookedMinutes.set(day, (bookedMinutes.get(day) ?? 0) + (interval.end - interval.start) / MINUTE_MS);
+    }
+
+    const placed = placeItems(items, open, busy, {
+      dailyCapMinutes,
+      stepMinutes: SLOT_STEP_MINUTES,
+      bookedMinutes,
+    });
+
+    const proposals: PlanProposalDto[] = [...placed.entries()]
+      .sort((a, b) => a[1] - b[1])
+      .map(([key, start]) => ({
+        ...proposalsByKey.get(key)!,
+        scheduledFor: new Date(start).toISOString(),
+      }));
+
+    for (const item of items) {
+      const proposal = proposalsByKey.get(item.key)!;
+      if (proposal.sessionId && !placed.has(item.key)) {
+        unplaced.push({
+          sessionId: proposal.sessionId,
+          goalId: null,
+          title: proposal.title,
+          reason:
+            item.duration > dailyCapMinutes
+              ? `Longer than the daily cap of ${dailyCapMinutes} minutes`
+              : `No free slot in the next ${days} day${days !== 1 ? 's' : ''}`,
+        });
+      }
+    }
+    for (const block of goalBlocks) {
+      const missing = block.keys.filter((key) => !placed.has(key)).length;
+      if (missing > 0) {
+        unplaced.push({
+          sessionId: null,
+          goalId: block.goalId,
+          title: block.title,
+          reason: `${missing} of ${block.keys.length} block${block.keys.length !== 1 ? 's' : ''} did not fit ${
+            block.deadline && new Date(block.deadline) < to ? 'before the end of the goal period' : `in the next ${days} days`
+          }`,
+        });
+      }
+    }
+
+    return {
+      from: now.toISOString(),
+      to: to.toISOString(),
+      dailyCapMinutes,
+      proposals,
+      unplaced,
+    };
+  }
+
+  /**
+   * Save accepted proposals: unscheduled sessions are moved into their slot
+   * and goal blocks become new sessions. Slots are checked again against the
+   * availability and other sessions since either may have changed after the preview.
+   * Invalid proposals reject the whole request before anything is saved.
+   */
+  async apply(userId: string, dto: ApplyPlanDto): Promise<ApplyPlanResultDto> {
+    const proposals = dto?.proposals;
+    if (!Array.isArray(proposals) || proposals.length === 0) {
+      throw new BadRequestException('proposals must be a non-empty array');
+    }
+    if (proposals.length > MAX_PLAN_ITEMS) {
+      throw new BadRequestException(`At most ${MAX_PLAN_ITEMS} proposals can be applied at once`);
+    }
+
+    const parsed = proposals.map((proposal) => {
+      const start = new Date(proposal?.scheduledFor);
+      if (Number.isNaN(start.getTime())) {
+        throw new BadRequestException('Every proposal needs a valid scheduledFor date');
+      }
+      if (!proposal.sessionId && !proposal.goalId) {
+        throw new BadRequestException('Every proposal needs a sessionId or a goalId');
+      }
+      const goalDuration = proposal.sessionId
+        ? null
+        : this.parseMinutes(proposal.duration, 'duration', SLOT_STEP_MINUTES, MAX_GOAL_BLOCK_MINUTES);
+      return { proposal, start, goalDuration };
+    });
+    parsed.sort((a, b) => a.start.getTime() - b.start.getTime());
+
+    const { timezone } = await this.settingsService.get(userId);
+    const now = new Date();
+    const lastStart = parsed[parsed.length - 1].start;
+    const firstDay = zonedDayNumber(now, timezone);
+    // Slots past the planning range find no open interval and are skipped
+    const days = Math.min(Math.max(zonedDayNumber(lastStart, timezone) - firstDay + 1, 1), MAX_PLAN_DAYS + 1);
+    const open = await this.availabilityService.getOpenIntervals(userId, firstDay, days, timezone);
+    const busy: TimeInterval[] = await this.availabilityService.findBusyIntervals(
+      userId,
+      now,
+      new Date(lastStart.getTime() + 24 * 60 * MINUTE_MS),
+    );
+
+    const scheduled: SessionResponse[] = [];
+    const skipped: PlanUnplacedDto[] = [];
+
+    for (const { proposal, start, goalDuration } of parsed) {
+      const skip = (reason: string) =>
+        skipped.push({
+          sessionId: proposal.sessionId ?? null,
+          goalId: proposal.goalId ?? null,
+          title: typeof proposal.title === 'string' ? proposal.title : '',
+          reason,
+        });
+
+      let duration: number;
+      let create: (() => Promise<SessionResponse>) | null = null;
+
+      if (proposal.sessionId) {
+        const session = await this.prisma.session.findFirst({
+          where: { id: proposal.sessionId, userId },
+          select: { id: true, duration: true, status: true, scheduledFor: true },
+        });
+        if (!session || session.status !== 'PLANNED' || session.scheduledFor) {
+          skip('Session is no longer unscheduled');
+          continue;
+        }
+        duration = session.duration;
+      } else {
+        const goal = await this.prisma.goal.findFirst({
+          where: { id: proposal.goalId!, userId },
+          select: { title: true, categoryId: true, tags: true },
+        });
+        if (!goal) {
+          skip('Goal no longer exists');
+          continue;
+        }
+        duration = goalDuration!;
+        const priority = SESSION_PRIORITIES.includes(proposal.priority) ? proposal.priority : SessionPriority.MEDIUM;
+        create = () =>
+          this.sessionsService.create(userId, {
+            title: goal.title,
+            duration,
+            priority,
+            categoryId: goal.categoryId,
+            tags: goal.tags,
+            scheduledFor: start.toISOString(),
+          });
+      }
+
+      const end = start.getTime() + duration * MINUTE_MS;
+      if (start < now) {
+        skip('Slot is in the past');
+        continue;
+      }
+      if (!open.some((o) => o.start <= start.getTime() && o.end >= end)) {
+        skip('Slot is outside your availability');
+        continue;
+      }
+      if (busy.some((b) => b.start < end && b.end > start.getTime())) {
+        skip('Slot is no longer free');
+        continue;
+      }
+
+      // A proposal that cannot be saved is skipped so the others still apply
+      let session: SessionResponse;
+      try {
+        session = create
+          ? await create()
+          : await this.sessionsService.update(proposal.sessionId!, userId, {
+              scheduledFor: start.toISOString(),
+            });
+      } catch (error) {
+        skip(error instanceof Error ? error.message : 'Could not be saved');
+        continue;
+      }
+      scheduled.push(session);
+      busy.push({ start: start.getTime(), end });
+    }
+
+    return { scheduled, skipped };
+  }
+}
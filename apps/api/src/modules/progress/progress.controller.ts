@@ -0,0 +1,118 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  HttpCode,
+  HttpStatus,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import { ProgressService } from './progress.service';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import type {
+  CreateProgressDto,
+  UpdateProgressDto,
+  ProgressFilters,
+  PaginationQuery,
+  ApiResponse,
+  ProgressResponse,
+  ProgressListResponse,
+} from '@repo/shared-types';
+
+@Controller()
+export class ProgressController {
+  constructor(private readonly progressService: ProgressService) {}
+
+  @Post('sessions/:sessionId/progress')
+  @HttpCode(HttpStatus.CREATED)
+  async create(
+    @CurrentUser('sub') userId: string,
+    @Param('sessionId', ParseUUIDPipe) sessionId: string,
+    @Body() dto: CreateProgressDto,
+  ): Promise<ApiResponse<ProgressResponse>> {
+    const progress = await this.progressService.create(userId, sessionId, dto);
+
+    return {
+      success: true,
+      message: 'Progress recorded successfully',
+      data: progress,
+    };
+  }
+
+  @Get('sessions/:sessionId/progress')
+  async findBySession(
+    @CurrentUser('sub') userId: string,
+    @Param('sessionId', ParseUUIDPipe) sessionId: string,
+  ): Promise<ApiResponse<ProgressResponse[]>> {
+    const entries = await this.progressService.findBySession(userId, sessionId);
+
+    return {
+      success: true,
+      message: 'Session progress retrieved successfully',
+      data: entries,
+    };
+  }
+
+  @Get('progress')
+  async findAll(
+    @CurrentUser('sub') userId: string,
+    @Query() query: ProgressFilters & PaginationQuery,
+  ): Promise<ApiResponse<ProgressListResponse>> {
+    const { page, limit, sortBy, sortOrder, ...filters } = query;
+
+    const result = await this.progressService.findAll(userId, filters, {
+      page: page ? Number(page) : undefined,
+      limit: limit ? Number(limit) : undefined,
+      sortBy,
+      sortOrder,
+    });
+
+    return {
+      success: true,
+      message: 'Progress entries retrieved successfully',
+      data: result,
+    };
+  }
+
+  @Get('progress/:id')
+  async findOne(
+    @CurrentUser('sub') userId: string,
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<ApiResponse<ProgressResponse>> {
+    const progress = await this.progressService.findById(id, userId);
+
+    return {
+      success: true,
+      message: 'Progress entry retrieved successfully',
+      data: progress,
+    };
+  }
+
+  @Patch('progress/:id')
+  async update(
+    @CurrentUser('sub') userId: string,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: UpdateProgressDto,
+  ): Promise<ApiResponse<ProgressResponse>> {
+    const progress = await this.progressService.update(id, userId, dto);
+
+    return {
+      success: true,
+      message: 'Progress entry updated successfully',
+      data: progress,
+    };
+  }
+
+  @Delete('progress/:id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async delete(
+    @CurrentUser('sub') userId: string,
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<void> {
+    await this.progressService.delete(id, userId);
+  }
+}
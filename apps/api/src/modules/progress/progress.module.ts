@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { ProgressController } from './progress.controller';
+import { ProgressService } from './progress.service';
+import { PrismaModule } from '@common/prisma/prisma.module';
+import { SessionsModule } from '../sessions/sessions.module';
+
+@Module({
+  imports: [PrismaModule, SessionsModule],
+  controllers: [ProgressController],
+  providers: [ProgressService],
+  exports: [ProgressService],
+})
+export class ProgressModule {}
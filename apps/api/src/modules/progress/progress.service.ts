@@ -0,0 +1,268 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+} from '@nestjs/common';
+import { PrismaService } from '@common/prisma/prisma.service';
+import type {
+  CreateProgressDto,
+  UpdateProgressDto,
+  ProgressFilters,
+  PaginationQuery,
+  ProgressResponse,
+  ProgressListResponse,
+} from '@repo/shared-types';
+import { Prisma } from '@prisma/client';
+import { getChecklistCompletion } from '../session-tasks/session-task.util';
+import { SessionReviewService } from '../sessions/session-review.service';
+
+@Injectable()
+export class ProgressService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly sessionReviewService: SessionReviewService,
+  ) {}
+
+  /**
+   * Transform Prisma progress entry (Date fields) to API response (ISO strings)
+   */
+  private transformProgress(progress: any): ProgressResponse {
+    return {
+      id: progress.id,
+      sessionId: progress.sessionId,
+      notes: progress.notes,
+      rating: progress.rating,
+      completionPercentage: progress.completionPercentage,
+      recordedAt: progress.recordedAt.toISOString(),
+      createdAt: progress.createdAt.toISOString(),
+      updatedAt: progress.updatedAt.toISOString(),
+    };
+  }
+
+  /**
+   * Ensure the session exists and belongs to the user
+   */
+  private async assertSessionOwnership(sessionId: string, userId: string) {
+    const session = await this.prisma.session.findFirst({
+      where: { id: sessionId, userId },
+      select: { id: true },
+    });
+
+    if (!session) {
+      throw new NotFoundException(`Session with ID ${sessionId} not found`);
+    }
+  }
+
+  /**
+   * Validate rating, completion percentage and recordedAt fields
+   */
+  private validateProgress(dto: Partial<CreateProgressDto>) {
+    if (dto.rating !== undefined && dto.rating !== null) {
+      if (!Number.isInteger(dto.rating) || dto.rating < 1 || dto.rating > 5) {
+        throw new BadRequestException('Rating must be an integer between 1 and 5');
+      }
+    }
+
+    if (dto.completionPercentage !== undefined) {
+      if (
+        !Number.isInteger(dto.completionPercentage) ||
+        dto.completionPercentage < 0 ||
+        dto.completionPercentage > 100
+      ) {
+        throw new BadRequestException(
+          'Completion percentage must be an integer between 0 and 100',
+        );
+      }
+    }
+
+    if (dto.recordedAt && isNaN(new Date(dto.recordedAt).getTime())) {
+      throw new BadRequestException('Invalid recordedAt date');
+    }
+  }
+
+  async create(
+    userId: string,
+    sessionId: string,
+    dto: CreateProgressDto,
+  ): Promise<ProgressResponse> {
+    await this.assertSessionOwnership(sessionId, userId);
+    this.validateProgress(dto);
+
+    // Without an explicit value the session's checklist decides
+    let completionPercentage = dto.completionPercentage ?? null;
+    if (completionPercentage === null) {
+      const tasks = await this.prisma.sessionTask.findMany({
+        where: { sessionId },
+        select: { done: true },
+      });
+      completionPercentage = getChecklistCompletion(tasks);
+    }
+    if (completionPercentage === null) {
+      throw new BadRequestException('Completion percentage is required');
+    }
+
+    const progress = await this.prisma.progress.create({
+      data: {
+        sessionId,
+        notes: dto.notes || null,
+        rating: dto.rating ?? null,
+        completionPercentage,
+        ...(dto.recordedAt && { recordedAt: new Date(dto.recordedAt) }),
+      },
+    });
+    if (progress.notes) {
+      await this.markSearchStale([sessionId]);
+    }
+    // A recall rating on a completed session plans its next review
+    if (progress.rating !== null) {
+      await this.sessionReviewService.scheduleNext(userId, sessionId);
+    }
+
+    return this.transformProgress(progress);
+  }
+
+  async findBySession(
+    userId: string,
+    sessionId: string,
+  ): Promise<ProgressResponse[]> {
+    await this.assertSessionOwnership(sessionId, userId);
+
+    const entries = await this.prisma.progress.findMany({
+      where: { sessionId },
+      orderBy: { recordedAt: 'asc' },
+    });
+
+    return entries.map((p) => this.transformProgress(p));
+  }
+
+  async findAll(
+    userId: string,
+    filters?: ProgressFilters,
+    pagination?: PaginationQuery,
+  ): Promise<ProgressListResponse> {
+    // Ownership is enforced through the session relation
+    const where: Prisma.ProgressWhereInput = {
+      session: { userId },
+    };
+
+    if (filters?.sessionId) {
+      where.sessionId = filters.sessionId;
+    }
+
+    if (filters?.recordedFrom || filters?.recordedTo) {
+      where.recordedAt = {};
+      if (filters.recordedFrom) {
+        where.recordedAt.gte = new Date(filters.recordedFrom);
+      }
+      if (filters.recordedTo) {
+        where.recordedAt.lte = new Date(filters.recordedTo);
+      }
+    }
+
+    if (filters?.minRating !== undefined) {
+      where.rating = { gte: Number(filters.minRating) };
+    }
+
+    // Apply pagination
+    const page = pagination?.page || 1;
+    const limit = pagination?.limit || 20;
+    const skip = (page - 1) * limit;
+
+    const [entries, total] = await Promise.all([
+      this.prisma.progress.findMany({
+        where,
+        skip,
+        take: limit,
+        orderBy: pagination?.sortBy
+          ? { [pagination.sortBy]: pagination.sortOrder || 'desc' }
+          : { recordedAt: 'desc' },
+      }),
+      this.prisma.progress.count({ where }),
+    ]);
+
+    const totalPages = Math.ceil(total / limit);
+
+    return {
+      data: entries.map((p) => this.transformProgress(p)),
+      meta: {
+        page,
+        limit,
+        total,
+        totalPages,
+        hasNextPage: page < totalPages,
+        hasPreviousPage: page > 1,
+      },
+    };
+  }
+
+  async findById(id: string, userId: string): Promise<ProgressResponse> {
+    const progress = await this.prisma.progress.findFirst({
+      where: { id, session: { userId } },
+    });
+
+    if (!progress) {
+      throw new NotFoundException(`Progress entry with ID ${id} not found`);
+    }
+
+    return this.transformProgress(progress);
+  }
+
+  async update(
+    id: string,
+    userId: string,
+    dto: UpdateProgressDto,
+  ): Promise<ProgressResponse> {
+    // Verify ownership
+    const existing = await this.findById(id, userId);
+    this.validateProgress(dto);
+
+    // Moving an entry to another session requires owning that session too
+    if (dto.sessionId) {
+      await this.assertSessionOwnership(dto.sessionId, userId);
+    }
+
+    const progress = await this.prisma.progress.update({
+      where: { id },
+      data: {
+        ...(dto.sessionId && { sessionId: dto.sessionId }),
+        ...(dto.notes !== undefined && { notes: dto.notes || null }),
+        ...(dto.rating !== undefined && { rating: dto.rating }),
+        ...(dto.completionPercentage !== undefined && {
+          completionPercentage: dto.completionPercentage,
+        }),
+        ...(dto.recordedAt && { recordedAt: new Date(dto.recordedAt) }),
+      },
+    });
+    if (dto.notes !== undefined || progress.sessionId !== existing.sessionId) {
+      await this.markSearchStale([existing.sessionId, progress.sessionId]);
+    }
+    if (dto.rating !== undefined && progress.rating !== null) {
+      await this.sessionReviewService.scheduleNext(userId, progress.sessionId);
+    }
+
+    return this.transformProgress(progress);
+  }
+
+  async delete(id: string, userId: string): Promise<void> {
+    // Verify ownership
+    const existing = await this.findById(id, userId);
+
+    await this.prisma.progress.delete({
+      where: { id },
+    });
+    if (existing.notes) {
+      await this.markSearchStale([existing.sessionId]);
+    }
+  }
+
+  /**
+   * Progress notes are part of the session search index; flag the sessions
+   * so their search vectors are rebuilt on the next search
+   */
+  private async markSearchStale(sessionIds: string[]): Promise<void> {
+    await this.prisma.session.updateMany({
+      where: { id: { in: sessionIds } },
+      data: { searchIndexedAt: null },
+    });
+  }
+}
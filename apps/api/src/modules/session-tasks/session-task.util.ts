@@ -0,0 +1,106 @@
+import { BadRequestException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import type {
+  CreateSessionTaskDto,
+  TemplateChecklistItemDto,
+} from '@repo/shared-types';
+
+/** Most checklist items on one session or template */
+export const MAX_TASKS = 100;
+
+/** Longest allowed checklist item title */
+const MAX_TITLE_LENGTH = 200;
+
+/** Largest estimate for a single checklist item, in minutes */
+const MAX_ESTIMATE_MINUTES = 1440;
+
+/**
+ * Prisma include that embeds a session's checklist in position order
+ */
+export const SESSION_TASKS_INCLUDE = {
+  tasks: { orderBy: { position: 'asc' } },
+} as const;
+
+/**
+ * Trimmed checklist item title, rejecting empty and overlong titles
+ */
+export function parseTaskTitle(title: unknown): string {
+  const trimmed = typeof title === 'string' ? title.trim() : '';
+  if (!trimmed) {
+    throw new BadRequestException('Checklist item title is required');
+  }
+  if (trimmed.length > MAX_TITLE_LENGTH) {
+    throw new BadRequestException(
+      `Checklist item title must be at most ${MAX_TITLE_LENGTH} characters`,
+    );
+  }
+  return trimmed;
+}
+
+/**
+ * Estimate in whole minutes, or null when not given
+ */
+export function parseTaskEstimate(estimate: unknown): number | null {
+  if (estimate === undefined || estimate === null) return null;
+  if (
+    typeof estimate !== 'number' ||
+    !Number.isInteger(estimate) ||
+    estimate < 1 ||
+    estimate > MAX_ESTIMATE_MINUTES
+  ) {
+    throw new BadRequestException(
+      `Estimate must be a whole number of minutes between 1 and ${MAX_ESTIMATE_MINUTES}`,
+    );
+  }
+  return estimate;
+}
+
+/**
+ * Validate an initial checklist and number it in the given order
+ */
+export function toTaskCreateRows(
+  tasks: CreateSessionTaskDto[] | undefined,
+): Prisma.SessionTaskCreateWithoutSessionInput[] {
+  if (tasks === undefined) return [];
+  if (!Array.isArray(tasks)) {
+    throw new BadRequestException('Checklist must be an array');
+  }
+  if (tasks.length > MAX_TASKS) {
+    throw new BadRequestException(`A checklist can have at most ${MAX_TASKS} items`);
+  }
+
+  const now = new Date();
+  return tasks.map((task, index) => ({
+    title: parseTaskTitle(task?.title),
+    estimatedMinutes: parseTaskEstimate(task?.estimatedMinutes),
+    done: task?.done === true,
+    completedAt: task?.done === true ? now : null,
+    position: index,
+  }));
+}
+
+/**
+ * Validate a template's default checklist into the shape stored on the template
+ */
+export function parseTemplateChecklist(checklist: unknown): TemplateChecklistItemDto[] {
+  if (!Array.isArray(checklist)) {
+    throw new BadRequestException('Checklist must be an array');
+  }
+  if (checklist.length > MAX_TASKS) {
+    throw new BadRequestException(`A checklist can have at most ${MAX_TASKS} items`);
+  }
+
+  return checklist.map((item) => ({
+    title: parseTaskTitle(item?.title),
+    estimatedMinutes: parseTaskEstimate(item?.estimatedMinutes),
+  }));
+}
+
+/**
+ * Share of checklist items done as a whole percentage, or null without a checklist
+ */
+export function getChecklistCompletion(tasks: Array<{ done: boolean }>): number | null {
+  if (tasks.length === 0) return null;
+  const done = tasks.filter((task) => task.done).length;
+  return Math.round((done / tasks.length) * 100);
+}
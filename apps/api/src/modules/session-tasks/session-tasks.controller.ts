@@ -0,0 +1,96 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Put,
+  Delete,
+  Body,
+  Param,
+  HttpCode,
+  HttpStatus,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import { SessionTasksService } from './session-tasks.service';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import type {
+  ApiResponse,
+  CreateSessionTaskDto,
+  UpdateSessionTaskDto,
+  ReorderSessionTasksDto,
+  SessionTaskResponse,
+} from '@repo/shared-types';
+
+@Controller()
+export class SessionTasksController {
+  constructor(private readonly sessionTasksService: SessionTasksService) {}
+
+  @Get('sessions/:sessionId/tasks')
+  async findBySession(
+    @CurrentUser('sub') userId: string,
+    @Param('sessionId', ParseUUIDPipe) sessionId: string,
+  ): Promise<ApiResponse<SessionTaskResponse[]>> {
+    const tasks = await this.sessionTasksService.findBySession(userId, sessionId);
+
+    return {
+      success: true,
+      message: 'Checklist retrieved successfully',
+      data: tasks,
+    };
+  }
+
+  @Post('sessions/:sessionId/tasks')
+  @HttpCode(HttpStatus.CREATED)
+  async create(
+    @CurrentUser('sub') userId: string,
+    @Param('sessionId', ParseUUIDPipe) sessionId: string,
+    @Body() dto: CreateSessionTaskDto,
+  ): Promise<ApiResponse<SessionTaskResponse>> {
+    const task = await this.sessionTasksService.create(userId, sessionId, dto);
+
+    return {
+      success: true,
+      message: 'Checklist item created successfully',
+      data: task,
+    };
+  }
+
+  @Put('sessions/:sessionId/tasks/order')
+  async reorder(
+    @CurrentUser('sub') userId: string,
+    @Param('sessionId', ParseUUIDPipe) sessionId: string,
+    @Body() dto: ReorderSessionTasksDto,
+  ): Promise<ApiResponse<SessionTaskResponse[]>> {
+    const tasks = await this.sessionTasksService.reorder(userId, sessionId, dto);
+
+    return {
+      success: true,
+      message: 'Checklist reordered successfully',
+      data: tasks,
+    };
+  }
+
+  @Patch('tasks/:id')
+  async update(
+    @CurrentUser('sub') userId: string,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: UpdateSessionTaskDto,
+  ): Promise<ApiResponse<SessionTaskResponse>> {
+    const task = await this.sessionTasksService.update(id, userId, dto);
+
+    return {
+      success: true,
+      message: 'Checklist item updated successfully',
+      data: task,
+    };
+  }
+
+  @Delete('tasks/:id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async delete(
+    @CurrentUser('sub') userId: string,
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<void> {
+    await this.sessionTasksService.delete(id, userId);
+  }
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { SessionTasksController } from './session-tasks.controller';
+import { SessionTasksService } from './session-tasks.service';
+import { PrismaModule } from '@common/prisma/prisma.module';
+
+@Module({
+  imports: [PrismaModule],
+  controllers: [SessionTasksController],
+  providers: [SessionTasksService],
+  exports: [SessionTasksService],
+})
+export class SessionTasksModule {}
@@ -0,0 +1,181 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+} from '@nestjs/common';
+import { PrismaService } from '@common/prisma/prisma.service';
+import type {
+  CreateSessionTaskDto,
+  UpdateSessionTaskDto,
+  ReorderSessionTasksDto,
+  SessionTaskResponse,
+} from '@repo/shared-types';
+import {
+  MAX_TASKS,
+  parseTaskEstimate,
+  parseTaskTitle,
+} from './session-task.util';
+
+@Injectable()
+export class SessionTasksService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Transform Prisma checklist item (Date fields) to API response (ISO strings)
+   */
+  private transformTask(task: any): SessionTaskResponse {
+    return {
+      id: task.id,
+      sessionId: task.sessionId,
+      title: task.title,
+      done: task.done,
+      estimatedMinutes: task.estimatedMinutes,
+      position: task.position,
+      completedAt: task.completedAt ? task.completedAt.toISOString() : null,
+      createdAt: task.createdAt.toISOString(),
+      updatedAt: task.updatedAt.toISOString(),
+    };
+  }
+
+  /**
+   * Ensure the session exists and belongs to the user
+   */
+  private async assertSessionOwnership(sessionId: string, userId: string) {
+    const session = await this.prisma.session.findFirst({
+      where: { id: sessionId, userId },
+      select: { id: true },
+    });
+
+    if (!session) {
+      throw new NotFoundException(`Session with ID ${sessionId} not found`);
+    }
+  }
+
+  private async findOwned(id: string, userId: string) {
+    const task = await this.prisma.sessionTask.findFirst({
+      where: { id, session: { userId } },
+    });
+
+    if (!task) {
+      throw new NotFoundException(`Checklist item with ID ${id} not found`);
+    }
+
+    return task;
+  }
+
+  async findBySession(userId: string, sessionId: string): Promise<SessionTaskResponse[]> {
+    await this.assertSessionOwnership(sessionId, userId);
+
+    const tasks = await this.prisma.sessionTask.findMany({
+      where: { sessionId },
+      orderBy: { position: 'asc' },
+    });
+
+    return tasks.map((task) => this.transformTask(task));
+  }
+
+  async create(
+    userId: string,
+    sessionId: string,
+    dto: CreateSessionTaskDto,
+  ): Promise<SessionTaskResponse> {
+    await this.assertSessionOwnership(sessionId, userId);
+    const title = parseTaskTitle(dto?.title);
+    const estimatedMinutes = parseTaskEstimate(dto.estimatedMinutes);
+
+    const { _count, _max } = await this.prisma.sessionTask.aggregate({
+      where: { sessionId },
+      _count: true,
+      _max: { position: true },
+    });
+    if (_count >= MAX_TASKS) {
+      throw new BadRequestException(`A checklist can have at most ${MAX_TASKS} items`);
+    }
+
+    const task = await this.prisma.sessionTask.create({
+      data: {
+        sessionId,
+        title,
+        estimatedMinutes,
+        done: dto.done === true,
+        completedAt: dto.done === true ? new Date() : null,
+        position: (_max.position ?? -1) + 1,
+      },
+    });
+
+    return this.transformTask(task);
+  }
+
+  async update(
+    id: string,
+    userId: string,
+    dto: UpdateSessionTaskDto,
+  ): Promise<SessionTaskResponse> {
+    const existing = await this.findOwned(id, userId);
+
+    if (dto.done !== undefined && typeof dto.done !== 'boolean') {
+      throw new BadRequestException('done must be a boolean');
+    }
+    const doneChanged = dto.done !== undefined && dto.done !== existing.done;
+
+    const task = await this.prisma.sessionTask.update({
+      where: { id },
+      data: {
+        ...(dto.title !== undefined && { title: parseTaskTitle(dto.title) }),
+        ...(dto.estimatedMinutes !== undefined && {
+          estimatedMinutes: parseTaskEstimate(dto.estimatedMinutes),
+        }),
+        ...(doneChanged && {
+          done: dto.done,
+          completedAt: dto.done ? new Date() : null,
+        }),
+      },
+    });
+
+    return this.transformTask(task);
+  }
+
+  async delete(id: string, userId: string): Promise<void> {
+    await this.findOwned(id, userId);
+
+    await this.prisma.sessionTask.delete({
+      where: { id },
+    });
+  }
+
+  /**
+   * Put the session's checklist in the given order
+   */
+  async reorder(
+    userId: string,
+    sessionId: string,
+    dto: ReorderSessionTasksDto,
+  ): Promise<SessionTaskResponse[]> {
+    await this.assertSessionOwnership(sessionId, userId);
+
+    const existing = await this.prisma.sessionTask.findMany({
+      where: { sessionId },
+      select: { id: true },
+    });
+    const taskIds = Array.isArray(dto?.taskIds) ? dto.taskIds : [];
+    const existingIds = new Set(existing.map((task) => task.id));
+    if (
+      taskIds.length !== existingIds.size ||
+      new Set(taskIds).size !== taskIds.length ||
+      taskIds.some((taskId) => !existingIds.has(taskId))
+    ) {
+      throw new BadRequestException('taskIds must list every checklist item of the session exactly once');
+    }
+
+    await this.prisma.$transaction(
+      taskIds.map((taskId, position) =>
+        this.prisma.sessionTask.update({
+          where: { id: taskId },
+          data: { position },
+        }),
+      ),
+    );
+
+    return this.findBySession(userId, sessionId);
+  }
+}
@@ -6,10 +6,38 @@ import type {
   ParsedSessionRowDto,
 } from '@repo/shared-types';
 import {
-  SessionCategory,
   SessionStatus,
   SessionPriority,
 } from '@repo/shared-types';
+import {
+  readEvents,
+  parseDateValue,
+  parseDurationMinutes,
+  splitTextList,
+  toInstant,
+  unescapeText,
+} from '../calendar/ics.util';
+import type { IcsDateValue, IcsEvent, IcsProperty } from '../calendar/ics.util';
+import { isKnownTimeZone } from '@common/utils/timezone.util';
+
+/** Upper bound of occurrences imported per recurring VEVENT */
+const ICS_MAX_OCCURRENCES = 365;
+
+/** How far open-ended RRULEs (no COUNT/UNTIL) are expanded from DTSTART */
+const ICS_OPEN_ENDED_HORIZON_DAYS = 365;
+
+/** Duration used for all-day events and events without DTEND/DURATION */
+const ICS_DEFAULT_DURATION = 60;
+
+/** RRULE parts understood by expandRecurrence, anything else is ignored with a warning */
+const ICS_SUPPORTED_RRULE_PARTS = ['FREQ', 'INTERVAL', 'COUNT', 'UNTIL', 'BYDAY', 'BYMONTHDAY', 'WKST'];
+
+const ICS_WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Session fields read from a file; category is a name, resolved when the row is committed */
+type ParsedSessionFields = CreateSessionDto & { category?: string };
 
 @Injectable()
 export class FileParserService {
@@ -44,6 +72,7 @@ export class FileParserService {
           rows.push({
             rowNumber: i + 1,
             session: {} as CreateSessionDto,
+            categoryName: null,
             status: 'error',
             errors: [error.message || 'Unknown error'],
             warnings: [],
@@ -81,13 +110,15 @@ export class FileParserService {
       for (let i = 0; i < sessions.length; i++) {
         try {
           const sessionData = sessions[i];
-          const session: CreateSessionDto = {
+          const session: ParsedSessionFields = {
             title: sessionData.title,
             description: sessionData.description,
-            category: sessionData.category,
+            // Our JSON exports embed the category object
+            category: sessionData.category?.name ?? sessionData.category,
             status: sessionData.status || 'planned',
             priority: sessionData.priority || 'medium',
             duration: sessionData.duration,
+            actualDuration: sessionData.actualDuration ?? undefined,
             color: sessionData.color,
             tags: Array.isArray(sessionData.tags) ? sessionData.tags : [],
             notes: sessionData.notes,
@@ -100,6 +131,7 @@ export class FileParserService {
           rows.push({
             rowNumber: i + 1,
             session: {} as CreateSessionDto,
+            categoryName: null,
             status: 'error',
             errors: [error.message || 'Unknown error'],
             warnings: [],
@@ -143,13 +175,14 @@ export class FileParserService {
           for (let i = 0; i < sessions.length; i++) {
             try {
               const sessionData = sessions[i];
-              const session: CreateSessionDto = {
+              const session: ParsedSessionFields = {
                 title: this.getXMLValue(sessionData.title),
                 description: this.getXMLValue(sessionData.description),
-                category: this.getXMLValue(sessionData.category) as SessionCategory,
+                category: this.getXMLValue(sessionData.category),
                 status: (this.getXMLValue(sessionData.status) as SessionStatus) || 'planned',
                 priority: (this.getXMLValue(sessionData.priority) as SessionPriority) || 'medium',
                 duration: parseInt(this.getXMLValue(sessionData.duration) || '0'),
+                actualDuration: parseInt(this.getXMLValue(sessionData.actualDuration) || '') || undefined,
                 color: this.getXMLValue(sessionData.color),
                 tags: Array.isArray(sessionData.tags?.[0]?.tag) 
                   ? sessionData.tags[0].tag.map((t: any) => this.getXMLValue(t))
@@ -164,6 +197,7 @@ export class FileParserService {
               rows.push({
                 rowNumber: i + 1,
                 session: {} as CreateSessionDto,
+                categoryName: null,
                 status: 'error',
                 errors: [error.message || 'Unknown error'],
                 warnings: [],
@@ -181,10 +215,342 @@ export class FileParserService {
     });
   }
 
+  /**
+   * Parse iCalendar content (VEVENTs) and return parsed session rows.
+   * Recurring events are expanded into one row per occurrence.
+   */
+  parseICS(content: string): ParsedSessionRowDto[] {
+    try {
+      const events = readEvents(content);
+
+      if (events.length === 0) {
+        throw new BadRequestException('iCalendar file must contain at least one VEVENT');
+      }
+
+      // Occurrences replaced by a RECURRENCE-ID override are skipped when expanding the master event
+      const overridden = new Map<string, Set<number>>();
+      for (const event of events) {
+        const uid = this.getICSText(event, 'UID');
+        const recurrenceId = this.getICSProperty(event, 'RECURRENCE-ID');
+        const value = recurrenceId && parseDateValue(recurrenceId.value, recurrenceId.params);
+        if (uid && value) {
+          const instants = overridden.get(uid) || new Set<number>();
+          instants.add(toInstant(value).getTime());
+          overridden.set(uid, instants);
+        }
+      }
+
+      const rows: ParsedSessionRowDto[] = [];
+      let rowNumber = 1;
+
+      for (const event of events) {
+        try {
+          const warnings: string[] = [];
+          const { session, start } = this.parseICSEvent(event, warnings);
+
+          const rrule = this.getICSProperty(event, 'RRULE');
+          const occurrences = rrule && !this.getICSProperty(event, 'RECURRENCE-ID')
+            ? this.expandRecurrence(start, rrule.value, warnings)
+            : [start];
+
+          const excluded = new Set<number>(overridden.get(this.getICSText(event, 'UID') || '') || []);
+          for (const exdate of event.get('EXDATE') || []) {
+            for (const value of exdate.value.split(',')) {
+              const parsed = parseDateValue(value, exdate.params);
+              if (parsed) {
+                excluded.add(toInstant(parsed).getTime());
+              }
+            }
+          }
+
+          for (const occurrence of occurrences) {
+            const scheduledFor = toInstant(occurrence);
+            if (rrule && excluded.has(scheduledFor.getTime())) continue;
+
+            const row = this.validateSession(
+              { ...session, tags: [...(session.tags || [])], scheduledFor: scheduledFor.toISOString() },
+              rowNumber++,
+            );
+            if (warnings.length > 0) {
+              row.warnings.unshift(...warnings);
+              row.status = row.status === 'success' ? 'warning' : row.status;
+            }
+            rows.push(row);
+          }
+        } catch (error: any) {
+          rows.push({
+            rowNumber: rowNumber++,
+            session: {} as CreateSessionDto,
+            categoryName: null,
+            status: 'error',
+            errors: [error.message || 'Unknown error'],
+            warnings: [],
+            isDuplicate: false,
+          });
+        }
+      }
+
+      this.detectDuplicates(rows);
+      return rows;
+    } catch (error: any) {
+      throw new BadRequestException(`iCalendar parsing failed: ${error.message}`);
+    }
+  }
+
+  /**
+   * Map a VEVENT onto a session DTO (without scheduledFor) and its start value
+   */
+  private parseICSEvent(
+    event: IcsEvent,
+    warnings: string[],
+  ): { session: ParsedSessionFields; start: IcsDateValue } {
+    const dtstart = this.getICSProperty(event, 'DTSTART');
+    const start = dtstart && parseDateValue(dtstart.value, dtstart.params);
+    if (!start) {
+      throw new Error(dtstart ? `Invalid DTSTART: ${dtstart.value}` : 'DTSTART is required');
+    }
+
+    if (start.tzid && !isKnownTimeZone(start.tzid)) {
+      warnings.push(`Unknown time zone ${start.tzid}, times are interpreted as server local time`);
+    }
+
+    // DTEND wins over DURATION; all-day events get a default length
+    let duration: number | null = null;
+    const dtend = this.getICSProperty(event, 'DTEND');
+    const end = dtend && parseDateValue(dtend.value, dtend.params);
+    const durationProperty = this.getICSProperty(event, 'DURATION');
+    if (start.dateOnly) {
+      warnings.push(`All-day event, using default duration of ${ICS_DEFAULT_DURATION} minutes`);
+      duration = ICS_DEFAULT_DURATION;
+    } else if (end) {
+      duration = Math.round((toInstant(end).getTime() - toInstant(start).getTime()) / 60000);
+    } else if (durationProperty) {
+      duration = parseDurationMinutes(durationProperty.value);
+    } else {
+      warnings.push(`No DTEND or DURATION, using default duration of ${ICS_DEFAULT_DURATION} minutes`);
+      duration = ICS_DEFAULT_DURATION;
+    }
+
+    // Our own exports name the category in X-LSP-CATEGORY (empty when uncategorized);
+    // otherwise the first CATEGORIES value is the category. The rest are tags.
+    const categoryValues = (event.get('CATEGORIES') || []).flatMap((property) => splitTextList(property.value));
+    const exported = this.getICSProperty(event, 'X-LSP-CATEGORY');
+    let categoryIndex = categoryValues.length > 0 ? 0 : -1;
+    if (exported) {
+      const name = unescapeText(exported.value).trim().toLowerCase();
+      categoryIndex = name ? categoryValues.findIndex((value) => value.toLowerCase() === name) : -1;
+    }
+    const category = categoryIndex === -1 ? undefined : categoryValues[categoryIndex];
+    const tags = [...new Set(categoryValues.filter((_, index) => index !== categoryIndex))];
+
+    const location = this.getICSText(event, 'LOCATION');
+
+    const session: ParsedSessionFields = {
+      title: this.getICSText(event, 'SUMMARY') || '',
+      description: this.getICSText(event, 'DESCRIPTION') || undefined,
+      category,
+      status: this.mapICSStatus(event),
+      priority: this.mapICSPriority(this.getICSText(event, 'PRIORITY')),
+      duration: duration ?? 0,
+      actualDuration: parseInt(this.getICSText(event, 'X-LSP-ACTUAL-DURATION') || '') || undefined,
+      tags,
+      notes: location ? `Location: ${location}` : undefined,
+    };
+
+    return { session, start };
+  }
+
+  /**
+   * Expand an RRULE into occurrence start values (DTSTART first).
+   * Dates are stepped on the wall clock so TZID events keep their local time across DST changes.
+   */
+  private expandRecurrence(start: IcsDateValue, rrule: string, warnings: string[]): IcsDateValue[] {
+    const parts: Record<string, string> = {};
+    for (const part of rrule.split(';')) {
+      const [key, value] = part.split('=');
+      if (key && value) parts[key.trim().toUpperCase()] = value.trim().toUpperCase();
+    }
+
+    const frequency = parts.FREQ;
+    if (!['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'].includes(frequency)) {
+      warnings.push(`Unsupported RRULE frequency: ${frequency || 'none'}. Only the first occurrence was imported`);
+      return [start];
+    }
+
+    const ignored = Object.keys(parts).filter((key) => !ICS_SUPPORTED_RRULE_PARTS.includes(key));
+    if (ignored.length > 0) {
+      warnings.push(`Ignored RRULE parts: ${ignored.join(', ')}`);
+    }
+
+    const interval = Math.max(parseInt(parts.INTERVAL || '1') || 1, 1);
+    const count = parts.COUNT ? parseInt(parts.COUNT) : undefined;
+    const weekStart = Math.max(ICS_WEEKDAYS.indexOf(parts.WKST || 'MO'), 0);
+    const byDay = (parts.BYDAY || '')
+      .split(',')
+      .map((value) => value.match(/^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/))
+      .filter((match): match is RegExpMatchArray => !!match)
+      .map((match) => ({ ordinal: match[1] ? parseInt(match[1]) : 0, weekday: ICS_WEEKDAYS.indexOf(match[2]) }));
+    const byMonthDay = (parts.BYMONTHDAY || '')
+      .split(',')
+      .map((value) => parseInt(value))
+      .filter((value) => !isNaN(value) && value !== 0);
+
+    let until: number | undefined;
+    if (parts.UNTIL) {
+      const value = parseDateValue(parts.UNTIL);
+      if (value) {
+        // A DATE-only UNTIL includes occurrences on that day; floating values use the start's zone
+        until = toInstant({ ...value, tzid: value.utc ? undefined : start.tzid }).getTime()
+          + (value.dateOnly ? DAY_MS - 1 : 0);
+      }
+    }
+
+    let horizon: number | undefined;
+    if (count === undefined && until === undefined) {
+      horizon = toInstant(start).getTime() + ICS_OPEN_ENDED_HORIZON_DAYS * DAY_MS;
+      warnings.push(`Open-ended recurrence, occurrences within ${ICS_OPEN_ENDED_HORIZON_DAYS} days were imported`);
+    }
+
+    const startDay = Date.UTC(start.year, start.month - 1, start.day);
+    const occurrences: IcsDateValue[] = [start];
+
+    // Candidate days (UTC midnight of the wall-clock date) for the n-th period of the rule;
+    // periods without candidates are bounded by the loop limit below
+    const candidatesFor = (period: number): number[] => {
+      const first = new Date(startDay);
+      switch (frequency) {
+        case 'DAILY': {
+          const day = startDay + period * interval * DAY_MS;
+          const weekday = new Date(day).getUTCDay();
+          return byDay.length === 0 || byDay.some((entry) => entry.weekday === weekday) ? [day] : [];
+        }
+        case 'WEEKLY': {
+          const weekBegin = startDay - ((first.getUTCDay() - weekStart + 7) % 7) * DAY_MS + period * interval * 7 * DAY_MS;
+          const weekdays = byDay.length > 0 ? byDay.map((entry) => entry.weekday) : [first.getUTCDay()];
+          return weekdays.map((weekday) => weekBegin + ((weekday - weekStart + 7) % 7) * DAY_MS);
+        }
+        case 'MONTHLY': {
+          const year = first.getUTCFullYear();
+          const month = first.getUTCMonth() + period * interval;
+          const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+          const days: number[] = [];
+
+          if (byMonthDay.length > 0) {
+            for (const value of byMonthDay) {
+              const day = value > 0 ? value : daysInMonth + value + 1;
+              if (day >= 1 && day <= daysInMonth) days.push(Date.UTC(year, month, day));
+            }
+          } else if (byDay.length > 0) {
+            for (const { ordinal, weekday } of byDay) {
+              const matching: number[] = [];
+              for (let day = 1; day <= daysInMonth; day++) {
+                const date = Date.UTC(year, month, day);
+                if (new Date(date).getUTCDay() === weekday) matching.push(date);
+              }
+              if (ordinal === 0) {
+                days.push(...matching);
+              } else {
+                const picked = ordinal > 0 ? matching[ordinal - 1] : matching[matching.length + ordinal];
+                if (picked !== undefined) days.push(picked);
+              }
+            }
+          } else if (start.day <= daysInMonth) {
+            days.push(Date.UTC(year, month, start.day));
+          }
+          return days;
+        }
+        default: {
+          const year = first.getUTCFullYear() + period * interval;
+          const date = new Date(Date.UTC(year, start.month - 1, start.day));
+          return date.getUTCMonth() === start.month - 1 ? [date.getTime()] : [];
+        }
+      }
+    };
+
+    let truncated = false;
+    let done = false;
+    for (let period = 0; !done && period < ICS_MAX_OCCURRENCES * 31; period++) {
+      const candidates = [...new Set(candidatesFor(period))].sort((a, b) => a - b);
+
+      for (const candidate of candidates) {
+        if (candidate <= startDay) continue;
+
+        const date = new Date(candidate);
+        const occurrence: IcsDateValue = {
+          ...start,
+          year: date.getUTCFullYear(),
+          month: date.getUTCMonth() + 1,
+          day: date.getUTCDate(),
+        };
+        const instant = toInstant(occurrence).getTime();
+
+        if ((until !== undefined && instant > until) || (horizon !== undefined && instant > horizon)) {
+          done = true;
+          break;
+        }
+        if (count !== undefined && occurrences.length >= count) {
+          done = true;
+          break;
+        }
+        if (occurrences.length >= ICS_MAX_OCCURRENCES) {
+          truncated = true;
+          done = true;
+          break;
+        }
+        occurrences.push(occurrence);
+      }
+    }
+
+    if (truncated) {
+      warnings.push(`Recurrence limited to ${ICS_MAX_OCCURRENCES} occurrences`);
+    }
+
+    return occurrences;
+  }
+
+  /**
+   * Session status from X-LSP-STATUS (our own exports) or the VEVENT STATUS
+   */
+  private mapICSStatus(event: IcsEvent): SessionStatus {
+    const exported = this.getICSText(event, 'X-LSP-STATUS');
+    if (exported) {
+      return exported.toLowerCase() as SessionStatus;
+    }
+    return this.getICSText(event, 'STATUS')?.toUpperCase() === 'CANCELLED'
+      ? SessionStatus.CANCELLED
+      : SessionStatus.PLANNED;
+  }
+
+  /**
+   * Session priority from the RFC 5545 PRIORITY scale (1 = highest, 9 = lowest, 0 = undefined)
+   */
+  private mapICSPriority(value: string | undefined): SessionPriority {
+    const priority = parseInt(value || '0');
+    if (priority >= 1 && priority <= 2) return SessionPriority.URGENT;
+    if (priority >= 3 && priority <= 4) return SessionPriority.HIGH;
+    if (priority >= 6 && priority <= 9) return SessionPriority.LOW;
+    return SessionPriority.MEDIUM;
+  }
+
+  /**
+   * First occurrence of a VEVENT property
+   */
+  private getICSProperty(event: IcsEvent, name: string): IcsProperty | undefined {
+    return event.get(name)?.[0];
+  }
+
+  /**
+   * Unescaped TEXT value of a VEVENT property
+   */
+  private getICSText(event: IcsEvent, name: string): string | undefined {
+    const property = this.getICSProperty(event, name);
+    return property ? unescapeText(property.value).trim() : undefined;
+  }
+
   /**
    * Parse CSV record into session DTO
    */
-  private parseCSVRecord(record: any, _rowNumber: number): CreateSessionDto {
+  private parseCSVRecord(record: any, _rowNumber: number): ParsedSessionFields {
     const session: any = {};
 
     // Map CSV columns to session fields with case-insensitive matching
@@ -195,6 +561,8 @@ export class FileParserService {
       'status': 'status',
       'priority': 'priority',
       'duration': 'duration',
+      'actualduration': 'actualDuration',
+      'actual_duration': 'actualDuration',
       'color': 'color',
       'tags': 'tags',
       'notes': 'notes',
@@ -230,6 +598,9 @@ export class FileParserService {
           case 'duration':
             session.duration = parseInt(value) || 0;
             break;
+          case 'actualDuration':
+            session.actualDuration = parseInt(value) || undefined;
+            break;
           case 'color':
             session.color = value || undefined;
             break;
@@ -246,7 +617,7 @@ export class FileParserService {
       }
     }
 
-    return session as CreateSessionDto;
+    return session as ParsedSessionFields;
   }
 
   /**
@@ -261,10 +632,12 @@ export class FileParserService {
       errors.push('Title is required');
     }
 
-    if (!session.category) {
-      errors.push('Category is required');
-    } else if (!Object.values(SessionCategory).includes(session.category)) {
-      errors.push(`Invalid category: ${session.category}. Must be one of: ${Object.values(SessionCategory).join(', ')}`);
+    // The category travels by name next to the session
+    const { category, ...fields } = session;
+    session = fields;
+    const categoryName = typeof category === 'string' && category.trim() ? category.trim() : null;
+    if (!categoryName) {
+      warnings.push('No category, the session will be uncategorized');
     }
 
     if (!session.duration || session.duration <= 0) {
@@ -277,6 +650,15 @@ export class FileParserService {
       session.status = 'planned';
     }
 
+    if (session.actualDuration !== undefined && !(Number.isInteger(session.actualDuration) && session.actualDuration > 0)) {
+      warnings.push(`Invalid actual duration: ${session.actualDuration}. Ignoring it`);
+      session.actualDuration = undefined;
+    }
+
+    if (session.status === SessionStatus.COMPLETED && !session.actualDuration) {
+      errors.push('Completed sessions need an actual duration');
+    }
+
     if (session.priority && !Object.values(SessionPriority).includes(session.priority)) {
       warnings.push(`Invalid priority: ${session.priority}. Using default: medium`);
       session.priority = 'medium';
@@ -302,6 +684,7 @@ export class FileParserService {
     return {
       rowNumber,
       session: session as CreateSessionDto,
+      categoryName,
       status,
       errors,
       warnings,
@@ -0,0 +1,151 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { PrismaService } from '@common/prisma/prisma.service';
+import { zonedDayNumber } from '@common/utils/timezone.util';
+import type { MissedSessionsResultDto } from '@repo/shared-types';
+import { SettingsService } from '../settings/settings.service';
+import { AvailabilityService } from '../availability/availability.service';
+import { findSlot } from '../availability/availability.util';
+import { SessionsService } from './sessions.service';
+
+/** Rescheduled sessions start on this minute grid */
+const SLOT_STEP_MINUTES = 15;
+
+/** How many days ahead to look for a free slot */
+const RESCHEDULE_HORIZON_DAYS = 14;
+
+const MINUTE_MS = 60 * 1000;
+
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+@Injectable()
+export class MissedSessionsService {
+  private readonly logger = new Logger(MissedSessionsService.name);
+  private running = false;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly settingsService: SettingsService,
+    private readonly availabilityService: AvailabilityService,
+    private readonly sessionsService: SessionsService,
+  ) {}
+
+  /**
+   * Check every user with overdue planned sessions
+   */
+  @Cron(CronExpression.EVERY_10_MINUTES)
+  async handleCron() {
+    // Skip the tick if the previous run is still busy
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      const now = new Date();
+      const users = await this.prisma.session.groupBy({
+        by: ['userId'],
+        where: { status: 'PLANNED', scheduledFor: { lt: now } },
+      });
+
+      for (const { userId } of users) {
+        try {
+          await this.processUser(userId, now);
+        } catch (error) {
+          this.logger.error(
+            `Missed session check failed for user ${userId}`,
+            error instanceof Error ? error.stack : String(error),
+          );
+        }
+      }
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Mark a user's planned sessions as missed once their end plus the grace
+   * period has passed, or move them into the next free slot when enabled
+   */
+  async processUser(
+    userId: string,
+    now: Date = new Date(),
+  ): Promise<MissedSessionsResultDto> {
+    const settings = await this.settingsService.get(userId);
+    const graceMs = settings.missedGraceMinutes * MINUTE_MS;
+
+    const candidates = await this.prisma.session.findMany({
+      where: {
+        userId,
+        status: 'PLANNED',
+        scheduledFor: { lt: new Date(now.getTime() - graceMs) },
+      },
+      orderBy: { scheduledFor: 'asc' },
+    });
+    const overdue = candidates.filter(
+      (s) =>
+        s.scheduledFor!.getTime() + s.duration * MINUTE_MS + graceMs <=
+        now.getTime(),
+    );
+
+    if (overdue.length === 0) {
+      return { markedMissed: 0, rescheduled: 0 };
+    }
+
+    const missedIds: string[] = [];
+    let rescheduled = 0;
+
+    if (settings.autoRescheduleMissed) {
+      // Free time within the user's availability windows, blackouts excluded
+      const open = await this.availabilityService.getOpenIntervals(
+        userId,
+        zonedDayNumber(now, settings.timezone),
+        RESCHEDULE_HORIZON_DAYS + 1,
+        settings.timezone,
+      );
+      const busy = await this.availabilityService.findBusyIntervals(
+        userId,
+        now,
+        new Date(now.getTime() + (RESCHEDULE_HORIZON_DAYS + 1) * DAY_MS),
+      );
+
+      for (const session of overdue) {
+        const start = findSlot(open, busy, session.duration, SLOT_STEP_MINUTES, now.getTime());
+        if (start === null) {
+          missedIds.push(session.id);
+          continue;
+        }
+        const slot = new Date(start);
+
+        // Goes through the regular update so series occurrences become exceptions;
+        // a session that cannot be moved (e.g. rejected in strict mode) is missed
+        try {
+          await this.sessionsService.update(session.id, userId, {
+            scheduledFor: slot.toISOString(),
+          });
+        } catch (error) {
+          this.logger.warn(
+            `Could not reschedule session ${session.id}: ${error instanceof Error ? error.message : String(error)}`,
+          );
+          missedIds.push(session.id);
+          continue;
+        }
+        busy.push({
+          start: slot.getTime(),
+          end: slot.getTime() + session.duration * MINUTE_MS,
+        });
+        rescheduled++;
+      }
+    } else {
+      missedIds.push(...overdue.map((s) => s.id));
+    }
+
+    const result =
+      missedIds.length > 0
+        ? await this.prisma.session.updateMany({
+            where: { id: { in: missedIds }, status: 'PLANNED' },
+            data: { status: 'MISSED' },
+          })
+        : { count: 0 };
+
+    return { markedMissed: result.count, rescheduled };
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * SM-2 spaced repetition: each recall rating (1-5) moves the next review
+ * further out, or back to tomorrow when recall failed.
+ */
+
+/** Ease factor of a session that has not been reviewed yet */
+export const INITIAL_EASE = 2.5;
+
+/** SM-2 never lets the ease factor drop below this */
+const MIN_EASE = 1.3;
+
+/** Ratings below this count as failed recall and restart the chain */
+const PASSING_RATING = 3;
+
+/** Longest gap between two reviews, in days */
+export const MAX_INTERVAL_DAYS = 365;
+
+/**
+ * Where a review chain stands after a rating
+ */
+export interface ReviewState {
+  /** Successful reviews in a row */
+  repetition: number;
+  /** Days until the next review */
+  intervalDays: number;
+  ease: number;
+}
+
+/**
+ * State of the next review after rating the current one; previous is null
+ * for the session that starts the chain
+ */
+export function nextReviewState(previous: ReviewState | null, rating: number): ReviewState {
+  const repetition = previous?.repetition ?? 0;
+  const intervalDays = previous?.intervalDays ?? 0;
+  const ease = previous?.ease ?? INITIAL_EASE;
+
+  // Quality in SM-2 terms is 0-5; ratings map onto 1-5 of it
+  const quality = Math.min(Math.max(Math.round(rating), 1), 5);
+  const nextEase =
+    Math.round(Math.max(MIN_EASE, ease + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))) * 100) / 100;
+
+  if (quality < PASSING_RATING) {
+    return { repetition: 0, intervalDays: 1, ease: nextEase };
+  }
+
+  let nextInterval: number;
+  if (repetition === 0) {
+    nextInterval = 1;
+  } else if (repetition === 1) {
+    nextInterval = 6;
+  } else {
+    nextInterval = Math.round(intervalDays * ease);
+  }
+
+  return {
+    repetition: repetition + 1,
+    intervalDays: Math.min(Math.max(nextInterval, 1), MAX_INTERVAL_DAYS),
+    ease: nextEase,
+  };
+}
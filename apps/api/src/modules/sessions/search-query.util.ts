@@ -0,0 +1,115 @@
+/**
+ * Parsing of session search queries: free text plus `key:value` operators
+ */
+import { BadRequestException } from '@nestjs/common';
+import { SESSION_STATUSES } from '@repo/shared-types';
+import type {
+  ParsedSessionSearchDto,
+  SessionStatus,
+} from '@repo/shared-types';
+
+export interface ParsedSearchQuery extends ParsedSessionSearchDto {
+  /** Postgres tsquery source built from the free text, null without text */
+  tsQuery: string | null;
+}
+
+type Operator = 'tag' | 'category' | 'status' | 'before' | 'after';
+
+const OPERATORS: Operator[] = ['tag', 'category', 'status', 'before', 'after'];
+
+/** operator:value, operator:"quoted value", "quoted phrase" or a bare word */
+const TOKEN_PATTERN = /([a-z]+):(?:"([^"]*)"|(\S+))|"([^"]*)"|(\S+)/giu;
+
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+/**
+ * Parse a search query. Unknown `key:` prefixes are kept as free text.
+ * Throws BadRequestException for invalid operator values.
+ */
+export function parseSearchQuery(query: string): ParsedSearchQuery {
+  const parsed: ParsedSearchQuery = {
+    text: '',
+    tags: [],
+    categories: [],
+    statuses: [],
+    before: null,
+    after: null,
+    tsQuery: null,
+  };
+  const textParts: string[] = [];
+  const tsParts: string[] = [];
+
+  for (const match of query.matchAll(TOKEN_PATTERN)) {
+    const [token, key, quotedValue, value, phrase, word] = match;
+    const operator = key?.toLowerCase() as Operator | undefined;
+
+    if (operator && OPERATORS.includes(operator)) {
+      applyOperator(parsed, operator, (quotedValue ?? value).trim());
+      continue;
+    }
+
+    // Quoted phrases must match as consecutive words; other words match by prefix
+    const words = (phrase ?? word ?? token).toLowerCase().match(WORD_PATTERN) ?? [];
+    if (words.length === 0) continue;
+    textParts.push(phrase !== undefined ? `"${phrase}"` : token);
+    tsParts.push(
+      phrase !== undefined ? `(${words.join(' <-> ')})` : words.map((w) => `${w}:*`).join(' & '),
+    );
+  }
+
+  parsed.text = textParts.join(' ');
+  parsed.tsQuery = tsParts.length > 0 ? tsParts.join(' & ') : null;
+  return parsed;
+}
+
+function applyOperator(parsed: ParsedSearchQuery, operator: Operator, raw: string): void {
+  const values = raw.split(',').map((v) => v.trim()).filter(Boolean);
+  if (values.length === 0) {
+    throw new BadRequestException(`Missing value for ${operator}:`);
+  }
+
+  switch (operator) {
+    case 'tag':
+      parsed.tags.push(...values.filter((v) => !parsed.tags.includes(v)));
+      break;
+
+    case 'category':
+      // Names are checked against the user's categories by the search service
+      for (const value of values) {
+        const known = parsed.categories.some((c) => c.toLowerCase() === value.toLowerCase());
+        if (!known) parsed.categories.push(value);
+      }
+      break;
+
+    case 'status':
+      for (const value of values) {
+        const status = value.toLowerCase().replace('-', '_') as SessionStatus;
+        if (!SESSION_STATUSES.includes(status)) {
+          throw new BadRequestException(
+            `Unknown status "${value}". Use one of: ${SESSION_STATUSES.join(', ')}`,
+          );
+        }
+        if (!parsed.statuses.includes(status)) parsed.statuses.push(status);
+      }
+      break;
+
+    case 'before':
+    case 'after': {
+      if (values.length > 1 || !isValidDate(values[0])) {
+        throw new BadRequestException(`${operator}: expects a date like 2026-11-01`);
+      }
+      parsed[operator] = values[0];
+      break;
+    }
+  }
+}
+
+function isValidDate(value: string): boolean {
+  const match = DATE_PATTERN.exec(value);
+  if (!match) return false;
+  const [, year, month, day] = match.map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+}
@@ -0,0 +1,176 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  HttpCode,
+  HttpStatus,
+  ParseUUIDPipe,
+  BadRequestException,
+} from '@nestjs/common';
+import { SeriesService } from './series.service';
+import { SessionsService } from './sessions.service';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import type {
+  ApiResponse,
+  CreateSeriesDto,
+  UpdateSeriesDto,
+  UpdateSeriesOccurrenceDto,
+  SeriesEditMode,
+  SeriesResponse,
+  SeriesOperationResult,
+  SessionResponse,
+} from '@repo/shared-types';
+
+@Controller('series')
+export class SeriesController {
+  constructor(
+    private readonly seriesService: SeriesService,
+    private readonly sessionsService: SessionsService,
+  ) {}
+
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  async create(
+    @CurrentUser('sub') userId: string,
+    @Body() dto: CreateSeriesDto,
+  ): Promise<ApiResponse<{ series: SeriesResponse; sessions: SessionResponse[] }>> {
+    const result = await this.seriesService.create(userId, dto);
+
+    return {
+      success: true,
+      message: `Series created with ${result.sessions.length} occurrences`,
+      data: result,
+    };
+  }
+
+  @Get()
+  async findAll(
+    @CurrentUser('sub') userId: string,
+  ): Promise<ApiResponse<SeriesResponse[]>> {
+    const series = await this.seriesService.findAll(userId);
+
+    return {
+      success: true,
+      message: 'Series retrieved successfully',
+      data: series,
+    };
+  }
+
+  @Patch('occurrences/:sessionId')
+  async updateOccurrence(
+    @CurrentUser('sub') userId: string,
+    @Param('sessionId', ParseUUIDPipe) sessionId: string,
+    @Body() dto: UpdateSeriesOccurrenceDto,
+  ): Promise<ApiResponse<SeriesOperationResult>> {
+    if (!dto.mode) {
+      throw new BadRequestException('Edit mode is required');
+    }
+
+    if (dto.mode === 'this') {
+      // A single occurrence is a regular session update; moving it records an exception
+      const session = await this.sessionsService.update(sessionId, userId, dto.updates || {});
+
+      return {
+        success: true,
+        message: 'Occurrence updated successfully',
+        data: {
+          mode: 'this',
+          seriesId: session.seriesId,
+          sessions: [session],
+          deletedCount: 0,
+        },
+      };
+    }
+
+    const result = await this.seriesService.updateOccurrences(sessionId, userId, dto);
+
+    return {
+      success: true,
+      message: `Series updated: ${result.sessions.length} planned occurrences`,
+      data: result,
+    };
+  }
+
+  @Delete('occurrences/:sessionId')
+  async deleteOccurrence(
+    @CurrentUser('sub') userId: string,
+    @Param('sessionId', ParseUUIDPipe) sessionId: string,
+    @Query('mode') mode: SeriesEditMode = 'this',
+  ): Promise<ApiResponse<SeriesOperationResult>> {
+    if (!['this', 'following', 'all'].includes(mode)) {
+      throw new BadRequestException('Mode must be "this", "following" or "all"');
+    }
+
+    if (mode === 'this') {
+      const session = await this.sessionsService.findById(sessionId, userId);
+      await this.sessionsService.delete(sessionId, userId);
+
+      return {
+        success: true,
+        message: 'Occurrence cancelled successfully',
+        data: {
+          mode: 'this',
+          seriesId: session.seriesId,
+          sessions: [],
+          deletedCount: 1,
+        },
+      };
+    }
+
+    const result = await this.seriesService.deleteOccurrences(sessionId, userId, mode);
+
+    return {
+      success: true,
+      message: `Deleted ${result.deletedCount} planned occurrences`,
+      data: result,
+    };
+  }
+
+  @Get(':id')
+  async findById(
+    @CurrentUser('sub') userId: string,
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<ApiResponse<SeriesResponse>> {
+    const series = await this.seriesService.findById(id, userId);
+
+    return {
+      success: true,
+      message: 'Series retrieved successfully',
+      data: series,
+    };
+  }
+
+  @Patch(':id')
+  async update(
+    @CurrentUser('sub') userId: string,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: UpdateSeriesDto,
+  ): Promise<ApiResponse<SeriesOperationResult>> {
+    const result = await this.seriesService.update(id, userId, dto);
+
+    return {
+      success: true,
+      message: 'Series updated successfully',
+      data: result,
+    };
+  }
+
+  @Delete(':id')
+  async delete(
+    @CurrentUser('sub') userId: string,
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<ApiResponse<SeriesOperationResult>> {
+    const result = await this.seriesService.delete(id, userId);
+
+    return {
+      success: true,
+      message: `Series deleted with ${result.deletedCount} planned occurrences`,
+      data: result,
+    };
+  }
+}
@@ -0,0 +1,728 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+} from '@nestjs/common';
+import { PrismaService } from '@common/prisma/prisma.service';
+import { getZonedParts, zonedTimeToUtc } from '@common/utils/timezone.util';
+import type {
+  CreateSeriesDto,
+  UpdateSeriesDto,
+  UpdateSeriesOccurrenceDto,
+  RecurrencePattern,
+  SeriesEditMode,
+  SeriesResponse,
+  SeriesOperationResult,
+  SessionResponse,
+} from '@repo/shared-types';
+import { Prisma, SessionSeries } from '@prisma/client';
+import { SettingsService } from '../settings/settings.service';
+import { CategoriesService } from '../categories/categories.service';
+import { CATEGORY_INCLUDE, toCategorySummary } from '../categories/category.util';
+import { SESSION_TASKS_INCLUDE } from '../session-tasks/session-task.util';
+
+/** Maximum occurrences generated by a single materialization pass */
+const MAX_OCCURRENCES = 365;
+
+/** How far ahead open-ended ("never") series are materialized */
+const OPEN_ENDED_HORIZON_DAYS = 90;
+
+/** Furthest ahead any series is materialized, whatever range is requested */
+const MAX_HORIZON_DAYS = 365;
+
+@Injectable()
+export class SeriesService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly settingsService: SettingsService,
+    private readonly categoriesService: CategoriesService,
+  ) {}
+
+  /**
+   * Transform Prisma session (UPPERCASE enums) to API response (lowercase enums)
+   */
+  private transformSession(session: any): SessionResponse {
+    const { legacyCategory: _legacyCategory, ...fields } = session;
+    return {
+      ...fields,
+      category: toCategorySummary(session.category),
+      status: session.status.toLowerCase(),
+      priority: session.priority.toLowerCase(),
+    };
+  }
+
+  /**
+   * Transform Prisma series into API response with a nested recurrence pattern
+   */
+  private transformSeries(series: any): SeriesResponse {
+    return {
+      id: series.id,
+      title: series.title,
+      description: series.description,
+      categoryId: series.categoryId,
+      category: toCategorySummary(series.category),
+      priority: series.priority.toLowerCase(),
+      duration: series.duration,
+      color: series.color,
+      tags: series.tags,
+      notes: series.notes,
+      recurrence: this.toPattern(series),
+      startDate: series.startDate.toISOString(),
+      materializedUntil: series.materializedUntil
+        ? series.materializedUntil.toISOString()
+        : null,
+      exceptions: (series.exceptions || []).map((exception: any) => ({
+        id: exception.id,
+        originalDate: exception.originalDate.toISOString(),
+        type: exception.type.toLowerCase(),
+        sessionId: exception.sessionId,
+        createdAt: exception.createdAt.toISOString(),
+      })),
+      occurrenceCount: series._count?.sessions ?? 0,
+      userId: series.userId,
+      createdAt: series.createdAt.toISOString(),
+      updatedAt: series.updatedAt.toISOString(),
+    };
+  }
+
+  /**
+   * Rebuild a RecurrencePattern from the flattened series columns
+   */
+  private toPattern(series: SessionSeries): RecurrencePattern {
+    return {
+      frequency: series.frequency.toLowerCase() as RecurrencePattern['frequency'],
+      interval: series.interval,
+      endType: series.endType.toLowerCase() as RecurrencePattern['endType'],
+      ...(series.endDate && { endDate: series.endDate.toISOString() }),
+      ...(series.endCount !== null && { endCount: series.endCount }),
+      ...(series.daysOfWeek.length > 0 && { daysOfWeek: series.daysOfWeek }),
+      ...(series.dayOfMonth !== null && { dayOfMonth: series.dayOfMonth }),
+    };
+  }
+
+  /**
+   * Flatten a RecurrencePattern into series columns
+   */
+  private toPatternData(pattern: RecurrencePattern) {
+    return {
+      frequency: pattern.frequency.toUpperCase() as any,
+      interval: pattern.interval,
+      endType: pattern.endType.toUpperCase() as any,
+      endDate: pattern.endType === 'date' && pattern.endDate ? new Date(pattern.endDate) : null,
+      endCount: pattern.endType === 'count' ? pattern.endCount ?? null : null,
+      daysOfWeek: pattern.frequency === 'weekly' ? [...(pattern.daysOfWeek || [])].sort() : [],
+      dayOfMonth: pattern.frequency === 'monthly' ? pattern.dayOfMonth ?? null : null,
+    };
+  }
+
+  /**
+   * Validate a recurrence pattern before it is stored
+   */
+  private validatePattern(pattern: RecurrencePattern) {
+    if (!pattern || !['daily', 'weekly', 'monthly'].includes(pattern.frequency)) {
+      throw new BadRequestException('Recurrence frequency must be daily, weekly or monthly');
+    }
+
+    if (!Number.isInteger(pattern.interval) || pattern.interval < 1) {
+      throw new BadRequestException('Recurrence interval must be a positive integer');
+    }
+
+    if (!['date', 'count', 'never'].includes(pattern.endType)) {
+      throw new BadRequestException('Recurrence end type must be date, count or never');
+    }
+
+    if (pattern.endType === 'date') {
+      if (!pattern.endDate || isNaN(new Date(pattern.endDate).getTime())) {
+        throw new BadRequestException('A valid end date is required');
+      }
+    }
+
+    if (pattern.endType === 'count') {
+      if (!Number.isInteger(pattern.endCount) || (pattern.endCount as number) < 1) {
+        throw new BadRequestException('Occurrence count must be a positive integer');
+      }
+    }
+
+    if (pattern.daysOfWeek?.some((day) => !Number.isInteger(day) || day < 0 || day > 6)) {
+      throw new BadRequestException('Days of week must be between 0 (Sunday) and 6 (Saturday)');
+    }
+
+    if (
+      pattern.dayOfMonth !== undefined &&
+      pattern.dayOfMonth !== null &&
+      (!Number.isInteger(pattern.dayOfMonth) || pattern.dayOfMonth < 1 || pattern.dayOfMonth > 31)
+    ) {
+      throw new BadRequestException('Day of month must be between 1 and 31');
+    }
+  }
+
+  /**
+   * Upper bound up to which a series should currently be materialized.
+   * Bounded series are generated completely; open-ended ones on a rolling horizon.
+   * Either way nothing beyond MAX_HORIZON_DAYS from now is generated.
+   */
+  private horizonFor(series: SessionSeries, until?: Date): Date {
+    const max = new Date();
+    max.setDate(max.getDate() + MAX_HORIZON_DAYS);
+
+    let horizon: Date;
+    if (series.endType === 'DATE' && series.endDate) {
+      horizon = series.endDate;
+    } else if (series.endType === 'COUNT' && series.endCount !== null) {
+      // Generous bound on the date of the last occurrence
+      const daysPerStep = series.frequency === 'DAILY' ? 1 : series.frequency === 'WEEKLY' ? 7 : 31;
+      horizon = new Date(series.startDate);
+      horizon.setDate(horizon.getDate() + series.endCount * series.interval * daysPerStep + 7);
+    } else {
+      horizon = new Date();
+      horizon.setDate(horizon.getDate() + OPEN_ENDED_HORIZON_DAYS);
+      if (until && until > horizon) {
+        horizon = until;
+      }
+    }
+
+    return horizon > max ? max : horizon;
+  }
+
+  /**
+   * Expand the series pattern into occurrence dates up to `until`.
+   * Dates are generated from the series start so counts stay stable across passes;
+   * only those after `after` are returned, and expansion stops after `max` of them.
+   * Occurrences keep the start's wall-clock time in `timeZone`, across DST changes.
+   */
+  private expandOccurrences(
+    series: SessionSeries,
+    until: Date,
+    timeZone: string,
+    after: Date | null = null,
+    max = Infinity,
+  ): Date[] {
+    const dates: Date[] = [];
+    let total = 0;
+    const startDate = new Date(series.startDate);
+    const start = getZonedParts(startDate, timeZone);
+    const endDate = series.endType === 'DATE' && series.endDate ? series.endDate : null;
+    const endCount = series.endType === 'COUNT' ? series.endCount ?? 0 : null;
+    const limit = endDate && endDate < until ? endDate : until;
+
+    // Local day `day` of `month` (both may overflow) at the start's time of day
+    const at = (month: number, day: number): Date =>
+      zonedTimeToUtc(start.year, month, day, start.hour, start.minute, start.second, timeZone);
+
+    const accept = (date: Date): boolean => {
+      if (date > limit) return false;
+      if (endCount !== null && total >= endCount) return false;
+      total++;
+      if (after && date <= after) return true;
+      dates.push(date);
+      return dates.length < max;
+    };
+
+    if (series.frequency === 'WEEKLY' && series.daysOfWeek.length > 0) {
+      // Iterate week by week from the local week (Sunday first) containing the start date
+      const weekStartDay = start.day - start.weekday;
+
+      for (let weekIndex = 0; ; weekIndex++) {
+        const currentWeekStart = weekStartDay + weekIndex * series.interval * 7;
+        if (at(start.month, currentWeekStart) > limit) break;
+
+        for (const dayOfWeek of series.daysOfWeek) {
+          const occurrenceDate = at(start.month, currentWeekStart + dayOfWeek);
+
+          if (occurrenceDate < startDate) continue;
+          if (!accept(occurrenceDate)) return dates;
+        }
+      }
+
+      return dates;
+    }
+
+    // For daily and monthly recurrence, and weekly without specific days
+    for (let step = 0; ; step++) {
+      let occurrenceDate: Date;
+      if (series.frequency === 'DAILY') {
+        occurrenceDate = at(start.month, start.day + step * series.interval);
+      } else if (series.frequency === 'WEEKLY') {
+        occurrenceDate = at(start.month, start.day + step * series.interval * 7);
+      } else {
+        const month = start.month + step * series.interval;
+        // Clamp to the month's length so e.g. the 31st falls on the last day
+        const monthLength = new Date(Date.UTC(start.year, month, 0)).getUTCDate();
+        const day = step === 0 ? start.day : series.dayOfMonth ?? start.day;
+        occurrenceDate = at(month, Math.min(day, monthLength));
+      }
+
+      if (!accept(occurrenceDate)) break;
+    }
+
+    return dates;
+  }
+
+  /**
+   * Create the missing occurrences of a series up to `until`.
+   * Slots that already have a session or were cancelled are skipped.
+   */
+  private async materialize(series: SessionSeries, until: Date): Promise<SessionResponse[]> {
+    const from = series.materializedUntil;
+    const { timezone } = await this.settingsService.get(series.userId);
+    const dates = this.expandOccurrences(series, until, timezone, from, MAX_OCCURRENCES);
+
+    if (dates.length === 0) {
+      if (!from || from < until) {
+        await this.prisma.sessionSeries.update({
+          where: { id: series.id },
+          data: { materializedUntil: until },
+        });
+      }
+      return [];
+    }
+
+    const [existing, cancelled] = await Promise.all([
+      this.prisma.session.findMany({
+        where: { seriesId: series.id, originalScheduledFor: { in: dates } },
+        select: { originalScheduledFor: true },
+      }),
+      this.prisma.seriesException.findMany({
+        where: { seriesId: series.id, type: 'CANCELLED', originalDate: { in: dates } },
+        select: { originalDate: true },
+      }),
+    ]);
+
+    const taken = new Set<number>([
+      ...existing.map((s) => s.originalScheduledFor!.getTime()),
+      ...cancelled.map((e) => e.originalDate.getTime()),
+    ]);
+
+    // A capped pass continues from its last date on the next read
+    const truncated = dates.length === MAX_OCCURRENCES;
+    const toCreate = dates.filter((date) => !taken.has(date.getTime()));
+
+    const created = await this.prisma.session.createManyAndReturn({
+      data: toCreate.map((date) => ({
+        title: series.title,
+        description: series.description,
+        categoryId: series.categoryId,
+        status: 'PLANNED' as const,
+        priority: series.priority,
+        duration: series.duration,
+        color: series.color,
+        tags: series.tags,
+        notes: series.notes,
+        scheduledFor: date,
+        originalScheduledFor: date,
+        seriesId: series.id,
+        userId: series.userId,
+      })),
+      include: CATEGORY_INCLUDE,
+    });
+
+    await this.prisma.sessionSeries.update({
+      where: { id: series.id },
+      data: { materializedUntil: truncated ? dates[dates.length - 1] : until },
+    });
+
+    // Occurrences start without a checklist
+    return created.map((session) => this.transformSession({ ...session, tasks: [] }));
+  }
+
+  /**
+   * Find a series owned by the user or throw
+   */
+  private async findSeriesRecord(id: string, userId: string): Promise<SessionSeries> {
+    const series = await this.prisma.sessionSeries.findFirst({
+      where: { id, userId },
+    });
+
+    if (!series) {
+      throw new NotFoundException(`Series with ID ${id} not found`);
+    }
+
+    return series;
+  }
+
+  /**
+   * Find a session that belongs to a series owned by the user or throw
+   */
+  private async findOccurrence(sessionId: string, userId: string) {
+    const session = await this.prisma.session.findFirst({
+      where: { id: sessionId, userId },
+    });
+
+    if (!session) {
+      throw new NotFoundException(`Session with ID ${sessionId} not found`);
+    }
+
+    if (!session.seriesId) {
+      throw new BadRequestException('Session is not part of a series');
+    }
+
+    return session as typeof session & { seriesId: string };
+  }
+
+  async create(
+    userId: string,
+    dto: CreateSeriesDto,
+  ): Promise<{ series: SeriesResponse; sessions: SessionResponse[] }> {
+    const base = dto.session;
+    if (!base || !base.title || base.title.trim().length === 0) {
+      throw new BadRequestException('Title is required');
+    }
+
+    if (!base.duration || base.duration <= 0) {
+      throw new BadRequestException('Duration must be greater than 0');
+    }
+
+    this.validatePattern(dto.recurrence);
+
+    const startDate = base.scheduledFor ? new Date(base.scheduledFor) : new Date();
+    if (isNaN(startDate.getTime())) {
+      throw new BadRequestException('Invalid scheduledFor date');
+    }
+
+    const categoryId = await this.categoriesService.resolveOwnedId(userId, base.categoryId ?? null);
+
+    const series = await this.prisma.sessionSeries.create({
+      data: {
+        title: base.title,
+        description: base.description || null,
+        categoryId,
+        priority: (base.priority || 'medium').toUpperCase() as any,
+        duration: base.duration,
+        color: base.color || null,
+        tags: base.tags || [],
+        notes: base.notes || null,
+        startDate,
+        ...this.toPatternData(dto.recurrence),
+        userId,
+      },
+    });
+
+    const sessions = await this.materialize(series, this.horizonFor(series));
+
+    return {
+      series: await this.findById(series.id, userId),
+      sessions,
+    };
+  }
+
+  async findAll(userId: string): Promise<SeriesResponse[]> {
+    await this.extendAll(userId);
+
+    const series = await this.prisma.sessionSeries.findMany({
+      where: { userId },
+      include: {
+        ...CATEGORY_INCLUDE,
+        exceptions: { orderBy: { originalDate: 'asc' } },
+        _count: { select: { sessions: true } },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return series.map((s) => this.transformSeries(s));
+  }
+
+  async findById(id: string, userId: string): Promise<SeriesResponse> {
+    const series = await this.prisma.sessionSeries.findFirst({
+      where: { id, userId },
+      include: {
+        ...CATEGORY_INCLUDE,
+        exceptions: { orderBy: { originalDate: 'asc' } },
+        _count: { select: { sessions: true } },
+      },
+    });
+
+    if (!series) {
+      throw new NotFoundException(`Series with ID ${id} not found`);
+    }
+
+    return this.transformSeries(series);
+  }
+
+  /**
+   * Materialize occurrences of all of the user's series up to `until`
+   * (at least the open-ended horizon). Called before date-range reads.
+   */
+  async extendAll(userId: string, until?: Date) {
+    const series = await this.prisma.sessionSeries.findMany({
+      where: { userId },
+    });
+
+    for (const s of series) {
+      const horizon = this.horizonFor(s, until);
+      if (s.materializedUntil && s.materializedUntil >= horizon) continue;
+      await this.materialize(s, horizon);
+    }
+  }
+
+  /**
+   * Record that an occurrence deviates from its series so it is not regenerated
+   */
+  async recordException(
+    seriesId: string,
+    originalDate: Date,
+    type: 'MOVED' | 'CANCELLED',
+    sessionId: string | null,
+  ) {
+    await this.prisma.seriesException.upsert({
+      where: { seriesId_originalDate: { seriesId, originalDate } },
+      create: { seriesId, originalDate, type, sessionId },
+      update: { type, sessionId },
+    });
+  }
+
+  /**
+   * Update the whole series
+   */
+  async update(id: string, userId: string, dto: UpdateSeriesDto): Promise<SeriesOperationResult> {
+    const series = await this.findSeriesRecord(id, userId);
+    const { startDate, recurrence, ...fields } = dto;
+
+    return this.applyChanges(series, 'all', fields, {
+      recurrence,
+      startDate: startDate ? new Date(startDate) : undefined,
+    });
+  }
+
+  /**
+   * Update the selected occurrence and all following ones, or every occurrence.
+   * Single-occurrence edits go through SessionsService.update.
+   */
+  async updateOccurrences(
+    sessionId: string,
+    userId: string,
+    dto: UpdateSeriesOccurrenceDto,
+  ): Promise<SeriesOperationResult> {
+    if (dto.mode !== 'following' && dto.mode !== 'all') {
+      throw new BadRequestException('Mode must be "following" or "all"');
+    }
+
+    const occurrence = await this.findOccurrence(sessionId, userId);
+    let series = await this.findSeriesRecord(occurrence.seriesId, userId);
+    const pivot = occurrence.originalScheduledFor ?? occurrence.scheduledFor ?? series.startDate;
+
+    if (dto.mode === 'following' && pivot > series.startDate) {
+      series = await this.splitSeries(series, pivot);
+    }
+
+    const { scheduledFor, ...updates } = dto.updates || {};
+
+    // A new time for the selected occurrence shifts the series start by the same offset
+    let startDate: Date | undefined;
+    if (scheduledFor) {
+      const target = new Date(scheduledFor);
+      if (isNaN(target.getTime())) {
+        throw new BadRequestException('Invalid scheduledFor date');
+      }
+      const current = occurrence.scheduledFor ?? pivot;
+      if (target.getTime() !== current.getTime()) {
+        startDate = new Date(series.startDate.getTime() + (target.getTime() - current.getTime()));
+      }
+    }
+
+    return this.applyChanges(series, dto.mode, updates, {
+      recurrence: dto.recurrence,
+      startDate,
+      cutoff: dto.mode === 'following' ? pivot : undefined,
+    });
+  }
+
+  /**
+   * Delete the selected occurrence and all following ones, or the whole series.
+   * Planned occurrences are removed; sessions with history are detached and kept.
+   */
+  async deleteOccurrences(
+    sessionId: string,
+    userId: string,
+    mode: SeriesEditMode,
+  ): Promise<SeriesOperationResult> {
+    if (mode !== 'following' && mode !== 'all') {
+      throw new BadRequestException('Mode must be "following" or "all"');
+    }
+
+    const occurrence = await this.findOccurrence(sessionId, userId);
+    const series = await this.findSeriesRecord(occurrence.seriesId, userId);
+    const pivot = occurrence.originalScheduledFor ?? occurrence.scheduledFor ?? series.startDate;
+
+    if (mode === 'all' || pivot <= series.startDate) {
+      return this.delete(series.id, userId);
+    }
+
+    const inRange = { seriesId: series.id, originalScheduledFor: { gte: pivot } };
+    const [deleted] = await this.prisma.$transaction([
+      this.prisma.session.deleteMany({ where: { ...inRange, status: 'PLANNED' } }),
+      this.prisma.session.updateMany({ where: inRange, data: { seriesId: null } }),
+      this.prisma.seriesException.deleteMany({
+        where: { seriesId: series.id, originalDate: { gte: pivot } },
+      }),
+      this.prisma.sessionSeries.update({
+        where: { id: series.id },
+        data: {
+          endType: 'DATE',
+          endDate: new Date(pivot.getTime() - 1),
+          endCount: null,
+        },
+      }),
+    ]);
+
+    return {
+      mode,
+      seriesId: series.id,
+      sessions: [],
+      deletedCount: deleted.count,
+    };
+  }
+
+  /**
+   * Delete a series with its planned occurrences
+   */
+  async delete(id: string, userId: string): Promise<SeriesOperationResult> {
+    await this.findSeriesRecord(id, userId);
+
+    const [deleted] = await this.prisma.$transaction([
+      this.prisma.session.deleteMany({ where: { seriesId: id, status: 'PLANNED' } }),
+      this.prisma.sessionSeries.delete({ where: { id } }),
+    ]);
+
+    return {
+      mode: 'all',
+      seriesId: null,
+      sessions: [],
+      deletedCount: deleted.count,
+    };
+  }
+
+  /**
+   * End a series right before `pivot` and move the remaining occurrences
+   * (with their exceptions) into a new series starting at `pivot`.
+   */
+  private async splitSeries(series: SessionSeries, pivot: Date): Promise<SessionSeries> {
+    let endCount = series.endCount;
+    if (series.endType === 'COUNT' && series.endCount !== null) {
+      const { timezone } = await this.settingsService.get(series.userId);
+      const before = this.expandOccurrences(series, new Date(pivot.getTime() - 1), timezone).length;
+      endCount = Math.max(series.endCount - before, 1);
+    }
+
+    const { id, createdAt, updatedAt, ...copy } = series;
+
+    return this.prisma.$transaction(async (tx) => {
+      const next = await tx.sessionSeries.create({
+        data: { ...copy, startDate: pivot, endCount },
+      });
+
+      await tx.session.updateMany({
+        where: { seriesId: id, originalScheduledFor: { gte: pivot } },
+        data: { seriesId: next.id },
+      });
+
+      await tx.seriesException.updateMany({
+        where: { seriesId: id, originalDate: { gte: pivot } },
+        data: { seriesId: next.id },
+      });
+
+      await tx.sessionSeries.update({
+        where: { id },
+        data: {
+          endType: 'DATE',
+          endDate: new Date(pivot.getTime() - 1),
+          endCount: null,
+        },
+      });
+
+      return next;
+    });
+  }
+
+  /**
+   * Apply field changes to a series and its planned occurrences. A new pattern or
+   * start regenerates the planned occurrences from `cutoff` (default: now) onward,
+   * which drops moved/cancelled exceptions in that range.
+   */
+  private async applyChanges(
+    series: SessionSeries,
+    mode: SeriesEditMode,
+    updates: Omit<UpdateSeriesDto, 'startDate' | 'recurrence'>,
+    options: { recurrence?: RecurrencePattern; startDate?: Date; cutoff?: Date },
+  ): Promise<SeriesOperationResult> {
+    if (options.recurrence) {
+      this.validatePattern(options.recurrence);
+    }
+
+    if (options.startDate && isNaN(options.startDate.getTime())) {
+      throw new BadRequestException('Invalid start date');
+    }
+
+    if (updates.duration !== undefined && updates.duration <= 0) {
+      throw new BadRequestException('Duration must be greater than 0');
+    }
+
+    const categoryId = await this.categoriesService.resolveOwnedId(series.userId, updates.categoryId);
+
+    const fields: Prisma.SessionSeriesUncheckedUpdateInput = {
+      ...(updates.title && { title: updates.title }),
+      ...(updates.description !== undefined && { description: updates.description }),
+      ...(categoryId !== undefined && { categoryId }),
+      ...(updates.priority && { priority: updates.priority.toUpperCase() as any }),
+      ...(updates.duration && { duration: updates.duration }),
+      ...(updates.color !== undefined && { color: updates.color }),
+      ...(updates.tags && { tags: updates.tags }),
+      ...(updates.notes !== undefined && { notes: updates.notes }),
+    };
+
+    const reschedule = !!options.recurrence || !!options.startDate;
+
+    const updated = await this.prisma.sessionSeries.update({
+      where: { id: series.id },
+      data: {
+        ...fields,
+        ...(options.recurrence && this.toPatternData(options.recurrence)),
+        ...(options.startDate && { startDate: options.startDate }),
+      },
+    });
+
+    if (Object.keys(fields).length > 0) {
+      await this.prisma.session.updateMany({
+        where: { seriesId: series.id, status: 'PLANNED' },
+        data: fields as Prisma.SessionUncheckedUpdateManyInput,
+      });
+    }
+
+    if (reschedule) {
+      const cutoff = options.cutoff ?? new Date();
+
+      await this.prisma.$transaction([
+        this.prisma.session.deleteMany({
+          where: {
+            seriesId: series.id,
+            status: 'PLANNED',
+            originalScheduledFor: { gte: cutoff },
+          },
+        }),
+        this.prisma.seriesException.deleteMany({
+          where: { seriesId: series.id, originalDate: { gte: cutoff } },
+        }),
+      ]);
+
+      // A shifted start may put the first regenerated occurrence before the cutoff
+      const from = options.cutoff && updated.startDate < cutoff ? updated.startDate : cutoff;
+
+      await this.materialize(
+        { ...updated, materializedUntil: new Date(from.getTime() - 1) },
+        this.horizonFor(updated),
+      );
+    }
+
+    const sessions = await this.prisma.session.findMany({
+      where: { seriesId: series.id, status: 'PLANNED' },
+      orderBy: { scheduledFor: 'asc' },
+      include: { ...CATEGORY_INCLUDE, ...SESSION_TASKS_INCLUDE },
+    });
+
+    return {
+      mode,
+      seriesId: series.id,
+      sessions: sessions.map((session) => this.transformSession(session)),
+      deletedCount: 0,
+    };
+  }
+}
@@ -0,0 +1,184 @@
+import {
+  Injectable,
+  BadRequestException,
+  ConflictException,
+} from '@nestjs/common';
+import { PrismaService } from '@common/prisma/prisma.service';
+import type {
+  ConflictingSessionDto,
+  SessionConflictDto,
+  SessionConflictErrorDto,
+  SessionConflictsQuery,
+  SessionOverlapDto,
+} from '@repo/shared-types';
+import { SettingsService } from '../settings/settings.service';
+
+/** Only these statuses occupy their time slot */
+const ACTIVE_STATUSES = ['PLANNED', 'IN_PROGRESS'] as const;
+
+/** Default and longest span of the conflicts list */
+const DEFAULT_RANGE_DAYS = 90;
+const MAX_RANGE_DAYS = 366;
+
+/**
+ * How far back to look for sessions that started earlier and may still
+ * run into the checked range
+ */
+const LOOKBACK_MS = 24 * 60 * 60 * 1000;
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+/**
+ * Time slot a session would occupy after a create or update
+ */
+export interface SessionSlot {
+  scheduledFor: Date | null;
+  duration: number;
+  /** Prisma status (uppercase) */
+  status: string;
+}
+
+interface TimedSession {
+  id: string;
+  title: string;
+  scheduledFor: Date | null;
+  duration: number;
+}
+
+@Injectable()
+export class SessionConflictService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly settingsService: SettingsService,
+  ) {}
+
+  private toConflicting(session: TimedSession): ConflictingSessionDto {
+    return {
+      id: session.id,
+      title: session.title,
+      scheduledFor: session.scheduledFor!.toISOString(),
+      duration: session.duration,
+    };
+  }
+
+  private parseDate(value: unknown, field: string): Date {
+    const date = typeof value === 'string' ? new Date(value) : null;
+    if (!date || Number.isNaN(date.getTime())) {
+      throw new BadRequestException(`${field} must be an ISO date`);
+    }
+    return date;
+  }
+
+  /**
+   * Planned or running sessions the slot overlaps. Unscheduled slots and
+   * slots of finished, missed or cancelled sessions never conflict.
+   */
+  async findOverlaps(
+    userId: string,
+    slot: SessionSlot,
+    excludeId?: string,
+  ): Promise<SessionOverlapDto[]> {
+    if (!slot.scheduledFor || !(ACTIVE_STATUSES as readonly string[]).includes(slot.status)) {
+      return [];
+    }
+
+    const start = slot.scheduledFor.getTime();
+    const end = start + slot.duration * MINUTE_MS;
+    const sessions = await this.prisma.session.findMany({
+      where: {
+        userId,
+        ...(excludeId && { id: { not: excludeId } }),
+        status: { in: [...ACTIVE_STATUSES] },
+        scheduledFor: { gte: new Date(start - LOOKBACK_MS), lt: new Date(end) },
+      },
+      select: { id: true, title: true, scheduledFor: true, duration: true },
+      orderBy: { scheduledFor: 'asc' },
+    });
+
+    return sessions
+      .filter((s) => s.scheduledFor!.getTime() + s.duration * MINUTE_MS > start)
+      .map((s) => {
+        const otherStart = s.scheduledFor!.getTime();
+        const otherEnd = otherStart + s.duration * MINUTE_MS;
+        return {
+          ...this.toConflicting(s),
+          overlapMinutes: Math.round((Math.min(end, otherEnd) - Math.max(start, otherStart)) / MINUTE_MS),
+        };
+      });
+  }
+
+  /**
+   * Reject the overlaps when the user opted into strict scheduling
+   */
+  async assertAllowed(userId: string, overlaps: SessionOverlapDto[]): Promise<void> {
+    if (overlaps.length === 0) return;
+
+    const { strictScheduling } = await this.settingsService.get(userId);
+    if (!strictScheduling) return;
+
+    const body: SessionConflictErrorDto = {
+      statusCode: 409,
+      code: 'SESSION_OVERLAP',
+      message:
+        overlaps.length === 1
+          ? `Overlaps "${overlaps[0].title}"`
+          : `Overlaps "${overlaps[0].title}" and ${overlaps.length - 1} other session${overlaps.length > 2 ? 's' : ''}`,
+      conflicts: overlaps,
+    };
+    throw new ConflictException(body);
+  }
+
+  /**
+   * Pairs of planned or running sessions that overlap within [from, to)
+   */
+  async findConflicts(
+    userId: string,
+    query: SessionConflictsQuery = {},
+  ): Promise<SessionConflictDto[]> {
+    const from = query.from ? this.parseDate(query.from, 'from') : new Date();
+    const to = query.to
+      ? this.parseDate(query.to, 'to')
+      : new Date(from.getTime() + DEFAULT_RANGE_DAYS * DAY_MS);
+    if (to <= from) {
+      throw new BadRequestException('to must be after from');
+    }
+    if (to.getTime() - from.getTime() > MAX_RANGE_DAYS * DAY_MS) {
+      throw new BadRequestException(`The range can span at most ${MAX_RANGE_DAYS} days`);
+    }
+
+    const sessions = await this.prisma.session.findMany({
+      where: {
+        userId,
+        status: { in: [...ACTIVE_STATUSES] },
+        scheduledFor: { gte: new Date(from.getTime() - LOOKBACK_MS), lt: to },
+      },
+      select: { id: true, title: true, scheduledFor: true, duration: true },
+      orderBy: [{ scheduledFor: 'asc' }, { createdAt: 'asc' }],
+    });
+
+    // Sorted by start, so each session only needs comparing with the ones
+    // starting before it ends
+    const conflicts: SessionConflictDto[] = [];
+    for (let i = 0; i < sessions.length; i++) {
+      const first = sessions[i];
+      const firstEnd = first.scheduledFor!.getTime() + first.duration * MINUTE_MS;
+      if (firstEnd <= from.getTime()) continue;
+
+      for (let j = i + 1; j < sessions.length; j++) {
+        const second = sessions[j];
+        const secondStart = second.scheduledFor!.getTime();
+        if (secondStart >= firstEnd) break;
+
+        const secondEnd = secondStart + second.duration * MINUTE_MS;
+        conflicts.push({
+          first: this.toConflicting(first),
+          second: this.toConflicting(second),
+          overlapMinutes: Math.round((Math.min(firstEnd, secondEnd) - secondStart) / MINUTE_MS),
+        });
+      }
+    }
+
+    return conflicts;
+  }
+}
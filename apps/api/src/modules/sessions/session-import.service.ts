@@ -0,0 +1,479 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+} from '@nestjs/common';
+import { PrismaService } from '@common/prisma/prisma.service';
+import type {
+  ParsedSessionRowDto,
+  FileImportResultDto,
+  CommitImportDto,
+  ImportCommitResultDto,
+  ImportConflictStrategy,
+  ImportHistoryItemDto,
+  ImportRollbackResultDto,
+  SessionResponse,
+  SessionStatus,
+} from '@repo/shared-types';
+import { Prisma, Session } from '@prisma/client';
+import { CategoriesService } from '../categories/categories.service';
+import { CATEGORY_INCLUDE, toCategorySummary } from '../categories/category.util';
+import { SESSION_TASKS_INCLUDE } from '../session-tasks/session-task.util';
+import { SessionsService } from './sessions.service';
+
+/** Uncommitted previews older than this are discarded */
+const PREVIEW_TTL_HOURS = 24;
+
+/** Maximum rows applied by a single commit */
+const MAX_COMMIT_ROWS = 500;
+
+/** Number of imports returned by the history endpoint */
+const HISTORY_LIMIT = 50;
+
+/** Session fields an overwrite/merge may change, snapshotted for rollback */
+type SessionSnapshot = Pick<
+  Session,
+  'title' | 'description' | 'categoryId' | 'priority' | 'duration' | 'color' | 'tags' | 'notes'
+>;
+
+@Injectable()
+export class SessionImportService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly categoriesService: CategoriesService,
+    private readonly sessionsService: SessionsService,
+  ) {}
+
+  /**
+   * Transform Prisma session (UPPERCASE enums) to API response (lowercase enums)
+   */
+  private transformSession(session: any): SessionResponse {
+    const { legacyCategory: _legacyCategory, ...fields } = session;
+    return {
+      ...fields,
+      category: toCategorySummary(session.category),
+      status: session.status.toLowerCase(),
+      priority: session.priority.toLowerCase(),
+    };
+  }
+
+  /**
+   * Transform Prisma import into a history entry
+   */
+  private transformImport(sessionImport: any): ImportHistoryItemDto {
+    return {
+      id: sessionImport.id,
+      fileName: sessionImport.fileName,
+      format: sessionImport.format,
+      status: sessionImport.status.toLowerCase(),
+      totalRows: sessionImport.totalRows,
+      createdCount: sessionImport.createdCount,
+      overwrittenCount: sessionImport.overwrittenCount,
+      mergedCount: sessionImport.mergedCount,
+      skippedCount: sessionImport.skippedCount,
+      failedCount: sessionImport.failedCount,
+      createdAt: sessionImport.createdAt.toISOString(),
+      committedAt: sessionImport.committedAt?.toISOString() ?? null,
+      rolledBackAt: sessionImport.rolledBackAt?.toISOString() ?? null,
+    };
+  }
+
+  /**
+   * Flag rows matching existing sessions (title + scheduledFor), store the
+   * preview and return it with its import id
+   */
+  async createPreview(
+    userId: string,
+    fileName: string,
+    format: string,
+    rows: ParsedSessionRowDto[],
+  ): Promise<FileImportResultDto> {
+    await this.prisma.sessionImport.deleteMany({
+      where: {
+        userId,
+        status: 'PREVIEW',
+        createdAt: { lt: new Date(Date.now() - PREVIEW_TTL_HOURS * 60 * 60 * 1000) },
+      },
+    });
+
+    await this.detectExistingDuplicates(userId, rows);
+    await this.flagNewCategories(userId, rows);
+
+    const sessionImport = await this.prisma.sessionImport.create({
+      data: {
+        fileName,
+        format,
+        rows: rows as unknown as Prisma.InputJsonValue,
+        totalRows: rows.length,
+        userId,
+      },
+    });
+
+    const failedRows = rows.filter((row) => row.status === 'error');
+
+    return {
+      summary: {
+        totalRows: rows.length,
+        successfulRows: rows.filter((row) => row.status === 'success').length,
+        failedRows: failedRows.length,
+        duplicateRows: rows.filter((row) => row.isDuplicate).length,
+        warningRows: rows.filter((row) => row.status === 'warning').length,
+      },
+      rows,
+      errors: failedRows.flatMap((row) => row.errors),
+      importId: sessionImport.id,
+    };
+  }
+
+  /**
+   * Apply the selected rows of a preview. Rows matching an existing session are
+   * skipped, overwritten or merged; all other rows create new sessions.
+   */
+  async commit(
+    userId: string,
+    importId: string,
+    dto: CommitImportDto,
+  ): Promise<ImportCommitResultDto> {
+    const sessionImport = await this.findOwned(importId, userId);
+
+    if (dto.rows.length > MAX_COMMIT_ROWS) {
+      throw new BadRequestException(`Cannot import more than ${MAX_COMMIT_ROWS} sessions at once`);
+    }
+
+    // Claim the preview first so concurrent commits cannot apply it twice
+    const { count: claimed } = await this.prisma.sessionImport.updateMany({
+      where: { id: importId, status: 'PREVIEW' },
+      data: { status: 'COMMITTED', committedAt: new Date() },
+    });
+    if (claimed === 0) {
+      throw new BadRequestException('Import has already been committed');
+    }
+
+    const storedRows = new Map(
+      (sessionImport.rows as unknown as ParsedSessionRowDto[]).map((row) => [row.rowNumber, row]),
+    );
+
+    // Category IDs by lowercased name, created the first time a committed row needs one
+    const categoryIds = new Map<string, string>();
+
+    const result: ImportCommitResultDto = {
+      importId,
+      created: 0,
+      overwritten: 0,
+      merged: 0,
+      skipped: 0,
+      failed: [],
+      sessions: [],
+    };
+
+    // Rows are applied one by one so a single bad row does not abort the import
+    for (const { rowNumber, strategy } of dto.rows) {
+      const row = storedRows.get(rowNumber);
+
+      try {
+        if (!row) {
+          throw new Error('Row not found in import');
+        }
+        if (row.status === 'error') {
+          throw new Error(row.errors[0] || 'Row has validation errors');
+        }
+
+        const existing = row.existingSession
+          ? await this.prisma.session.findFirst({ where: { id: row.existingSession.id, userId } })
+          : null;
+
+        if (!existing) {
+          const categoryId = await this.resolveRowCategory(userId, row, categoryIds);
+          const session = await this.createFromRow(userId, importId, row, categoryId);
+          result.sessions.push(session);
+          result.created++;
+          continue;
+        }
+
+        const resolved: ImportConflictStrategy = strategy || 'skip';
+        if (resolved === 'skip') {
+          result.skipped++;
+          continue;
+        }
+
+        const categoryId = await this.resolveRowCategory(userId, row, categoryIds);
+        const session = await this.applyToExisting(importId, row, existing, resolved, categoryId);
+        result.sessions.push(session);
+        if (resolved === 'overwrite') {
+          result.overwritten++;
+        } else {
+          result.merged++;
+        }
+      } catch (error) {
+        result.failed.push({
+          rowNumber,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+
+    // Rows left out of the commit count as skipped
+    result.skipped += Math.max(sessionImport.totalRows - dto.rows.length, 0);
+
+    await this.prisma.sessionImport.update({
+      where: { id: importId },
+      data: {
+        createdCount: result.created,
+        overwrittenCount: result.overwritten,
+        mergedCount: result.merged,
+        skippedCount: result.skipped,
+        failedCount: result.failed.length,
+      },
+    });
+
+    return result;
+  }
+
+  /**
+   * List the user's committed and rolled back imports, newest first
+   */
+  async findHistory(userId: string): Promise<ImportHistoryItemDto[]> {
+    const imports = await this.prisma.sessionImport.findMany({
+      where: { userId, status: { not: 'PREVIEW' } },
+      orderBy: { createdAt: 'desc' },
+      take: HISTORY_LIMIT,
+    });
+
+    return imports.map((sessionImport) => this.transformImport(sessionImport));
+  }
+
+  /**
+   * Undo a committed import: delete the sessions it created and restore the
+   * sessions it overwrote or merged into. Sessions deleted since are ignored.
+   */
+  async rollback(userId: string, importId: string): Promise<ImportRollbackResultDto> {
+    const sessionImport = await this.findOwned(importId, userId);
+
+    if (sessionImport.status !== 'COMMITTED') {
+      throw new BadRequestException(
+        sessionImport.status === 'ROLLED_BACK'
+          ? 'Import has already been rolled back'
+          : 'Only committed imports can be rolled back',
+      );
+    }
+
+    const items = await this.prisma.sessionImportItem.findMany({
+      where: { importId, sessionId: { not: null } },
+    });
+
+    const createdIds = items
+      .filter((item) => item.action === 'CREATED')
+      .map((item) => item.sessionId as string);
+    const restores = items.filter((item) => item.action !== 'CREATED' && item.previous);
+
+    return this.prisma.$transaction(async (tx) => {
+      const { count: claimed } = await tx.sessionImport.updateMany({
+        where: { id: importId, status: 'COMMITTED' },
+        data: { status: 'ROLLED_BACK', rolledBackAt: new Date() },
+      });
+      if (claimed === 0) {
+        throw new BadRequestException('Import has already been rolled back');
+      }
+
+      const { count: deletedCount } = await tx.session.deleteMany({
+        where: { id: { in: createdIds }, userId },
+      });
+
+      let restoredCount = 0;
+      for (const item of restores) {
+        // Snapshots taken before categories were user-defined hold a fixed category value
+        const { category: _legacyCategory, ...previous } = item.previous as Record<string, unknown>;
+        const { count } = await tx.session.updateMany({
+          where: { id: item.sessionId as string, userId },
+          data: previous as unknown as SessionSnapshot,
+        });
+        restoredCount += count;
+      }
+
+      return { importId, deletedCount, restoredCount };
+    });
+  }
+
+  /**
+   * Load an import owned by the user
+   */
+  private async findOwned(importId: string, userId: string) {
+    const sessionImport = await this.prisma.sessionImport.findFirst({
+      where: { id: importId, userId },
+    });
+
+    if (!sessionImport) {
+      throw new NotFoundException(`Import with ID ${importId} not found`);
+    }
+
+    return sessionImport;
+  }
+
+  /**
+   * Flag rows whose title + scheduledFor match one of the user's sessions
+   */
+  private async detectExistingDuplicates(
+    userId: string,
+    rows: ParsedSessionRowDto[],
+  ): Promise<void> {
+    const candidates = rows.filter((row) => row.status !== 'error' && row.session.title);
+    if (candidates.length === 0) return;
+
+    const titles = [...new Set(candidates.map((row) => row.session.title.trim()))];
+    const existing = await this.prisma.session.findMany({
+      where: {
+        userId,
+        title: { in: titles, mode: 'insensitive' },
+      },
+      select: { id: true, title: true, scheduledFor: true, status: true },
+    });
+    if (existing.length === 0) return;
+
+    const keyOf = (title: string, scheduledFor?: string | Date | null) =>
+      `${title.trim().toLowerCase()}-${scheduledFor ? new Date(scheduledFor).getTime() : ''}`;
+    const byKey = new Map(existing.map((session) => [keyOf(session.title, session.scheduledFor), session]));
+
+    for (const row of candidates) {
+      const match = byKey.get(keyOf(row.session.title, row.session.scheduledFor));
+      if (!match) continue;
+
+      row.existingSession = {
+        id: match.id,
+        title: match.title,
+        scheduledFor: match.scheduledFor ? match.scheduledFor.toISOString() : null,
+        status: match.status.toLowerCase() as SessionStatus,
+      };
+      row.isDuplicate = true;
+      row.warnings.push(`Matches existing session "${match.title}"`);
+      row.status = row.status === 'success' ? 'warning' : row.status;
+    }
+  }
+
+  /**
+   * Warn about rows naming a category the user does not have yet
+   */
+  private async flagNewCategories(
+    userId: string,
+    rows: ParsedSessionRowDto[],
+  ): Promise<void> {
+    const named = rows.filter((row) => row.status !== 'error' && row.categoryName);
+    if (named.length === 0) return;
+
+    const categories = await this.prisma.category.findMany({
+      where: { userId },
+      select: { name: true },
+    });
+    const existing = new Set(categories.map((category) => category.name.toLowerCase()));
+
+    for (const row of named) {
+      if (existing.has(row.categoryName!.toLowerCase())) continue;
+      row.warnings.push(`Category "${row.categoryName}" will be created`);
+      row.status = row.status === 'success' ? 'warning' : row.status;
+    }
+  }
+
+  /**
+   * Category ID for a row's category name, creating the category on first use
+   */
+  private async resolveRowCategory(
+    userId: string,
+    row: ParsedSessionRowDto,
+    cache: Map<string, string>,
+  ): Promise<string | null> {
+    if (!row.categoryName) return null;
+
+    const key = row.categoryName.trim().toLowerCase();
+    if (!cache.has(key)) {
+      const resolved = await this.categoriesService.findOrCreateByNames(userId, [row.categoryName]);
+      const id = resolved.get(key);
+      if (id) cache.set(key, id);
+    }
+
+    return cache.get(key) ?? null;
+  }
+
+  /**
+   * Create a new session for a row and record it on the import
+   */
+  private async createFromRow(
+    userId: string,
+    importId: string,
+    row: ParsedSessionRowDto,
+    categoryId: string | null,
+  ): Promise<SessionResponse> {
+    // Goes through the regular create so imported rows follow the same rules
+    const created = await this.sessionsService.create(userId, { ...row.session, categoryId });
+
+    await this.prisma.sessionImportItem.create({
+      data: { importId, sessionId: created.id, rowNumber: row.rowNumber, action: 'CREATED' },
+    });
+
+    return created;
+  }
+
+  /**
+   * Overwrite or merge a row into an existing session, keeping a snapshot for rollback.
+   * Status and tracked time are never touched.
+   */
+  private async applyToExisting(
+    importId: string,
+    row: ParsedSessionRowDto,
+    existing: Session,
+    strategy: Exclude<ImportConflictStrategy, 'skip'>,
+    categoryId: string | null,
+  ): Promise<SessionResponse> {
+    const imported = row.session;
+    const previous: SessionSnapshot = {
+      title: existing.title,
+      description: existing.description,
+      categoryId: existing.categoryId,
+      priority: existing.priority,
+      duration: existing.duration,
+      color: existing.color,
+      tags: existing.tags,
+      notes: existing.notes,
+    };
+
+    let data: Prisma.SessionUncheckedUpdateInput;
+    if (strategy === 'overwrite') {
+      data = {
+        title: imported.title,
+        description: imported.description || null,
+        categoryId,
+        priority: (imported.priority || 'medium').toUpperCase() as any,
+        duration: imported.duration,
+        color: imported.color || null,
+        tags: imported.tags || [],
+        notes: imported.notes || null,
+      };
+    } else {
+      // Merge only fills gaps and never replaces values the user already has
+      const notes =
+        existing.notes && imported.notes && existing.notes !== imported.notes
+          ? `${existing.notes}\n\n${imported.notes}`
+          : existing.notes || imported.notes || null;
+      data = {
+        description: existing.description || imported.description || null,
+        categoryId: existing.categoryId || categoryId,
+        color: existing.color || imported.color || null,
+        tags: [...new Set([...existing.tags, ...(imported.tags || [])])],
+        notes,
+      };
+    }
+
+    const [updated] = await this.prisma.$transaction([
+      this.prisma.session.update({ where: { id: existing.id }, data, include: { ...CATEGORY_INCLUDE, ...SESSION_TASKS_INCLUDE } }),
+      this.prisma.sessionImportItem.create({
+        data: {
+          importId,
+          sessionId: existing.id,
+          rowNumber: row.rowNumber,
+          action: strategy === 'overwrite' ? 'OVERWRITTEN' : 'MERGED',
+          previous: previous as unknown as Prisma.InputJsonValue,
+        },
+      }),
+    ]);
+
+    return this.transformSession(updated);
+  }
+}
@@ -0,0 +1,183 @@
+import { Injectable, BadRequestException } from '@nestjs/common';
+import { PrismaService } from '@common/prisma/prisma.service';
+import {
+  getZonedParts,
+  startOfZonedDay,
+  zonedDayNumber,
+  zonedTimeToUtc,
+} from '@common/utils/timezone.util';
+import type {
+  DueReviewDto,
+  DueReviewsQuery,
+  SessionResponse,
+} from '@repo/shared-types';
+import { SettingsService } from '../settings/settings.service';
+import { CATEGORY_INCLUDE, toCategorySummary } from '../categories/category.util';
+import { SESSION_TASKS_INCLUDE } from '../session-tasks/session-task.util';
+import { INITIAL_EASE, nextReviewState } from './review-schedule.util';
+
+/** Local time a review starts at when the original session had no time */
+const DEFAULT_REVIEW_HOUR = 9;
+
+/** Reviews are shorter than the session they repeat */
+const MAX_REVIEW_MINUTES = 30;
+
+/** Longest look-ahead for upcoming reviews */
+const MAX_WITHIN_DAYS = 30;
+
+/** Upper bound on reviews returned by the due list */
+const MAX_DUE_REVIEWS = 100;
+
+const REVIEW_TITLE_PREFIX = 'Review: ';
+
+@Injectable()
+export class SessionReviewService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly settingsService: SettingsService,
+  ) {}
+
+  /**
+   * Transform Prisma session (UPPERCASE enums) to API response (lowercase enums)
+   */
+  private transformSession(session: any): SessionResponse {
+    const { legacyCategory: _legacyCategory, reviewOf: _reviewOf, ...fields } = session;
+    return {
+      ...fields,
+      category: toCategorySummary(session.category),
+      status: session.status.toLowerCase(),
+      priority: session.priority.toLowerCase(),
+    };
+  }
+
+  /**
+   * Plan the next review of a completed session from its latest recall
+   * rating. A chain has at most one open review: rating again moves it
+   * instead of adding another. Sessions without a rating are left alone.
+   */
+  async scheduleNext(userId: string, sessionId: string): Promise<void> {
+    const session = await this.prisma.session.findFirst({
+      where: { id: sessionId, userId },
+      include: {
+        reviewOf: true,
+        progress: {
+          where: { rating: { not: null } },
+          orderBy: [{ recordedAt: 'desc' }, { createdAt: 'desc' }],
+          take: 1,
+          select: { rating: true },
+        },
+      },
+    });
+    const rating = session?.progress[0]?.rating;
+    if (!session || session.status !== 'COMPLETED' || rating == null) return;
+
+    const settings = await this.settingsService.get(userId);
+    if (!settings.scheduleReviews) return;
+
+    const original = session.reviewOf ?? session;
+    const state = nextReviewState(
+      session.reviewRepetition !== null
+        ? {
+            repetition: session.reviewRepetition,
+            intervalDays: session.reviewIntervalDays ?? 0,
+            ease: session.reviewEase ?? INITIAL_EASE,
+          }
+        : null,
+      rating,
+    );
+
+    // Same local time of day as the original session, interval days after completion
+    const { timezone } = settings;
+    const time = original.scheduledFor
+      ? getZonedParts(original.scheduledFor, timezone)
+      : { hour: DEFAULT_REVIEW_HOUR, minute: 0 };
+    const completed = getZonedParts(session.completedAt ?? new Date(), timezone);
+    const scheduledFor = zonedTimeToUtc(
+      completed.year,
+      completed.month,
+      completed.day + state.intervalDays,
+      time.hour,
+      time.minute,
+      0,
+      timezone,
+    );
+
+    const reviewFields = {
+      scheduledFor,
+      reviewRepetition: state.repetition,
+      reviewIntervalDays: state.intervalDays,
+      reviewEase: state.ease,
+    };
+
+    const openReview = await this.prisma.session.findFirst({
+      where: {
+        userId,
+        reviewOfId: original.id,
+        id: { not: session.id },
+        status: { in: ['PLANNED', 'MISSED'] },
+      },
+      orderBy: { scheduledFor: 'asc' },
+      select: { id: true },
+    });
+
+    if (openReview) {
+      await this.prisma.session.update({
+        where: { id: openReview.id },
+        data: { ...reviewFields, status: 'PLANNED' },
+      });
+      return;
+    }
+
+    await this.prisma.session.create({
+      data: {
+        title: original.title.startsWith(REVIEW_TITLE_PREFIX)
+          ? original.title
+          : `${REVIEW_TITLE_PREFIX}${original.title}`,
+        description: original.description,
+        categoryId: original.categoryId,
+        priority: original.priority,
+        duration: Math.min(original.duration, MAX_REVIEW_MINUTES),
+        color: original.color,
+        tags: original.tags,
+        userId,
+        reviewOfId: original.id,
+        ...reviewFields,
+      },
+    });
+  }
+
+  /**
+   * Open reviews due by the end of today (or withinDays later), most overdue first
+   */
+  async findDue(userId: string, query: DueReviewsQuery = {}): Promise<DueReviewDto[]> {
+    const withinDays = query.withinDays !== undefined ? Number(query.withinDays) : 0;
+    if (!Number.isInteger(withinDays) || withinDays < 0 || withinDays > MAX_WITHIN_DAYS) {
+      throw new BadRequestException(`withinDays must be a whole number between 0 and ${MAX_WITHIN_DAYS}`);
+    }
+
+    const { timezone } = await this.settingsService.get(userId);
+    const today = zonedDayNumber(new Date(), timezone);
+
+    const sessions = await this.prisma.session.findMany({
+      where: {
+        userId,
+        reviewOfId: { not: null },
+        status: { in: ['PLANNED', 'IN_PROGRESS', 'MISSED'] },
+        scheduledFor: { lt: startOfZonedDay(today + withinDays + 1, timezone) },
+      },
+      include: {
+        ...CATEGORY_INCLUDE,
+        ...SESSION_TASKS_INCLUDE,
+        reviewOf: { select: { id: true, title: true } },
+      },
+      orderBy: { scheduledFor: 'asc' },
+      take: MAX_DUE_REVIEWS,
+    });
+
+    return sessions.map((session) => ({
+      session: this.transformSession(session),
+      original: session.reviewOf,
+      overdueDays: today - zonedDayNumber(session.scheduledFor as Date, timezone),
+    }));
+  }
+}
@@ -0,0 +1,293 @@
+import { Injectable, BadRequestException } from '@nestjs/common';
+import { PrismaService } from '@common/prisma/prisma.service';
+import { zonedTimeToUtc } from '@common/utils/timezone.util';
+import type {
+  HighlightSegment,
+  SessionResponse,
+  SessionSearchHit,
+  SessionSearchQuery,
+  SessionSearchResponse,
+} from '@repo/shared-types';
+import { Prisma } from '@prisma/client';
+import { SettingsService } from '../settings/settings.service';
+import { CategoriesService } from '../categories/categories.service';
+import { CATEGORY_INCLUDE, toCategorySummary } from '../categories/category.util';
+import { SESSION_TASKS_INCLUDE } from '../session-tasks/session-task.util';
+import { parseSearchQuery } from './search-query.util';
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 50;
+
+/** Control characters ts_headline wraps matches in; they never occur in user text */
+const HIGHLIGHT_START = '\u0002';
+const HIGHLIGHT_STOP = '\u0003';
+
+const TITLE_HEADLINE_OPTIONS = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_STOP}, HighlightAll=true`;
+const SNIPPET_HEADLINE_OPTIONS =
+  `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_STOP}, ` +
+  'MaxFragments=2, MaxWords=18, MinWords=6, FragmentDelimiter=" … "';
+
+/** Position of the last hit of a page: results are ordered by (rank, sortAt, id) descending */
+interface SearchCursor {
+  rank: number;
+  sortAt: string;
+  id: string;
+}
+
+interface RankedRow {
+  id: string;
+  rank: number;
+  sortAt: Date;
+}
+
+interface HeadlineRow {
+  id: string;
+  title: string;
+  snippet: string | null;
+}
+
+@Injectable()
+export class SessionSearchService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly settingsService: SettingsService,
+    private readonly categoriesService: CategoriesService,
+  ) {}
+
+  /**
+   * Transform Prisma session (UPPERCASE enums) to API response (lowercase enums)
+   */
+  private transformSession(session: any): SessionResponse {
+    const { legacyCategory: _legacyCategory, ...fields } = session;
+    return {
+      ...fields,
+      category: toCategorySummary(session.category),
+      status: session.status.toLowerCase(),
+      priority: session.priority.toLowerCase(),
+    };
+  }
+
+  /**
+   * Ranked full-text search over a user's sessions with operator filters
+   * and keyset pagination
+   */
+  async search(userId: string, dto: SessionSearchQuery): Promise<SessionSearchResponse> {
+    const parsed = parseSearchQuery(dto.q ?? '');
+    const limit = this.parseLimit(dto.limit);
+    const cursor = dto.cursor ? this.decodeCursor(dto.cursor) : null;
+
+    const conditions: Prisma.Sql[] = [Prisma.sql`s."userId" = ${userId}`];
+    if (parsed.tsQuery) {
+      conditions.push(Prisma.sql`s."searchVector" @@ tsq`);
+    }
+    if (parsed.tags.length > 0) {
+      conditions.push(Prisma.sql`s.tags @> ${parsed.tags}::text[]`);
+    }
+    if (parsed.categories.length > 0) {
+      const categoryIds = await this.resolveCategoryNames(userId, parsed.categories);
+      conditions.push(Prisma.sql`s."categoryId" = ANY(${categoryIds}::text[])`);
+    }
+    if (parsed.statuses.length > 0) {
+      conditions.push(
+        Prisma.sql`s.status::text = ANY(${parsed.statuses.map((s) => s.toUpperCase())})`,
+      );
+    }
+    if (parsed.before || parsed.after) {
+      const { timezone } = await this.settingsService.get(userId);
+      if (parsed.before) {
+        const start = this.startOfDay(parsed.before, timezone, 0);
+        conditions.push(Prisma.sql`s."scheduledFor" < ${start}::timestamptz AT TIME ZONE 'UTC'`);
+      }
+      if (parsed.after) {
+        const end = this.startOfDay(parsed.after, timezone, 1);
+        conditions.push(Prisma.sql`s."scheduledFor" >= ${end}::timestamptz AT TIME ZONE 'UTC'`);
+      }
+    }
+
+    if (parsed.tsQuery) {
+      await this.refreshSearchVectors(userId);
+    }
+
+    const rows = await this.prisma.$queryRaw<RankedRow[]>`
+      SELECT id, rank, "sortAt" FROM (
+        SELECT
+          s.id,
+          ${parsed.tsQuery ? Prisma.sql`ts_rank_cd(s."searchVector", tsq)` : Prisma.sql`0`}::real AS rank,
+          COALESCE(s."scheduledFor", s."createdAt") AS "sortAt"
+        FROM sessions s
+        ${parsed.tsQuery ? Prisma.sql`CROSS JOIN to_tsquery('simple', ${parsed.tsQuery}) tsq` : Prisma.empty}
+        WHERE ${Prisma.join(conditions, ' AND ')}
+      ) ranked
+      ${
+        cursor
+          ? Prisma.sql`WHERE (rank, "sortAt", id) < (${cursor.rank}::real, ${cursor.sortAt}::timestamptz AT TIME ZONE 'UTC', ${cursor.id})`
+          : Prisma.empty
+      }
+      ORDER BY rank DESC, "sortAt" DESC, id DESC
+      LIMIT ${limit + 1}
+    `;
+
+    const page = rows.slice(0, limit);
+    const ids = page.map((row) => row.id);
+
+    const [sessions, headlines] = await Promise.all([
+      this.prisma.session.findMany({
+        where: { id: { in: ids } },
+        include: { ...CATEGORY_INCLUDE, ...SESSION_TASKS_INCLUDE },
+      }),
+      parsed.tsQuery && ids.length > 0
+        ? this.findHeadlines(ids, parsed.tsQuery)
+        : Promise.resolve(new Map<string, HeadlineRow>()),
+    ]);
+    const sessionsById = new Map(sessions.map((s) => [s.id, s]));
+
+    const hits: SessionSearchHit[] = page.flatMap((row) => {
+      const session = sessionsById.get(row.id);
+      // Deleted between the two queries
+      if (!session) return [];
+      const headline = headlines.get(row.id);
+      return [
+        {
+          session: this.transformSession(session),
+          rank: Number(row.rank),
+          titleHighlight: headline ? this.toSegments(headline.title) : null,
+          snippet:
+            headline?.snippet && headline.snippet.includes(HIGHLIGHT_START)
+              ? this.toSegments(headline.snippet)
+              : null,
+        },
+      ];
+    });
+
+    const last = page[page.length - 1];
+    const { tsQuery, ...query } = parsed;
+
+    return {
+      hits,
+      nextCursor:
+        rows.length > limit && last
+          ? this.encodeCursor({ rank: Number(last.rank), sortAt: last.sortAt.toISOString(), id: last.id })
+          : null,
+      query,
+    };
+  }
+
+  /**
+   * IDs of the named categories (case-insensitive) and their subcategories
+   */
+  private async resolveCategoryNames(userId: string, names: string[]): Promise<string[]> {
+    const categories = await this.prisma.category.findMany({
+      where: { userId },
+      select: { id: true, name: true },
+    });
+    const byName = new Map(categories.map((c) => [c.name.toLowerCase(), c.id]));
+
+    const ids: string[] = [];
+    for (const name of names) {
+      const id = byName.get(name.toLowerCase());
+      if (!id) {
+        throw new BadRequestException(`Unknown category "${name}"`);
+      }
+      ids.push(id);
+    }
+
+    return this.categoriesService.withDescendants(userId, ids);
+  }
+
+  /**
+   * Rebuild search vectors of sessions changed since they were last indexed.
+   * Title and tags weigh most, then description, notes and progress notes.
+   */
+  private async refreshSearchVectors(userId: string): Promise<void> {
+    await this.prisma.$executeRaw`
+      UPDATE sessions s SET
+        "searchVector" =
+          setweight(to_tsvector('simple', coalesce(s.title, '')), 'A') ||
+          setweight(to_tsvector('simple', array_to_string(s.tags, ' ')), 'A') ||
+          setweight(to_tsvector('simple', coalesce(s.description, '')), 'B') ||
+          setweight(to_tsvector('simple', coalesce(s.notes, '')), 'C') ||
+          setweight(to_tsvector('simple', coalesce(
+            (SELECT string_agg(p.notes, ' ') FROM progress p WHERE p."sessionId" = s.id), ''
+          )), 'D'),
+        "searchIndexedAt" = s."updatedAt"
+      WHERE s."userId" = ${userId}
+        AND s."searchIndexedAt" IS DISTINCT FROM s."updatedAt"
+    `;
+  }
+
+  /**
+   * Highlighted title and best body excerpt for each hit
+   */
+  private async findHeadlines(ids: string[], tsQuery: string): Promise<Map<string, HeadlineRow>> {
+    const rows = await this.prisma.$queryRaw<HeadlineRow[]>`
+      SELECT
+        s.id,
+        ts_headline('simple', s.title, tsq, ${TITLE_HEADLINE_OPTIONS}) AS title,
+        ts_headline(
+          'simple',
+          concat_ws(' … ', s.description, s.notes,
+            (SELECT string_agg(p.notes, ' … ') FROM progress p WHERE p."sessionId" = s.id)),
+          tsq,
+          ${SNIPPET_HEADLINE_OPTIONS}
+        ) AS snippet
+      FROM sessions s
+      CROSS JOIN to_tsquery('simple', ${tsQuery}) tsq
+      WHERE s.id = ANY(${ids})
+    `;
+
+    return new Map(rows.map((row) => [row.id, row]));
+  }
+
+  /**
+   * Split ts_headline output into plain and matched segments
+   */
+  private toSegments(headline: string): HighlightSegment[] {
+    const segments: HighlightSegment[] = [];
+    for (const [index, part] of headline.split(HIGHLIGHT_START).entries()) {
+      const [matched, rest] = index === 0 ? [null, part] : part.split(HIGHLIGHT_STOP);
+      if (matched) segments.push({ text: matched, match: true });
+      if (rest) segments.push({ text: rest, match: false });
+    }
+    return segments;
+  }
+
+  /**
+   * Instant a local calendar day (YYYY-MM-DD) plus `offsetDays` starts at
+   */
+  private startOfDay(day: string, timeZone: string, offsetDays: number): string {
+    const [year, month, date] = day.split('-').map(Number);
+    return zonedTimeToUtc(year, month, date + offsetDays, 0, 0, 0, timeZone).toISOString();
+  }
+
+  private parseLimit(limit: number | string | undefined): number {
+    if (limit === undefined || limit === '') {
+      return DEFAULT_PAGE_SIZE;
+    }
+    const value = Number(limit);
+    if (!Number.isInteger(value) || value < 1 || value > MAX_PAGE_SIZE) {
+      throw new BadRequestException(`Limit must be between 1 and ${MAX_PAGE_SIZE}`);
+    }
+    return value;
+  }
+
+  private encodeCursor(cursor: SearchCursor): string {
+    return Buffer.from(JSON.stringify([cursor.rank, cursor.sortAt, cursor.id])).toString('base64url');
+  }
+
+  private decodeCursor(value: string): SearchCursor {
+    try {
+      const [rank, sortAt, id] = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+      if (
+        typeof rank === 'number' &&
+        typeof id === 'string' &&
+        typeof sortAt === 'string' &&
+        !isNaN(new Date(sortAt).getTime())
+      ) {
+        return { rank, sortAt, id };
+      }
+    } catch {
+      // Fall through to the error below
+    }
+    throw new BadRequestException('Invalid search cursor');
+  }
+}
@@ -21,6 +21,11 @@ import { Response } from 'express';
 import type { Express } from 'express';
 import { SessionsService } from './sessions.service';
 import { FileParserService } from './file-parser.service';
+import { SessionImportService } from './session-import.service';
+import { MissedSessionsService } from './missed-sessions.service';
+import { SessionSearchService } from './session-search.service';
+import { SessionReviewService } from './session-review.service';
+import { SessionConflictService } from './session-conflict.service';
 import { CurrentUser } from '../auth/decorators/current-user.decorator';
 import { Public } from '../auth/decorators/public.decorator';
 import type {
@@ -32,6 +37,7 @@ import type {
   CalendarSessionDto,
   DetailedStatsDto,
   CategoryStatsDto,
+  TagStatsDto,
   TrendDataPoint,
   BulkCreateSessionDto,
   BulkCreateResult,
@@ -41,14 +47,30 @@ import type {
   SessionSuggestionDto,
   GamificationSummaryDto,
   FileImportResultDto,
+  ParsedSessionRowDto,
+  CommitImportDto,
+  ImportCommitResultDto,
+  ImportHistoryItemDto,
+  ImportRollbackResultDto,
+  MissedSessionsResultDto,
+  SessionSearchQuery,
+  DueReviewDto,
+  DueReviewsQuery,
+  SessionConflictDto,
+  SessionConflictsQuery,
+  SessionSearchResponse,
 } from '@repo/shared-types';
-import { SessionCategory } from '@repo/shared-types';
 
 @Controller('sessions')
 export class SessionsController {
   constructor(
     private readonly sessionsService: SessionsService,
     private readonly fileParserService: FileParserService,
+    private readonly sessionImportService: SessionImportService,
+    private readonly missedSessionsService: MissedSessionsService,
+    private readonly sessionSearchService: SessionSearchService,
+    private readonly sessionReviewService: SessionReviewService,
+    private readonly sessionConflictService: SessionConflictService,
   ) {}
 
   @Post()
@@ -117,9 +139,9 @@ export class SessionsController {
     const startDate = new Date(dto.startDate);
     const endDate = new Date(dto.endDate);
 
-    const filters: Partial<SessionFilters> = {};
-    if (dto.categories) {
-      // Filter will be applied in service
+    const filters: Partial<SessionFilters> & { categoryIds?: string[] } = {};
+    if (dto.categoryIds) {
+      filters.categoryIds = Array.isArray(dto.categoryIds) ? dto.categoryIds : [dto.categoryIds];
     }
     if (dto.statuses) {
       filters.status = dto.statuses;
@@ -199,6 +221,36 @@ export class SessionsController {
     };
   }
 
+  @Get('stats/tags')
+  async getTagStats(
+    @CurrentUser('sub') userId: string,
+    @Query('startDate') startDate?: string,
+    @Query('endDate') endDate?: string,
+  ): Promise<ApiResponse<TagStatsDto[]>> {
+    const parsedStartDate = startDate ? new Date(startDate) : undefined;
+    const parsedEndDate = endDate ? new Date(endDate) : undefined;
+
+    // Validate parsed dates
+    if (parsedStartDate && isNaN(parsedStartDate.getTime())) {
+      throw new BadRequestException('Invalid startDate');
+    }
+    if (parsedEndDate && isNaN(parsedEndDate.getTime())) {
+      throw new BadRequestException('Invalid endDate');
+    }
+
+    const stats = await this.sessionsService.getTagStats(
+      userId,
+      parsedStartDate,
+      parsedEndDate,
+    );
+
+    return {
+      success: true,
+      message: 'Tag statistics retrieved successfully',
+      data: stats,
+    };
+  }
+
   @Get('stats/trends')
   async getTrendData(
     @CurrentUser('sub') userId: string,
@@ -266,22 +318,42 @@ export class SessionsController {
   @Get('search')
   async search(
     @CurrentUser('sub') userId: string,
-    @Query('q') query: string,
-  ): Promise<ApiResponse<any[]>> {
-    if (!query || query.trim().length === 0) {
-      return {
-        success: true,
-        message: 'Search query is empty',
-        data: [],
-      };
-    }
-
-    const sessions = await this.sessionsService.search(userId, query.trim());
+    @Query() query: SessionSearchQuery,
+  ): Promise<ApiResponse<SessionSearchResponse>> {
+    const results = await this.sessionSearchService.search(userId, query);
 
     return {
       success: true,
       message: 'Search completed successfully',
-      data: sessions,
+      data: results,
+    };
+  }
+
+  @Get('reviews/due')
+  async getDueReviews(
+    @CurrentUser('sub') userId: string,
+    @Query() query: DueReviewsQuery,
+  ): Promise<ApiResponse<DueReviewDto[]>> {
+    const reviews = await this.sessionReviewService.findDue(userId, query);
+
+    return {
+      success: true,
+      message: 'Due reviews retrieved successfully',
+      data: reviews,
+    };
+  }
+
+  @Get('conflicts')
+  async getConflicts(
+    @CurrentUser('sub') userId: string,
+    @Query() query: SessionConflictsQuery,
+  ): Promise<ApiResponse<SessionConflictDto[]>> {
+    const conflicts = await this.sessionConflictService.findConflicts(userId, query);
+
+    return {
+      success: true,
+      message: 'Conflicts retrieved successfully',
+      data: conflicts,
     };
   }
 
@@ -311,6 +383,19 @@ export class SessionsController {
     };
   }
 
+  @Get('imports')
+  async getImportHistory(
+    @CurrentUser('sub') userId: string,
+  ): Promise<ApiResponse<ImportHistoryItemDto[]>> {
+    const history = await this.sessionImportService.findHistory(userId);
+
+    return {
+      success: true,
+      message: 'Import history retrieved successfully',
+      data: history,
+    };
+  }
+
   @Get(':id')
   async findOne(
     @CurrentUser('sub') userId: string,
@@ -355,18 +440,18 @@ export class SessionsController {
     storage: memoryStorage(),
     limits: { fileSize: 5 * 1024 * 1024 }, // 5MB limit
     fileFilter: (_, file, cb) => {
-      const allowedMimes = ['text/csv', 'application/json', 'text/xml', 'application/xml'];
-      const allowedExtensions = /\.(csv|json|xml)$/;
+      const allowedMimes = ['text/csv', 'application/json', 'text/xml', 'application/xml', 'text/calendar'];
+      const allowedExtensions = /\.(csv|json|xml|ics)$/i;
       
       if (allowedMimes.includes(file.mimetype) || file.originalname.match(allowedExtensions)) {
         cb(null, true);
       } else {
-        cb(new BadRequestException('Only CSV, JSON, and XML files are allowed'), false);
+        cb(new BadRequestException('Only CSV, JSON, XML, and iCalendar (.ics) files are allowed'), false);
       }
     }
   }))
   async importSessions(
-    @CurrentUser('sub') _userId: string,
+    @CurrentUser('sub') userId: string,
     @UploadedFile() file: Express.Multer.File,
   ): Promise<ApiResponse<FileImportResultDto>> {
     if (!file) {
@@ -382,14 +467,14 @@ export class SessionsController {
       throw new BadRequestException('File is empty');
     }
 
-    let parsedRows: any[] = [];
+    let parsedRows: ParsedSessionRowDto[] = [];
 
     // Determine file type using both extension and mimetype (Comment 4)
     const ext = file.originalname.split('.').pop()?.toLowerCase();
     const mime = file.mimetype;
     
     // Prefer extension when mimetype is not recognized
-    const recognizedMimes = ['text/csv', 'application/json', 'text/xml', 'application/xml'];
+    const recognizedMimes = ['text/csv', 'application/json', 'text/xml', 'application/xml', 'text/calendar'];
     let fileType = '';
     
     if (recognizedMimes.includes(mime)) {
@@ -406,6 +491,9 @@ export class SessionsController {
         case 'xml':
           fileType = 'xml';
           break;
+        case 'ics':
+          fileType = 'ics';
+          break;
         default:
           throw new BadRequestException('Unsupported file format');
       }
@@ -418,6 +506,8 @@ export class SessionsController {
         parsedRows = this.fileParserService.parseJSON(content);
       } else if (fileType === 'text/xml' || fileType === 'application/xml' || fileType === 'xml') {
         parsedRows = await this.fileParserService.parseXML(content);
+      } else if (fileType === 'text/calendar' || fileType === 'ics') {
+        parsedRows = this.fileParserService.parseICS(content);
       } else {
         throw new BadRequestException('Unsupported file format');
       }
@@ -425,25 +515,19 @@ export class SessionsController {
       throw new BadRequestException(`File parsing failed: ${error.message}`);
     }
 
-    // Build response with detailed results (Comment 3 - preview-first workflow)
-    const successfulRows = parsedRows.filter(row => row.status === 'success');
-    const failedRows = parsedRows.filter(row => row.status === 'error');
-    const warningRows = parsedRows.filter(row => row.status === 'warning');
-    const duplicateRows = parsedRows.filter(row => row.isDuplicate);
-
-    const result: FileImportResultDto = {
-      summary: {
-        totalRows: parsedRows.length,
-        successfulRows: successfulRows.length,
-        failedRows: failedRows.length,
-        duplicateRows: duplicateRows.length,
-        warningRows: warningRows.length,
-      },
-      rows: parsedRows,
-      errors: failedRows.flatMap(row => row.errors),
+    // Store the preview; rows are only applied by the commit endpoint
+    const formatByMime: Record<string, string> = {
+      'text/csv': 'csv',
+      'application/json': 'json',
+      'text/xml': 'xml',
+      'application/xml': 'xml',
+      'text/calendar': 'ics',
     };
+    const format = formatByMime[fileType] || fileType;
+    const result = await this.sessionImportService.createPreview(userId, file.originalname, format, parsedRows);
+    const { successfulRows, failedRows, warningRows, duplicateRows } = result.summary;
 
-    const successMessage = `File parsing completed: ${successfulRows.length} parsed successfully, ${failedRows.length} failed to parse, ${warningRows.length} with warnings, ${duplicateRows.length} duplicates found`;
+    const successMessage = `File parsing completed: ${successfulRows} parsed successfully, ${failedRows} failed to parse, ${warningRows} with warnings, ${duplicateRows} duplicates found`;
 
     return {
       success: true,
@@ -452,6 +536,41 @@ export class SessionsController {
     };
   }
 
+  @Post('imports/:importId/commit')
+  @HttpCode(HttpStatus.OK)
+  async commitImport(
+    @CurrentUser('sub') userId: string,
+    @Param('importId', ParseUUIDPipe) importId: string,
+    @Body() dto: CommitImportDto,
+  ): Promise<ApiResponse<ImportCommitResultDto>> {
+    if (!dto.rows || !Array.isArray(dto.rows)) {
+      throw new BadRequestException('Rows to import are required');
+    }
+
+    const result = await this.sessionImportService.commit(userId, importId, dto);
+
+    return {
+      success: true,
+      message: `Import completed: ${result.created} created, ${result.overwritten} overwritten, ${result.merged} merged, ${result.skipped} skipped, ${result.failed.length} failed`,
+      data: result,
+    };
+  }
+
+  @Post('imports/:importId/rollback')
+  @HttpCode(HttpStatus.OK)
+  async rollbackImport(
+    @CurrentUser('sub') userId: string,
+    @Param('importId', ParseUUIDPipe) importId: string,
+  ): Promise<ApiResponse<ImportRollbackResultDto>> {
+    const result = await this.sessionImportService.rollback(userId, importId);
+
+    return {
+      success: true,
+      message: `Import rolled back: ${result.deletedCount} sessions removed, ${result.restoredCount} restored`,
+      data: result,
+    };
+  }
+
   @Public()
   @Get('sample/:format')
   async downloadSample(
@@ -463,12 +582,12 @@ export class SessionsController {
       throw new BadRequestException(`Invalid format. Must be one of: ${validFormats.join(', ')}`);
     }
 
-    // Sample data with valid SessionCategory enum values (Comment 5)
+    // Sample data; categories are matched by name and created on import when missing
     const sampleSessions = [
       {
         title: 'Learn React Fundamentals',
         description: 'Study React components, state, and props',
-        category: SessionCategory.PROGRAMMING,
+        category: 'Programming',
         status: 'planned',
         priority: 'high',
         duration: 120,
@@ -480,7 +599,7 @@ export class SessionsController {
       {
         title: 'French Language Practice',
         description: 'Practice French vocabulary and grammar',
-        category: SessionCategory.LANGUAGE,
+        category: 'Language',
         status: 'planned',
         priority: 'medium',
         duration: 90,
@@ -492,7 +611,7 @@ export class SessionsController {
       {
         title: 'Personal Development Reading',
         description: 'Read personal development book',
-        category: SessionCategory.PERSONAL,
+        category: 'Personal',
         status: 'planned',
         priority: 'low',
         duration: 60,
@@ -569,16 +688,17 @@ export class SessionsController {
     res.send(content);
   }
 
-  @Public()
   @Post('auto-update-missed')
   @HttpCode(HttpStatus.OK)
-  async autoUpdateMissed(): Promise<ApiResponse<any>> {
-    const count = await this.sessionsService.autoUpdateMissedSessions();
+  async autoUpdateMissed(
+    @CurrentUser('sub') userId: string,
+  ): Promise<ApiResponse<MissedSessionsResultDto>> {
+    const result = await this.missedSessionsService.processUser(userId);
 
     return {
       success: true,
-      message: `Updated ${count} sessions to MISSED status`,
-      data: { count },
+      message: `Marked ${result.markedMissed} sessions as missed, rescheduled ${result.rescheduled}`,
+      data: result,
     };
   }
 
@@ -639,9 +759,9 @@ export class SessionsController {
     @Query() filters: SessionFilters,
     @Res() res: Response,
   ): Promise<void> {
-    const validFormats: ExportFormat[] = ['csv', 'json'];
+    const validFormats: ExportFormat[] = ['csv', 'json', 'ics'];
     if (!format || !validFormats.includes(format)) {
-      throw new BadRequestException('Invalid format. Must be either "csv" or "json"');
+      throw new BadRequestException('Invalid format. Must be "csv", "json" or "ics"');
     }
 
     const content = await this.sessionsService.exportSessions(userId, format, filters);
@@ -658,6 +778,10 @@ export class SessionsController {
         contentType = 'application/json';
         filename = `sessions-export-${new Date().toISOString().split('T')[0]}.json`;
         break;
+      case 'ics':
+        contentType = 'text/calendar; charset=utf-8';
+        filename = `sessions-export-${new Date().toISOString().split('T')[0]}.ics`;
+        break;
     }
 
     res.setHeader('Content-Type', contentType);
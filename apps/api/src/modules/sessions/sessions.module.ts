@@ -1,13 +1,32 @@
 import { Module } from '@nestjs/common';
 import { SessionsController } from './sessions.controller';
+import { SeriesController } from './series.controller';
 import { SessionsService } from './sessions.service';
+import { SeriesService } from './series.service';
 import { FileParserService } from './file-parser.service';
+import { SessionImportService } from './session-import.service';
+import { MissedSessionsService } from './missed-sessions.service';
+import { SessionSearchService } from './session-search.service';
+import { SessionReviewService } from './session-review.service';
+import { SessionConflictService } from './session-conflict.service';
 import { PrismaModule } from '@common/prisma/prisma.module';
+import { SettingsModule } from '../settings/settings.module';
+import { CategoriesModule } from '../categories/categories.module';
+import { AvailabilityModule } from '../availability/availability.module';
 
 @Module({
-  imports: [PrismaModule],
-  controllers: [SessionsController],
-  providers: [SessionsService, FileParserService],
-  exports: [SessionsService],
+  imports: [PrismaModule, SettingsModule, CategoriesModule, AvailabilityModule],
+  controllers: [SessionsController, SeriesController],
+  providers: [
+    SessionsService,
+    SeriesService,
+    FileParserService,
+    SessionImportService,
+    MissedSessionsService,
+    SessionSearchService,
+    SessionReviewService,
+    SessionConflictService,
+  ],
+  exports: [SessionsService, SeriesService, SessionReviewService],
 })
 export class SessionsModule {}
@@ -11,6 +11,8 @@ import type {
   PaginationQuery,
   SessionStatsDto,
   CategoryStatsDto,
+  TagStatsDto,
+  CategoryColor,
   TrendDataPoint,
   TimeDistributionDto,
   ProductivityMetricsDto,
@@ -23,22 +25,63 @@ import type {
   SessionSuggestionDto,
   GamificationSummaryDto,
   AchievementDto,
-  RecurrencePattern,
   SessionResponse,
+  SessionStatusErrorCode,
+  SessionStatusErrorDto,
+  CategorySummaryDto,
 } from '@repo/shared-types';
-import { Prisma } from '@prisma/client';
+import {
+  SessionStatus,
+  SESSION_STATUS_TRANSITIONS,
+  canTransitionSessionStatus,
+} from '@repo/shared-types';
+import { Prisma, Session } from '@prisma/client';
+import { SeriesService } from './series.service';
+import { SessionReviewService } from './session-review.service';
+import { SessionConflictService, SessionSlot } from './session-conflict.service';
+import { buildCalendar } from '../calendar/ics.util';
+import { SettingsService } from '../settings/settings.service';
+import { CategoriesService } from '../categories/categories.service';
+import { CATEGORY_INCLUDE, toCategorySummary } from '../categories/category.util';
+import {
+  SESSION_TASKS_INCLUDE,
+  toTaskCreateRows,
+} from '../session-tasks/session-task.util';
+import {
+  dayNumberToKey,
+  formatDateKey,
+  getZonedParts,
+  zonedDayNumber,
+} from '@common/utils/timezone.util';
+
+/** Relations embedded in session responses */
+const SESSION_INCLUDE = { ...CATEGORY_INCLUDE, ...SESSION_TASKS_INCLUDE } as const;
+
+/** XP for each completed session */
+const SESSION_XP = 10;
+
+/** XP for each finished Pomodoro focus cycle */
+const POMODORO_CYCLE_XP = 2;
 
 @Injectable()
 export class SessionsService {
-  constructor(private readonly prisma: PrismaService) {}
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly seriesService: SeriesService,
+    private readonly settingsService: SettingsService,
+    private readonly categoriesService: CategoriesService,
+    private readonly sessionReviewService: SessionReviewService,
+    private readonly sessionConflictService: SessionConflictService,
+  ) {}
 
   /**
    * Transform Prisma session (UPPERCASE enums) to API response (lowercase enums)
    */
   private transformSession(session: any) {
+    const { legacyCategory: _legacyCategory, ...fields } = session;
     return {
-      ...session,
-      category: session.category.toLowerCase(),
+      ...fields,
+      category: toCategorySummary(session.category),
       status: session.status.toLowerCase().replace('_', '_'), // Keep underscore format
       priority: session.priority.toLowerCase(),
     };
@@ -60,24 +103,47 @@ export class SessionsService {
       }
     }
 
+    const categoryId = await this.categoriesService.resolveOwnedId(userId, dto.categoryId ?? null);
+    const tasks = toTaskCreateRows(dto.tasks);
+
+    // A new session starts out planned; any other status gets the side effects
+    // of changing to it, so a completed session needs its actual duration
+    const status = dto.status || SessionStatus.PLANNED;
+    const statusChanges = this.resolveStatusChange(
+      { status: 'PLANNED', startedAt: null, actualDuration: null } as Session,
+      { status, actualDuration: dto.actualDuration },
+    );
+
+    // Overlaps are rejected in strict mode and reported otherwise
+    const conflicts = await this.sessionConflictService.findOverlaps(userId, {
+      scheduledFor: dto.scheduledFor ? new Date(dto.scheduledFor) : null,
+      duration: dto.duration,
+      status: status.toUpperCase(),
+    });
+    await this.sessionConflictService.assertAllowed(userId, conflicts);
+
     // Create session with defaults
     const session = await this.prisma.session.create({
       data: {
         title: dto.title,
         description: dto.description || null,
-        category: dto.category.toUpperCase() as any,
-        status: (dto.status || 'planned').toUpperCase() as any,
+        categoryId,
+        status: status.toUpperCase() as any,
         priority: (dto.priority || 'medium').toUpperCase() as any,
         duration: dto.duration,
+        actualDuration: dto.actualDuration ?? null,
         color: dto.color || null,
         tags: dto.tags || [],
         notes: dto.notes || null,
         scheduledFor: dto.scheduledFor ? new Date(dto.scheduledFor) : null,
+        ...(statusChanges as Pick<Prisma.SessionUncheckedCreateInput, 'startedAt' | 'completedAt'>),
         userId,
+        tasks: { create: tasks },
       },
+      include: SESSION_INCLUDE,
     });
 
-    return this.transformSession(session);
+    return { ...this.transformSession(session), conflicts };
   }
 
   async findAll(
@@ -85,13 +151,21 @@ export class SessionsService {
     filters?: SessionFilters,
     pagination?: PaginationQuery,
   ) {
+    // Make sure open-ended series have occurrences up to the requested range
+    await this.seriesService.extendAll(
+      userId,
+      filters?.scheduledTo ? new Date(filters.scheduledTo) : undefined,
+    );
+
     // Build where clause
     const where: any = {
       userId,
     };
 
-    if (filters?.category) {
-      where.category = filters.category.toUpperCase() as any;
+    if (filters?.categoryId) {
+      where.categoryId = {
+        in: await this.categoriesService.withDescendants(userId, [filters.categoryId]),
+      };
     }
 
     if (filters?.status) {
@@ -144,6 +218,7 @@ export class SessionsService {
         orderBy: pagination?.sortBy
           ? { [pagination.sortBy]: pagination.sortOrder || 'desc' }
           : { createdAt: 'desc' },
+        include: SESSION_INCLUDE,
       }),
       this.prisma.session.count({ where }),
     ]);
@@ -162,6 +237,7 @@ export class SessionsService {
   async findById(id: string, userId: string) {
     const session = await this.prisma.session.findUnique({
       where: { id },
+      include: SESSION_INCLUDE,
     });
 
     if (!session || session.userId !== userId) {
@@ -175,8 +251,10 @@ export class SessionsService {
     userId: string,
     startDate: Date,
     endDate: Date,
-    filters?: Partial<SessionFilters>,
+    filters?: Partial<SessionFilters> & { categoryIds?: string[] },
   ) {
+    await this.seriesService.extendAll(userId, endDate);
+
     const where: Prisma.SessionWhereInput = {
       userId,
       scheduledFor: {
@@ -185,8 +263,14 @@ export class SessionsService {
       },
     };
 
-    if (filters?.category) {
-      where.category = filters.category.toUpperCase() as any;
+    const categoryIds = [
+      ...(filters?.categoryId ? [filters.categoryId] : []),
+      ...(filters?.categoryIds || []),
+    ];
+    if (categoryIds.length > 0) {
+      where.categoryId = {
+        in: await this.categoriesService.withDescendants(userId, categoryIds),
+      };
     }
 
     if (filters?.status) {
@@ -198,26 +282,31 @@ export class SessionsService {
     const sessions = await this.prisma.session.findMany({
       where,
       orderBy: { scheduledFor: 'asc' },
+      include: SESSION_INCLUDE,
     });
 
     return this.transformSessions(sessions);
   }
 
   async update(id: string, userId: string, dto: UpdateSessionDto) {
-    // Find session
-    const session = await this.findById(id, userId);
+    // Find session; the stored row keeps the uppercase status compared below
+    const session = await this.prisma.session.findFirst({
+      where: { id, userId },
+    });
+    if (!session) {
+      throw new NotFoundException(`Session with ID ${id} not found`);
+    }
 
-    // Validate status transitions
-    if (dto.status) {
-      const upperStatus = dto.status.toUpperCase();
-      // Auto-set completedAt when status changes to COMPLETED
-      if (upperStatus === 'COMPLETED' && !dto.completedAt) {
-        dto.completedAt = new Date().toISOString();
-      }
-      // Auto-set startedAt when status changes to IN_PROGRESS
-      if (upperStatus === 'IN_PROGRESS' && !session.startedAt && !dto.startedAt) {
-        dto.startedAt = new Date().toISOString();
-      }
+    // Validate the status change and collect its timestamp side effects
+    const statusChanges = this.resolveStatusChange(session, dto);
+    const categoryId = await this.categoriesService.resolveOwnedId(userId, dto.categoryId);
+
+    // Only changes to the time slot are rejected in strict mode, so existing
+    // overlaps do not block unrelated edits
+    const slot = this.resolveSlot(session, dto);
+    const conflicts = await this.sessionConflictService.findOverlaps(userId, slot, id);
+    if (this.changesSlot(session, slot)) {
+      await this.sessionConflictService.assertAllowed(userId, conflicts);
     }
 
     // Update session
@@ -226,7 +315,7 @@ export class SessionsService {
       data: {
         ...(dto.title && { title: dto.title }),
         ...(dto.description !== undefined && { description: dto.description }),
-        ...(dto.category && { category: dto.category.toUpperCase() as any }),
+        ...(categoryId !== undefined && { categoryId }),
         ...(dto.status && { status: dto.status.toUpperCase() as any }),
         ...(dto.priority && { priority: dto.priority.toUpperCase() as any }),
         ...(dto.duration && { duration: dto.duration }),
@@ -245,20 +334,168 @@ export class SessionsService {
         ...(dto.completedAt !== undefined && {
           completedAt: dto.completedAt ? new Date(dto.completedAt) : null,
         }),
+        ...statusChanges,
       },
+      include: SESSION_INCLUDE,
     });
 
-    return this.transformSession(updated);
+    // Moving a single occurrence turns it into an exception of its series
+    if (
+      session.seriesId &&
+      session.originalScheduledFor &&
+      dto.scheduledFor !== undefined &&
+      updated.scheduledFor?.getTime() !== session.scheduledFor?.getTime()
+    ) {
+      await this.seriesService.recordException(
+        session.seriesId,
+        session.originalScheduledFor,
+        'MOVED',
+        id,
+      );
+    }
+
+    // A completed session that already carries a recall rating gets its next review
+    if (updated.status === 'COMPLETED' && session.status !== 'COMPLETED') {
+      await this.sessionReviewService.scheduleNext(userId, id);
+    }
+
+    return { ...this.transformSession(updated), conflicts };
   }
 
   async delete(id: string, userId: string) {
     // Find session
-    await this.findById(id, userId);
+    const session = await this.findById(id, userId);
 
     // Delete session
     await this.prisma.session.delete({
       where: { id },
     });
+
+    // Keep the series from regenerating a deleted occurrence
+    if (session.seriesId && session.originalScheduledFor) {
+      await this.seriesService.recordException(
+        session.seriesId,
+        session.originalScheduledFor,
+        'CANCELLED',
+        null,
+      );
+    }
+  }
+
+  /**
+   * Check a status change against SESSION_STATUS_TRANSITIONS and return the
+   * fields it implies: startedAt when work starts, completedAt (and a missing
+   * startedAt) on completion, and clearing completedAt when leaving COMPLETED.
+   * Completing requires an actualDuration, either in the update or already stored.
+   */
+  private resolveStatusChange(
+    session: Session,
+    updates: UpdateSessionDto,
+  ): Prisma.SessionUncheckedUpdateInput {
+    if (!updates.status) return {};
+
+    const from = session.status.toLowerCase() as SessionStatus;
+    const to = updates.status;
+    if (from === to) return {};
+
+    if (!canTransitionSessionStatus(from, to)) {
+      throw this.statusError(
+        'INVALID_STATUS_TRANSITION',
+        `Cannot change status from ${from.replace('_', ' ')} to ${String(to).replace('_', ' ')}`,
+        from,
+        to,
+      );
+    }
+
+    const now = new Date();
+    const changes: Prisma.SessionUpdateInput = {};
+
+    if (from === SessionStatus.COMPLETED) {
+      changes.completedAt = null;
+    }
+
+    switch (to) {
+      case SessionStatus.IN_PROGRESS:
+        if (!session.startedAt && !updates.startedAt) {
+          changes.startedAt = now;
+        }
+        break;
+
+      case SessionStatus.COMPLETED: {
+        const actualDuration = updates.actualDuration ?? session.actualDuration;
+        if (!actualDuration || actualDuration <= 0) {
+          throw this.statusError(
+            'ACTUAL_DURATION_REQUIRED',
+            'An actual duration is required to complete a session',
+            from,
+            to,
+          );
+        }
+        const completedAt = updates.completedAt ? new Date(updates.completedAt) : now;
+        if (!updates.completedAt) {
+          changes.completedAt = completedAt;
+        }
+        if (!session.startedAt && !updates.startedAt) {
+          changes.startedAt = new Date(completedAt.getTime() - actualDuration * 60 * 1000);
+        }
+        break;
+      }
+
+      case SessionStatus.PLANNED:
+        // Back to planned means the session has not been started
+        if (!updates.startedAt) {
+          changes.startedAt = null;
+        }
+        break;
+    }
+
+    return changes;
+  }
+
+  /**
+   * Time slot and status a session will have once the updates are applied
+   */
+  private resolveSlot(session: Session, updates: UpdateSessionDto): SessionSlot {
+    let scheduledFor = session.scheduledFor;
+    if (updates.scheduledFor !== undefined) {
+      scheduledFor = updates.scheduledFor ? new Date(updates.scheduledFor) : null;
+    }
+    return {
+      scheduledFor,
+      duration: updates.duration || session.duration,
+      status: updates.status ? updates.status.toUpperCase() : session.status,
+    };
+  }
+
+  /**
+   * Whether the resolved slot differs from the one the session has now
+   */
+  private changesSlot(session: Session, slot: SessionSlot): boolean {
+    return (
+      slot.scheduledFor?.getTime() !== session.scheduledFor?.getTime() ||
+      slot.duration !== session.duration ||
+      slot.status !== session.status
+    );
+  }
+
+  /**
+   * Build the structured error returned for rejected status changes
+   */
+  private statusError(
+    code: SessionStatusErrorCode,
+    message: string,
+    from: SessionStatus,
+    to: SessionStatus,
+  ): BadRequestException {
+    const body: SessionStatusErrorDto = {
+      statusCode: 400,
+      code,
+      message,
+      from,
+      to,
+      allowed: [...(SESSION_STATUS_TRANSITIONS[from] || [])],
+    };
+    return new BadRequestException(body);
   }
 
   async getStats(
@@ -328,7 +565,7 @@ export class SessionsService {
 
     // Group all sessions by category
     const allSessionsGrouped = await this.prisma.session.groupBy({
-      by: ['category'],
+      by: ['categoryId'],
       where,
       _count: { _all: true },
       _sum: { duration: true },
@@ -336,7 +573,7 @@ export class SessionsService {
 
     // Group completed sessions by category
     const completedSessionsGrouped = await this.prisma.session.groupBy({
-      by: ['category'],
+      by: ['categoryId'],
       where: { ...where, status: 'COMPLETED' },
       _count: { _all: true },
       _sum: { duration: true, actualDuration: true },
@@ -345,7 +582,7 @@ export class SessionsService {
     // Create map for completed sessions by category
     const completedMap = new Map(
       completedSessionsGrouped.map((group) => [
-        group.category,
+        group.categoryId,
         {
           count: group._count._all,
           duration: group._sum.actualDuration || group._sum.duration || 0,
@@ -353,9 +590,18 @@ export class SessionsService {
       ]),
     );
 
+    const categories = await this.prisma.category.findMany({
+      where: {
+        userId,
+        id: { in: allSessionsGrouped.flatMap((group) => (group.categoryId ? [group.categoryId] : [])) },
+      },
+      select: CATEGORY_INCLUDE.category.select,
+    });
+    const categoryMap = new Map(categories.map((category) => [category.id, category]));
+
     // Build result
     const result: CategoryStatsDto[] = allSessionsGrouped.map((group) => {
-      const completed = completedMap.get(group.category) || {
+      const completed = completedMap.get(group.categoryId) || {
         count: 0,
         duration: 0,
       };
@@ -363,7 +609,8 @@ export class SessionsService {
       const completedSessions = completed.count;
 
       return {
-        category: group.category.toLowerCase() as any,
+        categoryId: group.categoryId,
+        category: toCategorySummary(group.categoryId ? categoryMap.get(group.categoryId) : null),
         totalSessions,
         completedSessions,
         totalDuration: group._sum.duration || 0,
@@ -378,37 +625,74 @@ export class SessionsService {
     return result;
   }
 
+  /**
+   * Planned and spent time per tag. Sessions with several tags count towards
+   * each of them, so the totals can exceed the overall totals.
+   */
+  async getTagStats(
+    userId: string,
+    startDate?: Date,
+    endDate?: Date,
+  ): Promise<TagStatsDto[]> {
+    const conditions: Prisma.Sql[] = [Prisma.sql`s."userId" = ${userId}`];
+    if (startDate) {
+      conditions.push(Prisma.sql`s."scheduledFor" >= ${startDate.toISOString()}::timestamptz AT TIME ZONE 'UTC'`);
+    }
+    if (endDate) {
+      conditions.push(Prisma.sql`s."scheduledFor" <= ${endDate.toISOString()}::timestamptz AT TIME ZONE 'UTC'`);
+    }
+
+    const [rows, metadata] = await Promise.all([
+      this.prisma.$queryRaw<Omit<TagStatsDto, 'color'>[]>`
+        SELECT
+          t.tag,
+          COUNT(*)::int AS "totalSessions",
+          (COUNT(*) FILTER (WHERE s.status = 'COMPLETED'))::int AS "completedSessions",
+          COALESCE(SUM(s.duration), 0)::int AS "totalDuration",
+          COALESCE(SUM(COALESCE(s."actualDuration", s.duration)) FILTER (WHERE s.status = 'COMPLETED'), 0)::int
+            AS "completedDuration"
+        FROM sessions s
+        CROSS JOIN LATERAL (SELECT DISTINCT unnest(s.tags) AS tag) t
+        WHERE ${Prisma.join(conditions, ' AND ')}
+        GROUP BY t.tag
+        ORDER BY "completedDuration" DESC, "totalDuration" DESC, t.tag ASC
+      `,
+      this.prisma.tag.findMany({ where: { userId }, select: { name: true, color: true } }),
+    ]);
+
+    const colors = new Map(metadata.map((tag) => [tag.name, tag.color]));
+    return rows.map((row) => ({
+      ...row,
+      color: (colors.get(row.tag) ?? 'gray') as CategoryColor,
+    }));
+  }
+
   async getTrendData(
     userId: string,
     startDate: Date,
     endDate: Date,
   ): Promise<TrendDataPoint[]> {
-    // Helper to format date as YYYY-MM-DD in local time
-    const formatLocalDate = (date: Date): string => {
-      const year = date.getFullYear();
-      const month = String(date.getMonth() + 1).padStart(2, '0');
-      const day = String(date.getDate()).padStart(2, '0');
-      return `${year}-${month}-${day}`;
-    };
-
-    const sessions = await this.prisma.session.findMany({
-      where: {
-        userId,
-        scheduledFor: {
-          gte: startDate,
-          lte: endDate,
+    const [{ timezone }, sessions] = await Promise.all([
+      this.settingsService.get(userId),
+      this.prisma.session.findMany({
+        where: {
+          userId,
+          scheduledFor: {
+            gte: startDate,
+            lte: endDate,
+          },
         },
-      },
-      orderBy: { scheduledFor: 'asc' },
-    });
+        orderBy: { scheduledFor: 'asc' },
+      }),
+    ]);
 
     // Group by date
     const dateMap = new Map<string, TrendDataPoint>();
 
-    // Generate date range using local date
-    const currentDate = new Date(startDate);
-    while (currentDate <= endDate) {
-      const dateKey = formatLocalDate(currentDate);
+    // Generate the range of calendar days in the user's time zone
+    const lastDay = zonedDayNumber(endDate, timezone);
+    for (let day = zonedDayNumber(startDate, timezone); day <= lastDay; day++) {
+      const dateKey = dayNumberToKey(day);
       dateMap.set(dateKey, {
         date: dateKey,
         planned: 0,
@@ -417,13 +701,12 @@ export class SessionsService {
         missed: 0,
         cancelled: 0,
       });
-      currentDate.setDate(currentDate.getDate() + 1);
     }
 
-    // Count sessions by status per date using local date
+    // Count sessions by status per day in the user's time zone
     sessions.forEach((session: any) => {
       if (!session.scheduledFor) return;
-      const dateKey = formatLocalDate(new Date(session.scheduledFor));
+      const dateKey = formatDateKey(session.scheduledFor, timezone);
       const point = dateMap.get(dateKey);
       if (!point) return;
 
@@ -462,7 +745,10 @@ export class SessionsService {
       if (endDate) where.scheduledFor.lte = endDate;
     }
 
-    const sessions = await this.prisma.session.findMany({ where });
+    const [settings, sessions] = await Promise.all([
+      this.settingsService.get(userId),
+      this.prisma.session.findMany({ where }),
+    ]);
 
     if (sessions.length === 0) {
       return {
@@ -471,15 +757,11 @@ export class SessionsService {
         averageSessionDuration: 0,
         longestSession: 0,
         shortestSession: 0,
-        byDayOfWeek: [
-          { day: 'Sunday', hours: 0 },
-          { day: 'Monday', hours: 0 },
-          { day: 'Tuesday', hours: 0 },
-          { day: 'Wednesday', hours: 0 },
-          { day: 'Thursday', hours: 0 },
-          { day: 'Friday', hours: 0 },
-          { day: 'Saturday', hours: 0 },
-        ],
+        byDayOfWeek: this.buildDayOfWeekHours(
+          new Map(),
+          settings.weekStartDay,
+          settings.locale,
+        ),
       };
     }
 
@@ -499,28 +781,20 @@ export class SessionsService {
     const longestSession = Math.max(...durations);
     const shortestSession = Math.min(...durations);
 
-    // Group by day of week
+    // Group by day of week in the user's time zone
     const dayMap = new Map<number, number>();
     sessions.forEach((session: any) => {
       if (session.scheduledFor) {
-        const day = session.scheduledFor.getDay();
+        const day = getZonedParts(session.scheduledFor, settings.timezone).weekday;
         dayMap.set(day, (dayMap.get(day) || 0) + session.duration / 60);
       }
     });
 
-    const dayNames = [
-      'Sunday',
-      'Monday',
-      'Tuesday',
-      'Wednesday',
-      'Thursday',
-      'Friday',
-      'Saturday',
-    ];
-    const byDayOfWeek = dayNames.map((day, index) => ({
-      day,
-      hours: Math.round((dayMap.get(index) || 0) * 100) / 100,
-    }));
+    const byDayOfWeek = this.buildDayOfWeekHours(
+      dayMap,
+      settings.weekStartDay,
+      settings.locale,
+    );
 
     return {
       totalPlannedHours: Math.round((totalPlannedMinutes / 60) * 100) / 100,
@@ -533,6 +807,29 @@ export class SessionsService {
     };
   }
 
+  /**
+   * Hours per weekday in the user's week order, with day names in their locale
+   */
+  private buildDayOfWeekHours(
+    hoursByDay: Map<number, number>,
+    weekStartDay: number,
+    locale: string,
+  ): TimeDistributionDto['byDayOfWeek'] {
+    const formatter = new Intl.DateTimeFormat(locale, {
+      weekday: 'long',
+      timeZone: 'UTC',
+    });
+
+    return Array.from({ length: 7 }, (_, offset) => {
+      const day = (weekStartDay + offset) % 7;
+      return {
+        // 2023-01-01 was a Sunday
+        day: formatter.format(new Date(Date.UTC(2023, 0, 1 + day))),
+        hours: Math.round((hoursByDay.get(day) || 0) * 100) / 100,
+      };
+    });
+  }
+
   async getProductivityMetrics(
     userId: string,
     startDate?: Date,
@@ -546,19 +843,25 @@ export class SessionsService {
       if (endDate) where.scheduledFor.lte = endDate;
     }
 
-    const sessions = await this.prisma.session.findMany({
-      where,
-      orderBy: { scheduledFor: 'asc' },
-    });
+    const [{ timezone }, sessions] = await Promise.all([
+      this.settingsService.get(userId),
+      this.prisma.session.findMany({
+        where,
+        orderBy: { scheduledFor: 'asc' },
+        include: CATEGORY_INCLUDE,
+      }),
+    ]);
 
     if (sessions.length === 0) {
       return {
         completionRate: 0,
         onTimeCompletionRate: 0,
         averageDelayDays: 0,
-        mostProductiveCategory: 'programming' as any,
+        mostProductiveCategory: null,
         mostProductiveTimeOfDay: 'morning',
         streakDays: 0,
+        pomodoroCycles: 0,
+        pomodoroFocusMinutes: 0,
       };
     }
 
@@ -567,14 +870,14 @@ export class SessionsService {
     const completionRate =
       Math.round((completed / sessions.length) * 10000) / 100;
 
-    // On-time completion
+    // On-time completion (same calendar day in the user's time zone)
     const onTimeCompleted = sessions.filter(
       (s: any) =>
         s.status === 'COMPLETED' &&
         s.scheduledFor &&
         s.completedAt &&
-        new Date(s.scheduledFor).toDateString() ===
-          new Date(s.completedAt).toDateString(),
+        formatDateKey(s.scheduledFor, timezone) ===
+          formatDateKey(s.completedAt, timezone),
     ).length;
     const onTimeCompletionRate =
       completed > 0 ? Math.round((onTimeCompleted / completed) * 10000) / 100 : 0;
@@ -597,10 +900,11 @@ export class SessionsService {
           ) / 100
         : 0;
 
-    // Most productive category
+    // Most productive category (uncategorized sessions do not compete)
     const categoryMap = new Map<string, { total: number; completed: number }>();
-    sessions.forEach((s: any) => {
-      const cat = s.category.toLowerCase();
+    sessions.forEach((s) => {
+      if (!s.category) return;
+      const cat = s.category.name;
       if (!categoryMap.has(cat)) {
         categoryMap.set(cat, { total: 0, completed: 0 });
       }
@@ -609,7 +913,7 @@ export class SessionsService {
       if (s.status === 'COMPLETED') stats.completed++;
     });
 
-    let mostProductiveCategory: any = 'other';
+    let mostProductiveCategory: string | null = null;
     let highestRate = 0;
     categoryMap.forEach((stats, cat) => {
       const rate = stats.completed / stats.total;
@@ -627,7 +931,7 @@ export class SessionsService {
 
     sessions.forEach((s: any) => {
       if (s.scheduledFor) {
-        const hour = s.scheduledFor.getHours();
+        const hour = getZonedParts(s.scheduledFor, timezone).hour;
         let timeOfDay = 'morning';
         if (hour >= 12 && hour < 18) timeOfDay = 'afternoon';
         else if (hour >= 18) timeOfDay = 'evening';
@@ -650,23 +954,22 @@ export class SessionsService {
       }
     });
 
-    // Streak calculation
-    const completedDates = sessions
-      .filter((s: any) => s.status === 'COMPLETED' && s.completedAt)
-      .map((s: any) => new Date(s.completedAt!).toDateString())
-      .filter((date: string, index: number, self: string[]) => self.indexOf(date) === index)
-      .sort();
+    // Streak calculation on calendar days in the user's time zone
+    const completedDays = Array.from(
+      new Set(
+        sessions
+          .filter((s: any) => s.status === 'COMPLETED' && s.completedAt)
+          .map((s: any) => zonedDayNumber(s.completedAt, timezone)),
+      ),
+    ).sort((a, b) => a - b);
 
     let streakDays = 0;
-    if (completedDates.length > 0) {
-      const today = new Date().toDateString();
-      if (completedDates[completedDates.length - 1] === today) {
+    if (completedDays.length > 0) {
+      const today = zonedDayNumber(new Date(), timezone);
+      if (completedDays[completedDays.length - 1] === today) {
         streakDays = 1;
-        for (let i = completedDates.length - 2; i >= 0; i--) {
-          const current = new Date(completedDates[i]);
-          const next = new Date(completedDates[i + 1]);
-          const diffDays =
-            (next.getTime() - current.getTime()) / (1000 * 60 * 60 * 24);
+        for (let i = completedDays.length - 2; i >= 0; i--) {
+          const diffDays = completedDays[i + 1] - completedDays[i];
           if (diffDays === 1) {
             streakDays++;
           } else {
@@ -676,6 +979,20 @@ export class SessionsService {
       }
     }
 
+    // Pomodoro focus cycles finished in the period
+    const cycleWhere: Prisma.PomodoroCycleWhereInput = { userId };
+    if (startDate || endDate) {
+      cycleWhere.completedAt = {
+        ...(startDate && { gte: startDate }),
+        ...(endDate && { lte: endDate }),
+      };
+    }
+    const cycles = await this.prisma.pomodoroCycle.aggregate({
+      where: cycleWhere,
+      _count: { _all: true },
+      _sum: { focusMinutes: true },
+    });
+
     return {
       completionRate,
       onTimeCompletionRate,
@@ -683,6 +1000,8 @@ export class SessionsService {
       mostProductiveCategory,
       mostProductiveTimeOfDay,
       streakDays,
+      pomodoroCycles: cycles._count._all,
+      pomodoroFocusMinutes: cycles._sum.focusMinutes ?? 0,
     };
   }
 
@@ -691,10 +1010,11 @@ export class SessionsService {
     startDate?: Date,
     endDate?: Date,
   ): Promise<DetailedStatsDto> {
-    const [overview, byCategory, trends, timeDistribution, productivity] =
+    const [overview, byCategory, byTag, trends, timeDistribution, productivity] =
       await Promise.all([
         this.getStats(userId, startDate, endDate),
         this.getCategoryStats(userId, startDate, endDate),
+        this.getTagStats(userId, startDate, endDate),
         startDate && endDate
           ? this.getTrendData(userId, startDate, endDate)
           : Promise.resolve([]),
@@ -705,61 +1025,34 @@ export class SessionsService {
     return {
       overview,
       byCategory,
+      byTag,
       trends,
       timeDistribution,
       productivity,
     };
   }
 
-  async autoUpdateMissedSessions() {
-    const now = new Date();
-
-    const result = await this.prisma.session.updateMany({
-      where: {
-        status: 'PLANNED',
-        scheduledFor: {
-          lt: now,
-        },
-      },
-      data: {
-        status: 'MISSED',
-      },
-    });
-
-    return result.count;
-  }
-
   /**
-   * Bulk create sessions with optional recurrence pattern
+   * Bulk create sessions with optional recurrence pattern.
+   * Recurring sessions are stored as a SessionSeries with linked occurrences.
    */
   async bulkCreate(
     userId: string,
     dto: BulkCreateSessionDto,
   ): Promise<BulkCreateResult> {
-    // Expand recurrence pattern if provided
-    let sessionsToCreate: CreateSessionDto[] = [];
+    let recurringSessions: CreateSessionDto[] = [];
+    let sessionsToCreate: CreateSessionDto[] = dto.sessions;
 
     if (dto.recurrence && dto.sessions.length > 0) {
       // Apply recurrence to all sessions if applyRecurrenceToAll is true
       if (dto.applyRecurrenceToAll !== false) {
-        for (const baseSession of dto.sessions) {
-          const expandedSessions = this.expandRecurrencePattern(
-            baseSession,
-            dto.recurrence,
-          );
-          sessionsToCreate.push(...expandedSessions);
-        }
+        recurringSessions = dto.sessions;
+        sessionsToCreate = [];
       } else {
         // Only apply to first session
-        const expandedSessions = this.expandRecurrencePattern(
-          dto.sessions[0],
-          dto.recurrence,
-        );
-        sessionsToCreate.push(...expandedSessions);
-        sessionsToCreate.push(...dto.sessions.slice(1));
+        recurringSessions = dto.sessions.slice(0, 1);
+        sessionsToCreate = dto.sessions.slice(1);
       }
-    } else {
-      sessionsToCreate = dto.sessions;
     }
 
     // Limit to 500 sessions
@@ -772,6 +1065,21 @@ export class SessionsService {
     const successful: SessionResponse[] = [];
     const failed: Array<{ session: CreateSessionDto; error: string }> = [];
 
+    for (const baseSession of recurringSessions) {
+      try {
+        const { sessions } = await this.seriesService.create(userId, {
+          session: baseSession,
+          recurrence: dto.recurrence!,
+        });
+        successful.push(...sessions);
+      } catch (error) {
+        failed.push({
+          session: baseSession,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+
     // Process sessions sequentially to avoid parallel queries in transaction
     // This allows partial success - some sessions can fail while others succeed
     for (const session of sessionsToCreate) {
@@ -782,15 +1090,27 @@ export class SessionsService {
           throw new Error(validation.error);
         }
 
+        const categoryId = await this.categoriesService.resolveOwnedId(
+          userId,
+          session.categoryId ?? null,
+        );
+        const status = session.status ? session.status.toUpperCase() : 'PLANNED';
+
+        // Earlier sessions of the batch are already saved and count as well
+        const conflicts = await this.sessionConflictService.findOverlaps(userId, {
+          scheduledFor: session.scheduledFor ? new Date(session.scheduledFor) : null,
+          duration: session.duration,
+          status,
+        });
+        await this.sessionConflictService.assertAllowed(userId, conflicts);
+
         // Create session
         const created = await this.prisma.session.create({
           data: {
             title: session.title,
             description: session.description || null,
-            category: session.category.toUpperCase() as any,
-            status: session.status
-              ? (session.status.toUpperCase() as any)
-              : 'PLANNED',
+            categoryId,
+            status: status as any,
             priority: session.priority
               ? (session.priority.toUpperCase() as any)
               : 'MEDIUM',
@@ -802,10 +1122,12 @@ export class SessionsService {
               ? new Date(session.scheduledFor)
               : null,
             userId,
+            tasks: { create: toTaskCreateRows(session.tasks) },
           },
+          include: SESSION_INCLUDE,
         });
 
-        successful.push(this.transformSession(created) as SessionResponse);
+        successful.push({ ...this.transformSession(created), conflicts } as SessionResponse);
       } catch (error) {
         failed.push({
           session,
@@ -822,103 +1144,6 @@ export class SessionsService {
     };
   }
 
-  /**
-   * Expand recurrence pattern into individual sessions
-   */
-  private expandRecurrencePattern(
-    baseSession: CreateSessionDto,
-    recurrence: RecurrencePattern,
-  ): CreateSessionDto[] {
-    const sessions: CreateSessionDto[] = [];
-    const startDate = baseSession.scheduledFor
-      ? new Date(baseSession.scheduledFor)
-      : new Date();
-
-    let count = 0;
-    const maxOccurrences = 365; // Safety limit
-
-    if (recurrence.frequency === 'weekly' && recurrence.daysOfWeek && recurrence.daysOfWeek.length > 0) {
-      // Special handling for weekly recurrence with specific days
-      // Compute the start of the week containing startDate
-      const weekStart = new Date(startDate);
-      weekStart.setDate(weekStart.getDate() - weekStart.getDay());
-
-      let weekIndex = 0;
-      while (count < maxOccurrences) {
-        // Compute start of current week
-        const currentWeekStart = new Date(weekStart);
-        currentWeekStart.setDate(currentWeekStart.getDate() + weekIndex * recurrence.interval * 7);
-
-        // Iterate through selected days of week
-        for (const dayOfWeek of recurrence.daysOfWeek.sort()) {
-          const occurrenceDate = new Date(currentWeekStart);
-          occurrenceDate.setDate(occurrenceDate.getDate() + dayOfWeek);
-
-          // Skip if before start date
-          if (occurrenceDate < startDate) continue;
-
-          // Check end conditions
-          if (recurrence.endType === 'date' && recurrence.endDate) {
-            const endDate = new Date(recurrence.endDate);
-            if (occurrenceDate > endDate) return sessions;
-          }
-
-          if (recurrence.endType === 'count' && recurrence.endCount) {
-            if (count >= recurrence.endCount) return sessions;
-          }
-
-          // Add session
-          sessions.push({
-            ...baseSession,
-            scheduledFor: occurrenceDate.toISOString(),
-          });
-          count++;
-
-          if (count >= maxOccurrences) return sessions;
-        }
-
-        weekIndex++;
-      }
-    } else {
-      // For daily and monthly recurrence
-      let currentDate = new Date(startDate);
-
-      while (count < maxOccurrences) {
-        // Check end conditions
-        if (recurrence.endType === 'date' && recurrence.endDate) {
-          const endDate = new Date(recurrence.endDate);
-          if (currentDate > endDate) break;
-        }
-
-        if (recurrence.endType === 'count' && recurrence.endCount) {
-          if (count >= recurrence.endCount) break;
-        }
-
-        // Add session
-        sessions.push({
-          ...baseSession,
-          scheduledFor: currentDate.toISOString(),
-        });
-        count++;
-
-        // Increment date based on frequency
-        if (recurrence.frequency === 'daily') {
-          currentDate.setDate(currentDate.getDate() + recurrence.interval);
-        } else if (recurrence.frequency === 'weekly') {
-          // Weekly without specific days - just add interval weeks
-          currentDate.setDate(currentDate.getDate() + recurrence.interval * 7);
-        } else if (recurrence.frequency === 'monthly') {
-          currentDate.setMonth(currentDate.getMonth() + recurrence.interval);
-          if (recurrence.dayOfMonth) {
-            currentDate.setDate(recurrence.dayOfMonth);
-          }
-        }
-      }
-    }
-
-    return sessions;
-  }
-
   /**
    * Validate a bulk session
    */
@@ -930,10 +1155,6 @@ export class SessionsService {
       return { valid: false, error: 'Title is required' };
     }
 
-    if (!session.category) {
-      return { valid: false, error: 'Category is required' };
-    }
-
     if (!session.duration || session.duration <= 0) {
       return { valid: false, error: 'Duration must be greater than 0' };
     }
@@ -948,26 +1169,6 @@ export class SessionsService {
     return { valid: true };
   }
 
-  /**
-   * Search sessions by query string (title, description, tags)
-   */
-  async search(userId: string, query: string): Promise<SessionResponse[]> {
-    const sessions = await this.prisma.session.findMany({
-      where: {
-        userId,
-        OR: [
-          { title: { contains: query, mode: 'insensitive' } },
-          { description: { contains: query, mode: 'insensitive' } },
-          { tags: { has: query } },
-        ],
-      },
-      orderBy: { scheduledFor: 'desc' },
-      take: 50, // Limit search results
-    });
-
-    return this.transformSessions(sessions);
-  }
-
   /**
    * Bulk update sessions
    */
@@ -977,6 +1178,7 @@ export class SessionsService {
   ): Promise<BulkOperationResult> {
     const successful: string[] = [];
     const failed: Array<{ id: string; error: string }> = [];
+    const categoryId = await this.categoriesService.resolveOwnedId(userId, dto.updates.categoryId);
 
     for (const sessionId of dto.sessionIds) {
       try {
@@ -990,11 +1192,20 @@ export class SessionsService {
           continue;
         }
 
+        const statusChanges = this.resolveStatusChange(session, dto.updates);
+        const slot = this.resolveSlot(session, dto.updates);
+        if (this.changesSlot(session, slot)) {
+          await this.sessionConflictService.assertAllowed(
+            userId,
+            await this.sessionConflictService.findOverlaps(userId, slot, sessionId),
+          );
+        }
+
         // Prepare update data
         const updateData: any = {};
         if (dto.updates.title !== undefined) updateData.title = dto.updates.title;
         if (dto.updates.description !== undefined) updateData.description = dto.updates.description;
-        if (dto.updates.category !== undefined) updateData.category = dto.updates.category.toUpperCase();
+        if (categoryId !== undefined) updateData.categoryId = categoryId;
         if (dto.updates.status !== undefined) updateData.status = dto.updates.status.toUpperCase();
         if (dto.updates.priority !== undefined) updateData.priority = dto.updates.priority.toUpperCase();
         if (dto.updates.duration !== undefined) updateData.duration = dto.updates.duration;
@@ -1011,17 +1222,38 @@ export class SessionsService {
         if (dto.updates.completedAt !== undefined) {
           updateData.completedAt = dto.updates.completedAt ? new Date(dto.updates.completedAt) : null;
         }
+        Object.assign(updateData, statusChanges);
 
-        await this.prisma.session.update({
+        const updated = await this.prisma.session.update({
           where: { id: sessionId },
           data: updateData,
         });
 
+        if (
+          session.seriesId &&
+          session.originalScheduledFor &&
+          updated.scheduledFor?.getTime() !== session.scheduledFor?.getTime()
+        ) {
+          await this.seriesService.recordException(
+            session.seriesId,
+            session.originalScheduledFor,
+            'MOVED',
+            sessionId,
+          );
+        }
+
+        if (updated.status === 'COMPLETED' && session.status !== 'COMPLETED') {
+          await this.sessionReviewService.scheduleNext(userId, sessionId);
+        }
+
         successful.push(sessionId);
       } catch (error) {
         failed.push({
           id: sessionId,
           error: error instanceof Error ? error.message : 'Unknown error',
+          ...(error instanceof BadRequestException && {
+            code: (error.getResponse() as Partial<SessionStatusErrorDto>).code,
+          }),
         });
       }
     }
@@ -1045,16 +1277,28 @@ export class SessionsService {
 
     for (const sessionId of sessionIds) {
       try {
-        // Verify ownership and delete
-        const result = await this.prisma.session.deleteMany({
+        // Verify ownership
+        const session = await this.prisma.session.findFirst({
           where: { id: sessionId, userId },
         });
 
-        if (result.count === 0) {
+        if (!session) {
           failed.push({ id: sessionId, error: 'Session not found or access denied' });
-        } else {
-          successful.push(sessionId);
+          continue;
+        }
+
+        await this.prisma.session.delete({ where: { id: sessionId } });
+
+        if (session.seriesId && session.originalScheduledFor) {
+          await this.seriesService.recordException(
+            session.seriesId,
+            session.originalScheduledFor,
+            'CANCELLED',
+            null,
+          );
         }
+
+        successful.push(sessionId);
       } catch (error) {
         failed.push({
           id: sessionId,
@@ -1071,13 +1315,45 @@ export class SessionsService {
   }
 
   /**
-   * Export sessions to CSV or JSON
+   * Export sessions to CSV, JSON or iCalendar
    */
   async exportSessions(
     userId: string,
     format: ExportFormat,
     filters?: SessionFilters,
   ): Promise<string> {
+    if (format === 'ics') {
+      // Calendar export covers every scheduled session in range, not just one page
+      const where: Prisma.SessionWhereInput = {
+        userId,
+        scheduledFor: {
+          not: null,
+          ...(filters?.scheduledFrom && { gte: new Date(filters.scheduledFrom) }),
+          ...(filters?.scheduledTo && { lte: new Date(filters.scheduledTo) }),
+        },
+      };
+
+      if (filters?.categoryId) {
+        where.categoryId = {
+          in: await this.categoriesService.withDescendants(userId, [filters.categoryId]),
+        };
+      }
+
+      if (filters?.status) {
+        where.status = Array.isArray(filters.status)
+          ? { in: filters.status.map((s) => s.toUpperCase() as any) }
+          : (filters.status.toUpperCase() as any);
+      }
+
+      const sessions = await this.prisma.session.findMany({
+        where,
+        orderBy: { scheduledFor: 'asc' },
+        include: CATEGORY_INCLUDE,
+      });
+
+      return buildCalendar(sessions, { name: 'Learn Sessions' });
+    }
+
     // Fetch sessions with filters
     const result = await this.findAll(userId, filters);
     const sessions = result.data;
@@ -1117,7 +1393,7 @@ export class SessionsService {
           escapeCSV(session.id),
           escapeCSV(session.title),
           escapeCSV(session.description),
-          escapeCSV(session.category),
+          escapeCSV(session.category?.name),
           escapeCSV(session.status),
           escapeCSV(session.priority),
           escapeCSV(session.duration),
@@ -1146,6 +1422,7 @@ export class SessionsService {
     const sessions = await this.prisma.session.findMany({
       where: { userId },
       orderBy: { createdAt: 'desc' },
+      include: CATEGORY_INCLUDE,
     });
 
     if (sessions.length === 0) {
@@ -1154,14 +1431,24 @@ export class SessionsService {
 
     const suggestions: SessionSuggestionDto[] = [];
 
-    // Analyze patterns
+    // Analyze patterns, keyed by category ID (uncategorized sessions are skipped)
     const categoryFrequency = new Map<string, number>();
     const categoryDurations = new Map<string, number[]>();
+    const categoriesById = new Map<string, CategorySummaryDto>();
     const tagFrequency = new Map<string, number>();
 
     sessions.forEach((session) => {
+      // Tag frequency
+      session.tags.forEach((tag) => {
+        tagFrequency.set(tag, (tagFrequency.get(tag) || 0) + 1);
+      });
+
+      const category = toCategorySummary(session.category);
+      if (!category) return;
+      const cat = category.id;
+      categoriesById.set(cat, category);
+
       // Category frequency
-      const cat = session.category.toLowerCase();
       categoryFrequency.set(cat, (categoryFrequency.get(cat) || 0) + 1);
 
       // Category average duration
@@ -1169,11 +1456,6 @@ export class SessionsService {
         categoryDurations.set(cat, []);
       }
       categoryDurations.get(cat)!.push(session.duration);
-
-      // Tag frequency
-      session.tags.forEach((tag) => {
-        tagFrequency.set(tag, (tagFrequency.get(tag) || 0) + 1);
-      });
     });
 
     // Get most common categories
@@ -1190,16 +1472,17 @@ export class SessionsService {
 
       // Find common tags for this category
       const categoryTags = sessions
-        .filter((s) => s.category.toLowerCase() === category)
+        .filter((s) => s.categoryId === category)
         .flatMap((s) => s.tags);
       const uniqueTags = Array.from(new Set(categoryTags)).slice(0, 3);
+      const { name } = categoriesById.get(category)!;
 
       suggestions.push({
-        suggestedTitle: `${category.charAt(0).toUpperCase() + category.slice(1)} Session`,
-        suggestedCategory: category as any,
+        suggestedTitle: `${name} Session`,
+        suggestedCategory: categoriesById.get(category)!,
         suggestedDuration: avgDuration,
         suggestedTags: uniqueTags,
-        reason: `You often study ${category} for ${avgDuration} minutes (${count} sessions)`,
+        reason: `You often study ${name} for ${avgDuration} minutes (${count} sessions)`,
         confidence: Math.min(count / sessions.length, 0.9),
       });
     }
@@ -1208,11 +1491,11 @@ export class SessionsService {
     const twoWeeksAgo = new Date();
     twoWeeksAgo.setDate(twoWeeksAgo.getDate() - 14);
 
-    const allCategories = new Set(sessions.map((s) => s.category.toLowerCase()));
+    const allCategories = new Set(categoriesById.keys());
     const recentCategories = new Set(
       sessions
         .filter((s) => new Date(s.createdAt) > twoWeeksAgo)
-        .map((s) => s.category.toLowerCase()),
+        .map((s) => s.categoryId),
     );
 
     for (const category of allCategories) {
@@ -1222,12 +1505,14 @@ export class SessionsService {
           durations.reduce((sum, d) => sum + d, 0) / durations.length,
         );
 
+        const { name } = categoriesById.get(category)!;
+
         suggestions.push({
-          suggestedTitle: `Review ${category.charAt(0).toUpperCase() + category.slice(1)}`,
-          suggestedCategory: category as any,
+          suggestedTitle: `Review ${name}`,
+          suggestedCategory: categoriesById.get(category)!,
           suggestedDuration: avgDuration,
           suggestedTags: [],
-          reason: `You haven't practiced ${category} in over 2 weeks`,
+          reason: `You haven't practiced ${name} in over 2 weeks`,
           confidence: 0.7,
         });
       }
@@ -1240,10 +1525,19 @@ export class SessionsService {
    * Get gamification summary (achievements, streaks, level)
    */
   async getGamificationSummary(userId: string): Promise<GamificationSummaryDto> {
-    const sessions = await this.prisma.session.findMany({
-      where: { userId },
-      orderBy: { completedAt: 'desc' },
-    });
+    const [{ timezone }, sessions, pomodoroCycles] = await Promise.all([
+      this.settingsService.get(userId),
+      this.prisma.session.findMany({
+        where: { userId },
+        orderBy: { completedAt: 'desc' },
+      }),
+      this.prisma.pomodoroCycle.findMany({
+        where: { userId },
+        select: { completedAt: true },
+        orderBy: { completedAt: 'asc' },
+      }),
+    ]);
+    const totalCycles = pomodoroCycles.length;
 
     const completedSessions = sessions.filter((s) => s.status === 'COMPLETED');
     const totalCompleted = completedSessions.length;
@@ -1252,30 +1546,25 @@ export class SessionsService {
     let currentStreak = 0;
     let longestStreak = 0;
     let tempStreak = 0;
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
 
+    // Calendar days with a completion in the user's time zone, newest first
     const completedDates = completedSessions
       .filter((s) => s.completedAt)
-      .map((s) => {
-        const date = new Date(s.completedAt!);
-        date.setHours(0, 0, 0, 0);
-        return date.getTime();
-      })
+      .map((s) => zonedDayNumber(s.completedAt!, timezone))
       .sort((a, b) => b - a);
 
     const uniqueDates = Array.from(new Set(completedDates));
 
     if (uniqueDates.length > 0) {
-      const todayTime = today.getTime();
-      const yesterdayTime = todayTime - 24 * 60 * 60 * 1000;
+      const todayTime = zonedDayNumber(new Date(), timezone);
+      const yesterdayTime = todayTime - 1;
 
       if (uniqueDates[0] === todayTime || uniqueDates[0] === yesterdayTime) {
         currentStreak = 1;
         let lastDate = uniqueDates[0];
 
         for (let i = 1; i < uniqueDates.length; i++) {
-          const dayDiff = (lastDate - uniqueDates[i]) / (24 * 60 * 60 * 1000);
+          const dayDiff = lastDate - uniqueDates[i];
           if (dayDiff === 1) {
             currentStreak++;
             lastDate = uniqueDates[i];
@@ -1288,7 +1577,7 @@ export class SessionsService {
       // Calculate longest streak
       tempStreak = 1;
       for (let i = 1; i < uniqueDates.length; i++) {
-        const dayDiff = (uniqueDates[i - 1] - uniqueDates[i]) / (24 * 60 * 60 * 1000);
+        const dayDiff = uniqueDates[i - 1] - uniqueDates[i];
         if (dayDiff === 1) {
           tempStreak++;
           longestStreak = Math.max(longestStreak, tempStreak);
@@ -1355,17 +1644,28 @@ export class SessionsService {
         progress: Math.min(longestStreak / 30, 1) * 100,
         category: 'Consistency',
       },
+      {
+        id: 'twenty-five-pomodoros',
+        name: 'In the Zone',
+        description: 'Finish 25 Pomodoro focus cycles',
+        icon: 'Timer',
+        unlockedAt: totalCycles >= 25 ? pomodoroCycles[24].completedAt.toISOString() : null,
+        progress: Math.min(totalCycles / 25, 1) * 100,
+        category: 'Focus',
+      },
     ];
 
-    // Calculate level and XP
-    const level = Math.floor(totalCompleted / 10) + 1;
-    const experiencePoints = totalCompleted * 10;
+    // Calculate level and XP (every 100 XP is a level)
+    const experiencePoints =
+      totalCompleted * SESSION_XP + totalCycles * POMODORO_CYCLE_XP;
+    const level = Math.floor(experiencePoints / 100) + 1;
     const nextLevelThreshold = level * 10 * 10;
 
     return {
       currentStreak,
       longestStreak,
       totalSessionsCompleted: totalCompleted,
+      totalPomodoroCycles: totalCycles,
       achievements,
       level,
       experiencePoints,
@@ -0,0 +1,40 @@
+import { Controller, Get, Patch, Body } from '@nestjs/common';
+import { SettingsService } from './settings.service';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import type {
+  ApiResponse,
+  UserSettingsDto,
+  UpdateUserSettingsDto,
+} from '@repo/shared-types';
+
+@Controller('settings')
+export class SettingsController {
+  constructor(private readonly settingsService: SettingsService) {}
+
+  @Get()
+  async get(
+    @CurrentUser('sub') userId: string,
+  ): Promise<ApiResponse<UserSettingsDto>> {
+    const settings = await this.settingsService.get(userId);
+
+    return {
+      success: true,
+      message: 'Settings retrieved successfully',
+      data: settings,
+    };
+  }
+
+  @Patch()
+  async update(
+    @CurrentUser('sub') userId: string,
+    @Body() dto: UpdateUserSettingsDto,
+  ): Promise<ApiResponse<UserSettingsDto>> {
+    const settings = await this.settingsService.update(userId, dto || {});
+
+    return {
+      success: true,
+      message: 'Settings updated successfully',
+      data: settings,
+    };
+  }
+}
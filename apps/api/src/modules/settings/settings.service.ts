@@ -0,0 +1,146 @@
+import { Injectable, BadRequestException } from '@nestjs/common';
+import { PrismaService } from '@common/prisma/prisma.service';
+import { isKnownTimeZone } from '@common/utils/timezone.util';
+import type {
+  UserSettingsDto,
+  UpdateUserSettingsDto,
+} from '@repo/shared-types';
+import { UserSettings } from '@prisma/client';
+
+/** Settings used until the user saves their own */
+const DEFAULT_SETTINGS: UserSettingsDto = {
+  timezone: 'UTC',
+  weekStartDay: 0,
+  locale: 'en-US',
+  missedGraceMinutes: 60,
+  autoRescheduleMissed: false,
+  scheduleReviews: true,
+  strictScheduling: false,
+};
+
+/** Longest grace period before a session counts as missed (one week) */
+const MAX_GRACE_MINUTES = 7 * 24 * 60;
+
+@Injectable()
+export class SettingsService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Transform Prisma settings to API response
+   */
+  private transformSettings(settings: UserSettings): UserSettingsDto {
+    return {
+      timezone: settings.timezone,
+      weekStartDay: settings.weekStartDay,
+      locale: settings.locale,
+      missedGraceMinutes: settings.missedGraceMinutes,
+      autoRescheduleMissed: settings.autoRescheduleMissed,
+      scheduleReviews: settings.scheduleReviews,
+      strictScheduling: settings.strictScheduling,
+    };
+  }
+
+  /**
+   * Check that a locale is a valid BCP 47 tag the runtime can format for
+   */
+  private isSupportedLocale(locale: string): boolean {
+    try {
+      return (
+        typeof locale === 'string' &&
+        Intl.DateTimeFormat.supportedLocalesOf(locale).length > 0
+      );
+    } catch {
+      return false;
+    }
+  }
+
+  async get(userId: string): Promise<UserSettingsDto> {
+    const settings = await this.prisma.userSettings.findUnique({
+      where: { userId },
+    });
+
+    return settings ? this.transformSettings(settings) : { ...DEFAULT_SETTINGS };
+  }
+
+  async update(
+    userId: string,
+    dto: UpdateUserSettingsDto,
+  ): Promise<UserSettingsDto> {
+    if (dto.timezone !== undefined && !isKnownTimeZone(dto.timezone)) {
+      throw new BadRequestException(`Unknown time zone: ${dto.timezone}`);
+    }
+
+    if (
+      dto.weekStartDay !== undefined &&
+      (!Number.isInteger(dto.weekStartDay) ||
+        dto.weekStartDay < 0 ||
+        dto.weekStartDay > 6)
+    ) {
+      throw new BadRequestException(
+        'weekStartDay must be between 0 (Sunday) and 6 (Saturday)',
+      );
+    }
+
+    if (dto.locale !== undefined && !this.isSupportedLocale(dto.locale)) {
+      throw new BadRequestException(`Unsupported locale: ${dto.locale}`);
+    }
+
+    if (
+      dto.missedGraceMinutes !== undefined &&
+      (!Number.isInteger(dto.missedGraceMinutes) ||
+        dto.missedGraceMinutes < 0 ||
+        dto.missedGraceMinutes > MAX_GRACE_MINUTES)
+    ) {
+      throw new BadRequestException(
+        `missedGraceMinutes must be a whole number between 0 and ${MAX_GRACE_MINUTES}`,
+      );
+    }
+
+    if (
+      dto.autoRescheduleMissed !== undefined &&
+      typeof dto.autoRescheduleMissed !== 'boolean'
+    ) {
+      throw new BadRequestException('autoRescheduleMissed must be a boolean');
+    }
+
+    if (
+      dto.scheduleReviews !== undefined &&
+      typeof dto.scheduleReviews !== 'boolean'
+    ) {
+      throw new BadRequestException('scheduleReviews must be a boolean');
+    }
+
+    if (
+      dto.strictScheduling !== undefined &&
+      typeof dto.strictScheduling !== 'boolean'
+    ) {
+      throw new BadRequestException('strictScheduling must be a boolean');
+    }
+
+    const data = {
+      ...(dto.timezone !== undefined && { timezone: dto.timezone }),
+      ...(dto.weekStartDay !== undefined && { weekStartDay: dto.weekStartDay }),
+      ...(dto.locale !== undefined && { locale: dto.locale }),
+      ...(dto.missedGraceMinutes !== undefined && {
+        missedGraceMinutes: dto.missedGraceMinutes,
+      }),
+      ...(dto.autoRescheduleMissed !== undefined && {
+        autoRescheduleMissed: dto.autoRescheduleMissed,
+      }),
+      ...(dto.scheduleReviews !== undefined && {
+        scheduleReviews: dto.scheduleReviews,
+      }),
+      ...(dto.strictScheduling !== undefined && {
+        strictScheduling: dto.strictScheduling,
+      }),
+    };
+
+    const settings = await this.prisma.userSettings.upsert({
+      where: { userId },
+      create: { ...DEFAULT_SETTINGS, ...data, userId },
+      update: data,
+    });
+
+    return this.transformSettings(settings);
+  }
+}
@@ -0,0 +1,76 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { TagsService } from './tags.service';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import type {
+  ApiResponse,
+  TagResponse,
+  UpdateTagDto,
+  MergeTagsDto,
+} from '@repo/shared-types';
+
+@Controller('tags')
+export class TagsController {
+  constructor(private readonly tagsService: TagsService) {}
+
+  @Get()
+  async findAll(
+    @CurrentUser('sub') userId: string,
+  ): Promise<ApiResponse<TagResponse[]>> {
+    const tags = await this.tagsService.findAll(userId);
+
+    return {
+      success: true,
+      message: 'Tags retrieved successfully',
+      data: tags,
+    };
+  }
+
+  @Post('merge')
+  @HttpCode(HttpStatus.OK)
+  async merge(
+    @CurrentUser('sub') userId: string,
+    @Body() dto: MergeTagsDto,
+  ): Promise<ApiResponse<TagResponse>> {
+    const tag = await this.tagsService.merge(userId, dto);
+
+    return {
+      success: true,
+      message: 'Tags merged successfully',
+      data: tag,
+    };
+  }
+
+  @Patch(':name')
+  async update(
+    @CurrentUser('sub') userId: string,
+    @Param('name') name: string,
+    @Body() dto: UpdateTagDto,
+  ): Promise<ApiResponse<TagResponse>> {
+    const tag = await this.tagsService.update(userId, name, dto);
+
+    return {
+      success: true,
+      message: 'Tag updated successfully',
+      data: tag,
+    };
+  }
+
+  @Delete(':name')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async delete(
+    @CurrentUser('sub') userId: string,
+    @Param('name') name: string,
+  ): Promise<void> {
+    await this.tagsService.remove(userId, name);
+  }
+}
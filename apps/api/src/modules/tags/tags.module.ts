@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { TagsController } from './tags.controller';
+import { TagsService } from './tags.service';
+import { PrismaModule } from '@common/prisma/prisma.module';
+
+@Module({
+  imports: [PrismaModule],
+  controllers: [TagsController],
+  providers: [TagsService],
+  exports: [TagsService],
+})
+export class TagsModule {}
@@ -0,0 +1,239 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '@common/prisma/prisma.service';
+import type {
+  CategoryColor,
+  TagResponse,
+  UpdateTagDto,
+  MergeTagsDto,
+} from '@repo/shared-types';
+import { CATEGORY_COLORS } from '@repo/shared-types';
+
+/** Longest allowed tag name */
+const MAX_NAME_LENGTH = 50;
+
+/** Most tags that can be merged in one request */
+const MAX_MERGE_SOURCES = 50;
+
+/** Tables whose tags column holds tag names */
+const TAGGED_TABLES = ['sessions', 'session_series', 'session_templates'] as const;
+
+interface TagUsageRow {
+  name: string;
+  sessionCount: number;
+  templateCount: number;
+}
+
+type TransactionClient = Prisma.TransactionClient;
+
+@Injectable()
+export class TagsService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * All tags used on the user's sessions, series or templates, plus tags that
+   * only have stored metadata, most used first
+   */
+  async findAll(userId: string): Promise<TagResponse[]> {
+    const [usage, metadata] = await Promise.all([
+      this.prisma.$queryRaw<TagUsageRow[]>`
+        SELECT name, SUM(sessions)::int AS "sessionCount", SUM(templates)::int AS "templateCount"
+        FROM (
+          SELECT t.tag AS name, COUNT(DISTINCT s.id) AS sessions, 0 AS templates
+          FROM sessions s CROSS JOIN LATERAL unnest(s.tags) AS t(tag)
+          WHERE s."userId" = ${userId}
+          GROUP BY t.tag
+          UNION ALL
+          SELECT t.tag, 0, COUNT(DISTINCT st.id)
+          FROM session_templates st CROSS JOIN LATERAL unnest(st.tags) AS t(tag)
+          WHERE st."userId" = ${userId}
+          GROUP BY t.tag
+          UNION ALL
+          SELECT DISTINCT t.tag, 0, 0
+          FROM session_series ss CROSS JOIN LATERAL unnest(ss.tags) AS t(tag)
+          WHERE ss."userId" = ${userId}
+          UNION ALL
+          SELECT name, 0, 0 FROM tags WHERE "userId" = ${userId}
+        ) usage
+        GROUP BY name
+        ORDER BY "sessionCount" DESC, "templateCount" DESC, name ASC
+      `,
+      this.prisma.tag.findMany({ where: { userId }, select: { name: true, color: true } }),
+    ]);
+
+    const colors = new Map(metadata.map((tag) => [tag.name, tag.color]));
+    return usage.map((row) => ({
+      name: row.name,
+      color: (colors.get(row.name) ?? 'gray') as CategoryColor,
+      sessionCount: row.sessionCount,
+      templateCount: row.templateCount,
+    }));
+  }
+
+  /**
+   * Rename a tag everywhere it is used and/or change its color
+   */
+  async update(userId: string, name: string, dto: UpdateTagDto): Promise<TagResponse> {
+    this.validateColor(dto?.color);
+    if (!(await this.exists(userId, name))) {
+      throw new NotFoundException(`Tag "${name}" not found`);
+    }
+
+    const newName = dto.name !== undefined ? this.validateName(dto.name) : name;
+    if (newName !== name && (await this.exists(userId, newName))) {
+      throw new ConflictException(`Tag "${newName}" already exists, merge the tags instead`);
+    }
+
+    await this.prisma.$transaction(async (tx) => {
+      if (newName !== name) {
+        await this.replaceTag(tx, userId, name, newName);
+        await tx.tag.updateMany({ where: { userId, name }, data: { name: newName } });
+      }
+      if (dto.color) {
+        await tx.tag.upsert({
+          where: { userId_name: { userId, name: newName } },
+          create: { userId, name: newName, color: dto.color },
+          update: { color: dto.color },
+        });
+      }
+    });
+
+    return this.findOne(userId, newName);
+  }
+
+  /**
+   * Replace every source tag with the target. Sessions that carry several of
+   * them end up with the target once. The target keeps its color, or takes
+   * the first colored source's color if it has none.
+   */
+  async merge(userId: string, dto: MergeTagsDto): Promise<TagResponse> {
+    const target = this.validateName(dto?.target);
+    if (!Array.isArray(dto.sources) || dto.sources.length === 0) {
+      throw new BadRequestException('At least one source tag is required');
+    }
+    if (dto.sources.length > MAX_MERGE_SOURCES) {
+      throw new BadRequestException(`Cannot merge more than ${MAX_MERGE_SOURCES} tags at once`);
+    }
+
+    const sources = [...new Set(dto.sources)].filter((source) => source !== target);
+    for (const source of sources) {
+      if (typeof source !== 'string' || !(await this.exists(userId, source))) {
+        throw new NotFoundException(`Tag "${source}" not found`);
+      }
+    }
+
+    await this.prisma.$transaction(async (tx) => {
+      for (const source of sources) {
+        await this.replaceTag(tx, userId, source, target);
+      }
+
+      const sourceMetadata = await tx.tag.findMany({
+        where: { userId, name: { in: sources } },
+        orderBy: { createdAt: 'asc' },
+      });
+      const hasTarget = await tx.tag.findUnique({
+        where: { userId_name: { userId, name: target } },
+      });
+      if (!hasTarget && sourceMetadata.length > 0) {
+        await tx.tag.create({
+          data: { userId, name: target, color: sourceMetadata[0].color },
+        });
+      }
+      await tx.tag.deleteMany({ where: { userId, name: { in: sources } } });
+    });
+
+    return this.findOne(userId, target);
+  }
+
+  /**
+   * Remove a tag from all sessions, series and templates and drop its metadata
+   */
+  async remove(userId: string, name: string): Promise<void> {
+    if (!(await this.exists(userId, name))) {
+      throw new NotFoundException(`Tag "${name}" not found`);
+    }
+
+    await this.prisma.$transaction(async (tx) => {
+      for (const table of TAGGED_TABLES) {
+        await tx.$executeRaw`
+          UPDATE ${Prisma.raw(`"${table}"`)}
+          SET tags = array_remove(tags, ${name}), "updatedAt" = CURRENT_TIMESTAMP
+          WHERE "userId" = ${userId} AND ${name} = ANY(tags)
+        `;
+      }
+      await tx.tag.deleteMany({ where: { userId, name } });
+    });
+  }
+
+  private async findOne(userId: string, name: string): Promise<TagResponse> {
+    const tags = await this.findAll(userId);
+    return (
+      tags.find((tag) => tag.name === name) ?? {
+        name,
+        color: 'gray',
+        sessionCount: 0,
+        templateCount: 0,
+      }
+    );
+  }
+
+  /**
+   * Whether the tag is used anywhere or has stored metadata
+   */
+  private async exists(userId: string, name: string): Promise<boolean> {
+    const where = { userId, tags: { has: name } };
+    const counts = await Promise.all([
+      this.prisma.session.count({ where }),
+      this.prisma.sessionSeries.count({ where }),
+      this.prisma.sessionTemplate.count({ where }),
+      this.prisma.tag.count({ where: { userId, name } }),
+    ]);
+    return counts.some((count) => count > 0);
+  }
+
+  /**
+   * Swap one tag name for another in every tags column, dropping the old name
+   * where the new one is already present. Bumps updatedAt so the session
+   * search index picks up the change.
+   */
+  private async replaceTag(tx: TransactionClient, userId: string, from: string, to: string) {
+    for (const table of TAGGED_TABLES) {
+      await tx.$executeRaw`
+        UPDATE ${Prisma.raw(`"${table}"`)}
+        SET
+          tags = CASE
+            WHEN ${to} = ANY(tags) THEN array_remove(tags, ${from})
+            ELSE array_replace(tags, ${from}, ${to})
+          END,
+          "updatedAt" = CURRENT_TIMESTAMP
+        WHERE "userId" = ${userId} AND ${from} = ANY(tags)
+      `;
+    }
+  }
+
+  private validateName(name: unknown): string {
+    const trimmed = typeof name === 'string' ? name.trim() : '';
+    if (!trimmed) {
+      throw new BadRequestException('Tag name is required');
+    }
+    if (trimmed.length > MAX_NAME_LENGTH) {
+      throw new BadRequestException(`Tag name must be at most ${MAX_NAME_LENGTH} characters`);
+    }
+    // CSV export joins tags with commas
+    if (trimmed.includes(',')) {
+      throw new BadRequestException('Tag name cannot contain commas');
+    }
+    return trimmed;
+  }
+
+  private validateColor(color: unknown) {
+    if (color !== undefined && !(CATEGORY_COLORS as readonly string[]).includes(color as string)) {
+      throw new BadRequestException(`Color must be one of: ${CATEGORY_COLORS.join(', ')}`);
+    }
+  }
+}
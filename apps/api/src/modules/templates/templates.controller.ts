@@ -47,7 +47,7 @@ export class TemplatesController {
     @Query() query: TemplateQuery,
   ): Promise<ApiResponse<TemplatesListResponse>> {
     // Destructure pagination and filter keys
-    const { page, limit, sortBy, sortOrder, category, search, tags } = query;
+    const { page, limit, sortBy, sortOrder, categoryId, search, tags } = query;
 
     // Normalize tags to array
     const normalizedTags = tags
@@ -56,7 +56,7 @@ export class TemplatesController {
         : [tags]
       : undefined;
 
-    const filters = { category, search, tags: normalizedTags };
+    const filters = { categoryId, search, tags: normalizedTags };
     const pagination = { page, limit, sortBy, sortOrder };
 
     const result = await this.templatesService.findAll(
@@ -2,9 +2,10 @@ import { Module } from '@nestjs/common';
 import { TemplatesController } from './templates.controller';
 import { TemplatesService } from './templates.service';
 import { PrismaModule } from '@common/prisma/prisma.module';
+import { CategoriesModule } from '../categories/categories.module';
 
 @Module({
-  imports: [PrismaModule],
+  imports: [PrismaModule, CategoriesModule],
   controllers: [TemplatesController],
   providers: [TemplatesService],
   exports: [TemplatesService],
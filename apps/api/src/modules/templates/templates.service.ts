@@ -10,20 +10,32 @@ import type {
   TemplateFilters,
   PaginationQuery,
   TemplateResponse,
+  TemplateChecklistItemDto,
 } from '@repo/shared-types';
+import { Prisma } from '@prisma/client';
+import { CategoriesService } from '../categories/categories.service';
+import { CATEGORY_INCLUDE, toCategorySummary } from '../categories/category.util';
+import { parseTemplateChecklist } from '../session-tasks/session-task.util';
 
 @Injectable()
 export class TemplatesService {
-  constructor(private readonly prisma: PrismaService) {}
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly categoriesService: CategoriesService,
+  ) {}
 
   /**
    * Transform Prisma template (UPPERCASE enums) to API response (lowercase enums)
    */
   private transformTemplate(template: any): TemplateResponse {
+    const { legacyCategory: _legacyCategory, ...fields } = template;
     return {
-      ...template,
-      category: template.category.toLowerCase(),
+      ...fields,
+      category: toCategorySummary(template.category),
       priority: template.priority.toLowerCase(),
+      checklist: Array.isArray(template.checklist)
+        ? (template.checklist as TemplateChecklistItemDto[])
+        : [],
     };
   }
 
@@ -47,21 +59,20 @@ export class TemplatesService {
       throw new BadRequestException('Title is required');
     }
 
-    if (!dto.category) {
-      throw new BadRequestException('Category is required');
-    }
-
     if (!dto.duration || dto.duration <= 0) {
       throw new BadRequestException('Duration must be greater than 0');
     }
 
+    const categoryId = await this.categoriesService.resolveOwnedId(userId, dto.categoryId ?? null);
+    const checklist = parseTemplateChecklist(dto.checklist ?? []);
+
     try {
       const template = await this.prisma.sessionTemplate.create({
         data: {
           name: dto.name,
           title: dto.title,
           description: dto.description || null,
-          category: dto.category.toUpperCase() as any,
+          categoryId,
           priority: dto.priority
             ? (dto.priority.toUpperCase() as any)
             : 'MEDIUM',
@@ -69,8 +80,10 @@ export class TemplatesService {
           color: dto.color || null,
           tags: dto.tags || [],
           notes: dto.notes || null,
+          checklist: checklist as unknown as Prisma.InputJsonValue,
           userId,
         },
+        include: CATEGORY_INCLUDE,
       });
 
       return this.transformTemplate(template);
@@ -94,8 +107,10 @@ export class TemplatesService {
       userId,
     };
 
-    if (filters?.category) {
-      where.category = filters.category.toUpperCase() as any;
+    if (filters?.categoryId) {
+      where.categoryId = {
+        in: await this.categoriesService.withDescendants(userId, [filters.categoryId]),
+      };
     }
 
     if (filters?.search) {
@@ -125,6 +140,7 @@ export class TemplatesService {
         orderBy: pagination?.sortBy
           ? { [pagination.sortBy]: pagination.sortOrder || 'desc' }
           : { createdAt: 'desc' },
+        include: CATEGORY_INCLUDE,
       }),
       this.prisma.sessionTemplate.count({ where }),
     ]);
@@ -147,6 +163,7 @@ export class TemplatesService {
   async findById(id: string, userId: string): Promise<TemplateResponse> {
     const template = await this.prisma.sessionTemplate.findUnique({
       where: { id },
+      include: CATEGORY_INCLUDE,
     });
 
     if (!template || template.userId !== userId) {
@@ -163,6 +180,9 @@ export class TemplatesService {
   ): Promise<TemplateResponse> {
     // Verify ownership
     await this.findById(id, userId);
+    const categoryId = await this.categoriesService.resolveOwnedId(userId, dto.categoryId);
+    const checklist =
+      dto.checklist !== undefined ? parseTemplateChecklist(dto.checklist) : undefined;
 
     const template = await this.prisma.sessionTemplate.update({
       where: { id },
@@ -170,9 +190,7 @@ export class TemplatesService {
         name: dto.name,
         title: dto.title,
         description: dto.description !== undefined ? dto.description : undefined,
-        category: dto.category
-          ? (dto.category.toUpperCase() as any)
-          : undefined,
+        categoryId,
         priority: dto.priority
           ? (dto.priority.toUpperCase() as any)
           : undefined,
@@ -180,7 +198,9 @@ export class TemplatesService {
         color: dto.color !== undefined ? dto.color : undefined,
         tags: dto.tags,
         notes: dto.notes !== undefined ? dto.notes : undefined,
+        checklist: checklist as unknown as Prisma.InputJsonValue | undefined,
       },
+      include: CATEGORY_INCLUDE,
     });
 
     return this.transformTemplate(template);
@@ -206,6 +226,7 @@ export class TemplatesService {
       },
       take: 20,
       orderBy: { createdAt: 'desc' },
+      include: CATEGORY_INCLUDE,
     });
 
     return this.transformTemplates(templates);
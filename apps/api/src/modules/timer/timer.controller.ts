@@ -0,0 +1,189 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Body,
+  Param,
+  HttpCode,
+  HttpStatus,
+  ParseUUIDPipe,
+  BadRequestException,
+} from '@nestjs/common';
+import { TimerService } from './timer.service';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import type {
+  ApiResponse,
+  ActiveTimerDto,
+  StartTimerDto,
+  StopTimerDto,
+  StopTimerResultDto,
+  TimerSegmentDto,
+  SetPomodoroDto,
+  AdvancePomodoroDto,
+  PomodoroSettingsDto,
+  UpdatePomodoroSettingsDto,
+} from '@repo/shared-types';
+
+const POMODORO_PHASES = ['focus', 'short_break', 'long_break'];
+
+@Controller()
+export class TimerController {
+  constructor(private readonly timerService: TimerService) {}
+
+  @Get('timer')
+  async getActive(
+    @CurrentUser('sub') userId: string,
+  ): Promise<ApiResponse<ActiveTimerDto | null>> {
+    const timer = await this.timerService.getActive(userId);
+
+    return {
+      success: true,
+      message: timer ? 'Active timer retrieved successfully' : 'No active timer',
+      data: timer,
+    };
+  }
+
+  @Post('timer/start')
+  @HttpCode(HttpStatus.OK)
+  async start(
+    @CurrentUser('sub') userId: string,
+    @Body() dto: StartTimerDto,
+  ): Promise<ApiResponse<ActiveTimerDto>> {
+    if (!dto?.sessionId) {
+      throw new BadRequestException('sessionId is required');
+    }
+
+    const timer = await this.timerService.start(userId, dto);
+
+    return {
+      success: true,
+      message: 'Timer started',
+      data: timer,
+    };
+  }
+
+  @Post('timer/pause')
+  @HttpCode(HttpStatus.OK)
+  async pause(
+    @CurrentUser('sub') userId: string,
+  ): Promise<ApiResponse<ActiveTimerDto>> {
+    const timer = await this.timerService.pause(userId);
+
+    return {
+      success: true,
+      message: 'Timer paused',
+      data: timer,
+    };
+  }
+
+  @Post('timer/resume')
+  @HttpCode(HttpStatus.OK)
+  async resume(
+    @CurrentUser('sub') userId: string,
+  ): Promise<ApiResponse<ActiveTimerDto>> {
+    const timer = await this.timerService.resume(userId);
+
+    return {
+      success: true,
+      message: 'Timer resumed',
+      data: timer,
+    };
+  }
+
+  @Post('timer/stop')
+  @HttpCode(HttpStatus.OK)
+  async stop(
+    @CurrentUser('sub') userId: string,
+    @Body() dto: StopTimerDto,
+  ): Promise<ApiResponse<StopTimerResultDto>> {
+    const result = await this.timerService.stop(userId, dto || {});
+
+    return {
+      success: true,
+      message: 'Timer stopped',
+      data: result,
+    };
+  }
+
+  @Post('timer/pomodoro')
+  @HttpCode(HttpStatus.OK)
+  async setPomodoro(
+    @CurrentUser('sub') userId: string,
+    @Body() dto: SetPomodoroDto,
+  ): Promise<ApiResponse<ActiveTimerDto>> {
+    if (typeof dto?.enabled !== 'boolean') {
+      throw new BadRequestException('enabled must be a boolean');
+    }
+
+    const timer = await this.timerService.setPomodoro(userId, dto);
+
+    return {
+      success: true,
+      message: dto.enabled ? 'Pomodoro mode enabled' : 'Pomodoro mode disabled',
+      data: timer,
+    };
+  }
+
+  @Post('timer/pomodoro/advance')
+  @HttpCode(HttpStatus.OK)
+  async advancePomodoro(
+    @CurrentUser('sub') userId: string,
+    @Body() dto: AdvancePomodoroDto,
+  ): Promise<ApiResponse<ActiveTimerDto>> {
+    if (!POMODORO_PHASES.includes(dto?.from)) {
+      throw new BadRequestException(
+        `from must be one of: ${POMODORO_PHASES.join(', ')}`,
+      );
+    }
+
+    const timer = await this.timerService.advancePomodoro(userId, dto);
+
+    return {
+      success: true,
+      message: 'Pomodoro phase advanced',
+      data: timer,
+    };
+  }
+
+  @Get('pomodoro/settings')
+  async getSettings(
+    @CurrentUser('sub') userId: string,
+  ): Promise<ApiResponse<PomodoroSettingsDto>> {
+    const settings = await this.timerService.getSettings(userId);
+
+    return {
+      success: true,
+      message: 'Pomodoro settings retrieved successfully',
+      data: settings,
+    };
+  }
+
+  @Patch('pomodoro/settings')
+  async updateSettings(
+    @CurrentUser('sub') userId: string,
+    @Body() dto: UpdatePomodoroSettingsDto,
+  ): Promise<ApiResponse<PomodoroSettingsDto>> {
+    const settings = await this.timerService.updateSettings(userId, dto || {});
+
+    return {
+      success: true,
+      message: 'Pomodoro settings updated successfully',
+      data: settings,
+    };
+  }
+
+  @Get('sessions/:sessionId/timer-segments')
+  async findSegments(
+    @CurrentUser('sub') userId: string,
+    @Param('sessionId', ParseUUIDPipe) sessionId: string,
+  ): Promise<ApiResponse<TimerSegmentDto[]>> {
+    const segments = await this.timerService.findSegments(userId, sessionId);
+
+    return {
+      success: true,
+      message: 'Timer segments retrieved successfully',
+      data: segments,
+    };
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { TimerController } from './timer.controller';
+import { TimerService } from './timer.service';
+import { PrismaModule } from '@common/prisma/prisma.module';
+import { SessionsModule } from '../sessions/sessions.module';
+
+@Module({
+  imports: [PrismaModule, SessionsModule],
+  controllers: [TimerController],
+  providers: [TimerService],
+  exports: [TimerService],
+})
+export class TimerModule {}
@@ -0,0 +1,505 @@
+import {
+  Injectable,
+  NotFoundException,
+  ConflictException,
+  BadRequestException,
+} from '@nestjs/common';
+import { PrismaService } from '@common/prisma/prisma.service';
+import type {
+  ActiveTimerDto,
+  StartTimerDto,
+  StopTimerDto,
+  StopTimerResultDto,
+  TimerSegmentDto,
+  SessionResponse,
+  PomodoroSettingsDto,
+  UpdatePomodoroSettingsDto,
+  PomodoroStateDto,
+  PomodoroPhase as PomodoroPhaseDto,
+  SetPomodoroDto,
+  AdvancePomodoroDto,
+} from '@repo/shared-types';
+import { SessionStatus } from '@repo/shared-types';
+import { PomodoroPhase, SessionTimer, TimerSegment } from '@prisma/client';
+import { SessionsService } from '../sessions/sessions.service';
+
+/** Pomodoro lengths used until the user saves their own */
+const DEFAULT_POMODORO_SETTINGS: PomodoroSettingsDto = {
+  focusMinutes: 25,
+  shortBreakMinutes: 5,
+  longBreakMinutes: 15,
+  cyclesBeforeLongBreak: 4,
+};
+
+/** Longest allowed focus or break phase, in minutes */
+const MAX_PHASE_MINUTES = 180;
+
+/** Most focus cycles allowed before a long break */
+const MAX_CYCLES_BEFORE_LONG_BREAK = 12;
+
+/** A focus phase ending this many seconds early still counts (client clock drift) */
+const PHASE_TOLERANCE_SECONDS = 5;
+
+@Injectable()
+export class TimerService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly sessionsService: SessionsService,
+  ) {}
+
+  /**
+   * Transform Prisma timer segment to API response
+   */
+  private transformSegment(segment: TimerSegment): TimerSegmentDto {
+    return {
+      id: segment.id,
+      sessionId: segment.sessionId,
+      startedAt: segment.startedAt.toISOString(),
+      endedAt: segment.endedAt ? segment.endedAt.toISOString() : null,
+    };
+  }
+
+  /**
+   * Seconds covered by the segments, counting open segments up to `now`;
+   * with `since`, only the time after that instant counts
+   */
+  private sumSeconds(segments: TimerSegment[], now: Date, since?: Date): number {
+    const ms = segments.reduce((sum, s) => {
+      const start = Math.max(s.startedAt.getTime(), since?.getTime() ?? 0);
+      return sum + Math.max(0, (s.endedAt ?? now).getTime() - start);
+    }, 0);
+    return Math.floor(ms / 1000);
+  }
+
+  /**
+   * Length of a Pomodoro phase in seconds
+   */
+  private phaseLength(phase: PomodoroPhase, settings: PomodoroSettingsDto): number {
+    const minutes =
+      phase === 'FOCUS'
+        ? settings.focusMinutes
+        : phase === 'LONG_BREAK'
+          ? settings.longBreakMinutes
+          : settings.shortBreakMinutes;
+    return minutes * 60;
+  }
+
+  async getActive(userId: string): Promise<ActiveTimerDto | null> {
+    const timer = await this.prisma.sessionTimer.findUnique({
+      where: { userId },
+      include: { session: true },
+    });
+
+    if (!timer) {
+      return null;
+    }
+
+    // The session was moved out of progress elsewhere (e.g. the edit form);
+    // close the timer without touching the session again
+    if (timer.session.status !== 'IN_PROGRESS') {
+      await this.closeTimer(timer);
+      return null;
+    }
+
+    return this.buildActive(timer);
+  }
+
+  async start(userId: string, dto: StartTimerDto): Promise<ActiveTimerDto> {
+    const existing = await this.prisma.sessionTimer.findUnique({
+      where: { userId },
+    });
+
+    if (existing) {
+      if (existing.sessionId !== dto.sessionId) {
+        throw new ConflictException(
+          'Another session is already being timed. Stop it first.',
+        );
+      }
+      if (dto.pomodoro && !existing.pomodoroPhase) {
+        return this.setPomodoro(userId, { enabled: true });
+      }
+      return existing.pausedAt
+        ? this.resume(userId)
+        : (this.getActive(userId) as Promise<ActiveTimerDto>);
+    }
+
+    // Throws if the session is missing or can't move into progress
+    const session = await this.sessionsService.findById(dto.sessionId, userId);
+    if (session.status !== SessionStatus.IN_PROGRESS) {
+      await this.sessionsService.update(dto.sessionId, userId, {
+        status: SessionStatus.IN_PROGRESS,
+      });
+    }
+
+    const now = new Date();
+    try {
+      await this.prisma.$transaction([
+        this.prisma.sessionTimer.create({
+          data: {
+            userId,
+            sessionId: dto.sessionId,
+            ...(dto.pomodoro && {
+              pomodoroPhase: PomodoroPhase.FOCUS,
+              phaseStartedAt: now,
+            }),
+          },
+        }),
+        this.prisma.timerSegment.create({
+          data: { sessionId: dto.sessionId, startedAt: now },
+        }),
+      ]);
+    } catch (error: any) {
+      if (error?.code === 'P2002') {
+        throw new ConflictException('A timer is already running');
+      }
+      throw error;
+    }
+
+    return this.getActive(userId) as Promise<ActiveTimerDto>;
+  }
+
+  async pause(userId: string): Promise<ActiveTimerDto> {
+    const timer = await this.findTimer(userId);
+
+    if (!timer.pausedAt) {
+      const now = new Date();
+      await this.prisma.$transaction([
+        this.prisma.timerSegment.updateMany({
+          where: { sessionId: timer.sessionId, endedAt: null },
+          data: { endedAt: now },
+        }),
+        this.prisma.sessionTimer.update({
+          where: { id: timer.id },
+          data: { pausedAt: now },
+        }),
+      ]);
+    }
+
+    return this.getActive(userId) as Promise<ActiveTimerDto>;
+  }
+
+  async resume(userId: string): Promise<ActiveTimerDto> {
+    const timer = await this.findTimer(userId);
+
+    // Resuming during a Pomodoro break ends the break early
+    if (timer.pomodoroPhase && timer.pomodoroPhase !== PomodoroPhase.FOCUS) {
+      await this.startFocus(timer);
+    } else if (timer.pausedAt) {
+      await this.prisma.$transaction([
+        this.prisma.timerSegment.create({
+          data: { sessionId: timer.sessionId, startedAt: new Date() },
+        }),
+        this.prisma.sessionTimer.update({
+          where: { id: timer.id },
+          data: { pausedAt: null },
+        }),
+      ]);
+    }
+
+    return this.getActive(userId) as Promise<ActiveTimerDto>;
+  }
+
+  async stop(userId: string, dto: StopTimerDto = {}): Promise<StopTimerResultDto> {
+    const timer = await this.findTimer(userId);
+    const now = new Date();
+    const segmentsSoFar = await this.prisma.timerSegment.findMany({
+      where: { sessionId: timer.sessionId },
+    });
+
+    // Round to whole minutes, but never record a started session as zero
+    const actualDuration = Math.max(
+      1,
+      Math.round(this.sumSeconds(segmentsSoFar, now) / 60),
+    );
+
+    // Record the time before closing the timer, so a rejected update keeps it running
+    const session: SessionResponse = await this.sessionsService.update(
+      timer.sessionId,
+      userId,
+      {
+        actualDuration,
+        ...(dto.complete !== false && { status: SessionStatus.COMPLETED }),
+      },
+    );
+    const segments = await this.closeTimer(timer, now);
+
+    return {
+      session,
+      actualDuration,
+      segments: segments.map((s) => this.transformSegment(s)),
+    };
+  }
+
+  async setPomodoro(userId: string, dto: SetPomodoroDto): Promise<ActiveTimerDto> {
+    const timer = await this.findTimer(userId);
+
+    if (dto.enabled && !timer.pomodoroPhase) {
+      // A fresh focus phase; resumes the timer if it was paused
+      await this.startFocus({ ...timer, pomodoroRunCycles: 0 });
+    } else if (!dto.enabled && timer.pomodoroPhase) {
+      await this.prisma.sessionTimer.update({
+        where: { id: timer.id },
+        data: { pomodoroPhase: null, phaseStartedAt: null, pomodoroRunCycles: 0 },
+      });
+    }
+
+    return this.getActive(userId) as Promise<ActiveTimerDto>;
+  }
+
+  async advancePomodoro(
+    userId: string,
+    dto: AdvancePomodoroDto,
+  ): Promise<ActiveTimerDto> {
+    const timer = await this.findTimer(userId);
+
+    if (!timer.pomodoroPhase || !timer.phaseStartedAt) {
+      throw new BadRequestException('Pomodoro mode is not enabled');
+    }
+
+    // Another tab already moved the timer on
+    if (timer.pomodoroPhase.toLowerCase() !== dto.from) {
+      return this.getActive(userId) as Promise<ActiveTimerDto>;
+    }
+
+    if (timer.pomodoroPhase !== PomodoroPhase.FOCUS) {
+      await this.startFocus(timer);
+      return this.getActive(userId) as Promise<ActiveTimerDto>;
+    }
+
+    const [settings, segments] = await Promise.all([
+      this.getSettings(userId),
+      this.prisma.timerSegment.findMany({ where: { sessionId: timer.sessionId } }),
+    ]);
+    const now = new Date();
+    const focused = this.sumSeconds(segments, now, timer.phaseStartedAt);
+    const counted = !dto.skip;
+
+    if (counted && focused < settings.focusMinutes * 60 - PHASE_TOLERANCE_SECONDS) {
+      throw new BadRequestException('The focus phase is not finished yet');
+    }
+
+    const runCycles = timer.pomodoroRunCycles + (counted ? 1 : 0);
+    const nextPhase =
+      counted && runCycles % settings.cyclesBeforeLongBreak === 0
+        ? PomodoroPhase.LONG_BREAK
+        : PomodoroPhase.SHORT_BREAK;
+
+    // Breaks are not study time, so the timer pauses until the next focus phase
+    await this.prisma.$transaction([
+      this.prisma.timerSegment.updateMany({
+        where: { sessionId: timer.sessionId, endedAt: null },
+        data: { endedAt: now },
+      }),
+      ...(counted
+        ? [
+            this.prisma.pomodoroCycle.create({
+              data: {
+                userId,
+                sessionId: timer.sessionId,
+                focusMinutes: settings.focusMinutes,
+                completedAt: now,
+              },
+            }),
+          ]
+        : []),
+      this.prisma.sessionTimer.update({
+        where: { id: timer.id },
+        data: {
+          pausedAt: now,
+          pomodoroPhase: nextPhase,
+          phaseStartedAt: now,
+          pomodoroRunCycles: runCycles,
+        },
+      }),
+    ]);
+
+    return this.getActive(userId) as Promise<ActiveTimerDto>;
+  }
+
+  async getSettings(userId: string): Promise<PomodoroSettingsDto> {
+    const settings = await this.prisma.pomodoroSettings.findUnique({
+      where: { userId },
+    });
+
+    if (!settings) {
+      return { ...DEFAULT_POMODORO_SETTINGS };
+    }
+
+    return {
+      focusMinutes: settings.focusMinutes,
+      shortBreakMinutes: settings.shortBreakMinutes,
+      longBreakMinutes: settings.longBreakMinutes,
+      cyclesBeforeLongBreak: settings.cyclesBeforeLongBreak,
+    };
+  }
+
+  async updateSettings(
+    userId: string,
+    dto: UpdatePomodoroSettingsDto,
+  ): Promise<PomodoroSettingsDto> {
+    const current = await this.getSettings(userId);
+    const next: PomodoroSettingsDto = {
+      focusMinutes: dto.focusMinutes ?? current.focusMinutes,
+      shortBreakMinutes: dto.shortBreakMinutes ?? current.shortBreakMinutes,
+      longBreakMinutes: dto.longBreakMinutes ?? current.longBreakMinutes,
+      cyclesBeforeLongBreak:
+        dto.cyclesBeforeLongBreak ?? current.cyclesBeforeLongBreak,
+    };
+
+    for (const key of [
+      'focusMinutes',
+      'shortBreakMinutes',
+      'longBreakMinutes',
+    ] as const) {
+      if (!Number.isInteger(next[key]) || next[key] < 1 || next[key] > MAX_PHASE_MINUTES) {
+        throw new BadRequestException(
+          `${key} must be a whole number between 1 and ${MAX_PHASE_MINUTES}`,
+        );
+      }
+    }
+    if (
+      !Number.isInteger(next.cyclesBeforeLongBreak) ||
+      next.cyclesBeforeLongBreak < 1 ||
+      next.cyclesBeforeLongBreak > MAX_CYCLES_BEFORE_LONG_BREAK
+    ) {
+      throw new BadRequestException(
+        `cyclesBeforeLongBreak must be a whole number between 1 and ${MAX_CYCLES_BEFORE_LONG_BREAK}`,
+      );
+    }
+
+    await this.prisma.pomodoroSettings.upsert({
+      where: { userId },
+      create: { userId, ...next },
+      update: next,
+    });
+
+    return next;
+  }
+
+  async findSegments(
+    userId: string,
+    sessionId: string,
+  ): Promise<TimerSegmentDto[]> {
+    await this.sessionsService.findById(sessionId, userId);
+
+    const segments = await this.prisma.timerSegment.findMany({
+      where: { sessionId },
+      orderBy: { startedAt: 'asc' },
+    });
+
+    return segments.map((s) => this.transformSegment(s));
+  }
+
+  private async findTimer(userId: string): Promise<SessionTimer> {
+    const timer = await this.prisma.sessionTimer.findUnique({
+      where: { userId },
+    });
+
+    if (!timer) {
+      throw new NotFoundException('No timer is running');
+    }
+
+    return timer;
+  }
+
+  /**
+   * Enter a Pomodoro focus phase, resuming the timer if it is paused
+   */
+  private async startFocus(timer: SessionTimer): Promise<void> {
+    const now = new Date();
+    await this.prisma.$transaction([
+      ...(timer.pausedAt
+        ? [
+            this.prisma.timerSegment.create({
+              data: { sessionId: timer.sessionId, startedAt: now },
+            }),
+          ]
+        : []),
+      this.prisma.sessionTimer.update({
+        where: { id: timer.id },
+        data: {
+          pausedAt: null,
+          pomodoroPhase: PomodoroPhase.FOCUS,
+          phaseStartedAt: now,
+          pomodoroRunCycles: timer.pomodoroRunCycles,
+        },
+      }),
+    ]);
+  }
+
+  /**
+   * Close the open segment, remove the timer and return all session segments
+   */
+  private async closeTimer(
+    timer: SessionTimer,
+    endedAt: Date = new Date(),
+  ): Promise<TimerSegment[]> {
+    await this.prisma.$transaction([
+      this.prisma.timerSegment.updateMany({
+        where: { sessionId: timer.sessionId, endedAt: null },
+        data: { endedAt },
+      }),
+      this.prisma.sessionTimer.deleteMany({ where: { id: timer.id } }),
+    ]);
+
+    return this.prisma.timerSegment.findMany({
+      where: { sessionId: timer.sessionId },
+      orderBy: { startedAt: 'asc' },
+    });
+  }
+
+  private async buildActive(timer: SessionTimer): Promise<ActiveTimerDto> {
+    const [session, segments] = await Promise.all([
+      this.sessionsService.findById(timer.sessionId, timer.userId),
+      this.prisma.timerSegment.findMany({
+        where: { sessionId: timer.sessionId },
+        orderBy: { startedAt: 'asc' },
+      }),
+    ]);
+    const now = new Date();
+    const pomodoro = await this.buildPomodoro(timer, segments, now);
+
+    return {
+      sessionId: timer.sessionId,
+      session,
+      state: timer.pausedAt ? 'paused' : 'running',
+      startedAt: timer.createdAt.toISOString(),
+      pausedAt: timer.pausedAt ? timer.pausedAt.toISOString() : null,
+      segments: segments.map((s) => this.transformSegment(s)),
+      elapsedSeconds: this.sumSeconds(segments, now),
+      pomodoro,
+      serverTime: now.toISOString(),
+    };
+  }
+
+  private async buildPomodoro(
+    timer: SessionTimer,
+    segments: TimerSegment[],
+    now: Date,
+  ): Promise<PomodoroStateDto | null> {
+    if (!timer.pomodoroPhase || !timer.phaseStartedAt) {
+      return null;
+    }
+
+    const [settings, sessionCycles] = await Promise.all([
+      this.getSettings(timer.userId),
+      this.prisma.pomodoroCycle.count({ where: { sessionId: timer.sessionId } }),
+    ]);
+
+    // Focus only advances while the timer runs; breaks run on wall time
+    const phaseElapsedSeconds =
+      timer.pomodoroPhase === PomodoroPhase.FOCUS
+        ? this.sumSeconds(segments, now, timer.phaseStartedAt)
+        : Math.floor((now.getTime() - timer.phaseStartedAt.getTime()) / 1000);
+
+    return {
+      phase: timer.pomodoroPhase.toLowerCase() as PomodoroPhaseDto,
+      phaseStartedAt: timer.phaseStartedAt.toISOString(),
+      phaseLengthSeconds: this.phaseLength(timer.pomodoroPhase, settings),
+      phaseElapsedSeconds,
+      runCycles: timer.pomodoroRunCycles,
+      sessionCycles,
+      settings,
+    };
+  }
+}
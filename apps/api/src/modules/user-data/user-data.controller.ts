@@ -0,0 +1,172 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { UserDataService } from './user-data.service';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import type {
+  AddFavoriteDto,
+  ApiResponse,
+  FavoriteItemType,
+  FavoritesDto,
+  ImportLocalDataDto,
+  ImportLocalDataResultDto,
+  RecordRecentItemDto,
+  SaveSessionDraftDto,
+  SessionDraftDto,
+  SessionResponse,
+} from '@repo/shared-types';
+
+@Controller()
+export class UserDataController {
+  constructor(private readonly userDataService: UserDataService) {}
+
+  @Get('favorites')
+  async getFavorites(
+    @CurrentUser('sub') userId: string,
+  ): Promise<ApiResponse<FavoritesDto>> {
+    const favorites = await this.userDataService.getFavorites(userId);
+
+    return {
+      success: true,
+      message: 'Favorites retrieved successfully',
+      data: favorites,
+    };
+  }
+
+  @Get('favorites/sessions')
+  async getFavoriteSessions(
+    @CurrentUser('sub') userId: string,
+  ): Promise<ApiResponse<SessionResponse[]>> {
+    const sessions = await this.userDataService.getFavoriteSessions(userId);
+
+    return {
+      success: true,
+      message: 'Favorite sessions retrieved successfully',
+      data: sessions,
+    };
+  }
+
+  @Post('favorites')
+  @HttpCode(HttpStatus.CREATED)
+  async addFavorite(
+    @CurrentUser('sub') userId: string,
+    @Body() dto: AddFavoriteDto,
+  ): Promise<ApiResponse<FavoritesDto>> {
+    const favorites = await this.userDataService.addFavorite(userId, dto);
+
+    return {
+      success: true,
+      message: 'Favorite added successfully',
+      data: favorites,
+    };
+  }
+
+  @Delete('favorites/:itemType/:itemId')
+  async removeFavorite(
+    @CurrentUser('sub') userId: string,
+    @Param('itemType') itemType: FavoriteItemType,
+    @Param('itemId') itemId: string,
+  ): Promise<ApiResponse<FavoritesDto>> {
+    const favorites = await this.userDataService.removeFavorite(
+      userId,
+      itemType,
+      itemId,
+    );
+
+    return {
+      success: true,
+      message: 'Favorite removed successfully',
+      data: favorites,
+    };
+  }
+
+  @Get('recent-items')
+  async getRecentItems(
+    @CurrentUser('sub') userId: string,
+  ): Promise<ApiResponse<SessionResponse[]>> {
+    const sessions = await this.userDataService.getRecentItems(userId);
+
+    return {
+      success: true,
+      message: 'Recent sessions retrieved successfully',
+      data: sessions,
+    };
+  }
+
+  @Post('recent-items')
+  @HttpCode(HttpStatus.OK)
+  async recordRecentItem(
+    @CurrentUser('sub') userId: string,
+    @Body() dto: RecordRecentItemDto,
+  ): Promise<ApiResponse<SessionResponse[]>> {
+    const sessions = await this.userDataService.recordRecentItem(userId, dto);
+
+    return {
+      success: true,
+      message: 'Recent session recorded successfully',
+      data: sessions,
+    };
+  }
+
+  @Delete('recent-items')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async clearRecentItems(@CurrentUser('sub') userId: string): Promise<void> {
+    await this.userDataService.clearRecentItems(userId);
+  }
+
+  @Get('drafts/session')
+  async getSessionDraft(
+    @CurrentUser('sub') userId: string,
+  ): Promise<ApiResponse<SessionDraftDto | null>> {
+    const draft = await this.userDataService.getSessionDraft(userId);
+
+    return {
+      success: true,
+      message: draft ? 'Draft retrieved successfully' : 'No draft saved',
+      data: draft,
+    };
+  }
+
+  @Put('drafts/session')
+  async saveSessionDraft(
+    @CurrentUser('sub') userId: string,
+    @Body() dto: SaveSessionDraftDto,
+  ): Promise<ApiResponse<SessionDraftDto>> {
+    const draft = await this.userDataService.saveSessionDraft(userId, dto);
+
+    return {
+      success: true,
+      message: 'Draft saved successfully',
+      data: draft,
+    };
+  }
+
+  @Delete('drafts/session')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async deleteSessionDraft(@CurrentUser('sub') userId: string): Promise<void> {
+    await this.userDataService.deleteSessionDraft(userId);
+  }
+
+  @Post('user-data/import-local')
+  @HttpCode(HttpStatus.OK)
+  async importLocalData(
+    @CurrentUser('sub') userId: string,
+    @Body() dto: ImportLocalDataDto,
+  ): Promise<ApiResponse<ImportLocalDataResultDto>> {
+    const result = await this.userDataService.importLocalData(userId, dto || {});
+
+    return {
+      success: true,
+      message: 'Local data imported successfully',
+      data: result,
+    };
+  }
+}
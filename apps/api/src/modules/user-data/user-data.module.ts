@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { UserDataController } from './user-data.controller';
+import { UserDataService } from './user-data.service';
+import { PrismaModule } from '@common/prisma/prisma.module';
+
+@Module({
+  imports: [PrismaModule],
+  controllers: [UserDataController],
+  providers: [UserDataService],
+})
+export class UserDataModule {}
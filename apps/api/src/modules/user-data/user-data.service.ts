@@ -0,0 +1,334 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+} from '@nestjs/common';
+import { PrismaService } from '@common/prisma/prisma.service';
+import type {
+  AddFavoriteDto,
+  FavoriteItemType,
+  FavoritesDto,
+  ImportLocalDataDto,
+  ImportLocalDataResultDto,
+  RecordRecentItemDto,
+  SaveSessionDraftDto,
+  SessionDraftData,
+  SessionDraftDto,
+  SessionResponse,
+} from '@repo/shared-types';
+import { Prisma } from '@prisma/client';
+import { CATEGORY_INCLUDE, toCategorySummary } from '../categories/category.util';
+import { SESSION_TASKS_INCLUDE } from '../session-tasks/session-task.util';
+
+/** How many recently opened sessions are kept per user */
+const MAX_RECENT_ITEMS = 10;
+
+/** Upper bound on a serialized draft, in characters */
+const MAX_DRAFT_LENGTH = 20_000;
+
+/** Upper bound on IDs accepted per list in a local data import */
+const MAX_IMPORT_IDS = 500;
+
+const FAVORITE_ITEM_TYPES: FavoriteItemType[] = ['session', 'template'];
+
+@Injectable()
+export class UserDataService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Transform Prisma session (UPPERCASE enums) to API response (lowercase enums)
+   */
+  private transformSession(session: any): SessionResponse {
+    const { legacyCategory: _legacyCategory, ...fields } = session;
+    return {
+      ...fields,
+      category: toCategorySummary(session.category),
+      status: session.status.toLowerCase(),
+      priority: session.priority.toLowerCase(),
+    };
+  }
+
+  async getFavorites(userId: string): Promise<FavoritesDto> {
+    const favorites = await this.prisma.userFavorite.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'asc' },
+      select: { sessionId: true, templateId: true },
+    });
+
+    return {
+      sessionIds: favorites.flatMap((f) => (f.sessionId ? [f.sessionId] : [])),
+      templateIds: favorites.flatMap((f) => (f.templateId ? [f.templateId] : [])),
+    };
+  }
+
+  /**
+   * Starred sessions, oldest star first
+   */
+  async getFavoriteSessions(userId: string): Promise<SessionResponse[]> {
+    const favorites = await this.prisma.userFavorite.findMany({
+      where: { userId, sessionId: { not: null } },
+      orderBy: { createdAt: 'asc' },
+      include: { session: { include: { ...CATEGORY_INCLUDE, ...SESSION_TASKS_INCLUDE } } },
+    });
+
+    return favorites.flatMap((f) => (f.session ? [this.transformSession(f.session)] : []));
+  }
+
+  async addFavorite(userId: string, dto: AddFavoriteDto): Promise<FavoritesDto> {
+    this.validateItemType(dto?.itemType);
+    if (!dto.itemId) {
+      throw new BadRequestException('Item ID is required');
+    }
+
+    const owned =
+      dto.itemType === 'session'
+        ? await this.prisma.session.findFirst({
+            where: { id: dto.itemId, userId },
+            select: { id: true },
+          })
+        : await this.prisma.sessionTemplate.findFirst({
+            where: { id: dto.itemId, userId },
+            select: { id: true },
+          });
+    if (!owned) {
+      throw new NotFoundException(
+        dto.itemType === 'session' ? 'Session not found' : 'Template not found',
+      );
+    }
+
+    try {
+      await this.prisma.userFavorite.create({
+        data: {
+          userId,
+          ...(dto.itemType === 'session'
+            ? { sessionId: dto.itemId }
+            : { templateId: dto.itemId }),
+        },
+      });
+    } catch (error: any) {
+      // Already starred
+      if (error?.code !== 'P2002') {
+        throw error;
+      }
+    }
+
+    return this.getFavorites(userId);
+  }
+
+  async removeFavorite(
+    userId: string,
+    itemType: FavoriteItemType,
+    itemId: string,
+  ): Promise<FavoritesDto> {
+    this.validateItemType(itemType);
+
+    await this.prisma.userFavorite.deleteMany({
+      where: {
+        userId,
+        ...(itemType === 'session' ? { sessionId: itemId } : { templateId: itemId }),
+      },
+    });
+
+    return this.getFavorites(userId);
+  }
+
+  /**
+   * Recently opened sessions, newest first, read fresh from the sessions table
+   */
+  async getRecentItems(userId: string): Promise<SessionResponse[]> {
+    const items = await this.prisma.recentItem.findMany({
+      where: { userId },
+      orderBy: { viewedAt: 'desc' },
+      take: MAX_RECENT_ITEMS,
+      include: { session: { include: { ...CATEGORY_INCLUDE, ...SESSION_TASKS_INCLUDE } } },
+    });
+
+    return items.map((item) => this.transformSession(item.session));
+  }
+
+  async recordRecentItem(
+    userId: string,
+    dto: RecordRecentItemDto,
+  ): Promise<SessionResponse[]> {
+    if (!dto?.sessionId) {
+      throw new BadRequestException('Session ID is required');
+    }
+
+    const session = await this.prisma.session.findFirst({
+      where: { id: dto.sessionId, userId },
+      select: { id: true },
+    });
+    if (!session) {
+      throw new NotFoundException('Session not found');
+    }
+
+    await this.prisma.recentItem.upsert({
+      where: { userId_sessionId: { userId, sessionId: dto.sessionId } },
+      create: { userId, sessionId: dto.sessionId },
+      update: { viewedAt: new Date() },
+    });
+    await this.trimRecentItems(userId);
+
+    return this.getRecentItems(userId);
+  }
+
+  async clearRecentItems(userId: string): Promise<void> {
+    await this.prisma.recentItem.deleteMany({ where: { userId } });
+  }
+
+  async getSessionDraft(userId: string): Promise<SessionDraftDto | null> {
+    const draft = await this.prisma.sessionDraft.findUnique({
+      where: { userId },
+    });
+    if (!draft) {
+      return null;
+    }
+
+    return {
+      data: draft.data as SessionDraftData,
+      updatedAt: draft.updatedAt.toISOString(),
+    };
+  }
+
+  async saveSessionDraft(
+    userId: string,
+    dto: SaveSessionDraftDto,
+  ): Promise<SessionDraftDto> {
+    const data = this.validateDraft(dto?.data);
+
+    const draft = await this.prisma.sessionDraft.upsert({
+      where: { userId },
+      create: { userId, data },
+      update: { data },
+    });
+
+    return {
+      data: draft.data as SessionDraftData,
+      updatedAt: draft.updatedAt.toISOString(),
+    };
+  }
+
+  async deleteSessionDraft(userId: string): Promise<void> {
+    await this.prisma.sessionDraft.deleteMany({ where: { userId } });
+  }
+
+  /**
+   * Upload favorites, recent sessions and a draft kept in browser storage
+   * before they were stored server-side. Existing server data wins.
+   */
+  async importLocalData(
+    userId: string,
+    dto: ImportLocalDataDto,
+  ): Promise<ImportLocalDataResultDto> {
+    const favoriteSessionIds = this.sanitizeIds(dto?.favoriteSessionIds);
+    const favoriteTemplateIds = this.sanitizeIds(dto?.favoriteTemplateIds);
+    const recentSessionIds = this.sanitizeIds(dto?.recentSessionIds);
+
+    // Local storage may hold IDs of deleted items or of another account
+    const [ownedSessions, ownedTemplates] = await Promise.all([
+      this.prisma.session.findMany({
+        where: { userId, id: { in: [...favoriteSessionIds, ...recentSessionIds] } },
+        select: { id: true },
+      }),
+      this.prisma.sessionTemplate.findMany({
+        where: { userId, id: { in: favoriteTemplateIds } },
+        select: { id: true },
+      }),
+    ]);
+    const sessionIds = new Set(ownedSessions.map((s) => s.id));
+    const templateIds = new Set(ownedTemplates.map((t) => t.id));
+
+    const favorites = await this.prisma.userFavorite.createMany({
+      data: [
+        ...favoriteSessionIds
+          .filter((id) => sessionIds.has(id))
+          .map((sessionId) => ({ userId, sessionId })),
+        ...favoriteTemplateIds
+          .filter((id) => templateIds.has(id))
+          .map((templateId) => ({ userId, templateId })),
+      ],
+      skipDuplicates: true,
+    });
+
+    // Keep the local order by spacing the timestamps, all older than now
+    const now = Date.now();
+    const recentItems = await this.prisma.recentItem.createMany({
+      data: recentSessionIds
+        .filter((id) => sessionIds.has(id))
+        .slice(0, MAX_RECENT_ITEMS)
+        .map((sessionId, index) => ({
+          userId,
+          sessionId,
+          viewedAt: new Date(now - (index + 1) * 1000),
+        })),
+      skipDuplicates: true,
+    });
+    await this.trimRecentItems(userId);
+
+    let draftImported = false;
+    if (dto?.sessionDraft) {
+      const data = this.validateDraft(dto.sessionDraft);
+      try {
+        await this.prisma.sessionDraft.create({ data: { userId, data } });
+        draftImported = true;
+      } catch (error: any) {
+        if (error?.code !== 'P2002') {
+          throw error;
+        }
+      }
+    }
+
+    return {
+      favorites: favorites.count,
+      recentItems: recentItems.count,
+      draftImported,
+    };
+  }
+
+  /**
+   * Drop recent items beyond the per-user limit
+   */
+  private async trimRecentItems(userId: string): Promise<void> {
+    const stale = await this.prisma.recentItem.findMany({
+      where: { userId },
+      orderBy: { viewedAt: 'desc' },
+      skip: MAX_RECENT_ITEMS,
+      select: { id: true },
+    });
+    if (stale.length > 0) {
+      await this.prisma.recentItem.deleteMany({
+        where: { id: { in: stale.map((item) => item.id) } },
+      });
+    }
+  }
+
+  private validateItemType(itemType: string | undefined): void {
+    if (!itemType || !FAVORITE_ITEM_TYPES.includes(itemType as FavoriteItemType)) {
+      throw new BadRequestException(
+        `Item type must be one of: ${FAVORITE_ITEM_TYPES.join(', ')}`,
+      );
+    }
+  }
+
+  private validateDraft(data: unknown): Prisma.InputJsonObject {
+    if (!data || typeof data !== 'object' || Array.isArray(data)) {
+      throw new BadRequestException('Draft data must be an object');
+    }
+    if (JSON.stringify(data).length > MAX_DRAFT_LENGTH) {
+      throw new BadRequestException('Draft is too large');
+    }
+    return data as Prisma.InputJsonObject;
+  }
+
+  /**
+   * Unique string IDs from an untrusted list, capped in length
+   */
+  private sanitizeIds(ids: unknown): string[] {
+    if (!Array.isArray(ids)) {
+      return [];
+    }
+    return Array.from(
+      new Set(ids.filter((id): id is string => typeof id === 'string' && id.length > 0)),
+    ).slice(0, MAX_IMPORT_IDS);
+  }
+}
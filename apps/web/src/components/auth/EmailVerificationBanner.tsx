@@ -0,0 +1,45 @@
+import { useState } from 'react';
+import { MailWarning } from 'lucide-react';
+import { api } from '@/services/api';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/contexts/ToastContext';
+
+/**
+ * Reminder for signed-in users who have not confirmed their email address yet
+ */
+export function EmailVerificationBanner() {
+  const { user } = useAuth();
+  const toast = useToast();
+  const [sending, setSending] = useState(false);
+
+  if (!user || user.emailVerified) return null;
+
+  const handleResend = async () => {
+    setSending(true);
+    try {
+      await api.auth.resendVerification();
+      toast.success(`Verification link sent to ${user.email}`);
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to send the verification link');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <div className="bg-yellow-50 dark:bg-yellow-900/20 border-b border-yellow-200 dark:border-yellow-800 px-8 py-2">
+      <div className="mx-auto max-w-screen-xl flex flex-wrap items-center gap-2 text-sm text-yellow-800 dark:text-yellow-300">
+        <MailWarning className="w-4 h-4 flex-shrink-0" />
+        <span>Please confirm your email address with the link we sent to {user.email}.</span>
+        <button
+          type="button"
+          onClick={handleResend}
+          disabled={sending}
+          className="font-medium underline hover:no-underline disabled:opacity-50"
+        >
+          {sending ? 'Sending…' : 'Send a new link'}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,225 @@
+import { useEffect, useState } from 'react';
+import { CalendarOff, Clock, Plus, Trash2 } from 'lucide-react';
+import type { AvailabilityWindowInput } from '@repo/shared-types';
+import { Button } from '@/components/common/Button';
+import { useAvailability } from '@/hooks/useAvailability';
+import { useToast } from '@/contexts/ToastContext';
+import { getWeekdayOrder } from '@/utils/dateUtils';
+
+interface AvailabilitySettingsProps {
+  /** Localized weekday names, 0 = Sunday */
+  weekdayNames: string[];
+  weekStartDay: number;
+}
+
+const inputClass =
+  'px-3 py-2 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md text-gray-900 dark:text-white';
+
+/**
+ * Weekly windows the planner may fill and days it must leave empty
+ */
+export function AvailabilitySettings({ weekdayNames, weekStartDay }: AvailabilitySettingsProps) {
+  const toast = useToast();
+  const {
+    windows,
+    blackouts,
+    loading,
+    replaceWindows,
+    createBlackout,
+    deleteBlackout,
+    isSavingWindows,
+    isSavingBlackout,
+  } = useAvailability();
+  const [draft, setDraft] = useState<AvailabilityWindowInput[]>([]);
+  const [blackout, setBlackout] = useState({ startDate: '', endDate: '', reason: '' });
+
+  useEffect(() => {
+    setDraft(windows.map(({ weekday, start, end }) => ({ weekday, start, end })));
+  }, [windows]);
+
+  if (loading) return null;
+
+  const updateWindow = (index: number, changes: Partial<AvailabilityWindowInput>) => {
+    setDraft(draft.map((window, i) => (i === index ? { ...window, ...changes } : window)));
+  };
+
+  const handleSaveWindows = async () => {
+    try {
+      await replaceWindows(draft);
+      toast.success('Availability saved');
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to save availability');
+    }
+  };
+
+  const handleAddBlackout = async () => {
+    if (!blackout.startDate) return;
+    try {
+      await createBlackout({
+        startDate: blackout.startDate,
+        endDate: blackout.endDate || undefined,
+        reason: blackout.reason.trim() || null,
+      });
+      setBlackout({ startDate: '', endDate: '', reason: '' });
+      toast.success('Blackout added');
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to add blackout');
+    }
+  };
+
+  const handleDeleteBlackout = async (id: string) => {
+    try {
+      await deleteBlackout(id);
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to remove blackout');
+    }
+  };
+
+  return (
+    <section className="glass-card p-6 space-y-6">
+      <div className="space-y-4">
+        <h2 className="flex items-center gap-2 text-lg font-semibold text-gray-900 dark:text-white">
+          <Clock className="w-5 h-5" />
+          Availability
+        </h2>
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          The planner and the missed-session rescheduler only use these times. Without any windows they use
+          08:00–22:00 every day.
+        </p>
+
+        {getWeekdayOrder(weekStartDay).map((weekday) => {
+          const dayWindows = draft
+            .map((window, index) => ({ window, index }))
+            .filter(({ window }) => window.weekday === weekday);
+
+          return (
+            <div key={weekday} className="flex flex-col sm:flex-row sm:items-start gap-2">
+              <span className="sm:w-32 pt-2 text-sm font-medium text-gray-700 dark:text-gray-300">
+                {weekdayNames[weekday]}
+              </span>
+              <div className="flex-1 space-y-2">
+                {dayWindows.map(({ window, index }) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <input
+                      type="time"
+                      step={900}
+                      required
+                      value={window.start}
+                      onChange={(e) => updateWindow(index, { start: e.target.value })}
+                      aria-label={`${weekdayNames[weekday]} window start`}
+                      className={inputClass}
+                    />
+                    <span className="text-gray-500 dark:text-gray-400">–</span>
+                    <input
+                      type="time"
+                      step={900}
+                      required
+                      value={window.end}
+                      onChange={(e) => updateWindow(index, { end: e.target.value })}
+                      aria-label={`${weekdayNames[weekday]} window end`}
+                      className={inputClass}
+                    />
+                    <button
+                      type="button"
+                      onClick={() => setDraft(draft.filter((_, i) => i !== index))}
+                      className="p-2 text-gray-400 hover:text-red-600 dark:hover:text-red-400 transition-colors"
+                      aria-label={`Remove ${weekdayNames[weekday]} window`}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+                <button
+                  type="button"
+                  onClick={() => setDraft([...draft, { weekday, start: '18:00', end: '20:00' }])}
+                  className="flex items-center gap-1 pt-2 text-sm text-primary-600 hover:text-primary-700 dark:text-primary-400 dark:hover:text-primary-300"
+                >
+                  <Plus className="w-4 h-4" />
+                  Add window
+                </button>
+              </div>
+            </div>
+          );
+        })}
+
+        <div className="flex justify-end">
+          <Button type="button" variant="secondary" onClick={handleSaveWindows} loading={isSavingWindows}>
+            Save availability
+          </Button>
+        </div>
+      </div>
+
+      <div className="space-y-4 border-t border-gray-200 dark:border-gray-700 pt-6">
+        <h3 className="flex items-center gap-2 font-semibold text-gray-900 dark:text-white">
+          <CalendarOff className="w-5 h-5" />
+          Blackout days
+        </h3>
+        {blackouts.length > 0 && (
+          <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+            {blackouts.map((item) => (
+              <li key={item.id} className="flex items-center justify-between gap-2 py-2 text-sm">
+                <span className="text-gray-700 dark:text-gray-300">
+                  {item.startDate === item.endDate ? item.startDate : `${item.startDate} – ${item.endDate}`}
+                  {item.reason && <span className="text-gray-500 dark:text-gray-400"> · {item.reason}</span>}
+                </span>
+                <button
+                  type="button"
+                  onClick={() => handleDeleteBlackout(item.id)}
+                  className="p-2 text-gray-400 hover:text-red-600 dark:hover:text-red-400 transition-colors"
+                  aria-label={`Remove blackout starting ${item.startDate}`}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+        <div className="flex flex-wrap items-end gap-2">
+          <div>
+            <label htmlFor="blackoutStart" className="block text-xs text-gray-600 dark:text-gray-400 mb-1">
+              From
+            </label>
+            <input
+              id="blackoutStart"
+              type="date"
+              value={blackout.startDate}
+              onChange={(e) => setBlackout({ ...blackout, startDate: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label htmlFor="blackoutEnd" className="block text-xs text-gray-600 dark:text-gray-400 mb-1">
+              To (optional)
+            </label>
+            <input
+              id="blackoutEnd"
+              type="date"
+              min={blackout.startDate || undefined}
+              value={blackout.endDate}
+              onChange={(e) => setBlackout({ ...blackout, endDate: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+          <input
+            type="text"
+            maxLength={100}
+            value={blackout.reason}
+            onChange={(e) => setBlackout({ ...blackout, reason: e.target.value })}
+            placeholder="Reason, e.g. holiday"
+            aria-label="Blackout reason"
+            className={`flex-1 min-w-[10rem] ${inputClass}`}
+          />
+          <Button
+            type="button"
+            variant="secondary"
+            onClick={handleAddBlackout}
+            loading={isSavingBlackout}
+            disabled={!blackout.startDate}
+          >
+            Add
+          </Button>
+        </div>
+      </div>
+    </section>
+  );
+}
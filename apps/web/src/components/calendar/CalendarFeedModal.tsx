@@ -0,0 +1,159 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Copy, RefreshCw, Link2Off, CalendarPlus } from 'lucide-react';
+import type { CalendarFeedStatusDto } from '@repo/shared-types';
+import { Modal } from '@/components/common/Modal';
+import { Button } from '@/components/common/Button';
+import { useToast, useToastConfirm } from '@/contexts/ToastContext';
+import { formatDate, formatTime } from '@/utils/dateUtils';
+import { api } from '@/services/api';
+
+interface CalendarFeedModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export function CalendarFeedModal({ isOpen, onClose }: CalendarFeedModalProps) {
+  const toast = useToast();
+  const confirm = useToastConfirm();
+  const [status, setStatus] = useState<CalendarFeedStatusDto | null>(null);
+  const [feedUrl, setFeedUrl] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const loadStatus = useCallback(async () => {
+    try {
+      const response = await api.calendar.getFeedStatus();
+      setStatus(response.data || null);
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to load calendar feed');
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    if (isOpen) {
+      setFeedUrl(null);
+      loadStatus();
+    }
+  }, [isOpen, loadStatus]);
+
+  const handleRotate = async () => {
+    if (status?.active) {
+      const confirmed = await confirm(
+        'Generate a new feed URL? Calendars subscribed to the current URL will stop updating.'
+      );
+      if (!confirmed) return;
+    }
+
+    setLoading(true);
+    try {
+      const response = await api.calendar.rotateFeedToken();
+      if (response.data) {
+        setFeedUrl(api.calendar.getFeedUrl(response.data.path));
+        toast.success('Calendar feed URL generated');
+        await loadStatus();
+      }
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to generate feed URL');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRevoke = async () => {
+    const confirmed = await confirm('Revoke the calendar feed? Subscribed calendars will stop updating.');
+    if (!confirmed) return;
+
+    setLoading(true);
+    try {
+      await api.calendar.revokeFeed();
+      setFeedUrl(null);
+      toast.success('Calendar feed revoked');
+      await loadStatus();
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to revoke feed');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!feedUrl) return;
+    try {
+      await navigator.clipboard.writeText(feedUrl);
+      toast.success('Feed URL copied to clipboard');
+    } catch {
+      toast.error('Could not copy, please copy the URL manually');
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Subscribe to your sessions" size="lg">
+      <div className="space-y-4">
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Add this private, read-only URL to Google Calendar, Outlook or Thunderbird ("subscribe from URL")
+          to see your planned sessions there. Anyone with the URL can read your schedule, so keep it private.
+        </p>
+
+        {feedUrl && (
+          <div className="space-y-2">
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Feed URL</label>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                readOnly
+                value={feedUrl}
+                onFocus={(e) => e.target.select()}
+                className="flex-1 px-3 py-2 bg-gray-50 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md text-sm font-mono text-gray-900 dark:text-white"
+              />
+              <Button type="button" variant="secondary" onClick={handleCopy} icon={<Copy className="w-4 h-4" />}>
+                Copy
+              </Button>
+            </div>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              This URL is only shown once. Generate a new one if you lose it.
+            </p>
+          </div>
+        )}
+
+        {status?.active && !feedUrl && (
+          <div className="p-3 rounded-lg bg-gray-50 dark:bg-gray-700/50 text-sm text-gray-700 dark:text-gray-300">
+            <p>
+              Feed active since {status.createdAt ? `${formatDate(status.createdAt)} ${formatTime(status.createdAt)}` : 'unknown'}.
+            </p>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+              {status.lastAccessedAt
+                ? `Last fetched ${formatDate(status.lastAccessedAt)} ${formatTime(status.lastAccessedAt)}`
+                : 'Not fetched by any calendar yet'}
+            </p>
+          </div>
+        )}
+
+        {status && !status.active && !feedUrl && (
+          <p className="text-sm text-gray-500 dark:text-gray-400">No calendar feed is active.</p>
+        )}
+
+        <div className="flex flex-wrap justify-end gap-3 pt-2">
+          {status?.active && (
+            <Button
+              type="button"
+              variant="danger"
+              onClick={handleRevoke}
+              disabled={loading}
+              icon={<Link2Off className="w-4 h-4" />}
+            >
+              Revoke
+            </Button>
+          )}
+          <Button
+            type="button"
+            variant="primary"
+            onClick={handleRotate}
+            loading={loading}
+            icon={status?.active ? <RefreshCw className="w-4 h-4" /> : <CalendarPlus className="w-4 h-4" />}
+          >
+            {status?.active ? 'Generate new URL' : 'Create feed URL'}
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
@@ -1,16 +1,41 @@
 import { useState, useMemo, useEffect, useRef } from 'react';
+import { AlertTriangle } from 'lucide-react';
 import type { SessionResponse } from '@repo/shared-types';
-import { getMonthDays, formatDate } from '@/utils/dateUtils';
+import { getMonthDays, getWeekdayOrder, formatDate } from '@/utils/dateUtils';
+import { useSettings } from '@/hooks/useSettings';
 import { groupSessionsByDate, getStatusBadgeClasses } from '@/utils/sessionUtils';
+import { moveToDay, type SessionReschedule } from '@/utils/calendarDragUtils';
+import { useCalendarReschedule } from '@/hooks/useCalendarReschedule';
+
+const WEEKDAY_NAMES = [
+  { short: 'S', full: 'Sunday' },
+  { short: 'M', full: 'Monday' },
+  { short: 'T', full: 'Tuesday' },
+  { short: 'W', full: 'Wednesday' },
+  { short: 'T', full: 'Thursday' },
+  { short: 'F', full: 'Friday' },
+  { short: 'S', full: 'Saturday' }
+];
 
 interface CalendarViewProps {
   sessions: SessionResponse[];
   onSessionClick?: (session: SessionResponse) => void;
   onDateClick?: (date: Date) => void;
   selectedDate?: Date;
+  /** Sessions that overlap another planned session */
+  conflictIds?: Set<string>;
+  /** Enables dragging planned sessions to another day */
+  onSessionReschedule?: (session: SessionResponse, change: SessionReschedule) => void;
 }
 
-export function CalendarView({ sessions, onSessionClick, onDateClick, selectedDate }: CalendarViewProps) {
+export function CalendarView({
+  sessions,
+  onSessionClick,
+  onDateClick,
+  selectedDate,
+  conflictIds,
+  onSessionReschedule,
+}: CalendarViewProps) {
   const [currentDate, setCurrentDate] = useState(selectedDate || new Date());
   const [focusedDayIndex, setFocusedDayIndex] = useState<number | null>(null);
   const gridRef = useRef<HTMLDivElement>(null);
@@ -22,8 +47,12 @@ export function CalendarView({ sessions, onSessionClick, onDateClick, selectedDa
     }
   }, [selectedDate]);
 
-  const days = useMemo(() => getMonthDays(currentDate), [currentDate]);
+  const { settings } = useSettings();
+  const weekStartDay = settings?.weekStartDay ?? 0;
+  const days = useMemo(() => getMonthDays(currentDate, weekStartDay), [currentDate, weekStartDay]);
   const sessionsByDate = useMemo(() => groupSessionsByDate(sessions), [sessions]);
+  const { containerRef, draggingId, dropTarget, isMovable, getSessionProps, getDropTargetProps } =
+    useCalendarReschedule({ sessions, onReschedule: onSessionReschedule, verticalUnit: 'week' });
 
   const monthName = currentDate.toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
   const today = new Date();
@@ -98,7 +127,7 @@ export function CalendarView({ sessions, onSessionClick, onDateClick, selectedDa
   };
 
   return (
-    <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6">
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6" ref={containerRef}>
       {/* Header */}
       <div className="flex items-center justify-between mb-4 sm:mb-6">
         <h2 className="text-xl sm:text-2xl font-bold text-gray-900 dark:text-white">
@@ -135,15 +164,7 @@ export function CalendarView({ sessions, onSessionClick, onDateClick, selectedDa
 
       {/* Day names */}
       <div className="grid grid-cols-7 gap-1 sm:gap-2 mb-2" role="row">
-        {[
-          { short: 'S', full: 'Sunday' },
-          { short: 'M', full: 'Monday' },
-          { short: 'T', full: 'Tuesday' },
-          { short: 'W', full: 'Wednesday' },
-          { short: 'T', full: 'Thursday' },
-          { short: 'F', full: 'Friday' },
-          { short: 'S', full: 'Saturday' }
-        ].map((day) => (
+        {getWeekdayOrder(weekStartDay).map((index) => WEEKDAY_NAMES[index]).map((day) => (
           <div
             key={day.full}
             className="text-center text-xs sm:text-sm font-semibold text-gray-600 dark:text-gray-400 py-1 sm:py-2"
@@ -163,6 +184,7 @@ export function CalendarView({ sessions, onSessionClick, onDateClick, selectedDa
           const isTodayDate = isToday(date);
           const isCurrentMonthDate = isCurrentMonth(date);
           const maxSessions = typeof window !== 'undefined' && window.innerWidth < 640 ? 2 : 3;
+          const dropKey = date.toDateString();
 
           return (
             <div
@@ -171,11 +193,13 @@ export function CalendarView({ sessions, onSessionClick, onDateClick, selectedDa
               tabIndex={focusedDayIndex === i || (focusedDayIndex === null && isTodayDate) ? 0 : -1}
               onClick={() => onDateClick?.(date)}
               onKeyDown={(e) => handleKeyDown(e, i)}
+              {...getDropTargetProps(dropKey, (session) => moveToDay(session.scheduledFor!, date))}
               aria-label={`${date.toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric', year: 'numeric' })}${daySessions.length > 0 ? `, ${daySessions.length} session${daySessions.length !== 1 ? 's' : ''}` : ''}`}
               className={`
                 min-h-[80px] sm:min-h-[100px] p-1 sm:p-2 border rounded-lg cursor-pointer transition-all
                 ${isTodayDate ? 'border-primary-500 bg-primary-50 dark:bg-primary-950' : 'border-gray-200 dark:border-gray-700'}
                 ${!isCurrentMonthDate ? 'opacity-40' : ''}
+                ${dropTarget === dropKey ? 'ring-2 ring-primary-400 bg-primary-50 dark:bg-primary-950' : ''}
                 hover:bg-gray-50 dark:hover:bg-gray-700
                 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:ring-offset-2 dark:focus:ring-offset-gray-800
               `}
@@ -184,26 +208,33 @@ export function CalendarView({ sessions, onSessionClick, onDateClick, selectedDa
                 {date.getDate()}
               </div>
               <div className="space-y-1">
-                {daySessions.slice(0, maxSessions).map((session) => (
-                  <div
-                    key={session.id}
-                    onClick={(e) => {
-                      e.stopPropagation();
-                      onSessionClick?.(session);
-                    }}
-                    className="text-xs p-1 rounded truncate cursor-pointer hover:opacity-80 transition-opacity"
-                    style={{
-                      backgroundColor: session.color || undefined,
-                    }}
-                    title={session.title}
-                    role="button"
-                    aria-label={`Session: ${session.title}`}
-                  >
-                    <span className={!session.color ? getStatusBadgeClasses(session.status) : 'text-white'}>
-                      {session.title}
-                    </span>
-                  </div>
-                ))}
+                {daySessions.slice(0, maxSessions).map((session) => {
+                  const hasConflict = conflictIds?.has(session.id) ?? false;
+                  return (
+                    <div
+                      key={session.id}
+                      {...getSessionProps(session)}
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        onSessionClick?.(session);
+                      }}
+                      className={`flex items-center gap-1 text-xs p-1 rounded truncate hover:opacity-80 transition-opacity focus:outline-none focus:ring-2 focus:ring-primary-500 ${
+                        isMovable(session) ? 'cursor-move' : 'cursor-pointer'
+                      } ${hasConflict ? 'ring-2 ring-red-500 ring-inset' : ''} ${draggingId === session.id ? 'opacity-50' : ''}`}
+                      style={{
+                        backgroundColor: session.color || undefined,
+                      }}
+                      title={hasConflict ? `${session.title} (overlaps another session)` : session.title}
+                      role="button"
+                      aria-label={`Session: ${session.title}${hasConflict ? ', overlaps another session' : ''}`}
+                    >
+                      {hasConflict && <AlertTriangle className="w-3 h-3 flex-shrink-0 text-red-600 dark:text-red-400" />}
+                      <span className={`truncate ${!session.color ? getStatusBadgeClasses(session.status) : 'text-white'}`}>
+                        {session.title}
+                      </span>
+                    </div>
+                  );
+                })}
                 {daySessions.length > maxSessions && (
                   <div className="text-xs text-gray-500 dark:text-gray-400 pl-1">
                     +{daySessions.length - maxSessions} more
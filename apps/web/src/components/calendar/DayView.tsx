@@ -3,17 +3,49 @@ import type { SessionResponse } from '@repo/shared-types';
 import { formatTime } from '@/utils/dateUtils';
 import { getCategoryIconComponent } from '@/utils/iconUtils';
 import { getSessionDuration } from '@/utils/sessionUtils';
-import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { atMinuteOfDay, getMinuteInSlot, type SessionReschedule } from '@/utils/calendarDragUtils';
+import { useCalendarReschedule } from '@/hooks/useCalendarReschedule';
+import { AlertTriangle, ChevronLeft, ChevronRight } from 'lucide-react';
 
 interface DayViewProps {
   sessions: SessionResponse[];
   onSessionClick: (session: SessionResponse) => void;
   onTimeSlotClick: (date: Date, hour: number) => void;
   selectedDate?: Date;
+  /** Sessions that overlap another planned session */
+  conflictIds?: Set<string>;
+  /** Enables dragging planned sessions to another slot and resizing them */
+  onSessionReschedule?: (session: SessionResponse, change: SessionReschedule) => void;
 }
 
-export function DayView({ sessions, onSessionClick, onTimeSlotClick, selectedDate = new Date() }: DayViewProps) {
+/** Height of an hour slot */
+const HOUR_HEIGHT_PX = 80;
+
+export function DayView({
+  sessions,
+  onSessionClick,
+  onTimeSlotClick,
+  selectedDate = new Date(),
+  conflictIds,
+  onSessionReschedule,
+}: DayViewProps) {
   const [currentDate, setCurrentDate] = useState(selectedDate);
+  const {
+    containerRef,
+    draggingId,
+    dropTarget,
+    resizingId,
+    isMovable,
+    getSessionProps,
+    getDropTargetProps,
+    getResizeHandleProps,
+    getDisplaySession,
+  } = useCalendarReschedule({
+    sessions,
+    onReschedule: onSessionReschedule,
+    verticalUnit: 'step',
+    pixelsPerHour: HOUR_HEIGHT_PX,
+  });
 
   // Sync currentDate with selectedDate prop changes
   useEffect(() => {
@@ -68,7 +100,7 @@ export function DayView({ sessions, onSessionClick, onTimeSlotClick, selectedDat
   };
 
   return (
-    <div className="bg-white dark:bg-gray-800 rounded-lg shadow">
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow" ref={containerRef}>
       {/* Header */}
       <div className="p-4 border-b border-gray-200 dark:border-gray-700">
         <div className="flex items-center justify-between">
@@ -109,7 +141,7 @@ export function DayView({ sessions, onSessionClick, onTimeSlotClick, selectedDat
             let minuteOffset = 0;
             if (isCurrentHour) {
               const currentMinutes = new Date().getMinutes();
-              minuteOffset = (currentMinutes / 60) * 80; // 80px is the min-height of each hour slot
+              minuteOffset = (currentMinutes / 60) * HOUR_HEIGHT_PX;
             }
 
             return (
@@ -140,22 +172,36 @@ export function DayView({ sessions, onSessionClick, onTimeSlotClick, selectedDat
                         slotDate.setHours(hour, 0, 0, 0);
                         onTimeSlotClick(slotDate, hour);
                       }}
-                      className="min-h-[80px] border border-gray-200 dark:border-gray-700 rounded-lg p-2 hover:bg-gray-50 dark:hover:bg-gray-700/50 cursor-pointer transition-colors"
+                      className={`min-h-[80px] border rounded-lg p-2 hover:bg-gray-50 dark:hover:bg-gray-700/50 cursor-pointer transition-colors ${
+                        dropTarget === String(hour)
+                          ? 'border-primary-400 ring-2 ring-primary-400 bg-primary-50 dark:bg-primary-950'
+                          : 'border-gray-200 dark:border-gray-700'
+                      }`}
+                      {...getDropTargetProps(String(hour), (_session, e) =>
+                        atMinuteOfDay(currentDate, hour * 60 + getMinuteInSlot(e.clientY, e.currentTarget.getBoundingClientRect()))
+                      )}
                     >
                       {hourSessions.length > 0 ? (
                         <div className="space-y-2">
                           {hourSessions.map((session) => {
                             const CategoryIcon = getCategoryIconComponent(session.category);
                             const statusColor = getStatusColor(session.status);
+                            const hasConflict = conflictIds?.has(session.id) ?? false;
+                            const movable = isMovable(session);
 
                             return (
                               <div
                                 key={session.id}
+                                {...getSessionProps(session)}
                                 onClick={(e) => {
                                   e.stopPropagation();
                                   onSessionClick(session);
                                 }}
-                                className={`border-l-4 ${statusColor} rounded-lg p-3 cursor-pointer hover:shadow-md transition-shadow`}
+                                className={`relative border-l-4 ${statusColor} ${
+                                  hasConflict ? 'ring-2 ring-red-500' : ''
+                                } ${movable ? 'cursor-move' : 'cursor-pointer'} ${
+                                  draggingId === session.id ? 'opacity-50' : ''
+                                } rounded-lg p-3 hover:shadow-md transition-shadow focus:outline-none focus:ring-2 focus:ring-primary-500`}
                               >
                                 <div className="flex items-start gap-2">
                                   <div className="p-1.5 bg-indigo-100 dark:bg-indigo-900 rounded">
@@ -168,10 +214,26 @@ export function DayView({ sessions, onSessionClick, onTimeSlotClick, selectedDat
                                     <div className="flex items-center gap-2 text-xs text-gray-600 dark:text-gray-400 mt-1">
                                       <span>{formatTime(session.scheduledFor!)}</span>
                                       <span>•</span>
-                                      <span>{getSessionDuration(session)}</span>
+                                      <span>{getSessionDuration(getDisplaySession(session))}</span>
+                                      {hasConflict && (
+                                        <span className="flex items-center gap-1 text-red-600 dark:text-red-400">
+                                          <AlertTriangle className="w-3 h-3" />
+                                          Overlaps another session
+                                        </span>
+                                      )}
                                     </div>
                                   </div>
                                 </div>
+                                {movable && (
+                                  <div
+                                    {...getResizeHandleProps(session)}
+                                    className={`absolute inset-x-0 bottom-0 h-2 cursor-ns-resize rounded-b-lg touch-none ${
+                                      resizingId === session.id
+                                        ? 'bg-primary-400'
+                                        : 'hover:bg-primary-300 dark:hover:bg-primary-700'
+                                    }`}
+                                  />
+                                )}
                               </div>
                             );
                           })}
@@ -1,21 +1,34 @@
 import { useState, useMemo, useEffect } from 'react';
+import { AlertTriangle } from 'lucide-react';
 import type { SessionResponse } from '@repo/shared-types';
 import { formatDate, formatTime, getWeekDays } from '@/utils/dateUtils';
 import { getStatusColor, getSessionDuration } from '@/utils/sessionUtils';
 import { getCategoryIconComponent } from '@/utils/iconUtils';
+import { useSettings } from '@/hooks/useSettings';
+import { useCalendarReschedule } from '@/hooks/useCalendarReschedule';
+import { atMinuteOfDay, getMinuteInSlot, type SessionReschedule } from '@/utils/calendarDragUtils';
 
 interface WeekViewProps {
   sessions: SessionResponse[];
   onSessionClick?: (session: SessionResponse) => void;
   onTimeSlotClick?: (date: Date, hour: number) => void;
   selectedDate?: Date;
+  /** Sessions that overlap another planned session */
+  conflictIds?: Set<string>;
+  /** Enables dragging planned sessions to another slot and resizing them */
+  onSessionReschedule?: (session: SessionResponse, change: SessionReschedule) => void;
 }
 
+/** Height of an hour row */
+const HOUR_HEIGHT_PX = 60;
+
 export function WeekView({
   sessions,
   onSessionClick,
   onTimeSlotClick,
-  selectedDate = new Date()
+  selectedDate = new Date(),
+  conflictIds,
+  onSessionReschedule
 }: WeekViewProps) {
   const [currentWeek, setCurrentWeek] = useState(selectedDate);
 
@@ -30,7 +43,9 @@ export function WeekView({
   };
 
   // Get the 7 days of the current week
-  const weekDays = useMemo(() => getWeekDays(currentWeek), [currentWeek]);
+  const { settings } = useSettings();
+  const weekStartDay = settings?.weekStartDay ?? 0;
+  const weekDays = useMemo(() => getWeekDays(currentWeek, weekStartDay), [currentWeek, weekStartDay]);
 
   // Time slots (6 AM to 11 PM)
   const timeSlots = useMemo(() => {
@@ -63,6 +78,23 @@ export function WeekView({
     return grouped;
   }, [sessions, weekDays]);
 
+  const {
+    containerRef,
+    draggingId,
+    dropTarget,
+    resizingId,
+    isMovable,
+    getSessionProps,
+    getDropTargetProps,
+    getResizeHandleProps,
+    getDisplaySession
+  } = useCalendarReschedule({
+    sessions,
+    onReschedule: onSessionReschedule,
+    verticalUnit: 'step',
+    pixelsPerHour: HOUR_HEIGHT_PX
+  });
+
   // Get sessions for a specific time slot
   const getSessionsForSlot = (date: Date, hour: number) => {
     const dayKey = getLocalDateKey(date);
@@ -124,7 +156,7 @@ export function WeekView({
   const weekRangeText = `${formatDate(weekStart)} - ${formatDate(weekEnd)}`;
 
   return (
-    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg">
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg" ref={containerRef}>
       {/* Header */}
       <div className="p-4 border-b border-gray-200 dark:border-gray-700">
         <div className="flex items-center justify-between">
@@ -218,31 +250,41 @@ export function WeekView({
                 {weekDays.map((day, dayIndex) => {
                   const slotSessions = getSessionsForSlot(day, hour);
                   const isTodayDay = isToday(day);
+                  const dropKey = `${getLocalDateKey(day)}-${hour}`;
 
                   return (
                     <div
                       key={dayIndex}
                       className={`relative min-h-[60px] p-1 border-l border-gray-100 dark:border-gray-700 cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-700/50 transition-colors ${
                         isTodayDay ? 'bg-primary-50/30 dark:bg-primary-950/30' : ''
-                      }`}
+                      } ${dropTarget === dropKey ? 'ring-2 ring-inset ring-primary-400 bg-primary-50 dark:bg-primary-950' : ''}`}
                       onClick={() => onTimeSlotClick?.(day, hour)}
+                      {...getDropTargetProps(dropKey, (_session, e) =>
+                        atMinuteOfDay(day, hour * 60 + getMinuteInSlot(e.clientY, e.currentTarget.getBoundingClientRect()))
+                      )}
                     >
                       {slotSessions.map((session) => {
                         const CategoryIcon = getCategoryIconComponent(session.category);
+                        const hasConflict = conflictIds?.has(session.id) ?? false;
+                        const movable = isMovable(session);
                         return (
                           <div
                             key={session.id}
+                            {...getSessionProps(session)}
                             onClick={(e) => {
                               e.stopPropagation();
                               onSessionClick?.(session);
                             }}
-                            className={`mb-1 p-1 rounded text-xs cursor-pointer hover:shadow-md transition-shadow border-l-2 ${
+                            className={`relative mb-1 p-1 rounded text-xs hover:shadow-md transition-shadow border-l-2 focus:outline-none focus:ring-2 focus:ring-primary-500 ${
+                              movable ? 'cursor-move' : 'cursor-pointer'
+                            } ${draggingId === session.id ? 'opacity-50' : ''} ${
                               session.status === 'completed' ? 'border-l-green-500 bg-green-50 dark:bg-green-950' :
                               session.status === 'in_progress' ? 'border-l-blue-500 bg-blue-50 dark:bg-blue-950' :
                               session.status === 'missed' ? 'border-l-red-500 bg-red-50 dark:bg-red-950' :
                               session.status === 'cancelled' ? 'border-l-gray-500 bg-gray-50 dark:bg-gray-800' :
                               'border-l-primary-500 bg-primary-50 dark:bg-primary-950'
-                            }`}
+                            } ${hasConflict ? 'ring-2 ring-red-500' : ''}`}
+                            title={hasConflict ? 'Overlaps another session' : undefined}
                           >
                             <div className="flex items-center gap-1">
                               <div className="p-0.5 bg-indigo-100 dark:bg-indigo-900 rounded flex-shrink-0">
@@ -251,10 +293,24 @@ export function WeekView({
                               <div className="font-semibold text-gray-900 dark:text-white truncate">
                                 {session.title}
                               </div>
+                              {hasConflict && (
+                                <AlertTriangle
+                                  className="w-3 h-3 flex-shrink-0 text-red-600 dark:text-red-400"
+                                  aria-label="Overlaps another session"
+                                />
+                              )}
                             </div>
                             <div className="text-gray-600 dark:text-gray-400 text-[10px] mt-0.5">
-                              {formatTime(session.scheduledFor!)} • {getSessionDuration(session)}
+                              {formatTime(session.scheduledFor!)} • {getSessionDuration(getDisplaySession(session))}
                             </div>
+                            {movable && (
+                              <div
+                                {...getResizeHandleProps(session)}
+                                className={`absolute inset-x-0 bottom-0 h-1.5 cursor-ns-resize rounded-b touch-none ${
+                                  resizingId === session.id ? 'bg-primary-400' : 'hover:bg-primary-300 dark:hover:bg-primary-700'
+                                }`}
+                              />
+                            )}
                           </div>
                         );
                       })}
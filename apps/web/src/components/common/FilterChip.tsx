@@ -1,6 +1,6 @@
 import type { ReactNode } from 'react';
 import { getCategoryStyle } from '@/utils/categoryStyles';
-import type { SessionCategory } from '@repo/shared-types';
+import type { CategoryColor } from '@repo/shared-types';
 
 interface FilterChipProps {
   /** Chip label */
@@ -15,6 +15,8 @@ interface FilterChipProps {
   onToggle: (value: string) => void;
   /** Chip variant */
   variant?: 'default' | 'category' | 'status' | 'priority';
+  /** Category color used by the category variant */
+  color?: CategoryColor;
 }
 
 /**
@@ -27,6 +29,7 @@ export function FilterChip({
   icon,
   onToggle,
   variant = 'default',
+  color,
 }: FilterChipProps) {
   const handleClick = () => {
     onToggle(value);
@@ -45,10 +48,8 @@ export function FilterChip({
 
     if (isActive) {
       if (variant === 'category') {
-        // Use category gradient for active category chips - safely cast with fallback
-        const validCategories = ['school', 'programming', 'language', 'personal', 'other'];
-        const category = validCategories.includes(value) ? (value as SessionCategory) : 'other';
-        const categoryStyle = getCategoryStyle(category);
+        // Use category gradient for active category chips, gray without a color
+        const categoryStyle = getCategoryStyle(color ? { color } : null);
         return `${baseClasses} ${categoryStyle.gradient} text-white shadow-md hover:shadow-lg hover:scale-105 active:scale-95`;
       }
 
@@ -0,0 +1,198 @@
+import { useMemo, useRef, useState } from 'react';
+import { X } from 'lucide-react';
+import { useTags } from '@/hooks/useTags';
+import { categoryStyles } from '@/utils/categoryStyles';
+
+/** Most suggestions shown below the input */
+const MAX_SUGGESTIONS = 8;
+
+interface TagInputProps {
+  value: string[];
+  onChange: (tags: string[]) => void;
+  onBlur?: () => void;
+  maxTags?: number;
+  placeholder?: string;
+  id?: string;
+}
+
+/**
+ * Tag chips with an input that suggests the user's existing tags
+ */
+export function TagInput({
+  value,
+  onChange,
+  onBlur,
+  maxTags = 10,
+  placeholder = 'Add a tag...',
+  id,
+}: TagInputProps) {
+  const { tags } = useTags();
+  const [input, setInput] = useState('');
+  const [isOpen, setIsOpen] = useState(false);
+  const [highlighted, setHighlighted] = useState(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const colors = useMemo(() => new Map(tags.map((tag) => [tag.name, tag.color])), [tags]);
+
+  // Prefix matches first, then the remaining substring matches
+  const suggestions = useMemo(() => {
+    const query = input.trim().toLowerCase();
+    const selected = new Set(value.map((tag) => tag.toLowerCase()));
+    const available = tags.filter((tag) => !selected.has(tag.name.toLowerCase()));
+    if (!query) return available.slice(0, MAX_SUGGESTIONS);
+
+    const prefix = available.filter((tag) => tag.name.toLowerCase().startsWith(query));
+    const contains = available.filter(
+      (tag) => !tag.name.toLowerCase().startsWith(query) && tag.name.toLowerCase().includes(query)
+    );
+    return [...prefix, ...contains].slice(0, MAX_SUGGESTIONS);
+  }, [input, tags, value]);
+
+  const isFull = value.length >= maxTags;
+
+  const addTag = (raw: string) => {
+    const trimmed = raw.trim();
+    if (!trimmed || isFull) return;
+
+    // Reuse the existing spelling so "react" doesn't become a second "React"
+    const existing = tags.find((tag) => tag.name.toLowerCase() === trimmed.toLowerCase());
+    const name = existing?.name ?? trimmed;
+    if (!value.some((tag) => tag.toLowerCase() === name.toLowerCase())) {
+      onChange([...value, name]);
+    }
+    setInput('');
+    setHighlighted(0);
+  };
+
+  const removeTag = (tag: string) => {
+    onChange(value.filter((t) => t !== tag));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault();
+        setIsOpen(true);
+        setHighlighted((prev) => Math.min(prev + 1, suggestions.length - 1));
+        break;
+      case 'ArrowUp':
+        e.preventDefault();
+        setHighlighted((prev) => Math.max(prev - 1, 0));
+        break;
+      case 'Enter':
+      case ',':
+        e.preventDefault();
+        if (isOpen && input.trim() && suggestions[highlighted]) {
+          addTag(suggestions[highlighted].name);
+        } else {
+          addTag(input);
+        }
+        break;
+      case 'Escape':
+        if (isOpen) {
+          // Keep the surrounding modal open
+          e.stopPropagation();
+          setIsOpen(false);
+        }
+        break;
+      case 'Backspace':
+        if (!input && value.length > 0) {
+          removeTag(value[value.length - 1]);
+        }
+        break;
+    }
+  };
+
+  const showSuggestions = isOpen && !isFull && suggestions.length > 0;
+  const listId = id ? `${id}-suggestions` : undefined;
+
+  return (
+    <div className="relative">
+      <div
+        className="flex flex-wrap items-center gap-2 px-3 py-2 min-h-[44px] border border-gray-300 dark:border-gray-600 rounded-lg focus-within:ring-2 focus-within:ring-primary-500 dark:bg-gray-700 transition-all cursor-text"
+        onClick={() => inputRef.current?.focus()}
+      >
+        {value.map((tag) => (
+          <span
+            key={tag}
+            className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-sm animate-fade-in ${
+              categoryStyles[colors.get(tag) ?? 'gray'].badge
+            }`}
+          >
+            {tag}
+            <button
+              type="button"
+              onClick={(e) => {
+                e.stopPropagation();
+                removeTag(tag);
+              }}
+              className="opacity-70 hover:opacity-100 transition-opacity"
+              aria-label={`Remove tag ${tag}`}
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </span>
+        ))}
+        <input
+          ref={inputRef}
+          id={id}
+          type="text"
+          value={input}
+          maxLength={50}
+          disabled={isFull}
+          onChange={(e) => {
+            setInput(e.target.value);
+            setIsOpen(true);
+            setHighlighted(0);
+          }}
+          onFocus={() => setIsOpen(true)}
+          onBlur={() => {
+            setIsOpen(false);
+            if (input.trim()) addTag(input);
+            onBlur?.();
+          }}
+          onKeyDown={handleKeyDown}
+          placeholder={isFull ? `Maximum of ${maxTags} tags` : placeholder}
+          role="combobox"
+          aria-expanded={showSuggestions}
+          aria-controls={listId}
+          aria-autocomplete="list"
+          className="flex-1 min-w-[8rem] bg-transparent outline-none text-gray-900 dark:text-white disabled:cursor-not-allowed"
+        />
+      </div>
+
+      {showSuggestions && (
+        <ul
+          id={listId}
+          role="listbox"
+          className="absolute z-20 mt-1 w-full max-h-60 overflow-auto bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg py-1"
+        >
+          {suggestions.map((tag, index) => (
+            <li
+              key={tag.name}
+              role="option"
+              aria-selected={index === highlighted}
+              // mousedown fires before the input's blur
+              onMouseDown={(e) => {
+                e.preventDefault();
+                addTag(tag.name);
+              }}
+              onMouseEnter={() => setHighlighted(index)}
+              className={`flex items-center justify-between gap-2 px-3 py-2 text-sm cursor-pointer ${
+                index === highlighted
+                  ? 'bg-primary-50 dark:bg-primary-900/30 text-primary-700 dark:text-primary-300'
+                  : 'text-gray-700 dark:text-gray-300'
+              }`}
+            >
+              <span className="flex items-center gap-2 min-w-0">
+                <span className={`w-2.5 h-2.5 rounded-full flex-shrink-0 ${categoryStyles[tag.color].swatch}`} />
+                <span className="truncate">{tag.name}</span>
+              </span>
+              <span className="text-xs text-gray-400">{tag.sessionCount}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { Trophy, Star, Flame, Target, Award, Zap } from 'lucide-react'
+import { Trophy, Star, Flame, Target, Award, Zap, Timer } from 'lucide-react'
 import type { AchievementDto } from '@repo/shared-types'
 
 interface AchievementCardProps {
@@ -13,6 +13,7 @@ const iconMap: Record<string, any> = {
   Target,
   Award,
   Zap,
+  Timer,
 }
 
 export function AchievementCard({ achievement, size = 'md' }: AchievementCardProps) {
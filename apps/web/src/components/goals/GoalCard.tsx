@@ -0,0 +1,116 @@
+import { Pencil, Trash2 } from 'lucide-react';
+import type { GoalResponse } from '@repo/shared-types';
+import { categoryStyles } from '@/utils/categoryStyles';
+import { GOAL_STATUS_LABELS, formatGoalAmount, goalStatusStyles } from '@/utils/goalUtils';
+
+interface GoalCardProps {
+  goal: GoalResponse;
+  onEdit?: (goal: GoalResponse) => void;
+  onDelete?: (goal: GoalResponse) => void;
+}
+
+/**
+ * Describe the pace a goal still needs, or how it ended
+ */
+function describePace(goal: GoalResponse): string {
+  const { progress, metric } = goal;
+  if (progress.status === 'completed') {
+    return goal.cadence === 'once' ? 'Target reached' : 'Target reached for this period';
+  }
+  if (progress.status === 'missed') {
+    return `Ended ${formatGoalAmount(progress.remaining, metric)} short`;
+  }
+  if (progress.requiredPerDay === null || progress.daysLeft === null) {
+    return `${formatGoalAmount(progress.remaining, metric)} to go`;
+  }
+  const days = `${progress.daysLeft} day${progress.daysLeft !== 1 ? 's' : ''} left`;
+  return `${formatGoalAmount(progress.requiredPerDay, metric)}/day needed · ${days}`;
+}
+
+export function GoalCard({ goal, onEdit, onDelete }: GoalCardProps) {
+  const { progress } = goal;
+  const styles = goalStatusStyles[progress.status];
+  const expectedPercent =
+    progress.expected !== null && goal.target > 0
+      ? Math.min(100, (progress.expected / goal.target) * 100)
+      : null;
+
+  return (
+    <div className="group bg-white dark:bg-gray-800 rounded-lg shadow-md p-4 space-y-3">
+      <div className="flex items-start justify-between gap-2">
+        <div className="min-w-0">
+          <h3 className="font-semibold text-gray-900 dark:text-white truncate">{goal.title}</h3>
+          <div className="mt-1 flex flex-wrap gap-1">
+            {goal.category && (
+              <span className={`px-2 py-0.5 rounded-full text-xs ${categoryStyles[goal.category.color].badge}`}>
+                {goal.category.name}
+              </span>
+            )}
+            {goal.tags.map((tag) => (
+              <span
+                key={tag}
+                className="px-2 py-0.5 rounded-full text-xs bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300"
+              >
+                #{tag}
+              </span>
+            ))}
+          </div>
+        </div>
+        <span className={`shrink-0 px-2 py-0.5 rounded-full text-xs font-medium ${styles.badge}`}>
+          {GOAL_STATUS_LABELS[progress.status]}
+        </span>
+      </div>
+
+      <div>
+        <div className="flex justify-between text-sm text-gray-700 dark:text-gray-300 mb-1">
+          <span>
+            {formatGoalAmount(progress.current, goal.metric)} of {formatGoalAmount(goal.target, goal.metric)}
+            {goal.cadence !== 'once' && (
+              <span className="text-gray-500 dark:text-gray-400"> this {goal.cadence === 'weekly' ? 'week' : 'month'}</span>
+            )}
+          </span>
+          <span>{progress.percentage}%</span>
+        </div>
+        <div className="relative h-2 rounded-full bg-gray-200 dark:bg-gray-700 overflow-hidden">
+          <div
+            className={`h-full ${styles.bar} transition-all duration-300`}
+            style={{ width: `${progress.percentage}%` }}
+          />
+          {expectedPercent !== null && progress.status !== 'completed' && (
+            <div
+              className="absolute top-0 h-full w-0.5 bg-gray-900/60 dark:bg-white/70"
+              style={{ left: `${expectedPercent}%` }}
+              title={`Even pace: ${formatGoalAmount(progress.expected ?? 0, goal.metric)} by now`}
+            />
+          )}
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between text-xs text-gray-500 dark:text-gray-400">
+        <span>{describePace(goal)}</span>
+        {(onEdit || onDelete) && (
+          <div className="flex opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+            {onEdit && (
+              <button
+                onClick={() => onEdit(goal)}
+                className="p-1 hover:text-primary-600 dark:hover:text-primary-400"
+                aria-label={`Edit ${goal.title}`}
+              >
+                <Pencil className="w-4 h-4" />
+              </button>
+            )}
+            {onDelete && (
+              <button
+                onClick={() => onDelete(goal)}
+                className="p-1 hover:text-red-600 dark:hover:text-red-400"
+                aria-label={`Delete ${goal.title}`}
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,194 @@
+import { useState } from 'react';
+import type { CreateGoalDto, GoalCadence, GoalMetric, GoalResponse } from '@repo/shared-types';
+import { GOAL_CADENCES, GOAL_METRICS } from '@repo/shared-types';
+import { Button } from '@/components/common/Button';
+import { TagInput } from '@/components/common/TagInput';
+import { useCategories } from '@/hooks/useCategories';
+import {
+  GOAL_CADENCE_LABELS,
+  GOAL_METRIC_LABELS,
+  fromDateInputValue,
+  toDateInputValue,
+} from '@/utils/goalUtils';
+
+interface GoalFormProps {
+  goal?: GoalResponse | null;
+  onSubmit: (dto: CreateGoalDto) => Promise<void>;
+  onCancel: () => void;
+  isSaving?: boolean;
+}
+
+const inputClass =
+  'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-primary-500 dark:bg-gray-700 dark:text-white';
+const labelClass = 'block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1';
+
+/**
+ * Create or edit a goal: what to count, how much, in which scope and by when
+ */
+export function GoalForm({ goal, onSubmit, onCancel, isSaving = false }: GoalFormProps) {
+  const { categoryOptions } = useCategories();
+  const [title, setTitle] = useState(goal?.title ?? '');
+  const [metric, setMetric] = useState<GoalMetric>(goal?.metric ?? 'hours');
+  const [target, setTarget] = useState<number | ''>(goal?.target ?? '');
+  const [cadence, setCadence] = useState<GoalCadence>(goal?.cadence ?? 'once');
+  const [categoryId, setCategoryId] = useState(goal?.categoryId ?? '');
+  const [tags, setTags] = useState<string[]>(goal?.tags ?? []);
+  const [startDate, setStartDate] = useState(toDateInputValue(goal?.startDate ?? new Date().toISOString()));
+  const [deadline, setDeadline] = useState(goal?.deadline ? toDateInputValue(goal.deadline) : '');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (target === '') return;
+    await onSubmit({
+      title: title.trim(),
+      metric,
+      target,
+      cadence,
+      categoryId: categoryId || null,
+      tags,
+      startDate: fromDateInputValue(startDate),
+      deadline: deadline ? fromDateInputValue(deadline, true) : null,
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div>
+        <label htmlFor="goalTitle" className={labelClass}>
+          Title
+        </label>
+        <input
+          id="goalTitle"
+          type="text"
+          required
+          maxLength={100}
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          placeholder="e.g. Spanish before the exam"
+          className={inputClass}
+        />
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="goalMetric" className={labelClass}>
+            Count
+          </label>
+          <select
+            id="goalMetric"
+            value={metric}
+            onChange={(e) => setMetric(e.target.value as GoalMetric)}
+            className={inputClass}
+          >
+            {GOAL_METRICS.map((value) => (
+              <option key={value} value={value}>
+                {GOAL_METRIC_LABELS[value]}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="goalTarget" className={labelClass}>
+            Target{cadence !== 'once' ? ` per ${cadence === 'weekly' ? 'week' : 'month'}` : ''}
+          </label>
+          <input
+            id="goalTarget"
+            type="number"
+            required
+            min={metric === 'hours' ? 0.5 : 1}
+            step={metric === 'hours' ? 0.5 : 1}
+            max={100000}
+            value={target}
+            onChange={(e) => setTarget(e.target.value ? Number(e.target.value) : '')}
+            className={inputClass}
+          />
+        </div>
+      </div>
+
+      <div>
+        <label htmlFor="goalCadence" className={labelClass}>
+          Repeat
+        </label>
+        <select
+          id="goalCadence"
+          value={cadence}
+          onChange={(e) => setCadence(e.target.value as GoalCadence)}
+          className={inputClass}
+        >
+          {GOAL_CADENCES.map((value) => (
+            <option key={value} value={value}>
+              {GOAL_CADENCE_LABELS[value]}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="goalCategory" className={labelClass}>
+            Category
+          </label>
+          <select
+            id="goalCategory"
+            value={categoryId}
+            onChange={(e) => setCategoryId(e.target.value)}
+            className={inputClass}
+          >
+            <option value="">Any category</option>
+            {categoryOptions.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">Subcategories count too.</p>
+        </div>
+        <div>
+          <label htmlFor="goalTags" className={labelClass}>
+            Tags
+          </label>
+          <TagInput id="goalTags" value={tags} onChange={setTags} placeholder="Any tag" />
+          <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">Sessions with any of these tags count.</p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="goalStart" className={labelClass}>
+            Counting from
+          </label>
+          <input
+            id="goalStart"
+            type="date"
+            required
+            value={startDate}
+            onChange={(e) => setStartDate(e.target.value)}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label htmlFor="goalDeadline" className={labelClass}>
+            Deadline{cadence !== 'once' ? ' (optional end)' : ''}
+          </label>
+          <input
+            id="goalDeadline"
+            type="date"
+            min={startDate}
+            value={deadline}
+            onChange={(e) => setDeadline(e.target.value)}
+            className={inputClass}
+          />
+        </div>
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="secondary" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button type="submit" variant="primary" loading={isSaving}>
+          {goal ? 'Save' : 'Create goal'}
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,120 @@
+import { useState } from 'react';
+import { Plus, Target } from 'lucide-react';
+import type { CreateGoalDto, GoalResponse } from '@repo/shared-types';
+import { Button } from '@/components/common/Button';
+import { Modal } from '@/components/common/Modal';
+import { useGoals } from '@/hooks/useGoals';
+import { useToast } from '@/contexts/ToastContext';
+import { GoalCard } from './GoalCard';
+import { GoalForm } from './GoalForm';
+
+/**
+ * Dashboard section listing the user's goals with progress and pace
+ */
+export function GoalsWidget() {
+  const toast = useToast();
+  const { goals, loading, createGoal, updateGoal, deleteGoal, isSaving, isDeleting } = useGoals();
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editing, setEditing] = useState<GoalResponse | null>(null);
+  const [deleting, setDeleting] = useState<GoalResponse | null>(null);
+
+  const closeForm = () => {
+    setIsFormOpen(false);
+    setEditing(null);
+  };
+
+  const handleSubmit = async (dto: CreateGoalDto) => {
+    try {
+      if (editing) {
+        await updateGoal(editing.id, dto);
+        toast.success('Goal updated');
+      } else {
+        await createGoal(dto);
+        toast.success('Goal created');
+      }
+      closeForm();
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to save goal');
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+    try {
+      await deleteGoal(deleting.id);
+      toast.success(`Deleted "${deleting.title}"`);
+      setDeleting(null);
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to delete goal');
+    }
+  };
+
+  if (loading) return null;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-xl font-semibold text-gray-900 dark:text-gray-100 flex items-center gap-2">
+          <Target className="w-5 h-5 text-primary-500" />
+          Goals
+        </h2>
+        <button
+          onClick={() => setIsFormOpen(true)}
+          className="flex items-center gap-1 text-sm text-primary-600 hover:text-primary-700 dark:text-primary-400 dark:hover:text-primary-300 font-medium transition-colors"
+        >
+          <Plus className="w-4 h-4" />
+          New Goal
+        </button>
+      </div>
+
+      {goals.length === 0 ? (
+        <div className="glass-card p-6 rounded-lg text-sm text-gray-600 dark:text-gray-400">
+          Set a target such as "40 hours of languages by the exam" or "5 sessions every week" and track
+          whether you are on pace.
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {goals.map((goal) => (
+            <GoalCard
+              key={goal.id}
+              goal={goal}
+              onEdit={(selected) => {
+                setEditing(selected);
+                setIsFormOpen(true);
+              }}
+              onDelete={setDeleting}
+            />
+          ))}
+        </div>
+      )}
+
+      <Modal isOpen={isFormOpen} onClose={closeForm} title={editing ? 'Edit goal' : 'New goal'} size="md">
+        <GoalForm
+          key={editing?.id ?? 'new'}
+          goal={editing}
+          onSubmit={handleSubmit}
+          onCancel={closeForm}
+          isSaving={isSaving}
+        />
+      </Modal>
+
+      <Modal isOpen={!!deleting} onClose={() => setDeleting(null)} title="Delete goal" size="sm">
+        {deleting && (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-700 dark:text-gray-300">
+              Delete <strong>{deleting.title}</strong>? Your sessions are not affected.
+            </p>
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="secondary" onClick={() => setDeleting(null)}>
+                Cancel
+              </Button>
+              <Button type="button" variant="danger" onClick={handleDelete} loading={isDeleting}>
+                Delete
+              </Button>
+            </div>
+          </div>
+        )}
+      </Modal>
+    </div>
+  );
+}
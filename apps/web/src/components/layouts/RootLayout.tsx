@@ -7,7 +7,12 @@ import { useGlobalShortcuts } from '@/contexts/GlobalShortcutsContext'
 import { FloatingActionButton } from '@/components/common/FloatingActionButton'
 import { Modal } from '@/components/common/Modal'
 import { SessionForm } from '@/components/sessions/SessionForm'
+import { TimerWidget } from '@/components/timer/TimerWidget'
+import { EmailVerificationBanner } from '@/components/auth/EmailVerificationBanner'
 import { useSessions } from '@/hooks/useSessions'
+import { useToast } from '@/contexts/ToastContext'
+import { getConflictWarning } from '@/utils/sessionUtils'
+import { useLocalDataMigration } from '@/hooks/useLocalDataMigration'
 
 export default function RootLayout() {
   const location = useLocation()
@@ -17,6 +22,8 @@ export default function RootLayout() {
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false)
   const [showQuickCreate, setShowQuickCreate] = useState(false)
   const { createSession } = useSessions()
+  const toast = useToast()
+  useLocalDataMigration(user?.id ?? null)
 
   const handleLogout = async () => {
     await logout()
@@ -77,6 +84,10 @@ export default function RootLayout() {
     { to: '/calendar', label: 'Calendar' },
     { to: '/sessions', label: 'Sessions' },
     { to: '/statistics', label: 'Statistics' },
+    { to: '/categories', label: 'Categories' },
+    { to: '/tags', label: 'Tags' },
+    { to: '/settings', label: 'Settings' },
+    { to: '/security', label: 'Security' },
   ]
 
   return (
@@ -106,10 +117,14 @@ export default function RootLayout() {
                 ))}
                 <ThemeToggle />
                 <div className="flex items-center gap-2 border-l border-gray-300 dark:border-gray-600 pl-4">
-                  <User className="h-4 w-4 text-gray-500 dark:text-gray-400" />
-                  <span className="text-sm text-gray-700 dark:text-gray-300">
+                  <Link
+                    to="/account"
+                    title="Account settings"
+                    className="flex items-center gap-2 no-underline text-sm text-gray-700 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white"
+                  >
+                    <User className="h-4 w-4 text-gray-500 dark:text-gray-400" />
                     {user?.name || user?.email}
-                  </span>
+                  </Link>
                   <button
                     onClick={handleLogout}
                     className="p-2 text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
@@ -221,12 +236,14 @@ export default function RootLayout() {
               <div className="p-4 border-t border-gray-200 dark:border-gray-700 space-y-3">
                 {isAuthenticated && (
                   <div className="flex items-center justify-between">
-                    <div className="flex items-center gap-2">
+                    <Link
+                      to="/account"
+                      className="flex items-center gap-2 no-underline text-sm text-gray-700 dark:text-gray-300"
+                      onClick={() => setIsMobileMenuOpen(false)}
+                    >
                       <User className="h-4 w-4 text-gray-500 dark:text-gray-400" />
-                      <span className="text-sm text-gray-700 dark:text-gray-300">
-                        {user?.name || user?.email}
-                      </span>
-                    </div>
+                      {user?.name || user?.email}
+                    </Link>
                     <button
                       onClick={() => {
                         setIsMobileMenuOpen(false)
@@ -249,6 +266,8 @@ export default function RootLayout() {
         </>
       )}
 
+      <EmailVerificationBanner />
+
       <main className="mx-auto w-full max-w-screen-xl flex-1 p-8 dark:bg-gray-900">
         <Outlet />
       </main>
@@ -264,6 +283,9 @@ export default function RootLayout() {
         />
       )}
 
+      {/* Live study timer, kept visible across pages */}
+      {isAuthenticated && <TimerWidget />}
+
       {/* Quick Create Modal */}
       <Modal
         isOpen={showQuickCreate}
@@ -273,7 +295,9 @@ export default function RootLayout() {
       >
         <SessionForm
           onSubmit={async (dto) => {
-            await createSession(dto)
+            const created = await createSession(dto)
+            const warning = getConflictWarning(created)
+            if (warning) toast.warning(warning)
             setShowQuickCreate(false)
           }}
           onCancel={() => setShowQuickCreate(false)}
@@ -0,0 +1,139 @@
+import { useMemo } from 'react';
+import { AlertTriangle, Check, Wand2, X } from 'lucide-react';
+import type { PlanPreviewDto, PlanProposalDto } from '@repo/shared-types';
+import { Button } from '@/components/common/Button';
+import { formatDuration, formatTime } from '@/utils/dateUtils';
+import { getCategoryStyle } from '@/utils/categoryStyles';
+
+interface PlanPreviewPanelProps {
+  plan: PlanPreviewDto;
+  selectedKeys: Set<string>;
+  onToggle: (key: string) => void;
+  onSelectAll: (selected: boolean) => void;
+  onAccept: (proposals: PlanProposalDto[]) => void;
+  onDiscard: () => void;
+  isApplying?: boolean;
+}
+
+/**
+ * Proposed schedule grouped by day; the user picks which slots to keep
+ */
+export function PlanPreviewPanel({
+  plan,
+  selectedKeys,
+  onToggle,
+  onSelectAll,
+  onAccept,
+  onDiscard,
+  isApplying = false,
+}: PlanPreviewPanelProps) {
+  const days = useMemo(() => {
+    const grouped = new Map<string, PlanProposalDto[]>();
+    for (const proposal of plan.proposals) {
+      const day = new Date(proposal.scheduledFor).toLocaleDateString('en-US', {
+        weekday: 'long',
+        month: 'short',
+        day: 'numeric',
+      });
+      grouped.set(day, [...(grouped.get(day) ?? []), proposal]);
+    }
+    return [...grouped.entries()];
+  }, [plan.proposals]);
+
+  const selected = plan.proposals.filter((proposal) => selectedKeys.has(proposal.key));
+  const allSelected = selected.length === plan.proposals.length;
+
+  return (
+    <div className="glass-card rounded-lg p-6 space-y-4 border-2 border-dashed border-purple-300 dark:border-purple-700">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+        <h2 className="text-xl font-semibold text-gray-900 dark:text-gray-100 flex items-center gap-2">
+          <Wand2 className="w-5 h-5 text-purple-500" />
+          Proposed plan
+          <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-purple-100 text-purple-800 dark:bg-purple-900/40 dark:text-purple-300">
+            {selected.length}/{plan.proposals.length}
+          </span>
+        </h2>
+        {plan.proposals.length > 0 && (
+          <button
+            onClick={() => onSelectAll(!allSelected)}
+            className="text-sm text-primary-600 hover:text-primary-700 dark:text-primary-400 dark:hover:text-primary-300 font-medium"
+          >
+            {allSelected ? 'Select none' : 'Select all'}
+          </button>
+        )}
+      </div>
+
+      {plan.proposals.length === 0 ? (
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Nothing could be placed. Check your availability windows or raise the daily maximum.
+        </p>
+      ) : (
+        <div className="space-y-4 max-h-96 overflow-y-auto">
+          {days.map(([day, proposals]) => (
+            <div key={day}>
+              <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">{day}</h3>
+              <ul className="space-y-1">
+                {proposals.map((proposal) => (
+                  <li key={proposal.key}>
+                    <label className="flex items-center gap-3 p-2 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700/50 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={selectedKeys.has(proposal.key)}
+                        onChange={() => onToggle(proposal.key)}
+                      />
+                      <span className={`w-2 h-8 rounded-full ${getCategoryStyle(proposal.category).swatch}`} />
+                      <span className="w-20 text-sm text-gray-600 dark:text-gray-400">
+                        {formatTime(proposal.scheduledFor)}
+                      </span>
+                      <span className="flex-1 min-w-0">
+                        <span className="block text-sm font-medium text-gray-900 dark:text-white truncate">
+                          {proposal.title}
+                        </span>
+                        <span className="block text-xs text-gray-500 dark:text-gray-400">
+                          {formatDuration(proposal.duration)} · {proposal.priority}
+                          {proposal.goalId ? ' · new goal block' : ''}
+                        </span>
+                      </span>
+                    </label>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {plan.unplaced.length > 0 && (
+        <div className="p-3 rounded-lg bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800">
+          <p className="flex items-center gap-2 text-sm font-medium text-yellow-800 dark:text-yellow-300 mb-1">
+            <AlertTriangle className="w-4 h-4" />
+            Not planned
+          </p>
+          <ul className="text-xs text-yellow-800 dark:text-yellow-300 space-y-0.5">
+            {plan.unplaced.map((item) => (
+              <li key={`${item.sessionId ?? item.goalId}`}>
+                <strong>{item.title}</strong>: {item.reason}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="secondary" onClick={onDiscard} icon={<X className="w-4 h-4" />}>
+          Discard
+        </Button>
+        <Button
+          type="button"
+          variant="primary"
+          onClick={() => onAccept(selected)}
+          loading={isApplying}
+          disabled={selected.length === 0}
+          icon={<Check className="w-4 h-4" />}
+        >
+          {allSelected ? 'Accept all' : `Accept ${selected.length}`}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,153 @@
+import { useState } from 'react';
+import { Wand2 } from 'lucide-react';
+import type { PlanRequestDto } from '@repo/shared-types';
+import { Button } from '@/components/common/Button';
+import { useGoals } from '@/hooks/useGoals';
+import { formatGoalAmount } from '@/utils/goalUtils';
+
+interface PlannerFormProps {
+  onSubmit: (dto: PlanRequestDto) => Promise<void>;
+  onCancel: () => void;
+  isLoading?: boolean;
+}
+
+const inputClass =
+  'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-primary-500 dark:bg-gray-700 dark:text-white';
+const labelClass = 'block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1';
+
+/**
+ * Choose what the planner should place and how much per day
+ */
+export function PlannerForm({ onSubmit, onCancel, isLoading = false }: PlannerFormProps) {
+  const { goals } = useGoals();
+  const plannableGoals = goals.filter(
+    (goal) => goal.metric !== 'tasks' && goal.progress.status !== 'completed' && goal.progress.status !== 'missed'
+  );
+  const [includeSessions, setIncludeSessions] = useState(true);
+  const [goalIds, setGoalIds] = useState<string[]>([]);
+  const [days, setDays] = useState(7);
+  const [dailyCapMinutes, setDailyCapMinutes] = useState(240);
+  const [goalBlockMinutes, setGoalBlockMinutes] = useState(60);
+
+  const toggleGoal = (id: string) => {
+    setGoalIds(goalIds.includes(id) ? goalIds.filter((goalId) => goalId !== id) : [...goalIds, id]);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    await onSubmit({
+      ...(!includeSessions && { sessionIds: [] }),
+      goalIds,
+      days,
+      dailyCapMinutes,
+      goalBlockMinutes,
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <label className="flex items-start gap-3 text-sm text-gray-700 dark:text-gray-300">
+        <input
+          type="checkbox"
+          checked={includeSessions}
+          onChange={(e) => setIncludeSessions(e.target.checked)}
+          className="mt-1"
+        />
+        <span>
+          Place my unscheduled sessions
+          <span className="block text-xs text-gray-500 dark:text-gray-400">
+            Planned sessions without a date, most urgent first.
+          </span>
+        </span>
+      </label>
+
+      {plannableGoals.length > 0 && (
+        <fieldset>
+          <legend className={labelClass}>Plan blocks for goals</legend>
+          <div className="space-y-2 max-h-48 overflow-y-auto">
+            {plannableGoals.map((goal) => (
+              <label key={goal.id} className="flex items-center gap-3 text-sm text-gray-700 dark:text-gray-300">
+                <input type="checkbox" checked={goalIds.includes(goal.id)} onChange={() => toggleGoal(goal.id)} />
+                <span className="flex-1 truncate">{goal.title}</span>
+                <span className="text-xs text-gray-500 dark:text-gray-400">
+                  {formatGoalAmount(goal.progress.remaining, goal.metric)} left
+                </span>
+              </label>
+            ))}
+          </div>
+        </fieldset>
+      )}
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <div>
+          <label htmlFor="planDays" className={labelClass}>
+            Days ahead
+          </label>
+          <input
+            id="planDays"
+            type="number"
+            min={1}
+            max={28}
+            required
+            value={days}
+            onChange={(e) => setDays(parseInt(e.target.value, 10) || 1)}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label htmlFor="planCap" className={labelClass}>
+            Max minutes per day
+          </label>
+          <input
+            id="planCap"
+            type="number"
+            min={15}
+            max={1440}
+            step={15}
+            required
+            value={dailyCapMinutes}
+            onChange={(e) => setDailyCapMinutes(parseInt(e.target.value, 10) || 15)}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label htmlFor="planBlock" className={labelClass}>
+            Goal block (minutes)
+          </label>
+          <input
+            id="planBlock"
+            type="number"
+            min={15}
+            max={240}
+            step={15}
+            required
+            disabled={goalIds.length === 0}
+            value={goalBlockMinutes}
+            onChange={(e) => setGoalBlockMinutes(parseInt(e.target.value, 10) || 15)}
+            className={inputClass}
+          />
+        </div>
+      </div>
+
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        Sessions already in your calendar count towards the daily maximum. Nothing is saved until you accept the
+        preview.
+      </p>
+
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="secondary" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button
+          type="submit"
+          variant="primary"
+          loading={isLoading}
+          disabled={!includeSessions && goalIds.length === 0}
+          icon={<Wand2 className="w-4 h-4" />}
+        >
+          Preview plan
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,106 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { CheckCircle, Flag, History, XCircle } from 'lucide-react';
+import type { LoginEventDto, LoginFailureReason } from '@repo/shared-types';
+import { Button } from '@/components/common/Button';
+import { useLoginEvents } from '@/hooks/useLoginEvents';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast, useToastConfirm } from '@/contexts/ToastContext';
+import { formatDate, formatTime, getRelativeTimeString } from '@/utils/dateUtils';
+import { api } from '@/services/api';
+
+const FAILURE_LABELS: Record<LoginFailureReason, string> = {
+  unknown_email: 'Unknown email',
+  invalid_password: 'Wrong password',
+  invalid_two_factor_code: 'Wrong authentication code',
+  account_locked: 'Refused, account locked',
+};
+
+/**
+ * Recent sign-in attempts, with a way to report the ones the user did not make
+ */
+export function LoginActivity() {
+  const toast = useToast();
+  const confirm = useToastConfirm();
+  const navigate = useNavigate();
+  const { logout } = useAuth();
+  const { events, loading } = useLoginEvents();
+  const [reportingId, setReportingId] = useState<string | null>(null);
+
+  if (loading) return null;
+
+  const handleReport = async (event: LoginEventDto) => {
+    const confirmed = await confirm(
+      'Report this sign-in as not yours? Every device is signed out, this one included, and you will be asked to choose a new password.'
+    );
+    if (!confirmed) return;
+
+    setReportingId(event.id);
+    try {
+      await api.auth.reportLoginEvent(event.id);
+      await logout();
+      toast.warning('Every device was signed out. Choose a new password to secure your account.');
+      navigate('/forgot-password', { replace: true });
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to report the sign-in');
+      setReportingId(null);
+    }
+  };
+
+  return (
+    <section className="glass-card p-6 space-y-4">
+      <h2 className="flex items-center gap-2 text-lg font-semibold text-gray-900 dark:text-white">
+        <History className="w-5 h-5" />
+        Recent sign-in activity
+      </h2>
+      <p className="text-sm text-gray-600 dark:text-gray-400">
+        After 5 failed attempts in a row the account locks for a while, longer with every further failure.
+      </p>
+
+      {events.length === 0 ? (
+        <p className="text-sm text-gray-600 dark:text-gray-400">No sign-ins recorded yet.</p>
+      ) : (
+        <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+          {events.map((event) => (
+            <li key={event.id} className="py-3 flex items-center gap-3">
+              {event.success ? (
+                <CheckCircle className="w-5 h-5 flex-shrink-0 text-green-600 dark:text-green-400" aria-label="Succeeded" />
+              ) : (
+                <XCircle className="w-5 h-5 flex-shrink-0 text-red-600 dark:text-red-400" aria-label="Failed" />
+              )}
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium text-gray-900 dark:text-white">
+                  {event.success ? 'Signed in' : FAILURE_LABELS[event.reason ?? 'invalid_password']}
+                  <span className="font-normal text-gray-600 dark:text-gray-400"> · {event.device}</span>
+                </p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  {event.ipAddress ?? 'Unknown IP'} ·{' '}
+                  <time dateTime={event.createdAt} title={`${formatDate(event.createdAt)} ${formatTime(event.createdAt)}`}>
+                    {getRelativeTimeString(event.createdAt)}
+                  </time>
+                </p>
+              </div>
+              {event.reportedAt ? (
+                <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-300">
+                  Reported
+                </span>
+              ) : (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleReport(event)}
+                  loading={reportingId === event.id}
+                  disabled={reportingId !== null}
+                  icon={<Flag className="w-4 h-4" />}
+                >
+                  Not me
+                </Button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,300 @@
+import { useState, FormEvent } from 'react';
+import { Copy, Download, KeyRound, RefreshCw, ShieldCheck, ShieldOff } from 'lucide-react';
+import type { TwoFactorSetupDto } from '@repo/shared-types';
+import { Button } from '@/components/common/Button';
+import { useTwoFactor } from '@/hooks/useTwoFactor';
+import { useToast } from '@/contexts/ToastContext';
+import { formatDate } from '@/utils/dateUtils';
+
+const inputClass =
+  'w-full px-3 py-2 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md text-gray-900 dark:text-white';
+
+/** Below this many unused recovery codes the user is nudged to make new ones */
+const LOW_RECOVERY_CODES = 3;
+
+/**
+ * Authenticator app enrollment, recovery codes and turning two-factor
+ * authentication off
+ */
+export function TwoFactorSettings() {
+  const toast = useToast();
+  const {
+    status,
+    loading,
+    setup,
+    enable,
+    disable,
+    regenerateRecoveryCodes,
+    isSettingUp,
+    isEnabling,
+    isDisabling,
+    isRegenerating,
+  } = useTwoFactor();
+  const [enrollment, setEnrollment] = useState<TwoFactorSetupDto | null>(null);
+  const [enableCode, setEnableCode] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [regenerateCode, setRegenerateCode] = useState('');
+  const [disableValues, setDisableValues] = useState({ password: '', code: '' });
+
+  if (loading || !status) return null;
+
+  const handleSetup = async () => {
+    try {
+      setEnrollment(await setup());
+      setEnableCode('');
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to start the setup');
+    }
+  };
+
+  const handleEnable = async (e: FormEvent) => {
+    e.preventDefault();
+    try {
+      const result = await enable(enableCode.trim());
+      setEnrollment(null);
+      setEnableCode('');
+      setRecoveryCodes(result.codes);
+      toast.success('Two-factor authentication is on');
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to turn on two-factor authentication');
+    }
+  };
+
+  const handleRegenerate = async (e: FormEvent) => {
+    e.preventDefault();
+    try {
+      const result = await regenerateRecoveryCodes(regenerateCode.trim());
+      setRegenerateCode('');
+      setRecoveryCodes(result.codes);
+      toast.success('New recovery codes generated; the old ones no longer work');
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to generate recovery codes');
+    }
+  };
+
+  const handleDisable = async (e: FormEvent) => {
+    e.preventDefault();
+    try {
+      await disable({ password: disableValues.password, code: disableValues.code.trim() });
+      setDisableValues({ password: '', code: '' });
+      setRecoveryCodes(null);
+      toast.success('Two-factor authentication is off');
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to turn off two-factor authentication');
+    }
+  };
+
+  const handleCopyCodes = async () => {
+    if (!recoveryCodes) return;
+    try {
+      await navigator.clipboard.writeText(recoveryCodes.join('\n'));
+      toast.success('Recovery codes copied to clipboard');
+    } catch {
+      toast.error('Could not copy, please copy the codes manually');
+    }
+  };
+
+  const handleDownloadCodes = () => {
+    if (!recoveryCodes) return;
+    const blob = new Blob([`Learn Session Planner recovery codes\n\n${recoveryCodes.join('\n')}\n`], {
+      type: 'text/plain',
+    });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'recovery-codes.txt';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <section className="glass-card p-6 space-y-4">
+      <h2 className="flex items-center gap-2 text-lg font-semibold text-gray-900 dark:text-white">
+        <ShieldCheck className="w-5 h-5" />
+        Two-factor authentication
+        <span
+          className={`px-2 py-0.5 rounded-full text-xs font-medium ${
+            status.enabled
+              ? 'bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300'
+              : 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300'
+          }`}
+        >
+          {status.enabled ? 'On' : 'Off'}
+        </span>
+      </h2>
+
+      {recoveryCodes && (
+        <div className="p-4 rounded-lg bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 space-y-3">
+          <p className="text-sm font-medium text-yellow-800 dark:text-yellow-300">
+            Save these recovery codes somewhere safe. Each one signs you in once if you lose your
+            authenticator, and they will not be shown again.
+          </p>
+          <ul className="grid grid-cols-2 gap-2 font-mono text-sm text-gray-900 dark:text-white">
+            {recoveryCodes.map((code) => (
+              <li key={code}>{code}</li>
+            ))}
+          </ul>
+          <div className="flex flex-wrap gap-2">
+            <Button type="button" variant="secondary" size="sm" onClick={handleCopyCodes} icon={<Copy className="w-4 h-4" />}>
+              Copy
+            </Button>
+            <Button
+              type="button"
+              variant="secondary"
+              size="sm"
+              onClick={handleDownloadCodes}
+              icon={<Download className="w-4 h-4" />}
+            >
+              Download
+            </Button>
+            <Button type="button" variant="primary" size="sm" onClick={() => setRecoveryCodes(null)}>
+              I have saved them
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {!status.enabled && !enrollment && (
+        <>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Ask for a code from an authenticator app such as Google Authenticator, 1Password or Aegis
+            whenever you sign in, on top of your password.
+          </p>
+          <Button type="button" variant="primary" onClick={handleSetup} loading={isSettingUp} icon={<KeyRound className="w-4 h-4" />}>
+            Set up authenticator app
+          </Button>
+        </>
+      )}
+
+      {!status.enabled && enrollment && (
+        <form onSubmit={handleEnable} className="space-y-4">
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Scan the QR code with your authenticator app, then enter the 6-digit code it shows.
+          </p>
+          <div className="flex flex-col sm:flex-row gap-4 items-start">
+            <img
+              src={enrollment.qrCodeDataUrl}
+              alt="QR code for your authenticator app"
+              width={180}
+              height={180}
+              className="rounded-lg bg-white p-1"
+            />
+            <div className="space-y-1 min-w-0">
+              <p className="text-sm text-gray-600 dark:text-gray-400">Can't scan it? Enter this key instead:</p>
+              <code className="block break-all font-mono text-sm text-gray-900 dark:text-white">
+                {enrollment.secret.match(/.{1,4}/g)?.join(' ')}
+              </code>
+            </div>
+          </div>
+          <div>
+            <label htmlFor="enableCode" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Code from the app
+            </label>
+            <input
+              id="enableCode"
+              type="text"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              required
+              maxLength={8}
+              value={enableCode}
+              onChange={(e) => setEnableCode(e.target.value)}
+              className={`${inputClass} sm:w-40 tracking-widest`}
+              placeholder="123456"
+            />
+          </div>
+          <div className="flex gap-2">
+            <Button type="button" variant="secondary" onClick={() => setEnrollment(null)}>
+              Cancel
+            </Button>
+            <Button type="submit" variant="primary" loading={isEnabling} disabled={!enableCode.trim()}>
+              Turn on
+            </Button>
+          </div>
+        </form>
+      )}
+
+      {status.enabled && (
+        <>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            On since {status.enabledAt ? formatDate(status.enabledAt) : 'an unknown date'}. Signing in asks
+            for a code from your authenticator app.
+          </p>
+
+          <form onSubmit={handleRegenerate} className="space-y-2">
+            <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300">Recovery codes</h3>
+            <p
+              className={`text-sm ${
+                status.recoveryCodesRemaining < LOW_RECOVERY_CODES
+                  ? 'text-yellow-700 dark:text-yellow-300'
+                  : 'text-gray-600 dark:text-gray-400'
+              }`}
+            >
+              {status.recoveryCodesRemaining} unused recovery code{status.recoveryCodesRemaining !== 1 ? 's' : ''} left.
+              Generating new ones replaces them all.
+            </p>
+            <div className="flex gap-2">
+              <input
+                aria-label="Authenticator code"
+                type="text"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                required
+                maxLength={8}
+                value={regenerateCode}
+                onChange={(e) => setRegenerateCode(e.target.value)}
+                className={`${inputClass} sm:w-40 tracking-widest`}
+                placeholder="123456"
+              />
+              <Button
+                type="submit"
+                variant="secondary"
+                loading={isRegenerating}
+                disabled={!regenerateCode.trim()}
+                icon={<RefreshCw className="w-4 h-4" />}
+              >
+                New codes
+              </Button>
+            </div>
+          </form>
+
+          <form onSubmit={handleDisable} className="space-y-2 pt-4 border-t border-gray-200 dark:border-gray-700">
+            <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300">Turn off</h3>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+              <input
+                aria-label="Password"
+                type="password"
+                autoComplete="current-password"
+                required
+                value={disableValues.password}
+                onChange={(e) => setDisableValues({ ...disableValues, password: e.target.value })}
+                className={inputClass}
+                placeholder="Password"
+              />
+              <input
+                aria-label="Authenticator or recovery code"
+                type="text"
+                autoComplete="one-time-code"
+                required
+                maxLength={32}
+                value={disableValues.code}
+                onChange={(e) => setDisableValues({ ...disableValues, code: e.target.value })}
+                className={inputClass}
+                placeholder="Authenticator or recovery code"
+              />
+            </div>
+            <Button
+              type="submit"
+              variant="danger"
+              loading={isDisabling}
+              disabled={!disableValues.password || !disableValues.code.trim()}
+              icon={<ShieldOff className="w-4 h-4" />}
+            >
+              Turn off two-factor authentication
+            </Button>
+          </form>
+        </>
+      )}
+    </section>
+  );
+}
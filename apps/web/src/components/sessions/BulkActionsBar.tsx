@@ -1,16 +1,17 @@
 import { useState } from 'react'
 import { X } from 'lucide-react'
 import { Button } from '../common/Button'
-import type { SessionStatus, SessionCategory, SessionPriority } from '@repo/shared-types'
+import type { SessionStatus, SessionPriority, ExportFormat } from '@repo/shared-types'
+import { useCategories } from '@/hooks/useCategories'
 
 interface BulkActionsBarProps {
   selectedCount: number
   onUpdateStatus: (status: SessionStatus) => void
-  onUpdateCategory: (category: SessionCategory) => void
+  onUpdateCategory: (categoryId: string | null) => void
   onUpdatePriority: (priority: SessionPriority) => void
   onDelete: () => void
   onClearSelection: () => void
-  onExport: (format: 'csv' | 'json') => void
+  onExport: (format: ExportFormat) => void
 }
 
 export function BulkActionsBar({
@@ -26,6 +27,7 @@ export function BulkActionsBar({
   const [showCategoryMenu, setShowCategoryMenu] = useState(false)
   const [showPriorityMenu, setShowPriorityMenu] = useState(false)
   const [showExportMenu, setShowExportMenu] = useState(false)
+  const { categoryOptions } = useCategories()
 
   return (
     <div className="fixed bottom-0 left-0 right-0 z-40 bg-white/90 dark:bg-gray-900/90 backdrop-blur-lg border-t border-gray-200 dark:border-gray-800 shadow-lg animate-slide-up">
@@ -67,6 +69,42 @@ export function BulkActionsBar({
               )}
             </div>
 
+            {/* Category Dropdown */}
+            <div className="relative">
+              <Button
+                variant="secondary"
+                size="sm"
+                onClick={() => setShowCategoryMenu(!showCategoryMenu)}
+              >
+                Update Category
+              </Button>
+              {showCategoryMenu && (
+                <div className="absolute bottom-full mb-2 right-0 max-h-64 overflow-y-auto bg-white dark:bg-gray-800 rounded-lg shadow-lg border border-gray-200 dark:border-gray-700 py-1 min-w-[180px]">
+                  {categoryOptions.map((option) => (
+                    <button
+                      key={option.value}
+                      onClick={() => {
+                        onUpdateCategory(option.value)
+                        setShowCategoryMenu(false)
+                      }}
+                      className="w-full text-left px-4 py-2 text-sm hover:bg-gray-100 dark:hover:bg-gray-700"
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                  <button
+                    onClick={() => {
+                      onUpdateCategory(null)
+                      setShowCategoryMenu(false)
+                    }}
+                    className="w-full text-left px-4 py-2 text-sm text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-700"
+                  >
+                    Uncategorized
+                  </button>
+                </div>
+              )}
+            </div>
+
             {/* Priority Dropdown */}
             <div className="relative">
               <Button
@@ -123,6 +161,15 @@ export function BulkActionsBar({
                   >
                     Export JSON
                   </button>
+                  <button
+                    onClick={() => {
+                      onExport('ics')
+                      setShowExportMenu(false)
+                    }}
+                    className="w-full text-left px-4 py-2 text-sm hover:bg-gray-100 dark:hover:bg-gray-700"
+                  >
+                    Export Calendar (.ics)
+                  </button>
                 </div>
               )}
             </div>
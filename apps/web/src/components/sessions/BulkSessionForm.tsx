@@ -3,31 +3,47 @@ import type {
   CreateSessionDto,
   BulkCreateSessionDto,
   RecurrencePattern,
-  SessionCategory,
   SessionPriority,
   FileImportResultDto,
+  SeriesResponse,
+  SeriesEditMode,
+  SessionResponse,
+  UpdateSeriesOccurrenceDto,
+  ImportConflictStrategy,
+  ImportCommitResultDto,
 } from '@repo/shared-types';
-import { SESSION_CATEGORIES, SESSION_PRIORITIES } from '@repo/shared-types';
+import { SESSION_PRIORITIES } from '@repo/shared-types';
 import { Button } from '@/components/common/Button';
 import { ProgressRing } from '@/components/common/ProgressRing';
+import { TagInput } from '@/components/common/TagInput';
 import FileUploadZone from './FileUploadZone';
 import ImportPreviewTable from './ImportPreviewTable';
+import { ImportHistoryPanel } from './ImportHistoryPanel';
 import { useToast } from '@/contexts/ToastContext';
+import { useImports } from '@/hooks/useImports';
+import { useCategories } from '@/hooks/useCategories';
 import { api } from '@/services/api';
-import { AlertCircle, CheckCircle } from 'lucide-react';
+import { AlertCircle, CheckCircle, Repeat } from 'lucide-react';
 
 interface BulkSessionFormProps {
   onSubmit: (dto: BulkCreateSessionDto) => Promise<void>;
   onCancel: () => void;
   loading?: boolean;
   initialDate?: Date;
+  /** Existing series to edit; only the recurrence tab is shown */
+  series?: SeriesResponse;
+  /** Occurrence the series edit was started from */
+  occurrence?: SessionResponse;
+  onSeriesSubmit?: (dto: UpdateSeriesOccurrenceDto) => Promise<void>;
+  /** Called after an uploaded file has been imported on the server */
+  onImportCommitted?: (result: ImportCommitResultDto) => void;
 }
 
 type TabType = 'manual' | 'csv' | 'recurrence';
 
 const EMPTY_SESSION: CreateSessionDto = {
   title: '',
-  category: 'programming',
+  categoryId: null,
   duration: 60,
   priority: 'medium',
   scheduledFor: new Date().toISOString(),
@@ -39,9 +55,17 @@ export function BulkSessionForm({
   onCancel,
   loading = false,
   initialDate,
+  series,
+  occurrence,
+  onSeriesSubmit,
+  onImportCommitted,
 }: BulkSessionFormProps) {
   const toast = useToast();
-  const [activeTab, setActiveTab] = useState<TabType>('manual');
+  const { commitImport, isCommitting } = useImports();
+  const { categoryOptions } = useCategories();
+  const isSeriesEdit = !!series && !!occurrence;
+  const [activeTab, setActiveTab] = useState<TabType>(isSeriesEdit ? 'recurrence' : 'manual');
+  const [seriesMode, setSeriesMode] = useState<Exclude<SeriesEditMode, 'this'>>('following');
   const [manualSessions, setManualSessions] = useState<CreateSessionDto[]>([
     { ...EMPTY_SESSION, scheduledFor: initialDate?.toISOString() || new Date().toISOString() },
   ]);
@@ -49,17 +73,33 @@ export function BulkSessionForm({
   const [isUploading, setIsUploading] = useState(false);
   const [uploadProgress, setUploadProgress] = useState(0);
   const [importResult, setImportResult] = useState<FileImportResultDto | null>(null);
+  const [strategies, setStrategies] = useState<Record<number, ImportConflictStrategy>>({});
   const [uploadStatus, setUploadStatus] = useState<'idle' | 'uploading' | 'success' | 'error'>('idle');
-  const [recurrenceBase, setRecurrenceBase] = useState<CreateSessionDto>({
-    ...EMPTY_SESSION,
-    scheduledFor: initialDate?.toISOString() || new Date().toISOString(),
-  });
-  const [recurrencePattern, setRecurrencePattern] = useState<RecurrencePattern>({
-    frequency: 'daily',
-    interval: 1,
-    endType: 'count',
-    endCount: 7,
-  });
+  const [recurrenceBase, setRecurrenceBase] = useState<CreateSessionDto>(
+    isSeriesEdit
+      ? {
+          title: series.title,
+          categoryId: series.categoryId,
+          duration: series.duration,
+          priority: series.priority,
+          tags: series.tags,
+          scheduledFor: occurrence.scheduledFor || series.startDate,
+        }
+      : {
+          ...EMPTY_SESSION,
+          scheduledFor: initialDate?.toISOString() || new Date().toISOString(),
+        }
+  );
+  const [recurrencePattern, setRecurrencePattern] = useState<RecurrencePattern>(
+    isSeriesEdit
+      ? series.recurrence
+      : {
+          frequency: 'daily',
+          interval: 1,
+          endType: 'count',
+          endCount: 7,
+        }
+  );
   const [previewSessions, setPreviewSessions] = useState<CreateSessionDto[]>([]);
 
   // New file upload functions
@@ -78,6 +118,7 @@ export function BulkSessionForm({
       
       if (response.data) {
         setImportResult(response.data);
+        setStrategies({});
         setUploadStatus('success');
         toast.success(`Parsed successfully: ${response.data.summary.successfulRows} valid, ${response.data.summary.failedRows} errors`);
       }
@@ -103,21 +144,43 @@ export function BulkSessionForm({
     }
 
     try {
-      await onSubmit({
-        sessions: validRows.map(row => row.session)
+      // Rows matching an existing session default to skip
+      const result = await commitImport(importResult.importId, {
+        rows: validRows.map(row => ({
+          rowNumber: row.rowNumber,
+          ...(row.existingSession && { strategy: strategies[row.rowNumber] || 'skip' }),
+        })),
       });
-      
-      toast.success(`Successfully imported ${validRows.length} sessions`);
+
+      const updated = result.overwritten + result.merged;
+      toast.success(
+        `Imported ${result.created} new session${result.created !== 1 ? 's' : ''}` +
+          (updated > 0 ? `, updated ${updated}` : '') +
+          (result.skipped > 0 ? `, skipped ${result.skipped}` : '')
+      );
+      if (result.failed.length > 0) {
+        toast.error(`${result.failed.length} row${result.failed.length !== 1 ? 's' : ''} failed: ${result.failed[0].error}`);
+      }
+      const overlapping = result.sessions.filter((session) => (session.conflicts?.length ?? 0) > 0).length;
+      if (overlapping > 0) {
+        toast.warning(
+          `${overlapping} imported session${overlapping !== 1 ? 's overlap' : ' overlaps'} other sessions`
+        );
+      }
+
       setImportResult(null);
+      setStrategies({});
       setSelectedFile(null);
       setUploadStatus('idle');
-    } catch (error) {
-      // Error handled by parent component
+      onImportCommitted?.(result);
+    } catch (error: any) {
+      toast.error(error.message || 'Import failed');
     }
-  }, [importResult, onSubmit, toast]);
+  }, [importResult, strategies, commitImport, onImportCommitted, toast]);
 
   const handleClear = useCallback(() => {
     setImportResult(null);
+    setStrategies({});
     setSelectedFile(null);
     setUploadStatus('idle');
     setUploadProgress(0);
@@ -144,7 +207,8 @@ export function BulkSessionForm({
     const startDate = new Date(recurrenceBase.scheduledFor || new Date());
     let currentDate = new Date(startDate);
     let count = 0;
-    const maxOccurrences = recurrencePattern.endType === 'never' ? 365 : (recurrencePattern.endCount || 10);
+    // Open-ended series are generated on a rolling basis; preview the first few weeks
+    const maxOccurrences = recurrencePattern.endType === 'never' ? 30 : (recurrencePattern.endCount || 10);
 
     while (count < maxOccurrences) {
       // Check end date condition
@@ -195,19 +259,44 @@ export function BulkSessionForm({
     setPreviewSessions(preview);
   }, [recurrenceBase, recurrencePattern]);
 
+  const buildSeriesUpdate = (): UpdateSeriesOccurrenceDto => {
+    const updates: UpdateSeriesOccurrenceDto['updates'] = {};
+    if (recurrenceBase.title !== series!.title) updates.title = recurrenceBase.title;
+    if ((recurrenceBase.categoryId ?? null) !== series!.categoryId) updates.categoryId = recurrenceBase.categoryId ?? null;
+    if (recurrenceBase.duration !== series!.duration) updates.duration = recurrenceBase.duration;
+    if (recurrenceBase.priority !== series!.priority) updates.priority = recurrenceBase.priority;
+    if (JSON.stringify(recurrenceBase.tags ?? []) !== JSON.stringify(series!.tags)) {
+      updates.tags = recurrenceBase.tags ?? [];
+    }
+    if (recurrenceBase.scheduledFor && recurrenceBase.scheduledFor !== occurrence!.scheduledFor) {
+      updates.scheduledFor = recurrenceBase.scheduledFor;
+    }
+
+    const patternChanged = JSON.stringify(recurrencePattern) !== JSON.stringify(series!.recurrence);
+
+    return {
+      mode: seriesMode,
+      updates,
+      ...(patternChanged && { recurrence: recurrencePattern }),
+    };
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
+    if (isSeriesEdit && onSeriesSubmit) {
+      await onSeriesSubmit(buildSeriesUpdate());
+      return;
+    }
+
     let dto: BulkCreateSessionDto;
 
     if (activeTab === 'manual') {
       dto = { sessions: manualSessions };
     } else if (activeTab === 'csv' && importResult) {
-      // Use the modern file import workflow
-      const validRows = importResult.rows.filter(row => 
-        row.status === 'success' || row.status === 'warning'
-      );
-      dto = { sessions: validRows.map(row => row.session) };
+      // Uploaded files are committed server-side against the stored preview
+      await handleImportValid();
+      return;
     } else if (activeTab === 'csv') {
       // Fallback: no valid sessions to import
       toast.error('No valid sessions to import');
@@ -221,7 +310,44 @@ export function BulkSessionForm({
 
   return (
     <form onSubmit={handleSubmit} className="space-y-6">
+      {/* Series edit scope */}
+      {isSeriesEdit && (
+        <div className="p-4 rounded-lg border border-primary-200 dark:border-primary-800 bg-primary-50 dark:bg-primary-900/20 space-y-3">
+          <div className="flex items-center gap-2 text-sm font-medium text-primary-700 dark:text-primary-300">
+            <Repeat className="w-4 h-4" />
+            Editing recurring series from {new Date(occurrence.scheduledFor || series.startDate).toLocaleDateString()}
+          </div>
+          <div className="flex flex-wrap gap-4">
+            <label className="flex items-center gap-2">
+              <input
+                type="radio"
+                checked={seriesMode === 'following'}
+                onChange={() => setSeriesMode('following')}
+                className="text-primary-600"
+              />
+              <span className="text-sm text-gray-700 dark:text-gray-300">This and following sessions</span>
+            </label>
+            <label className="flex items-center gap-2">
+              <input
+                type="radio"
+                checked={seriesMode === 'all'}
+                onChange={() => setSeriesMode('all')}
+                className="text-primary-600"
+              />
+              <span className="text-sm text-gray-700 dark:text-gray-300">All sessions in the series</span>
+            </label>
+          </div>
+          {series.exceptions.length > 0 && (
+            <p className="text-xs text-gray-600 dark:text-gray-400">
+              Changing the time or pattern regenerates planned occurrences; {series.exceptions.length} moved or cancelled
+              occurrence{series.exceptions.length === 1 ? '' : 's'} in that range will be reset.
+            </p>
+          )}
+        </div>
+      )}
+
       {/* Tab Navigation */}
+      {!isSeriesEdit && (
       <div className="border-b border-gray-200 dark:border-gray-700">
         <nav className="flex gap-4">
           <button
@@ -259,6 +385,7 @@ export function BulkSessionForm({
           </button>
         </nav>
       </div>
+      )}
 
       {/* Manual Entry Tab */}
       {activeTab === 'manual' && (
@@ -278,17 +405,18 @@ export function BulkSessionForm({
                 required
               />
               <select
-                value={session.category}
+                value={session.categoryId ?? ''}
                 onChange={(e) => {
                   const updated = [...manualSessions];
-                  updated[index].category = e.target.value as SessionCategory;
+                  updated[index].categoryId = e.target.value || null;
                   setManualSessions(updated);
                 }}
                 className="px-3 py-2 bg-gray-50 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md text-gray-900 dark:text-white"
               >
-                {SESSION_CATEGORIES.map((cat) => (
-                  <option key={cat} value={cat}>
-                    {cat.charAt(0).toUpperCase() + cat.slice(1)}
+                <option value="">Uncategorized</option>
+                {categoryOptions.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
                   </option>
                 ))}
               </select>
@@ -329,6 +457,16 @@ export function BulkSessionForm({
                 }}
                 className="px-3 py-2 bg-gray-50 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md text-gray-900 dark:text-white col-span-2"
               />
+              <div className="col-span-2">
+                <TagInput
+                  value={session.tags ?? []}
+                  onChange={(tags) => {
+                    const updated = [...manualSessions];
+                    updated[index].tags = tags;
+                    setManualSessions(updated);
+                  }}
+                />
+              </div>
               {manualSessions.length > 1 && (
                 <Button
                   type="button"
@@ -358,7 +496,7 @@ export function BulkSessionForm({
           {/* File Upload Zone */}
           <FileUploadZone 
             onFileSelect={handleFileSelect} 
-            accept=".csv,.json,.xml" 
+            accept=".csv,.json,.xml,.ics" 
             maxSize={5*1024*1024} 
             disabled={isUploading || loading} 
           />
@@ -429,6 +567,12 @@ export function BulkSessionForm({
                   ...prev!, 
                   rows: prev!.rows.filter(r => r.rowNumber !== rowNum)
                 }))} 
+                strategies={strategies}
+                onStrategyChange={(rowNumbers, strategy) => setStrategies(prev => {
+                  const next = { ...prev };
+                  rowNumbers.forEach(rowNumber => { next[rowNumber] = strategy; });
+                  return next;
+                })}
               />
               
               {/* Action Buttons */}
@@ -436,6 +580,7 @@ export function BulkSessionForm({
                 <Button 
                   variant="primary" 
                   onClick={handleImportValid} 
+                  loading={isCommitting}
                   disabled={!importResult || importResult.rows.filter(r => r.status !== 'error').length === 0}
                 >
                   Import Valid Sessions ({importResult.rows.filter(r => r.status !== 'error').length})
@@ -461,13 +606,15 @@ export function BulkSessionForm({
                 XML
               </Button>
             </div>
-            <p className="text-xs text-gray-500 mt-2">Supported: CSV, JSON, XML. Max 5MB.</p>
+            <p className="text-xs text-gray-500 mt-2">Supported: CSV, JSON, XML, iCalendar (.ics). Max 5MB.</p>
           </div>
 
           {/* Format Info */}
           <p className="text-sm text-gray-500 dark:text-gray-400 mt-2">
-            Supported formats: <span className="font-mono text-green-600">CSV</span>, <span className="font-mono text-yellow-600">JSON</span>, <span className="font-mono text-blue-600">XML</span>
+            Supported formats: <span className="font-mono text-green-600">CSV</span>, <span className="font-mono text-yellow-600">JSON</span>, <span className="font-mono text-blue-600">XML</span>, <span className="font-mono text-purple-600">ICS</span>
           </p>
+
+          <ImportHistoryPanel />
         </div>
       )}
 
@@ -484,13 +631,14 @@ export function BulkSessionForm({
               required
             />
             <select
-              value={recurrenceBase.category}
-              onChange={(e) => setRecurrenceBase({ ...recurrenceBase, category: e.target.value as SessionCategory })}
+              value={recurrenceBase.categoryId ?? ''}
+              onChange={(e) => setRecurrenceBase({ ...recurrenceBase, categoryId: e.target.value || null })}
               className="px-3 py-2 bg-gray-50 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md text-gray-900 dark:text-white"
             >
-              {SESSION_CATEGORIES.map((cat) => (
-                <option key={cat} value={cat}>
-                  {cat.charAt(0).toUpperCase() + cat.slice(1)}
+              <option value="">Uncategorized</option>
+              {categoryOptions.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
                 </option>
               ))}
             </select>
@@ -519,6 +667,12 @@ export function BulkSessionForm({
               onChange={(e) => setRecurrenceBase({ ...recurrenceBase, scheduledFor: new Date(e.target.value).toISOString() })}
               className="px-3 py-2 bg-gray-50 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md text-gray-900 dark:text-white col-span-2"
             />
+            <div className="col-span-2">
+              <TagInput
+                value={recurrenceBase.tags ?? []}
+                onChange={(tags) => setRecurrenceBase({ ...recurrenceBase, tags })}
+              />
+            </div>
           </div>
 
           <div className="border-t border-gray-200 dark:border-gray-700 pt-4">
@@ -629,7 +783,7 @@ export function BulkSessionForm({
                   onChange={() => setRecurrencePattern({ ...recurrencePattern, endType: 'never' })}
                   className="text-primary-600"
                 />
-                <span className="text-sm text-gray-700 dark:text-gray-300">Never (max 365 occurrences)</span>
+                <span className="text-sm text-gray-700 dark:text-gray-300">Never (occurrences are added as time goes on)</span>
               </label>
             </div>
 
@@ -679,7 +833,7 @@ export function BulkSessionForm({
           variant="primary"
           loading={loading}
         >
-          Create Sessions
+          {isSeriesEdit ? 'Update Series' : 'Create Sessions'}
         </Button>
       </div>
     </form>
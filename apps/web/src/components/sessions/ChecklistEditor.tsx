@@ -0,0 +1,200 @@
+import { useState } from 'react';
+import { ChevronDown, ChevronUp, ListChecks, Plus, Trash2 } from 'lucide-react';
+
+/** Most checklist items the API accepts per session or template */
+const MAX_ITEMS = 100;
+
+export interface ChecklistItem {
+  /** Stable key; unsaved items can use any unique string */
+  key: string;
+  title: string;
+  done: boolean;
+  estimatedMinutes: number | null;
+}
+
+interface ChecklistEditorProps {
+  items: ChecklistItem[];
+  onAdd: (title: string, estimatedMinutes: number | null) => void;
+  onToggle?: (index: number) => void;
+  onRename?: (index: number, title: string) => void;
+  onDelete: (index: number) => void;
+  onMove: (index: number, direction: -1 | 1) => void;
+  /** Hide done checkboxes, e.g. for a template's default checklist */
+  showDone?: boolean;
+  compact?: boolean;
+}
+
+/**
+ * Ordered checklist with inline add, rename, reorder and delete. Storage is
+ * up to the caller: a saved session, the create form or a template.
+ */
+export function ChecklistEditor({
+  items,
+  onAdd,
+  onToggle,
+  onRename,
+  onDelete,
+  onMove,
+  showDone = true,
+  compact = false,
+}: ChecklistEditorProps) {
+  const [title, setTitle] = useState('');
+  const [estimate, setEstimate] = useState<number | ''>('');
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);
+  const [editingTitle, setEditingTitle] = useState('');
+
+  const doneCount = items.filter((item) => item.done).length;
+  const totalEstimate = items.reduce((sum, item) => sum + (item.estimatedMinutes ?? 0), 0);
+
+  const handleAdd = () => {
+    if (!title.trim() || items.length >= MAX_ITEMS) return;
+    onAdd(title.trim(), estimate === '' ? null : estimate);
+    setTitle('');
+    setEstimate('');
+  };
+
+  const commitRename = () => {
+    if (editingIndex !== null && onRename && editingTitle.trim() && editingTitle.trim() !== items[editingIndex]?.title) {
+      onRename(editingIndex, editingTitle.trim());
+    }
+    setEditingIndex(null);
+  };
+
+  return (
+    <div className="space-y-2" onClick={(e) => e.stopPropagation()}>
+      {items.length > 0 && (
+        <div className="flex items-center justify-between text-xs text-gray-500 dark:text-gray-400">
+          <span className="flex items-center gap-1">
+            <ListChecks className="h-3.5 w-3.5" />
+            {showDone ? `${doneCount}/${items.length} done` : `${items.length} item${items.length !== 1 ? 's' : ''}`}
+          </span>
+          {totalEstimate > 0 && <span>~{totalEstimate} min</span>}
+        </div>
+      )}
+      {showDone && items.length > 0 && (
+        <div className="h-1.5 rounded-full bg-gray-200 dark:bg-gray-700 overflow-hidden">
+          <div
+            className="h-full bg-green-500 transition-all duration-300"
+            style={{ width: `${(doneCount / items.length) * 100}%` }}
+          />
+        </div>
+      )}
+
+      <ul className={`space-y-1 ${compact ? 'max-h-48 overflow-y-auto' : ''}`}>
+        {items.map((item, index) => (
+          <li key={item.key} className="group/task flex items-center gap-2 py-1">
+            {showDone && (
+              <input
+                type="checkbox"
+                checked={item.done}
+                onChange={() => onToggle?.(index)}
+                className="h-4 w-4 accent-primary-600"
+                aria-label={`Mark "${item.title}" as ${item.done ? 'not done' : 'done'}`}
+              />
+            )}
+            {editingIndex === index ? (
+              <input
+                type="text"
+                autoFocus
+                value={editingTitle}
+                maxLength={200}
+                onChange={(e) => setEditingTitle(e.target.value)}
+                onBlur={commitRename}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') {
+                    e.preventDefault();
+                    commitRename();
+                  } else if (e.key === 'Escape') {
+                    e.stopPropagation();
+                    setEditingIndex(null);
+                  }
+                }}
+                className="flex-1 px-2 py-0.5 text-sm border border-gray-300 dark:border-gray-600 rounded dark:bg-gray-700 dark:text-white"
+                aria-label="Checklist item title"
+              />
+            ) : (
+              <span
+                onDoubleClick={() => {
+                  if (!onRename) return;
+                  setEditingIndex(index);
+                  setEditingTitle(item.title);
+                }}
+                className={`flex-1 text-sm ${
+                  item.done ? 'line-through text-gray-400 dark:text-gray-500' : 'text-gray-700 dark:text-gray-300'
+                }`}
+              >
+                {item.title}
+              </span>
+            )}
+            {item.estimatedMinutes !== null && (
+              <span className="text-xs text-gray-400">{item.estimatedMinutes} min</span>
+            )}
+            <div className="flex items-center opacity-0 group-hover/task:opacity-100 focus-within:opacity-100 transition-opacity">
+              <button
+                type="button"
+                onClick={() => onMove(index, -1)}
+                disabled={index === 0}
+                className="p-1 text-gray-400 hover:text-primary-600 disabled:opacity-30"
+                aria-label={`Move "${item.title}" up`}
+              >
+                <ChevronUp className="h-3.5 w-3.5" />
+              </button>
+              <button
+                type="button"
+                onClick={() => onMove(index, 1)}
+                disabled={index === items.length - 1}
+                className="p-1 text-gray-400 hover:text-primary-600 disabled:opacity-30"
+                aria-label={`Move "${item.title}" down`}
+              >
+                <ChevronDown className="h-3.5 w-3.5" />
+              </button>
+              <button
+                type="button"
+                onClick={() => onDelete(index)}
+                className="p-1 text-gray-400 hover:text-red-600 dark:hover:text-red-400"
+                aria-label={`Delete "${item.title}"`}
+              >
+                <Trash2 className="h-3.5 w-3.5" />
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      {items.length < MAX_ITEMS && (
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={title}
+            maxLength={200}
+            onChange={(e) => setTitle(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && (e.preventDefault(), handleAdd())}
+            placeholder="Add a checklist item..."
+            className="flex-1 px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-primary-500 dark:bg-gray-700 dark:text-white"
+            aria-label="New checklist item"
+          />
+          <input
+            type="number"
+            min={1}
+            max={1440}
+            value={estimate}
+            onChange={(e) => setEstimate(e.target.value ? parseInt(e.target.value, 10) : '')}
+            onKeyDown={(e) => e.key === 'Enter' && (e.preventDefault(), handleAdd())}
+            placeholder="min"
+            className="w-20 px-2 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-primary-500 dark:bg-gray-700 dark:text-white"
+            aria-label="Estimate in minutes"
+          />
+          <button
+            type="button"
+            onClick={handleAdd}
+            disabled={!title.trim()}
+            className="p-2 bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600 rounded-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+            aria-label="Add checklist item"
+          >
+            <Plus className="h-4 w-4" />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
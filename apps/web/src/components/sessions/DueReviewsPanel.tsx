@@ -0,0 +1,69 @@
+import { Brain, Play } from 'lucide-react';
+import type { DueReviewDto, SessionResponse } from '@repo/shared-types';
+import { useDueReviews } from '@/hooks/useDueReviews';
+import { formatTime } from '@/utils/dateUtils';
+import { getCategoryStyle } from '@/utils/categoryStyles';
+
+interface DueReviewsPanelProps {
+  onOpen: (session: SessionResponse) => void;
+  onStart: (session: SessionResponse) => void;
+}
+
+function describeDue(review: DueReviewDto): string {
+  if (review.overdueDays > 0) {
+    return `Overdue by ${review.overdueDays} day${review.overdueDays !== 1 ? 's' : ''}`;
+  }
+  return review.session.scheduledFor ? `Due today at ${formatTime(review.session.scheduledFor)}` : 'Due today';
+}
+
+/**
+ * Spaced-repetition reviews that are due today or overdue
+ */
+export function DueReviewsPanel({ onOpen, onStart }: DueReviewsPanelProps) {
+  const { reviews } = useDueReviews();
+
+  if (reviews.length === 0) return null;
+
+  return (
+    <div className="space-y-4">
+      <h2 className="text-xl font-semibold text-gray-900 dark:text-gray-100 flex items-center gap-2">
+        <Brain className="w-5 h-5 text-purple-500" />
+        Reviews Due
+        <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-purple-100 text-purple-800 dark:bg-purple-900/40 dark:text-purple-300">
+          {reviews.length}
+        </span>
+      </h2>
+      <ul className="glass-card rounded-lg divide-y divide-gray-200 dark:divide-gray-700">
+        {reviews.map((review) => (
+          <li key={review.session.id} className="flex items-center gap-3 p-4">
+            <span className={`w-2 h-10 rounded-full ${getCategoryStyle(review.session.category).swatch}`} />
+            <button onClick={() => onOpen(review.session)} className="flex-1 min-w-0 text-left">
+              <p className="font-medium text-gray-900 dark:text-white truncate">
+                {review.original?.title ?? review.session.title}
+              </p>
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                Review {(review.session.reviewRepetition ?? 0) + 1}
+                {review.session.reviewIntervalDays !== null &&
+                  ` · ${review.session.reviewIntervalDays} day${review.session.reviewIntervalDays !== 1 ? 's' : ''} since last time`}
+                {' · '}
+                <span className={review.overdueDays > 0 ? 'text-red-600 dark:text-red-400' : ''}>
+                  {describeDue(review)}
+                </span>
+              </p>
+            </button>
+            {review.session.status !== 'in_progress' && (
+              <button
+                onClick={() => onStart(review.session)}
+                className="flex items-center gap-1 px-3 py-1.5 text-sm bg-primary-600 hover:bg-primary-700 text-white rounded-lg transition-colors"
+                aria-label={`Start review of ${review.original?.title ?? review.session.title}`}
+              >
+                <Play className="w-4 h-4" />
+                Start
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
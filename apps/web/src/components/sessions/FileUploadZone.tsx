@@ -11,7 +11,7 @@ interface FileUploadZoneProps {
 
 const FileUploadZone: React.FC<FileUploadZoneProps> = ({
   onFileSelect,
-  accept = '.csv,.json,.xml',
+  accept = '.csv,.json,.xml,.ics',
   maxSize = 5 * 1024 * 1024, // 5MB default
   disabled = false,
 }) => {
@@ -111,6 +111,8 @@ const FileUploadZone: React.FC<FileUploadZoneProps> = ({
         return <FileText className="w-6 h-6 text-yellow-500" />;
       case 'xml':
         return <FileText className="w-6 h-6 text-blue-500" />;
+      case 'ics':
+        return <FileText className="w-6 h-6 text-purple-500" />;
       default:
         return <FileText className="w-6 h-6 text-gray-500" />;
     }
@@ -218,7 +220,7 @@ const FileUploadZone: React.FC<FileUploadZoneProps> = ({
                 {isDragging ? 'Drop file here' : 'Drag and drop or click to browse'}
               </p>
               <p className="text-sm text-gray-500 dark:text-gray-400">
-                Supported formats: CSV, JSON, XML (max {formatFileSize(maxSize)})
+                Supported formats: CSV, JSON, XML, iCalendar (max {formatFileSize(maxSize)})
               </p>
             </div>
             <div className="flex items-center space-x-2 text-xs">
@@ -234,6 +236,10 @@ const FileUploadZone: React.FC<FileUploadZoneProps> = ({
                 <FileText className="w-3 h-3 text-blue-500" />
                 <span>XML</span>
               </div>
+              <div className="flex items-center space-x-1 px-2 py-1 bg-gray-100 dark:bg-gray-700 rounded-full">
+                <FileText className="w-3 h-3 text-purple-500" />
+                <span>ICS</span>
+              </div>
             </div>
           </div>
         )}
@@ -0,0 +1,112 @@
+import { useState } from 'react';
+import { History, Undo2, ChevronDown, ChevronUp } from 'lucide-react';
+import type { ImportHistoryItemDto, ImportStatus } from '@repo/shared-types';
+import { Button } from '@/components/common/Button';
+import { useToast, useToastConfirm } from '@/contexts/ToastContext';
+import { useImports } from '@/hooks/useImports';
+import { formatDate, formatTime } from '@/utils/dateUtils';
+
+const STATUS_BADGES: Record<ImportStatus, { label: string; className: string }> = {
+  preview: {
+    label: 'Preview',
+    className: 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300',
+  },
+  committed: {
+    label: 'Imported',
+    className: 'bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-300',
+  },
+  rolled_back: {
+    label: 'Rolled back',
+    className: 'bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-400',
+  },
+};
+
+export function ImportHistoryPanel() {
+  const toast = useToast();
+  const confirm = useToastConfirm();
+  const [isOpen, setIsOpen] = useState(false);
+  const [rollingBackId, setRollingBackId] = useState<string | null>(null);
+  const { history, loading, rollbackImport } = useImports({ loadHistory: isOpen });
+
+  const handleRollback = async (item: ImportHistoryItemDto) => {
+    const changed = item.overwrittenCount + item.mergedCount;
+    const confirmed = await confirm(
+      `Roll back "${item.fileName}"? ${item.createdCount} created session${item.createdCount !== 1 ? 's' : ''} will be deleted` +
+        (changed > 0 ? ` and ${changed} updated session${changed !== 1 ? 's' : ''} restored.` : '.')
+    );
+    if (!confirmed) return;
+
+    setRollingBackId(item.id);
+    try {
+      const result = await rollbackImport(item.id);
+      toast.success(`Import rolled back: ${result.deletedCount} removed, ${result.restoredCount} restored`);
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to roll back import');
+    } finally {
+      setRollingBackId(null);
+    }
+  };
+
+  return (
+    <div className="glass-card p-4">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between font-medium text-gray-900 dark:text-white"
+        aria-expanded={isOpen}
+      >
+        <span className="flex items-center gap-2">
+          <History className="w-4 h-4" />
+          Import History
+        </span>
+        {isOpen ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+      </button>
+
+      {isOpen && (
+        <div className="mt-3 space-y-2">
+          {loading && <p className="text-sm text-gray-500 dark:text-gray-400">Loading...</p>}
+
+          {!loading && history.length === 0 && (
+            <p className="text-sm text-gray-500 dark:text-gray-400">No imports yet.</p>
+          )}
+
+          {history.map((item) => (
+            <div
+              key={item.id}
+              className="flex items-center justify-between gap-3 p-3 rounded-lg bg-gray-50 dark:bg-gray-700/50"
+            >
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <p className="text-sm font-medium text-gray-900 dark:text-white truncate">{item.fileName}</p>
+                  <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${STATUS_BADGES[item.status].className}`}>
+                    {STATUS_BADGES[item.status].label}
+                  </span>
+                </div>
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  {formatDate(item.committedAt || item.createdAt)} {formatTime(item.committedAt || item.createdAt)}
+                  {' · '}
+                  {item.createdCount} created, {item.overwrittenCount} overwritten, {item.mergedCount} merged,{' '}
+                  {item.skippedCount} skipped
+                  {item.failedCount > 0 && `, ${item.failedCount} failed`}
+                </p>
+              </div>
+              {item.status === 'committed' && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleRollback(item)}
+                  loading={rollingBackId === item.id}
+                  disabled={rollingBackId !== null}
+                  icon={<Undo2 className="w-4 h-4" />}
+                >
+                  Roll back
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
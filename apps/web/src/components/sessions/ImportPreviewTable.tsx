@@ -1,23 +1,36 @@
 import { useState, useMemo } from 'react';
 import { CheckCircle, AlertTriangle, XCircle, Trash2, ChevronDown, ChevronUp, Download, FileText } from 'lucide-react';
-import type { ParsedSessionRowDto } from '@repo/shared-types';
-import { categoryStyles } from '../../utils/categoryStyles';
+import type { ParsedSessionRowDto, ImportConflictStrategy } from '@repo/shared-types';
+import { getCategoryStyle } from '../../utils/categoryStyles';
+import { useCategories } from '../../hooks/useCategories';
 import Button from '../common/Button';
 
 interface ImportPreviewTableProps {
   rows: ParsedSessionRowDto[];
   onRemoveRow?: (rowNumber: number) => void;
   maxRows?: number;
+  /** Chosen strategy per row number for rows matching an existing session */
+  strategies?: Record<number, ImportConflictStrategy>;
+  onStrategyChange?: (rowNumbers: number[], strategy: ImportConflictStrategy) => void;
 }
 
+const STRATEGY_LABELS: Record<ImportConflictStrategy, string> = {
+  skip: 'Skip',
+  overwrite: 'Overwrite',
+  merge: 'Merge',
+};
+
 const ImportPreviewTable: React.FC<ImportPreviewTableProps> = ({
   rows,
   onRemoveRow,
   maxRows = 100,
+  strategies = {},
+  onStrategyChange,
 }) => {
   const [expandedRows, setExpandedRows] = useState<Set<number>>(new Set());
   const [statusFilter, setStatusFilter] = useState<'all' | 'success' | 'warning' | 'error'>('all');
   const [searchTerm, setSearchTerm] = useState('');
+  const { categories } = useCategories();
 
   // Filter and search rows
   const filteredRows = useMemo(() => {
@@ -42,6 +55,14 @@ const ImportPreviewTable: React.FC<ImportPreviewTableProps> = ({
     return { total, successful, warnings, errors, duplicates };
   }, [rows]);
 
+  // Rows colliding with sessions that already exist need a conflict strategy
+  const existingRowNumbers = useMemo(
+    () => rows.filter(row => row.existingSession && row.status !== 'error').map(row => row.rowNumber),
+    [rows]
+  );
+  const showStrategy = !!onStrategyChange && existingRowNumbers.length > 0;
+  const columnCount = 6 + (showStrategy ? 1 : 0) + (onRemoveRow ? 1 : 0);
+
   const toggleRowExpansion = (rowNumber: number) => {
     const newExpanded = new Set(expandedRows);
     if (newExpanded.has(rowNumber)) {
@@ -75,8 +96,12 @@ const ImportPreviewTable: React.FC<ImportPreviewTableProps> = ({
     }
   };
 
-  const getCategoryBadge = (category: string) => {
-    const style = categoryStyles[category as keyof typeof categoryStyles] || categoryStyles.other;
+  // Names that don't match an existing category are created on import
+  const getCategoryBadge = (categoryName: string | null) => {
+    const category = categoryName
+      ? categories.find((c) => c.name.toLowerCase() === categoryName.toLowerCase())
+      : undefined;
+    const style = getCategoryStyle(category);
     return `px-2 py-1 text-xs font-medium rounded-full ${style.textColor} ${style.lightBg}`;
   };
 
@@ -215,6 +240,24 @@ const ImportPreviewTable: React.FC<ImportPreviewTableProps> = ({
             />
           </div>
 
+          {showStrategy && (
+            <div className="flex items-center space-x-2">
+              <label className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                Existing sessions ({existingRowNumbers.length}):
+              </label>
+              <select
+                value=""
+                onChange={(e) => e.target.value && onStrategyChange!(existingRowNumbers, e.target.value as ImportConflictStrategy)}
+                className="px-3 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-primary-500"
+              >
+                <option value="">Apply to all...</option>
+                {(Object.keys(STRATEGY_LABELS) as ImportConflictStrategy[]).map(strategy => (
+                  <option key={strategy} value={strategy}>{STRATEGY_LABELS[strategy]} all</option>
+                ))}
+              </select>
+            </div>
+          )}
+
           {filteredRows.length < rows.length && (
             <div className="text-sm text-gray-500 dark:text-gray-400">
               Showing {filteredRows.length} of {rows.length} rows
@@ -247,6 +290,11 @@ const ImportPreviewTable: React.FC<ImportPreviewTableProps> = ({
                 <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
                   Status
                 </th>
+                {showStrategy && (
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                    On Conflict
+                  </th>
+                )}
                 {onRemoveRow && (
                   <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
                     Actions
@@ -291,13 +339,13 @@ const ImportPreviewTable: React.FC<ImportPreviewTableProps> = ({
                     {row.isDuplicate && (
                       <span className="ml-2 px-2 py-1 bg-orange-100 text-orange-800 text-xs rounded-full flex items-center gap-1">
                         <AlertTriangle className="w-3 h-3" />
-                        Duplicate
+                        {row.existingSession ? 'Already exists' : 'Duplicate'}
                       </span>
                     )}
                   </td>
                   <td className="px-4 py-3">
-                    <span className={getCategoryBadge(row.session.category)}>
-                      {row.session.category}
+                    <span className={getCategoryBadge(row.categoryName)}>
+                      {row.categoryName ?? 'Uncategorized'}
                     </span>
                   </td>
                   <td className="px-4 py-3 text-sm text-gray-900 dark:text-white">
@@ -311,6 +359,26 @@ const ImportPreviewTable: React.FC<ImportPreviewTableProps> = ({
                       {row.status.charAt(0).toUpperCase() + row.status.slice(1)}
                     </span>
                   </td>
+                  {showStrategy && (
+                    <td className="px-4 py-3 whitespace-nowrap">
+                      {row.existingSession && row.status !== 'error' ? (
+                        <select
+                          value={strategies[row.rowNumber] || 'skip'}
+                          onClick={(e) => e.stopPropagation()}
+                          onKeyDown={(e) => e.stopPropagation()}
+                          onChange={(e) => onStrategyChange!([row.rowNumber], e.target.value as ImportConflictStrategy)}
+                          aria-label={`Conflict strategy for row ${row.rowNumber}`}
+                          className="px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-primary-500"
+                        >
+                          {(Object.keys(STRATEGY_LABELS) as ImportConflictStrategy[]).map(strategy => (
+                            <option key={strategy} value={strategy}>{STRATEGY_LABELS[strategy]}</option>
+                          ))}
+                        </select>
+                      ) : (
+                        <span className="text-sm text-gray-400 dark:text-gray-500">New</span>
+                      )}
+                    </td>
+                  )}
                   {onRemoveRow && (
                     <td className="px-4 py-3 whitespace-nowrap">
                       <Button
@@ -335,10 +403,18 @@ const ImportPreviewTable: React.FC<ImportPreviewTableProps> = ({
                     className="bg-gray-50 dark:bg-gray-800/30 border-b border-gray-200 dark:border-gray-700 transition-all duration-300"
                     aria-hidden={!expandedRows.has(row.rowNumber)}
                   >
-                    <td colSpan={onRemoveRow ? 7 : 6} className="px-4 py-3">
+                    <td colSpan={columnCount} className="px-4 py-3">
                       <div className="overflow-hidden transition-max-height duration-300" style={{maxHeight: expandedRows.has(row.rowNumber) ? '200px' : '0'}}>
                         <div className="space-y-3 max-h-48 overflow-y-auto">
                           <div className="space-y-2">
+                            {row.existingSession && (
+                              <p className="text-sm text-orange-700 dark:text-orange-300">
+                                Matches your existing session "{row.existingSession.title}"
+                                {row.existingSession.scheduledFor && ` on ${formatDate(row.existingSession.scheduledFor)}`}
+                                {' '}({row.existingSession.status.replace('_', ' ')}).
+                                {' '}Merge fills empty fields and combines tags; overwrite replaces the details but keeps status and tracked time.
+                              </p>
+                            )}
                             {row.errors.length > 0 && (
                               <div>
                                 <h4 className="text-sm font-semibold text-red-800 dark:text-red-200 mb-1">
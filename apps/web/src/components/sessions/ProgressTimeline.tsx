@@ -0,0 +1,176 @@
+import { useState, useEffect } from 'react';
+import { Star, Trash2, Plus, TrendingUp } from 'lucide-react';
+import { useProgress } from '@/hooks/useProgress';
+import { useToast, useToastConfirm } from '@/contexts/ToastContext';
+import { formatDate, formatTime } from '@/utils/dateUtils';
+import { Button } from '@/components/common/Button';
+
+interface ProgressTimelineProps {
+  sessionId: string;
+  /** Share of the session's checklist done; null when it has no checklist */
+  checklistCompletion?: number | null;
+  /** Compact layout used inside SessionCard */
+  compact?: boolean;
+}
+
+/**
+ * Timeline of progress entries recorded across several sittings of one session,
+ * with an inline form to log a new entry.
+ */
+export function ProgressTimeline({ sessionId, checklistCompletion = null, compact = false }: ProgressTimelineProps) {
+  const toast = useToast();
+  const confirm = useToastConfirm();
+  const { entries, loading, latestCompletion, createProgress, deleteProgress, isSaving } = useProgress(sessionId);
+
+  const startingCompletion = checklistCompletion ?? latestCompletion;
+  const [completionPercentage, setCompletionPercentage] = useState(startingCompletion);
+  const [rating, setRating] = useState<number | undefined>();
+  const [notes, setNotes] = useState('');
+
+  // Start the slider from the checklist, or from the most recent entry once the timeline has loaded
+  useEffect(() => {
+    setCompletionPercentage(startingCompletion);
+  }, [startingCompletion]);
+
+  const handleAdd = async () => {
+    try {
+      await createProgress({
+        completionPercentage,
+        rating,
+        notes: notes.trim() || undefined,
+      });
+      setNotes('');
+      setRating(undefined);
+      toast.success('Progress logged');
+    } catch (error) {
+      console.error('Failed to log progress:', error);
+      toast.error('Failed to log progress');
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    const confirmed = await confirm('Delete this progress entry?');
+    if (!confirmed) return;
+
+    try {
+      await deleteProgress(id);
+    } catch (error) {
+      toast.error('Failed to delete progress entry');
+    }
+  };
+
+  return (
+    <div className="space-y-3" onClick={(e) => e.stopPropagation()}>
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-semibold text-gray-900 dark:text-white flex items-center gap-2">
+          <TrendingUp className="h-4 w-4 text-primary-500" />
+          Progress
+        </h4>
+        <span className="text-xs text-gray-500 dark:text-gray-400">
+          {latestCompletion}% complete · {entries.length} {entries.length === 1 ? 'entry' : 'entries'}
+          {checklistCompletion !== null && ` · checklist ${checklistCompletion}%`}
+        </span>
+      </div>
+
+      {/* Timeline */}
+      {loading ? (
+        <div className="text-sm text-gray-500 dark:text-gray-400">Loading progress...</div>
+      ) : entries.length === 0 ? (
+        <div className="text-sm text-gray-500 dark:text-gray-400">No progress logged yet.</div>
+      ) : (
+        <ol className={`relative border-l border-gray-200 dark:border-gray-700 ml-2 space-y-3 ${compact ? 'max-h-40 overflow-y-auto' : ''}`}>
+          {entries.map((entry) => (
+            <li key={entry.id} className="ml-4 group/entry">
+              <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white dark:border-gray-900 bg-primary-500" />
+              <div className="flex items-start justify-between gap-2">
+                <div>
+                  <div className="flex items-center gap-2 text-xs text-gray-500 dark:text-gray-400">
+                    <span>{formatDate(entry.recordedAt)} {formatTime(entry.recordedAt)}</span>
+                    <span className="font-medium text-gray-900 dark:text-white">{entry.completionPercentage}%</span>
+                    {entry.rating !== null && (
+                      <span className="inline-flex items-center gap-0.5 text-yellow-500">
+                        <Star className="h-3 w-3 fill-current" />
+                        {entry.rating}
+                      </span>
+                    )}
+                  </div>
+                  {entry.notes && (
+                    <p className="text-sm text-gray-700 dark:text-gray-300 mt-0.5">{entry.notes}</p>
+                  )}
+                </div>
+                <button
+                  type="button"
+                  onClick={() => handleDelete(entry.id)}
+                  className="p-1 text-gray-400 hover:text-red-600 dark:hover:text-red-400 opacity-0 group-hover/entry:opacity-100 transition-opacity"
+                  aria-label="Delete progress entry"
+                >
+                  <Trash2 className="h-3.5 w-3.5" />
+                </button>
+              </div>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {/* New entry */}
+      <div className="space-y-2 pt-2 border-t border-gray-200 dark:border-gray-700">
+        <div className="flex items-center gap-3">
+          <input
+            type="range"
+            min={0}
+            max={100}
+            step={5}
+            value={completionPercentage}
+            onChange={(e) => setCompletionPercentage(parseInt(e.target.value))}
+            className="flex-1 accent-primary-600"
+            aria-label="Completion percentage"
+          />
+          <span className="w-10 text-right text-sm font-medium text-gray-700 dark:text-gray-300">
+            {completionPercentage}%
+          </span>
+        </div>
+        <div className="flex items-center gap-1">
+          <span
+            className="mr-1 text-xs text-gray-500 dark:text-gray-400"
+            title="How well did you remember it? Rating a completed session plans its next review."
+          >
+            Recall
+          </span>
+          {[1, 2, 3, 4, 5].map((value) => (
+            <button
+              key={value}
+              type="button"
+              onClick={() => setRating(rating === value ? undefined : value)}
+              className={`p-1 transition-colors ${
+                rating !== undefined && value <= rating ? 'text-yellow-500' : 'text-gray-300 dark:text-gray-600 hover:text-yellow-400'
+              }`}
+              aria-label={`Rate ${value} out of 5`}
+            >
+              <Star className="h-4 w-4 fill-current" />
+            </button>
+          ))}
+        </div>
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && (e.preventDefault(), handleAdd())}
+            placeholder="What did you get done?"
+            className="flex-1 px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-primary-500 dark:bg-gray-700 dark:text-white"
+          />
+          <Button
+            type="button"
+            size="sm"
+            onClick={handleAdd}
+            loading={isSaving}
+            disabled={isSaving}
+            icon={<Plus className="h-4 w-4" />}
+          >
+            Log
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+import { useState, useEffect } from 'react';
+import type { SeriesEditMode } from '@repo/shared-types';
+import { Modal } from '@/components/common/Modal';
+import { Button } from '@/components/common/Button';
+
+interface SeriesScopeDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onConfirm: (mode: SeriesEditMode) => void | Promise<void>;
+  action: 'edit' | 'delete';
+  loading?: boolean;
+  /** Scopes that can be chosen, defaults to all three */
+  modes?: SeriesEditMode[];
+}
+
+const MODE_LABELS: Record<SeriesEditMode, { label: string; hint: string }> = {
+  this: {
+    label: 'This session',
+    hint: 'Only this occurrence changes; the rest of the series stays as is.',
+  },
+  following: {
+    label: 'This and following sessions',
+    hint: 'Splits the series here; earlier occurrences are left untouched.',
+  },
+  all: {
+    label: 'All sessions in the series',
+    hint: 'Completed sessions are kept; planned occurrences are updated.',
+  },
+};
+
+export function SeriesScopeDialog({
+  isOpen,
+  onClose,
+  onConfirm,
+  action,
+  loading = false,
+  modes = ['this', 'following', 'all'],
+}: SeriesScopeDialogProps) {
+  const [mode, setMode] = useState<SeriesEditMode>(modes[0]);
+
+  useEffect(() => {
+    if (isOpen) {
+      setMode(modes[0]);
+    }
+  }, [isOpen]);
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={action === 'delete' ? 'Delete recurring session' : 'Edit recurring session'}
+      size="sm"
+    >
+      <div className="space-y-3">
+        {modes.map((option) => (
+          <label
+            key={option}
+            className={`flex items-start gap-3 p-3 rounded-lg border cursor-pointer transition-colors ${
+              mode === option
+                ? 'border-primary-500 bg-primary-50 dark:bg-primary-900/20'
+                : 'border-gray-200 dark:border-gray-700 hover:border-gray-300 dark:hover:border-gray-600'
+            }`}
+          >
+            <input
+              type="radio"
+              name="series-scope"
+              checked={mode === option}
+              onChange={() => setMode(option)}
+              className="mt-1 text-primary-600"
+            />
+            <div>
+              <p className="text-sm font-medium text-gray-900 dark:text-white">{MODE_LABELS[option].label}</p>
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                {action === 'delete' && option !== 'this'
+                  ? 'Planned occurrences are deleted; sessions you already worked on are kept.'
+                  : MODE_LABELS[option].hint}
+              </p>
+            </div>
+          </label>
+        ))}
+
+        <div className="flex justify-end gap-3 pt-2">
+          <Button type="button" variant="ghost" onClick={onClose} disabled={loading}>
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            variant={action === 'delete' ? 'danger' : 'primary'}
+            onClick={() => onConfirm(mode)}
+            loading={loading}
+          >
+            {action === 'delete' ? 'Delete' : 'Continue'}
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
@@ -1,10 +1,14 @@
 import { useState, useRef } from 'react';
 import type { SessionResponse } from '@repo/shared-types';
+import { SessionStatus } from '@repo/shared-types';
 import { formatDate, formatTime } from '@/utils/dateUtils';
 import {
   getStatusBadgeClasses,
   getPriorityBadgeClasses,
-  getSessionDuration
+  getSessionDuration,
+  canTransitionStatus,
+  getStatusTransitionError,
+  getChecklistCompletion
 } from '@/utils/sessionUtils';
 import { getCategoryIconComponent } from '@/utils/iconUtils';
 import { getCategoryStyle } from '@/utils/categoryStyles';
@@ -12,7 +16,14 @@ import { triggerCelebration } from '@/utils/animations';
 import { useToastConfirm, useToast } from '@/contexts/ToastContext';
 import { QuickActionMenu, type QuickAction } from '@/components/common/QuickActionMenu';
 import { ProgressRing } from '@/components/common/ProgressRing';
-import { Copy, Check, Calendar, MoreVertical } from 'lucide-react';
+import { ProgressTimeline } from './ProgressTimeline';
+import { SessionChecklist } from './SessionChecklist';
+import { SeriesScopeDialog } from './SeriesScopeDialog';
+import { useSeries } from '@/hooks/useSeries';
+import { useTimer } from '@/hooks/useTimer';
+import { requestNotificationPermission } from '@/utils/notifications';
+import { Copy, Check, Calendar, MoreVertical, TrendingUp, Repeat, Timer, ListChecks, Brain } from 'lucide-react';
+import type { SeriesEditMode } from '@repo/shared-types';
 
 interface SessionCardProps {
   session: SessionResponse;
@@ -21,6 +32,7 @@ interface SessionCardProps {
   onClick?: (session: SessionResponse) => void;
   onDuplicate?: (session: SessionResponse) => void;
   onQuickUpdate?: (id: string, patch: Partial<SessionResponse>) => Promise<void>;
+  onEditSeries?: (session: SessionResponse) => void;
   selectionMode?: boolean;
   isSelected?: boolean;
   onToggleSelection?: (id: string) => void;
@@ -33,6 +45,7 @@ export function SessionCard({
   onClick,
   onDuplicate,
   onQuickUpdate,
+  onEditSeries,
   selectionMode = false,
   isSelected = false,
   onToggleSelection,
@@ -41,11 +54,16 @@ export function SessionCard({
   const toast = useToast();
   const [showQuickMenu, setShowQuickMenu] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
+  const [showProgress, setShowProgress] = useState(false);
+  const [showChecklist, setShowChecklist] = useState(false);
+  const [showSeriesDelete, setShowSeriesDelete] = useState(false);
+  const { deleteOccurrence, isSaving: isSeriesSaving } = useSeries();
+  const { timer, startTimer } = useTimer();
   const menuButtonRef = useRef<HTMLButtonElement>(null);
   const cardRef = useRef<HTMLDivElement>(null);
 
   // Guard against undefined or invalid session
-  if (!session || typeof session !== 'object' || !session.id || !session.category || !session.status) {
+  if (!session || typeof session !== 'object' || !session.id || !session.status) {
     console.warn('SessionCard: Invalid session data', session);
     return (
       <div className="rounded-xl border-l-4 border-l-gray-300 bg-gray-50 dark:bg-gray-800 p-4 shadow-md">
@@ -61,6 +79,9 @@ export function SessionCard({
     ? Math.min((session.actualDuration / session.duration) * 100, 100)
     : 0;
 
+  const tasks = session.tasks ?? [];
+  const doneTaskCount = tasks.filter((task) => task.done).length;
+
   const handleDuplicate = (e?: React.MouseEvent) => {
     e?.stopPropagation();
     if (onDuplicate) {
@@ -71,25 +92,44 @@ export function SessionCard({
 
   const handleMarkComplete = async (e?: React.MouseEvent) => {
     e?.stopPropagation();
-    setIsLoading(true);
-    // Comment 7: Use onQuickUpdate if available for one-click persist
-    if (onQuickUpdate) {
+    // Comment 7: Use onQuickUpdate if available for one-click persist.
+    // Completing requires the time actually spent, so without any the edit
+    // form opens to ask for it
+    if (onQuickUpdate && session.actualDuration) {
+      setIsLoading(true);
       try {
-        await onQuickUpdate(session.id, { status: 'completed' as const });
+        await onQuickUpdate(session.id, { status: SessionStatus.COMPLETED });
         toast.success('Session marked as complete');
         // Trigger celebration animation
         if (cardRef.current) {
           triggerCelebration(cardRef.current);
         }
       } catch (error) {
-        toast.error('Failed to mark session complete');
+        const statusError = getStatusTransitionError(error);
+        if (statusError?.code === 'ACTUAL_DURATION_REQUIRED' && onEdit) {
+          onEdit({ ...session, status: SessionStatus.COMPLETED });
+        } else {
+          toast.error(statusError?.message || 'Failed to mark session complete');
+        }
       } finally {
         setIsLoading(false);
       }
     } else if (onEdit) {
-      // Fallback to edit modal if no quick update
-      setIsLoading(false);
-      onEdit({ ...session, status: 'completed' as const });
+      // Fallback to edit modal if no quick update or no tracked time
+      onEdit({ ...session, status: SessionStatus.COMPLETED });
+    }
+  };
+
+  const handleStartTimer = async (e?: React.MouseEvent, pomodoro = false) => {
+    e?.stopPropagation();
+    try {
+      await startTimer({ sessionId: session.id, pomodoro });
+      if (pomodoro) {
+        requestNotificationPermission();
+      }
+      toast.success(pomodoro ? 'Pomodoro started' : 'Timer started');
+    } catch (error: any) {
+      toast.error(getStatusTransitionError(error)?.message || error.message || 'Failed to start timer');
     }
   };
 
@@ -102,6 +142,20 @@ export function SessionCard({
     }
   };
 
+  const handleSeriesDelete = async (mode: SeriesEditMode) => {
+    try {
+      const result = await deleteOccurrence(session.id, mode);
+      toast.success(
+        mode === 'this'
+          ? 'Occurrence removed from series'
+          : `Deleted ${result.deletedCount} planned occurrences`
+      );
+      setShowSeriesDelete(false);
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to delete recurring session');
+    }
+  };
+
   const handleSelectionClick = (e: React.MouseEvent) => {
     e.stopPropagation();
     if (onToggleSelection) {
@@ -123,16 +177,47 @@ export function SessionCard({
       icon: <Copy className="w-5 h-5" />,
       onClick: handleDuplicate,
     },
-    {
-      label: 'Mark Complete',
-      icon: <Check className="w-5 h-5" />,
-      onClick: handleMarkComplete,
-    },
+    ...(timer?.sessionId !== session.id &&
+      (session.status === 'in_progress' || canTransitionStatus(session.status, SessionStatus.IN_PROGRESS))
+      ? [{
+          label: 'Start Timer',
+          icon: <Timer className="w-5 h-5" />,
+          onClick: handleStartTimer,
+        }, {
+          label: 'Start Pomodoro',
+          icon: <Timer className="w-5 h-5" />,
+          onClick: (e?: React.MouseEvent) => handleStartTimer(e, true),
+        }]
+      : []),
+    ...(session.status !== 'completed' && canTransitionStatus(session.status, SessionStatus.COMPLETED)
+      ? [{
+          label: 'Mark Complete',
+          icon: <Check className="w-5 h-5" />,
+          onClick: handleMarkComplete,
+        }]
+      : []),
     {
       label: 'Reschedule',
       icon: <Calendar className="w-5 h-5" />,
       onClick: handleReschedule,
     },
+    {
+      label: showChecklist ? 'Hide Checklist' : tasks.length > 0 ? 'Checklist' : 'Add Checklist',
+      icon: <ListChecks className="w-5 h-5" />,
+      onClick: () => setShowChecklist((prev) => !prev),
+    },
+    {
+      label: showProgress ? 'Hide Progress' : 'Log Progress',
+      icon: <TrendingUp className="w-5 h-5" />,
+      onClick: () => setShowProgress((prev) => !prev),
+    },
+    ...(session.seriesId && onEditSeries
+      ? [{
+          label: 'Edit Series',
+          icon: <Repeat className="w-5 h-5" />,
+          onClick: () => onEditSeries(session),
+        }]
+      : []),
   ];
 
   const statusColor = session.status === 'completed' ? 'border-l-green-500' :
@@ -209,6 +294,43 @@ export function SessionCard({
             <span className={getPriorityBadgeClasses(session.priority)}>
               {session.priority}
             </span>
+            {session.seriesId && (
+              <span
+                className="inline-flex items-center gap-1 px-2 py-0.5 rounded text-xs font-medium bg-primary-100 text-primary-700 dark:bg-primary-900/30 dark:text-primary-300"
+                title="Part of a recurring series"
+              >
+                <Repeat className="w-3 h-3" />
+                series
+              </span>
+            )}
+            {session.reviewOfId && (
+              <span
+                className="inline-flex items-center gap-1 px-2 py-0.5 rounded text-xs font-medium bg-purple-100 text-purple-700 dark:bg-purple-900/30 dark:text-purple-300"
+                title="Spaced-repetition review"
+              >
+                <Brain className="w-3 h-3" />
+                review {(session.reviewRepetition ?? 0) + 1}
+              </span>
+            )}
+            {tasks.length > 0 && (
+              <button
+                type="button"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  setShowChecklist((prev) => !prev);
+                }}
+                className={`inline-flex items-center gap-1 px-2 py-0.5 rounded text-xs font-medium transition-colors ${
+                  doneTaskCount === tasks.length
+                    ? 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300'
+                    : 'bg-gray-100 text-gray-700 hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-300 dark:hover:bg-gray-600'
+                }`}
+                title={showChecklist ? 'Hide checklist' : 'Show checklist'}
+                aria-expanded={showChecklist}
+              >
+                <ListChecks className="w-3 h-3" />
+                {doneTaskCount}/{tasks.length}
+              </button>
+            )}
             {session.tags?.map((tag, i) => (
               <span
                 key={i}
@@ -267,6 +389,10 @@ export function SessionCard({
             <button
               onClick={async (e) => {
                 e.stopPropagation();
+                if (session.seriesId) {
+                  setShowSeriesDelete(true);
+                  return;
+                }
                 const confirmed = await confirm('Are you sure you want to delete this session?');
                 if (confirmed) {
                   onDelete(session.id);
@@ -283,6 +409,37 @@ export function SessionCard({
         </div>
       </div>
 
+      {/* Checklist */}
+      {showChecklist && !selectionMode && (
+        <div className="mt-4 pt-4 border-t border-gray-200 dark:border-gray-700 cursor-default">
+          <SessionChecklist session={session} compact />
+        </div>
+      )}
+
+      {/* Progress Timeline */}
+      {showProgress && !selectionMode && (
+        <div className="mt-4 pt-4 border-t border-gray-200 dark:border-gray-700 cursor-default">
+          <ProgressTimeline
+            sessionId={session.id}
+            checklistCompletion={getChecklistCompletion(session.tasks)}
+            compact
+          />
+        </div>
+      )}
+
+      {/* Series delete scope */}
+      {session.seriesId && (
+        <div onClick={(e) => e.stopPropagation()}>
+          <SeriesScopeDialog
+            isOpen={showSeriesDelete}
+            onClose={() => setShowSeriesDelete(false)}
+            onConfirm={handleSeriesDelete}
+            action="delete"
+            loading={isSeriesSaving}
+          />
+        </div>
+      )}
+
       {/* Quick Action Menu */}
       <QuickActionMenu
         isOpen={showQuickMenu}
@@ -0,0 +1,53 @@
+import type { SessionResponse } from '@repo/shared-types';
+import { useSessionTasks } from '@/hooks/useSessionTasks';
+import { useToast } from '@/contexts/ToastContext';
+import { ChecklistEditor } from './ChecklistEditor';
+
+interface SessionChecklistProps {
+  session: SessionResponse;
+  compact?: boolean;
+}
+
+/**
+ * Checklist of a saved session; every change is sent to the API right away
+ */
+export function SessionChecklist({ session, compact = false }: SessionChecklistProps) {
+  const toast = useToast();
+  const { tasks, addTask, updateTask, toggleTask, deleteTask, reorderTasks } = useSessionTasks(
+    session.id,
+    session.tasks
+  );
+
+  const run = async (action: Promise<unknown>, failure: string) => {
+    try {
+      await action;
+    } catch (error: any) {
+      toast.error(error.message || failure);
+    }
+  };
+
+  return (
+    <ChecklistEditor
+      compact={compact}
+      items={tasks.map((task) => ({
+        key: task.id,
+        title: task.title,
+        done: task.done,
+        estimatedMinutes: task.estimatedMinutes,
+      }))}
+      onAdd={(title, estimatedMinutes) =>
+        run(addTask({ title, estimatedMinutes }), 'Failed to add checklist item')
+      }
+      onToggle={(index) => run(toggleTask(tasks[index]), 'Failed to update checklist item')}
+      onRename={(index, title) =>
+        run(updateTask(tasks[index].id, { title }), 'Failed to rename checklist item')
+      }
+      onDelete={(index) => run(deleteTask(tasks[index].id), 'Failed to delete checklist item')}
+      onMove={(index, direction) => {
+        const ids = tasks.map((task) => task.id);
+        [ids[index], ids[index + direction]] = [ids[index + direction], ids[index]];
+        run(reorderTasks(ids), 'Failed to reorder checklist');
+      }}
+    />
+  );
+}
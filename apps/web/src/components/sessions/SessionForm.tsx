@@ -1,17 +1,27 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
 import { FileText, Save, AlertCircle, Search, Clock } from 'lucide-react';
-import type { CreateSessionDto, UpdateSessionDto, SessionResponse, TemplateResponse, CreateTemplateDto } from '@repo/shared-types';
-import { SESSION_CATEGORIES, SESSION_STATUSES, SESSION_PRIORITIES } from '@repo/shared-types';
+import type { CreateSessionDto, UpdateSessionDto, SessionResponse, TemplateResponse, CreateTemplateDto, CreateSessionTaskDto } from '@repo/shared-types';
+import { SESSION_STATUSES, SESSION_PRIORITIES } from '@repo/shared-types';
 import { TemplateModal } from './TemplateModal';
 import { SessionSearchModal } from './SessionSearchModal';
+import { ProgressTimeline } from './ProgressTimeline';
+import { ChecklistEditor } from './ChecklistEditor';
+import { SessionChecklist } from './SessionChecklist';
 import { Tooltip } from '@/components/common/Tooltip';
 import { Button } from '@/components/common/Button';
+import { TagInput } from '@/components/common/TagInput';
 import { useToast } from '@/contexts/ToastContext';
 import { useAuth } from '@/contexts/AuthContext';
-import { useLocalStorage } from '@/hooks/useLocalStorage';
-import { STORAGE_KEYS } from '@/utils/localStorage';
+import { useSessionDraft } from '@/hooks/useSessionDraft';
+import { useCategories } from '@/hooks/useCategories';
 import { api } from '@/services/api';
 import { validateSessionForm, validation } from '@/utils/validation';
+import {
+  getAvailableStatuses,
+  getStatusTransitionError,
+  getSessionConflictError,
+  copyChecklist,
+} from '@/utils/sessionUtils';
 
 interface SessionFormProps {
   session?: SessionResponse;
@@ -24,6 +34,9 @@ interface SessionFormProps {
   seedData?: Partial<CreateSessionDto>;
 }
 
+// Drafts older than this are discarded instead of restored
+const DRAFT_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
 // Helper function to format Date to local datetime-local string (yyyy-MM-ddTHH:mm)
 function formatDateToLocalInput(date: Date): string {
   const year = date.getFullYear();
@@ -37,41 +50,45 @@ function formatDateToLocalInput(date: Date): string {
 export function SessionForm({ session, onSubmit, onCancel, loading, initialDate, onTemplateSaved, enableTemplates = true, seedData }: SessionFormProps) {
   const toast = useToast();
   const { user } = useAuth();
+  const { categoryOptions } = useCategories();
 
-  // Comment 5: User-specific draft key for create mode only
-  const draftKey = !session && user ? `${STORAGE_KEYS.DRAFT_SESSION}-${user.id}` : null;
+  // Comment 5: Drafts are kept server-side, for create mode only
+  const draftEnabled = !session && !!user;
 
   // Comment 5: Initialize formData with default values
   const getDefaultFormData = () => ({
     title: '',
     description: '',
-    category: 'programming' as const,
+    // Empty means uncategorized
+    categoryId: '',
     status: 'planned' as const,
     priority: 'medium' as const,
     duration: 60,
     scheduledFor: '',
     tags: [] as string[],
     notes: '',
+    // Checklist of a new session; saved sessions edit theirs through the API
+    tasks: [] as CreateSessionTaskDto[],
   });
 
   const [formData, setFormData] = useState(getDefaultFormData());
 
-  // Comment 5: Auto-save draft using useLocalStorage (for create mode only)
-  const [draft, setDraft, clearDraft] = useLocalStorage(
-    draftKey || 'disabled',
-    null as typeof formData | null
-  );
+  // Comment 5: Auto-save draft to the server (for create mode only)
+  const { draft, isLoaded: isDraftLoaded, saveDraft, clearDraft } = useSessionDraft({ enabled: draftEnabled });
+  const draftCheckedRef = useRef(false);
 
   // Comment 5: Track last save time for "Draft saved" indicator
   const [lastSaved, setLastSaved] = useState<Date | null>(null);
   const saveTimerRef = useRef<NodeJS.Timeout | null>(null);
 
-  const [tagInput, setTagInput] = useState('');
   const [isTemplateModalOpen, setIsTemplateModalOpen] = useState(false);
   const [isSessionSearchModalOpen, setIsSessionSearchModalOpen] = useState(false);
   const [isSavingTemplate, setIsSavingTemplate] = useState(false);
   const [templateName, setTemplateName] = useState('');
   const [validationErrors, setValidationErrors] = useState<Record<string, string>>({});
+  // Minutes actually spent, required by the API when a session is completed
+  const [actualDuration, setActualDuration] = useState<number | ''>('');
+  const isCompleted = (formData.status as string) === 'completed';
   const [touched, setTouched] = useState<Record<string, boolean>>({});
 
   // Comment 5: Restore draft on mount (create mode only)
@@ -81,25 +98,28 @@ export function SessionForm({ session, onSubmit, onCancel, loading, initialDate,
       setFormData({
         title: session.title,
         description: session.description || '',
-        category: session.category,
+        categoryId: session.categoryId ?? '',
         status: session.status,
         priority: session.priority,
         duration: session.duration,
         scheduledFor: session.scheduledFor ? formatDateToLocalInput(new Date(session.scheduledFor)) : '',
         tags: session.tags || [],
         notes: session.notes || '',
+        tasks: [],
       });
+      setActualDuration(session.actualDuration ?? '');
     } else if (seedData) {
       // Create mode with seed data from previous session: pre-fill all fields except scheduledFor
       setFormData(prev => ({
         ...prev,
         title: seedData.title || '',
         description: seedData.description || '',
-        category: seedData.category || 'programming',
+        categoryId: seedData.categoryId ?? '',
         priority: seedData.priority || 'medium',
         duration: seedData.duration || 60,
         tags: seedData.tags || [],
         notes: seedData.notes || '',
+        tasks: copyChecklist(seedData.tasks),
         // Leave scheduledFor blank and keep status as 'planned'
       }));
     } else if (initialDate) {
@@ -108,35 +128,39 @@ export function SessionForm({ session, onSubmit, onCancel, loading, initialDate,
         ...prev,
         scheduledFor: formatDateToLocalInput(initialDate),
       }));
-    } else if (draft && draftKey) {
-      // Comment 5: Restore draft if exists and is recent (< 7 days old)
-      const draftAge = lastSaved ? Date.now() - lastSaved.getTime() : 0;
-      const sevenDaysMs = 7 * 24 * 60 * 60 * 1000;
-
-      if (draftAge < sevenDaysMs) {
-        setFormData(draft);
-        setLastSaved(new Date());
-        toast.info('Draft restored', {
-          action: {
-            label: 'Discard',
-            onClick: () => {
-              setFormData(getDefaultFormData());
-              if (clearDraft) clearDraft();
-              setLastSaved(null);
-            },
-          },
-        });
-      } else {
-        // Comment 5: Clear stale draft
-        if (clearDraft) clearDraft();
-      }
     }
   }, [session, initialDate, seedData]);
 
+  // Comment 5: Restore the server draft once it has loaded (plain create mode only)
+  useEffect(() => {
+    if (!draftEnabled || seedData || initialDate || !isDraftLoaded || draftCheckedRef.current) return;
+    draftCheckedRef.current = true;
+    if (!draft) return;
+
+    const draftAge = Date.now() - new Date(draft.updatedAt).getTime();
+    if (draftAge < DRAFT_MAX_AGE_MS) {
+      setFormData(prev => ({ ...prev, ...draft.data } as typeof prev));
+      setLastSaved(new Date(draft.updatedAt));
+      toast.info('Draft restored', {
+        action: {
+          label: 'Discard',
+          onClick: () => {
+            setFormData(getDefaultFormData());
+            clearDraft();
+            setLastSaved(null);
+          },
+        },
+      });
+    } else {
+      // Comment 5: Clear stale draft
+      clearDraft();
+    }
+  }, [draft, isDraftLoaded, draftEnabled, seedData, initialDate]);
+
   // Comment 5: Debounced auto-save (create mode only)
   useEffect(() => {
-    // Only auto-save in create mode when draft key exists
-    if (!draftKey || session) return;
+    // Only auto-save in create mode
+    if (!draftEnabled) return;
 
     // Clear existing timer
     if (saveTimerRef.current) {
@@ -150,7 +174,7 @@ export function SessionForm({ session, onSubmit, onCancel, loading, initialDate,
 
     // Debounce: save 1s after last change
     saveTimerRef.current = setTimeout(() => {
-      setDraft(formData);
+      saveDraft(formData);
       setLastSaved(new Date());
     }, 1000);
 
@@ -159,7 +183,7 @@ export function SessionForm({ session, onSubmit, onCancel, loading, initialDate,
         clearTimeout(saveTimerRef.current);
       }
     };
-  }, [formData, draftKey, session, setDraft]);
+  }, [formData, draftEnabled, saveDraft]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -173,21 +197,47 @@ export function SessionForm({ session, onSubmit, onCancel, loading, initialDate,
 
     setValidationErrors({});
 
+    if (isCompleted && !actualDuration) {
+      setValidationErrors({ actualDuration: 'Enter how many minutes you actually spent' });
+      return;
+    }
+
     // Comment 5: Clear draft on successful submit
+    const { tasks, ...fields } = formData;
     try {
       await onSubmit({
-        ...formData,
+        ...fields,
+        ...(!session && tasks.length > 0 && { tasks }),
+        categoryId: formData.categoryId || null,
         description: formData.description || undefined,
         scheduledFor: formData.scheduledFor || undefined,
         notes: formData.notes || undefined,
+        ...(isCompleted && { actualDuration: Number(actualDuration) }),
       });
 
       // Clear draft after successful submission
-      if (draftKey && clearDraft) {
+      if (draftEnabled) {
         clearDraft();
         setLastSaved(null);
       }
     } catch (error) {
+      // Rejected status changes are shown next to the status field
+      const statusError = getStatusTransitionError(error);
+      if (statusError) {
+        setValidationErrors({
+          [statusError.code === 'ACTUAL_DURATION_REQUIRED' ? 'actualDuration' : 'status']: statusError.message,
+        });
+        toast.error(statusError.message);
+        return;
+      }
+      // Overlaps rejected by strict scheduling are shown next to the date
+      const conflictError = getSessionConflictError(error);
+      if (conflictError) {
+        setTouched((prev) => ({ ...prev, scheduledFor: true }));
+        setValidationErrors({ scheduledFor: conflictError.message });
+        toast.error(conflictError.message);
+        return;
+      }
       // Don't clear draft if submission failed
       throw error;
     }
@@ -195,14 +245,12 @@ export function SessionForm({ session, onSubmit, onCancel, loading, initialDate,
 
   // Comment 5: Handle cancel with confirmation if draft exists
   const handleCancel = () => {
-    if (draftKey && draft && (formData.title || formData.description || formData.tags.length > 0)) {
+    if (draftEnabled && draft && (formData.title || formData.description || formData.tags.length > 0)) {
       const confirmed = window.confirm('You have unsaved changes. Discard draft?');
       if (!confirmed) return;
 
-      if (clearDraft) {
-        clearDraft();
-        setLastSaved(null);
-      }
+      clearDraft();
+      setLastSaved(null);
     }
     onCancel();
   };
@@ -262,28 +310,18 @@ export function SessionForm({ session, onSubmit, onCancel, loading, initialDate,
     });
   };
 
-  const addTag = () => {
-    if (tagInput.trim() && !formData.tags.includes(tagInput.trim())) {
-      setFormData({ ...formData, tags: [...formData.tags, tagInput.trim()] });
-      setTagInput('');
-    }
-  };
-
-  const removeTag = (tag: string) => {
-    setFormData({ ...formData, tags: formData.tags.filter(t => t !== tag) });
-  };
-
   const handleLoadTemplate = (template: TemplateResponse) => {
     setFormData({
       title: template.title,
       description: template.description || '',
-      category: template.category,
+      categoryId: template.categoryId ?? '',
       status: formData.status, // Keep current status
       priority: template.priority,
       duration: template.duration,
       scheduledFor: formData.scheduledFor, // Keep current scheduledFor
       tags: template.tags || [],
       notes: template.notes || '',
+      tasks: copyChecklist(template.checklist),
     });
   };
 
@@ -298,11 +336,12 @@ export function SessionForm({ session, onSubmit, onCancel, loading, initialDate,
       name: templateName.trim(),
       title: formData.title,
       description: formData.description || undefined,
-      category: formData.category,
+      categoryId: formData.categoryId || null,
       priority: formData.priority,
       duration: formData.duration,
       tags: formData.tags,
       notes: formData.notes || undefined,
+      checklist: copyChecklist(formData.tasks),
     };
 
     setIsSavingTemplate(true);
@@ -329,13 +368,14 @@ export function SessionForm({ session, onSubmit, onCancel, loading, initialDate,
     setFormData({
       title: previousSession.title,
       description: previousSession.description || '',
-      category: previousSession.category,
+      categoryId: previousSession.categoryId ?? '',
       status: 'planned', // Always keep as planned for new session
       priority: previousSession.priority,
       duration: previousSession.duration,
       scheduledFor: '', // Leave blank
       tags: previousSession.tags || [],
       notes: previousSession.notes || '',
+      tasks: copyChecklist(previousSession.tasks),
     });
     setIsSessionSearchModalOpen(false);
   };
@@ -356,7 +396,7 @@ export function SessionForm({ session, onSubmit, onCancel, loading, initialDate,
     <>
       <form onSubmit={handleSubmit} className="space-y-4">
         {/* Comment 5: Draft Saved Indicator (create mode only) */}
-        {!session && draftKey && lastSaved && (
+        {draftEnabled && lastSaved && (
           <div className="flex items-center gap-2 p-2 bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-lg text-sm text-green-700 dark:text-green-300">
             <Clock className="h-4 w-4" />
             <span>Draft saved {getTimeAgo(lastSaved)}</span>
@@ -457,16 +497,17 @@ export function SessionForm({ session, onSubmit, onCancel, loading, initialDate,
       <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
         <div>
           <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1 flex items-center gap-2">
-            Category *
-            <Tooltip content="Categorize your learning session" position="top" />
+            Category
+            <Tooltip content="Categorize your learning session (manage categories on the Categories page)" position="top" />
           </label>
           <select
-            value={formData.category}
-            onChange={(e) => handleFieldChange('category', e.target.value)}
+            value={formData.categoryId}
+            onChange={(e) => handleFieldChange('categoryId', e.target.value)}
             className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-primary-500 dark:bg-gray-700 dark:text-white transition-all"
           >
-            {SESSION_CATEGORIES.map((cat) => (
-              <option key={cat} value={cat}>{cat}</option>
+            <option value="">Uncategorized</option>
+            {categoryOptions.map((option) => (
+              <option key={option.value} value={option.value}>{option.label}</option>
             ))}
           </select>
         </div>
@@ -481,10 +522,39 @@ export function SessionForm({ session, onSubmit, onCancel, loading, initialDate,
             onChange={(e) => handleFieldChange('status', e.target.value)}
             className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-primary-500 dark:bg-gray-700 dark:text-white transition-all"
           >
-            {SESSION_STATUSES.map((status) => (
+            {(session ? getAvailableStatuses(session.status) : SESSION_STATUSES).map((status) => (
               <option key={status} value={status}>{status.replace('_', ' ')}</option>
             ))}
           </select>
+          {validationErrors.status && (
+            <p className="mt-1 text-sm text-red-600 dark:text-red-400 flex items-center gap-1 animate-fade-in">
+              <AlertCircle className="h-4 w-4" />
+              {validationErrors.status}
+            </p>
+          )}
+          {isCompleted && (
+            <div className="mt-2">
+              <label className="block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">
+                Actual duration (minutes) *
+              </label>
+              <input
+                type="number"
+                min={1}
+                value={actualDuration}
+                placeholder={String(formData.duration)}
+                onChange={(e) => setActualDuration(e.target.value ? parseInt(e.target.value) : '')}
+                className={`w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-primary-500 dark:bg-gray-700 dark:text-white transition-all ${
+                  validationErrors.actualDuration ? 'border-red-500 dark:border-red-400' : 'border-gray-300 dark:border-gray-600'
+                }`}
+              />
+              {validationErrors.actualDuration && (
+                <p className="mt-1 text-sm text-red-600 dark:text-red-400 flex items-center gap-1 animate-fade-in">
+                  <AlertCircle className="h-4 w-4" />
+                  {validationErrors.actualDuration}
+                </p>
+              )}
+            </div>
+          )}
         </div>
 
         <div>
@@ -574,47 +644,17 @@ export function SessionForm({ session, onSubmit, onCancel, loading, initialDate,
           Tags
           <Tooltip content="Add tags to organize your sessions (max 10 tags, 50 chars each)" position="top" />
         </label>
-        <div className="flex gap-2 mb-2">
-          <input
-            type="text"
-            value={tagInput}
-            onChange={(e) => setTagInput(e.target.value)}
-            onKeyPress={(e) => e.key === 'Enter' && (e.preventDefault(), addTag())}
-            placeholder="Add a tag..."
-            className="flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-primary-500 dark:bg-gray-700 dark:text-white transition-all"
-          />
-          <button
-            type="button"
-            onClick={addTag}
-            disabled={!tagInput.trim() || formData.tags.length >= 10}
-            className="px-4 py-2 bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600 rounded-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed min-h-[44px]"
-          >
-            Add
-          </button>
-        </div>
+        <TagInput
+          value={formData.tags}
+          onChange={(tags) => handleFieldChange('tags', tags)}
+          onBlur={() => handleFieldBlur('tags')}
+        />
         {touched.tags && validationErrors.tags && (
-          <p className="mb-2 text-sm text-red-600 dark:text-red-400 flex items-center gap-1 animate-fade-in">
+          <p className="mt-1 text-sm text-red-600 dark:text-red-400 flex items-center gap-1 animate-fade-in">
             <AlertCircle className="h-4 w-4" />
             {validationErrors.tags}
           </p>
         )}
-        <div className="flex flex-wrap gap-2">
-          {formData.tags.map((tag) => (
-            <span
-              key={tag}
-              className="inline-flex items-center gap-1 px-3 py-1 bg-primary-100 dark:bg-primary-900 text-primary-800 dark:text-primary-200 rounded-full text-sm transition-all hover:scale-105 animate-fade-in"
-            >
-              {tag}
-              <button
-                type="button"
-                onClick={() => removeTag(tag)}
-                className="hover:text-primary-600 dark:hover:text-primary-400 transition-colors"
-              >
-                ×
-              </button>
-            </span>
-          ))}
-        </div>
       </div>
 
       <div>
@@ -639,6 +679,55 @@ export function SessionForm({ session, onSubmit, onCancel, loading, initialDate,
         )}
       </div>
 
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1 flex items-center gap-2">
+            Checklist
+            <Tooltip content="Concrete items to get through in this session; double-click an item to rename it" position="top" />
+          </label>
+          {session ? (
+            <SessionChecklist session={session} />
+          ) : (
+            <ChecklistEditor
+              items={formData.tasks.map((task, index) => ({
+                key: `${index}:${task.title}`,
+                title: task.title,
+                done: task.done ?? false,
+                estimatedMinutes: task.estimatedMinutes ?? null,
+              }))}
+              onAdd={(title, estimatedMinutes) =>
+                setFormData({ ...formData, tasks: [...formData.tasks, { title, estimatedMinutes }] })
+              }
+              onToggle={(index) =>
+                setFormData({
+                  ...formData,
+                  tasks: formData.tasks.map((task, i) => (i === index ? { ...task, done: !task.done } : task)),
+                })
+              }
+              onRename={(index, title) =>
+                setFormData({
+                  ...formData,
+                  tasks: formData.tasks.map((task, i) => (i === index ? { ...task, title } : task)),
+                })
+              }
+              onDelete={(index) =>
+                setFormData({ ...formData, tasks: formData.tasks.filter((_, i) => i !== index) })
+              }
+              onMove={(index, direction) => {
+                const tasks = [...formData.tasks];
+                [tasks[index], tasks[index + direction]] = [tasks[index + direction], tasks[index]];
+                setFormData({ ...formData, tasks });
+              }}
+            />
+          )}
+        </div>
+
+        {/* Progress timeline (edit mode only) */}
+        {session && (
+          <div className="p-4 bg-gray-50 dark:bg-gray-800/50 border border-gray-200 dark:border-gray-700 rounded-lg">
+            <ProgressTimeline sessionId={session.id} />
+          </div>
+        )}
+
         <div className="flex flex-col sm:flex-row gap-3 justify-end pt-4">
           <Button
             type="button"
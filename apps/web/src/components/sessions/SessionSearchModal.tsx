@@ -1,11 +1,13 @@
 import { useState, useEffect, useRef } from 'react';
-import { Search, X, Loader2, Calendar, Clock, Tag, Star, History } from 'lucide-react';
+import { useQuery } from '@tanstack/react-query';
+import { Search, X, Loader2, Calendar, Clock, Tag, Star, History, AlertCircle } from 'lucide-react';
 import { Modal } from '@/components/common/Modal';
-import type { SessionResponse, SessionCategory } from '@repo/shared-types';
+import type { SessionResponse, CategorySummaryDto, HighlightSegment, ParsedSessionSearchDto } from '@repo/shared-types';
 import { api } from '@/services/api';
-import { useFuzzySearch } from '@/hooks/useFuzzySearch';
+import { useSessionSearch } from '@/hooks/useSessionSearch';
 import { useRecentSessions } from '@/hooks/useRecentSessions';
 import { useFavorites } from '@/hooks/useFavorites';
+import { getCategoryStyle } from '@/utils/categoryStyles';
 
 interface SessionSearchModalProps {
   isOpen: boolean;
@@ -16,58 +18,55 @@ interface SessionSearchModalProps {
 // Comment 3: Type for section tabs
 type SearchSection = 'search' | 'recent' | 'favorites';
 
+// A listed session, with highlights when it came from a text search
+interface ResultItem {
+  session: SessionResponse;
+  titleHighlight?: HighlightSegment[] | null;
+  snippet?: HighlightSegment[] | null;
+}
+
+/**
+ * Operator filters the server recognized, shown as chips under the search box
+ */
+function describeFilters(query: ParsedSessionSearchDto | null): string[] {
+  if (!query) return [];
+  return [
+    ...query.tags.map((tag) => `tag: ${tag}`),
+    ...query.categories.map((category) => `category: ${category}`),
+    ...query.statuses.map((status) => `status: ${status.replace('_', ' ')}`),
+    ...(query.before ? [`before ${query.before}`] : []),
+    ...(query.after ? [`after ${query.after}`] : []),
+  ];
+}
+
 export function SessionSearchModal({ isOpen, onClose, onSelectSession }: SessionSearchModalProps) {
   const [searchQuery, setSearchQuery] = useState('');
-  const [allSessions, setAllSessions] = useState<SessionResponse[]>([]);
-  const [loading, setLoading] = useState(false);
   const [activeSection, setActiveSection] = useState<SearchSection>('search');
   const [focusedIndex, setFocusedIndex] = useState(0);
   const resultsRef = useRef<(HTMLButtonElement | null)[]>([]);
 
-  // Comment 3: Use fuzzy search with configured keys and weights
-  const fuzzyResults = useFuzzySearch(allSessions, searchQuery, {
-    keys: [
-      { name: 'title', weight: 2 },
-      { name: 'description', weight: 1 },
-      { name: 'tags', weight: 1.5 },
-    ],
-    threshold: 0.4,
-  });
+  // Ranked server-side search over all sessions, including notes and progress notes
+  const search = useSessionSearch(searchQuery, { enabled: isOpen && activeSection === 'search' });
 
   // Comment 3: Use recent sessions and favorites
   const { recentSessions, addRecentSession } = useRecentSessions();
   const { isFavoriteSession, toggleFavoriteSession } = useFavorites();
+  const { data: favoriteSessions = [], isLoading: favoritesLoading } = useQuery({
+    queryKey: ['favorites', 'sessions'],
+    queryFn: async (): Promise<SessionResponse[]> => {
+      const response = await api.favorites.listSessions();
+      return response.data ?? [];
+    },
+    enabled: isOpen && activeSection === 'favorites',
+  });
 
-  // Comment 3: Load all sessions on mount for fuzzy search
+  // Comment 3: Reset state when the modal closes
   useEffect(() => {
     if (!isOpen) {
       setSearchQuery('');
       setActiveSection('search');
       setFocusedIndex(0);
-      return;
     }
-
-    const loadSessions = async () => {
-      setLoading(true);
-      try {
-        const response = await api.sessions.getAll();
-        // Handle the API response structure properly - response.data.data contains sessions array
-        const sessions = response?.data?.data;
-        if (Array.isArray(sessions)) {
-          setAllSessions(sessions);
-        } else {
-          console.warn('API response is not an array:', sessions);
-          setAllSessions([]);
-        }
-      } catch (error) {
-        console.error('Failed to load sessions:', error);
-        setAllSessions([]);
-      } finally {
-        setLoading(false);
-      }
-    };
-
-    loadSessions();
   }, [isOpen]);
 
   // Comment 3: Reset focused index when results change
@@ -116,7 +115,7 @@ export function SessionSearchModal({ isOpen, onClose, onSelectSession }: Session
         case 'Enter':
           e.preventDefault();
           if (currentResults[focusedIndex]) {
-            handleSelectSession(currentResults[focusedIndex]);
+            handleSelectSession(currentResults[focusedIndex].session);
           }
           break;
       }
@@ -124,64 +123,39 @@ export function SessionSearchModal({ isOpen, onClose, onSelectSession }: Session
 
     document.addEventListener('keydown', handleKeyDown);
     return () => document.removeEventListener('keydown', handleKeyDown);
-  }, [isOpen, focusedIndex, activeSection, searchQuery]);
+  }, [isOpen, focusedIndex, activeSection, searchQuery, search.hits]);
 
   // Comment 3: Get current results based on active section
-  const getCurrentResults = (): SessionResponse[] => {
+  const getCurrentResults = (): ResultItem[] => {
     if (activeSection === 'recent') {
-      return recentSessions;
+      return recentSessions.map((session) => ({ session }));
     }
     if (activeSection === 'favorites') {
-      return allSessions.filter((session) => isFavoriteSession(session.id));
+      return favoriteSessions.map((session) => ({ session }));
     }
     // Search section
     if (searchQuery.trim()) {
-      return fuzzyResults.results.map(result => result.item);
+      return search.hits;
     }
     return [];
   };
 
   // Comment 3: Highlight matched text
-  const highlightMatches = (text: string, indices?: readonly [number, number][]): React.ReactNode => {
-    if (!indices || indices.length === 0) {
-      return text;
-    }
-
-    const parts: React.ReactNode[] = [];
-    let lastIndex = 0;
-
-    indices.forEach(([start, end]) => {
-      // Add text before match
-      if (start > lastIndex) {
-        parts.push(text.substring(lastIndex, start));
-      }
-      // Add highlighted match
-      parts.push(
-        <mark key={start} className="highlight">
-          {text.substring(start, end + 1)}
-        </mark>
-      );
-      lastIndex = end + 1;
-    });
-
-    // Add remaining text
-    if (lastIndex < text.length) {
-      parts.push(text.substring(lastIndex));
-    }
-
-    return <>{parts}</>;
-  };
+  const renderHighlight = (segments: HighlightSegment[]): React.ReactNode => (
+    <>
+      {segments.map((segment, index) =>
+        segment.match ? (
+          <mark key={index} className="highlight">
+            {segment.text}
+          </mark>
+        ) : (
+          segment.text
+        )
+      )}
+    </>
+  );
 
-  const getCategoryColor = (category: SessionCategory) => {
-    const colors: Record<SessionCategory, string> = {
-      school: 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200',
-      programming: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
-      language: 'bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200',
-      personal: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200',
-      other: 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-200',
-    };
-    return colors[category] || colors.other;
-  };
+  const getCategoryColor = (category: CategorySummaryDto | null) => getCategoryStyle(category).badge;
 
   const getStatusColor = (status: string) => {
     const colors: Record<string, string> = {
@@ -200,6 +174,10 @@ export function SessionSearchModal({ isOpen, onClose, onSelectSession }: Session
   };
 
   const currentResults = getCurrentResults();
+  const loading =
+    (activeSection === 'search' && search.loading && currentResults.length === 0) ||
+    (activeSection === 'favorites' && favoritesLoading);
+  const filters = activeSection === 'search' && searchQuery.trim() ? describeFilters(search.parsedQuery) : [];
 
   return (
     <Modal isOpen={isOpen} onClose={onClose} title="Search Sessions" size="lg" showCloseButton={false}>
@@ -252,7 +230,8 @@ export function SessionSearchModal({ isOpen, onClose, onSelectSession }: Session
             <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-gray-400" />
             <input
               type="text"
-              placeholder="Search sessions by title, description, or tags..."
+              placeholder="Search sessions, e.g. vocab tag:exam status:missed before:2026-11-01"
+              aria-label="Search sessions"
               value={searchQuery}
               onChange={(e) => setSearchQuery(e.target.value)}
               autoFocus
@@ -267,6 +246,23 @@ export function SessionSearchModal({ isOpen, onClose, onSelectSession }: Session
               </button>
             )}
           </div>
+          {search.error ? (
+            <p className="mt-2 flex items-center gap-1 text-sm text-red-600 dark:text-red-400" role="alert">
+              <AlertCircle className="h-4 w-4" />
+              {search.error.message}
+            </p>
+          ) : filters.length > 0 && (
+            <div className="mt-2 flex flex-wrap gap-1">
+              {filters.map((filter) => (
+                <span
+                  key={filter}
+                  className="px-2 py-0.5 text-xs rounded-full bg-primary-100 text-primary-700 dark:bg-primary-900/40 dark:text-primary-300"
+                >
+                  {filter}
+                </span>
+              ))}
+            </div>
+          )}
         </div>
       )}
 
@@ -281,8 +277,11 @@ export function SessionSearchModal({ isOpen, onClose, onSelectSession }: Session
             {activeSection === 'search' && !searchQuery ? (
               <>
                 <Search className="h-12 w-12 mb-4" />
-                <p className="text-lg font-medium">Fuzzy Search</p>
-                <p className="text-sm">Type to search across title, description, and tags</p>
+                <p className="text-lg font-medium">Search</p>
+                <p className="text-sm">Type to search titles, descriptions, notes, tags and progress notes</p>
+                <p className="text-xs mt-2">
+                  Filter with tag:, category:, status:, before: and after:
+                </p>
               </>
             ) : activeSection === 'search' && searchQuery ? (
               <>
@@ -306,7 +305,7 @@ export function SessionSearchModal({ isOpen, onClose, onSelectSession }: Session
           </div>
         ) : (
           <div className="space-y-2 max-h-[400px] overflow-y-auto">
-            {currentResults.map((session, index) => (
+            {currentResults.map(({ session, titleHighlight, snippet }, index) => (
               <button
                 key={session.id}
                 ref={(el) => (resultsRef.current[index] = el)}
@@ -317,7 +316,7 @@ export function SessionSearchModal({ isOpen, onClose, onSelectSession }: Session
               >
                 <div className="flex items-start justify-between mb-2">
                   <h3 className="font-semibold text-gray-900 dark:text-white flex-1">
-                    {session.title}
+                    {titleHighlight ? renderHighlight(titleHighlight) : session.title}
                   </h3>
                   <div className="flex gap-2 ml-2">
                     {/* Comment 3: Star button for favorites */}
@@ -332,8 +331,8 @@ export function SessionSearchModal({ isOpen, onClose, onSelectSession }: Session
                     >
                       <Star className={`h-4 w-4 ${isFavoriteSession(session.id) ? 'fill-current' : ''}`} />
                     </button>
-                    <span className={`px-2 py-1 text-xs font-medium rounded-full ${getCategoryColor(session.category || 'other')}`}>
-                      {session.category || 'other'}
+                    <span className={`px-2 py-1 text-xs font-medium rounded-full ${getCategoryColor(session.category)}`}>
+                      {session.category?.name ?? 'Uncategorized'}
                     </span>
                     <span className={`px-2 py-1 text-xs font-medium rounded-full ${getStatusColor(session.status || 'planned')}`}>
                       {(session.status || 'planned').replace('_', ' ')}
@@ -341,7 +340,11 @@ export function SessionSearchModal({ isOpen, onClose, onSelectSession }: Session
                   </div>
                 </div>
 
-                {session.description && (
+                {snippet ? (
+                  <p className="text-sm text-gray-600 dark:text-gray-400 mb-2 line-clamp-2">
+                    {renderHighlight(snippet)}
+                  </p>
+                ) : session.description && (
                   <p className="text-sm text-gray-600 dark:text-gray-400 mb-2 line-clamp-2">
                     {session.description}
                   </p>
@@ -368,6 +371,16 @@ export function SessionSearchModal({ isOpen, onClose, onSelectSession }: Session
                 </div>
               </button>
             ))}
+            {activeSection === 'search' && search.hasMore && (
+              <button
+                type="button"
+                onClick={() => search.loadMore()}
+                disabled={search.loadingMore}
+                className="w-full py-2 text-sm font-medium text-primary-600 dark:text-primary-400 hover:underline disabled:opacity-50"
+              >
+                {search.loadingMore ? 'Loading…' : 'Load more results'}
+              </button>
+            )}
           </div>
         )}
       </div>
@@ -378,7 +391,9 @@ export function SessionSearchModal({ isOpen, onClose, onSelectSession }: Session
           {currentResults.length > 0 ? 'Arrow keys to navigate, Enter to select, ' : ''}ESC to close
         </span>
         {currentResults.length > 0 && (
-          <span>{currentResults.length} result{currentResults.length !== 1 ? 's' : ''}</span>
+          <span>
+            {currentResults.length}{activeSection === 'search' && search.hasMore ? '+' : ''} result{currentResults.length !== 1 ? 's' : ''}
+          </span>
         )}
       </div>
     </Modal>
@@ -1,10 +1,13 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { Search, Loader2, FileText, Star, Zap, Clock, Tag as TagIcon } from 'lucide-react';
 import { useTemplates } from '@/hooks/useTemplates';
 import { useFavorites } from '@/hooks/useFavorites';
 import { Modal } from '@/components/common/Modal';
 import { Button } from '@/components/common/Button';
-import type { TemplateResponse, SessionCategory } from '@repo/shared-types';
+import { getCategoryStyle } from '@/utils/categoryStyles';
+import { useToast } from '@/contexts/ToastContext';
+import { ChecklistEditor } from './ChecklistEditor';
+import type { TemplateResponse, CategorySummaryDto, TemplateChecklistItemDto } from '@repo/shared-types';
 
 interface TemplateModalProps {
   isOpen: boolean;
@@ -12,16 +15,23 @@ interface TemplateModalProps {
   onSelectTemplate: (template: TemplateResponse) => void;
 }
 
-// Comment 4: All categories for filtering
-const CATEGORIES: SessionCategory[] = ['school', 'programming', 'language', 'personal', 'other'];
-
 export function TemplateModal({ isOpen, onClose, onSelectTemplate }: TemplateModalProps) {
-  const { templates, loading, searchTemplates } = useTemplates();
+  const { templates, loading, searchTemplates, updateTemplate } = useTemplates();
+  const toast = useToast();
   const { isFavoriteTemplate, toggleFavoriteTemplate } = useFavorites();
   const [searchQuery, setSearchQuery] = useState('');
   const [filteredTemplates, setFilteredTemplates] = useState<TemplateResponse[]>([]);
   const [selectedTemplate, setSelectedTemplate] = useState<TemplateResponse | null>(null);
-  const [categoryFilter, setCategoryFilter] = useState<SessionCategory | 'all'>('all');
+  const [categoryFilter, setCategoryFilter] = useState<string | 'all'>('all');
+
+  // Comment 4: Categories that have at least one template, for filtering
+  const categories = useMemo(() => {
+    const byId = new Map<string, CategorySummaryDto>();
+    templates.forEach((t) => {
+      if (t.category) byId.set(t.category.id, t.category);
+    });
+    return Array.from(byId.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }, [templates]);
 
   // Comment 4: Filter by search and category
   useEffect(() => {
@@ -29,7 +39,7 @@ export function TemplateModal({ isOpen, onClose, onSelectTemplate }: TemplateMod
 
     // Apply category filter
     if (categoryFilter !== 'all') {
-      results = results.filter((t) => t.category === categoryFilter);
+      results = results.filter((t) => t.categoryId === categoryFilter);
     }
 
     // Apply search filter
@@ -53,6 +63,19 @@ export function TemplateModal({ isOpen, onClose, onSelectTemplate }: TemplateMod
     onClose();
   };
 
+  // The preview keeps its own copy, so update it along with the saved template
+  const saveChecklist = async (checklist: TemplateChecklistItemDto[]) => {
+    if (!selectedTemplate) return;
+    const previous = selectedTemplate;
+    setSelectedTemplate({ ...selectedTemplate, checklist });
+    try {
+      await updateTemplate(selectedTemplate.id, { checklist });
+    } catch (error: any) {
+      setSelectedTemplate(previous);
+      toast.error(error.message || 'Failed to save checklist');
+    }
+  };
+
   // Comment 4: Quick apply without showing full preview
   const handleQuickApply = (e: React.MouseEvent, template: TemplateResponse) => {
     e.stopPropagation();
@@ -67,24 +90,15 @@ export function TemplateModal({ isOpen, onClose, onSelectTemplate }: TemplateMod
 
   // Comment 4: Group templates by category for display
   const groupedTemplates = filteredTemplates.reduce((acc, template) => {
-    const category = template.category;
+    const category = template.category?.name ?? 'Uncategorized';
     if (!acc[category]) {
       acc[category] = [];
     }
     acc[category].push(template);
     return acc;
-  }, {} as Record<SessionCategory, TemplateResponse[]>);
+  }, {} as Record<string, TemplateResponse[]>);
 
-  const getCategoryColor = (category: SessionCategory) => {
-    const colors: Record<SessionCategory, string> = {
-      school: 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200',
-      programming: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
-      language: 'bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200',
-      personal: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200',
-      other: 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-200',
-    };
-    return colors[category] || colors.other;
-  };
+  const getCategoryColor = (category: CategorySummaryDto | null) => getCategoryStyle(category).badge;
 
   // Comment 4: Decide whether to show grouped or flat list
   const showGrouped = !searchQuery.trim() && categoryFilter === 'all';
@@ -120,17 +134,17 @@ export function TemplateModal({ isOpen, onClose, onSelectTemplate }: TemplateMod
             >
               All
             </button>
-            {CATEGORIES.map((category) => (
+            {categories.map((category) => (
               <button
-                key={category}
-                onClick={() => setCategoryFilter(category)}
-                className={`px-3 py-1.5 text-sm font-medium rounded-full transition-colors capitalize ${
-                  categoryFilter === category
+                key={category.id}
+                onClick={() => setCategoryFilter(category.id)}
+                className={`px-3 py-1.5 text-sm font-medium rounded-full transition-colors ${
+                  categoryFilter === category.id
                     ? 'bg-primary-600 text-white'
                     : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
                 }`}
               >
-                {category}
+                {category.name}
               </button>
             ))}
           </div>
@@ -248,7 +262,7 @@ export function TemplateModal({ isOpen, onClose, onSelectTemplate }: TemplateMod
                         <span
                           className={`px-2 py-1 text-xs font-medium rounded-full ${getCategoryColor(template.category)}`}
                         >
-                          {template.category}
+                          {template.category?.name ?? 'Uncategorized'}
                         </span>
                       </div>
                     </div>
@@ -297,7 +311,7 @@ export function TemplateModal({ isOpen, onClose, onSelectTemplate }: TemplateMod
                     selectedTemplate.category
                   )}`}
                 >
-                  {selectedTemplate.category}
+                  {selectedTemplate.category?.name ?? 'Uncategorized'}
                 </span>
               </div>
 
@@ -322,6 +336,36 @@ export function TemplateModal({ isOpen, onClose, onSelectTemplate }: TemplateMod
                 </div>
               )}
 
+              <div>
+                <h4 className="text-xs font-semibold text-gray-700 dark:text-gray-300 uppercase tracking-wider mb-1">
+                  Default checklist
+                </h4>
+                <ChecklistEditor
+                  showDone={false}
+                  compact
+                  items={(selectedTemplate.checklist ?? []).map((item, index) => ({
+                    key: `${index}:${item.title}`,
+                    title: item.title,
+                    done: false,
+                    estimatedMinutes: item.estimatedMinutes ?? null,
+                  }))}
+                  onAdd={(title, estimatedMinutes) =>
+                    saveChecklist([...(selectedTemplate.checklist ?? []), { title, estimatedMinutes }])
+                  }
+                  onRename={(index, title) =>
+                    saveChecklist(
+                      selectedTemplate.checklist.map((item, i) => (i === index ? { ...item, title } : item))
+                    )
+                  }
+                  onDelete={(index) => saveChecklist(selectedTemplate.checklist.filter((_, i) => i !== index))}
+                  onMove={(index, direction) => {
+                    const checklist = [...selectedTemplate.checklist];
+                    [checklist[index], checklist[index + direction]] = [checklist[index + direction], checklist[index]];
+                    saveChecklist(checklist);
+                  }}
+                />
+              </div>
+
               {selectedTemplate.notes && (
                 <div>
                   <h4 className="text-xs font-semibold text-gray-700 dark:text-gray-300 uppercase tracking-wider mb-1">
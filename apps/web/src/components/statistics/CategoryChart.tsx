@@ -1,14 +1,13 @@
 import { PieChart, Pie, Cell, ResponsiveContainer, Legend, Tooltip } from 'recharts';
 import type { CategoryStatsDto } from '@repo/shared-types';
 import { getCategoryIconComponent } from '@/utils/iconUtils';
+import { getCategoryStyle } from '@/utils/categoryStyles';
 
 interface CategoryChartProps {
   data: CategoryStatsDto[] | null;
   title?: string;
 }
 
-const COLORS = ['#6366f1', '#10b981', '#a855f7', '#f59e0b', '#6b7280'];
-
 export default function CategoryChart({ data, title = 'Category Breakdown' }: CategoryChartProps) {
   if (!data || data.length === 0) {
     return (
@@ -22,7 +21,9 @@ export default function CategoryChart({ data, title = 'Category Breakdown' }: Ca
   }
 
   const chartData = data.map((item) => ({
-    name: item.category,
+    name: item.category?.name ?? 'Uncategorized',
+    category: item.category,
+    color: getCategoryStyle(item.category).hex,
     value: item.totalSessions,
     completionRate: item.completionRate,
     completed: item.completedSessions,
@@ -33,7 +34,7 @@ export default function CategoryChart({ data, title = 'Category Breakdown' }: Ca
       const data = payload[0].payload;
       return (
         <div className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg p-3">
-          <p className="font-semibold text-gray-900 dark:text-white capitalize">{data.name}</p>
+          <p className="font-semibold text-gray-900 dark:text-white">{data.name}</p>
           <p className="text-sm text-gray-600 dark:text-gray-400">Total: {data.value} sessions</p>
           <p className="text-sm text-gray-600 dark:text-gray-400">Completed: {data.completed}</p>
           <p className="text-sm text-gray-600 dark:text-gray-400">
@@ -50,7 +51,7 @@ export default function CategoryChart({ data, title = 'Category Breakdown' }: Ca
       <ul className="flex flex-wrap justify-center gap-4 mt-4">
         {payload.map((entry: any, index: number) => {
           const categoryName = entry.payload?.name || entry.value;
-          const CategoryIcon = getCategoryIconComponent(categoryName);
+          const CategoryIcon = getCategoryIconComponent(entry.payload?.category);
           return (
             <li key={index} className="flex items-center gap-2">
               <div
@@ -59,7 +60,7 @@ export default function CategoryChart({ data, title = 'Category Breakdown' }: Ca
               />
               <div className="flex items-center gap-1">
                 <CategoryIcon className="w-4 h-4 text-gray-600 dark:text-gray-400" />
-                <span className="text-sm text-gray-700 dark:text-gray-300 capitalize">
+                <span className="text-sm text-gray-700 dark:text-gray-300">
                   {categoryName}
                 </span>
               </div>
@@ -86,7 +87,7 @@ export default function CategoryChart({ data, title = 'Category Breakdown' }: Ca
             dataKey="value"
           >
             {chartData.map((entry, index) => (
-              <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
+              <Cell key={`cell-${index}`} fill={entry.color} />
             ))}
           </Pie>
           <Tooltip content={<CustomTooltip />} />
@@ -0,0 +1,111 @@
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ReferenceLine,
+  ResponsiveContainer,
+} from 'recharts';
+import type { GoalResponse } from '@repo/shared-types';
+import { useGoalBurnup } from '@/hooks/useGoals';
+import { GOAL_STATUS_LABELS, formatGoalAmount, goalStatusStyles } from '@/utils/goalUtils';
+
+interface GoalBurnupChartProps {
+  goal: GoalResponse;
+}
+
+/**
+ * Cumulative progress of a goal's current period against an even pace
+ */
+export default function GoalBurnupChart({ goal }: GoalBurnupChartProps) {
+  const { burnup, loading } = useGoalBurnup(goal.id);
+  const status = goal.progress.status;
+
+  const formatXAxis = (dateStr: string) => {
+    const date = new Date(dateStr);
+    return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' });
+  };
+
+  const CustomTooltip = ({ active, payload, label }: any) => {
+    if (active && payload && payload.length) {
+      return (
+        <div className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg p-3">
+          <p className="font-semibold text-gray-900 dark:text-white mb-2">
+            {new Date(label).toLocaleDateString('en-US', {
+              month: 'short',
+              day: 'numeric',
+              year: 'numeric',
+              timeZone: 'UTC',
+            })}
+          </p>
+          {payload
+            .filter((entry: any) => entry.value !== null)
+            .map((entry: any) => (
+              <p key={entry.dataKey} className="text-sm" style={{ color: entry.color }}>
+                {entry.name}: {formatGoalAmount(entry.value, goal.metric)}
+              </p>
+            ))}
+        </div>
+      );
+    }
+    return null;
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6">
+      <div className="flex items-start justify-between gap-2 mb-4">
+        <h3 className="text-xl font-bold text-gray-900 dark:text-white">{goal.title}</h3>
+        <span className={`shrink-0 px-2 py-0.5 rounded-full text-xs font-medium ${goalStatusStyles[status].badge}`}>
+          {GOAL_STATUS_LABELS[status]}
+        </span>
+      </div>
+      {loading || !burnup || burnup.points.length === 0 ? (
+        <div className="h-[250px] flex items-center justify-center text-gray-500 dark:text-gray-400">
+          {loading ? 'Loading…' : 'No data for this period yet'}
+        </div>
+      ) : (
+        <ResponsiveContainer width="100%" height={250}>
+          <LineChart data={burnup.points} margin={{ top: 5, right: 20, left: 0, bottom: 5 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#374151" opacity={0.3} />
+            <XAxis
+              dataKey="date"
+              tickFormatter={formatXAxis}
+              stroke="#9ca3af"
+              style={{ fontSize: '12px' }}
+              minTickGap={24}
+            />
+            <YAxis
+              stroke="#9ca3af"
+              style={{ fontSize: '12px' }}
+              domain={[0, (max: number) => Math.max(max, burnup.target)]}
+              unit={goal.metric === 'hours' ? 'h' : undefined}
+              allowDecimals={goal.metric === 'hours'}
+            />
+            <Tooltip content={<CustomTooltip />} />
+            <Legend wrapperStyle={{ paddingTop: '12px' }} />
+            <ReferenceLine y={burnup.target} stroke="#10b981" strokeDasharray="4 4" />
+            <Line
+              type="monotone"
+              dataKey="ideal"
+              name="Even pace"
+              stroke="#9ca3af"
+              strokeDasharray="5 5"
+              dot={false}
+            />
+            <Line
+              type="stepAfter"
+              dataKey="actual"
+              name="Done"
+              stroke="#3b82f6"
+              strokeWidth={2}
+              dot={false}
+            />
+          </LineChart>
+        </ResponsiveContainer>
+      )}
+    </div>
+  );
+}
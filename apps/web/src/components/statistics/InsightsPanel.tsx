@@ -68,7 +68,7 @@ export function InsightsPanel({ stats, onScheduleSession }: InsightsPanelProps)
         type: 'tip',
         icon: Lightbulb,
         title: 'Category Strength',
-        message: `Your ${bestCategory.category} sessions have a ${(bestCategory.completionRate * 100).toFixed(0)}% completion rate. Apply these successful habits to other categories!`,
+        message: `Your ${bestCategory.category?.name ?? 'uncategorized'} sessions have a ${(bestCategory.completionRate * 100).toFixed(0)}% completion rate. Apply these successful habits to other categories!`,
       })
     }
   }
@@ -83,7 +83,7 @@ export function InsightsPanel({ stats, onScheduleSession }: InsightsPanelProps)
         type: 'info',
         icon: Info,
         title: 'Unexplored Category',
-        message: `You haven't scheduled any ${cat.category} sessions yet. Consider exploring this area of learning.`,
+        message: `You haven't scheduled any ${cat.category?.name ?? 'uncategorized'} sessions yet. Consider exploring this area of learning.`,
         action: onScheduleSession
           ? { label: 'Schedule Now', onClick: onScheduleSession }
           : undefined,
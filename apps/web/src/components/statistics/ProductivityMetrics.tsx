@@ -1,6 +1,8 @@
 import type { ProductivityMetricsDto } from '@repo/shared-types';
 import { StatsCard } from '@/components/dashboard/StatsCard';
 import { getCategoryIconComponent } from '@/utils/iconUtils';
+import { useCategories } from '@/hooks/useCategories';
+import { Timer } from 'lucide-react';
 
 interface ProductivityMetricsProps {
   data: ProductivityMetricsDto | null;
@@ -11,6 +13,8 @@ export default function ProductivityMetrics({
   data,
   title = 'Productivity Metrics',
 }: ProductivityMetricsProps) {
+  const { categories } = useCategories();
+
   if (!data) {
     return (
       <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6">
@@ -22,7 +26,10 @@ export default function ProductivityMetrics({
     );
   }
 
-  const CategoryIcon = getCategoryIconComponent(data.mostProductiveCategory);
+  // Metrics only carry the category name
+  const CategoryIcon = getCategoryIconComponent(
+    categories.find((c) => c.name === data.mostProductiveCategory)
+  );
 
   // Determine icon for time of day based on exact value
   const isNightTime = data.mostProductiveTimeOfDay === 'evening';
@@ -68,7 +75,7 @@ export default function ProductivityMetrics({
 
         <StatsCard
           title="Most Productive Category"
-          value={data.mostProductiveCategory}
+          value={data.mostProductiveCategory ?? 'None yet'}
           icon={
             <CategoryIcon className="w-6 h-6" />
           }
@@ -104,6 +111,14 @@ export default function ProductivityMetrics({
           }
           color="success"
         />
+
+        <StatsCard
+          title="Pomodoro Cycles"
+          value={data.pomodoroCycles ?? 0}
+          subtitle={`${Math.round((data.pomodoroFocusMinutes ?? 0) / 60 * 10) / 10}h focused`}
+          icon={<Timer className="w-6 h-6" />}
+          color="primary"
+        />
       </div>
     </div>
   );
@@ -0,0 +1,84 @@
+import {
+  BarChart,
+  Bar,
+  Cell,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+} from 'recharts';
+import type { TagStatsDto } from '@repo/shared-types';
+import { categoryStyles } from '@/utils/categoryStyles';
+
+/** Tags shown in the chart, the rest are left out */
+const MAX_TAGS = 15;
+
+interface TagChartProps {
+  data: TagStatsDto[] | null;
+  title?: string;
+}
+
+export default function TagChart({ data, title = 'Time by Tag' }: TagChartProps) {
+  if (!data || data.length === 0) {
+    return (
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6">
+        <h3 className="text-xl font-bold text-gray-900 dark:text-white mb-4">{title}</h3>
+        <div className="h-[200px] flex items-center justify-center text-gray-500 dark:text-gray-400">
+          No tagged sessions in this period
+        </div>
+      </div>
+    );
+  }
+
+  // A session counts towards each of its tags, so the bars can add up to more than the total
+  const chartData = [...data]
+    .sort((a, b) => b.totalDuration - a.totalDuration)
+    .slice(0, MAX_TAGS)
+    .map((item) => ({
+      tag: item.tag,
+      color: categoryStyles[item.color].hex,
+      plannedHours: item.totalDuration / 60,
+      completedHours: item.completedDuration / 60,
+      sessions: item.totalSessions,
+      completed: item.completedSessions,
+    }));
+
+  const CustomTooltip = ({ active, payload }: any) => {
+    if (active && payload && payload.length) {
+      const data = payload[0].payload;
+      return (
+        <div className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg p-3">
+          <p className="font-semibold text-gray-900 dark:text-white">#{data.tag}</p>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Completed: {data.completedHours.toFixed(1)}h of {data.plannedHours.toFixed(1)}h
+          </p>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Sessions: {data.completed} / {data.sessions}
+          </p>
+        </div>
+      );
+    }
+    return null;
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6">
+      <h3 className="text-xl font-bold text-gray-900 dark:text-white mb-4">{title}</h3>
+      <ResponsiveContainer width="100%" height={Math.max(200, chartData.length * 36)}>
+        <BarChart data={chartData} layout="vertical" margin={{ left: 16, right: 16 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#374151" opacity={0.2} />
+          <XAxis type="number" tick={{ fill: '#9CA3AF' }} unit="h" />
+          <YAxis type="category" dataKey="tag" width={120} tick={{ fill: '#9CA3AF' }} />
+          <Tooltip content={<CustomTooltip />} cursor={{ fill: 'rgba(156, 163, 175, 0.1)' }} />
+          <Bar dataKey="plannedHours" fill="#9CA3AF" fillOpacity={0.3} radius={[0, 4, 4, 0]} />
+          <Bar dataKey="completedHours" radius={[0, 4, 4, 0]}>
+            {chartData.map((entry) => (
+              <Cell key={entry.tag} fill={entry.color} />
+            ))}
+          </Bar>
+        </BarChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
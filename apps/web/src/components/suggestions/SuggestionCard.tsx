@@ -37,8 +37,8 @@ export function SuggestionCard({ suggestion, onAccept, onDismiss }: SuggestionCa
 
           {/* Category and Duration */}
           <div className="flex items-center gap-2 mt-1 flex-wrap">
-            <span className="px-2 py-1 text-xs font-medium rounded-full bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300 capitalize">
-              {suggestion.suggestedCategory}
+            <span className="px-2 py-1 text-xs font-medium rounded-full bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300 ">
+              {suggestion.suggestedCategory?.name ?? 'Uncategorized'}
             </span>
             <span className="text-sm text-gray-600 dark:text-gray-400">
               {suggestion.suggestedDuration} min
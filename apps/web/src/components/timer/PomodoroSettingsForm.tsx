@@ -0,0 +1,65 @@
+import { useEffect, useState } from 'react';
+import type { PomodoroSettingsDto } from '@repo/shared-types';
+import { Button } from '@/components/common/Button';
+import { useToast } from '@/contexts/ToastContext';
+import { usePomodoroSettings } from '@/hooks/usePomodoroSettings';
+
+interface PomodoroSettingsFormProps {
+  onSaved?: () => void;
+}
+
+const FIELDS: { key: keyof PomodoroSettingsDto; label: string; max: number }[] = [
+  { key: 'focusMinutes', label: 'Focus (min)', max: 180 },
+  { key: 'shortBreakMinutes', label: 'Short break (min)', max: 180 },
+  { key: 'longBreakMinutes', label: 'Long break (min)', max: 180 },
+  { key: 'cyclesBeforeLongBreak', label: 'Cycles before long break', max: 12 },
+];
+
+export function PomodoroSettingsForm({ onSaved }: PomodoroSettingsFormProps) {
+  const toast = useToast();
+  const { settings, updateSettings, isSaving } = usePomodoroSettings();
+  const [values, setValues] = useState<PomodoroSettingsDto | null>(settings);
+
+  useEffect(() => {
+    if (settings) setValues(settings);
+  }, [settings]);
+
+  if (!values) {
+    return <p className="text-xs text-gray-500 dark:text-gray-400">Loading...</p>;
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      await updateSettings(values);
+      toast.success('Pomodoro settings saved');
+      onSaved?.();
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to save Pomodoro settings');
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      <div className="grid grid-cols-2 gap-2">
+        {FIELDS.map(({ key, label, max }) => (
+          <label key={key} className="block text-xs text-gray-600 dark:text-gray-400">
+            {label}
+            <input
+              type="number"
+              min={1}
+              max={max}
+              required
+              value={values[key]}
+              onChange={(e) => setValues({ ...values, [key]: parseInt(e.target.value, 10) || 1 })}
+              className="mt-1 w-full px-2 py-1 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md text-sm text-gray-900 dark:text-white"
+            />
+          </label>
+        ))}
+      </div>
+      <Button type="submit" variant="primary" size="sm" loading={isSaving} fullWidth>
+        Save
+      </Button>
+    </form>
+  );
+}
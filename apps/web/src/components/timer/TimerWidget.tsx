@@ -0,0 +1,248 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Pause, Play, Square, CheckCircle2, Timer, SkipForward, Settings2 } from 'lucide-react';
+import type { ActiveTimerDto, PomodoroPhase } from '@repo/shared-types';
+import { useTimer } from '@/hooks/useTimer';
+import { useToast } from '@/contexts/ToastContext';
+import { getStatusTransitionError } from '@/utils/sessionUtils';
+import { requestNotificationPermission, showBrowserNotification } from '@/utils/notifications';
+import { PomodoroSettingsForm } from './PomodoroSettingsForm';
+
+const PHASE_LABELS: Record<PomodoroPhase, string> = {
+  focus: 'Focus',
+  short_break: 'Short break',
+  long_break: 'Long break',
+};
+
+/**
+ * Format seconds as H:MM:SS (or MM:SS below one hour)
+ */
+function formatElapsed(totalSeconds: number): string {
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const mm = String(minutes).padStart(2, '0');
+  const ss = String(seconds).padStart(2, '0');
+  return hours > 0 ? `${hours}:${mm}:${ss}` : `${mm}:${ss}`;
+}
+
+/**
+ * Message announcing the phase the timer just moved into
+ */
+function transitionMessage(from: PomodoroPhase, next: ActiveTimerDto): string {
+  if (from !== 'focus') {
+    return 'Break is over, back to focus.';
+  }
+  return next.pomodoro?.phase === 'long_break'
+    ? 'Focus cycle done! Time for a long break.'
+    : 'Focus cycle done! Take a short break.';
+}
+
+/**
+ * Floating widget showing the running study timer on every page
+ */
+export function TimerWidget() {
+  const toast = useToast();
+  const { timer, pauseTimer, resumeTimer, stopTimer, setPomodoro, advancePomodoro, isBusy } = useTimer();
+  const [now, setNow] = useState(() => Date.now());
+  const [showSettings, setShowSettings] = useState(false);
+  const advancingRef = useRef<string | null>(null);
+
+  // Client time when the server snapshot arrived; elapsed time counts on from there
+  const receivedAt = useMemo(() => Date.now(), [timer]);
+  const isRunning = timer?.state === 'running';
+  const pomodoro = timer?.pomodoro ?? null;
+  const inBreak = !!pomodoro && pomodoro.phase !== 'focus';
+  // Focus time only moves while the timer runs; breaks run on the clock
+  const phaseTicking = pomodoro ? inBreak || isRunning : false;
+
+  useEffect(() => {
+    if (!isRunning && !inBreak) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [isRunning, inBreak]);
+
+  const delta = Math.max(0, Math.floor((now - receivedAt) / 1000));
+  const elapsed = timer ? timer.elapsedSeconds + (isRunning ? delta : 0) : 0;
+  const phaseRemaining = pomodoro
+    ? Math.max(0, pomodoro.phaseLengthSeconds - pomodoro.phaseElapsedSeconds - (phaseTicking ? delta : 0))
+    : 0;
+
+  // Move to the next phase once the current one runs out
+  useEffect(() => {
+    if (!pomodoro || !phaseTicking || phaseRemaining > 0 || isBusy) return;
+
+    const key = `${pomodoro.phase}:${pomodoro.phaseStartedAt}:${receivedAt}`;
+    if (advancingRef.current === key) return;
+    advancingRef.current = key;
+
+    const from = pomodoro.phase;
+    advancePomodoro({ from })
+      .then((next) => {
+        const message = transitionMessage(from, next);
+        toast.info(message);
+        showBrowserNotification('Pomodoro', message);
+      })
+      .catch((error: any) => {
+        toast.error(error.message || 'Failed to advance Pomodoro');
+      });
+  }, [pomodoro, phaseTicking, phaseRemaining, isBusy, receivedAt, advancePomodoro, toast]);
+
+  if (!timer) return null;
+
+  const handleToggle = async () => {
+    try {
+      if (isRunning) {
+        await pauseTimer();
+      } else {
+        await resumeTimer();
+      }
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to update timer');
+    }
+  };
+
+  const handleSkip = async () => {
+    if (!pomodoro) return;
+    try {
+      await advancePomodoro({ from: pomodoro.phase, skip: true });
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to skip phase');
+    }
+  };
+
+  const handlePomodoroToggle = async () => {
+    try {
+      if (!pomodoro) {
+        requestNotificationPermission();
+      }
+      await setPomodoro(!pomodoro);
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to switch Pomodoro mode');
+    }
+  };
+
+  const handleStop = async (complete: boolean) => {
+    try {
+      const result = await stopTimer({ complete });
+      toast.success(
+        complete
+          ? `Session completed with ${result.actualDuration} min tracked`
+          : `Timer stopped, ${result.actualDuration} min tracked`
+      );
+    } catch (error: any) {
+      toast.error(getStatusTransitionError(error)?.message || error.message || 'Failed to stop timer');
+    }
+  };
+
+  const statusLabel = pomodoro
+    ? PHASE_LABELS[pomodoro.phase] + (!inBreak && !isRunning ? ' (paused)' : '')
+    : isRunning ? 'Timing' : 'Paused';
+
+  return (
+    <div
+      className="fixed left-4 bottom-4 z-40 w-72 glass-card rounded-xl shadow-xl border border-gray-200 dark:border-gray-700 p-4"
+      role="region"
+      aria-label="Study timer"
+    >
+      <div className="flex items-center justify-between gap-2">
+        <div className={`flex items-center gap-2 text-xs font-medium ${
+          inBreak ? 'text-green-600 dark:text-green-400' : 'text-gray-500 dark:text-gray-400'
+        }`}>
+          <Timer className="w-4 h-4" />
+          <span>{statusLabel}</span>
+        </div>
+        <div className="flex items-center gap-1">
+          <button
+            type="button"
+            onClick={handlePomodoroToggle}
+            disabled={isBusy}
+            className={`px-2 py-0.5 text-xs rounded-full transition-colors disabled:opacity-50 ${
+              pomodoro
+                ? 'bg-primary-100 text-primary-700 dark:bg-primary-900/40 dark:text-primary-300'
+                : 'bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300'
+            }`}
+            aria-pressed={!!pomodoro}
+          >
+            Pomodoro
+          </button>
+          <button
+            type="button"
+            onClick={() => setShowSettings(!showSettings)}
+            className="p-1 rounded text-gray-500 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700"
+            aria-label="Pomodoro settings"
+            aria-expanded={showSettings}
+          >
+            <Settings2 className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+      <p className="mt-1 text-sm font-semibold text-gray-900 dark:text-white truncate" title={timer.session.title}>
+        {timer.session.title}
+      </p>
+      <p
+        className={`mt-2 text-3xl font-mono tabular-nums ${
+          phaseTicking || (!pomodoro && isRunning)
+            ? inBreak ? 'text-green-600 dark:text-green-400' : 'text-primary-600 dark:text-primary-400'
+            : 'text-gray-500 dark:text-gray-400'
+        }`}
+        aria-live="off"
+      >
+        {formatElapsed(pomodoro ? phaseRemaining : elapsed)}
+      </p>
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        {pomodoro
+          ? `${formatElapsed(elapsed)} tracked · ${pomodoro.sessionCycles} cycle${pomodoro.sessionCycles !== 1 ? 's' : ''} done`
+          : `of ${timer.session.duration} min planned`}
+      </p>
+
+      <div className="mt-3 flex items-center gap-2">
+        <button
+          type="button"
+          onClick={handleToggle}
+          disabled={isBusy}
+          className="p-2 rounded-lg bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-600 disabled:opacity-50 transition-colors"
+          aria-label={isRunning ? 'Pause timer' : inBreak ? 'End break and focus' : 'Resume timer'}
+        >
+          {isRunning ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+        </button>
+        {pomodoro && (
+          <button
+            type="button"
+            onClick={handleSkip}
+            disabled={isBusy}
+            className="p-2 rounded-lg bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-600 disabled:opacity-50 transition-colors"
+            aria-label={inBreak ? 'Skip break' : 'Skip focus phase without counting a cycle'}
+            title={inBreak ? 'Skip break' : 'Skip (not counted)'}
+          >
+            <SkipForward className="w-4 h-4" />
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={() => handleStop(false)}
+          disabled={isBusy}
+          className="p-2 rounded-lg bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-600 disabled:opacity-50 transition-colors"
+          aria-label="Stop timer and keep session in progress"
+          title="Stop, keep in progress"
+        >
+          <Square className="w-4 h-4" />
+        </button>
+        <button
+          type="button"
+          onClick={() => handleStop(true)}
+          disabled={isBusy}
+          className="flex-1 flex items-center justify-center gap-1 px-3 py-2 rounded-lg bg-green-600 hover:bg-green-700 text-white text-sm font-medium disabled:opacity-50 transition-colors"
+        >
+          <CheckCircle2 className="w-4 h-4" />
+          Complete
+        </button>
+      </div>
+
+      {showSettings && (
+        <div className="mt-3 pt-3 border-t border-gray-200 dark:border-gray-700">
+          <PomodoroSettingsForm onSaved={() => setShowSettings(false)} />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,14 +1,24 @@
 import { createContext, useContext, useState, useEffect, ReactNode, useCallback } from 'react';
 import { api, setAccessToken } from '@/services/api';
-import type { AuthResponse, LoginDto, RegisterDto } from '@repo/shared-types';
+import type {
+  AuthResponse,
+  LoginDto,
+  RegisterDto,
+  TwoFactorChallengeDto,
+  TwoFactorLoginDto,
+} from '@repo/shared-types';
 
 interface AuthContextType {
   user: AuthResponse['user'] | null;
   loading: boolean;
   error: Error | null;
-  login: (dto: LoginDto) => Promise<void>;
+  /** Resolves with a challenge when the account needs a second factor */
+  login: (dto: LoginDto) => Promise<TwoFactorChallengeDto | null>;
+  completeTwoFactorLogin: (dto: TwoFactorLoginDto) => Promise<void>;
   register: (dto: RegisterDto) => Promise<void>;
   logout: () => Promise<void>;
+  /** Reload the signed-in user, e.g. after the email address was verified */
+  refreshUser: () => Promise<void>;
   isAuthenticated: boolean;
 }
 
@@ -60,6 +70,29 @@ export function AuthProvider({ children }: AuthProviderProps) {
 
       const response = await api.auth.login(dto);
 
+      if (response.data && 'twoFactorRequired' in response.data) {
+        return response.data;
+      }
+      if (response.data?.user) {
+        setUser(response.data.user);
+      }
+      return null;
+    } catch (err) {
+      const error = err instanceof Error ? err : new Error('Login failed');
+      setError(error);
+      throw error;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const completeTwoFactorLogin = useCallback(async (dto: TwoFactorLoginDto) => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const response = await api.auth.loginTwoFactor(dto);
+
       if (response.data?.user) {
         setUser(response.data.user);
       }
@@ -104,13 +137,22 @@ export function AuthProvider({ children }: AuthProviderProps) {
     }
   }, []);
 
+  const refreshUser = useCallback(async () => {
+    const profileResponse = await api.auth.getProfile();
+    if (profileResponse.data?.user) {
+      setUser(profileResponse.data.user);
+    }
+  }, []);
+
   const value = {
     user,
     loading,
     error,
     login,
+    completeTwoFactorLogin,
     register,
     logout,
+    refreshUser,
     isAuthenticated: user !== null,
   };
 
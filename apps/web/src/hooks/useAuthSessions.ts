@@ -0,0 +1,40 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { api } from '@/services/api'
+import type { AuthSessionDto } from '@repo/shared-types'
+
+/**
+ * Devices signed in to the account, most recently used first
+ */
+export function useAuthSessions() {
+  const queryClient = useQueryClient()
+
+  const {
+    data,
+    isLoading: loading,
+    error,
+  } = useQuery({
+    queryKey: ['authSessions'],
+    queryFn: async (): Promise<AuthSessionDto[]> => {
+      const response = await api.auth.getSessions()
+      return response.data ?? []
+    },
+  })
+
+  // Mutation for signing devices out, one request each
+  const revokeMutation = useMutation({
+    mutationFn: async (familyIds: string[]) => {
+      for (const familyId of familyIds) {
+        await api.auth.revokeSession(familyId)
+      }
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: ['authSessions'] }),
+  })
+
+  return {
+    sessions: data ?? [],
+    loading,
+    error: error as Error | null,
+    revokeSessions: revokeMutation.mutateAsync,
+    revokingIds: revokeMutation.isPending ? revokeMutation.variables ?? [] : [],
+  }
+}
@@ -0,0 +1,66 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { api } from '@/services/api'
+import type {
+  AvailabilityBlackoutDto,
+  AvailabilityDto,
+  AvailabilityWindowDto,
+  AvailabilityWindowInput,
+  CreateAvailabilityBlackoutDto,
+} from '@repo/shared-types'
+
+/**
+ * The current user's weekly availability windows and upcoming blackouts
+ */
+export function useAvailability() {
+  const queryClient = useQueryClient()
+
+  const {
+    data: availability = null,
+    isLoading: loading,
+    error,
+  } = useQuery({
+    queryKey: ['availability'],
+    queryFn: async (): Promise<AvailabilityDto | null> => {
+      const response = await api.availability.get()
+      return response.data ?? null
+    },
+    staleTime: 1000 * 60 * 10, // 10 minutes
+  })
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ['availability'] })
+
+  const replaceWindowsMutation = useMutation({
+    mutationFn: async (windows: AvailabilityWindowInput[]) => {
+      const response = await api.availability.replaceWindows(windows)
+      return response.data as AvailabilityWindowDto[]
+    },
+    onSuccess: invalidate,
+  })
+
+  const createBlackoutMutation = useMutation({
+    mutationFn: async (dto: CreateAvailabilityBlackoutDto) => {
+      const response = await api.availability.createBlackout(dto)
+      return response.data as AvailabilityBlackoutDto
+    },
+    onSuccess: invalidate,
+  })
+
+  const deleteBlackoutMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await api.availability.deleteBlackout(id)
+    },
+    onSuccess: invalidate,
+  })
+
+  return {
+    windows: availability?.windows ?? [],
+    blackouts: availability?.blackouts ?? [],
+    loading,
+    error: error as Error | null,
+    replaceWindows: replaceWindowsMutation.mutateAsync,
+    createBlackout: createBlackoutMutation.mutateAsync,
+    deleteBlackout: deleteBlackoutMutation.mutateAsync,
+    isSavingWindows: replaceWindowsMutation.isPending,
+    isSavingBlackout: createBlackoutMutation.isPending,
+  }
+}
@@ -0,0 +1,183 @@
+import { useEffect, useRef, useState } from 'react'
+import type { DragEvent, KeyboardEvent, PointerEvent, MouseEvent } from 'react'
+import type { SessionResponse } from '@repo/shared-types'
+import {
+  SESSION_DRAG_TYPE,
+  canReschedule,
+  clampDuration,
+  getKeyboardReschedule,
+  snapMinutes,
+  type SessionReschedule,
+} from '@/utils/calendarDragUtils'
+
+interface UseCalendarRescheduleOptions {
+  sessions: SessionResponse[]
+  /** Moving and resizing are off without a handler */
+  onReschedule?: (session: SessionResponse, change: SessionReschedule) => void
+  /** What up and down arrows move a focused session by */
+  verticalUnit: 'step' | 'week'
+  /** Height of an hour row, to turn a resize drag into minutes */
+  pixelsPerHour?: number
+}
+
+interface ResizeState {
+  id: string
+  startY: number
+  duration: number
+}
+
+/**
+ * Drag-and-drop, pointer resizing and arrow-key moves for the calendar
+ * views. The view spreads the returned props onto its session blocks,
+ * drop targets and resize handles; the change itself is left to
+ * `onReschedule`.
+ */
+export function useCalendarReschedule({
+  sessions,
+  onReschedule,
+  verticalUnit,
+  pixelsPerHour = 60,
+}: UseCalendarRescheduleOptions) {
+  const [draggingId, setDraggingId] = useState<string | null>(null)
+  const [dropTarget, setDropTarget] = useState<string | null>(null)
+  const [resizing, setResizing] = useState<ResizeState | null>(null)
+  const containerRef = useRef<HTMLDivElement>(null)
+  const refocusId = useRef<string | null>(null)
+
+  // A session moved with the keyboard may now be drawn in another cell;
+  // put focus back on it so the next arrow key keeps moving it
+  useEffect(() => {
+    const id = refocusId.current
+    if (!id) return
+    refocusId.current = null
+    const block = containerRef.current?.querySelector<HTMLElement>(`[data-session-id="${id}"]`)
+    if (block && document.activeElement !== block) block.focus()
+  }, [sessions])
+
+  const isMovable = (session: SessionResponse) => !!onReschedule && canReschedule(session)
+
+  const getSessionProps = (session: SessionResponse) => {
+    if (!onReschedule || !canReschedule(session)) {
+      return { 'data-session-id': session.id }
+    }
+
+    return {
+      'data-session-id': session.id,
+      tabIndex: 0,
+      draggable: resizing === null,
+      'aria-roledescription': 'movable session',
+      'aria-keyshortcuts': 'ArrowLeft ArrowRight ArrowUp ArrowDown Shift+ArrowUp Shift+ArrowDown',
+      onDragStart: (e: DragEvent<HTMLElement>) => {
+        if (resizing) {
+          e.preventDefault()
+          return
+        }
+        e.dataTransfer.setData(SESSION_DRAG_TYPE, session.id)
+        e.dataTransfer.effectAllowed = 'move'
+        setDraggingId(session.id)
+      },
+      onDragEnd: () => {
+        setDraggingId(null)
+        setDropTarget(null)
+      },
+      onKeyDown: (e: KeyboardEvent<HTMLElement>) => {
+        if (e.key === 'Enter') {
+          e.preventDefault()
+          e.stopPropagation()
+          e.currentTarget.click()
+          return
+        }
+        const change = getKeyboardReschedule(e, session, verticalUnit)
+        if (!change) return
+        e.preventDefault()
+        e.stopPropagation()
+        refocusId.current = session.id
+        onReschedule(session, change)
+      },
+    }
+  }
+
+  /**
+   * Props for a cell sessions can be dropped on. `getStart` turns the drop
+   * into the session's new start.
+   */
+  const getDropTargetProps = (
+    key: string,
+    getStart: (session: SessionResponse, event: DragEvent<HTMLElement>) => string
+  ) => {
+    if (!onReschedule) return {}
+
+    return {
+      onDragOver: (e: DragEvent<HTMLElement>) => {
+        if (!e.dataTransfer.types.includes(SESSION_DRAG_TYPE)) return
+        e.preventDefault()
+        e.dataTransfer.dropEffect = 'move'
+        if (dropTarget !== key) setDropTarget(key)
+      },
+      onDragLeave: (e: DragEvent<HTMLElement>) => {
+        if (e.currentTarget.contains(e.relatedTarget as Node | null)) return
+        setDropTarget((current) => (current === key ? null : current))
+      },
+      onDrop: (e: DragEvent<HTMLElement>) => {
+        const session = sessions.find((s) => s.id === e.dataTransfer.getData(SESSION_DRAG_TYPE))
+        setDropTarget(null)
+        setDraggingId(null)
+        if (!session?.scheduledFor) return
+        e.preventDefault()
+
+        const scheduledFor = getStart(session, e)
+        if (new Date(scheduledFor).getTime() !== new Date(session.scheduledFor).getTime()) {
+          onReschedule(session, { scheduledFor })
+        }
+      },
+    }
+  }
+
+  /**
+   * Props for the handle at the bottom of a block; dragging it changes the duration
+   */
+  const getResizeHandleProps = (session: SessionResponse) => ({
+    'aria-hidden': true,
+    onPointerDown: (e: PointerEvent<HTMLElement>) => {
+      e.preventDefault()
+      e.stopPropagation()
+      e.currentTarget.setPointerCapture(e.pointerId)
+      setResizing({ id: session.id, startY: e.clientY, duration: session.duration })
+    },
+    onPointerMove: (e: PointerEvent<HTMLElement>) => {
+      if (resizing?.id !== session.id) return
+      const delta = snapMinutes(((e.clientY - resizing.startY) / pixelsPerHour) * 60)
+      const duration = clampDuration(session.duration + delta)
+      if (duration !== resizing.duration) setResizing({ ...resizing, duration })
+    },
+    onPointerUp: (e: PointerEvent<HTMLElement>) => {
+      if (resizing?.id !== session.id) return
+      e.currentTarget.releasePointerCapture(e.pointerId)
+      setResizing(null)
+      if (resizing.duration !== session.duration) {
+        onReschedule?.(session, { duration: resizing.duration })
+      }
+    },
+    onPointerCancel: () => setResizing(null),
+    // The click that ends a resize must not open the session
+    onClick: (e: MouseEvent<HTMLElement>) => e.stopPropagation(),
+  })
+
+  /**
+   * The session with the duration it is being resized to, for labels
+   */
+  const getDisplaySession = (session: SessionResponse): SessionResponse =>
+    resizing?.id === session.id ? { ...session, duration: resizing.duration } : session
+
+  return {
+    containerRef,
+    draggingId,
+    dropTarget,
+    resizingId: resizing?.id ?? null,
+    isMovable,
+    getSessionProps,
+    getDropTargetProps,
+    getResizeHandleProps,
+    getDisplaySession,
+  }
+}
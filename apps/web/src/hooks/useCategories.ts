@@ -0,0 +1,115 @@
+import { useMemo } from 'react'
+import { useQuery, useMutation, useQueryClient, type QueryClient } from '@tanstack/react-query'
+import { api } from '@/services/api'
+import type { CategoryResponse, CategorySummaryDto, CreateCategoryDto, UpdateCategoryDto } from '@repo/shared-types'
+
+/**
+ * The current user's categories with create, update and delete helpers
+ */
+export function useCategories() {
+  const queryClient = useQueryClient()
+
+  const {
+    data: categories = [],
+    isLoading: loading,
+    error,
+  } = useQuery({
+    queryKey: ['categories'],
+    queryFn: async (): Promise<CategoryResponse[]> => {
+      const response = await api.categories.getAll()
+      return response.data ?? []
+    },
+    staleTime: 1000 * 60 * 5, // 5 minutes
+  })
+
+  // Select options labelled with the full path, so subcategories sit under their parent
+  const categoryOptions = useMemo(
+    () =>
+      categories
+        .map((category) => ({ value: category.id, label: getCategoryPath(category, categories), category }))
+        .sort((a, b) => a.label.localeCompare(b.label)),
+    [categories]
+  )
+
+  // Sessions, templates and stats embed category name, color and icon
+  const invalidateDependents = () => {
+    queryClient.invalidateQueries({ queryKey: ['categories'] })
+    queryClient.invalidateQueries({ queryKey: ['sessions'] })
+    queryClient.invalidateQueries({ queryKey: ['templates'] })
+  }
+
+  const createMutation = useMutation({
+    mutationFn: async (dto: CreateCategoryDto) => {
+      const response = await api.categories.create(dto)
+      return response.data as CategoryResponse
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['categories'] }),
+  })
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, dto }: { id: string; dto: UpdateCategoryDto }) => {
+      const response = await api.categories.update(id, dto)
+      return response.data as CategoryResponse
+    },
+    onSuccess: invalidateDependents,
+  })
+
+  const deleteMutation = useMutation({
+    mutationFn: async ({ id, reassignTo }: { id: string; reassignTo?: string }) => {
+      await api.categories.delete(id, reassignTo)
+    },
+    onSuccess: invalidateDependents,
+  })
+
+  const restoreDefaultsMutation = useMutation({
+    mutationFn: async () => {
+      const response = await api.categories.restoreDefaults()
+      return response.data ?? []
+    },
+    // Responds with the full list
+    onSuccess: (data) => queryClient.setQueryData(['categories'], data),
+  })
+
+  return {
+    categories,
+    categoryOptions,
+    loading,
+    error: error as Error | null,
+    createCategory: createMutation.mutateAsync,
+    updateCategory: (id: string, dto: UpdateCategoryDto) => updateMutation.mutateAsync({ id, dto }),
+    deleteCategory: (id: string, reassignTo?: string) => deleteMutation.mutateAsync({ id, reassignTo }),
+    restoreDefaults: () => restoreDefaultsMutation.mutateAsync(),
+    isSaving: createMutation.isPending || updateMutation.isPending,
+    isDeleting: deleteMutation.isPending,
+  }
+}
+
+/**
+ * Category label with its ancestors, e.g. "Languages / Japanese N3"
+ */
+export function getCategoryPath(category: CategoryResponse, categories: CategoryResponse[]): string {
+  const byId = new Map(categories.map((c) => [c.id, c]))
+  const names = [category.name]
+  const seen = new Set([category.id])
+  let parent = category.parentId ? byId.get(category.parentId) : undefined
+  while (parent && !seen.has(parent.id)) {
+    names.unshift(parent.name)
+    seen.add(parent.id)
+    parent = parent.parentId ? byId.get(parent.parentId) : undefined
+  }
+  return names.join(' / ')
+}
+
+/**
+ * Summary of a category from the query cache, for optimistic updates
+ */
+export function getCachedCategory(
+  queryClient: QueryClient,
+  categoryId: string | null | undefined
+): CategorySummaryDto | null {
+  if (!categoryId) return null
+  const category = queryClient.getQueryData<CategoryResponse[]>(['categories'])?.find((c) => c.id === categoryId)
+  return category
+    ? { id: category.id, name: category.name, color: category.color, icon: category.icon, parentId: category.parentId }
+    : null
+}
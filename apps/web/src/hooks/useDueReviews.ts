@@ -0,0 +1,25 @@
+import { useQuery } from '@tanstack/react-query'
+import { api } from '@/services/api'
+import type { DueReviewDto } from '@repo/shared-types'
+
+/**
+ * Spaced-repetition reviews due today or overdue, plus those due within
+ * the next `withinDays` days. Lives under the sessions key, so every
+ * session change refreshes it.
+ */
+export function useDueReviews(withinDays = 0) {
+  const { data, isLoading: loading, error } = useQuery({
+    queryKey: ['sessions', 'reviews', 'due', withinDays],
+    queryFn: async (): Promise<DueReviewDto[]> => {
+      const response = await api.sessions.getDueReviews({ withinDays })
+      return response.data ?? []
+    },
+    staleTime: 1000 * 60, // 1 minute
+  })
+
+  return {
+    reviews: data ?? [],
+    loading,
+    error: error as Error | null,
+  }
+}
@@ -1,36 +1,74 @@
 import { useCallback } from 'react';
-import { useLocalStorage } from './useLocalStorage';
-import { STORAGE_KEYS } from '@/utils/localStorage';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import type { FavoriteItemType, FavoritesDto } from '@repo/shared-types';
+import { api } from '@/services/api';
+
+const EMPTY_FAVORITES: FavoritesDto = { sessionIds: [], templateIds: [] };
+
+interface ToggleFavoriteVariables {
+  itemType: FavoriteItemType;
+  itemId: string;
+  favorite: boolean;
+}
 
 /**
  * Hook for managing favorites (sessions and templates)
- * Stores favorite IDs as arrays in localStorage
+ * Stored server-side so they follow the user across devices
  */
 export function useFavorites() {
-  const [favoriteSessionIds, setFavoriteSessionIds] = useLocalStorage<string[]>(
-    STORAGE_KEYS.FAVORITE_SESSIONS,
-    []
-  );
+  const queryClient = useQueryClient();
 
-  const [favoriteTemplateIds, setFavoriteTemplateIds] = useLocalStorage<string[]>(
-    STORAGE_KEYS.FAVORITE_TEMPLATES,
-    []
-  );
+  const { data: favorites = EMPTY_FAVORITES } = useQuery({
+    queryKey: ['favorites'],
+    queryFn: async (): Promise<FavoritesDto> => {
+      const response = await api.favorites.list();
+      return response.data ?? EMPTY_FAVORITES;
+    },
+    staleTime: 1000 * 60 * 5, // 5 minutes
+  });
+
+  // Toggle is applied optimistically and rolled back if the request fails
+  const toggleMutation = useMutation({
+    mutationFn: async ({ itemType, itemId, favorite }: ToggleFavoriteVariables) => {
+      const response = favorite
+        ? await api.favorites.add({ itemType, itemId })
+        : await api.favorites.remove(itemType, itemId);
+      return response.data as FavoritesDto;
+    },
+    onMutate: async ({ itemType, itemId, favorite }) => {
+      await queryClient.cancelQueries({ queryKey: ['favorites'] });
+      const previous = queryClient.getQueryData<FavoritesDto>(['favorites']);
+      const key = itemType === 'session' ? 'sessionIds' : 'templateIds';
+
+      queryClient.setQueryData<FavoritesDto>(['favorites'], (current = EMPTY_FAVORITES) => ({
+        ...current,
+        [key]: favorite
+          ? [...current[key].filter((id) => id !== itemId), itemId]
+          : current[key].filter((id) => id !== itemId),
+      }));
+
+      return { previous };
+    },
+    onError: (error, _variables, context) => {
+      console.error('Failed to update favorite:', error);
+      queryClient.setQueryData(['favorites'], context?.previous);
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData(['favorites'], data);
+      queryClient.invalidateQueries({ queryKey: ['favorites', 'sessions'] });
+    },
+  });
+
+  const { mutate: toggle } = toggleMutation;
 
   /**
    * Toggle a session favorite (add if not present, remove if present)
    */
   const toggleFavoriteSession = useCallback(
     (id: string) => {
-      setFavoriteSessionIds((prev) => {
-        if (prev.includes(id)) {
-          return prev.filter((sessionId) => sessionId !== id);
-        } else {
-          return [...prev, id];
-        }
-      });
+      toggle({ itemType: 'session', itemId: id, favorite: !favorites.sessionIds.includes(id) });
     },
-    [setFavoriteSessionIds]
+    [toggle, favorites.sessionIds]
   );
 
   /**
@@ -38,9 +76,9 @@ export function useFavorites() {
    */
   const isFavoriteSession = useCallback(
     (id: string): boolean => {
-      return favoriteSessionIds.includes(id);
+      return favorites.sessionIds.includes(id);
     },
-    [favoriteSessionIds]
+    [favorites.sessionIds]
   );
 
   /**
@@ -48,15 +86,9 @@ export function useFavorites() {
    */
   const toggleFavoriteTemplate = useCallback(
     (id: string) => {
-      setFavoriteTemplateIds((prev) => {
-        if (prev.includes(id)) {
-          return prev.filter((templateId) => templateId !== id);
-        } else {
-          return [...prev, id];
-        }
-      });
+      toggle({ itemType: 'template', itemId: id, favorite: !favorites.templateIds.includes(id) });
     },
-    [setFavoriteTemplateIds]
+    [toggle, favorites.templateIds]
   );
 
   /**
@@ -64,26 +96,17 @@ export function useFavorites() {
    */
   const isFavoriteTemplate = useCallback(
     (id: string): boolean => {
-      return favoriteTemplateIds.includes(id);
+      return favorites.templateIds.includes(id);
     },
-    [favoriteTemplateIds]
+    [favorites.templateIds]
   );
 
-  /**
-   * Clear all favorites
-   */
-  const clearFavorites = useCallback(() => {
-    setFavoriteSessionIds([]);
-    setFavoriteTemplateIds([]);
-  }, [setFavoriteSessionIds, setFavoriteTemplateIds]);
-
   return {
-    favoriteSessionIds,
-    favoriteTemplateIds,
+    favoriteSessionIds: favorites.sessionIds,
+    favoriteTemplateIds: favorites.templateIds,
     toggleFavoriteSession,
     isFavoriteSession,
     toggleFavoriteTemplate,
     isFavoriteTemplate,
-    clearFavorites,
   };
 }
@@ -0,0 +1,80 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { api } from '@/services/api'
+import type { CreateGoalDto, GoalBurnupDto, GoalResponse, UpdateGoalDto } from '@repo/shared-types'
+
+/**
+ * The current user's goals with progress, plus create, update and delete.
+ * Progress is computed by the API, so changes refetch instead of patching the cache.
+ */
+export function useGoals() {
+  const queryClient = useQueryClient()
+
+  const {
+    data: goals = [],
+    isLoading: loading,
+    error,
+  } = useQuery({
+    queryKey: ['goals'],
+    queryFn: async (): Promise<GoalResponse[]> => {
+      const response = await api.goals.getAll()
+      return response.data ?? []
+    },
+    staleTime: 1000 * 60, // 1 minute; completed sessions move progress
+  })
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ['goals'] })
+
+  const createMutation = useMutation({
+    mutationFn: async (dto: CreateGoalDto) => {
+      const response = await api.goals.create(dto)
+      return response.data as GoalResponse
+    },
+    onSuccess: invalidate,
+  })
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, dto }: { id: string; dto: UpdateGoalDto }) => {
+      const response = await api.goals.update(id, dto)
+      return response.data as GoalResponse
+    },
+    onSuccess: invalidate,
+  })
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await api.goals.delete(id)
+    },
+    onSuccess: invalidate,
+  })
+
+  return {
+    goals,
+    loading,
+    error: error as Error | null,
+    createGoal: createMutation.mutateAsync,
+    updateGoal: (id: string, dto: UpdateGoalDto) => updateMutation.mutateAsync({ id, dto }),
+    deleteGoal: deleteMutation.mutateAsync,
+    isSaving: createMutation.isPending || updateMutation.isPending,
+    isDeleting: deleteMutation.isPending,
+  }
+}
+
+/**
+ * Burn-up of one goal's current period
+ */
+export function useGoalBurnup(goalId: string) {
+  const { data, isLoading: loading, error } = useQuery({
+    queryKey: ['goals', goalId, 'burnup'],
+    queryFn: async (): Promise<GoalBurnupDto | undefined> => {
+      const response = await api.goals.getBurnup(goalId)
+      return response.data
+    },
+    staleTime: 1000 * 60, // 1 minute
+  })
+
+  return {
+    burnup: data,
+    loading,
+    error: error as Error | null,
+  }
+}
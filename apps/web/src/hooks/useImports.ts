@@ -0,0 +1,70 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { api } from '@/services/api'
+import type {
+  CommitImportDto,
+  ImportCommitResultDto,
+  ImportHistoryItemDto,
+  ImportRollbackResultDto,
+} from '@repo/shared-types'
+
+/**
+ * Commit uploaded import previews, list past imports and roll them back
+ */
+export function useImports(options: { loadHistory?: boolean } = {}) {
+  const queryClient = useQueryClient()
+
+  // Query for fetching the import history (only when requested)
+  const {
+    data: history = [],
+    isLoading: loading,
+    error,
+  } = useQuery({
+    queryKey: ['imports'],
+    queryFn: async (): Promise<ImportHistoryItemDto[]> => {
+      const response = await api.sessions.getImportHistory()
+      return response.data || []
+    },
+    enabled: !!options.loadHistory,
+  })
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['sessions'] })
+    queryClient.invalidateQueries({ queryKey: ['imports'] })
+  }
+
+  // Mutation for applying a preview
+  const commitMutation = useMutation({
+    mutationFn: async ({ importId, dto }: { importId: string; dto: CommitImportDto }) => {
+      const response = await api.sessions.commitImport(importId, dto)
+      return response.data as ImportCommitResultDto
+    },
+    onSuccess: invalidate,
+  })
+
+  // Mutation for undoing a committed import
+  const rollbackMutation = useMutation({
+    mutationFn: async (importId: string) => {
+      const response = await api.sessions.rollbackImport(importId)
+      return response.data as ImportRollbackResultDto
+    },
+    onSuccess: invalidate,
+  })
+
+  const commitImport = async (importId: string, dto: CommitImportDto) => {
+    return commitMutation.mutateAsync({ importId, dto })
+  }
+
+  const rollbackImport = async (importId: string) => {
+    return rollbackMutation.mutateAsync(importId)
+  }
+
+  return {
+    history,
+    loading,
+    error: error as Error | null,
+    commitImport,
+    rollbackImport,
+    isCommitting: commitMutation.isPending,
+    isRollingBack: rollbackMutation.isPending,
+  }
+}
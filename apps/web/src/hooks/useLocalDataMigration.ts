@@ -0,0 +1,49 @@
+import { useEffect, useRef } from 'react'
+import { useQueryClient } from '@tanstack/react-query'
+import type { ImportLocalDataDto, SessionResponse } from '@repo/shared-types'
+import { api } from '@/services/api'
+import { getItem, removeItem, STORAGE_KEYS } from '@/utils/localStorage'
+
+/**
+ * One-time upload of favorites, recent sessions and the session draft that
+ * older versions kept in localStorage. Keys are removed once the server has
+ * them; on failure they stay and the upload is retried on the next login.
+ */
+export function useLocalDataMigration(userId: string | null) {
+  const queryClient = useQueryClient()
+  const migratedFor = useRef<string | null>(null)
+
+  useEffect(() => {
+    if (!userId || migratedFor.current === userId) return
+    migratedFor.current = userId
+
+    const draftKey = `${STORAGE_KEYS.DRAFT_SESSION}-${userId}`
+    const keys = [
+      STORAGE_KEYS.FAVORITE_SESSIONS,
+      STORAGE_KEYS.FAVORITE_TEMPLATES,
+      STORAGE_KEYS.RECENT_SESSIONS,
+      draftKey,
+    ]
+    if (keys.every((key) => localStorage.getItem(key) === null)) return
+
+    const dto: ImportLocalDataDto = {
+      favoriteSessionIds: getItem<string[]>(STORAGE_KEYS.FAVORITE_SESSIONS, []),
+      favoriteTemplateIds: getItem<string[]>(STORAGE_KEYS.FAVORITE_TEMPLATES, []),
+      recentSessionIds: getItem<SessionResponse[]>(STORAGE_KEYS.RECENT_SESSIONS, []).map((s) => s?.id),
+      sessionDraft: getItem(draftKey, null),
+    }
+
+    api.userData
+      .importLocal(dto)
+      .then(() => {
+        keys.forEach(removeItem)
+        queryClient.invalidateQueries({ queryKey: ['favorites'] })
+        queryClient.invalidateQueries({ queryKey: ['recent-items'] })
+        queryClient.invalidateQueries({ queryKey: ['session-draft'] })
+      })
+      .catch((error) => {
+        console.error('Failed to upload local data:', error)
+        migratedFor.current = null
+      })
+  }, [userId, queryClient])
+}
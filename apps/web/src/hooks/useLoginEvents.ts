@@ -0,0 +1,22 @@
+import { useQuery } from '@tanstack/react-query'
+import { api } from '@/services/api'
+import type { LoginEventDto } from '@repo/shared-types'
+
+/**
+ * The account's most recent sign-in attempts, successful or not
+ */
+export function useLoginEvents(limit = 20) {
+  const { data, isLoading: loading, error } = useQuery({
+    queryKey: ['loginEvents', limit],
+    queryFn: async (): Promise<LoginEventDto[]> => {
+      const response = await api.auth.getLoginEvents({ limit })
+      return response.data ?? []
+    },
+  })
+
+  return {
+    events: data ?? [],
+    loading,
+    error: error as Error | null,
+  }
+}
@@ -0,0 +1,32 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import { api } from '@/services/api'
+import type { ApplyPlanResultDto, PlanPreviewDto, PlanProposalDto, PlanRequestDto } from '@repo/shared-types'
+
+/**
+ * Ask the planner for a schedule preview and save the accepted part of it
+ */
+export function usePlanner() {
+  const queryClient = useQueryClient()
+
+  const previewMutation = useMutation({
+    mutationFn: async (dto: PlanRequestDto) => {
+      const response = await api.planner.preview(dto)
+      return response.data as PlanPreviewDto
+    },
+  })
+
+  const applyMutation = useMutation({
+    mutationFn: async (proposals: PlanProposalDto[]) => {
+      const response = await api.planner.apply({ proposals })
+      return response.data as ApplyPlanResultDto
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['sessions'] }),
+  })
+
+  return {
+    previewPlan: previewMutation.mutateAsync,
+    applyPlan: applyMutation.mutateAsync,
+    isPreviewing: previewMutation.isPending,
+    isApplying: applyMutation.isPending,
+  }
+}
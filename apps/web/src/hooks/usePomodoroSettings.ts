@@ -0,0 +1,43 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { api } from '@/services/api'
+import type { PomodoroSettingsDto, UpdatePomodoroSettingsDto } from '@repo/shared-types'
+
+/**
+ * Read and update the user's Pomodoro focus and break lengths
+ */
+export function usePomodoroSettings(options: { enabled?: boolean } = {}) {
+  const queryClient = useQueryClient()
+
+  const {
+    data: settings = null,
+    isLoading: loading,
+    error,
+  } = useQuery({
+    queryKey: ['pomodoro-settings'],
+    queryFn: async (): Promise<PomodoroSettingsDto | null> => {
+      const response = await api.timer.getPomodoroSettings()
+      return response.data ?? null
+    },
+    enabled: options.enabled ?? true,
+  })
+
+  // Mutation for saving settings; the active timer reports phase lengths from them
+  const updateMutation = useMutation({
+    mutationFn: async (dto: UpdatePomodoroSettingsDto) => {
+      const response = await api.timer.updatePomodoroSettings(dto)
+      return response.data as PomodoroSettingsDto
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData(['pomodoro-settings'], data)
+      queryClient.invalidateQueries({ queryKey: ['timer'] })
+    },
+  })
+
+  return {
+    settings,
+    loading,
+    error: error as Error | null,
+    updateSettings: updateMutation.mutateAsync,
+    isSaving: updateMutation.isPending,
+  }
+}
@@ -0,0 +1,122 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { api } from '@/services/api'
+import type {
+  ProgressResponse,
+  CreateProgressDto,
+  UpdateProgressDto,
+} from '@repo/shared-types'
+
+/**
+ * Custom hook for the progress timeline of a single session
+ */
+export function useProgress(sessionId?: string) {
+  const queryClient = useQueryClient()
+  const queryKey = ['progress', sessionId]
+
+  // Query for fetching the session's progress entries
+  const {
+    data: entries = [],
+    isLoading: loading,
+    error,
+    refetch,
+  } = useQuery({
+    queryKey,
+    queryFn: async () => {
+      const response = await api.progress.getBySession(sessionId!)
+      return Array.isArray(response.data) ? response.data : []
+    },
+    enabled: !!sessionId,
+  })
+
+  // Mutation for recording a progress entry
+  const createProgressMutation = useMutation({
+    mutationFn: async (dto: Omit<CreateProgressDto, 'sessionId'>) => {
+      const response = await api.progress.create({ ...dto, sessionId: sessionId! })
+      if (response && typeof response === 'object' && response.data) {
+        return response.data
+      }
+      throw new Error('Invalid response format from progress creation')
+    },
+    onSuccess: (entry) => {
+      queryClient.invalidateQueries({ queryKey })
+      // Rating a completed session schedules its next review
+      if (entry.rating !== null) {
+        queryClient.invalidateQueries({ queryKey: ['sessions'] })
+      }
+    },
+  })
+
+  // Mutation for updating a progress entry
+  const updateProgressMutation = useMutation({
+    mutationFn: async ({ id, dto }: { id: string; dto: UpdateProgressDto }) => {
+      const response = await api.progress.update(id, dto)
+      return response.data
+    },
+    onMutate: async ({ id, dto }) => {
+      await queryClient.cancelQueries({ queryKey })
+
+      const previousEntries = queryClient.getQueryData<ProgressResponse[]>(queryKey)
+
+      // Optimistically update
+      queryClient.setQueryData<ProgressResponse[]>(queryKey, (old) =>
+        (old || []).map((entry) =>
+          entry.id === id ? { ...entry, ...dto } as ProgressResponse : entry
+        )
+      )
+
+      return { previousEntries }
+    },
+    onError: (err, variables, context) => {
+      queryClient.setQueryData(queryKey, context?.previousEntries)
+    },
+    onSuccess: (_entry, { dto }) => {
+      queryClient.invalidateQueries({ queryKey })
+      if (dto.rating !== undefined) {
+        queryClient.invalidateQueries({ queryKey: ['sessions'] })
+      }
+    },
+  })
+
+  // Mutation for deleting a progress entry
+  const deleteProgressMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await api.progress.delete(id)
+      return id
+    },
+    onMutate: async (id) => {
+      await queryClient.cancelQueries({ queryKey })
+
+      const previousEntries = queryClient.getQueryData<ProgressResponse[]>(queryKey)
+
+      // Optimistically remove
+      queryClient.setQueryData<ProgressResponse[]>(queryKey, (old) =>
+        (old || []).filter((entry) => entry.id !== id)
+      )
+
+      return { previousEntries }
+    },
+    onError: (err, id, context) => {
+      queryClient.setQueryData(queryKey, context?.previousEntries)
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey })
+    },
+  })
+
+  // Latest completion percentage across all sittings
+  const latestCompletion = entries.length > 0
+    ? entries[entries.length - 1].completionPercentage
+    : 0
+
+  return {
+    entries,
+    loading,
+    error: error as Error | null,
+    latestCompletion,
+    createProgress: (dto: Omit<CreateProgressDto, 'sessionId'>) => createProgressMutation.mutateAsync(dto),
+    updateProgress: (id: string, dto: UpdateProgressDto) => updateProgressMutation.mutateAsync({ id, dto }),
+    deleteProgress: (id: string) => deleteProgressMutation.mutateAsync(id),
+    isSaving: createProgressMutation.isPending,
+    refetch,
+  }
+}
@@ -1,45 +1,70 @@
 import { useCallback } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import type { SessionResponse } from '@repo/shared-types';
-import { useLocalStorage } from './useLocalStorage';
-import { STORAGE_KEYS } from '@/utils/localStorage';
+import { api } from '@/services/api';
 
 const MAX_RECENT_SESSIONS = 10;
 
 /**
  * Hook for managing recent sessions list
- * Stores up to 10 most recently viewed/edited sessions in localStorage
+ * The server keeps the 10 most recently opened sessions and returns them fresh
  */
 export function useRecentSessions() {
-  const [recentSessions, setRecentSessions, clearStorage] = useLocalStorage<SessionResponse[]>(
-    STORAGE_KEYS.RECENT_SESSIONS,
-    []
-  );
+  const queryClient = useQueryClient();
+
+  const { data: recentSessions = [] } = useQuery({
+    queryKey: ['recent-items'],
+    queryFn: async (): Promise<SessionResponse[]> => {
+      const response = await api.recentItems.list();
+      return response.data ?? [];
+    },
+  });
+
+  // Moves the session to the top right away; the server answer replaces the guess
+  const recordMutation = useMutation({
+    mutationFn: async (session: SessionResponse) => {
+      const response = await api.recentItems.record(session.id);
+      return response.data ?? [];
+    },
+    onMutate: async (session) => {
+      await queryClient.cancelQueries({ queryKey: ['recent-items'] });
+      const previous = queryClient.getQueryData<SessionResponse[]>(['recent-items']);
+      queryClient.setQueryData<SessionResponse[]>(['recent-items'], (current = []) =>
+        [session, ...current.filter((s) => s.id !== session.id)].slice(0, MAX_RECENT_SESSIONS)
+      );
+      return { previous };
+    },
+    onError: (error, _session, context) => {
+      console.error('Failed to record recent session:', error);
+      queryClient.setQueryData(['recent-items'], context?.previous);
+    },
+    onSuccess: (data) => queryClient.setQueryData(['recent-items'], data),
+  });
+
+  const clearMutation = useMutation({
+    mutationFn: () => api.recentItems.clear(),
+    onSuccess: () => queryClient.setQueryData(['recent-items'], []),
+  });
+
+  const { mutate: record } = recordMutation;
+  const { mutate: clear } = clearMutation;
 
   /**
    * Add a session to the recent list
-   * - Adds to the beginning of the list
-   * - Removes duplicates by ID
-   * - Trims to max 10 items
    */
   const addRecentSession = useCallback(
     (session: SessionResponse) => {
-      setRecentSessions((prev) => {
-        // Remove existing entry if present
-        const filtered = prev.filter((s) => s.id !== session.id);
-
-        // Add to beginning and trim to max
-        return [session, ...filtered].slice(0, MAX_RECENT_SESSIONS);
-      });
+      record(session);
     },
-    [setRecentSessions]
+    [record]
   );
 
   /**
    * Clear all recent sessions
    */
   const clearRecentSessions = useCallback(() => {
-    clearStorage();
-  }, [clearStorage]);
+    clear();
+  }, [clear]);
 
   return {
     recentSessions,
@@ -0,0 +1,69 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { api } from '@/services/api'
+import type {
+  SeriesResponse,
+  SeriesEditMode,
+  SeriesOperationResult,
+  UpdateSeriesOccurrenceDto,
+} from '@repo/shared-types'
+
+/**
+ * Load a recurring series and run series-level edits/deletes on its occurrences
+ */
+export function useSeries(seriesId?: string | null) {
+  const queryClient = useQueryClient()
+
+  // Query for fetching the series (only when an id is given)
+  const {
+    data: series = null,
+    isLoading: loading,
+    error,
+  } = useQuery({
+    queryKey: ['series', seriesId],
+    queryFn: async (): Promise<SeriesResponse | null> => {
+      const response = await api.series.getById(seriesId!)
+      return response.data || null
+    },
+    enabled: !!seriesId,
+  })
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['sessions'] })
+    queryClient.invalidateQueries({ queryKey: ['series'] })
+  }
+
+  // Mutation for editing occurrences with a scope
+  const updateOccurrenceMutation = useMutation({
+    mutationFn: async ({ sessionId, dto }: { sessionId: string; dto: UpdateSeriesOccurrenceDto }) => {
+      const response = await api.series.updateOccurrence(sessionId, dto)
+      return response.data as SeriesOperationResult
+    },
+    onSuccess: invalidate,
+  })
+
+  // Mutation for deleting occurrences with a scope
+  const deleteOccurrenceMutation = useMutation({
+    mutationFn: async ({ sessionId, mode }: { sessionId: string; mode: SeriesEditMode }) => {
+      const response = await api.series.deleteOccurrence(sessionId, mode)
+      return response.data as SeriesOperationResult
+    },
+    onSuccess: invalidate,
+  })
+
+  const updateOccurrence = async (sessionId: string, dto: UpdateSeriesOccurrenceDto) => {
+    return updateOccurrenceMutation.mutateAsync({ sessionId, dto })
+  }
+
+  const deleteOccurrence = async (sessionId: string, mode: SeriesEditMode) => {
+    return deleteOccurrenceMutation.mutateAsync({ sessionId, mode })
+  }
+
+  return {
+    series,
+    loading,
+    error: error as Error | null,
+    updateOccurrence,
+    deleteOccurrence,
+    isSaving: updateOccurrenceMutation.isPending || deleteOccurrenceMutation.isPending,
+  }
+}
@@ -0,0 +1,35 @@
+import { useMemo } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import { api } from '@/services/api'
+import type { SessionConflictDto } from '@repo/shared-types'
+
+/**
+ * Overlapping planned sessions over the next 90 days. Lives under the
+ * sessions key, so every session change refreshes it.
+ */
+export function useSessionConflicts() {
+  const { data, isLoading: loading, error } = useQuery({
+    queryKey: ['sessions', 'conflicts'],
+    queryFn: async (): Promise<SessionConflictDto[]> => {
+      const response = await api.sessions.getConflicts()
+      return response.data ?? []
+    },
+    staleTime: 1000 * 60, // 1 minute
+  })
+
+  const conflictIds = useMemo(() => {
+    const ids = new Set<string>()
+    for (const conflict of data ?? []) {
+      ids.add(conflict.first.id)
+      ids.add(conflict.second.id)
+    }
+    return ids
+  }, [data])
+
+  return {
+    conflicts: data ?? [],
+    conflictIds,
+    loading,
+    error: error as Error | null,
+  }
+}
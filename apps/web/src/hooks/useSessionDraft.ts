@@ -0,0 +1,48 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { api } from '@/services/api'
+import type { SessionDraftData, SessionDraftDto } from '@repo/shared-types'
+
+/**
+ * Server-side draft of the create-session form, shared across devices
+ */
+export function useSessionDraft(options: { enabled?: boolean } = {}) {
+  const queryClient = useQueryClient()
+
+  const {
+    data: draft = null,
+    isFetched,
+  } = useQuery({
+    queryKey: ['session-draft'],
+    queryFn: async (): Promise<SessionDraftDto | null> => {
+      const response = await api.drafts.getSession()
+      return response.data ?? null
+    },
+    enabled: options.enabled ?? true,
+    // Another device may have changed the draft since this one last looked
+    staleTime: 0,
+  })
+
+  // Mutation for saving the draft
+  const saveMutation = useMutation({
+    mutationFn: async (data: SessionDraftData) => {
+      const response = await api.drafts.saveSession(data)
+      return response.data as SessionDraftDto
+    },
+    onSuccess: (data) => queryClient.setQueryData(['session-draft'], data),
+    onError: (error) => console.error('Failed to save draft:', error),
+  })
+
+  // Mutation for discarding the draft
+  const clearMutation = useMutation({
+    mutationFn: () => api.drafts.deleteSession(),
+    onMutate: () => queryClient.setQueryData(['session-draft'], null),
+    onError: (error) => console.error('Failed to discard draft:', error),
+  })
+
+  return {
+    draft,
+    isLoaded: isFetched,
+    saveDraft: saveMutation.mutate,
+    clearDraft: () => clearMutation.mutate(),
+  }
+}
@@ -0,0 +1,51 @@
+import { useEffect, useState } from 'react'
+import { useInfiniteQuery, keepPreviousData } from '@tanstack/react-query'
+import { api } from '@/services/api'
+import type { SessionSearchResponse } from '@repo/shared-types'
+
+/** Wait this long after the last keystroke before searching */
+const SEARCH_DEBOUNCE_MS = 250
+
+/**
+ * Server-side session search with cursor pagination
+ */
+export function useSessionSearch(query: string, options: { enabled?: boolean } = {}) {
+  const [debouncedQuery, setDebouncedQuery] = useState(query.trim())
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedQuery(query.trim()), SEARCH_DEBOUNCE_MS)
+    return () => clearTimeout(timer)
+  }, [query])
+
+  const {
+    data,
+    isFetching,
+    isFetchingNextPage,
+    hasNextPage,
+    fetchNextPage,
+    error,
+  } = useInfiniteQuery({
+    queryKey: ['session-search', debouncedQuery],
+    queryFn: async ({ pageParam }): Promise<SessionSearchResponse> => {
+      const response = await api.sessions.search({ q: debouncedQuery, cursor: pageParam })
+      return response.data as SessionSearchResponse
+    },
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+    enabled: (options.enabled ?? true) && debouncedQuery.length > 0,
+    // Keep showing the last results while the next query loads
+    placeholderData: keepPreviousData,
+  })
+
+  const pages = debouncedQuery ? data?.pages ?? [] : []
+
+  return {
+    hits: pages.flatMap((page) => page.hits),
+    parsedQuery: pages[0]?.query ?? null,
+    loading: isFetching && !isFetchingNextPage,
+    loadingMore: isFetchingNextPage,
+    hasMore: !!hasNextPage,
+    loadMore: () => fetchNextPage(),
+    error: debouncedQuery ? (error as Error | null) : null,
+  }
+}
@@ -0,0 +1,132 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { api } from '@/services/api'
+import type {
+  CreateSessionTaskDto,
+  SessionTaskResponse,
+  UpdateSessionTaskDto,
+} from '@repo/shared-types'
+
+/**
+ * Custom hook for the checklist of a single session. Starts from the items
+ * embedded in the session response; changes are applied optimistically and
+ * rolled back if the request fails.
+ */
+export function useSessionTasks(sessionId: string, initialTasks?: SessionTaskResponse[]) {
+  const queryClient = useQueryClient()
+  const queryKey = ['session-tasks', sessionId]
+
+  const {
+    data: tasks = [],
+    isLoading: loading,
+    error,
+  } = useQuery({
+    queryKey,
+    queryFn: async () => {
+      const response = await api.tasks.getBySession(sessionId)
+      return Array.isArray(response.data) ? response.data : []
+    },
+    initialData: initialTasks,
+    staleTime: 1000 * 30, // 30 seconds
+  })
+
+  const patchTasks = async (update: (tasks: SessionTaskResponse[]) => SessionTaskResponse[]) => {
+    await queryClient.cancelQueries({ queryKey })
+    const previousTasks = queryClient.getQueryData<SessionTaskResponse[]>(queryKey)
+    queryClient.setQueryData<SessionTaskResponse[]>(queryKey, (old) => update(old || []))
+    return { previousTasks }
+  }
+
+  const rollback = (context?: { previousTasks?: SessionTaskResponse[] }) => {
+    queryClient.setQueryData(queryKey, context?.previousTasks)
+  }
+
+  // Session lists embed the checklist and goals may count its items, so refresh them too
+  const settle = () => {
+    queryClient.invalidateQueries({ queryKey })
+    queryClient.invalidateQueries({ queryKey: ['sessions'] })
+    queryClient.invalidateQueries({ queryKey: ['goals'] })
+  }
+
+  const createMutation = useMutation({
+    mutationFn: async (dto: CreateSessionTaskDto) => {
+      const response = await api.tasks.create(sessionId, dto)
+      return response.data as SessionTaskResponse
+    },
+    onMutate: (dto) =>
+      patchTasks((old) => [
+        ...old,
+        {
+          id: `temp-${Date.now()}`,
+          sessionId,
+          title: dto.title,
+          done: dto.done ?? false,
+          estimatedMinutes: dto.estimatedMinutes ?? null,
+          position: old.length,
+          completedAt: null,
+          createdAt: new Date().toISOString(),
+          updatedAt: new Date().toISOString(),
+        },
+      ]),
+    onError: (_err, _dto, context) => rollback(context),
+    onSettled: settle,
+  })
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, dto }: { id: string; dto: UpdateSessionTaskDto }) => {
+      const response = await api.tasks.update(id, dto)
+      return response.data as SessionTaskResponse
+    },
+    onMutate: ({ id, dto }) =>
+      patchTasks((old) =>
+        old.map((task) =>
+          task.id === id
+            ? {
+                ...task,
+                ...dto,
+                ...(dto.done !== undefined && { completedAt: dto.done ? new Date().toISOString() : null }),
+              } as SessionTaskResponse
+            : task
+        )
+      ),
+    onError: (_err, _variables, context) => rollback(context),
+    onSettled: settle,
+  })
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await api.tasks.delete(id)
+    },
+    onMutate: (id) => patchTasks((old) => old.filter((task) => task.id !== id)),
+    onError: (_err, _id, context) => rollback(context),
+    onSettled: settle,
+  })
+
+  const reorderMutation = useMutation({
+    mutationFn: async (taskIds: string[]) => {
+      const response = await api.tasks.reorder(sessionId, taskIds)
+      return response.data ?? []
+    },
+    onMutate: (taskIds) =>
+      patchTasks((old) => {
+        const byId = new Map(old.map((task) => [task.id, task]))
+        return taskIds.flatMap((id, position) => {
+          const task = byId.get(id)
+          return task ? [{ ...task, position }] : []
+        })
+      }),
+    onError: (_err, _taskIds, context) => rollback(context),
+    onSettled: settle,
+  })
+
+  return {
+    tasks,
+    loading,
+    error: error as Error | null,
+    addTask: createMutation.mutateAsync,
+    updateTask: (id: string, dto: UpdateSessionTaskDto) => updateMutation.mutateAsync({ id, dto }),
+    toggleTask: (task: SessionTaskResponse) => updateMutation.mutateAsync({ id: task.id, dto: { done: !task.done } }),
+    deleteTask: deleteMutation.mutateAsync,
+    reorderTasks: reorderMutation.mutateAsync,
+    isSaving: createMutation.isPending || updateMutation.isPending || reorderMutation.isPending,
+  }
+}
@@ -1,6 +1,7 @@
 import { useState } from 'react'
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
 import { api } from '@/services/api'
+import { getCachedCategory } from '@/hooks/useCategories'
 import type {
   SessionResponse,
   CreateSessionDto,
@@ -44,7 +45,6 @@ export function useSessions(initialFilters?: SessionFilters) {
           session &&
           typeof session === 'object' &&
           session.id &&
-          session.category &&
           session.status
       )
     },
@@ -72,7 +72,8 @@ export function useSessions(initialFilters?: SessionFilters) {
         id: tempId,
         title: newSession.title,
         description: newSession.description || null,
-        category: newSession.category,
+        categoryId: newSession.categoryId ?? null,
+        category: getCachedCategory(queryClient, newSession.categoryId),
         status: newSession.status || ('planned' as any),
         priority: newSession.priority || ('medium' as any),
         duration: newSession.duration,
@@ -84,13 +85,30 @@ export function useSessions(initialFilters?: SessionFilters) {
         startedAt: null,
         completedAt: null,
         userId: '',
+        seriesId: null,
+        originalScheduledFor: null,
+        reviewOfId: null,
+        reviewRepetition: null,
+        reviewIntervalDays: null,
+        reviewEase: null,
+        tasks: (newSession.tasks || []).map((task, index) => ({
+          id: `${tempId}-task-${index}`,
+          sessionId: tempId,
+          title: task.title,
+          done: task.done ?? false,
+          estimatedMinutes: task.estimatedMinutes ?? null,
+          position: index,
+          completedAt: null,
+          createdAt: new Date().toISOString(),
+          updatedAt: new Date().toISOString(),
+        })),
         createdAt: new Date().toISOString(),
         updatedAt: new Date().toISOString(),
       }
 
       // Only add optimistically if it matches current filters
       const matchesFilters =
-        (!filters?.category || optimisticSession.category === filters.category) &&
+        (!filters?.categoryId || optimisticSession.categoryId === filters.categoryId) &&
         (!filters?.status ||
           (Array.isArray(filters.status)
             ? filters.status.includes(optimisticSession.status)
@@ -136,7 +154,13 @@ export function useSessions(initialFilters?: SessionFilters) {
       // Optimistically update
       queryClient.setQueryData<SessionResponse[]>(['sessions', filters], (old) =>
         (old || []).map((session) =>
-          session.id === id ? { ...session, ...dto } as SessionResponse : session
+          session.id === id
+            ? {
+                ...session,
+                ...dto,
+                ...(dto.categoryId !== undefined && { category: getCachedCategory(queryClient, dto.categoryId) }),
+              } as SessionResponse
+            : session
         )
       )
 
@@ -147,6 +171,11 @@ export function useSessions(initialFilters?: SessionFilters) {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['sessions'] })
+      // A status change may end the running timer
+      queryClient.invalidateQueries({ queryKey: ['timer'] })
+      queryClient.invalidateQueries({ queryKey: ['recent-items'] })
+      // Completing a session moves goal progress
+      queryClient.invalidateQueries({ queryKey: ['goals'] })
     },
   })
 
@@ -173,6 +202,11 @@ export function useSessions(initialFilters?: SessionFilters) {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['sessions'] })
+      queryClient.invalidateQueries({ queryKey: ['timer'] })
+      // Deleting a session also drops it from favorites and recents
+      queryClient.invalidateQueries({ queryKey: ['favorites'] })
+      queryClient.invalidateQueries({ queryKey: ['recent-items'] })
+      queryClient.invalidateQueries({ queryKey: ['goals'] })
     },
   })
 
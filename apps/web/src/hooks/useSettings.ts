@@ -0,0 +1,56 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { api } from '@/services/api'
+import type { MissedSessionsResultDto, UpdateUserSettingsDto, UserSettingsDto } from '@repo/shared-types'
+
+/**
+ * The current user's settings (time zone, week start, locale, missed-session handling)
+ */
+export function useSettings() {
+  const queryClient = useQueryClient()
+
+  const {
+    data: settings = null,
+    isLoading: loading,
+    error,
+  } = useQuery({
+    queryKey: ['settings'],
+    queryFn: async (): Promise<UserSettingsDto | null> => {
+      const response = await api.settings.get()
+      return response.data ?? null
+    },
+    staleTime: 1000 * 60 * 10, // 10 minutes
+  })
+
+  // Mutation for saving settings
+  const updateMutation = useMutation({
+    mutationFn: async (dto: UpdateUserSettingsDto) => {
+      const response = await api.settings.update(dto)
+      return response.data as UserSettingsDto
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData(['settings'], data)
+      // Streaks, day buckets and goal periods depend on the time zone
+      queryClient.invalidateQueries({ queryKey: ['gamification'] })
+      queryClient.invalidateQueries({ queryKey: ['goals'] })
+    },
+  })
+
+  // Mutation for running the missed-session check right away
+  const checkMissedMutation = useMutation({
+    mutationFn: async () => {
+      const response = await api.settings.checkMissedSessions()
+      return response.data as MissedSessionsResultDto
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['sessions'] }),
+  })
+
+  return {
+    settings,
+    loading,
+    error: error as Error | null,
+    updateSettings: updateMutation.mutateAsync,
+    checkMissedSessions: () => checkMissedMutation.mutateAsync(),
+    isSaving: updateMutation.isPending,
+    isChecking: checkMissedMutation.isPending,
+  }
+}
@@ -0,0 +1,64 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { api } from '@/services/api'
+import type { MergeTagsDto, TagResponse, UpdateTagDto } from '@repo/shared-types'
+
+/**
+ * The current user's tags with usage counts, plus rename, merge and delete
+ */
+export function useTags() {
+  const queryClient = useQueryClient()
+
+  const {
+    data: tags = [],
+    isLoading: loading,
+    error,
+  } = useQuery({
+    queryKey: ['tags'],
+    queryFn: async (): Promise<TagResponse[]> => {
+      const response = await api.tags.getAll()
+      return response.data ?? []
+    },
+    staleTime: 1000 * 60 * 5, // 5 minutes
+  })
+
+  // Renames, merges and deletes rewrite the tags on sessions and templates
+  const invalidateDependents = () => {
+    queryClient.invalidateQueries({ queryKey: ['tags'] })
+    queryClient.invalidateQueries({ queryKey: ['sessions'] })
+    queryClient.invalidateQueries({ queryKey: ['templates'] })
+  }
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ name, dto }: { name: string; dto: UpdateTagDto }) => {
+      const response = await api.tags.update(name, dto)
+      return response.data as TagResponse
+    },
+    onSuccess: invalidateDependents,
+  })
+
+  const mergeMutation = useMutation({
+    mutationFn: async (dto: MergeTagsDto) => {
+      const response = await api.tags.merge(dto)
+      return response.data as TagResponse
+    },
+    onSuccess: invalidateDependents,
+  })
+
+  const deleteMutation = useMutation({
+    mutationFn: async (name: string) => {
+      await api.tags.delete(name)
+    },
+    onSuccess: invalidateDependents,
+  })
+
+  return {
+    tags,
+    loading,
+    error: error as Error | null,
+    updateTag: (name: string, dto: UpdateTagDto) => updateMutation.mutateAsync({ name, dto }),
+    mergeTags: mergeMutation.mutateAsync,
+    deleteTag: deleteMutation.mutateAsync,
+    isSaving: updateMutation.isPending || mergeMutation.isPending,
+    isDeleting: deleteMutation.isPending,
+  }
+}
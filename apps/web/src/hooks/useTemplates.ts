@@ -1,6 +1,7 @@
 import { useState } from 'react'
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
 import { api } from '@/services/api'
+import { getCachedCategory } from '@/hooks/useCategories'
 import type {
   TemplateResponse,
   CreateTemplateDto,
@@ -45,12 +46,14 @@ export function useTemplates(initialFilters?: TemplateFilters) {
         name: newTemplate.name,
         title: newTemplate.title,
         description: newTemplate.description || null,
-        category: newTemplate.category,
+        categoryId: newTemplate.categoryId ?? null,
+        category: getCachedCategory(queryClient, newTemplate.categoryId),
         priority: newTemplate.priority || ('medium' as any),
         duration: newTemplate.duration,
         color: newTemplate.color || null,
         tags: newTemplate.tags || [],
         notes: newTemplate.notes || null,
+        checklist: newTemplate.checklist || [],
         userId: '',
         createdAt: new Date().toISOString(),
         updatedAt: new Date().toISOString(),
@@ -85,7 +88,13 @@ export function useTemplates(initialFilters?: TemplateFilters) {
       // Optimistically update
       queryClient.setQueryData<TemplateResponse[]>(['templates', filters], (old) =>
         (old || []).map((template) =>
-          template.id === id ? { ...template, ...dto } as TemplateResponse : template
+          template.id === id
+            ? {
+                ...template,
+                ...dto,
+                ...(dto.categoryId !== undefined && { category: getCachedCategory(queryClient, dto.categoryId) }),
+              } as TemplateResponse
+            : template
         )
       )
 
@@ -0,0 +1,115 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { api } from '@/services/api'
+import type {
+  ActiveTimerDto,
+  AdvancePomodoroDto,
+  StartTimerDto,
+  StopTimerDto,
+  StopTimerResultDto,
+} from '@repo/shared-types'
+
+/**
+ * The user's live study timer; state lives on the server so it survives reloads
+ */
+export function useTimer() {
+  const queryClient = useQueryClient()
+
+  // Query for the active timer (null when nothing is being timed)
+  const {
+    data: timer = null,
+    isLoading: loading,
+    error,
+  } = useQuery({
+    queryKey: ['timer'],
+    queryFn: async (): Promise<ActiveTimerDto | null> => {
+      const response = await api.timer.getActive()
+      return response.data ?? null
+    },
+    refetchOnWindowFocus: true,
+  })
+
+  const setTimer = (data: ActiveTimerDto | null) => {
+    queryClient.setQueryData(['timer'], data)
+    queryClient.invalidateQueries({ queryKey: ['sessions'] })
+  }
+
+  // Mutation for starting a session's timer
+  const startMutation = useMutation({
+    mutationFn: async (dto: StartTimerDto) => {
+      const response = await api.timer.start(dto)
+      return response.data as ActiveTimerDto
+    },
+    onSuccess: setTimer,
+  })
+
+  // Mutation for pausing the timer
+  const pauseMutation = useMutation({
+    mutationFn: async () => {
+      const response = await api.timer.pause()
+      return response.data as ActiveTimerDto
+    },
+    onSuccess: (data) => queryClient.setQueryData(['timer'], data),
+  })
+
+  // Mutation for resuming the timer
+  const resumeMutation = useMutation({
+    mutationFn: async () => {
+      const response = await api.timer.resume()
+      return response.data as ActiveTimerDto
+    },
+    onSuccess: (data) => queryClient.setQueryData(['timer'], data),
+  })
+
+  // Mutation for switching Pomodoro mode
+  const pomodoroMutation = useMutation({
+    mutationFn: async (enabled: boolean) => {
+      const response = await api.timer.setPomodoro(enabled)
+      return response.data as ActiveTimerDto
+    },
+    onSuccess: (data) => queryClient.setQueryData(['timer'], data),
+  })
+
+  // Mutation for moving to the next Pomodoro phase
+  const advanceMutation = useMutation({
+    mutationFn: async (dto: AdvancePomodoroDto) => {
+      const response = await api.timer.advancePomodoro(dto)
+      return response.data as ActiveTimerDto
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData(['timer'], data)
+      // Finished cycles count towards statistics and XP
+      queryClient.invalidateQueries({ queryKey: ['gamification'] })
+    },
+  })
+
+  // Mutation for stopping the timer and recording actualDuration
+  const stopMutation = useMutation({
+    mutationFn: async (dto: StopTimerDto) => {
+      const response = await api.timer.stop(dto)
+      return response.data as StopTimerResultDto
+    },
+    onSuccess: () => {
+      setTimer(null)
+      queryClient.invalidateQueries({ queryKey: ['gamification'] })
+    },
+  })
+
+  return {
+    timer,
+    loading,
+    error: error as Error | null,
+    startTimer: startMutation.mutateAsync,
+    setPomodoro: pomodoroMutation.mutateAsync,
+    advancePomodoro: advanceMutation.mutateAsync,
+    pauseTimer: () => pauseMutation.mutateAsync(),
+    resumeTimer: () => resumeMutation.mutateAsync(),
+    stopTimer: (dto: StopTimerDto = {}) => stopMutation.mutateAsync(dto),
+    isBusy:
+      startMutation.isPending ||
+      pauseMutation.isPending ||
+      resumeMutation.isPending ||
+      pomodoroMutation.isPending ||
+      advanceMutation.isPending ||
+      stopMutation.isPending,
+  }
+}
@@ -0,0 +1,78 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { api } from '@/services/api'
+import type {
+  DisableTwoFactorDto,
+  RecoveryCodesDto,
+  TwoFactorSetupDto,
+  TwoFactorStatusDto,
+} from '@repo/shared-types'
+
+/**
+ * Two-factor authentication state of the signed-in user, with enrollment,
+ * recovery code and disable actions
+ */
+export function useTwoFactor() {
+  const queryClient = useQueryClient()
+
+  const {
+    data: status = null,
+    isLoading: loading,
+    error,
+  } = useQuery({
+    queryKey: ['twoFactor'],
+    queryFn: async (): Promise<TwoFactorStatusDto | null> => {
+      const response = await api.auth.getTwoFactorStatus()
+      return response.data ?? null
+    },
+  })
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ['twoFactor'] })
+
+  // Mutation for starting enrollment
+  const setupMutation = useMutation({
+    mutationFn: async () => {
+      const response = await api.auth.setupTwoFactor()
+      return response.data as TwoFactorSetupDto
+    },
+  })
+
+  // Mutation for confirming the first code
+  const enableMutation = useMutation({
+    mutationFn: async (code: string) => {
+      const response = await api.auth.enableTwoFactor({ code })
+      return response.data as RecoveryCodesDto
+    },
+    onSuccess: invalidate,
+  })
+
+  // Mutation for turning it off
+  const disableMutation = useMutation({
+    mutationFn: async (dto: DisableTwoFactorDto) => {
+      await api.auth.disableTwoFactor(dto)
+    },
+    onSuccess: invalidate,
+  })
+
+  // Mutation for replacing the recovery codes
+  const regenerateMutation = useMutation({
+    mutationFn: async (code: string) => {
+      const response = await api.auth.regenerateRecoveryCodes({ code })
+      return response.data as RecoveryCodesDto
+    },
+    onSuccess: invalidate,
+  })
+
+  return {
+    status,
+    loading,
+    error: error as Error | null,
+    setup: () => setupMutation.mutateAsync(),
+    enable: enableMutation.mutateAsync,
+    disable: disableMutation.mutateAsync,
+    regenerateRecoveryCodes: regenerateMutation.mutateAsync,
+    isSettingUp: setupMutation.isPending,
+    isEnabling: enableMutation.isPending,
+    isDisabling: disableMutation.isPending,
+    isRegenerating: regenerateMutation.isPending,
+  }
+}
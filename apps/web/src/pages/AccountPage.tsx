@@ -0,0 +1,319 @@
+import { useEffect, useState, FormEvent } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { KeyRound, Mail, Trash2, UserRound } from 'lucide-react';
+import { Button } from '@/components/common/Button';
+import { api } from '@/services/api';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast, useToastConfirm } from '@/contexts/ToastContext';
+import { useTwoFactor } from '@/hooks/useTwoFactor';
+
+const inputClass =
+  'w-full px-3 py-2 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md text-gray-900 dark:text-white';
+
+const labelClass = 'block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1';
+
+type SavingSection = 'profile' | 'email' | 'password' | 'delete' | null;
+
+export default function AccountPage() {
+  const toast = useToast();
+  const confirm = useToastConfirm();
+  const navigate = useNavigate();
+  const { user, refreshUser, logout } = useAuth();
+  const { status: twoFactor } = useTwoFactor();
+  const [saving, setSaving] = useState<SavingSection>(null);
+  const [name, setName] = useState('');
+  const [emailForm, setEmailForm] = useState({ email: '', password: '' });
+  const [passwordForm, setPasswordForm] = useState({ currentPassword: '', newPassword: '', confirmPassword: '' });
+  const [deleteForm, setDeleteForm] = useState({ password: '', confirmEmail: '', code: '' });
+
+  useEffect(() => {
+    setName(user?.name ?? '');
+  }, [user?.name]);
+
+  if (!user) return null;
+
+  const handleProfileSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setSaving('profile');
+    try {
+      await api.auth.updateProfile({ name: name.trim() || null });
+      await refreshUser();
+      toast.success('Profile updated');
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to update your profile');
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const handleEmailSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setSaving('email');
+    try {
+      await api.auth.changeEmail(emailForm);
+      await refreshUser();
+      toast.success(`We sent a confirmation link to ${emailForm.email}`);
+      setEmailForm({ email: '', password: '' });
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to change your email address');
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const handlePasswordSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (passwordForm.newPassword !== passwordForm.confirmPassword) {
+      toast.error('Passwords do not match');
+      return;
+    }
+    if (passwordForm.newPassword.length < 8) {
+      toast.error('Password must be at least 8 characters long');
+      return;
+    }
+
+    setSaving('password');
+    try {
+      await api.auth.changePassword({
+        currentPassword: passwordForm.currentPassword,
+        newPassword: passwordForm.newPassword,
+      });
+      toast.success('Password changed; your other devices were signed out');
+      setPasswordForm({ currentPassword: '', newPassword: '', confirmPassword: '' });
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to change your password');
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const handleDeleteSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    const confirmed = await confirm(
+      'Delete your account? All sessions, templates, goals and settings are removed for good.'
+    );
+    if (!confirmed) return;
+
+    setSaving('delete');
+    try {
+      await api.auth.deleteAccount({
+        password: deleteForm.password,
+        confirmEmail: deleteForm.confirmEmail,
+        code: twoFactor?.enabled ? deleteForm.code.trim() : undefined,
+      });
+      await logout();
+      toast.success('Your account was deleted');
+      navigate('/', { replace: true });
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to delete your account');
+      setSaving(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6 max-w-2xl">
+      <h1 className="text-3xl font-bold text-gray-900 dark:text-white">Account</h1>
+
+      <form onSubmit={handleProfileSubmit} className="glass-card p-6 space-y-4">
+        <h2 className="flex items-center gap-2 text-lg font-semibold text-gray-900 dark:text-white">
+          <UserRound className="w-5 h-5" />
+          Profile
+        </h2>
+        <div>
+          <label htmlFor="name" className={labelClass}>
+            Name
+          </label>
+          <input
+            id="name"
+            type="text"
+            autoComplete="name"
+            maxLength={100}
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            className={inputClass}
+            placeholder="Your name"
+          />
+        </div>
+        <Button type="submit" variant="primary" loading={saving === 'profile'} disabled={name === (user.name ?? '')}>
+          Save
+        </Button>
+      </form>
+
+      <form onSubmit={handleEmailSubmit} className="glass-card p-6 space-y-4">
+        <h2 className="flex items-center gap-2 text-lg font-semibold text-gray-900 dark:text-white">
+          <Mail className="w-5 h-5" />
+          Email address
+        </h2>
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          You sign in with <strong className="text-gray-900 dark:text-white">{user.email}</strong>
+          {user.emailVerified ? '.' : ', which is not confirmed yet.'}
+        </p>
+        {user.pendingEmail && (
+          <p className="p-3 rounded-lg text-sm bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 text-yellow-800 dark:text-yellow-300">
+            Waiting for you to follow the link sent to {user.pendingEmail}. Until then your address stays
+            unchanged.
+          </p>
+        )}
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="newEmail" className={labelClass}>
+              New email address
+            </label>
+            <input
+              id="newEmail"
+              type="email"
+              autoComplete="email"
+              required
+              value={emailForm.email}
+              onChange={(e) => setEmailForm({ ...emailForm, email: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label htmlFor="emailPassword" className={labelClass}>
+              Current password
+            </label>
+            <input
+              id="emailPassword"
+              type="password"
+              autoComplete="current-password"
+              required
+              value={emailForm.password}
+              onChange={(e) => setEmailForm({ ...emailForm, password: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+        </div>
+        <Button type="submit" variant="primary" loading={saving === 'email'}>
+          Send confirmation link
+        </Button>
+      </form>
+
+      <form onSubmit={handlePasswordSubmit} className="glass-card p-6 space-y-4">
+        <h2 className="flex items-center gap-2 text-lg font-semibold text-gray-900 dark:text-white">
+          <KeyRound className="w-5 h-5" />
+          Password
+        </h2>
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Changing your password signs out every other device.
+        </p>
+        <div>
+          <label htmlFor="currentPassword" className={labelClass}>
+            Current password
+          </label>
+          <input
+            id="currentPassword"
+            type="password"
+            autoComplete="current-password"
+            required
+            value={passwordForm.currentPassword}
+            onChange={(e) => setPasswordForm({ ...passwordForm, currentPassword: e.target.value })}
+            className={inputClass}
+          />
+        </div>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="newPassword" className={labelClass}>
+              New password
+            </label>
+            <input
+              id="newPassword"
+              type="password"
+              autoComplete="new-password"
+              required
+              value={passwordForm.newPassword}
+              onChange={(e) => setPasswordForm({ ...passwordForm, newPassword: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label htmlFor="confirmPassword" className={labelClass}>
+              Confirm new password
+            </label>
+            <input
+              id="confirmPassword"
+              type="password"
+              autoComplete="new-password"
+              required
+              value={passwordForm.confirmPassword}
+              onChange={(e) => setPasswordForm({ ...passwordForm, confirmPassword: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+        </div>
+        <Button type="submit" variant="primary" loading={saving === 'password'}>
+          Change password
+        </Button>
+      </form>
+
+      <form
+        onSubmit={handleDeleteSubmit}
+        className="glass-card p-6 space-y-4 border-2 border-red-200 dark:border-red-900"
+      >
+        <h2 className="flex items-center gap-2 text-lg font-semibold text-red-700 dark:text-red-400">
+          <Trash2 className="w-5 h-5" />
+          Delete account
+        </h2>
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Removes your account with all sessions, templates, goals and settings. This cannot be undone.
+        </p>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="confirmEmail" className={labelClass}>
+              Type {user.email} to confirm
+            </label>
+            <input
+              id="confirmEmail"
+              type="email"
+              autoComplete="off"
+              required
+              value={deleteForm.confirmEmail}
+              onChange={(e) => setDeleteForm({ ...deleteForm, confirmEmail: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label htmlFor="deletePassword" className={labelClass}>
+              Password
+            </label>
+            <input
+              id="deletePassword"
+              type="password"
+              autoComplete="current-password"
+              required
+              value={deleteForm.password}
+              onChange={(e) => setDeleteForm({ ...deleteForm, password: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+          {twoFactor?.enabled && (
+            <div>
+              <label htmlFor="deleteCode" className={labelClass}>
+                Authenticator or recovery code
+              </label>
+              <input
+                id="deleteCode"
+                type="text"
+                autoComplete="one-time-code"
+                required
+                maxLength={32}
+                value={deleteForm.code}
+                onChange={(e) => setDeleteForm({ ...deleteForm, code: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+          )}
+        </div>
+        <Button
+          type="submit"
+          variant="danger"
+          loading={saving === 'delete'}
+          disabled={deleteForm.confirmEmail.trim().toLowerCase() !== user.email.toLowerCase()}
+          icon={<Trash2 className="w-4 h-4" />}
+        >
+          Delete my account
+        </Button>
+      </form>
+    </div>
+  );
+}
@@ -4,21 +4,55 @@ import { WeekView } from '@/components/calendar/WeekView';
 import { DayView } from '@/components/calendar/DayView';
 import { SessionForm } from '@/components/sessions/SessionForm';
 import { BulkSessionForm } from '@/components/sessions/BulkSessionForm';
+import { CalendarFeedModal } from '@/components/calendar/CalendarFeedModal';
+import { PlannerForm } from '@/components/planner/PlannerForm';
+import { PlanPreviewPanel } from '@/components/planner/PlanPreviewPanel';
 import { KeyboardShortcutsHelp } from '@/components/common/KeyboardShortcutsHelp';
 import { SkeletonLoader } from '@/components/common/SkeletonLoader';
+import { Modal } from '@/components/common/Modal';
 import { useKeyboardShortcuts } from '@/hooks/useKeyboardShortcuts';
+import { useSessionConflicts } from '@/hooks/useSessionConflicts';
+import { usePlanner } from '@/hooks/usePlanner';
+import { useToast } from '@/contexts/ToastContext';
+import { getPreviewKey, toPreviewSession } from '@/utils/planUtils';
+import { getConflictWarning } from '@/utils/sessionUtils';
+import type { SessionReschedule } from '@/utils/calendarDragUtils';
 import { useState, useMemo } from 'react';
-import type { SessionResponse, BulkCreateSessionDto, BulkCreateResult, TemplateResponse } from '@repo/shared-types';
+import type {
+  SessionResponse,
+  BulkCreateSessionDto,
+  BulkCreateResult,
+  TemplateResponse,
+  PlanPreviewDto,
+  PlanProposalDto,
+  PlanRequestDto,
+} from '@repo/shared-types';
 
 export default function CalendarPage() {
   const { sessions, loading, createSession, bulkCreateSessions, updateSession } = useSessions();
+  const { previewPlan, applyPlan, isPreviewing, isApplying } = usePlanner();
+  const toast = useToast();
+  const { conflictIds } = useSessionConflicts();
   const [showSessionForm, setShowSessionForm] = useState(false);
   const [showBulkForm, setShowBulkForm] = useState(false);
   const [isHelpOpen, setIsHelpOpen] = useState(false);
+  const [isFeedOpen, setIsFeedOpen] = useState(false);
   const [bulkResult, setBulkResult] = useState<BulkCreateResult | null>(null);
   const [selectedSession, setSelectedSession] = useState<SessionResponse | null>(null);
   const [selectedDate, setSelectedDate] = useState<Date>(new Date());
   const [viewMode, setViewMode] = useState<'day' | 'week' | 'month'>('month');
+  const [isPlannerOpen, setIsPlannerOpen] = useState(false);
+  const [plan, setPlan] = useState<PlanPreviewDto | null>(null);
+  const [selectedKeys, setSelectedKeys] = useState<Set<string>>(new Set());
+
+  // Proposals are drawn next to the real sessions until accepted or discarded
+  const displaySessions = useMemo(
+    () =>
+      plan
+        ? [...sessions, ...plan.proposals.map((proposal) => toPreviewSession(proposal, selectedKeys.has(proposal.key)))]
+        : sessions,
+    [sessions, plan, selectedKeys]
+  );
 
   // Keyboard shortcuts
   const shortcuts = useMemo(() => [
@@ -35,6 +69,11 @@ export default function CalendarPage() {
       description: 'Bulk create sessions',
       action: () => setShowBulkForm(true),
     },
+    {
+      key: 'p',
+      description: 'Plan unscheduled sessions',
+      action: () => setIsPlannerOpen(true),
+    },
     {
       key: 'd',
       description: 'Switch to day view',
@@ -66,13 +105,32 @@ export default function CalendarPage() {
         setShowSessionForm(false);
         setShowBulkForm(false);
         setIsHelpOpen(false);
+        setIsPlannerOpen(false);
       },
     },
   ], []);
 
   useKeyboardShortcuts({ shortcuts });
 
+  const toggleProposal = (key: string) => {
+    setSelectedKeys((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
   const handleSessionClick = (session: SessionResponse) => {
+    // Clicking a proposed slot in the calendar toggles it instead of opening the form
+    const previewKey = getPreviewKey(session);
+    if (previewKey) {
+      toggleProposal(previewKey);
+      return;
+    }
     setSelectedSession(session);
     setShowSessionForm(true);
   };
@@ -93,10 +151,12 @@ export default function CalendarPage() {
 
   const handleSubmit = async (data: any) => {
     try {
-      if (selectedSession) {
-        await updateSession(selectedSession.id, data);
-      } else {
-        await createSession(data);
+      const saved = selectedSession
+        ? await updateSession(selectedSession.id, data)
+        : await createSession(data);
+      const warning = getConflictWarning(saved);
+      if (warning) {
+        toast.warning(warning);
       }
       setShowSessionForm(false);
       setSelectedSession(null);
@@ -106,6 +166,20 @@ export default function CalendarPage() {
     }
   };
 
+  // Moved or resized in a calendar view; the session moves right away and
+  // jumps back if the server rejects the change
+  const handleReschedule = async (session: SessionResponse, change: SessionReschedule) => {
+    try {
+      const updated = await updateSession(session.id, change);
+      const warning = getConflictWarning(updated);
+      if (warning) {
+        toast.warning(warning);
+      }
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to reschedule session');
+    }
+  };
+
   const handleBulkSubmit = async (dto: BulkCreateSessionDto) => {
     try {
       const result = await bulkCreateSessions(dto);
@@ -118,6 +192,33 @@ export default function CalendarPage() {
     }
   };
 
+  const handlePreviewPlan = async (dto: PlanRequestDto) => {
+    try {
+      const preview = await previewPlan(dto);
+      setPlan(preview);
+      setSelectedKeys(new Set(preview.proposals.map((proposal) => proposal.key)));
+      setIsPlannerOpen(false);
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to plan sessions');
+    }
+  };
+
+  const handleAcceptPlan = async (proposals: PlanProposalDto[]) => {
+    try {
+      const result = await applyPlan(proposals);
+      const count = result.scheduled.length;
+      toast.success(`Scheduled ${count} session${count !== 1 ? 's' : ''}`);
+      if (result.skipped.length > 0) {
+        toast.warning(
+          `${result.skipped.length} slot${result.skipped.length !== 1 ? 's were' : ' was'} skipped: ${result.skipped[0].reason}`
+        );
+      }
+      setPlan(null);
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to apply plan');
+    }
+  };
+
   const handleTemplateSaved = (template: TemplateResponse) => {
     console.log('Template saved:', template);
   };
@@ -165,6 +266,18 @@ export default function CalendarPage() {
               Month
             </button>
           </div>
+          <button
+            onClick={() => setIsPlannerOpen(true)}
+            className="w-full sm:w-auto px-6 py-3 bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-200 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-600 transition-colors shadow-sm min-h-[44px]"
+          >
+            Plan
+          </button>
+          <button
+            onClick={() => setIsFeedOpen(true)}
+            className="w-full sm:w-auto px-6 py-3 bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-200 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-600 transition-colors shadow-sm min-h-[44px]"
+          >
+            Subscribe
+          </button>
           <button
             onClick={() => setShowBulkForm(true)}
             className="w-full sm:w-auto px-6 py-3 bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-200 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-600 transition-colors shadow-sm min-h-[44px]"
@@ -213,34 +326,58 @@ export default function CalendarPage() {
         </div>
       )}
 
+      {plan && (
+        <PlanPreviewPanel
+          plan={plan}
+          selectedKeys={selectedKeys}
+          onToggle={toggleProposal}
+          onSelectAll={(selected) =>
+            setSelectedKeys(selected ? new Set(plan.proposals.map((proposal) => proposal.key)) : new Set())
+          }
+          onAccept={handleAcceptPlan}
+          onDiscard={() => setPlan(null)}
+          isApplying={isApplying}
+        />
+      )}
+
       {loading && !sessions.length ? (
         <SkeletonLoader variant="calendar" />
       ) : (
         <>
           {viewMode === 'day' && (
             <DayView
-              sessions={sessions}
+              sessions={displaySessions}
               onSessionClick={handleSessionClick}
               onTimeSlotClick={handleTimeSlotClick}
               selectedDate={selectedDate}
+              conflictIds={conflictIds}
+              onSessionReschedule={handleReschedule}
             />
           )}
           {viewMode === 'week' && (
             <WeekView
-              sessions={sessions}
+              sessions={displaySessions}
               onSessionClick={handleSessionClick}
               onTimeSlotClick={handleTimeSlotClick}
               selectedDate={selectedDate}
+              conflictIds={conflictIds}
+              onSessionReschedule={handleReschedule}
             />
           )}
           {viewMode === 'month' && (
             <CalendarView
-              sessions={sessions}
+              sessions={displaySessions}
               onSessionClick={handleSessionClick}
               onDateClick={handleDateClick}
               selectedDate={selectedDate}
+              conflictIds={conflictIds}
+              onSessionReschedule={handleReschedule}
             />
           )}
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Drag a planned session to move it{viewMode !== 'month' && ', or drag its bottom edge to change its length'}.
+            With a session focused, the arrow keys move it and Shift+↑/↓ shortens or lengthens it.
+          </p>
         </>
       )}
 
@@ -295,6 +432,7 @@ export default function CalendarPage() {
                   setShowBulkForm(false);
                   setBulkResult(null);
                 }}
+                onImportCommitted={() => setShowBulkForm(false)}
                 loading={loading}
                 initialDate={selectedDate}
               />
@@ -309,6 +447,16 @@ export default function CalendarPage() {
         isOpen={isHelpOpen}
         onClose={() => setIsHelpOpen(false)}
       />
+
+      <CalendarFeedModal isOpen={isFeedOpen} onClose={() => setIsFeedOpen(false)} />
+
+      <Modal isOpen={isPlannerOpen} onClose={() => setIsPlannerOpen(false)} title="Plan my time" size="md">
+        <PlannerForm
+          onSubmit={handlePreviewPlan}
+          onCancel={() => setIsPlannerOpen(false)}
+          isLoading={isPreviewing}
+        />
+      </Modal>
     </div>
   );
 }
@@ -0,0 +1,349 @@
+import { useMemo, useState } from 'react';
+import { FolderTree, Pencil, Plus, RotateCcw, Trash2 } from 'lucide-react';
+import type { CategoryColor, CategoryIcon, CategoryResponse } from '@repo/shared-types';
+import { CATEGORY_COLORS, CATEGORY_ICONS } from '@repo/shared-types';
+import { Button } from '@/components/common/Button';
+import { Modal } from '@/components/common/Modal';
+import { SkeletonLoader } from '@/components/common/SkeletonLoader';
+import { useCategories } from '@/hooks/useCategories';
+import { useToast } from '@/contexts/ToastContext';
+import { categoryIcons, getCategoryIconComponent } from '@/utils/iconUtils';
+import { categoryStyles, getCategoryStyle } from '@/utils/categoryStyles';
+
+interface CategoryFormValues {
+  name: string;
+  color: CategoryColor;
+  icon: CategoryIcon;
+  parentId: string;
+}
+
+const EMPTY_FORM: CategoryFormValues = { name: '', color: 'blue', icon: 'folder', parentId: '' };
+
+/**
+ * Ids of a category and everything nested below it
+ */
+function getSubtreeIds(rootId: string, categories: CategoryResponse[]): Set<string> {
+  const ids = new Set([rootId]);
+  let added = true;
+  while (added) {
+    added = false;
+    for (const category of categories) {
+      if (category.parentId && ids.has(category.parentId) && !ids.has(category.id)) {
+        ids.add(category.id);
+        added = true;
+      }
+    }
+  }
+  return ids;
+}
+
+/**
+ * Nesting level of a category (0 for top-level categories)
+ */
+function getDepth(category: CategoryResponse, byId: Map<string, CategoryResponse>): number {
+  let depth = 0;
+  let parent = category.parentId ? byId.get(category.parentId) : undefined;
+  while (parent && depth < 10) {
+    depth++;
+    parent = parent.parentId ? byId.get(parent.parentId) : undefined;
+  }
+  return depth;
+}
+
+export default function CategoriesPage() {
+  const toast = useToast();
+  const {
+    categories,
+    categoryOptions,
+    loading,
+    createCategory,
+    updateCategory,
+    deleteCategory,
+    restoreDefaults,
+    isSaving,
+    isDeleting,
+  } = useCategories();
+
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [values, setValues] = useState<CategoryFormValues>(EMPTY_FORM);
+  const [deleting, setDeleting] = useState<CategoryResponse | null>(null);
+  const [reassignTo, setReassignTo] = useState('');
+
+  const byId = useMemo(() => new Map(categories.map((c) => [c.id, c])), [categories]);
+
+  // A category can't be moved below itself or one of its subcategories
+  const parentOptions = useMemo(() => {
+    const excluded = editingId ? getSubtreeIds(editingId, categories) : new Set<string>();
+    return categoryOptions.filter((option) => !excluded.has(option.value));
+  }, [categoryOptions, categories, editingId]);
+
+  if (loading) {
+    return <SkeletonLoader variant="card" />;
+  }
+
+  const openCreate = () => {
+    setEditingId(null);
+    setValues(EMPTY_FORM);
+    setIsFormOpen(true);
+  };
+
+  const openEdit = (category: CategoryResponse) => {
+    setEditingId(category.id);
+    setValues({
+      name: category.name,
+      color: category.color,
+      icon: category.icon,
+      parentId: category.parentId ?? '',
+    });
+    setIsFormOpen(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const dto = {
+      name: values.name.trim(),
+      color: values.color,
+      icon: values.icon,
+      parentId: values.parentId || null,
+    };
+    try {
+      if (editingId) {
+        await updateCategory(editingId, dto);
+        toast.success('Category updated');
+      } else {
+        await createCategory(dto);
+        toast.success('Category created');
+      }
+      setIsFormOpen(false);
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to save category');
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+    try {
+      await deleteCategory(deleting.id, reassignTo || undefined);
+      toast.success(`Deleted "${deleting.name}"`);
+      setDeleting(null);
+      setReassignTo('');
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to delete category');
+    }
+  };
+
+  const handleRestoreDefaults = async () => {
+    try {
+      await restoreDefaults();
+      toast.success('Default categories restored');
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to restore default categories');
+    }
+  };
+
+  const PreviewIcon = getCategoryIconComponent(values);
+  const previewStyle = getCategoryStyle(values);
+
+  return (
+    <div className="space-y-6 max-w-3xl">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <h1 className="text-3xl font-bold text-gray-900 dark:text-white">Categories</h1>
+        <div className="flex gap-2">
+          <Button variant="ghost" onClick={handleRestoreDefaults} icon={<RotateCcw className="w-4 h-4" />}>
+            Restore defaults
+          </Button>
+          <Button variant="primary" onClick={openCreate} icon={<Plus className="w-4 h-4" />}>
+            New category
+          </Button>
+        </div>
+      </div>
+
+      <section className="glass-card p-6">
+        {categoryOptions.length === 0 ? (
+          <div className="flex flex-col items-center py-8 text-gray-500 dark:text-gray-400">
+            <FolderTree className="w-10 h-10 mb-3" />
+            <p>No categories yet. Create one or restore the defaults.</p>
+          </div>
+        ) : (
+          <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+            {categoryOptions.map(({ value, category }) => {
+              const Icon = getCategoryIconComponent(category);
+              const style = getCategoryStyle(category);
+              return (
+                <li
+                  key={value}
+                  className="flex items-center gap-3 py-3"
+                  style={{ paddingLeft: `${getDepth(category, byId) * 1.5}rem` }}
+                >
+                  <div className={`p-2 rounded-lg ${style.iconBg}`}>
+                    <Icon className={`w-4 h-4 ${style.iconColor}`} />
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <div className="font-medium text-gray-900 dark:text-white truncate">{category.name}</div>
+                    <div className="text-xs text-gray-500 dark:text-gray-400">
+                      {category.sessionCount} session{category.sessionCount !== 1 ? 's' : ''}
+                    </div>
+                  </div>
+                  <button
+                    onClick={() => openEdit(category)}
+                    className="p-2 text-gray-500 hover:text-primary-600 dark:text-gray-400 dark:hover:text-primary-400 rounded transition-colors"
+                    aria-label={`Edit ${category.name}`}
+                  >
+                    <Pencil className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => {
+                      setDeleting(category);
+                      setReassignTo('');
+                    }}
+                    className="p-2 text-gray-500 hover:text-red-600 dark:text-gray-400 dark:hover:text-red-400 rounded transition-colors"
+                    aria-label={`Delete ${category.name}`}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </section>
+
+      <Modal
+        isOpen={isFormOpen}
+        onClose={() => setIsFormOpen(false)}
+        title={editingId ? 'Edit category' : 'New category'}
+        size="md"
+      >
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="flex items-center gap-3">
+            <div className={`p-3 rounded-xl ${previewStyle.gradient}`}>
+              <PreviewIcon className="w-6 h-6 text-white" />
+            </div>
+            <input
+              type="text"
+              required
+              maxLength={50}
+              value={values.name}
+              onChange={(e) => setValues({ ...values, name: e.target.value })}
+              placeholder="e.g. Japanese N3"
+              aria-label="Name"
+              className="flex-1 px-3 py-2 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md text-gray-900 dark:text-white"
+            />
+          </div>
+
+          <div>
+            <span className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Color</span>
+            <div className="flex flex-wrap gap-2">
+              {CATEGORY_COLORS.map((color) => (
+                <button
+                  key={color}
+                  type="button"
+                  onClick={() => setValues({ ...values, color })}
+                  className={`w-8 h-8 rounded-full ${categoryStyles[color].swatch} ${
+                    values.color === color ? 'ring-2 ring-offset-2 ring-primary-500 dark:ring-offset-gray-800' : ''
+                  }`}
+                  aria-label={color}
+                  aria-pressed={values.color === color}
+                />
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <span className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Icon</span>
+            <div className="flex flex-wrap gap-2">
+              {CATEGORY_ICONS.map((icon) => {
+                const Icon = categoryIcons[icon];
+                return (
+                  <button
+                    key={icon}
+                    type="button"
+                    onClick={() => setValues({ ...values, icon })}
+                    className={`p-2 rounded-lg border transition-colors ${
+                      values.icon === icon
+                        ? 'border-primary-500 bg-primary-50 dark:bg-primary-900/20 text-primary-600 dark:text-primary-400'
+                        : 'border-gray-200 dark:border-gray-700 text-gray-600 dark:text-gray-400 hover:border-primary-500'
+                    }`}
+                    aria-label={icon}
+                    aria-pressed={values.icon === icon}
+                  >
+                    <Icon className="w-5 h-5" />
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+
+          <div>
+            <label htmlFor="parent" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Parent category
+            </label>
+            <select
+              id="parent"
+              value={values.parentId}
+              onChange={(e) => setValues({ ...values, parentId: e.target.value })}
+              className="w-full px-3 py-2 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md text-gray-900 dark:text-white"
+            >
+              <option value="">None (top level)</option>
+              {parentOptions.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="secondary" onClick={() => setIsFormOpen(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" variant="primary" loading={isSaving}>
+              {editingId ? 'Save' : 'Create'}
+            </Button>
+          </div>
+        </form>
+      </Modal>
+
+      <Modal isOpen={!!deleting} onClose={() => setDeleting(null)} title="Delete category" size="sm">
+        {deleting && (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-700 dark:text-gray-300">
+              Delete <strong>{deleting.name}</strong>? Its subcategories move up one level.
+            </p>
+            {deleting.sessionCount > 0 && (
+              <div>
+                <label htmlFor="reassign" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Move its {deleting.sessionCount} session{deleting.sessionCount !== 1 ? 's' : ''} to
+                </label>
+                <select
+                  id="reassign"
+                  value={reassignTo}
+                  onChange={(e) => setReassignTo(e.target.value)}
+                  className="w-full px-3 py-2 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md text-gray-900 dark:text-white"
+                >
+                  <option value="">Uncategorized</option>
+                  {categoryOptions
+                    .filter((option) => option.value !== deleting.id)
+                    .map((option) => (
+                      <option key={option.value} value={option.value}>
+                        {option.label}
+                      </option>
+                    ))}
+                </select>
+              </div>
+            )}
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="secondary" onClick={() => setDeleting(null)}>
+                Cancel
+              </Button>
+              <Button type="button" variant="danger" onClick={handleDelete} loading={isDeleting}>
+                Delete
+              </Button>
+            </div>
+          </div>
+        )}
+      </Modal>
+    </div>
+  );
+}
@@ -18,10 +18,14 @@ import { LevelProgress } from '@/components/gamification/LevelProgress';
 import { AchievementCard } from '@/components/gamification/AchievementCard';
 import { AchievementsModal } from '@/components/gamification/AchievementsModal';
 import { SuggestionCard } from '@/components/suggestions/SuggestionCard';
+import { GoalsWidget } from '@/components/goals/GoalsWidget';
+import { DueReviewsPanel } from '@/components/sessions/DueReviewsPanel';
 import { useKeyboardShortcuts } from '@/hooks/useKeyboardShortcuts';
 import { BookOpen, Trophy, Lightbulb } from 'lucide-react';
 import type { SessionResponse, SessionStatsDto, SessionSuggestionDto } from '@repo/shared-types';
+import { SessionStatus } from '@repo/shared-types';
 import { api } from '@/services/api';
+import { copyChecklist, getConflictWarning } from '@/utils/sessionUtils';
 
 export default function DashboardPage() {
   const {
@@ -105,7 +109,7 @@ export default function DashboardPage() {
             const duplicateDto = {
               title: lastInteractedSession.title,
               description: lastInteractedSession.description,
-              category: lastInteractedSession.category,
+              categoryId: lastInteractedSession.categoryId,
               priority: lastInteractedSession.priority,
               duration: lastInteractedSession.duration,
               tags: lastInteractedSession.tags,
@@ -145,7 +149,11 @@ export default function DashboardPage() {
 
   const handleCreateSession = async (data: any) => {
     try {
-      await createSession(data);
+      const created = await createSession(data);
+      const warning = getConflictWarning(created);
+      if (warning) {
+        toast.warning(warning);
+      }
       setShowSessionForm(false);
       setSelectedSession(null);
     } catch (error) {
@@ -156,7 +164,11 @@ export default function DashboardPage() {
   const handleUpdateSession = async (data: any) => {
     if (!selectedSession) return;
     try {
-      await updateSession(selectedSession.id, data);
+      const updated = await updateSession(selectedSession.id, data);
+      const warning = getConflictWarning(updated);
+      if (warning) {
+        toast.warning(warning);
+      }
       setShowSessionForm(false);
       setSelectedSession(null);
     } catch (error) {
@@ -188,11 +200,12 @@ export default function DashboardPage() {
       const duplicateDto = {
         title: session.title,
         description: session.description,
-        category: session.category,
+        categoryId: session.categoryId,
         priority: session.priority,
         duration: session.duration,
         tags: session.tags,
         notes: session.notes,
+        tasks: copyChecklist(session.tasks),
         status: 'planned' as const,
         // scheduledFor is intentionally omitted
       };
@@ -226,7 +239,7 @@ export default function DashboardPage() {
     try {
       await createSession({
         title: suggestion.suggestedTitle,
-        category: suggestion.suggestedCategory,
+        categoryId: suggestion.suggestedCategory?.id ?? null,
         duration: suggestion.suggestedDuration,
         tags: suggestion.suggestedTags,
         priority: 'medium',
@@ -235,7 +248,7 @@ export default function DashboardPage() {
       toast.success('Session created from suggestion!');
 
       // Generate a unique key for this suggestion to track dismissal
-      const suggestionKey = `${suggestion.suggestedTitle}-${suggestion.suggestedCategory}`;
+      const suggestionKey = `${suggestion.suggestedTitle}-${suggestion.suggestedCategory?.id ?? ''}`;
       setDismissedSuggestions((prev) => new Set(prev).add(suggestionKey));
 
       // Refresh suggestions after accepting
@@ -247,14 +260,14 @@ export default function DashboardPage() {
   };
 
   const handleDismissSuggestion = (suggestion: SessionSuggestionDto) => {
-    const suggestionKey = `${suggestion.suggestedTitle}-${suggestion.suggestedCategory}`;
+    const suggestionKey = `${suggestion.suggestedTitle}-${suggestion.suggestedCategory?.id ?? ''}`;
     setDismissedSuggestions((prev) => new Set(prev).add(suggestionKey));
   };
 
   // Filter out dismissed suggestions
   const visibleSuggestions = (suggestions || [])
     .filter((suggestion) => {
-      const suggestionKey = `${suggestion.suggestedTitle}-${suggestion.suggestedCategory}`;
+      const suggestionKey = `${suggestion.suggestedTitle}-${suggestion.suggestedCategory?.id ?? ''}`;
       return !dismissedSuggestions.has(suggestionKey);
     })
     .slice(0, 5);
@@ -338,6 +351,19 @@ export default function DashboardPage() {
         </div>
       )}
 
+      {/* Spaced Repetition Reviews */}
+      <DueReviewsPanel
+        onOpen={handleSessionClick}
+        onStart={(session) =>
+          handleQuickUpdate(session.id, { status: SessionStatus.IN_PROGRESS }).catch(() =>
+            toast.error('Failed to start review')
+          )
+        }
+      />
+
+      {/* Goals Section */}
+      <GoalsWidget />
+
       {/* Gamification Section */}
       {gamification && (
         <div className="space-y-6">
@@ -0,0 +1,129 @@
+import { Link, useNavigate } from 'react-router-dom';
+import { ArrowLeft, LogOut, Monitor, MonitorSmartphone, Smartphone, Tablet } from 'lucide-react';
+import type { LucideIcon } from 'lucide-react';
+import type { AuthSessionDto, DeviceType } from '@repo/shared-types';
+import { Button } from '@/components/common/Button';
+import { SkeletonLoader } from '@/components/common/SkeletonLoader';
+import { useAuthSessions } from '@/hooks/useAuthSessions';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast, useToastConfirm } from '@/contexts/ToastContext';
+import { formatDate, getRelativeTimeString } from '@/utils/dateUtils';
+
+const DEVICE_ICONS: Record<DeviceType, LucideIcon> = {
+  desktop: Monitor,
+  mobile: Smartphone,
+  tablet: Tablet,
+  unknown: MonitorSmartphone,
+};
+
+export default function DevicesPage() {
+  const toast = useToast();
+  const confirm = useToastConfirm();
+  const navigate = useNavigate();
+  const { logout } = useAuth();
+  const { sessions, loading, revokeSessions, revokingIds } = useAuthSessions();
+
+  const others = sessions.filter((session) => !session.current);
+
+  const handleRevoke = async (session: AuthSessionDto) => {
+    if (session.current) {
+      const confirmed = await confirm('Sign out of this device?');
+      if (!confirmed) return;
+    }
+
+    try {
+      await revokeSessions([session.familyId]);
+      if (session.current) {
+        await logout();
+        navigate('/login');
+        return;
+      }
+      toast.success(`Signed out of ${session.device}`);
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to sign the device out');
+    }
+  };
+
+  const handleRevokeOthers = async () => {
+    const confirmed = await confirm(
+      `Sign out of ${others.length} other device${others.length !== 1 ? 's' : ''}?`
+    );
+    if (!confirmed) return;
+
+    try {
+      await revokeSessions(others.map((session) => session.familyId));
+      toast.success('Signed out of every other device');
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to sign the other devices out');
+    }
+  };
+
+  if (loading) {
+    return <SkeletonLoader variant="card" />;
+  }
+
+  return (
+    <div className="space-y-6 max-w-2xl">
+      <div>
+        <Link
+          to="/security"
+          className="inline-flex items-center gap-1 text-sm text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white no-underline"
+        >
+          <ArrowLeft className="w-4 h-4" />
+          Security
+        </Link>
+        <h1 className="text-3xl font-bold text-gray-900 dark:text-white">Devices</h1>
+        <p className="mt-1 text-sm text-gray-600 dark:text-gray-400">
+          Browsers and apps signed in to your account. Signing a device out ends its session within
+          a few minutes.
+        </p>
+      </div>
+
+      <ul className="space-y-3">
+        {sessions.map((session) => {
+          const Icon = DEVICE_ICONS[session.deviceType];
+          return (
+            <li key={session.familyId} className="glass-card p-4 flex items-center gap-4">
+              <Icon className="w-8 h-8 flex-shrink-0 text-gray-500 dark:text-gray-400" />
+              <div className="flex-1 min-w-0">
+                <p className="flex items-center gap-2 font-medium text-gray-900 dark:text-white">
+                  <span className="truncate">{session.device}</span>
+                  {session.current && (
+                    <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300">
+                      This device
+                    </span>
+                  )}
+                </p>
+                <p className="text-sm text-gray-600 dark:text-gray-400">
+                  {session.ipAddress ?? 'Unknown IP'} · last active{' '}
+                  <time dateTime={session.lastUsedAt} title={formatDate(session.lastUsedAt)}>
+                    {getRelativeTimeString(session.lastUsedAt)}
+                  </time>
+                </p>
+                <p className="text-xs text-gray-500 dark:text-gray-500">
+                  Signed in {formatDate(session.signedInAt)}
+                </p>
+              </div>
+              <Button
+                type="button"
+                variant={session.current ? 'secondary' : 'danger'}
+                size="sm"
+                onClick={() => handleRevoke(session)}
+                loading={revokingIds.includes(session.familyId)}
+                icon={<LogOut className="w-4 h-4" />}
+              >
+                Sign out
+              </Button>
+            </li>
+          );
+        })}
+      </ul>
+
+      {others.length > 0 && (
+        <Button type="button" variant="secondary" onClick={handleRevokeOthers} disabled={revokingIds.length > 0}>
+          Sign out of all other devices
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -52,21 +52,21 @@ export default function LandingPage() {
       description: 'Create a new learning session',
       Icon: actionIcons.newSession,
       link: '/sessions',
-      category: 'school' as const,
+      color: 'blue' as const,
     },
     {
       title: 'View Calendar',
       description: 'See your schedule',
       Icon: actionIcons.calendar,
       link: '/dashboard',
-      category: 'other' as const,
+      color: 'gray' as const,
     },
     {
       title: 'All Sessions',
       description: 'Manage all sessions',
       Icon: actionIcons.sessions,
       link: '/sessions',
-      category: 'programming' as const,
+      color: 'purple' as const,
     },
   ];
 
@@ -219,7 +219,7 @@ export default function LandingPage() {
           </h2>
           <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
             {quickActions.map((action, index) => {
-              const categoryStyle = getCategoryStyle(action.category);
+              const categoryStyle = getCategoryStyle(action);
               return (
                 <Link
                   key={index}
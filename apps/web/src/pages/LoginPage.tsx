@@ -1,12 +1,15 @@
 import { useState, FormEvent } from 'react';
 import { Link, useNavigate, useLocation } from 'react-router-dom';
+import type { TwoFactorChallengeDto } from '@repo/shared-types';
 import { useAuth } from '@/contexts/AuthContext';
 
 export default function LoginPage() {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [error, setError] = useState('');
-  const { login, loading } = useAuth();
+  const [challenge, setChallenge] = useState<TwoFactorChallengeDto | null>(null);
+  const [code, setCode] = useState('');
+  const { login, completeTwoFactorLogin, loading } = useAuth();
   const navigate = useNavigate();
   const location = useLocation();
 
@@ -17,13 +20,99 @@ export default function LoginPage() {
     setError('');
 
     try {
-      await login({ email, password });
+      const twoFactorChallenge = await login({ email, password });
+      if (twoFactorChallenge) {
+        setChallenge(twoFactorChallenge);
+        setCode('');
+        return;
+      }
       navigate(from, { replace: true });
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to login');
     }
   };
 
+  const handleCodeSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!challenge) return;
+    setError('');
+
+    try {
+      await completeTwoFactorLogin({ challengeToken: challenge.challengeToken, code: code.trim() });
+      navigate(from, { replace: true });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to verify the code');
+    }
+  };
+
+  const handleStartOver = () => {
+    setChallenge(null);
+    setCode('');
+    setPassword('');
+    setError('');
+  };
+
+  if (challenge) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50 dark:bg-gray-900 py-12 px-4 sm:px-6 lg:px-8">
+        <div className="max-w-md w-full space-y-8">
+          <div>
+            <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900 dark:text-white">
+              Two-factor authentication
+            </h2>
+            <p className="mt-2 text-center text-sm text-gray-600 dark:text-gray-400">
+              Enter the 6-digit code from your authenticator app, or one of your recovery codes.
+            </p>
+          </div>
+
+          <form className="mt-8 space-y-6" onSubmit={handleCodeSubmit}>
+            {error && (
+              <div className="rounded-md bg-red-50 dark:bg-red-900/20 p-4">
+                <div className="text-sm text-red-800 dark:text-red-200">{error}</div>
+              </div>
+            )}
+
+            <div>
+              <label htmlFor="code" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Authentication code
+              </label>
+              <input
+                id="code"
+                name="code"
+                type="text"
+                autoComplete="one-time-code"
+                autoFocus
+                required
+                maxLength={32}
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                className="appearance-none relative block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 placeholder-gray-500 dark:placeholder-gray-400 text-gray-900 dark:text-white rounded-lg focus:outline-none focus:ring-primary-500 focus:border-primary-500 dark:bg-gray-800 sm:text-sm tracking-widest"
+                placeholder="123456"
+              />
+            </div>
+
+            <div className="space-y-3">
+              <button
+                type="submit"
+                disabled={loading || !code.trim()}
+                className="group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-lg text-white bg-primary-600 hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500 disabled:opacity-50 disabled:cursor-not-allowed min-h-[44px]"
+              >
+                {loading ? 'Verifying...' : 'Verify'}
+              </button>
+              <button
+                type="button"
+                onClick={handleStartOver}
+                className="w-full text-center text-sm font-medium text-primary-600 hover:text-primary-500 dark:text-primary-400"
+              >
+                Start over
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-gray-50 dark:bg-gray-900 py-12 px-4 sm:px-6 lg:px-8">
       <div className="max-w-md w-full space-y-8">
@@ -82,6 +171,14 @@ export default function LoginPage() {
                 className="appearance-none relative block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 placeholder-gray-500 dark:placeholder-gray-400 text-gray-900 dark:text-white rounded-lg focus:outline-none focus:ring-primary-500 focus:border-primary-500 dark:bg-gray-800 sm:text-sm"
                 placeholder="Password"
               />
+              <div className="mt-2 text-right">
+                <Link
+                  to="/forgot-password"
+                  className="text-sm font-medium text-primary-600 hover:text-primary-500 dark:text-primary-400"
+                >
+                  Forgot your password?
+                </Link>
+              </div>
             </div>
           </div>
 
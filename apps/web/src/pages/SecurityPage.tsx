@@ -0,0 +1,30 @@
+import { Link } from 'react-router-dom';
+import { ChevronRight, MonitorSmartphone } from 'lucide-react';
+import { TwoFactorSettings } from '@/components/security/TwoFactorSettings';
+import { LoginActivity } from '@/components/security/LoginActivity';
+
+export default function SecurityPage() {
+  return (
+    <div className="space-y-6 max-w-2xl">
+      <h1 className="text-3xl font-bold text-gray-900 dark:text-white">Security</h1>
+
+      <TwoFactorSettings />
+
+      <Link
+        to="/devices"
+        className="glass-card p-6 flex items-center gap-4 no-underline hover:bg-gray-50 dark:hover:bg-gray-700/50 transition-colors"
+      >
+        <MonitorSmartphone className="w-5 h-5 text-gray-900 dark:text-white" />
+        <span className="flex-1">
+          <span className="block text-lg font-semibold text-gray-900 dark:text-white">Devices</span>
+          <span className="block text-sm text-gray-600 dark:text-gray-400">
+            See where you are signed in and sign devices out
+          </span>
+        </span>
+        <ChevronRight className="w-5 h-5 text-gray-400" />
+      </Link>
+
+      <LoginActivity />
+    </div>
+  );
+}
@@ -1,7 +1,9 @@
 import React, { useState, useMemo, useEffect } from 'react'
 import { Plus, Upload, Search as SearchIcon, ArrowUp, X, CheckSquare } from 'lucide-react'
-import type { SessionResponse, SessionStatus, SessionPriority, SessionCategory, CreateSessionDto, UpdateSessionDto, BulkCreateSessionDto, BulkCreateResult, TemplateResponse } from '@repo/shared-types'
+import type { SessionResponse, SessionStatus, SessionPriority, CreateSessionDto, UpdateSessionDto, BulkCreateSessionDto, BulkCreateResult, TemplateResponse, SeriesResponse, UpdateSeriesOccurrenceDto, ExportFormat } from '@repo/shared-types'
 import { useSessions } from '@/hooks/useSessions'
+import { useSeries } from '@/hooks/useSeries'
+import { useCategories } from '@/hooks/useCategories'
 import { useBulkSelection } from '@/hooks/useBulkSelection'
 import { useRecentSessions } from '@/hooks/useRecentSessions'
 import { useKeyboardShortcuts } from '@/hooks/useKeyboardShortcuts'
@@ -16,7 +18,7 @@ import { KeyboardShortcutsHelp } from '@/components/common/KeyboardShortcutsHelp
 import { EmptyState } from '@/components/common/EmptyState'
 import { FilterChip } from '@/components/common/FilterChip'
 import { useToast, useToastConfirm } from '@/contexts/ToastContext'
-import { filterSessions, sortSessions, groupSessionsByDate } from '@/utils/sessionUtils'
+import { filterSessions, sortSessions, groupSessionsByDate, copyChecklist, getConflictWarning } from '@/utils/sessionUtils'
 import { downloadBlob } from '@/utils/exportUtils'
 import { api } from '@/services/api'
 import { BookOpen } from 'lucide-react'
@@ -58,6 +60,8 @@ const SessionsPage: React.FC = () => {
   const confirm = useToastConfirm()
   const { sessions: rawSessions, loading, error, createSession, bulkCreateSessions, updateSession, deleteSession, refetch, updateFilters, filters } = useSessions()
   const { addRecentSession } = useRecentSessions()
+  const { updateOccurrence } = useSeries()
+  const { categoryOptions } = useCategories()
   const { registerShortcut, unregisterShortcut } = useGlobalShortcuts()
 
   // Normalize sessions at the boundary - filter out any invalid entries
@@ -67,7 +71,6 @@ const SessionsPage: React.FC = () => {
       s != null &&
       typeof s === 'object' &&
       !!s.id &&
-      !!s.category &&
       !!s.status
     )
   }, [rawSessions])
@@ -78,6 +81,7 @@ const SessionsPage: React.FC = () => {
   const [isHelpOpen, setIsHelpOpen] = useState(false)
   const [bulkResult, setBulkResult] = useState<BulkCreateResult | null>(null)
   const [selectedSession, setSelectedSession] = useState<SessionResponse | undefined>()
+  const [seriesEdit, setSeriesEdit] = useState<{ series: SeriesResponse; occurrence: SessionResponse } | null>(null)
   const [lastInteractedSession, setLastInteractedSession] = useState<SessionResponse | null>(null)
   const [searchTerm, setSearchTerm] = useState('')
   const [sortBy, setSortBy] = useState<SortOption>('date')
@@ -159,7 +163,7 @@ const SessionsPage: React.FC = () => {
             const duplicateDto = {
               title: lastInteractedSession.title,
               description: lastInteractedSession.description,
-              category: lastInteractedSession.category,
+              categoryId: lastInteractedSession.categoryId,
               priority: lastInteractedSession.priority,
               duration: lastInteractedSession.duration,
               tags: lastInteractedSession.tags,
@@ -223,9 +227,9 @@ const SessionsPage: React.FC = () => {
     const groups: Record<string, SessionResponse[]> = {}
     processedSessions.forEach(session => {
       // Extra safety check - skip if session is undefined or missing required fields
-      if (!session || !session.status || !session.category) return
+      if (!session || !session.status) return
 
-      const key = groupBy === 'status' ? session.status : session.category
+      const key = groupBy === 'status' ? session.status : session.category?.name ?? 'Uncategorized'
       if (!groups[key]) groups[key] = []
       groups[key].push(session)
     })
@@ -233,12 +237,16 @@ const SessionsPage: React.FC = () => {
   }, [processedSessions, groupBy])
 
   const handleCreateSession = async (data: CreateSessionDto) => {
-    await createSession(data)
+    const created = await createSession(data)
+    const warning = getConflictWarning(created)
+    if (warning) toast.warning(warning)
     setIsFormOpen(false)
   }
 
   const handleUpdateSession = async (id: string, data: UpdateSessionDto) => {
-    await updateSession(id, data)
+    const updated = await updateSession(id, data)
+    const warning = getConflictWarning(updated)
+    if (warning) toast.warning(warning)
     setIsFormOpen(false)
     setSelectedSession(undefined)
   }
@@ -271,11 +279,12 @@ const SessionsPage: React.FC = () => {
       const duplicateDto = {
         title: session.title,
         description: session.description,
-        category: session.category,
+        categoryId: session.categoryId,
         priority: session.priority,
         duration: session.duration,
         tags: session.tags,
         notes: session.notes,
+        tasks: copyChecklist(session.tasks),
         status: 'planned' as const,
       }
       await createSession(duplicateDto)
@@ -304,6 +313,10 @@ const SessionsPage: React.FC = () => {
         updates: { status },
       })
       toast.success(`${response.data?.successful.length || 0} sessions updated`)
+      const rejected = response.data?.failed.filter((failure) => failure.code) || []
+      if (rejected.length > 0) {
+        toast.error(`${rejected.length} session${rejected.length !== 1 ? 's' : ''} not updated: ${rejected[0].error}`)
+      }
       clearSelection()
       refetch()
     } catch (error) {
@@ -311,11 +324,11 @@ const SessionsPage: React.FC = () => {
     }
   }
 
-  const handleBulkUpdateCategory = async (category: SessionCategory) => {
+  const handleBulkUpdateCategory = async (categoryId: string | null) => {
     try {
       const response = await api.sessions.bulkUpdate({
         sessionIds: selectedIds,
-        updates: { category },
+        updates: { categoryId },
       })
       toast.success(`${response.data?.successful.length || 0} sessions updated`)
       clearSelection()
@@ -353,7 +366,7 @@ const SessionsPage: React.FC = () => {
     }
   }
 
-  const handleExport = async (format: 'csv' | 'json') => {
+  const handleExport = async (format: ExportFormat) => {
     try {
       const blob = await api.sessions.exportSessions(format, filters)
       const filename = `sessions-export-${new Date().toISOString().split('T')[0]}.${format}`
@@ -380,6 +393,29 @@ const SessionsPage: React.FC = () => {
     }
   }
 
+  const handleEditSeries = async (session: SessionResponse) => {
+    if (!session.seriesId) return
+    try {
+      const response = await api.series.getById(session.seriesId)
+      if (response.data) {
+        setSeriesEdit({ series: response.data, occurrence: session })
+      }
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to load series')
+    }
+  }
+
+  const handleSeriesSubmit = async (dto: UpdateSeriesOccurrenceDto) => {
+    if (!seriesEdit) return
+    try {
+      const result = await updateOccurrence(seriesEdit.occurrence.id, dto)
+      toast.success(`Series updated (${result.sessions.length} planned sessions)`)
+      setSeriesEdit(null)
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to update series')
+    }
+  }
+
   const handleTemplateSaved = (template: TemplateResponse) => {
     console.log('Template saved:', template)
   }
@@ -532,44 +568,20 @@ const SessionsPage: React.FC = () => {
               <FilterChip
                 label="All"
                 value="all"
-                isActive={!filters?.category}
-                onToggle={() => updateFilters({ category: undefined })}
-              />
-              <FilterChip
-                label="School"
-                value="school"
-                variant="category"
-                isActive={filters?.category === 'school'}
-                onToggle={() => updateFilters({ category: filters?.category === 'school' ? undefined : 'school' as SessionCategory })}
-              />
-              <FilterChip
-                label="Programming"
-                value="programming"
-                variant="category"
-                isActive={filters?.category === 'programming'}
-                onToggle={() => updateFilters({ category: filters?.category === 'programming' ? undefined : 'programming' as SessionCategory })}
-              />
-              <FilterChip
-                label="Language"
-                value="language"
-                variant="category"
-                isActive={filters?.category === 'language'}
-                onToggle={() => updateFilters({ category: filters?.category === 'language' ? undefined : 'language' as SessionCategory })}
-              />
-              <FilterChip
-                label="Personal"
-                value="personal"
-                variant="category"
-                isActive={filters?.category === 'personal'}
-                onToggle={() => updateFilters({ category: filters?.category === 'personal' ? undefined : 'personal' as SessionCategory })}
-              />
-              <FilterChip
-                label="Other"
-                value="other"
-                variant="category"
-                isActive={filters?.category === 'other'}
-                onToggle={() => updateFilters({ category: filters?.category === 'other' ? undefined : 'other' as SessionCategory })}
+                isActive={!filters?.categoryId}
+                onToggle={() => updateFilters({ categoryId: undefined })}
               />
+              {categoryOptions.map(({ value, label, category }) => (
+                <FilterChip
+                  key={value}
+                  label={label}
+                  value={value}
+                  variant="category"
+                  color={category.color}
+                  isActive={filters?.categoryId === value}
+                  onToggle={() => updateFilters({ categoryId: filters?.categoryId === value ? undefined : value })}
+                />
+              ))}
             </div>
           </div>
 
@@ -779,19 +791,19 @@ const SessionsPage: React.FC = () => {
           </div>
 
           {/* Active Filters Summary & Clear All */}
-          {(filters?.category || (filters?.status && filters.status.length > 0) || (filters?.priority && filters.priority.length > 0)) && (
+          {(filters?.categoryId || (filters?.status && filters.status.length > 0) || (filters?.priority && filters.priority.length > 0)) && (
             <div className="mt-4 pt-4 border-t border-gray-200 dark:border-gray-700 flex items-center justify-between">
               <span className="text-sm text-gray-600 dark:text-gray-400">
                 {(() => {
                   let count = 0
-                  if (filters?.category) count++
+                  if (filters?.categoryId) count++
                   if (filters?.status && filters.status.length > 0) count++
                   if (filters?.priority && filters.priority.length > 0) count++
                   return `${count} filter${count !== 1 ? 's' : ''} active`
                 })()}
               </span>
               <button
-                onClick={() => updateFilters({ category: undefined, status: undefined, priority: undefined })}
+                onClick={() => updateFilters({ categoryId: undefined, status: undefined, priority: undefined })}
                 className="flex items-center gap-1 text-sm text-primary-600 dark:text-primary-400 hover:text-primary-700 dark:hover:text-primary-300 transition-colors"
               >
                 <X className="w-4 h-4" />
@@ -811,13 +823,13 @@ const SessionsPage: React.FC = () => {
             icon={BookOpen}
             title="No sessions found"
             description={
-              searchTerm || filters?.category || filters?.status || filters?.priority
+              searchTerm || filters?.categoryId || filters?.status || filters?.priority
                 ? 'Try adjusting your filters or search term'
                 : 'Get started by creating your first learning session'
             }
             illustration="sessions"
             action={
-              !searchTerm && !filters?.category && !filters?.status && !filters?.priority
+              !searchTerm && !filters?.categoryId && !filters?.status && !filters?.priority
                 ? {
                     label: 'Create First Session',
                     onClick: () => setIsFormOpen(true),
@@ -843,7 +855,7 @@ const SessionsPage: React.FC = () => {
                   )}
                   <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
                     {groupSessions
-                      .filter((s): s is SessionResponse => s != null && !!s.category && !!s.status)
+                      .filter((s): s is SessionResponse => s != null && !!s.status)
                       .map((session, index) => (
                         <div
                           key={session.id}
@@ -856,6 +868,7 @@ const SessionsPage: React.FC = () => {
                             onDelete={handleDeleteSession}
                             onDuplicate={handleDuplicateSession}
                             onQuickUpdate={handleQuickUpdate}
+                            onEditSeries={handleEditSeries}
                             selectionMode={selectionMode}
                             isSelected={isSelected(session.id)}
                             onToggleSelection={toggleSelection}
@@ -923,6 +936,7 @@ const SessionsPage: React.FC = () => {
               <BulkSessionForm
                 onSubmit={handleBulkCreate}
                 onCancel={() => setIsBulkFormOpen(false)}
+                onImportCommitted={() => setIsBulkFormOpen(false)}
                 loading={loading}
               />
             </div>
@@ -930,6 +944,36 @@ const SessionsPage: React.FC = () => {
         </div>
       )}
 
+      {/* Series Edit Modal */}
+      {seriesEdit && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50 animate-fade-in">
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl max-w-4xl w-full max-h-[90vh] overflow-y-auto animate-slide-up">
+            <div className="p-6">
+              <div className="flex items-center justify-between mb-6">
+                <h2 className="text-2xl font-bold text-gray-900 dark:text-white">
+                  Edit Recurring Series
+                </h2>
+                <button
+                  onClick={() => setSeriesEdit(null)}
+                  className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 transition-all hover:scale-110"
+                >
+                  <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                  </svg>
+                </button>
+              </div>
+              <BulkSessionForm
+                series={seriesEdit.series}
+                occurrence={seriesEdit.occurrence}
+                onSeriesSubmit={handleSeriesSubmit}
+                onSubmit={handleBulkCreate}
+                onCancel={() => setSeriesEdit(null)}
+              />
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Search Modal */}
       <SessionSearchModal
         isOpen={isSearchModalOpen}
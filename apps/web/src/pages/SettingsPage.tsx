@@ -0,0 +1,247 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Globe, CalendarClock, Brain, CalendarX, Save } from 'lucide-react';
+import type { UserSettingsDto } from '@repo/shared-types';
+import { Button } from '@/components/common/Button';
+import { SkeletonLoader } from '@/components/common/SkeletonLoader';
+import { AvailabilitySettings } from '@/components/availability/AvailabilitySettings';
+import { useSettings } from '@/hooks/useSettings';
+import { useToast } from '@/contexts/ToastContext';
+
+/**
+ * Time zones the browser knows, falling back to the browser's own zone
+ */
+function getTimeZoneOptions(current: string): string[] {
+  const browserZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  const supported: string[] = (Intl as any).supportedValuesOf?.('timeZone') ?? [];
+  return Array.from(new Set(['UTC', browserZone, current, ...supported])).filter(Boolean);
+}
+
+/**
+ * Weekday names (0 = Sunday) in the given locale
+ */
+function getWeekdayNames(locale: string): string[] {
+  let formatter: Intl.DateTimeFormat;
+  try {
+    formatter = new Intl.DateTimeFormat(locale, { weekday: 'long', timeZone: 'UTC' });
+  } catch {
+    formatter = new Intl.DateTimeFormat('en-US', { weekday: 'long', timeZone: 'UTC' });
+  }
+  // 2023-01-01 was a Sunday
+  return Array.from({ length: 7 }, (_, day) => formatter.format(new Date(Date.UTC(2023, 0, 1 + day))));
+}
+
+export default function SettingsPage() {
+  const toast = useToast();
+  const { settings, loading, updateSettings, checkMissedSessions, isSaving, isChecking } = useSettings();
+  const [values, setValues] = useState<UserSettingsDto | null>(null);
+
+  useEffect(() => {
+    if (settings) setValues(settings);
+  }, [settings]);
+
+  const timeZones = useMemo(() => getTimeZoneOptions(values?.timezone ?? 'UTC'), [values?.timezone]);
+  const browserZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  const browserLocale = navigator.language;
+  const weekdayNames = useMemo(() => getWeekdayNames(values?.locale ?? 'en-US'), [values?.locale]);
+
+  if (loading || !values) {
+    return <SkeletonLoader variant="card" />;
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      await updateSettings(values);
+      toast.success('Settings saved');
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to save settings');
+    }
+  };
+
+  const handleCheckNow = async () => {
+    try {
+      const result = await checkMissedSessions();
+      toast.success(
+        `${result.markedMissed} session${result.markedMissed !== 1 ? 's' : ''} marked missed, ${result.rescheduled} rescheduled`
+      );
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to check for missed sessions');
+    }
+  };
+
+  return (
+    <div className="space-y-6 max-w-2xl">
+      <h1 className="text-3xl font-bold text-gray-900 dark:text-white">Settings</h1>
+
+      <form onSubmit={handleSubmit} className="space-y-6">
+        <section className="glass-card p-6 space-y-4">
+          <h2 className="flex items-center gap-2 text-lg font-semibold text-gray-900 dark:text-white">
+            <Globe className="w-5 h-5" />
+            Region
+          </h2>
+          <div>
+            <label htmlFor="timezone" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Time zone
+            </label>
+            <div className="flex gap-2">
+              <select
+                id="timezone"
+                value={values.timezone}
+                onChange={(e) => setValues({ ...values, timezone: e.target.value })}
+                className="flex-1 px-3 py-2 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md text-gray-900 dark:text-white"
+              >
+                {timeZones.map((zone) => (
+                  <option key={zone} value={zone}>
+                    {zone}
+                  </option>
+                ))}
+              </select>
+              {browserZone && browserZone !== values.timezone && (
+                <Button type="button" variant="secondary" onClick={() => setValues({ ...values, timezone: browserZone })}>
+                  Use {browserZone}
+                </Button>
+              )}
+            </div>
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="weekStartDay" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Week starts on
+              </label>
+              <select
+                id="weekStartDay"
+                value={values.weekStartDay}
+                onChange={(e) => setValues({ ...values, weekStartDay: parseInt(e.target.value, 10) })}
+                className="w-full px-3 py-2 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md text-gray-900 dark:text-white"
+              >
+                {weekdayNames.map((name, day) => (
+                  <option key={day} value={day}>
+                    {name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="locale" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Locale
+              </label>
+              <div className="flex gap-2">
+                <input
+                  id="locale"
+                  type="text"
+                  required
+                  value={values.locale}
+                  onChange={(e) => setValues({ ...values, locale: e.target.value })}
+                  placeholder="en-US"
+                  className="flex-1 min-w-0 px-3 py-2 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md text-gray-900 dark:text-white"
+                />
+                {browserLocale && browserLocale !== values.locale && (
+                  <Button type="button" variant="secondary" onClick={() => setValues({ ...values, locale: browserLocale })}>
+                    Use {browserLocale}
+                  </Button>
+                )}
+              </div>
+            </div>
+          </div>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Statistics, streaks and recurring sessions use these settings to decide which day a session falls on.
+          </p>
+        </section>
+
+        <section className="glass-card p-6 space-y-4">
+          <h2 className="flex items-center gap-2 text-lg font-semibold text-gray-900 dark:text-white">
+            <CalendarClock className="w-5 h-5" />
+            Missed sessions
+          </h2>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Planned sessions that were never started are checked automatically every few minutes.
+          </p>
+          <div>
+            <label htmlFor="grace" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Grace period after a session ends (minutes)
+            </label>
+            <input
+              id="grace"
+              type="number"
+              min={0}
+              max={10080}
+              required
+              value={values.missedGraceMinutes}
+              onChange={(e) => setValues({ ...values, missedGraceMinutes: parseInt(e.target.value, 10) || 0 })}
+              className="w-40 px-3 py-2 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md text-gray-900 dark:text-white"
+            />
+          </div>
+          <label className="flex items-start gap-3 text-sm text-gray-700 dark:text-gray-300">
+            <input
+              type="checkbox"
+              checked={values.autoRescheduleMissed}
+              onChange={(e) => setValues({ ...values, autoRescheduleMissed: e.target.checked })}
+              className="mt-1"
+            />
+            <span>
+              Move missed sessions to my next free slot instead of marking them missed
+              <span className="block text-xs text-gray-500 dark:text-gray-400">
+                Slots are searched within your availability over the next two weeks.
+              </span>
+            </span>
+          </label>
+          <Button type="button" variant="ghost" size="sm" onClick={handleCheckNow} loading={isChecking}>
+            Check now
+          </Button>
+        </section>
+
+        <section className="glass-card p-6 space-y-4">
+          <h2 className="flex items-center gap-2 text-lg font-semibold text-gray-900 dark:text-white">
+            <CalendarX className="w-5 h-5" />
+            Overlapping sessions
+          </h2>
+          <label className="flex items-start gap-3 text-sm text-gray-700 dark:text-gray-300">
+            <input
+              type="checkbox"
+              checked={values.strictScheduling}
+              onChange={(e) => setValues({ ...values, strictScheduling: e.target.checked })}
+              className="mt-1"
+            />
+            <span>
+              Reject sessions that overlap another planned session
+              <span className="block text-xs text-gray-500 dark:text-gray-400">
+                When off, overlaps are saved with a warning and highlighted in the calendar. Recurring series are
+                not checked.
+              </span>
+            </span>
+          </label>
+        </section>
+
+        <section className="glass-card p-6 space-y-4">
+          <h2 className="flex items-center gap-2 text-lg font-semibold text-gray-900 dark:text-white">
+            <Brain className="w-5 h-5" />
+            Reviews
+          </h2>
+          <label className="flex items-start gap-3 text-sm text-gray-700 dark:text-gray-300">
+            <input
+              type="checkbox"
+              checked={values.scheduleReviews}
+              onChange={(e) => setValues({ ...values, scheduleReviews: e.target.checked })}
+              className="mt-1"
+            />
+            <span>
+              Plan review sessions when I rate a completed session
+              <span className="block text-xs text-gray-500 dark:text-gray-400">
+                Good recall pushes the next review further out (1, 6, then about 2.5× the last gap in days);
+                a rating below 3 brings it back to tomorrow.
+              </span>
+            </span>
+          </label>
+        </section>
+
+        <div className="flex justify-end">
+          <Button type="submit" variant="primary" loading={isSaving} icon={<Save className="w-4 h-4" />}>
+            Save settings
+          </Button>
+        </div>
+      </form>
+
+      <AvailabilitySettings weekdayNames={weekdayNames} weekStartDay={values.weekStartDay} />
+    </div>
+  );
+}
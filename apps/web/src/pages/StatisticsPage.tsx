@@ -3,11 +3,14 @@ import { api } from '@/services/api';
 import type { DetailedStatsDto } from '@repo/shared-types';
 import { StatsCard } from '@/components/dashboard/StatsCard';
 import CategoryChart from '@/components/statistics/CategoryChart';
+import TagChart from '@/components/statistics/TagChart';
+import GoalBurnupChart from '@/components/statistics/GoalBurnupChart';
 import TrendChart from '@/components/statistics/TrendChart';
 import TimeDistributionChart from '@/components/statistics/TimeDistributionChart';
 import ProductivityMetrics from '@/components/statistics/ProductivityMetrics';
 import { InsightsPanel } from '@/components/statistics/InsightsPanel';
 import { useSessions } from '@/hooks/useSessions';
+import { useGoals } from '@/hooks/useGoals';
 import { useToast } from '@/contexts/ToastContext';
 import { Download } from 'lucide-react';
 import { downloadBlob } from '@/utils/exportUtils';
@@ -19,6 +22,7 @@ export default function StatisticsPage() {
 
   // Use sessions hook to detect when sessions change
   const { sessions } = useSessions();
+  const { goals } = useGoals();
   const toast = useToast();
 
   // Initialize date range to last 30 days
@@ -277,6 +281,18 @@ export default function StatisticsPage() {
         <TimeDistributionChart data={stats?.timeDistribution || null} />
       </div>
 
+      {/* Tag Breakdown */}
+      <TagChart data={stats?.byTag || []} />
+
+      {/* Goal Burn-up - current period of each goal, independent of the date range */}
+      {goals.length > 0 && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {goals.map((goal) => (
+            <GoalBurnupChart key={goal.id} goal={goal} />
+          ))}
+        </div>
+      )}
+
       {/* Trends Chart - Full Width */}
       {stats?.trends && stats.trends.length > 0 && (
         <TrendChart data={stats.trends} />
@@ -0,0 +1,263 @@
+import { useState } from 'react';
+import { Combine, Pencil, Tags, Trash2 } from 'lucide-react';
+import type { CategoryColor, TagResponse } from '@repo/shared-types';
+import { CATEGORY_COLORS } from '@repo/shared-types';
+import { Button } from '@/components/common/Button';
+import { Modal } from '@/components/common/Modal';
+import { SkeletonLoader } from '@/components/common/SkeletonLoader';
+import { useTags } from '@/hooks/useTags';
+import { useToast } from '@/contexts/ToastContext';
+import { categoryStyles } from '@/utils/categoryStyles';
+
+function formatUsage(tag: TagResponse): string {
+  const parts = [`${tag.sessionCount} session${tag.sessionCount !== 1 ? 's' : ''}`];
+  if (tag.templateCount > 0) {
+    parts.push(`${tag.templateCount} template${tag.templateCount !== 1 ? 's' : ''}`);
+  }
+  return parts.join(', ');
+}
+
+export default function TagsPage() {
+  const toast = useToast();
+  const { tags, loading, updateTag, mergeTags, deleteTag, isSaving, isDeleting } = useTags();
+
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [editing, setEditing] = useState<TagResponse | null>(null);
+  const [editName, setEditName] = useState('');
+  const [editColor, setEditColor] = useState<CategoryColor>('gray');
+  const [isMergeOpen, setIsMergeOpen] = useState(false);
+  const [mergeTarget, setMergeTarget] = useState('');
+  const [deleting, setDeleting] = useState<TagResponse | null>(null);
+
+  if (loading) {
+    return <SkeletonLoader variant="card" />;
+  }
+
+  const toggleSelected = (name: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(name)) {
+        next.delete(name);
+      } else {
+        next.add(name);
+      }
+      return next;
+    });
+  };
+
+  const openEdit = (tag: TagResponse) => {
+    setEditing(tag);
+    setEditName(tag.name);
+    setEditColor(tag.color);
+  };
+
+  const openMerge = () => {
+    // Default to the most used of the selected tags
+    setMergeTarget(tags.find((tag) => selected.has(tag.name))?.name ?? '');
+    setIsMergeOpen(true);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editing) return;
+    const name = editName.trim();
+    try {
+      await updateTag(editing.name, {
+        ...(name !== editing.name && { name }),
+        ...(editColor !== editing.color && { color: editColor }),
+      });
+      toast.success('Tag updated');
+      setEditing(null);
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to update tag');
+    }
+  };
+
+  const handleMerge = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const target = mergeTarget.trim();
+    try {
+      await mergeTags({ sources: [...selected], target });
+      toast.success(`Merged ${selected.size} tags into "${target}"`);
+      setSelected(new Set());
+      setIsMergeOpen(false);
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to merge tags');
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+    try {
+      await deleteTag(deleting.name);
+      toast.success(`Deleted "${deleting.name}"`);
+      setSelected((prev) => {
+        const next = new Set(prev);
+        next.delete(deleting.name);
+        return next;
+      });
+      setDeleting(null);
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to delete tag');
+    }
+  };
+
+  return (
+    <div className="space-y-6 max-w-3xl">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <h1 className="text-3xl font-bold text-gray-900 dark:text-white">Tags</h1>
+        <Button
+          variant="primary"
+          onClick={openMerge}
+          disabled={selected.size < 2}
+          icon={<Combine className="w-4 h-4" />}
+        >
+          Merge selected{selected.size > 0 ? ` (${selected.size})` : ''}
+        </Button>
+      </div>
+
+      <section className="glass-card p-6">
+        {tags.length === 0 ? (
+          <div className="flex flex-col items-center py-8 text-gray-500 dark:text-gray-400">
+            <Tags className="w-10 h-10 mb-3" />
+            <p>No tags yet. Add tags to a session and they show up here.</p>
+          </div>
+        ) : (
+          <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+            {tags.map((tag) => (
+              <li key={tag.name} className="flex items-center gap-3 py-3">
+                <input
+                  type="checkbox"
+                  checked={selected.has(tag.name)}
+                  onChange={() => toggleSelected(tag.name)}
+                  aria-label={`Select ${tag.name}`}
+                />
+                <span className={`px-2 py-0.5 rounded-full text-sm truncate ${categoryStyles[tag.color].badge}`}>
+                  {tag.name}
+                </span>
+                <span className="flex-1 text-xs text-gray-500 dark:text-gray-400">{formatUsage(tag)}</span>
+                <button
+                  onClick={() => openEdit(tag)}
+                  className="p-2 text-gray-500 hover:text-primary-600 dark:text-gray-400 dark:hover:text-primary-400 rounded transition-colors"
+                  aria-label={`Edit ${tag.name}`}
+                >
+                  <Pencil className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => setDeleting(tag)}
+                  className="p-2 text-gray-500 hover:text-red-600 dark:text-gray-400 dark:hover:text-red-400 rounded transition-colors"
+                  aria-label={`Delete ${tag.name}`}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+
+      <Modal isOpen={!!editing} onClose={() => setEditing(null)} title="Edit tag" size="md">
+        <form onSubmit={handleSave} className="space-y-4">
+          <div>
+            <label htmlFor="tagName" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Name
+            </label>
+            <input
+              id="tagName"
+              type="text"
+              required
+              maxLength={50}
+              value={editName}
+              onChange={(e) => setEditName(e.target.value)}
+              className="w-full px-3 py-2 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md text-gray-900 dark:text-white"
+            />
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+              Renaming updates every session and template that uses this tag.
+            </p>
+          </div>
+
+          <div>
+            <span className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Color</span>
+            <div className="flex flex-wrap gap-2">
+              {CATEGORY_COLORS.map((color) => (
+                <button
+                  key={color}
+                  type="button"
+                  onClick={() => setEditColor(color)}
+                  className={`w-8 h-8 rounded-full ${categoryStyles[color].swatch} ${
+                    editColor === color ? 'ring-2 ring-offset-2 ring-primary-500 dark:ring-offset-gray-800' : ''
+                  }`}
+                  aria-label={color}
+                  aria-pressed={editColor === color}
+                />
+              ))}
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="secondary" onClick={() => setEditing(null)}>
+              Cancel
+            </Button>
+            <Button type="submit" variant="primary" loading={isSaving}>
+              Save
+            </Button>
+          </div>
+        </form>
+      </Modal>
+
+      <Modal isOpen={isMergeOpen} onClose={() => setIsMergeOpen(false)} title="Merge tags" size="sm">
+        <form onSubmit={handleMerge} className="space-y-4">
+          <p className="text-sm text-gray-700 dark:text-gray-300">
+            Replace {[...selected].map((name) => `"${name}"`).join(', ')} with a single tag.
+          </p>
+          <div>
+            <label htmlFor="mergeTarget" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Keep as
+            </label>
+            <input
+              id="mergeTarget"
+              type="text"
+              required
+              maxLength={50}
+              list="mergeTargetOptions"
+              value={mergeTarget}
+              onChange={(e) => setMergeTarget(e.target.value)}
+              className="w-full px-3 py-2 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md text-gray-900 dark:text-white"
+            />
+            <datalist id="mergeTargetOptions">
+              {[...selected].map((name) => (
+                <option key={name} value={name} />
+              ))}
+            </datalist>
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="secondary" onClick={() => setIsMergeOpen(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" variant="primary" loading={isSaving}>
+              Merge
+            </Button>
+          </div>
+        </form>
+      </Modal>
+
+      <Modal isOpen={!!deleting} onClose={() => setDeleting(null)} title="Delete tag" size="sm">
+        {deleting && (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-700 dark:text-gray-300">
+              Remove <strong>{deleting.name}</strong> from {formatUsage(deleting)}? The sessions themselves are kept.
+            </p>
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="secondary" onClick={() => setDeleting(null)}>
+                Cancel
+              </Button>
+              <Button type="button" variant="danger" onClick={handleDelete} loading={isDeleting}>
+                Delete
+              </Button>
+            </div>
+          </div>
+        )}
+      </Modal>
+    </div>
+  );
+}
@@ -0,0 +1,86 @@
+import { useEffect, useRef, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { CheckCircle, Loader2, XCircle } from 'lucide-react';
+import { api } from '@/services/api';
+import { useAuth } from '@/contexts/AuthContext';
+
+type VerifyState = 'verifying' | 'verified' | 'failed';
+
+export default function VerifyEmailPage() {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token') ?? '';
+  const { isAuthenticated, refreshUser } = useAuth();
+  const [state, setState] = useState<VerifyState>(token ? 'verifying' : 'failed');
+  const [error, setError] = useState(token ? '' : 'This link is incomplete.');
+  const [email, setEmail] = useState('');
+  // Tokens are single-use, so the request must not run twice (e.g. in StrictMode)
+  const requested = useRef(false);
+
+  useEffect(() => {
+    if (!token || requested.current) return;
+    requested.current = true;
+
+    api.auth
+      .verifyEmail({ token })
+      .then((response) => {
+        setEmail(response.data?.user.email ?? '');
+        setState('verified');
+      })
+      .catch((err) => {
+        setError(err instanceof Error ? err.message : 'Failed to verify your email address');
+        setState('failed');
+      });
+  }, [token]);
+
+  // Drop the "please verify" banner once the signed-in user is verified
+  useEffect(() => {
+    if (state === 'verified' && isAuthenticated) {
+      refreshUser().catch(() => undefined);
+    }
+  }, [state, isAuthenticated, refreshUser]);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 dark:bg-gray-900 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-6 text-center">
+        {state === 'verifying' && (
+          <>
+            <Loader2 className="w-12 h-12 mx-auto text-primary-600 animate-spin" />
+            <h2 className="text-2xl font-bold text-gray-900 dark:text-white">Confirming your email address…</h2>
+          </>
+        )}
+
+        {state === 'verified' && (
+          <>
+            <CheckCircle className="w-12 h-12 mx-auto text-green-600" />
+            <h2 className="text-2xl font-bold text-gray-900 dark:text-white">Email address confirmed</h2>
+            {email && (
+              <p className="text-sm text-gray-600 dark:text-gray-400">You sign in with {email}.</p>
+            )}
+            <Link
+              to={isAuthenticated ? '/dashboard' : '/login'}
+              className="inline-block font-medium text-primary-600 hover:text-primary-500 dark:text-primary-400"
+            >
+              {isAuthenticated ? 'Go to your dashboard' : 'Sign in'}
+            </Link>
+          </>
+        )}
+
+        {state === 'failed' && (
+          <>
+            <XCircle className="w-12 h-12 mx-auto text-red-600" />
+            <h2 className="text-2xl font-bold text-gray-900 dark:text-white">We could not confirm your email</h2>
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              {error} Sign in and use the reminder at the top of the page to get a new link.
+            </p>
+            <Link
+              to={isAuthenticated ? '/dashboard' : '/login'}
+              className="inline-block font-medium text-primary-600 hover:text-primary-500 dark:text-primary-400"
+            >
+              {isAuthenticated ? 'Go to your dashboard' : 'Sign in'}
+            </Link>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -2,10 +2,19 @@ import { createBrowserRouter, type RouteObject } from 'react-router-dom'
 import LandingPage from '@pages/LandingPage'
 import LoginPage from '@pages/LoginPage'
 import RegisterPage from '@pages/RegisterPage'
+import ForgotPasswordPage from '@pages/ForgotPasswordPage'
+import ResetPasswordPage from '@pages/ResetPasswordPage'
+import VerifyEmailPage from '@pages/VerifyEmailPage'
 import DashboardPage from '@pages/DashboardPage'
 import CalendarPage from '@pages/CalendarPage'
 import SessionsPage from '@pages/SessionsPage'
 import StatisticsPage from '@pages/StatisticsPage'
+import SettingsPage from '@pages/SettingsPage'
+import SecurityPage from '@pages/SecurityPage'
+import DevicesPage from '@pages/DevicesPage'
+import AccountPage from '@pages/AccountPage'
+import CategoriesPage from '@pages/CategoriesPage'
+import TagsPage from '@pages/TagsPage'
 import RootLayout from '@components/layouts/RootLayout'
 import { ProtectedRoute } from '@components/auth/ProtectedRoute'
 
@@ -26,6 +35,18 @@ const routes: RouteObject[] = [
         path: 'register',
         element: <RegisterPage />
       },
+      {
+        path: 'forgot-password',
+        element: <ForgotPasswordPage />
+      },
+      {
+        path: 'reset-password',
+        element: <ResetPasswordPage />
+      },
+      {
+        path: 'verify-email',
+        element: <VerifyEmailPage />
+      },
       {
         path: 'dashboard',
         element: (
@@ -57,6 +78,54 @@ const routes: RouteObject[] = [
             <StatisticsPage />
           </ProtectedRoute>
         )
+      },
+      {
+        path: 'categories',
+        element: (
+          <ProtectedRoute>
+            <CategoriesPage />
+          </ProtectedRoute>
+        )
+      },
+      {
+        path: 'tags',
+        element: (
+          <ProtectedRoute>
+            <TagsPage />
+          </ProtectedRoute>
+        )
+      },
+      {
+        path: 'settings',
+        element: (
+          <ProtectedRoute>
+            <SettingsPage />
+          </ProtectedRoute>
+        )
+      },
+      {
+        path: 'security',
+        element: (
+          <ProtectedRoute>
+            <SecurityPage />
+          </ProtectedRoute>
+        )
+      },
+      {
+        path: 'devices',
+        element: (
+          <ProtectedRoute>
+            <DevicesPage />
+          </ProtectedRoute>
+        )
+      },
+      {
+        path: 'account',
+        element: (
+          <ProtectedRoute>
+            <AccountPage />
+          </ProtectedRoute>
+        )
       }
     ]
   }
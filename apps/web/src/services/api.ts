@@ -10,8 +10,26 @@ import type {
   LoginDto,
   RegisterDto,
   AuthResponse,
+  LoginResponse,
+  TwoFactorLoginDto,
+  TwoFactorStatusDto,
+  TwoFactorSetupDto,
+  TwoFactorCodeDto,
+  DisableTwoFactorDto,
+  RecoveryCodesDto,
+  AuthSessionDto,
+  UpdateProfileDto,
+  ChangePasswordDto,
+  ChangeEmailDto,
+  DeleteAccountDto,
+  LoginEventDto,
+  LoginEventsQuery,
   RefreshResponse,
   CsrfTokenResponse,
+  AuthUserDto,
+  ForgotPasswordDto,
+  ResetPasswordDto,
+  VerifyEmailDto,
   CreateSessionDto,
   UpdateSessionDto,
   SessionResponse,
@@ -21,6 +39,7 @@ import type {
   CalendarSessionDto,
   DetailedStatsDto,
   CategoryStatsDto,
+  TagStatsDto,
   TrendDataPoint,
   BulkCreateSessionDto,
   BulkCreateResult,
@@ -35,6 +54,69 @@ import type {
   TemplatesListResponse,
   TemplateFilters,
   FileImportResultDto,
+  CreateProgressDto,
+  UpdateProgressDto,
+  ProgressResponse,
+  ProgressListResponse,
+  ProgressFilters,
+  CreateSessionTaskDto,
+  UpdateSessionTaskDto,
+  SessionTaskResponse,
+  CreateSeriesDto,
+  UpdateSeriesDto,
+  UpdateSeriesOccurrenceDto,
+  SeriesEditMode,
+  SeriesResponse,
+  SeriesOperationResult,
+  CalendarFeedStatusDto,
+  CalendarFeedTokenDto,
+  CommitImportDto,
+  ImportCommitResultDto,
+  ImportHistoryItemDto,
+  ImportRollbackResultDto,
+  ActiveTimerDto,
+  StopTimerDto,
+  StopTimerResultDto,
+  TimerSegmentDto,
+  StartTimerDto,
+  AdvancePomodoroDto,
+  PomodoroSettingsDto,
+  UpdatePomodoroSettingsDto,
+  UserSettingsDto,
+  UpdateUserSettingsDto,
+  MissedSessionsResultDto,
+  FavoritesDto,
+  AddFavoriteDto,
+  FavoriteItemType,
+  SessionDraftDto,
+  SessionDraftData,
+  ImportLocalDataDto,
+  ImportLocalDataResultDto,
+  SessionSearchQuery,
+  DueReviewDto,
+  DueReviewsQuery,
+  SessionConflictDto,
+  SessionConflictsQuery,
+  AvailabilityDto,
+  AvailabilityWindowDto,
+  AvailabilityWindowInput,
+  AvailabilityBlackoutDto,
+  CreateAvailabilityBlackoutDto,
+  PlanRequestDto,
+  PlanPreviewDto,
+  ApplyPlanDto,
+  ApplyPlanResultDto,
+  SessionSearchResponse,
+  CategoryResponse,
+  CreateCategoryDto,
+  UpdateCategoryDto,
+  TagResponse,
+  UpdateTagDto,
+  MergeTagsDto,
+  CreateGoalDto,
+  UpdateGoalDto,
+  GoalResponse,
+  GoalBurnupDto,
 } from '@repo/shared-types'
 
 const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:4000/api'
@@ -334,10 +416,21 @@ export const api = {
   // Authentication endpoints
   auth: {
     /**
-     * User login
+     * User login; accounts with two-factor authentication get a challenge instead of tokens
      */
-    async login(dto: LoginDto): Promise<ApiResponse<AuthResponse>> {
-      const response = await apiClient.post<ApiResponse<AuthResponse>>('/auth/login', dto)
+    async login(dto: LoginDto): Promise<ApiResponse<LoginResponse>> {
+      const response = await apiClient.post<ApiResponse<LoginResponse>>('/auth/login', dto)
+      if (response.data && 'accessToken' in response.data) {
+        setAccessToken(response.data.accessToken)
+      }
+      return response
+    },
+
+    /**
+     * Second login step with the challenge token and an authenticator or recovery code
+     */
+    async loginTwoFactor(dto: TwoFactorLoginDto): Promise<ApiResponse<AuthResponse>> {
+      const response = await apiClient.post<ApiResponse<AuthResponse>>('/auth/login/2fa', dto)
       if (response.data?.accessToken) {
         setAccessToken(response.data.accessToken)
       }
@@ -369,8 +462,135 @@ export const api = {
     /**
      * Get current user profile
      */
-    getProfile(): Promise<ApiResponse<{ user: AuthResponse['user'] }>> {
-      return apiClient.get<ApiResponse<{ user: AuthResponse['user'] }>>('/auth/me')
+    getProfile(): Promise<ApiResponse<{ user: AuthUserDto }>> {
+      return apiClient.get<ApiResponse<{ user: AuthUserDto }>>('/auth/me')
+    },
+
+    /**
+     * Update the name of the signed-in user
+     */
+    updateProfile(dto: UpdateProfileDto): Promise<ApiResponse<{ user: AuthUserDto }>> {
+      return apiClient.patch<ApiResponse<{ user: AuthUserDto }>>('/auth/me', dto)
+    },
+
+    /**
+     * Change the password; every other device is signed out
+     */
+    changePassword(dto: ChangePasswordDto): Promise<ApiResponse<void>> {
+      return apiClient.post<ApiResponse<void>>('/auth/change-password', dto)
+    },
+
+    /**
+     * Send a confirmation link to a new email address; the change applies once it is followed
+     */
+    changeEmail(dto: ChangeEmailDto): Promise<ApiResponse<{ user: AuthUserDto }>> {
+      return apiClient.post<ApiResponse<{ user: AuthUserDto }>>('/auth/change-email', dto)
+    },
+
+    /**
+     * Permanently delete the account and everything in it
+     */
+    async deleteAccount(dto: DeleteAccountDto): Promise<ApiResponse<void>> {
+      const response = await apiClient.post<ApiResponse<void>>('/auth/delete-account', dto)
+      setAccessToken(null)
+      return response
+    },
+
+    /**
+     * Email a password reset link; answers the same whether or not the account exists
+     */
+    forgotPassword(dto: ForgotPasswordDto): Promise<ApiResponse<void>> {
+      return apiClient.post<ApiResponse<void>>('/auth/forgot-password', dto)
+    },
+
+    /**
+     * Set a new password with the token from a reset link; signs out every device
+     */
+    resetPassword(dto: ResetPasswordDto): Promise<ApiResponse<void>> {
+      return apiClient.post<ApiResponse<void>>('/auth/reset-password', dto)
+    },
+
+    /**
+     * Confirm the email address with the token from a verification link
+     */
+    verifyEmail(dto: VerifyEmailDto): Promise<ApiResponse<{ user: AuthUserDto }>> {
+      return apiClient.post<ApiResponse<{ user: AuthUserDto }>>('/auth/verify-email', dto)
+    },
+
+    /**
+     * Send a new verification link to the signed-in user
+     */
+    resendVerification(): Promise<ApiResponse<void>> {
+      return apiClient.post<ApiResponse<void>>('/auth/resend-verification')
+    },
+
+    /**
+     * Whether two-factor authentication is on, and how many recovery codes are left
+     */
+    getTwoFactorStatus(): Promise<ApiResponse<TwoFactorStatusDto>> {
+      return apiClient.get<ApiResponse<TwoFactorStatusDto>>('/auth/2fa')
+    },
+
+    /**
+     * Start enrolling an authenticator app; replaces any unconfirmed secret
+     */
+    setupTwoFactor(): Promise<ApiResponse<TwoFactorSetupDto>> {
+      return apiClient.post<ApiResponse<TwoFactorSetupDto>>('/auth/2fa/setup')
+    },
+
+    /**
+     * Confirm a code from the new secret; returns the recovery codes, shown only this once
+     */
+    enableTwoFactor(dto: TwoFactorCodeDto): Promise<ApiResponse<RecoveryCodesDto>> {
+      return apiClient.post<ApiResponse<RecoveryCodesDto>>('/auth/2fa/enable', dto)
+    },
+
+    /**
+     * Turn two-factor authentication off
+     */
+    disableTwoFactor(dto: DisableTwoFactorDto): Promise<ApiResponse<void>> {
+      return apiClient.post<ApiResponse<void>>('/auth/2fa/disable', dto)
+    },
+
+    /**
+     * Replace every recovery code with a new set
+     */
+    regenerateRecoveryCodes(dto: TwoFactorCodeDto): Promise<ApiResponse<RecoveryCodesDto>> {
+      return apiClient.post<ApiResponse<RecoveryCodesDto>>('/auth/2fa/recovery-codes', dto)
+    },
+
+    /**
+     * Signed-in devices, with the current one marked
+     */
+    getSessions(): Promise<ApiResponse<AuthSessionDto[]>> {
+      return apiClient.get<ApiResponse<AuthSessionDto[]>>('/auth/sessions')
+    },
+
+    /**
+     * Sign one device out
+     */
+    revokeSession(familyId: string): Promise<ApiResponse<void>> {
+      return apiClient.delete<ApiResponse<void>>(`/auth/sessions/${familyId}`)
+    },
+
+    /**
+     * Recent sign-in attempts on the account, newest first
+     */
+    getLoginEvents(filters: LoginEventsQuery = {}): Promise<ApiResponse<LoginEventDto[]>> {
+      const params = new URLSearchParams()
+      if (filters.limit !== undefined) params.append('limit', filters.limit.toString())
+
+      const query = params.toString() ? `?${params.toString()}` : ''
+      return apiClient.get<ApiResponse<LoginEventDto[]>>(`/auth/login-events${query}`)
+    },
+
+    /**
+     * Report a sign-in as not your own; signs out every device, this one included
+     */
+    async reportLoginEvent(id: string): Promise<ApiResponse<LoginEventDto>> {
+      const response = await apiClient.post<ApiResponse<LoginEventDto>>(`/auth/login-events/${id}/report`)
+      setAccessToken(null)
+      return response
     },
 
     /**
@@ -406,7 +626,7 @@ export const api = {
      */
     getAll(filters?: SessionFilters): Promise<ApiResponse<SessionsListResponse>> {
       const params = new URLSearchParams()
-      if (filters?.category) params.append('category', filters.category)
+      if (filters?.categoryId) params.append('categoryId', filters.categoryId)
       if (filters?.status) {
         const statuses = Array.isArray(filters.status) ? filters.status : [filters.status]
         statuses.forEach(s => params.append('status', s))
@@ -483,8 +703,8 @@ export const api = {
       params.append('startDate', dto.startDate)
       params.append('endDate', dto.endDate)
       if (dto.view) params.append('view', dto.view)
-      if (dto.categories) {
-        dto.categories.forEach(cat => params.append('categories', cat))
+      if (dto.categoryIds) {
+        dto.categoryIds.forEach(id => params.append('categoryIds', id))
       }
       if (dto.statuses) {
         dto.statuses.forEach(status => params.append('statuses', status))
@@ -518,6 +738,18 @@ export const api = {
       return apiClient.get<ApiResponse<CategoryStatsDto[]>>(`/sessions/stats/category${query}`)
     },
 
+    /**
+     * Get time spent per tag
+     */
+    getTagStats(startDate?: string, endDate?: string): Promise<ApiResponse<TagStatsDto[]>> {
+      const params = new URLSearchParams()
+      if (startDate) params.append('startDate', startDate)
+      if (endDate) params.append('endDate', endDate)
+
+      const query = params.toString() ? `?${params.toString()}` : ''
+      return apiClient.get<ApiResponse<TagStatsDto[]>>(`/sessions/stats/tags${query}`)
+    },
+
     /**
      * Get trend data
      */
@@ -531,22 +763,45 @@ export const api = {
     },
 
     /**
-     * Search sessions by query string
+     * Ranked full-text search; `q` may contain operators like tag:exam or before:2026-11-01
      */
-    search(query: string): Promise<ApiResponse<SessionResponse[]>> {
+    search(query: SessionSearchQuery): Promise<ApiResponse<SessionSearchResponse>> {
       const params = new URLSearchParams()
-      params.append('q', query)
+      params.append('q', query.q)
+      if (query.cursor) params.append('cursor', query.cursor)
+      if (query.limit) params.append('limit', query.limit.toString())
 
-      return apiClient.get<ApiResponse<SessionResponse[]>>(`/sessions/search?${params.toString()}`)
+      return apiClient.get<ApiResponse<SessionSearchResponse>>(`/sessions/search?${params.toString()}`)
     },
 
     /**
-     * Import sessions from file (CSV, JSON, XML)
+     * Import sessions from file (CSV, JSON, XML, ICS)
      */
     importFile(file: File, onProgress?: (progress: number) => void): Promise<ApiResponse<FileImportResultDto>> {
       return uploadFile<ApiResponse<FileImportResultDto>>('/sessions/import', file, onProgress)
     },
 
+    /**
+     * Apply selected rows of an uploaded import preview
+     */
+    commitImport(importId: string, dto: CommitImportDto): Promise<ApiResponse<ImportCommitResultDto>> {
+      return apiClient.post<ApiResponse<ImportCommitResultDto>>(`/sessions/imports/${importId}/commit`, dto)
+    },
+
+    /**
+     * Get committed imports, newest first
+     */
+    getImportHistory(): Promise<ApiResponse<ImportHistoryItemDto[]>> {
+      return apiClient.get<ApiResponse<ImportHistoryItemDto[]>>('/sessions/imports')
+    },
+
+    /**
+     * Undo a committed import
+     */
+    rollbackImport(importId: string): Promise<ApiResponse<ImportRollbackResultDto>> {
+      return apiClient.post<ApiResponse<ImportRollbackResultDto>>(`/sessions/imports/${importId}/rollback`)
+    },
+
     /**
      * Download sample file
      */
@@ -602,7 +857,7 @@ export const api = {
     async exportSessions(format: ExportFormat, filters?: SessionFilters): Promise<Blob> {
       const params = new URLSearchParams()
       params.append('format', format)
-      if (filters?.category) params.append('category', filters.category)
+      if (filters?.categoryId) params.append('categoryId', filters.categoryId)
       if (filters?.status) {
         const statuses = Array.isArray(filters.status) ? filters.status : [filters.status]
         statuses.forEach(s => params.append('status', s))
@@ -646,6 +901,29 @@ export const api = {
       return await response.blob()
     },
 
+    /**
+     * Get review sessions due today or overdue, plus those due within the next `withinDays` days
+     */
+    getDueReviews(filters: DueReviewsQuery = {}): Promise<ApiResponse<DueReviewDto[]>> {
+      const params = new URLSearchParams()
+      if (filters.withinDays !== undefined) params.append('withinDays', filters.withinDays.toString())
+
+      const query = params.toString() ? `?${params.toString()}` : ''
+      return apiClient.get<ApiResponse<DueReviewDto[]>>(`/sessions/reviews/due${query}`)
+    },
+
+    /**
+     * Get pairs of planned or running sessions that overlap, by default over the next 90 days
+     */
+    getConflicts(filters: SessionConflictsQuery = {}): Promise<ApiResponse<SessionConflictDto[]>> {
+      const params = new URLSearchParams()
+      if (filters.from) params.append('from', filters.from)
+      if (filters.to) params.append('to', filters.to)
+
+      const query = params.toString() ? `?${params.toString()}` : ''
+      return apiClient.get<ApiResponse<SessionConflictDto[]>>(`/sessions/conflicts${query}`)
+    },
+
     /**
      * Get session suggestions based on user patterns
      */
@@ -691,7 +969,7 @@ export const api = {
      */
     getAll(filters?: TemplateFilters): Promise<ApiResponse<TemplatesListResponse>> {
       const params = new URLSearchParams()
-      if (filters?.category) params.append('category', filters.category)
+      if (filters?.categoryId) params.append('categoryId', filters.categoryId)
       if (filters?.search) params.append('search', filters.search)
       if (filters?.tags) {
         filters.tags.forEach(tag => params.append('tags', tag))
@@ -739,6 +1017,512 @@ export const api = {
       return apiClient.get<ApiResponse<TemplateResponse[]>>(`/templates/search?${params.toString()}`)
     },
   },
+
+  // Progress endpoints
+  progress: {
+    /**
+     * Get all progress entries across sessions with optional filters
+     */
+    getAll(filters?: ProgressFilters): Promise<ApiResponse<ProgressListResponse>> {
+      const params = new URLSearchParams()
+      if (filters?.sessionId) params.append('sessionId', filters.sessionId)
+      if (filters?.recordedFrom) params.append('recordedFrom', filters.recordedFrom)
+      if (filters?.recordedTo) params.append('recordedTo', filters.recordedTo)
+      if (filters?.minRating !== undefined) params.append('minRating', String(filters.minRating))
+
+      const query = params.toString() ? `?${params.toString()}` : ''
+      return apiClient.get<ApiResponse<ProgressListResponse>>(`/progress${query}`)
+    },
+
+    /**
+     * Get the progress timeline of a session
+     */
+    getBySession(sessionId: string): Promise<ApiResponse<ProgressResponse[]>> {
+      return apiClient.get<ApiResponse<ProgressResponse[]>>(`/sessions/${sessionId}/progress`)
+    },
+
+    /**
+     * Record a progress entry for a session
+     */
+    create(dto: CreateProgressDto): Promise<ApiResponse<ProgressResponse>> {
+      return apiClient.post<ApiResponse<ProgressResponse>>(`/sessions/${dto.sessionId}/progress`, dto)
+    },
+
+    /**
+     * Update a progress entry
+     */
+    update(id: string, dto: UpdateProgressDto): Promise<ApiResponse<ProgressResponse>> {
+      return apiClient.patch<ApiResponse<ProgressResponse>>(`/progress/${id}`, dto)
+    },
+
+    /**
+     * Delete a progress entry
+     */
+    delete(id: string): Promise<ApiResponse<void>> {
+      return apiClient.delete<ApiResponse<void>>(`/progress/${id}`)
+    },
+  },
+
+  // Session checklist endpoints
+  tasks: {
+    /**
+     * Get the checklist of a session in order
+     */
+    getBySession(sessionId: string): Promise<ApiResponse<SessionTaskResponse[]>> {
+      return apiClient.get<ApiResponse<SessionTaskResponse[]>>(`/sessions/${sessionId}/tasks`)
+    },
+
+    /**
+     * Append an item to a session's checklist
+     */
+    create(sessionId: string, dto: CreateSessionTaskDto): Promise<ApiResponse<SessionTaskResponse>> {
+      return apiClient.post<ApiResponse<SessionTaskResponse>>(`/sessions/${sessionId}/tasks`, dto)
+    },
+
+    /**
+     * Update a checklist item (title, done state or estimate)
+     */
+    update(id: string, dto: UpdateSessionTaskDto): Promise<ApiResponse<SessionTaskResponse>> {
+      return apiClient.patch<ApiResponse<SessionTaskResponse>>(`/tasks/${id}`, dto)
+    },
+
+    /**
+     * Put a session's checklist in the given order; taskIds must list every item
+     */
+    reorder(sessionId: string, taskIds: string[]): Promise<ApiResponse<SessionTaskResponse[]>> {
+      return apiClient.put<ApiResponse<SessionTaskResponse[]>>(`/sessions/${sessionId}/tasks/order`, { taskIds })
+    },
+
+    /**
+     * Delete a checklist item
+     */
+    delete(id: string): Promise<ApiResponse<void>> {
+      return apiClient.delete<ApiResponse<void>>(`/tasks/${id}`)
+    },
+  },
+
+  // Recurring series endpoints
+  series: {
+    /**
+     * Get all series of the current user
+     */
+    getAll(): Promise<ApiResponse<SeriesResponse[]>> {
+      return apiClient.get<ApiResponse<SeriesResponse[]>>('/series')
+    },
+
+    /**
+     * Get a single series with its exceptions
+     */
+    getById(id: string): Promise<ApiResponse<SeriesResponse>> {
+      return apiClient.get<ApiResponse<SeriesResponse>>(`/series/${id}`)
+    },
+
+    /**
+     * Create a recurring series and its first occurrences
+     */
+    create(dto: CreateSeriesDto): Promise<ApiResponse<{ series: SeriesResponse; sessions: SessionResponse[] }>> {
+      return apiClient.post<ApiResponse<{ series: SeriesResponse; sessions: SessionResponse[] }>>('/series', dto)
+    },
+
+    /**
+     * Update the whole series
+     */
+    update(id: string, dto: UpdateSeriesDto): Promise<ApiResponse<SeriesOperationResult>> {
+      return apiClient.patch<ApiResponse<SeriesOperationResult>>(`/series/${id}`, dto)
+    },
+
+    /**
+     * Delete a series and its planned occurrences
+     */
+    delete(id: string): Promise<ApiResponse<SeriesOperationResult>> {
+      return apiClient.delete<ApiResponse<SeriesOperationResult>>(`/series/${id}`)
+    },
+
+    /**
+     * Update one occurrence, this and following occurrences, or the whole series
+     */
+    updateOccurrence(sessionId: string, dto: UpdateSeriesOccurrenceDto): Promise<ApiResponse<SeriesOperationResult>> {
+      return apiClient.patch<ApiResponse<SeriesOperationResult>>(`/series/occurrences/${sessionId}`, dto)
+    },
+
+    /**
+     * Delete one occurrence, this and following occurrences, or the whole series
+     */
+    deleteOccurrence(sessionId: string, mode: SeriesEditMode): Promise<ApiResponse<SeriesOperationResult>> {
+      return apiClient.delete<ApiResponse<SeriesOperationResult>>(`/series/occurrences/${sessionId}?mode=${mode}`)
+    },
+  },
+
+  // Calendar subscription feed endpoints
+  calendar: {
+    /**
+     * Get the status of the private calendar feed
+     */
+    getFeedStatus(): Promise<ApiResponse<CalendarFeedStatusDto>> {
+      return apiClient.get<ApiResponse<CalendarFeedStatusDto>>('/calendar/feed')
+    },
+
+    /**
+     * Issue a new feed token (invalidates the previous feed URL)
+     */
+    rotateFeedToken(): Promise<ApiResponse<CalendarFeedTokenDto>> {
+      return apiClient.post<ApiResponse<CalendarFeedTokenDto>>('/calendar/feed/rotate')
+    },
+
+    /**
+     * Revoke the calendar feed
+     */
+    revokeFeed(): Promise<ApiResponse<void>> {
+      return apiClient.delete<ApiResponse<void>>('/calendar/feed')
+    },
+
+    /**
+     * Build the absolute subscription URL for a feed path
+     */
+    getFeedUrl(path: string): string {
+      return `${API_URL}${path}`
+    },
+  },
+
+  timer: {
+    /**
+     * Get the active timer (null when no timer is running)
+     */
+    getActive(): Promise<ApiResponse<ActiveTimerDto | null>> {
+      return apiClient.get<ApiResponse<ActiveTimerDto | null>>('/timer')
+    },
+
+    /**
+     * Start timing a session (moves it to in progress)
+     */
+    start(dto: StartTimerDto): Promise<ApiResponse<ActiveTimerDto>> {
+      return apiClient.post<ApiResponse<ActiveTimerDto>>('/timer/start', dto)
+    },
+
+    /**
+     * Pause the active timer
+     */
+    pause(): Promise<ApiResponse<ActiveTimerDto>> {
+      return apiClient.post<ApiResponse<ActiveTimerDto>>('/timer/pause')
+    },
+
+    /**
+     * Resume the paused timer
+     */
+    resume(): Promise<ApiResponse<ActiveTimerDto>> {
+      return apiClient.post<ApiResponse<ActiveTimerDto>>('/timer/resume')
+    },
+
+    /**
+     * Stop the timer and record the tracked time as actualDuration
+     */
+    stop(dto: StopTimerDto = {}): Promise<ApiResponse<StopTimerResultDto>> {
+      return apiClient.post<ApiResponse<StopTimerResultDto>>('/timer/stop', dto)
+    },
+
+    /**
+     * Turn Pomodoro mode on or off for the active timer
+     */
+    setPomodoro(enabled: boolean): Promise<ApiResponse<ActiveTimerDto>> {
+      return apiClient.post<ApiResponse<ActiveTimerDto>>('/timer/pomodoro', { enabled })
+    },
+
+    /**
+     * Move the Pomodoro to its next phase (focus -> break -> focus)
+     */
+    advancePomodoro(dto: AdvancePomodoroDto): Promise<ApiResponse<ActiveTimerDto>> {
+      return apiClient.post<ApiResponse<ActiveTimerDto>>('/timer/pomodoro/advance', dto)
+    },
+
+    /**
+     * Get the user's Pomodoro lengths
+     */
+    getPomodoroSettings(): Promise<ApiResponse<PomodoroSettingsDto>> {
+      return apiClient.get<ApiResponse<PomodoroSettingsDto>>('/pomodoro/settings')
+    },
+
+    /**
+     * Update the user's Pomodoro lengths
+     */
+    updatePomodoroSettings(dto: UpdatePomodoroSettingsDto): Promise<ApiResponse<PomodoroSettingsDto>> {
+      return apiClient.patch<ApiResponse<PomodoroSettingsDto>>('/pomodoro/settings', dto)
+    },
+
+    /**
+     * Get all tracked segments of a session
+     */
+    getSegments(sessionId: string): Promise<ApiResponse<TimerSegmentDto[]>> {
+      return apiClient.get<ApiResponse<TimerSegmentDto[]>>(`/sessions/${sessionId}/timer-segments`)
+    },
+  },
+
+  settings: {
+    /**
+     * Get the current user's settings
+     */
+    get(): Promise<ApiResponse<UserSettingsDto>> {
+      return apiClient.get<ApiResponse<UserSettingsDto>>('/settings')
+    },
+
+    /**
+     * Update the current user's settings
+     */
+    update(dto: UpdateUserSettingsDto): Promise<ApiResponse<UserSettingsDto>> {
+      return apiClient.patch<ApiResponse<UserSettingsDto>>('/settings', dto)
+    },
+
+    /**
+     * Run the missed-session check for the current user now
+     */
+    checkMissedSessions(): Promise<ApiResponse<MissedSessionsResultDto>> {
+      return apiClient.post<ApiResponse<MissedSessionsResultDto>>('/sessions/auto-update-missed')
+    },
+  },
+
+  // Favorites endpoints
+  favorites: {
+    /**
+     * Get the IDs of starred sessions and templates
+     */
+    list(): Promise<ApiResponse<FavoritesDto>> {
+      return apiClient.get<ApiResponse<FavoritesDto>>('/favorites')
+    },
+
+    /**
+     * Get the starred sessions themselves
+     */
+    listSessions(): Promise<ApiResponse<SessionResponse[]>> {
+      return apiClient.get<ApiResponse<SessionResponse[]>>('/favorites/sessions')
+    },
+
+    /**
+     * Star a session or template
+     */
+    add(dto: AddFavoriteDto): Promise<ApiResponse<FavoritesDto>> {
+      return apiClient.post<ApiResponse<FavoritesDto>>('/favorites', dto)
+    },
+
+    /**
+     * Unstar a session or template
+     */
+    remove(itemType: FavoriteItemType, itemId: string): Promise<ApiResponse<FavoritesDto>> {
+      return apiClient.delete<ApiResponse<FavoritesDto>>(`/favorites/${itemType}/${itemId}`)
+    },
+  },
+
+  // Recently opened sessions
+  recentItems: {
+    /**
+     * Get recently opened sessions, newest first
+     */
+    list(): Promise<ApiResponse<SessionResponse[]>> {
+      return apiClient.get<ApiResponse<SessionResponse[]>>('/recent-items')
+    },
+
+    /**
+     * Mark a session as just opened
+     */
+    record(sessionId: string): Promise<ApiResponse<SessionResponse[]>> {
+      return apiClient.post<ApiResponse<SessionResponse[]>>('/recent-items', { sessionId })
+    },
+
+    /**
+     * Clear the recent sessions list
+     */
+    clear(): Promise<ApiResponse<void>> {
+      return apiClient.delete<ApiResponse<void>>('/recent-items')
+    },
+  },
+
+  // Form drafts
+  drafts: {
+    /**
+     * Get the saved create-session draft, if any
+     */
+    getSession(): Promise<ApiResponse<SessionDraftDto | null>> {
+      return apiClient.get<ApiResponse<SessionDraftDto | null>>('/drafts/session')
+    },
+
+    /**
+     * Save the create-session draft
+     */
+    saveSession(data: SessionDraftData): Promise<ApiResponse<SessionDraftDto>> {
+      return apiClient.put<ApiResponse<SessionDraftDto>>('/drafts/session', { data })
+    },
+
+    /**
+     * Discard the create-session draft
+     */
+    deleteSession(): Promise<ApiResponse<void>> {
+      return apiClient.delete<ApiResponse<void>>('/drafts/session')
+    },
+  },
+
+  // Per-user data sync
+  userData: {
+    /**
+     * Upload favorites, recent sessions and drafts kept in browser storage
+     */
+    importLocal(dto: ImportLocalDataDto): Promise<ApiResponse<ImportLocalDataResultDto>> {
+      return apiClient.post<ApiResponse<ImportLocalDataResultDto>>('/user-data/import-local', dto)
+    },
+  },
+
+  // Category endpoints
+  categories: {
+    /**
+     * Get all of the user's categories (flat, sorted by name)
+     */
+    getAll(): Promise<ApiResponse<CategoryResponse[]>> {
+      return apiClient.get<ApiResponse<CategoryResponse[]>>('/categories')
+    },
+
+    /**
+     * Create a category
+     */
+    create(dto: CreateCategoryDto): Promise<ApiResponse<CategoryResponse>> {
+      return apiClient.post<ApiResponse<CategoryResponse>>('/categories', dto)
+    },
+
+    /**
+     * Update a category
+     */
+    update(id: string, dto: UpdateCategoryDto): Promise<ApiResponse<CategoryResponse>> {
+      return apiClient.patch<ApiResponse<CategoryResponse>>(`/categories/${id}`, dto)
+    },
+
+    /**
+     * Delete a category, optionally moving its sessions to another category
+     */
+    delete(id: string, reassignTo?: string): Promise<ApiResponse<void>> {
+      const query = reassignTo ? `?reassignTo=${encodeURIComponent(reassignTo)}` : ''
+      return apiClient.delete<ApiResponse<void>>(`/categories/${id}${query}`)
+    },
+
+    /**
+     * Recreate any missing default categories
+     */
+    restoreDefaults(): Promise<ApiResponse<CategoryResponse[]>> {
+      return apiClient.post<ApiResponse<CategoryResponse[]>>('/categories/defaults')
+    },
+  },
+
+  // Tag endpoints
+  tags: {
+    /**
+     * Get all tags with usage counts, most used first
+     */
+    getAll(): Promise<ApiResponse<TagResponse[]>> {
+      return apiClient.get<ApiResponse<TagResponse[]>>('/tags')
+    },
+
+    /**
+     * Rename a tag across all sessions and templates and/or change its color
+     */
+    update(name: string, dto: UpdateTagDto): Promise<ApiResponse<TagResponse>> {
+      return apiClient.patch<ApiResponse<TagResponse>>(`/tags/${encodeURIComponent(name)}`, dto)
+    },
+
+    /**
+     * Merge tags into one
+     */
+    merge(dto: MergeTagsDto): Promise<ApiResponse<TagResponse>> {
+      return apiClient.post<ApiResponse<TagResponse>>('/tags/merge', dto)
+    },
+
+    /**
+     * Remove a tag from all sessions and templates
+     */
+    delete(name: string): Promise<ApiResponse<void>> {
+      return apiClient.delete<ApiResponse<void>>(`/tags/${encodeURIComponent(name)}`)
+    },
+  },
+
+  // Goal endpoints
+  goals: {
+    /**
+     * Get all goals with their progress in the current period
+     */
+    getAll(): Promise<ApiResponse<GoalResponse[]>> {
+      return apiClient.get<ApiResponse<GoalResponse[]>>('/goals')
+    },
+
+    /**
+     * Create a goal
+     */
+    create(dto: CreateGoalDto): Promise<ApiResponse<GoalResponse>> {
+      return apiClient.post<ApiResponse<GoalResponse>>('/goals', dto)
+    },
+
+    /**
+     * Update a goal
+     */
+    update(id: string, dto: UpdateGoalDto): Promise<ApiResponse<GoalResponse>> {
+      return apiClient.patch<ApiResponse<GoalResponse>>(`/goals/${id}`, dto)
+    },
+
+    /**
+     * Delete a goal
+     */
+    delete(id: string): Promise<ApiResponse<void>> {
+      return apiClient.delete<ApiResponse<void>>(`/goals/${id}`)
+    },
+
+    /**
+     * Get the day-by-day burn-up of a goal's current period
+     */
+    getBurnup(id: string): Promise<ApiResponse<GoalBurnupDto>> {
+      return apiClient.get<ApiResponse<GoalBurnupDto>>(`/goals/${id}/burnup`)
+    },
+  },
+
+  // Availability endpoints
+  availability: {
+    /**
+     * Get the weekly availability windows and upcoming blackouts
+     */
+    get(): Promise<ApiResponse<AvailabilityDto>> {
+      return apiClient.get<ApiResponse<AvailabilityDto>>('/availability')
+    },
+
+    /**
+     * Replace the weekly availability windows; an empty list restores the default
+     */
+    replaceWindows(windows: AvailabilityWindowInput[]): Promise<ApiResponse<AvailabilityWindowDto[]>> {
+      return apiClient.put<ApiResponse<AvailabilityWindowDto[]>>('/availability/windows', { windows })
+    },
+
+    /**
+     * Block one or more days for planning
+     */
+    createBlackout(dto: CreateAvailabilityBlackoutDto): Promise<ApiResponse<AvailabilityBlackoutDto>> {
+      return apiClient.post<ApiResponse<AvailabilityBlackoutDto>>('/availability/blackouts', dto)
+    },
+
+    /**
+     * Remove a blackout
+     */
+    deleteBlackout(id: string): Promise<ApiResponse<void>> {
+      return apiClient.delete<ApiResponse<void>>(`/availability/blackouts/${id}`)
+    },
+  },
+
+  // Planner endpoints
+  planner: {
+    /**
+     * Propose slots for unscheduled sessions and goal blocks without saving anything
+     */
+    preview(dto: PlanRequestDto): Promise<ApiResponse<PlanPreviewDto>> {
+      return apiClient.post<ApiResponse<PlanPreviewDto>>('/planner/preview', dto)
+    },
+
+    /**
+     * Save the accepted proposals of a preview
+     */
+    apply(dto: ApplyPlanDto): Promise<ApiResponse<ApplyPlanResultDto>> {
+      return apiClient.post<ApiResponse<ApplyPlanResultDto>>('/planner/apply', dto)
+    },
+  },
 }
 
 /**
@@ -9,7 +9,8 @@
 // NOTE: Only export DTO response types, NOT entity types with Date fields
 export type {
   // Enums
-  SessionCategory,
+  CategoryColor,
+  CategoryIcon,
   // DTOs - Common
   ISODateString,
   PaginationQuery,
@@ -42,7 +43,7 @@ export type {
 } from '@repo/shared-types';
 
 // Re-export enum values (need to be value exports)
-export { SESSION_CATEGORIES } from '@repo/shared-types';
+export { CATEGORY_COLORS, CATEGORY_ICONS } from '@repo/shared-types';
 
 // Add web-specific types below
 // export * from './ui.types'
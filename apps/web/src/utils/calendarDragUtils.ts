@@ -0,0 +1,114 @@
+import type { SessionResponse } from '@repo/shared-types'
+import { getPreviewKey } from '@/utils/planUtils'
+
+/** Data transfer type carrying the id of a session dragged in the calendar */
+export const SESSION_DRAG_TYPE = 'application/x-session-id'
+
+/** Minutes that drags, resizes and arrow keys snap to */
+export const RESCHEDULE_STEP_MINUTES = 15
+
+/** Duration bounds, matching the session form validation */
+const MIN_DURATION = 5
+const MAX_DURATION = 480
+
+const MINUTE_MS = 60 * 1000
+
+/**
+ * New start and/or duration for a session moved or resized in the calendar
+ */
+export interface SessionReschedule {
+  scheduledFor?: string
+  duration?: number
+}
+
+/**
+ * Only planned, scheduled sessions can be moved; plan previews are not real sessions
+ */
+export function canReschedule(session: SessionResponse): boolean {
+  return session.status === 'planned' && !!session.scheduledFor && getPreviewKey(session) === null
+}
+
+/**
+ * Round to the nearest reschedule step
+ */
+export function snapMinutes(minutes: number): number {
+  return Math.round(minutes / RESCHEDULE_STEP_MINUTES) * RESCHEDULE_STEP_MINUTES
+}
+
+/**
+ * Keep a duration within what the form accepts
+ */
+export function clampDuration(minutes: number): number {
+  return Math.min(MAX_DURATION, Math.max(MIN_DURATION, minutes))
+}
+
+/**
+ * Same local time of day on another day
+ */
+export function moveToDay(scheduledFor: string, day: Date): string {
+  const start = new Date(scheduledFor)
+  const moved = new Date(day)
+  moved.setHours(start.getHours(), start.getMinutes(), 0, 0)
+  return moved.toISOString()
+}
+
+/**
+ * Local time on the given day, `minutes` after midnight
+ */
+export function atMinuteOfDay(day: Date, minutes: number): string {
+  const moved = new Date(day)
+  moved.setHours(0, minutes, 0, 0)
+  return moved.toISOString()
+}
+
+/**
+ * Minute within the hour under the pointer, snapped to a reschedule step
+ */
+export function getMinuteInSlot(clientY: number, slot: DOMRect): number {
+  const ratio = Math.min(1, Math.max(0, (clientY - slot.top) / slot.height))
+  return Math.min(60 - RESCHEDULE_STEP_MINUTES, snapMinutes(ratio * 60))
+}
+
+/**
+ * Change for an arrow key pressed on a focused session. Left and right move
+ * a day; up and down move one step in the time grids and a week in the
+ * month grid; with Shift, up and down shorten or lengthen the session.
+ * Null for any other key.
+ */
+export function getKeyboardReschedule(
+  event: Pick<KeyboardEvent, 'key' | 'shiftKey' | 'altKey' | 'ctrlKey' | 'metaKey'>,
+  session: SessionResponse,
+  verticalUnit: 'step' | 'week'
+): SessionReschedule | null {
+  if (!session.scheduledFor || event.altKey || event.ctrlKey || event.metaKey) return null
+  const scheduledFor = session.scheduledFor
+
+  if (event.shiftKey) {
+    if (event.key !== 'ArrowUp' && event.key !== 'ArrowDown') return null
+    const step = event.key === 'ArrowUp' ? -RESCHEDULE_STEP_MINUTES : RESCHEDULE_STEP_MINUTES
+    const duration = clampDuration(session.duration + step)
+    return duration === session.duration ? null : { duration }
+  }
+
+  const byDays = (days: number) => {
+    const day = new Date(scheduledFor)
+    day.setDate(day.getDate() + days)
+    return { scheduledFor: moveToDay(scheduledFor, day) }
+  }
+  const bySteps = (steps: number) => ({
+    scheduledFor: new Date(new Date(scheduledFor).getTime() + steps * RESCHEDULE_STEP_MINUTES * MINUTE_MS).toISOString(),
+  })
+
+  switch (event.key) {
+    case 'ArrowLeft':
+      return byDays(-1)
+    case 'ArrowRight':
+      return byDays(1)
+    case 'ArrowUp':
+      return verticalUnit === 'week' ? byDays(-7) : bySteps(-1)
+    case 'ArrowDown':
+      return verticalUnit === 'week' ? byDays(7) : bySteps(1)
+    default:
+      return null
+  }
+}
@@ -1,7 +1,7 @@
-import type { SessionCategory } from '@repo/shared-types';
+import type { CategoryColor, CategorySummaryDto } from '@repo/shared-types';
 
 /**
- * Style configuration for each category
+ * Style configuration for each category color
  */
 export interface CategoryStyle {
   /** Tailwind gradient classes for background */
@@ -16,87 +16,175 @@ export interface CategoryStyle {
   lightBg: string;
   /** Text color */
   textColor: string;
+  /** Badge classes (background and text) */
+  badge: string;
+  /** Solid swatch for color pickers */
+  swatch: string;
+  /** Hex color for charts */
+  hex: string;
 }
 
 /**
- * Category style configurations with gradients and colors
+ * Style configurations for every color a category can take. Class names are
+ * spelled out so Tailwind keeps them in the build.
  */
-export const categoryStyles: Record<SessionCategory, CategoryStyle> = {
-  school: {
+export const categoryStyles: Record<CategoryColor, CategoryStyle> = {
+  gray: {
+    gradient: 'bg-gradient-to-br from-gray-500 to-gray-700',
+    iconBg: 'bg-gray-100 dark:bg-gray-700',
+    iconColor: 'text-gray-600 dark:text-gray-400',
+    borderColor: 'border-gray-500',
+    lightBg: 'bg-gray-50 dark:bg-gray-900',
+    textColor: 'text-gray-700 dark:text-gray-300',
+    badge: 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300',
+    swatch: 'bg-gray-500',
+    hex: '#6b7280',
+  },
+  red: {
+    gradient: 'bg-gradient-to-br from-red-500 to-red-700',
+    iconBg: 'bg-red-100 dark:bg-red-900',
+    iconColor: 'text-red-600 dark:text-red-400',
+    borderColor: 'border-red-500',
+    lightBg: 'bg-red-50 dark:bg-red-950',
+    textColor: 'text-red-700 dark:text-red-300',
+    badge: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300',
+    swatch: 'bg-red-500',
+    hex: '#ef4444',
+  },
+  orange: {
+    gradient: 'bg-gradient-to-br from-orange-500 to-orange-700',
+    iconBg: 'bg-orange-100 dark:bg-orange-900',
+    iconColor: 'text-orange-600 dark:text-orange-400',
+    borderColor: 'border-orange-500',
+    lightBg: 'bg-orange-50 dark:bg-orange-950',
+    textColor: 'text-orange-700 dark:text-orange-300',
+    badge: 'bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-300',
+    swatch: 'bg-orange-500',
+    hex: '#f97316',
+  },
+  amber: {
+    gradient: 'bg-gradient-to-br from-amber-500 to-amber-700',
+    iconBg: 'bg-amber-100 dark:bg-amber-900',
+    iconColor: 'text-amber-600 dark:text-amber-400',
+    borderColor: 'border-amber-500',
+    lightBg: 'bg-amber-50 dark:bg-amber-950',
+    textColor: 'text-amber-700 dark:text-amber-300',
+    badge: 'bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-300',
+    swatch: 'bg-amber-500',
+    hex: '#f59e0b',
+  },
+  green: {
+    gradient: 'bg-gradient-to-br from-green-500 to-green-700',
+    iconBg: 'bg-green-100 dark:bg-green-900',
+    iconColor: 'text-green-600 dark:text-green-400',
+    borderColor: 'border-green-500',
+    lightBg: 'bg-green-50 dark:bg-green-950',
+    textColor: 'text-green-700 dark:text-green-300',
+    badge: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300',
+    swatch: 'bg-green-500',
+    hex: '#10b981',
+  },
+  teal: {
+    gradient: 'bg-gradient-to-br from-teal-500 to-teal-700',
+    iconBg: 'bg-teal-100 dark:bg-teal-900',
+    iconColor: 'text-teal-600 dark:text-teal-400',
+    borderColor: 'border-teal-500',
+    lightBg: 'bg-teal-50 dark:bg-teal-950',
+    textColor: 'text-teal-700 dark:text-teal-300',
+    badge: 'bg-teal-100 text-teal-800 dark:bg-teal-900 dark:text-teal-300',
+    swatch: 'bg-teal-500',
+    hex: '#14b8a6',
+  },
+  cyan: {
+    gradient: 'bg-gradient-to-br from-cyan-500 to-cyan-700',
+    iconBg: 'bg-cyan-100 dark:bg-cyan-900',
+    iconColor: 'text-cyan-600 dark:text-cyan-400',
+    borderColor: 'border-cyan-500',
+    lightBg: 'bg-cyan-50 dark:bg-cyan-950',
+    textColor: 'text-cyan-700 dark:text-cyan-300',
+    badge: 'bg-cyan-100 text-cyan-800 dark:bg-cyan-900 dark:text-cyan-300',
+    swatch: 'bg-cyan-500',
+    hex: '#06b6d4',
+  },
+  blue: {
     gradient: 'bg-gradient-to-br from-blue-500 to-blue-700',
     iconBg: 'bg-blue-100 dark:bg-blue-900',
     iconColor: 'text-blue-600 dark:text-blue-400',
     borderColor: 'border-blue-500',
     lightBg: 'bg-blue-50 dark:bg-blue-950',
     textColor: 'text-blue-700 dark:text-blue-300',
+    badge: 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-300',
+    swatch: 'bg-blue-500',
+    hex: '#3b82f6',
+  },
+  indigo: {
+    gradient: 'bg-gradient-to-br from-indigo-500 to-indigo-700',
+    iconBg: 'bg-indigo-100 dark:bg-indigo-900',
+    iconColor: 'text-indigo-600 dark:text-indigo-400',
+    borderColor: 'border-indigo-500',
+    lightBg: 'bg-indigo-50 dark:bg-indigo-950',
+    textColor: 'text-indigo-700 dark:text-indigo-300',
+    badge: 'bg-indigo-100 text-indigo-800 dark:bg-indigo-900 dark:text-indigo-300',
+    swatch: 'bg-indigo-500',
+    hex: '#6366f1',
   },
-  programming: {
+  purple: {
     gradient: 'bg-gradient-to-br from-purple-500 to-purple-700',
     iconBg: 'bg-purple-100 dark:bg-purple-900',
     iconColor: 'text-purple-600 dark:text-purple-400',
     borderColor: 'border-purple-500',
     lightBg: 'bg-purple-50 dark:bg-purple-950',
     textColor: 'text-purple-700 dark:text-purple-300',
+    badge: 'bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-300',
+    swatch: 'bg-purple-500',
+    hex: '#a855f7',
   },
-  language: {
-    gradient: 'bg-gradient-to-br from-green-500 to-green-700',
-    iconBg: 'bg-green-100 dark:bg-green-900',
-    iconColor: 'text-green-600 dark:text-green-400',
-    borderColor: 'border-green-500',
-    lightBg: 'bg-green-50 dark:bg-green-950',
-    textColor: 'text-green-700 dark:text-green-300',
-  },
-  personal: {
-    gradient: 'bg-gradient-to-br from-orange-500 to-orange-700',
-    iconBg: 'bg-orange-100 dark:bg-orange-900',
-    iconColor: 'text-orange-600 dark:text-orange-400',
-    borderColor: 'border-orange-500',
-    lightBg: 'bg-orange-50 dark:bg-orange-950',
-    textColor: 'text-orange-700 dark:text-orange-300',
-  },
-  other: {
-    gradient: 'bg-gradient-to-br from-gray-500 to-gray-700',
-    iconBg: 'bg-gray-100 dark:bg-gray-700',
-    iconColor: 'text-gray-600 dark:text-gray-400',
-    borderColor: 'border-gray-500',
-    lightBg: 'bg-gray-50 dark:bg-gray-900',
-    textColor: 'text-gray-700 dark:text-gray-300',
+  pink: {
+    gradient: 'bg-gradient-to-br from-pink-500 to-pink-700',
+    iconBg: 'bg-pink-100 dark:bg-pink-900',
+    iconColor: 'text-pink-600 dark:text-pink-400',
+    borderColor: 'border-pink-500',
+    lightBg: 'bg-pink-50 dark:bg-pink-950',
+    textColor: 'text-pink-700 dark:text-pink-300',
+    badge: 'bg-pink-100 text-pink-800 dark:bg-pink-900 dark:text-pink-300',
+    swatch: 'bg-pink-500',
+    hex: '#ec4899',
   },
 };
 
 /**
  * Get style configuration for a category
- * @param category The session category
+ * @param category The category, or null for uncategorized sessions
  * @returns Style configuration object
  */
-export function getCategoryStyle(category: SessionCategory): CategoryStyle {
-  return categoryStyles[category] || categoryStyles.other;
+export function getCategoryStyle(category: Pick<CategorySummaryDto, 'color'> | null | undefined): CategoryStyle {
+  return (category && categoryStyles[category.color]) || categoryStyles.gray;
 }
 
 /**
  * Get gradient class for a category
- * @param category The session category
+ * @param category The category, or null for uncategorized sessions
  * @returns Tailwind gradient class string
  */
-export function getCategoryGradient(category: SessionCategory): string {
+export function getCategoryGradient(category: Pick<CategorySummaryDto, 'color'> | null | undefined): string {
   return getCategoryStyle(category).gradient;
 }
 
 /**
  * Get icon container classes for a category
- * @param category The session category
+ * @param category The category, or null for uncategorized sessions
  * @returns Class string for icon container
  */
-export function getCategoryIconClasses(category: SessionCategory): string {
+export function getCategoryIconClasses(category: Pick<CategorySummaryDto, 'color'> | null | undefined): string {
   const style = getCategoryStyle(category);
   return `${style.iconBg} ${style.iconColor}`;
 }
 
 /**
  * Get border color class for a category
- * @param category The session category
+ * @param category The category, or null for uncategorized sessions
  * @returns Tailwind border color class
  */
-export function getCategoryBorderClass(category: SessionCategory): string {
+export function getCategoryBorderClass(category: Pick<CategorySummaryDto, 'color'> | null | undefined): string {
   return getCategoryStyle(category).borderColor;
 }
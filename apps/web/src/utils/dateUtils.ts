@@ -113,11 +113,12 @@ export function isOverdue(date: Date | string): boolean {
 
 /**
  * Get array of dates for the week containing the given date
+ * (weekStartsOn: 0 = Sunday, 1 = Monday, ...)
  */
-export function getWeekDays(date: Date): Date[] {
+export function getWeekDays(date: Date, weekStartsOn: number = 0): Date[] {
   const days: Date[] = [];
   const start = new Date(date);
-  start.setDate(date.getDate() - date.getDay()); // Start from Sunday
+  start.setDate(date.getDate() - ((date.getDay() - weekStartsOn + 7) % 7));
 
   for (let i = 0; i < 7; i++) {
     const day = new Date(start);
@@ -129,9 +130,10 @@ export function getWeekDays(date: Date): Date[] {
 }
 
 /**
- * Get array of dates for the month containing the given date
+ * Get array of dates for the month containing the given date,
+ * padded to whole weeks starting on weekStartsOn
  */
-export function getMonthDays(date: Date): Date[] {
+export function getMonthDays(date: Date, weekStartsOn: number = 0): Date[] {
   const days: Date[] = [];
   const year = date.getFullYear();
   const month = date.getMonth();
@@ -142,7 +144,7 @@ export function getMonthDays(date: Date): Date[] {
   const lastDay = new Date(year, month + 1, 0);
 
   // Add padding days from previous month
-  const startPadding = firstDay.getDay();
+  const startPadding = (firstDay.getDay() - weekStartsOn + 7) % 7;
   for (let i = startPadding - 1; i >= 0; i--) {
     const day = new Date(firstDay);
     day.setDate(firstDay.getDate() - i - 1);
@@ -155,7 +157,7 @@ export function getMonthDays(date: Date): Date[] {
   }
 
   // Add padding days from next month
-  const endPadding = 6 - lastDay.getDay();
+  const endPadding = 6 - ((lastDay.getDay() - weekStartsOn + 7) % 7);
   for (let i = 1; i <= endPadding; i++) {
     const day = new Date(lastDay);
     day.setDate(lastDay.getDate() + i);
@@ -165,6 +167,13 @@ export function getMonthDays(date: Date): Date[] {
   return days;
 }
 
+/**
+ * Weekday numbers (0 = Sunday) in display order for a week starting on weekStartsOn
+ */
+export function getWeekdayOrder(weekStartsOn: number = 0): number[] {
+  return Array.from({ length: 7 }, (_, i) => (weekStartsOn + i) % 7);
+}
+
 /**
  * Get relative time string
  */
@@ -52,7 +52,7 @@ export function formatSessionsAsCSV(sessions: SessionResponse[]): string {
       escapeCSV(session.id),
       escapeCSV(session.title),
       escapeCSV(session.description),
-      escapeCSV(session.category),
+      escapeCSV(session.category?.name),
       escapeCSV(session.status),
       escapeCSV(session.priority),
       escapeCSV(session.duration),
@@ -101,7 +101,17 @@ export function formatStatsAsCSV(stats: DetailedStatsDto): string {
   lines.push('Category,Total Sessions,Completed Sessions,Total Duration (min),Completed Duration (min),Completion Rate')
   for (const cat of stats.byCategory) {
     lines.push(
-      `${cat.category},${cat.totalSessions},${cat.completedSessions},${cat.totalDuration},${cat.completedDuration},${(cat.completionRate * 100).toFixed(2)}%`
+      `${cat.category?.name ?? 'Uncategorized'},${cat.totalSessions},${cat.completedSessions},${cat.totalDuration},${cat.completedDuration},${(cat.completionRate * 100).toFixed(2)}%`
+    )
+  }
+  lines.push('')
+
+  // Tag Stats (a session counts once per tag)
+  lines.push('TAG STATISTICS')
+  lines.push('Tag,Total Sessions,Completed Sessions,Total Duration (min),Completed Duration (min)')
+  for (const tag of stats.byTag ?? []) {
+    lines.push(
+      `${tag.tag},${tag.totalSessions},${tag.completedSessions},${tag.totalDuration},${tag.completedDuration}`
     )
   }
   lines.push('')
@@ -112,9 +122,10 @@ export function formatStatsAsCSV(stats: DetailedStatsDto): string {
   lines.push(`Completion Rate,${(stats.productivity.completionRate * 100).toFixed(2)}%`)
   lines.push(`On-Time Completion Rate,${(stats.productivity.onTimeCompletionRate * 100).toFixed(2)}%`)
   lines.push(`Average Delay (days),${stats.productivity.averageDelayDays.toFixed(2)}`)
-  lines.push(`Most Productive Category,${stats.productivity.mostProductiveCategory}`)
+  lines.push(`Most Productive Category,${stats.productivity.mostProductiveCategory ?? ''}`)
   lines.push(`Most Productive Time,${stats.productivity.mostProductiveTimeOfDay}`)
   lines.push(`Current Streak (days),${stats.productivity.streakDays}`)
+  lines.push(`Pomodoro Cycles,${stats.productivity.pomodoroCycles ?? 0}`)
   lines.push('')
 
   // Time Distribution
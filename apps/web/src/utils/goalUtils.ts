@@ -0,0 +1,76 @@
+import type { GoalCadence, GoalMetric, GoalStatus } from '@repo/shared-types';
+
+export const GOAL_METRIC_LABELS: Record<GoalMetric, string> = {
+  hours: 'Hours',
+  sessions: 'Completed sessions',
+  tasks: 'Checklist items',
+};
+
+export const GOAL_CADENCE_LABELS: Record<GoalCadence, string> = {
+  once: 'Once, by the deadline',
+  weekly: 'Every week',
+  monthly: 'Every month',
+};
+
+export const GOAL_STATUS_LABELS: Record<GoalStatus, string> = {
+  completed: 'Completed',
+  on_track: 'On track',
+  behind: 'Behind',
+  missed: 'Missed',
+  open: 'In progress',
+};
+
+/**
+ * Badge and progress bar classes per goal status
+ */
+export const goalStatusStyles: Record<GoalStatus, { badge: string; bar: string }> = {
+  completed: {
+    badge: 'bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300',
+    bar: 'bg-green-500',
+  },
+  on_track: {
+    badge: 'bg-blue-100 text-blue-800 dark:bg-blue-900/40 dark:text-blue-300',
+    bar: 'bg-blue-500',
+  },
+  behind: {
+    badge: 'bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-300',
+    bar: 'bg-amber-500',
+  },
+  missed: {
+    badge: 'bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-300',
+    bar: 'bg-red-500',
+  },
+  open: {
+    badge: 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300',
+    bar: 'bg-primary-500',
+  },
+};
+
+/**
+ * Format an amount in a goal's metric, e.g. "12.5h", "3 sessions", "1 item"
+ */
+export function formatGoalAmount(value: number, metric: GoalMetric): string {
+  if (metric === 'hours') {
+    return `${Number.isInteger(value) ? value : value.toFixed(1)}h`;
+  }
+  const count = Math.round(value * 10) / 10;
+  const unit = metric === 'sessions' ? 'session' : 'item';
+  return `${count} ${unit}${count !== 1 ? 's' : ''}`;
+}
+
+/**
+ * Local calendar day (YYYY-MM-DD) of an ISO timestamp, for date inputs
+ */
+export function toDateInputValue(iso: string): string {
+  const date = new Date(iso);
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * ISO timestamp for the start of a local calendar day, or its end when endOfDay is set
+ */
+export function fromDateInputValue(value: string, endOfDay = false): string {
+  return new Date(`${value}T${endOfDay ? '23:59:59.999' : '00:00:00'}`).toISOString();
+}
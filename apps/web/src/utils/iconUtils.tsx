@@ -17,22 +17,40 @@ import {
   Zap,
   Timer,
   GraduationCap,
+  Folder,
+  Calculator,
+  FlaskConical,
+  Globe,
+  Music,
+  Palette,
+  Dumbbell,
+  Brain,
+  Briefcase,
   type LucideIcon,
 } from 'lucide-react';
-import type { SessionCategory } from '@repo/shared-types';
+import type { CategoryIcon, CategorySummaryDto } from '@repo/shared-types';
 
 // Category icon mapping
-export const categoryIcons: Record<SessionCategory, LucideIcon> = {
-  school: GraduationCap,
-  programming: Code2,
-  language: Languages,
-  personal: User,
-  other: FileText,
+export const categoryIcons: Record<CategoryIcon, LucideIcon> = {
+  folder: Folder,
+  'graduation-cap': GraduationCap,
+  code: Code2,
+  languages: Languages,
+  user: User,
+  'book-open': BookOpen,
+  calculator: Calculator,
+  flask: FlaskConical,
+  globe: Globe,
+  music: Music,
+  palette: Palette,
+  dumbbell: Dumbbell,
+  brain: Brain,
+  briefcase: Briefcase,
 };
 
-// Get category icon component
-export function getCategoryIconComponent(category: SessionCategory): LucideIcon {
-  return categoryIcons[category] || FileText;
+// Get category icon component (uncategorized sessions get a plain document)
+export function getCategoryIconComponent(category: Pick<CategorySummaryDto, 'icon'> | null | undefined): LucideIcon {
+  return (category && categoryIcons[category.icon]) || FileText;
 }
 
 // Feature icons for landing page
@@ -1,5 +1,7 @@
 /**
  * Storage keys for localStorage
+ * Favorites, recent sessions and drafts now live on the server; these keys
+ * are only read once to upload data saved by older versions.
  */
 export const STORAGE_KEYS = {
   DRAFT_SESSION: 'draft-session',
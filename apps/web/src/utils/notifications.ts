@@ -0,0 +1,33 @@
+/**
+ * Whether the browser supports system notifications
+ */
+function isSupported(): boolean {
+  return typeof window !== 'undefined' && 'Notification' in window;
+}
+
+/**
+ * Ask for notification permission; call from a user gesture so browsers show the prompt
+ */
+export function requestNotificationPermission(): void {
+  if (isSupported() && Notification.permission === 'default') {
+    Notification.requestPermission().catch(() => undefined);
+  }
+}
+
+/**
+ * Show a system notification when permitted and the page is not in focus
+ * @returns Whether a system notification was shown
+ */
+export function showBrowserNotification(title: string, body?: string): boolean {
+  if (!isSupported() || Notification.permission !== 'granted' || document.hasFocus()) {
+    return false;
+  }
+
+  try {
+    new Notification(title, { body, tag: 'learn-session-planner' });
+    return true;
+  } catch {
+    // Some mobile browsers only allow notifications from a service worker
+    return false;
+  }
+}
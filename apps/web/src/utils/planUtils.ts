@@ -0,0 +1,50 @@
+import type { PlanProposalDto, SessionResponse } from '@repo/shared-types'
+import { SessionStatus } from '@repo/shared-types'
+
+/** Id prefix of the stand-in sessions that show a plan preview in the calendar */
+const PREVIEW_ID_PREFIX = 'plan-preview:'
+
+/** Calendar colors of accepted and left-out proposals */
+const PREVIEW_COLOR_SELECTED = '#8b5cf6'
+const PREVIEW_COLOR_UNSELECTED = '#9ca3af'
+
+/**
+ * Stand-in session so a proposal can be drawn by the calendar views
+ */
+export function toPreviewSession(proposal: PlanProposalDto, selected: boolean): SessionResponse {
+  const now = new Date().toISOString()
+  return {
+    id: `${PREVIEW_ID_PREFIX}${proposal.key}`,
+    title: `Proposed: ${proposal.title}`,
+    description: null,
+    categoryId: proposal.categoryId,
+    category: proposal.category,
+    status: SessionStatus.PLANNED,
+    priority: proposal.priority,
+    duration: proposal.duration,
+    actualDuration: null,
+    color: selected ? PREVIEW_COLOR_SELECTED : PREVIEW_COLOR_UNSELECTED,
+    tags: proposal.tags,
+    notes: null,
+    scheduledFor: proposal.scheduledFor,
+    startedAt: null,
+    completedAt: null,
+    userId: '',
+    seriesId: null,
+    originalScheduledFor: null,
+    reviewOfId: null,
+    reviewRepetition: null,
+    reviewIntervalDays: null,
+    reviewEase: null,
+    tasks: [],
+    createdAt: now,
+    updatedAt: now,
+  }
+}
+
+/**
+ * Proposal key of a stand-in session, or null for a real session
+ */
+export function getPreviewKey(session: SessionResponse): string | null {
+  return session.id.startsWith(PREVIEW_ID_PREFIX) ? session.id.slice(PREVIEW_ID_PREFIX.length) : null
+}
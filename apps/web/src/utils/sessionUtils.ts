@@ -2,9 +2,15 @@ import type {
   SessionResponse,
   SessionStatus,
   SessionPriority,
-  SessionCategory,
   SessionFilters,
+  SessionStatusErrorDto,
+  SessionConflictErrorDto,
+  CreateSessionTaskDto,
+  TemplateChecklistItemDto,
 } from '@repo/shared-types';
+import { SESSION_STATUS_TRANSITIONS, canTransitionSessionStatus } from '@repo/shared-types';
+import { ApiError } from '@/services/api';
+import { formatDuration } from '@/utils/dateUtils';
 
 /**
  * Get Tailwind color class for session status
@@ -66,21 +72,6 @@ export function getPriorityBadgeClasses(priority: SessionPriority): string {
   return `${baseClasses} ${priorityClasses[priority as keyof typeof priorityClasses] || priorityClasses.medium}`;
 }
 
-/**
- * Get category icon (deprecated - use getCategoryIconComponent from iconUtils instead)
- * @deprecated Use getCategoryIconComponent from @/utils/iconUtils
- */
-export function getCategoryIcon(category: SessionCategory): string {
-  const icons = {
-    school: '📚',
-    programming: '💻',
-    language: '🗣️',
-    personal: '🎯',
-    other: '📝',
-  };
-  return icons[category as keyof typeof icons] || '📝';
-}
-
 /**
  * Check if session is overdue
  */
@@ -139,7 +130,7 @@ export function groupSessionsByDate(sessions: SessionResponse[]): Record<string,
 
   sessions.forEach(session => {
     // Skip undefined or invalid sessions
-    if (!session || typeof session !== 'object' || !session.category || !session.status) {
+    if (!session || typeof session !== 'object' || !session.status) {
       console.warn('groupSessionsByDate: skipping invalid session', session);
       return;
     }
@@ -213,14 +204,14 @@ export function filterSessions(sessions: SessionResponse[], filters: SessionFilt
 
   return sessions.filter(session => {
     // Skip undefined or invalid sessions
-    if (!session || typeof session !== 'object' || !session.category || !session.status) {
+    if (!session || typeof session !== 'object' || !session.status) {
       console.warn('filterSessions: skipping invalid session', session);
       return false;
     }
 
     try {
-      // Category filter
-      if (filters?.category && session.category !== filters.category) {
+      // Category filter (exact match; the API also matches subcategories)
+      if (filters?.categoryId && session.categoryId !== filters.categoryId) {
         return false;
       }
 
@@ -323,6 +314,10 @@ export function sortSessions(
       const priorityOrder = { urgent: 4, high: 3, medium: 2, low: 1 };
       aValue = priorityOrder[a.priority];
       bValue = priorityOrder[b.priority];
+    } else if (sortBy === 'category') {
+      // Uncategorized sessions sort last
+      aValue = a.category?.name.toLowerCase() ?? '\uffff';
+      bValue = b.category?.name.toLowerCase() ?? '\uffff';
     } else {
       aValue = (a as any)[sortBy];
       bValue = (b as any)[sortBy];
@@ -357,17 +352,73 @@ export function getSessionDuration(session: SessionResponse): string {
 }
 
 /**
- * Validate status transition
+ * Validate status transition (same table the API enforces)
  */
 export function canTransitionStatus(
   currentStatus: SessionStatus,
   newStatus: SessionStatus
 ): boolean {
-  // Completed sessions shouldn't go back to planned
-  if (currentStatus === 'completed' && newStatus === 'planned') {
-    return false;
+  return canTransitionSessionStatus(currentStatus, newStatus);
+}
+
+/**
+ * Statuses a session can be saved with: its current one plus allowed transitions
+ */
+export function getAvailableStatuses(currentStatus: SessionStatus): SessionStatus[] {
+  return [currentStatus, ...SESSION_STATUS_TRANSITIONS[currentStatus]];
+}
+
+/**
+ * Extract the structured error the API returns for rejected status changes
+ */
+export function getStatusTransitionError(error: unknown): SessionStatusErrorDto | null {
+  if (!(error instanceof ApiError) || !error.data || typeof error.data !== 'object') {
+    return null;
   }
+  const data = error.data as Partial<SessionStatusErrorDto>;
+  return data.code === 'INVALID_STATUS_TRANSITION' || data.code === 'ACTUAL_DURATION_REQUIRED'
+    ? (data as SessionStatusErrorDto)
+    : null;
+}
 
-  // All other transitions are allowed
-  return true;
+/**
+ * Overlap rejection from strict scheduling, or null for any other error
+ */
+export function getSessionConflictError(error: unknown): SessionConflictErrorDto | null {
+  if (!(error instanceof ApiError) || !error.data || typeof error.data !== 'object') {
+    return null;
+  }
+  const data = error.data as Partial<SessionConflictErrorDto>;
+  return data.code === 'SESSION_OVERLAP' ? (data as SessionConflictErrorDto) : null;
+}
+
+/**
+ * Share of checklist items done as a whole percentage, or null without a checklist
+ */
+export function getChecklistCompletion(tasks: Array<{ done: boolean }> | undefined): number | null {
+  if (!tasks || tasks.length === 0) return null;
+  const done = tasks.filter((task) => task.done).length;
+  return Math.round((done / tasks.length) * 100);
+}
+
+/**
+ * Unchecked copy of a session's or template's checklist for a new session
+ */
+export function copyChecklist(items: TemplateChecklistItemDto[] | undefined): CreateSessionTaskDto[] {
+  return (items ?? []).map((item) => ({
+    title: item.title,
+    estimatedMinutes: item.estimatedMinutes ?? null,
+  }));
+}
+
+/**
+ * Warning for a created or updated session that overlaps others, or null
+ */
+export function getConflictWarning(session: Pick<SessionResponse, 'conflicts'> | undefined): string | null {
+  const conflicts = session?.conflicts ?? [];
+  if (conflicts.length === 0) return null;
+  const [first] = conflicts;
+  return conflicts.length === 1
+    ? `Overlaps "${first.title}" by ${formatDuration(first.overlapMinutes)}`
+    : `Overlaps "${first.title}" and ${conflicts.length - 1} other session${conflicts.length > 2 ? 's' : ''}`;
 }
@@ -1,4 +1,4 @@
-import type { UserResponse } from './user.dto';
+import type { ISODateString } from './common.dto';
 
 /**
  * User registration DTO
@@ -17,14 +17,153 @@ export interface LoginDto {
   password: string;
 }
 
+/**
+ * Signed-in user as returned by the auth endpoints
+ */
+export interface AuthUserDto {
+  id: string;
+  email: string;
+  name: string | null;
+  /** Whether the link in the verification email has been followed */
+  emailVerified: boolean;
+  /** New address waiting for confirmation after an email change */
+  pendingEmail: string | null;
+}
+
 /**
  * Authentication response with user and tokens
  */
 export interface AuthResponse {
-  user: UserResponse;
+  user: AuthUserDto;
   accessToken: string;
 }
 
+/**
+ * Login response when the account has two-factor authentication on: the
+ * password was right, and the challenge token is exchanged together with
+ * an authenticator or recovery code for the usual tokens
+ */
+export interface TwoFactorChallengeDto {
+  twoFactorRequired: true;
+  challengeToken: string;
+  expiresAt: ISODateString;
+}
+
+/**
+ * Login response, either signed in or waiting for a second factor
+ */
+export type LoginResponse = AuthResponse | TwoFactorChallengeDto;
+
+/**
+ * Second login step
+ */
+export interface TwoFactorLoginDto {
+  challengeToken: string;
+  /** Six-digit authenticator code or an unused recovery code */
+  code: string;
+}
+
+/**
+ * Two-factor authentication state of the signed-in user
+ */
+export interface TwoFactorStatusDto {
+  enabled: boolean;
+  enabledAt: ISODateString | null;
+  /** Unused recovery codes, 0 while disabled */
+  recoveryCodesRemaining: number;
+}
+
+/**
+ * New authenticator secret, pending until a code from it is confirmed
+ */
+export interface TwoFactorSetupDto {
+  /** Base32 secret for entering by hand */
+  secret: string;
+  otpauthUri: string;
+  /** PNG data URL of the otpauth URI as a QR code */
+  qrCodeDataUrl: string;
+}
+
+/**
+ * Authenticator code confirming a two-factor change
+ */
+export interface TwoFactorCodeDto {
+  code: string;
+}
+
+/**
+ * Turning two-factor authentication off needs the password and a code
+ */
+export interface DisableTwoFactorDto {
+  password: string;
+  /** Authenticator code or an unused recovery code */
+  code: string;
+}
+
+/**
+ * Freshly generated recovery codes; they are only ever shown once
+ */
+export interface RecoveryCodesDto {
+  codes: string[];
+}
+
+/**
+ * Form factor guessed from the user agent
+ */
+export type DeviceType = 'desktop' | 'mobile' | 'tablet' | 'unknown';
+
+/**
+ * A signed-in device: one refresh token family, from login until logout
+ */
+export interface AuthSessionDto {
+  familyId: string;
+  /** Label like "Firefox on Linux" */
+  device: string;
+  browser: string | null;
+  os: string | null;
+  deviceType: DeviceType;
+  /** Address of the latest token refresh */
+  ipAddress: string | null;
+  /** Oldest token of the family still on record */
+  signedInAt: ISODateString;
+  lastUsedAt: ISODateString;
+  expiresAt: ISODateString;
+  /** The device making the request */
+  current: boolean;
+}
+
+/**
+ * Why a sign-in attempt failed
+ */
+export type LoginFailureReason =
+  | 'unknown_email'
+  | 'invalid_password'
+  | 'invalid_two_factor_code'
+  | 'account_locked';
+
+/**
+ * One sign-in attempt on the user's account
+ */
+export interface LoginEventDto {
+  id: string;
+  success: boolean;
+  reason: LoginFailureReason | null;
+  ipAddress: string | null;
+  /** Label like "Firefox on Linux" */
+  device: string;
+  deviceType: DeviceType;
+  createdAt: ISODateString;
+  /** When the user reported the attempt as not theirs */
+  reportedAt: ISODateString | null;
+}
+
+/**
+ * Query for the login activity list
+ */
+export interface LoginEventsQuery {
+  limit?: number;
+}
+
 /**
  * Refresh response
  */
@@ -46,3 +185,53 @@ export interface ChangePasswordDto {
   currentPassword: string;
   newPassword: string;
 }
+
+/**
+ * Profile fields the user can edit directly
+ */
+export interface UpdateProfileDto {
+  /** Empty or null clears the name */
+  name: string | null;
+}
+
+/**
+ * Move the account to another address; it takes effect once the link
+ * sent there is followed
+ */
+export interface ChangeEmailDto {
+  email: string;
+  password: string;
+}
+
+/**
+ * Permanently delete the account and everything in it
+ */
+export interface DeleteAccountDto {
+  password: string;
+  /** The account's email address, typed again as confirmation */
+  confirmEmail: string;
+  /** Required when two-factor authentication is on */
+  code?: string;
+}
+
+/**
+ * Ask for a password reset link
+ */
+export interface ForgotPasswordDto {
+  email: string;
+}
+
+/**
+ * Set a new password with the token from a reset link
+ */
+export interface ResetPasswordDto {
+  token: string;
+  password: string;
+}
+
+/**
+ * Confirm an email address with the token from a verification link
+ */
+export interface VerifyEmailDto {
+  token: string;
+}
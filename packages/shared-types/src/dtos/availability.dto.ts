@@ -0,0 +1,55 @@
+/**
+ * Weekly time range the user is free to study, in their local time
+ */
+export interface AvailabilityWindowDto {
+  id: string;
+  /** 0 = Sunday ... 6 = Saturday */
+  weekday: number;
+  /** Local time HH:mm */
+  start: string;
+  /** Local time HH:mm, exclusive; 24:00 runs to midnight */
+  end: string;
+}
+
+/**
+ * Window in a replace-all update of the weekly availability
+ */
+export type AvailabilityWindowInput = Omit<AvailabilityWindowDto, 'id'>;
+
+/**
+ * Replace the weekly availability DTO
+ */
+export interface ReplaceAvailabilityWindowsDto {
+  windows: AvailabilityWindowInput[];
+}
+
+/**
+ * Local days without availability, e.g. holidays or exam weeks
+ */
+export interface AvailabilityBlackoutDto {
+  id: string;
+  /** First local day (YYYY-MM-DD) */
+  startDate: string;
+  /** Last local day (YYYY-MM-DD), inclusive */
+  endDate: string;
+  reason: string | null;
+}
+
+/**
+ * Create blackout DTO
+ */
+export interface CreateAvailabilityBlackoutDto {
+  startDate: string;
+  /** Defaults to startDate */
+  endDate?: string;
+  reason?: string | null;
+}
+
+/**
+ * A user's weekly windows and upcoming blackouts. Without windows the
+ * planner falls back to 08:00-22:00 every day.
+ */
+export interface AvailabilityDto {
+  windows: AvailabilityWindowDto[];
+  blackouts: AvailabilityBlackoutDto[];
+}
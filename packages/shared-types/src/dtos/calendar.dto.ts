@@ -0,0 +1,20 @@
+import type { ISODateString } from './common.dto';
+
+/**
+ * Calendar feed status (the token itself is only returned once)
+ */
+export interface CalendarFeedStatusDto {
+  active: boolean;
+  createdAt: ISODateString | null;
+  lastAccessedAt: ISODateString | null;
+}
+
+/**
+ * Newly issued calendar feed token
+ */
+export interface CalendarFeedTokenDto {
+  token: string;
+  /** Feed path relative to the API base URL, e.g. /calendar/<token>.ics */
+  path: string;
+  createdAt: ISODateString;
+}
@@ -0,0 +1,51 @@
+import type { CategoryColor, CategoryIcon } from '../enums/category.enum';
+import type { ISODateString } from './common.dto';
+
+/**
+ * Category as embedded in sessions, series, templates and statistics
+ */
+export interface CategorySummaryDto {
+  id: string;
+  name: string;
+  color: CategoryColor;
+  icon: CategoryIcon;
+  parentId: string | null;
+}
+
+/**
+ * Category response DTO
+ */
+export interface CategoryResponse extends CategorySummaryDto {
+  /** Sessions filed directly under this category */
+  sessionCount: number;
+  createdAt: ISODateString;
+  updatedAt: ISODateString;
+}
+
+/**
+ * Create category DTO
+ */
+export interface CreateCategoryDto {
+  name: string;
+  color?: CategoryColor;
+  icon?: CategoryIcon;
+  parentId?: string | null;
+}
+
+/**
+ * Update category DTO
+ */
+export interface UpdateCategoryDto {
+  name?: string;
+  color?: CategoryColor;
+  icon?: CategoryIcon;
+  parentId?: string | null;
+}
+
+/**
+ * Delete category query; without reassignTo the category's sessions,
+ * series and templates become uncategorized
+ */
+export interface DeleteCategoryQuery {
+  reassignTo?: string;
+}
@@ -0,0 +1,48 @@
+import type { ISODateString } from './common.dto';
+
+/**
+ * Planned or running session taking part in an overlap
+ */
+export interface ConflictingSessionDto {
+  id: string;
+  title: string;
+  scheduledFor: ISODateString;
+  duration: number;
+}
+
+/**
+ * Another session a session overlaps with
+ */
+export interface SessionOverlapDto extends ConflictingSessionDto {
+  /** Minutes both sessions share */
+  overlapMinutes: number;
+}
+
+/**
+ * Query for the conflicts list
+ */
+export interface SessionConflictsQuery {
+  /** Defaults to now */
+  from?: ISODateString;
+  /** Defaults to 90 days after from */
+  to?: ISODateString;
+}
+
+/**
+ * Two planned or running sessions whose time ranges overlap; first starts no later than second
+ */
+export interface SessionConflictDto {
+  first: ConflictingSessionDto;
+  second: ConflictingSessionDto;
+  overlapMinutes: number;
+}
+
+/**
+ * Error body returned in strict scheduling mode when a session would overlap others
+ */
+export interface SessionConflictErrorDto {
+  statusCode: number;
+  code: 'SESSION_OVERLAP';
+  message: string;
+  conflicts: SessionOverlapDto[];
+}
@@ -0,0 +1,102 @@
+import type { ISODateString } from './common.dto';
+import type { CategorySummaryDto } from './category.dto';
+import type { GoalCadence, GoalMetric, GoalStatus } from '../enums/goal.enum';
+
+/**
+ * Create goal DTO
+ */
+export interface CreateGoalDto {
+  title: string;
+  metric: GoalMetric;
+  /** Hours, sessions or checklist items; per period for weekly and monthly goals */
+  target: number;
+  /** Defaults to 'once' */
+  cadence?: GoalCadence;
+  /** Only count this category and its subcategories */
+  categoryId?: string | null;
+  /** Only count sessions with at least one of these tags */
+  tags?: string[];
+  /** Defaults to now; nothing before it counts */
+  startDate?: ISODateString;
+  /** End of a 'once' goal; recurring goals stop after it */
+  deadline?: ISODateString | null;
+}
+
+/**
+ * Update goal DTO
+ */
+export interface UpdateGoalDto {
+  title?: string;
+  metric?: GoalMetric;
+  target?: number;
+  cadence?: GoalCadence;
+  /** null removes the category scope */
+  categoryId?: string | null;
+  tags?: string[];
+  startDate?: ISODateString;
+  /** null removes the deadline */
+  deadline?: ISODateString | null;
+}
+
+/**
+ * Progress of a goal in its current period. Amounts are in the goal's
+ * metric: hours, sessions or checklist items.
+ */
+export interface GoalProgressDto {
+  periodStart: ISODateString;
+  /** Exclusive; null for a 'once' goal without deadline */
+  periodEnd: ISODateString | null;
+  current: number;
+  target: number;
+  /** current / target in percent, capped at 100 */
+  percentage: number;
+  remaining: number;
+  /** What an even pace would have reached by now; null without period end */
+  expected: number | null;
+  /** Needed per day, today included, to finish in time; null when over or without period end */
+  requiredPerDay: number | null;
+  /** Days left in the period, today included; null without period end */
+  daysLeft: number | null;
+  status: GoalStatus;
+}
+
+/**
+ * Goal response DTO
+ */
+export interface GoalResponse {
+  id: string;
+  title: string;
+  metric: GoalMetric;
+  target: number;
+  cadence: GoalCadence;
+  categoryId: string | null;
+  category: CategorySummaryDto | null;
+  tags: string[];
+  startDate: ISODateString;
+  deadline: ISODateString | null;
+  progress: GoalProgressDto;
+  createdAt: ISODateString;
+  updatedAt: ISODateString;
+}
+
+/**
+ * One day of a burn-up chart
+ */
+export interface GoalBurnupPoint {
+  /** Day in the user's time zone (YYYY-MM-DD) */
+  date: string;
+  /** Cumulative amount at the end of the day; null for days still ahead */
+  actual: number | null;
+  /** Cumulative amount an even pace reaches by the end of the day; null without period end */
+  ideal: number | null;
+}
+
+/**
+ * Burn-up of a goal's current period
+ */
+export interface GoalBurnupDto {
+  goalId: string;
+  metric: GoalMetric;
+  target: number;
+  points: GoalBurnupPoint[];
+}
@@ -0,0 +1,72 @@
+import type { ISODateString } from './common.dto';
+import type { SessionResponse } from './session.dto';
+
+/**
+ * How a row that matches an existing session is applied
+ * - skip: keep the existing session untouched
+ * - overwrite: replace the existing session's details (status and tracked time are kept)
+ * - merge: fill empty fields of the existing session and combine tags
+ */
+export type ImportConflictStrategy = 'skip' | 'overwrite' | 'merge';
+
+/**
+ * Lifecycle of a stored import
+ */
+export type ImportStatus = 'preview' | 'committed' | 'rolled_back';
+
+/**
+ * Row selected for commit
+ */
+export interface CommitImportRowDto {
+  rowNumber: number;
+  /** Only used for rows matching an existing session, defaults to skip */
+  strategy?: ImportConflictStrategy;
+}
+
+/**
+ * Commit import DTO, rows not listed are not imported
+ */
+export interface CommitImportDto {
+  rows: CommitImportRowDto[];
+}
+
+/**
+ * Result of committing an import
+ */
+export interface ImportCommitResultDto {
+  importId: string;
+  created: number;
+  overwritten: number;
+  merged: number;
+  skipped: number;
+  failed: Array<{ rowNumber: number; error: string }>;
+  sessions: SessionResponse[];
+}
+
+/**
+ * Import history entry
+ */
+export interface ImportHistoryItemDto {
+  id: string;
+  fileName: string;
+  format: string;
+  status: ImportStatus;
+  totalRows: number;
+  createdCount: number;
+  overwrittenCount: number;
+  mergedCount: number;
+  skippedCount: number;
+  failedCount: number;
+  createdAt: ISODateString;
+  committedAt: ISODateString | null;
+  rolledBackAt: ISODateString | null;
+}
+
+/**
+ * Result of rolling back an import
+ */
+export interface ImportRollbackResultDto {
+  importId: string;
+  deletedCount: number;
+  restoredCount: number;
+}
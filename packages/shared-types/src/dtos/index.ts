@@ -3,3 +3,18 @@ export * from './auth.dto';
 export * from './user.dto';
 export * from './session.dto';
 export * from './progress.dto';
+export * from './series.dto';
+export * from './calendar.dto';
+export * from './import.dto';
+export * from './timer.dto';
+export * from './settings.dto';
+export * from './user-data.dto';
+export * from './search.dto';
+export * from './category.dto';
+export * from './tag.dto';
+export * from './session-task.dto';
+export * from './goal.dto';
+export * from './review.dto';
+export * from './availability.dto';
+export * from './planner.dto';
+export * from './conflict.dto';
@@ -0,0 +1,76 @@
+import type { ISODateString } from './common.dto';
+import type { CategorySummaryDto } from './category.dto';
+import type { SessionResponse } from './session.dto';
+import type { SessionPriority } from '../enums/session-priority.enum';
+
+/**
+ * What the planner should place
+ */
+export interface PlanRequestDto {
+  /** Unscheduled sessions to place; every unscheduled planned session when omitted */
+  sessionIds?: string[];
+  /** Hours and sessions goals to plan blocks for, up to what is still missing */
+  goalIds?: string[];
+  /** Days to plan, starting today; defaults to 7 */
+  days?: number;
+  /** Most minutes per day, existing sessions included; defaults to 240 */
+  dailyCapMinutes?: number;
+  /** Length of the blocks planned for goals; defaults to 60 */
+  goalBlockMinutes?: number;
+}
+
+/**
+ * Proposed slot for an unscheduled session or a new block towards a goal
+ */
+export interface PlanProposalDto {
+  /** Stable within one preview, e.g. for selection */
+  key: string;
+  /** Set when an existing session is moved into the slot */
+  sessionId: string | null;
+  /** Set when a new session is created for a goal */
+  goalId: string | null;
+  title: string;
+  duration: number;
+  priority: SessionPriority;
+  categoryId: string | null;
+  category: CategorySummaryDto | null;
+  tags: string[];
+  scheduledFor: ISODateString;
+}
+
+/**
+ * Session or goal the planner could not (fully) place
+ */
+export interface PlanUnplacedDto {
+  sessionId: string | null;
+  goalId: string | null;
+  title: string;
+  reason: string;
+}
+
+/**
+ * Proposed schedule; nothing is saved until it is applied
+ */
+export interface PlanPreviewDto {
+  from: ISODateString;
+  to: ISODateString;
+  dailyCapMinutes: number;
+  proposals: PlanProposalDto[];
+  unplaced: PlanUnplacedDto[];
+}
+
+/**
+ * Apply the accepted part of a preview DTO
+ */
+export interface ApplyPlanDto {
+  proposals: PlanProposalDto[];
+}
+
+/**
+ * Outcome of applying a plan. Proposals whose slot has been taken in the
+ * meantime, or whose session is no longer unscheduled, are skipped.
+ */
+export interface ApplyPlanResultDto {
+  scheduled: SessionResponse[];
+  skipped: PlanUnplacedDto[];
+}
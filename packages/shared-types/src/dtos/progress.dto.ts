@@ -6,8 +6,10 @@ import type { PaginatedResponse, ISODateString } from './common.dto';
 export interface CreateProgressDto {
   sessionId: string;
   notes?: string;
+  /** Recall rating 1-5; on a completed session it schedules the next review */
   rating?: number;
-  completionPercentage: number;
+  /** Defaults to the share of checklist items done when the session has a checklist */
+  completionPercentage?: number;
   recordedAt?: string;
 }
 
@@ -0,0 +1,20 @@
+import type { SessionResponse } from './session.dto';
+
+/**
+ * Query for the due reviews list
+ */
+export interface DueReviewsQuery {
+  /** Also include reviews due in the next N days (0 = due today or overdue) */
+  withinDays?: number;
+}
+
+/**
+ * Review session that is due, with the session its chain started from
+ */
+export interface DueReviewDto {
+  session: SessionResponse;
+  /** Null once the original session has been deleted */
+  original: { id: string; title: string } | null;
+  /** Local days past the due date; 0 when due today, negative when upcoming */
+  overdueDays: number;
+}
@@ -0,0 +1,62 @@
+import type { SessionStatus } from '../enums/session-status.enum';
+import type { SessionResponse } from './session.dto';
+
+/**
+ * Session search query.
+ * `q` is free text plus optional operators, e.g.
+ * `vocab tag:exam category:"Japanese N3" status:missed before:2026-11-01`.
+ * Repeating an operator (or listing values with commas) matches any of the values.
+ */
+export interface SessionSearchQuery {
+  q: string;
+  /** Opaque cursor from a previous page's nextCursor */
+  cursor?: string;
+  /** Page size, 1-50 (default 20) */
+  limit?: number;
+}
+
+/**
+ * How the server understood a search query
+ */
+export interface ParsedSessionSearchDto {
+  /** Free text left after removing operators */
+  text: string;
+  tags: string[];
+  /** Category names; each also matches its subcategories */
+  categories: string[];
+  statuses: SessionStatus[];
+  /** Calendar days (YYYY-MM-DD) in the user's time zone */
+  before: string | null;
+  after: string | null;
+}
+
+/**
+ * Piece of highlighted text; `match` marks the parts that hit the query
+ */
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+/**
+ * One ranked search result
+ */
+export interface SessionSearchHit {
+  session: SessionResponse;
+  /** Relevance, higher is better; 0 when the query has no free text */
+  rank: number;
+  /** Title with matches marked, null without free text */
+  titleHighlight: HighlightSegment[] | null;
+  /** Best excerpt from description, notes or progress notes, null if none matched */
+  snippet: HighlightSegment[] | null;
+}
+
+/**
+ * One page of search results
+ */
+export interface SessionSearchResponse {
+  hits: SessionSearchHit[];
+  /** Pass as `cursor` to get the next page; null on the last page */
+  nextCursor: string | null;
+  query: ParsedSessionSearchDto;
+}
@@ -0,0 +1,97 @@
+import type { SessionPriority } from '../enums/session-priority.enum';
+import type { ISODateString } from './common.dto';
+import type { CategorySummaryDto } from './category.dto';
+import type {
+  CreateSessionDto,
+  UpdateSessionDto,
+  RecurrencePattern,
+  SessionResponse,
+} from './session.dto';
+
+/**
+ * Scope of a series edit or delete, relative to the selected occurrence
+ */
+export type SeriesEditMode = 'this' | 'following' | 'all';
+
+/**
+ * Kind of deviation an occurrence has from its series
+ */
+export type SeriesExceptionType = 'moved' | 'cancelled';
+
+/**
+ * Create series DTO
+ */
+export interface CreateSeriesDto {
+  session: CreateSessionDto;
+  recurrence: RecurrencePattern;
+}
+
+/**
+ * Update series DTO (applies to the whole series)
+ */
+export interface UpdateSeriesDto {
+  title?: string;
+  description?: string | null;
+  categoryId?: string | null;
+  priority?: SessionPriority;
+  duration?: number;
+  color?: string | null;
+  tags?: string[];
+  notes?: string | null;
+  startDate?: string;
+  recurrence?: RecurrencePattern;
+}
+
+/**
+ * Update series occurrence DTO
+ */
+export interface UpdateSeriesOccurrenceDto {
+  mode: SeriesEditMode;
+  updates: UpdateSessionDto;
+  recurrence?: RecurrencePattern;
+}
+
+/**
+ * Series exception response
+ */
+export interface SeriesExceptionResponse {
+  id: string;
+  originalDate: ISODateString;
+  type: SeriesExceptionType;
+  sessionId: string | null;
+  createdAt: ISODateString;
+}
+
+/**
+ * Series response with ISO date strings for JSON serialization
+ */
+export interface SeriesResponse {
+  id: string;
+  title: string;
+  description: string | null;
+  categoryId: string | null;
+  category: CategorySummaryDto | null;
+  priority: SessionPriority;
+  duration: number;
+  color: string | null;
+  tags: string[];
+  notes: string | null;
+  recurrence: RecurrencePattern;
+  startDate: ISODateString;
+  materializedUntil: ISODateString | null;
+  exceptions: SeriesExceptionResponse[];
+  occurrenceCount: number;
+  userId: string;
+  createdAt: ISODateString;
+  updatedAt: ISODateString;
+}
+
+/**
+ * Result of a series-level operation
+ */
+export interface SeriesOperationResult {
+  mode: SeriesEditMode;
+  seriesId: string | null;
+  sessions: SessionResponse[];
+  deletedCount: number;
+}
@@ -0,0 +1,49 @@
+import type { ISODateString } from './common.dto';
+
+/**
+ * Create checklist item DTO; new items are appended to the end of the list
+ */
+export interface CreateSessionTaskDto {
+  title: string;
+  done?: boolean;
+  estimatedMinutes?: number | null;
+}
+
+/**
+ * Update checklist item DTO
+ */
+export interface UpdateSessionTaskDto {
+  title?: string;
+  done?: boolean;
+  estimatedMinutes?: number | null;
+}
+
+/**
+ * Reorder checklist DTO; must list every item of the session exactly once
+ */
+export interface ReorderSessionTasksDto {
+  taskIds: string[];
+}
+
+/**
+ * Checklist item response with ISO date strings for JSON serialization
+ */
+export interface SessionTaskResponse {
+  id: string;
+  sessionId: string;
+  title: string;
+  done: boolean;
+  estimatedMinutes: number | null;
+  position: number;
+  completedAt: ISODateString | null;
+  createdAt: ISODateString;
+  updatedAt: ISODateString;
+}
+
+/**
+ * Checklist item stored on a template and copied into new sessions
+ */
+export interface TemplateChecklistItemDto {
+  title: string;
+  estimatedMinutes?: number | null;
+}
@@ -1,7 +1,14 @@
-import type { SessionCategory } from '../enums/session-category.enum';
 import type { SessionStatus } from '../enums/session-status.enum';
 import type { SessionPriority } from '../enums/session-priority.enum';
 import type { PaginatedResponse, ISODateString, PaginationQuery } from './common.dto';
+import type { CategorySummaryDto } from './category.dto';
+import type { TagStatsDto } from './tag.dto';
+import type {
+  CreateSessionTaskDto,
+  SessionTaskResponse,
+  TemplateChecklistItemDto,
+} from './session-task.dto';
+import type { SessionOverlapDto } from './conflict.dto';
 
 /**
  * Create session DTO
@@ -9,14 +16,19 @@ import type { PaginatedResponse, ISODateString, PaginationQuery } from './common
 export interface CreateSessionDto {
   title: string;
   description?: string;
-  category: SessionCategory;
+  /** Omit or null for an uncategorized session */
+  categoryId?: string | null;
   status?: SessionStatus;
   priority?: SessionPriority;
   duration: number;
+  /** Minutes actually spent; required when creating a completed session */
+  actualDuration?: number;
   color?: string;
   tags?: string[];
   notes?: string;
   scheduledFor?: string;
+  /** Initial checklist, in order */
+  tasks?: CreateSessionTaskDto[];
 }
 
 /**
@@ -25,7 +37,7 @@ export interface CreateSessionDto {
 export interface UpdateSessionDto {
   title?: string;
   description?: string;
-  category?: SessionCategory;
+  categoryId?: string | null;
   status?: SessionStatus;
   priority?: SessionPriority;
   duration?: number;
@@ -45,7 +57,8 @@ export interface SessionResponse {
   id: string;
   title: string;
   description: string | null;
-  category: SessionCategory;
+  categoryId: string | null;
+  category: CategorySummaryDto | null;
   status: SessionStatus;
   priority: SessionPriority;
   duration: number;
@@ -57,6 +70,20 @@ export interface SessionResponse {
   startedAt: ISODateString | null;
   completedAt: ISODateString | null;
   userId: string;
+  seriesId: string | null;
+  originalScheduledFor: ISODateString | null;
+  /** Session this one reviews (the start of its review chain); null for regular sessions */
+  reviewOfId: string | null;
+  /** Successful reviews in a row before this one (SM-2 repetition) */
+  reviewRepetition: number | null;
+  /** Days between the previous session of the chain and this review */
+  reviewIntervalDays: number | null;
+  /** SM-2 ease factor this review was scheduled with */
+  reviewEase: number | null;
+  /** Checklist in position order */
+  tasks: SessionTaskResponse[];
+  /** Only in create and update responses: planned or running sessions this one overlaps */
+  conflicts?: SessionOverlapDto[];
   createdAt: ISODateString;
   updatedAt: ISODateString;
 }
@@ -70,7 +97,8 @@ export type SessionsListResponse = PaginatedResponse<SessionResponse>;
  * Session filters for query parameters
  */
 export interface SessionFilters {
-  category?: SessionCategory;
+  /** Matches the category and its subcategories */
+  categoryId?: string;
   status?: SessionStatus | SessionStatus[];
   priority?: SessionPriority | SessionPriority[];
   tags?: string[];
@@ -88,7 +116,7 @@ export interface CalendarSessionDto {
   startDate: string;
   endDate: string;
   view?: 'month' | 'week' | 'day';
-  categories?: SessionCategory[];
+  categoryIds?: string[];
   statuses?: SessionStatus[];
 }
 
@@ -107,10 +135,11 @@ export interface SessionStatsDto {
 }
 
 /**
- * Category statistics DTO
+ * Category statistics DTO; category is null for uncategorized sessions
  */
 export interface CategoryStatsDto {
-  category: SessionCategory;
+  categoryId: string | null;
+  category: CategorySummaryDto | null;
   totalSessions: number;
   completedSessions: number;
   totalDuration: number;
@@ -149,9 +178,14 @@ export interface ProductivityMetricsDto {
   completionRate: number;
   onTimeCompletionRate: number;
   averageDelayDays: number;
-  mostProductiveCategory: SessionCategory;
+  /** Name of the category with the best completion rate, null without sessions */
+  mostProductiveCategory: string | null;
   mostProductiveTimeOfDay: string;
   streakDays: number;
+  /** Pomodoro focus cycles finished in the period */
+  pomodoroCycles: number;
+  /** Minutes of focus time from those cycles */
+  pomodoroFocusMinutes: number;
 }
 
 /**
@@ -160,13 +194,14 @@ export interface ProductivityMetricsDto {
 export interface DetailedStatsDto {
   overview: SessionStatsDto;
   byCategory: CategoryStatsDto[];
+  byTag: TagStatsDto[];
   trends: TrendDataPoint[];
   timeDistribution: TimeDistributionDto;
   productivity: ProductivityMetricsDto;
 }
 
 /**
- * Recurrence pattern for bulk session creation
+ * Recurrence pattern for bulk session creation and session series
  */
 export interface RecurrencePattern {
   frequency: 'daily' | 'weekly' | 'monthly';
@@ -204,12 +239,13 @@ export interface CreateTemplateDto {
   name: string;
   title: string;
   description?: string;
-  category: SessionCategory;
+  categoryId?: string | null;
   priority?: SessionPriority;
   duration: number;
   color?: string;
   tags?: string[];
   notes?: string;
+  checklist?: TemplateChecklistItemDto[];
 }
 
 /**
@@ -219,12 +255,14 @@ export interface UpdateTemplateDto {
   name?: string;
   title?: string;
   description?: string;
-  category?: SessionCategory;
+  categoryId?: string | null;
   priority?: SessionPriority;
   duration?: number;
   color?: string;
   tags?: string[];
   notes?: string;
+  /** Replaces the whole default checklist */
+  checklist?: TemplateChecklistItemDto[];
 }
 
 /**
@@ -235,12 +273,15 @@ export interface TemplateResponse {
   name: string;
   title: string;
   description: string | null;
-  category: SessionCategory;
+  categoryId: string | null;
+  category: CategorySummaryDto | null;
   priority: SessionPriority;
   duration: number;
   color: string | null;
   tags: string[];
   notes: string | null;
+  /** Default checklist copied into sessions created from the template */
+  checklist: TemplateChecklistItemDto[];
   userId: string;
   createdAt: ISODateString;
   updatedAt: ISODateString;
@@ -250,7 +291,7 @@ export interface TemplateResponse {
  * Template filters for querying
  */
 export interface TemplateFilters {
-  category?: SessionCategory;
+  categoryId?: string;
   search?: string;
   tags?: string[];
 }
@@ -278,6 +319,8 @@ export interface FileImportResultDto {
   };
   rows: ParsedSessionRowDto[];
   errors: string[];
+  /** Stored preview, pass to the commit endpoint to apply selected rows */
+  importId: string;
 }
 
 /**
@@ -285,11 +328,26 @@ export interface FileImportResultDto {
  */
 export interface ParsedSessionRowDto {
   rowNumber: number;
+  /** categoryId is resolved from categoryName when the row is committed */
   session: CreateSessionDto;
+  /** Category as named in the file; missing categories are created on commit */
+  categoryName: string | null;
   status: 'success' | 'warning' | 'error';
   errors: string[];
   warnings: string[];
   isDuplicate: boolean;
+  /** Existing session with the same title and scheduledFor, if any */
+  existingSession?: ExistingSessionMatchDto;
+}
+
+/**
+ * Existing session an imported row collides with
+ */
+export interface ExistingSessionMatchDto {
+  id: string;
+  title: string;
+  scheduledFor: ISODateString | null;
+  status: SessionStatus;
 }
 
 /**
@@ -317,21 +375,39 @@ export interface BulkDeleteDto {
  */
 export interface BulkOperationResult {
   successful: string[];
-  failed: Array<{ id: string; error: string }>;
+  failed: Array<{ id: string; error: string; code?: SessionStatusErrorCode }>;
   totalProcessed: number;
 }
 
+/**
+ * Reasons a status change is rejected
+ */
+export type SessionStatusErrorCode = 'INVALID_STATUS_TRANSITION' | 'ACTUAL_DURATION_REQUIRED';
+
+/**
+ * Error body returned when a status change is rejected
+ */
+export interface SessionStatusErrorDto {
+  statusCode: number;
+  code: SessionStatusErrorCode;
+  message: string;
+  from: SessionStatus;
+  to: SessionStatus;
+  /** Statuses the session can move to from its current status */
+  allowed: SessionStatus[];
+}
+
 /**
  * Export format type
  */
-export type ExportFormat = 'csv' | 'json';
+export type ExportFormat = 'csv' | 'json' | 'ics';
 
 /**
  * Session suggestion DTO
  */
 export interface SessionSuggestionDto {
   suggestedTitle: string;
-  suggestedCategory: SessionCategory;
+  suggestedCategory: CategorySummaryDto | null;
   suggestedDuration: number;
   suggestedTags: string[];
   reason: string;
@@ -358,6 +434,7 @@ export interface GamificationSummaryDto {
   currentStreak: number;
   longestStreak: number;
   totalSessionsCompleted: number;
+  totalPomodoroCycles: number;
   achievements: AchievementDto[];
   level: number;
   experiencePoints: number;
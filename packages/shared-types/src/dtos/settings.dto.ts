@@ -0,0 +1,32 @@
+/**
+ * Per-user preferences
+ */
+export interface UserSettingsDto {
+  /** IANA time zone, e.g. Europe/Zurich */
+  timezone: string;
+  /** First day of the week, 0 = Sunday ... 6 = Saturday */
+  weekStartDay: number;
+  /** BCP 47 language tag, e.g. de-CH */
+  locale: string;
+  /** Minutes after a planned session's end before it counts as missed */
+  missedGraceMinutes: number;
+  /** Move missed sessions into the next free slot instead of marking them missed */
+  autoRescheduleMissed: boolean;
+  /** Plan spaced-repetition reviews when a completed session gets a recall rating */
+  scheduleReviews: boolean;
+  /** Reject sessions that would overlap another planned or running session */
+  strictScheduling: boolean;
+}
+
+/**
+ * Update user settings DTO
+ */
+export type UpdateUserSettingsDto = Partial<UserSettingsDto>;
+
+/**
+ * Outcome of a missed-session check for one user
+ */
+export interface MissedSessionsResultDto {
+  markedMissed: number;
+  rescheduled: number;
+}
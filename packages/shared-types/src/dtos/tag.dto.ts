@@ -0,0 +1,45 @@
+import type { CategoryColor } from '../enums/category.enum';
+
+/**
+ * Tag with usage counts. Tags live on sessions and templates as plain
+ * strings; color comes from the tag's stored metadata (gray by default).
+ */
+export interface TagResponse {
+  name: string;
+  /** Palette key, same palette as categories */
+  color: CategoryColor;
+  sessionCount: number;
+  templateCount: number;
+}
+
+/**
+ * Rename a tag and/or change its color
+ */
+export interface UpdateTagDto {
+  /** New name; renaming onto an existing tag is rejected, merge instead */
+  name?: string;
+  color?: CategoryColor;
+}
+
+/**
+ * Merge tags into one; sources are replaced by the target everywhere
+ */
+export interface MergeTagsDto {
+  sources: string[];
+  /** Existing or new tag name */
+  target: string;
+}
+
+/**
+ * Time spent per tag. A session with several tags counts towards each of them.
+ */
+export interface TagStatsDto {
+  tag: string;
+  color: CategoryColor;
+  totalSessions: number;
+  completedSessions: number;
+  /** Planned minutes */
+  totalDuration: number;
+  /** Minutes actually spent on completed sessions */
+  completedDuration: number;
+}
@@ -0,0 +1,117 @@
+import type { ISODateString } from './common.dto';
+import type { SessionResponse } from './session.dto';
+
+/**
+ * Timer state: running while a segment is open, paused between segments
+ */
+export type TimerState = 'running' | 'paused';
+
+/**
+ * Pomodoro phase of a running timer
+ */
+export type PomodoroPhase = 'focus' | 'short_break' | 'long_break';
+
+/**
+ * Per-user Pomodoro configuration (lengths in minutes)
+ */
+export interface PomodoroSettingsDto {
+  focusMinutes: number;
+  shortBreakMinutes: number;
+  longBreakMinutes: number;
+  /** Focus cycles before a long break replaces the short one */
+  cyclesBeforeLongBreak: number;
+}
+
+/**
+ * Update Pomodoro settings DTO
+ */
+export type UpdatePomodoroSettingsDto = Partial<PomodoroSettingsDto>;
+
+/**
+ * Pomodoro state of the active timer
+ */
+export interface PomodoroStateDto {
+  phase: PomodoroPhase;
+  phaseStartedAt: ISODateString;
+  phaseLengthSeconds: number;
+  /** Focus time tracked in the current focus phase, or wall time in a break */
+  phaseElapsedSeconds: number;
+  /** Focus cycles finished since the timer was started */
+  runCycles: number;
+  /** Focus cycles finished on this session overall */
+  sessionCycles: number;
+  settings: PomodoroSettingsDto;
+}
+
+/**
+ * A continuous stretch of tracked work on a session
+ */
+export interface TimerSegmentDto {
+  id: string;
+  sessionId: string;
+  startedAt: ISODateString;
+  /** Null while the segment is still running */
+  endedAt: ISODateString | null;
+}
+
+/**
+ * The user's active timer (at most one at a time)
+ */
+export interface ActiveTimerDto {
+  sessionId: string;
+  session: SessionResponse;
+  state: TimerState;
+  startedAt: ISODateString;
+  pausedAt: ISODateString | null;
+  /** All segments of the session, including ones from earlier timer runs */
+  segments: TimerSegmentDto[];
+  /** Seconds tracked across all segments at serverTime */
+  elapsedSeconds: number;
+  /** Null unless Pomodoro mode is on */
+  pomodoro: PomodoroStateDto | null;
+  serverTime: ISODateString;
+}
+
+/**
+ * Start timer DTO
+ */
+export interface StartTimerDto {
+  sessionId: string;
+  /** Start in Pomodoro mode */
+  pomodoro?: boolean;
+}
+
+/**
+ * Turn Pomodoro mode on or off for the active timer
+ */
+export interface SetPomodoroDto {
+  enabled: boolean;
+}
+
+/**
+ * Move the Pomodoro to its next phase
+ */
+export interface AdvancePomodoroDto {
+  /** Phase the client is leaving; the request is ignored if the timer already moved on */
+  from: PomodoroPhase;
+  /** Leave a focus phase early without counting a cycle */
+  skip?: boolean;
+}
+
+/**
+ * Stop timer DTO
+ */
+export interface StopTimerDto {
+  /** Mark the session completed (default true); otherwise it stays in progress */
+  complete?: boolean;
+}
+
+/**
+ * Result of stopping the timer
+ */
+export interface StopTimerResultDto {
+  session: SessionResponse;
+  /** Minutes computed from the session's segments */
+  actualDuration: number;
+  segments: TimerSegmentDto[];
+}
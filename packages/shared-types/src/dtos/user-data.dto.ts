@@ -0,0 +1,82 @@
+import type { ISODateString } from './common.dto';
+
+/**
+ * Kind of item that can be starred
+ */
+export type FavoriteItemType = 'session' | 'template';
+
+/**
+ * IDs of everything the user has starred
+ */
+export interface FavoritesDto {
+  sessionIds: string[];
+  templateIds: string[];
+}
+
+/**
+ * Star a session or template
+ */
+export interface AddFavoriteDto {
+  itemType: FavoriteItemType;
+  itemId: string;
+}
+
+/**
+ * Mark a session as recently opened
+ */
+export interface RecordRecentItemDto {
+  sessionId: string;
+}
+
+/**
+ * Unsaved create-session form contents, as raw form values
+ */
+export interface SessionDraftData {
+  title?: string;
+  description?: string;
+  categoryId?: string;
+  status?: string;
+  priority?: string;
+  duration?: number;
+  /** datetime-local input value (yyyy-MM-ddTHH:mm) */
+  scheduledFor?: string;
+  tags?: string[];
+  notes?: string;
+}
+
+/**
+ * Server-side copy of the create-session form
+ */
+export interface SessionDraftDto {
+  data: SessionDraftData;
+  updatedAt: ISODateString;
+}
+
+/**
+ * Save the create-session draft
+ */
+export interface SaveSessionDraftDto {
+  data: SessionDraftData;
+}
+
+/**
+ * Favorites, recent sessions and draft previously kept in browser storage.
+ * Unknown or foreign IDs are skipped.
+ */
+export interface ImportLocalDataDto {
+  favoriteSessionIds?: string[];
+  favoriteTemplateIds?: string[];
+  /** Most recent first */
+  recentSessionIds?: string[];
+  sessionDraft?: SessionDraftData | null;
+}
+
+/**
+ * What a local data import added
+ */
+export interface ImportLocalDataResultDto {
+  favorites: number;
+  recentItems: number;
+  /** False when the server already had a draft, which is kept */
+  draftImported: boolean;
+}
@@ -1,4 +1,3 @@
-import type { SessionCategory } from '../enums/session-category.enum';
 import type { SessionStatus } from '../enums/session-status.enum';
 import type { SessionPriority } from '../enums/session-priority.enum';
 import type { User } from './user.entity';
@@ -10,7 +9,7 @@ export interface Session {
   id: string;
   title: string;
   description: string | null;
-  category: SessionCategory;
+  categoryId: string | null;
   status: SessionStatus;
   priority: SessionPriority;
   duration: number;
@@ -22,6 +21,8 @@ export interface Session {
   startedAt: Date | null;
   completedAt: Date | null;
   userId: string;
+  seriesId: string | null;
+  originalScheduledFor: Date | null;
   createdAt: Date;
   updatedAt: Date;
 }
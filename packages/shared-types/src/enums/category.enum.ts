@@ -0,0 +1,57 @@
+/**
+ * Palette keys a category color can take; clients map each key to their own styles
+ */
+export const CATEGORY_COLORS = [
+  'gray',
+  'red',
+  'orange',
+  'amber',
+  'green',
+  'teal',
+  'cyan',
+  'blue',
+  'indigo',
+  'purple',
+  'pink',
+] as const;
+
+export type CategoryColor = (typeof CATEGORY_COLORS)[number];
+
+/**
+ * Icon keys a category can use
+ */
+export const CATEGORY_ICONS = [
+  'folder',
+  'graduation-cap',
+  'code',
+  'languages',
+  'user',
+  'book-open',
+  'calculator',
+  'flask',
+  'globe',
+  'music',
+  'palette',
+  'dumbbell',
+  'brain',
+  'briefcase',
+] as const;
+
+export type CategoryIcon = (typeof CATEGORY_ICONS)[number];
+
+/**
+ * Categories every new account starts with. `key` names the fixed category
+ * sessions used before categories were user-defined.
+ */
+export const DEFAULT_CATEGORIES: ReadonlyArray<{
+  key: 'school' | 'programming' | 'language' | 'personal' | 'other';
+  name: string;
+  color: CategoryColor;
+  icon: CategoryIcon;
+}> = [
+  { key: 'school', name: 'School', color: 'blue', icon: 'graduation-cap' },
+  { key: 'programming', name: 'Programming', color: 'purple', icon: 'code' },
+  { key: 'language', name: 'Language', color: 'green', icon: 'languages' },
+  { key: 'personal', name: 'Personal', color: 'orange', icon: 'user' },
+  { key: 'other', name: 'Other', color: 'gray', icon: 'folder' },
+];
@@ -0,0 +1,21 @@
+/**
+ * What a goal counts: hours spent, completed sessions or completed checklist items
+ */
+export const GOAL_METRICS = ['hours', 'sessions', 'tasks'] as const;
+
+export type GoalMetric = (typeof GOAL_METRICS)[number];
+
+/**
+ * How often a goal's target resets. A 'once' goal runs from its start date
+ * to its deadline; weekly and monthly goals restart every period.
+ */
+export const GOAL_CADENCES = ['once', 'weekly', 'monthly'] as const;
+
+export type GoalCadence = (typeof GOAL_CADENCES)[number];
+
+/**
+ * Where a goal stands in its current period
+ */
+export const GOAL_STATUSES = ['completed', 'on_track', 'behind', 'missed', 'open'] as const;
+
+export type GoalStatus = (typeof GOAL_STATUSES)[number];
@@ -1,3 +1,4 @@
-export * from './session-category.enum';
+export * from './category.enum';
 export * from './session-status.enum';
 export * from './session-priority.enum';
+export * from './goal.enum';
@@ -21,3 +21,38 @@ export const SESSION_STATUS_COLORS = {
   missed: 'red',
   cancelled: 'gray',
 } as const;
+
+/**
+ * Allowed status changes per current status. Saving a session with its
+ * current status is always allowed. Enforced by the API on update and bulk update.
+ */
+export const SESSION_STATUS_TRANSITIONS: Record<SessionStatus, readonly SessionStatus[]> = {
+  [SessionStatus.PLANNED]: [
+    SessionStatus.IN_PROGRESS,
+    SessionStatus.COMPLETED,
+    SessionStatus.MISSED,
+    SessionStatus.CANCELLED,
+  ],
+  [SessionStatus.IN_PROGRESS]: [
+    SessionStatus.PLANNED,
+    SessionStatus.COMPLETED,
+    SessionStatus.MISSED,
+    SessionStatus.CANCELLED,
+  ],
+  // Reopening a completed session puts it back in progress
+  [SessionStatus.COMPLETED]: [SessionStatus.IN_PROGRESS],
+  [SessionStatus.MISSED]: [
+    SessionStatus.PLANNED,
+    SessionStatus.IN_PROGRESS,
+    SessionStatus.COMPLETED,
+    SessionStatus.CANCELLED,
+  ],
+  [SessionStatus.CANCELLED]: [SessionStatus.PLANNED],
+};
+
+/**
+ * Check a status change against SESSION_STATUS_TRANSITIONS
+ */
+export function canTransitionSessionStatus(from: SessionStatus, to: SessionStatus): boolean {
+  return from === to || (SESSION_STATUS_TRANSITIONS[from]?.includes(to) ?? false);
+}